@@ -17,14 +17,19 @@ import {
   DEFAULT_FOCUS,
   DEFAULT_NODE_SIZE,
   DEFAULT_EXPANDED,
+  DEFAULT_BRANCH,
+  DEFAULT_AGENT,
+  DEFAULT_TIMELINE,
   DEFAULT_CAMERA,
   DEFAULT_SELECTION,
+  DEFAULT_LOD,
 } from './layout';
 import {
   DEFAULT_NODE_THEMES,
   DEFAULT_HIGHLIGHT,
   DEFAULT_CONNECTION_LINE,
   DEFAULT_CLUSTER_LINE,
+  DEFAULT_BRANCH_LINE,
   DEFAULT_SCENE,
   DEFAULT_CHART_COLORS,
   DEFAULT_WORD_HIGHLIGHT_PALETTE,
@@ -46,6 +51,11 @@ import {
   DEFAULT_SCROLL,
   DEFAULT_RENDERER,
 } from './ui';
+import {
+  DEFAULT_MODEL_CONFIG,
+  DEFAULT_CONTEXT_LIMITS,
+  getContextLimit,
+} from './models';
 
 describe('config/layout', () => {
   it('DEFAULT_COIL has valid values', () => {
@@ -81,19 +91,57 @@ describe('config/layout', () => {
     expect(DEFAULT_CAMERA.dampingFactor).toBeLessThanOrEqual(1);
   });
 
+  it('DEFAULT_BRANCH has valid values', () => {
+    expect(DEFAULT_BRANCH.radius).toBeGreaterThan(0);
+    expect(DEFAULT_BRANCH.verticalStep).toBeGreaterThan(0);
+    expect(DEFAULT_BRANCH.drift).toBeGreaterThanOrEqual(0);
+    expect(DEFAULT_BRANCH.nodeOpacity).toBeGreaterThan(0);
+    expect(DEFAULT_BRANCH.nodeOpacity).toBeLessThanOrEqual(1);
+    expect(DEFAULT_BRANCH.nodeScale).toBeGreaterThan(0);
+  });
+
+  it('DEFAULT_AGENT has valid values', () => {
+    expect(DEFAULT_AGENT.radius).toBeGreaterThan(0);
+    expect(DEFAULT_AGENT.verticalStep).toBeGreaterThan(0);
+    expect(DEFAULT_AGENT.inset).toBeGreaterThanOrEqual(0);
+    expect(DEFAULT_AGENT.nodeScale).toBeGreaterThan(0);
+    expect(DEFAULT_AGENT.nodeScale).toBeLessThanOrEqual(1);
+  });
+
+  it('DEFAULT_TIMELINE has valid values', () => {
+    expect(DEFAULT_TIMELINE.length).toBeGreaterThan(0);
+    expect(DEFAULT_TIMELINE.minSpacing).toBeGreaterThan(0);
+    expect(DEFAULT_TIMELINE.maxGap).toBeGreaterThan(0);
+    expect(DEFAULT_TIMELINE.laneSpacing).toBeGreaterThan(0);
+  });
+
   it('DEFAULT_SELECTION has valid scale factor', () => {
     expect(DEFAULT_SELECTION.selectedScale).toBeGreaterThan(1);
     expect(DEFAULT_SELECTION.visibilityThreshold).toBeGreaterThan(0);
     expect(DEFAULT_SELECTION.visibilityThreshold).toBeLessThan(1);
   });
 
+  it('DEFAULT_LOD has valid distances', () => {
+    expect(DEFAULT_LOD.lowDetailDistance).toBeGreaterThan(0);
+    expect(DEFAULT_LOD.lowDetailSegments).toBeGreaterThanOrEqual(3);
+    expect(DEFAULT_LOD.lowDetailSegments).toBeLessThan(DEFAULT_NODE_SIZE.clusterSegments);
+    expect(DEFAULT_LOD.blockHideDistance).toBeGreaterThan(0);
+    expect(DEFAULT_LOD.lineDecimationDistance).toBeGreaterThan(0);
+    expect(DEFAULT_LOD.lineDecimationStep).toBeGreaterThanOrEqual(2);
+    expect(DEFAULT_LOD.refreshDistance).toBeGreaterThan(0);
+  });
+
   it('DEFAULT_LAYOUT_CONFIG combines all layout configs', () => {
     expect(DEFAULT_LAYOUT_CONFIG.coil).toBe(DEFAULT_COIL);
     expect(DEFAULT_LAYOUT_CONFIG.focus).toBe(DEFAULT_FOCUS);
     expect(DEFAULT_LAYOUT_CONFIG.nodeSize).toBe(DEFAULT_NODE_SIZE);
     expect(DEFAULT_LAYOUT_CONFIG.expanded).toBe(DEFAULT_EXPANDED);
+    expect(DEFAULT_LAYOUT_CONFIG.branch).toBe(DEFAULT_BRANCH);
+    expect(DEFAULT_LAYOUT_CONFIG.agent).toBe(DEFAULT_AGENT);
+    expect(DEFAULT_LAYOUT_CONFIG.timeline).toBe(DEFAULT_TIMELINE);
     expect(DEFAULT_LAYOUT_CONFIG.camera).toBe(DEFAULT_CAMERA);
     expect(DEFAULT_LAYOUT_CONFIG.selection).toBe(DEFAULT_SELECTION);
+    expect(DEFAULT_LAYOUT_CONFIG.lod).toBe(DEFAULT_LOD);
   });
 });
 
@@ -149,6 +197,7 @@ describe('config/theme', () => {
     expect(DEFAULT_THEME_CONFIG.highlight).toBe(DEFAULT_HIGHLIGHT);
     expect(DEFAULT_THEME_CONFIG.connectionLine).toBe(DEFAULT_CONNECTION_LINE);
     expect(DEFAULT_THEME_CONFIG.clusterLine).toBe(DEFAULT_CLUSTER_LINE);
+    expect(DEFAULT_THEME_CONFIG.branchLine).toBe(DEFAULT_BRANCH_LINE);
     expect(DEFAULT_THEME_CONFIG.scene).toBe(DEFAULT_SCENE);
     expect(DEFAULT_THEME_CONFIG.chart).toBe(DEFAULT_CHART_COLORS);
     expect(DEFAULT_THEME_CONFIG.wordHighlightPalette).toBe(DEFAULT_WORD_HIGHLIGHT_PALETTE);
@@ -249,6 +298,7 @@ describe('config/ui', () => {
 
   it('DEFAULT_RENDERER has valid pixel ratio limit', () => {
     expect(DEFAULT_RENDERER.maxPixelRatio).toBeGreaterThan(0);
+    expect(typeof DEFAULT_RENDERER.frustumCulling).toBe('boolean');
   });
 
   it('DEFAULT_UI_CONFIG combines all UI configs', () => {
@@ -261,12 +311,47 @@ describe('config/ui', () => {
   });
 });
 
+describe('config/models', () => {
+  it('DEFAULT_CONTEXT_LIMITS has positive windows', () => {
+    for (const limit of DEFAULT_CONTEXT_LIMITS) {
+      expect(limit.prefix.length).toBeGreaterThan(0);
+      expect(limit.contextWindow).toBeGreaterThan(0);
+    }
+  });
+
+  it('getContextLimit matches model id prefixes', () => {
+    expect(getContextLimit('claude-sonnet-4-5-20250929')).toBe(200_000);
+    expect(getContextLimit('gpt-4o-mini')).toBe(128_000);
+    expect(getContextLimit('gpt-4-0613')).toBe(8_192);
+    expect(getContextLimit('o1-mini')).toBe(128_000);
+    expect(getContextLimit('o1-preview')).toBe(200_000);
+  });
+
+  it('getContextLimit ignores provider prefixes and case', () => {
+    expect(getContextLimit('anthropic/Claude-3-Opus')).toBe(200_000);
+    expect(getContextLimit('openrouter/google/gemini-2.5-pro')).toBe(1_048_576);
+  });
+
+  it('getContextLimit falls back to the default window', () => {
+    expect(getContextLimit('llama-3-70b')).toBeUndefined();
+    expect(getContextLimit(undefined)).toBeUndefined();
+    expect(getContextLimit('llama-3-70b', { ...DEFAULT_MODEL_CONFIG, defaultContextWindow: 8000 })).toBe(8000);
+  });
+
+  it('getContextLimit uses a custom table in order', () => {
+    const config = { contextLimits: [{ prefix: 'my-model', contextWindow: 32_000 }] };
+    expect(getContextLimit('my-model-v2', config)).toBe(32_000);
+    expect(getContextLimit('claude-3-haiku', config)).toBeUndefined();
+  });
+});
+
 describe('config/index', () => {
   it('DEFAULT_APP_CONFIG combines all config modules', () => {
     expect(DEFAULT_APP_CONFIG.layout).toBe(DEFAULT_LAYOUT_CONFIG);
     expect(DEFAULT_APP_CONFIG.theme).toBe(DEFAULT_THEME_CONFIG);
     expect(DEFAULT_APP_CONFIG.timing).toBe(DEFAULT_TIMING_CONFIG);
     expect(DEFAULT_APP_CONFIG.ui).toBe(DEFAULT_UI_CONFIG);
+    expect(DEFAULT_APP_CONFIG.models).toBe(DEFAULT_MODEL_CONFIG);
   });
 
   describe('createConfig', () => {
@@ -276,6 +361,7 @@ describe('config/index', () => {
       expect(config.theme).toEqual(DEFAULT_THEME_CONFIG);
       expect(config.timing).toEqual(DEFAULT_TIMING_CONFIG);
       expect(config.ui).toEqual(DEFAULT_UI_CONFIG);
+      expect(config.models).toEqual(DEFAULT_MODEL_CONFIG);
     });
 
     it('merges shallow overrides', () => {
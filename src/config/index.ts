@@ -12,6 +12,7 @@ export * from './timing';
 export * from './ui';
 export * from './sources';
 export * from './ui-text';
+export * from './models';
 
 import {
   type LayoutConfig,
@@ -33,6 +34,11 @@ import {
   DEFAULT_UI_CONFIG,
 } from './ui';
 
+import {
+  type ModelConfig,
+  DEFAULT_MODEL_CONFIG,
+} from './models';
+
 /**
  * Complete application configuration
  */
@@ -45,6 +51,8 @@ export interface AppConfig {
   timing: TimingConfig;
   /** UI constraints and display */
   ui: UIConfig;
+  /** Per-model facts such as context limits */
+  models: ModelConfig;
 }
 
 /**
@@ -58,6 +66,7 @@ export const DEFAULT_APP_CONFIG: AppConfig = {
   theme: DEFAULT_THEME_CONFIG,
   timing: DEFAULT_TIMING_CONFIG,
   ui: DEFAULT_UI_CONFIG,
+  models: DEFAULT_MODEL_CONFIG,
 };
 
 /**
@@ -69,6 +78,7 @@ export function createConfig(overrides: Partial<AppConfig>): AppConfig {
     theme: { ...DEFAULT_THEME_CONFIG, ...overrides.theme },
     timing: { ...DEFAULT_TIMING_CONFIG, ...overrides.timing },
     ui: { ...DEFAULT_UI_CONFIG, ...overrides.ui },
+    models: { ...DEFAULT_MODEL_CONFIG, ...overrides.models },
   };
 }
 
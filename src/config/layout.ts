@@ -59,6 +59,10 @@ export interface NodeSizeConfig {
   toolResultSize: number;
   /** Cluster sphere segments */
   clusterSegments: number;
+  /** Radius of the ring marking a compaction boundary */
+  boundaryRadius: number;
+  /** Tube radius of the compaction ring */
+  boundaryTube: number;
 }
 
 /**
@@ -113,6 +117,76 @@ export interface SelectionConfig {
   visibilityThreshold: number;
 }
 
+/**
+ * Side spirals for abandoned conversation branches
+ */
+export interface BranchLayoutConfig {
+  /** Radius of a side spiral */
+  radius: number;
+  /** Angle step per cluster (radians) */
+  angleStep: number;
+  /** Vertical distance per cluster */
+  verticalStep: number;
+  /** Outward drift of the spiral axis per cluster */
+  drift: number;
+  /** Angle between branches forking from the same cluster (radians) */
+  fanAngle: number;
+  /** Opacity of side spiral nodes */
+  nodeOpacity: number;
+  /** Scale of side spiral nodes relative to main clusters */
+  nodeScale: number;
+}
+
+/**
+ * Smaller coils for sub-agent sidechains
+ */
+export interface AgentLayoutConfig {
+  /** Radius of an agent coil */
+  radius: number;
+  /** Angle step per cluster (radians) */
+  angleStep: number;
+  /** Vertical distance per cluster */
+  verticalStep: number;
+  /** Distance from the spawning cluster to the coil axis, toward the main axis */
+  inset: number;
+  /** Angle between agents spawned from the same cluster (radians) */
+  fanAngle: number;
+  /** Scale of agent cluster nodes relative to main clusters */
+  nodeScale: number;
+}
+
+/**
+ * Time-proportional timeline layout (alternative to the coil)
+ */
+export interface TimelineLayoutConfig {
+  /** Axis length the session's duration is spread over */
+  length: number;
+  /** Minimum distance between consecutive clusters */
+  minSpacing: number;
+  /** Longest pause drawn to scale (milliseconds); longer ones are capped */
+  maxGap: number;
+  /** Distance between the main lane and sub-agent/branch lanes */
+  laneSpacing: number;
+}
+
+/**
+ * Level of detail by distance from the camera (world units)
+ */
+export interface LodConfig {
+  /** Beyond this distance, sphere nodes use low-poly geometry */
+  lowDetailDistance: number;
+  /** Sphere segments for low-poly nodes */
+  lowDetailSegments: number;
+  /** Beyond this distance, expanded clusters hide their block nodes and connection line and show their cluster node again */
+  blockHideDistance: number;
+  /** Beyond this distance, the cluster line keeps only every `lineDecimationStep`-th point */
+  lineDecimationDistance: number;
+  /** Point step for decimated cluster line segments */
+  lineDecimationStep: number;
+  /** Camera movement after which line detail is recomputed */
+  refreshDistance: number;
+}
+
 /**
  * Complete layout configuration
  */
@@ -121,8 +195,12 @@ export interface LayoutConfig {
   focus: FocusConfig;
   nodeSize: NodeSizeConfig;
   expanded: ExpandedLayoutConfig;
+  branch: BranchLayoutConfig;
+  agent: AgentLayoutConfig;
+  timeline: TimelineLayoutConfig;
   camera: CameraConfig;
   selection: SelectionConfig;
+  lod: LodConfig;
 }
 
 /**
@@ -160,6 +238,8 @@ export const DEFAULT_NODE_SIZE: NodeSizeConfig = {
   toolUseSegments: 6,
   toolResultSize: 0.3,
   clusterSegments: 24,
+  boundaryRadius: 1.8,
+  boundaryTube: 0.08,
 };
 
 /**
@@ -174,6 +254,41 @@ export const DEFAULT_EXPANDED: ExpandedLayoutConfig = {
   descendAngle: 0.6,
 };
 
+/**
+ * Default side spiral layout for abandoned branches
+ */
+export const DEFAULT_BRANCH: BranchLayoutConfig = {
+  radius: 2,
+  angleStep: Math.PI / 4,
+  verticalStep: 1.2,
+  drift: 0.6,
+  fanAngle: Math.PI / 6,
+  nodeOpacity: 0.35,
+  nodeScale: 0.6,
+};
+
+/**
+ * Default coil layout for sub-agent sidechains
+ */
+export const DEFAULT_AGENT: AgentLayoutConfig = {
+  radius: 1.5,
+  angleStep: Math.PI / 4,
+  verticalStep: 0.8,
+  inset: 1.5,
+  fanAngle: Math.PI / 5,
+  nodeScale: 0.7,
+};
+
+/**
+ * Default timeline layout
+ */
+export const DEFAULT_TIMELINE: TimelineLayoutConfig = {
+  length: 80,
+  minSpacing: 1.5,
+  maxGap: 10 * 60 * 1000,
+  laneSpacing: 4,
+};
+
 /**
  * Default camera configuration
  */
@@ -197,6 +312,18 @@ export const DEFAULT_SELECTION: SelectionConfig = {
   visibilityThreshold: 0.01,
 };
 
+/**
+ * Default level-of-detail distances
+ */
+export const DEFAULT_LOD: LodConfig = {
+  lowDetailDistance: 60,
+  lowDetailSegments: 8,
+  blockHideDistance: 80,
+  lineDecimationDistance: 80,
+  lineDecimationStep: 4,
+  refreshDistance: 5,
+};
+
 /**
  * Complete default layout configuration
  */
@@ -205,6 +332,10 @@ export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
   focus: DEFAULT_FOCUS,
   nodeSize: DEFAULT_NODE_SIZE,
   expanded: DEFAULT_EXPANDED,
+  branch: DEFAULT_BRANCH,
+  agent: DEFAULT_AGENT,
+  timeline: DEFAULT_TIMELINE,
   camera: DEFAULT_CAMERA,
   selection: DEFAULT_SELECTION,
+  lod: DEFAULT_LOD,
 };
@@ -0,0 +1,71 @@
+/**
+ * Model Configuration
+ *
+ * Per-model facts that the UI needs but traces don't record,
+ * such as the size of each model's context window.
+ */
+
+/**
+ * Context window size for a family of models
+ */
+export interface ModelContextLimit {
+  /** Model id prefix, matched case-insensitively (e.g. 'claude', 'gpt-4o') */
+  prefix: string;
+  /** Context window size in tokens */
+  contextWindow: number;
+}
+
+/**
+ * Model configuration
+ */
+export interface ModelConfig {
+  /** Context limits, checked in order; the first matching prefix wins */
+  contextLimits: ModelContextLimit[];
+  /** Limit for models missing from the table (no limit line if unset) */
+  defaultContextWindow?: number;
+}
+
+/**
+ * Default context limits, most specific prefixes first
+ */
+export const DEFAULT_CONTEXT_LIMITS: ModelContextLimit[] = [
+  { prefix: 'claude', contextWindow: 200_000 },
+  { prefix: 'gpt-5', contextWindow: 400_000 },
+  { prefix: 'gpt-4.1', contextWindow: 1_047_576 },
+  { prefix: 'gpt-4o', contextWindow: 128_000 },
+  { prefix: 'gpt-4-turbo', contextWindow: 128_000 },
+  { prefix: 'gpt-4', contextWindow: 8_192 },
+  { prefix: 'gpt-3.5-turbo', contextWindow: 16_385 },
+  { prefix: 'o1-mini', contextWindow: 128_000 },
+  { prefix: 'o1', contextWindow: 200_000 },
+  { prefix: 'o3', contextWindow: 200_000 },
+  { prefix: 'o4-mini', contextWindow: 200_000 },
+  { prefix: 'codex-mini', contextWindow: 200_000 },
+  { prefix: 'gemini-1.5-pro', contextWindow: 2_097_152 },
+  { prefix: 'gemini', contextWindow: 1_048_576 },
+];
+
+/**
+ * Complete default model configuration
+ */
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  contextLimits: DEFAULT_CONTEXT_LIMITS,
+};
+
+/**
+ * Look up a model's context window
+ *
+ * Provider prefixes such as 'anthropic/' or 'openai/' are ignored.
+ *
+ * @returns The limit in tokens, or undefined if the model is unknown
+ */
+export function getContextLimit(
+  model: string | undefined,
+  config: ModelConfig = DEFAULT_MODEL_CONFIG
+): number | undefined {
+  if (!model) return config.defaultContextWindow;
+
+  const id = model.slice(model.lastIndexOf('/') + 1).toLowerCase();
+  const match = config.contextLimits.find(limit => id.startsWith(limit.prefix.toLowerCase()));
+  return match?.contextWindow ?? config.defaultContextWindow;
+}
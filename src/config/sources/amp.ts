@@ -0,0 +1,42 @@
+/**
+ * Amp source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const ampSource: SourceConfig = {
+  id: 'amp',
+  name: 'Amp',
+  description: 'Exported Amp threads',
+
+  fileExtensions: ['.json', '.json.gz', '.json.zst', '.json.zstd'],
+
+  ui: {
+    icon: 'amp',
+
+    badges: {
+      sidechain: 'sub-agent',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main thread',
+      sidechainLabel: 'Sub-agent',
+      sidechainDescription: 'This turn is from a sub-agent or the oracle',
+    },
+
+    metadataFields: [
+      'model',
+      'git_branch',
+      'duration_ms',
+      'cwd',
+    ],
+
+    defaultTitle: 'Amp Thread',
+  },
+
+  capabilities: {
+    hasSubAgents: true,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
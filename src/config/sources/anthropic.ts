@@ -0,0 +1,38 @@
+/**
+ * Anthropic Messages API source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const anthropicApiSource: SourceConfig = {
+  id: 'anthropic-api',
+  name: 'Anthropic API',
+  description: 'Raw Anthropic Messages API requests and responses',
+
+  fileExtensions: ['.json', '.jsonl', '.json.gz', '.jsonl.gz', '.jsonl.zst', '.jsonl.zstd'],
+
+  ui: {
+    icon: 'claude',
+
+    badges: {
+      sidechain: 'sidechain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+    },
+
+    metadataFields: [
+      'model',
+      'duration_ms',
+    ],
+
+    defaultTitle: 'Anthropic API Session',
+  },
+
+  capabilities: {
+    hasSubAgents: false,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * ChatGPT source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const chatgptSource: SourceConfig = {
+  id: 'chatgpt',
+  name: 'ChatGPT',
+  description: 'ChatGPT data export (conversations.json)',
+
+  fileExtensions: ['.json', '.json.gz', '.json.zst', '.json.zstd'],
+
+  ui: {
+    icon: 'openai',
+
+    badges: {
+      sidechain: 'sidechain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+    },
+
+    metadataFields: [
+      'model',
+      'duration_ms',
+    ],
+
+    defaultTitle: 'ChatGPT Conversation',
+  },
+
+  capabilities: {
+    hasSubAgents: false,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
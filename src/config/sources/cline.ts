@@ -0,0 +1,39 @@
+/**
+ * Cline / Roo Code source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const clineSource: SourceConfig = {
+  id: 'cline',
+  name: 'Cline / Roo Code',
+  description: 'Cline-style VS Code agent task histories',
+
+  fileExtensions: ['.json', '.json.gz', '.json.zst', '.json.zstd'],
+
+  ui: {
+    icon: 'cline',
+
+    badges: {
+      sidechain: 'sidechain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+    },
+
+    metadataFields: [
+      'model',
+      'duration_ms',
+      'cwd',
+    ],
+
+    defaultTitle: 'Cline Task',
+  },
+
+  capabilities: {
+    hasSubAgents: false,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
@@ -0,0 +1,40 @@
+/**
+ * Codex CLI source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const codexCliSource: SourceConfig = {
+  id: 'codex-cli',
+  name: 'Codex CLI',
+  description: 'Codex CLI session rollouts',
+
+  fileExtensions: ['.jsonl', '.jsonl.gz', '.jsonl.zst', '.jsonl.zstd'],
+
+  ui: {
+    icon: 'codex',
+
+    badges: {
+      sidechain: 'sidechain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+    },
+
+    metadataFields: [
+      'model',
+      'git_branch',
+      'duration_ms',
+      'cwd',
+    ],
+
+    defaultTitle: 'Codex CLI Session',
+  },
+
+  capabilities: {
+    hasSubAgents: false,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
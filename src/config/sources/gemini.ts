@@ -0,0 +1,38 @@
+/**
+ * Gemini CLI source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const geminiCliSource: SourceConfig = {
+  id: 'gemini-cli',
+  name: 'Gemini CLI',
+  description: 'Gemini CLI chat checkpoints and session recordings',
+
+  fileExtensions: ['.json', '.jsonl', '.json.gz', '.jsonl.gz', '.json.zst', '.json.zstd'],
+
+  ui: {
+    icon: 'gemini',
+
+    badges: {
+      sidechain: 'sidechain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+    },
+
+    metadataFields: [
+      'model',
+      'duration_ms',
+    ],
+
+    defaultTitle: 'Gemini CLI Session',
+  },
+
+  capabilities: {
+    hasSubAgents: false,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
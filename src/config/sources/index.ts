@@ -3,6 +3,16 @@
  */
 
 import { claudeCodeSource } from './claude-code';
+import { anthropicApiSource } from './anthropic';
+import { openaiSource } from './openai';
+import { geminiCliSource } from './gemini';
+import { codexCliSource } from './codex';
+import { chatgptSource } from './chatgpt';
+import { ampSource } from './amp';
+import { clineSource } from './cline';
+import { otelSource } from './otel';
+import { langsmithSource } from './langsmith';
+import { thinkingTracerSource } from './thinking-tracer';
 
 /**
  * Configuration for a trace source
@@ -126,6 +136,16 @@ export const sourceRegistry = new SourceRegistry();
 
 // Register built-in sources
 sourceRegistry.register(claudeCodeSource);
+sourceRegistry.register(anthropicApiSource);
+sourceRegistry.register(openaiSource);
+sourceRegistry.register(geminiCliSource);
+sourceRegistry.register(codexCliSource);
+sourceRegistry.register(chatgptSource);
+sourceRegistry.register(ampSource);
+sourceRegistry.register(clineSource);
+sourceRegistry.register(otelSource);
+sourceRegistry.register(langsmithSource);
+sourceRegistry.register(thinkingTracerSource);
 
 // Re-export source configs for direct access
-export { claudeCodeSource };
+export { claudeCodeSource, anthropicApiSource, openaiSource, geminiCliSource, codexCliSource, chatgptSource, ampSource, clineSource, otelSource, langsmithSource, thinkingTracerSource };
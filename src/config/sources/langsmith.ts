@@ -0,0 +1,40 @@
+/**
+ * LangSmith source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const langsmithSource: SourceConfig = {
+  id: 'langsmith',
+  name: 'LangSmith',
+  description: 'LangSmith / LangChain run-tree exports',
+
+  fileExtensions: ['.json', '.json.gz', '.json.zst', '.json.zstd'],
+
+  ui: {
+    icon: 'langsmith',
+
+    badges: {
+      sidechain: 'chain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+      sidechainLabel: 'Nested chain',
+      sidechainDescription: 'This turn is from a nested chain run',
+    },
+
+    metadataFields: [
+      'model',
+      'duration_ms',
+    ],
+
+    defaultTitle: 'LangSmith Trace',
+  },
+
+  capabilities: {
+    hasSubAgents: true,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
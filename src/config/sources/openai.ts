@@ -0,0 +1,38 @@
+/**
+ * OpenAI source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const openaiSource: SourceConfig = {
+  id: 'openai',
+  name: 'OpenAI',
+  description: 'OpenAI Chat Completions and Responses API request/response logs',
+
+  fileExtensions: ['.json', '.jsonl', '.json.gz', '.jsonl.gz', '.jsonl.zst', '.jsonl.zstd'],
+
+  ui: {
+    icon: 'openai',
+
+    badges: {
+      sidechain: 'sidechain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+    },
+
+    metadataFields: [
+      'model',
+      'duration_ms',
+    ],
+
+    defaultTitle: 'OpenAI Session',
+  },
+
+  capabilities: {
+    hasSubAgents: false,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
@@ -0,0 +1,40 @@
+/**
+ * OpenTelemetry GenAI source configuration
+ */
+
+import type { SourceConfig } from './index';
+
+export const otelSource: SourceConfig = {
+  id: 'otel',
+  name: 'OpenTelemetry GenAI',
+  description: 'OTLP/JSON trace exports following the GenAI semantic conventions',
+
+  fileExtensions: ['.json', '.jsonl', '.json.gz', '.jsonl.gz', '.jsonl.zst', '.jsonl.zstd'],
+
+  ui: {
+    icon: 'otel',
+
+    badges: {
+      sidechain: 'sub-agent',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main agent',
+      sidechainLabel: 'Sub-agent',
+      sidechainDescription: 'This turn is from a nested agent span',
+    },
+
+    metadataFields: [
+      'model',
+      'duration_ms',
+    ],
+
+    defaultTitle: 'OpenTelemetry Trace',
+  },
+
+  capabilities: {
+    hasSubAgents: true,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: false,
+  },
+};
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { sourceRegistry, claudeCodeSource, type SourceConfig } from './index';
+import { sourceRegistry, claudeCodeSource, anthropicApiSource, openaiSource, geminiCliSource, codexCliSource, chatgptSource, ampSource, clineSource, otelSource, langsmithSource, thinkingTracerSource, type SourceConfig } from './index';
+import { getUIText } from '../ui-text';
 
 describe('SourceRegistry', () => {
   describe('built-in sources', () => {
@@ -29,6 +30,78 @@ describe('SourceRegistry', () => {
     });
   });
 
+  describe('anthropicApiSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('anthropic-api')).toBe(anthropicApiSource);
+    });
+
+    it('only shows metadata available in API captures', () => {
+      expect(sourceRegistry.getMetadataFields('anthropic-api')).toEqual(['model', 'duration_ms']);
+    });
+  });
+
+  describe('openaiSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('openai')).toBe(openaiSource);
+    });
+
+    it('supports JSON and JSONL logs', () => {
+      expect(openaiSource.fileExtensions).toContain('.json');
+      expect(openaiSource.fileExtensions).toContain('.jsonl');
+    });
+
+    it('has no sub-agent support', () => {
+      expect(sourceRegistry.hasCapability('openai', 'hasSubAgents')).toBe(false);
+      expect(sourceRegistry.hasCapability('openai', 'hasThinking')).toBe(true);
+    });
+  });
+
+  describe('geminiCliSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('gemini-cli')).toBe(geminiCliSource);
+    });
+
+    it('supports JSON checkpoints and recordings', () => {
+      expect(geminiCliSource.fileExtensions).toContain('.json');
+    });
+
+    it('has thinking and tool use but no sub-agents', () => {
+      expect(sourceRegistry.hasCapability('gemini-cli', 'hasSubAgents')).toBe(false);
+      expect(sourceRegistry.hasCapability('gemini-cli', 'hasThinking')).toBe(true);
+      expect(sourceRegistry.hasCapability('gemini-cli', 'hasToolUse')).toBe(true);
+    });
+  });
+
+  describe('codexCliSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('codex-cli')).toBe(codexCliSource);
+    });
+
+    it('supports JSONL rollouts', () => {
+      expect(codexCliSource.fileExtensions).toContain('.jsonl');
+    });
+
+    it('has thinking and tool use but no sub-agents', () => {
+      expect(sourceRegistry.hasCapability('codex-cli', 'hasSubAgents')).toBe(false);
+      expect(sourceRegistry.hasCapability('codex-cli', 'hasThinking')).toBe(true);
+      expect(sourceRegistry.hasCapability('codex-cli', 'hasToolUse')).toBe(true);
+    });
+  });
+
+  describe('chatgptSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('chatgpt')).toBe(chatgptSource);
+    });
+
+    it('supports JSON exports', () => {
+      expect(chatgptSource.fileExtensions).toContain('.json');
+    });
+
+    it('has no sub-agents', () => {
+      expect(sourceRegistry.hasCapability('chatgpt', 'hasSubAgents')).toBe(false);
+    });
+  });
+
   describe('claudeCodeSource config', () => {
     it('has correct id and name', () => {
       expect(claudeCodeSource.id).toBe('claude-code');
@@ -53,6 +126,84 @@ describe('SourceRegistry', () => {
     });
   });
 
+  describe('ampSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('amp')).toBe(ampSource);
+    });
+
+    it('supports JSON threads', () => {
+      expect(ampSource.fileExtensions).toContain('.json');
+    });
+
+    it('has sub-agents, thinking and tool use', () => {
+      expect(sourceRegistry.hasCapability('amp', 'hasSubAgents')).toBe(true);
+      expect(sourceRegistry.hasCapability('amp', 'hasThinking')).toBe(true);
+      expect(sourceRegistry.hasCapability('amp', 'hasToolUse')).toBe(true);
+    });
+
+    it('labels sub-agent turns through the shared UI text', () => {
+      expect(getUIText('amp', 'sidechainBadge')).toBe('sub-agent');
+      expect(getUIText('amp', 'mainConversationLabel')).toBe('Main thread');
+      expect(getUIText('amp', 'sidechainDescription')).toBe('This turn is from a sub-agent or the oracle');
+      expect(getUIText('codex-cli', 'sidechainDescription')).toBe('This turn is from a sub-agent');
+    });
+  });
+
+  describe('clineSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('cline')).toBe(clineSource);
+    });
+
+    it('supports JSON task histories', () => {
+      expect(clineSource.fileExtensions).toContain('.json');
+    });
+
+    it('has thinking and tool use but no sub-agents', () => {
+      expect(sourceRegistry.hasCapability('cline', 'hasSubAgents')).toBe(false);
+      expect(sourceRegistry.hasCapability('cline', 'hasThinking')).toBe(true);
+      expect(sourceRegistry.hasCapability('cline', 'hasToolUse')).toBe(true);
+    });
+  });
+
+  describe('otelSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('otel')).toBe(otelSource);
+    });
+
+    it('supports OTLP/JSON documents and JSONL exports', () => {
+      expect(otelSource.fileExtensions).toContain('.json');
+      expect(otelSource.fileExtensions).toContain('.jsonl');
+    });
+
+    it('labels nested agents as sub-agents', () => {
+      expect(sourceRegistry.hasCapability('otel', 'hasSubAgents')).toBe(true);
+      expect(getUIText('otel', 'sidechainBadge')).toBe('sub-agent');
+    });
+  });
+
+  describe('langsmithSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('langsmith')).toBe(langsmithSource);
+    });
+
+    it('labels nested chains as sidechains', () => {
+      expect(sourceRegistry.hasCapability('langsmith', 'hasSubAgents')).toBe(true);
+      expect(getUIText('langsmith', 'sidechainBadge')).toBe('chain');
+    });
+  });
+
+  describe('thinkingTracerSource config', () => {
+    it('is registered by default', () => {
+      expect(sourceRegistry.get('thinking-tracer')).toBe(thinkingTracerSource);
+    });
+
+    it('supports every feature of the conversation model', () => {
+      for (const capability of ['hasSubAgents', 'hasThinking', 'hasToolUse', 'hasSummaries'] as const) {
+        expect(sourceRegistry.hasCapability('thinking-tracer', capability)).toBe(true);
+      }
+    });
+  });
+
   describe('getUIText', () => {
     it('returns badge text for known source', () => {
       const text = sourceRegistry.getUIText('claude-code', 'sidechain', 'default');
@@ -0,0 +1,45 @@
+/**
+ * thinking-tracer interchange format source configuration
+ *
+ * Applies to documents whose conversation does not name its own source;
+ * documents that do (e.g. an exported Claude Code session) keep that
+ * source's configuration.
+ */
+
+import type { SourceConfig } from './index';
+
+export const thinkingTracerSource: SourceConfig = {
+  id: 'thinking-tracer',
+  name: 'thinking-tracer',
+  description: 'Traces converted to the canonical thinking-tracer interchange format',
+
+  fileExtensions: ['.json', '.json.gz', '.json.zst', '.json.zstd'],
+
+  ui: {
+    icon: 'thinking-tracer',
+
+    badges: {
+      sidechain: 'sidechain',
+      agent: 'agent',
+      subAgent: 'Sub-agent',
+      mainConversation: 'Main conversation',
+    },
+
+    metadataFields: [
+      'model',
+      'source_version',
+      'git_branch',
+      'duration_ms',
+      'cwd',
+    ],
+
+    defaultTitle: 'Conversation',
+  },
+
+  capabilities: {
+    hasSubAgents: true,
+    hasThinking: true,
+    hasToolUse: true,
+    hasSummaries: true,
+  },
+};
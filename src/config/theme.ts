@@ -45,6 +45,8 @@ export interface NodeThemes {
   toolResultSuccess: NodeTheme;
   document: NodeTheme;
   cluster: NodeTheme;
+  /** Ring marking a compaction boundary */
+  boundary: NodeTheme;
 }
 
 /**
@@ -101,6 +103,9 @@ export interface ChartColors {
   thinkingCount: string;
   toolCount: string;
   contentLength: string;
+  contextTokens: string;
+  /** Context limit line */
+  contextLimit: string;
   background: string;
 }
 
@@ -131,6 +136,7 @@ export interface ThemeConfig {
   highlight: HighlightTheme;
   connectionLine: LineTheme;
   clusterLine: LineTheme;
+  branchLine: LineTheme;
   scene: SceneTheme;
   chart: ChartColors;
   wordHighlightPalette: HighlightPalette;
@@ -173,6 +179,10 @@ export const DEFAULT_NODE_THEMES: NodeThemes = {
     color: 0x5a9a7a, // Teal (blend of user blue + assistant green)
     material: { roughness: 0.3, metalness: 0.1 },
   },
+  boundary: {
+    color: 0xe67e22, // Amber
+    material: { roughness: 0.4, emissive: 0x3a1f08 },
+  },
 };
 
 /**
@@ -205,6 +215,15 @@ export const DEFAULT_CLUSTER_LINE: LineTheme = {
   width: 6,
 };
 
+/**
+ * Default line theme for side spirals (abandoned branches)
+ */
+export const DEFAULT_BRANCH_LINE: LineTheme = {
+  color: 0x8888aa, // Muted lavender
+  opacity: 0.35,
+  width: 3,
+};
+
 /**
  * Default scene theme
  */
@@ -228,6 +247,8 @@ export const DEFAULT_CHART_COLORS: ChartColors = {
   thinkingCount: '#9b59b6', // Purple
   toolCount: '#f39c12', // Orange
   contentLength: '#888888', // Gray
+  contextTokens: '#1abc9c', // Teal
+  contextLimit: '#e74c3c', // Red
   background: '#2a2a40', // Dark
 };
 
@@ -265,6 +286,7 @@ export const DEFAULT_THEME_CONFIG: ThemeConfig = {
   highlight: DEFAULT_HIGHLIGHT,
   connectionLine: DEFAULT_CONNECTION_LINE,
   clusterLine: DEFAULT_CLUSTER_LINE,
+  branchLine: DEFAULT_BRANCH_LINE,
   scene: DEFAULT_SCENE,
   chart: DEFAULT_CHART_COLORS,
   wordHighlightPalette: DEFAULT_WORD_HIGHLIGHT_PALETTE,
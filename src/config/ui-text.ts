@@ -38,6 +38,17 @@ const DEFAULT_UI_TEXT: UITextKeys = {
   mainConversationLabel: 'Main conversation',
 };
 
+/**
+ * SourceConfig.ui.badges keys that label the same thing as a UI text key.
+ * Other UI text keys are looked up in the badges under their own name.
+ */
+const BADGE_KEYS: Partial<Record<keyof UITextKeys, string>> = {
+  sidechainBadge: 'sidechain',
+  agentBadge: 'agent',
+  subAgentLabel: 'subAgent',
+  mainConversationLabel: 'mainConversation',
+};
+
 /**
  * Source-specific UI text overrides
  */
@@ -72,9 +83,10 @@ export function getUIText(sourceId: string | undefined, key: keyof UITextKeys):
 
   // Fall back to source registry badges
   if (sourceId) {
-    const source = sourceRegistry.get(sourceId);
-    if (source?.ui.badges[key]) {
-      return source.ui.badges[key];
+    const badges = sourceRegistry.get(sourceId)?.ui.badges;
+    const badge = badges?.[key] ?? badges?.[BADGE_KEYS[key] ?? key];
+    if (badge) {
+      return badge;
     }
   }
 
@@ -77,6 +77,8 @@ export interface ScrollConfig {
 export interface RendererConfig {
   /** Maximum pixel ratio (for performance on high-DPI displays) */
   maxPixelRatio: number;
+  /** Skip drawing nodes outside the camera's view */
+  frustumCulling: boolean;
 }
 
 /**
@@ -144,6 +146,7 @@ export const DEFAULT_SCROLL: ScrollConfig = {
  */
 export const DEFAULT_RENDERER: RendererConfig = {
   maxPixelRatio: 2,
+  frustumCulling: true,
 };
 
 /**
@@ -0,0 +1,254 @@
+/**
+ * Unit tests for instanced node rendering
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as THREE from 'three';
+import { InstancedNodes } from './InstancedNodes';
+
+const KEYS = ['user', 'assistant', 'thinking', 'tool_use', 'tool_result'];
+
+function createNodes(): InstancedNodes {
+  const nodes = new InstancedNodes();
+  const geometry = new THREE.SphereGeometry(0.5, 8, 8);
+  KEYS.forEach((key, i) => {
+    nodes.defineBatch(key, geometry, new THREE.MeshBasicMaterial({ color: 0x100000 * (i + 1) }));
+  });
+  return nodes;
+}
+
+/** Meshes the renderer would issue a draw call for */
+function countDrawCalls(nodes: InstancedNodes): number {
+  let calls = 0;
+  nodes.group.traverseVisible(object => {
+    if (object instanceof THREE.InstancedMesh && object.count > 0) calls++;
+  });
+  return calls;
+}
+
+function rayAlongZ(x: number, y: number): THREE.Raycaster {
+  return new THREE.Raycaster(new THREE.Vector3(x, y, 10), new THREE.Vector3(0, 0, -1));
+}
+
+describe('InstancedNodes', () => {
+  let nodes: InstancedNodes;
+
+  beforeEach(() => {
+    nodes = createNodes();
+  });
+
+  afterEach(() => {
+    nodes.dispose();
+  });
+
+  describe('draw calls', () => {
+    it('stay flat as the node count grows', () => {
+      const calls: number[] = [];
+
+      for (const count of [10, 1_000, 10_000]) {
+        nodes.clear();
+        for (let i = 0; i < count; i++) {
+          const node = nodes.add(KEYS[i % KEYS.length]);
+          node.object.position.set(i, Math.sin(i), 0);
+        }
+        nodes.sync();
+        calls.push(countDrawCalls(nodes));
+      }
+
+      expect(calls).toEqual([KEYS.length, KEYS.length, KEYS.length]);
+    });
+
+    it('skip batches without visible nodes', () => {
+      const hidden = nodes.add('user');
+      hidden.object.visible = false;
+      nodes.add('assistant');
+      nodes.sync();
+
+      expect(countDrawCalls(nodes)).toBe(1);
+    });
+  });
+
+  describe('sync', () => {
+    it('writes position and scale into the instance matrix', () => {
+      const node = nodes.add('user', { baseScale: 2 });
+      node.object.position.set(1, 2, 3);
+      node.object.scale.setScalar(1.5);
+      nodes.sync();
+
+      const mesh = nodes.group.children[0] as THREE.InstancedMesh;
+      const matrix = new THREE.Matrix4();
+      mesh.getMatrixAt(0, matrix);
+      const position = new THREE.Vector3();
+      const scale = new THREE.Vector3();
+      matrix.decompose(position, new THREE.Quaternion(), scale);
+
+      expect(position.toArray()).toEqual([1, 2, 3]);
+      expect(scale.x).toBeCloseTo(3);
+    });
+
+    it('grows the batch when nodes are added later', () => {
+      nodes.add('user');
+      nodes.sync();
+      for (let i = 0; i < 100; i++) nodes.add('user');
+      nodes.sync();
+
+      const mesh = nodes.group.children[0] as THREE.InstancedMesh;
+      expect(nodes.group.children).toHaveLength(1);
+      expect(mesh.count).toBe(101);
+    });
+  });
+
+  describe('colours', () => {
+    it('use the batch material colour by default', () => {
+      const node = nodes.add('assistant');
+      expect(nodes.getColor(node)).toBe(0x200000);
+    });
+
+    it('can be overridden and restored', () => {
+      const node = nodes.add('user', { color: 0x123456 });
+      nodes.setColor(node, 0xffff00);
+      expect(nodes.getColor(node)).toBe(0xffff00);
+
+      nodes.setColor(node, null);
+      expect(nodes.getColor(node)).toBe(0x123456);
+    });
+
+    it('are written per instance', () => {
+      nodes.add('user');
+      const node = nodes.add('user');
+      nodes.setColor(node, 0x00ff00);
+      nodes.sync();
+
+      const mesh = nodes.group.children[0] as THREE.InstancedMesh;
+      const color = new THREE.Color();
+      mesh.getColorAt(1, color);
+      expect(color.getHex()).toBe(0x00ff00);
+    });
+  });
+
+  describe('intersect', () => {
+    it('returns the node under the ray', () => {
+      const a = nodes.add('user');
+      const b = nodes.add('assistant');
+      a.object.position.set(0, 0, 0);
+      b.object.position.set(5, 0, 0);
+
+      expect(nodes.intersect(rayAlongZ(5, 0))).toEqual([b]);
+    });
+
+    it('returns nearest nodes first', () => {
+      const far = nodes.add('user');
+      const near = nodes.add('thinking');
+      far.object.position.set(0, 0, -5);
+      near.object.position.set(0, 0, 5);
+
+      expect(nodes.intersect(rayAlongZ(0, 0))).toEqual([near, far]);
+    });
+
+    it('ignores hidden nodes', () => {
+      const node = nodes.add('user');
+      node.object.visible = false;
+
+      expect(nodes.intersect(rayAlongZ(0, 0))).toEqual([]);
+    });
+  });
+
+  describe('remove', () => {
+    it('keeps the remaining nodes pickable', () => {
+      const a = nodes.add('user');
+      const b = nodes.add('user');
+      const c = nodes.add('user');
+      a.object.position.set(0, 0, 0);
+      b.object.position.set(5, 0, 0);
+      c.object.position.set(10, 0, 0);
+      nodes.sync();
+
+      nodes.remove(a);
+
+      expect(nodes.intersect(rayAlongZ(10, 0))).toEqual([c]);
+      expect(nodes.intersect(rayAlongZ(0, 0))).toEqual([]);
+      expect((nodes.group.children[0] as THREE.InstancedMesh).count).toBe(2);
+    });
+  });
+
+  describe('level of detail', () => {
+    const full = new THREE.SphereGeometry(0.5, 16, 16);
+    const low = new THREE.SphereGeometry(0.5, 4, 4);
+    let camera: THREE.PerspectiveCamera;
+    let lod: InstancedNodes;
+
+    /** Geometries of the meshes that are drawn */
+    function drawnGeometries(): THREE.BufferGeometry[] {
+      const geometries: THREE.BufferGeometry[] = [];
+      lod.group.traverseVisible(object => {
+        if (object instanceof THREE.InstancedMesh && object.count > 0) geometries.push(object.geometry);
+      });
+      return geometries;
+    }
+
+    beforeEach(() => {
+      // Looking down -Z from z = 10
+      camera = new THREE.PerspectiveCamera(60, 1, 0.1, 1000);
+      camera.position.set(0, 0, 10);
+      camera.updateProjectionMatrix();
+      lod = new InstancedNodes({ camera, lowDetailDistance: 20, frustumCulling: true });
+      lod.defineBatch('sphere', full, new THREE.MeshBasicMaterial(), low);
+      lod.defineBatch('box', new THREE.BoxGeometry(), new THREE.MeshBasicMaterial());
+    });
+
+    afterEach(() => {
+      lod.dispose();
+    });
+
+    it('draws distant nodes with the low-detail geometry', () => {
+      lod.add('sphere').object.position.set(0, 0, 0);
+      lod.sync();
+      expect(drawnGeometries()).toEqual([full]);
+
+      camera.position.set(0, 0, 40);
+      lod.sync();
+      expect(drawnGeometries()).toEqual([low]);
+    });
+
+    it('keeps batches without a low-detail geometry at full detail', () => {
+      lod.add('box').object.position.set(0, 0, -40);
+      lod.sync();
+      expect(countDrawCalls(lod)).toBe(1);
+    });
+
+    it('skips nodes past their max distance', () => {
+      const near = lod.add('box');
+      const far = lod.add('box', { maxDistance: 30 });
+      near.object.position.set(0, 0, 0);
+      far.object.position.set(0.2, 0, -30);
+      lod.sync();
+
+      expect(lod.intersect(rayAlongZ(0.2, 0))).toEqual([near]);
+    });
+
+    it('culls nodes outside the view', () => {
+      lod.add('box').object.position.set(0, 0, 20);
+      lod.sync();
+      expect(countDrawCalls(lod)).toBe(0);
+
+      camera.position.set(0, 0, 30);
+      lod.sync();
+      expect(countDrawCalls(lod)).toBe(1);
+    });
+
+    it('picks nodes at either detail level', () => {
+      const near = lod.add('sphere');
+      const far = lod.add('sphere');
+      near.object.position.set(0, 0, 0);
+      far.object.position.set(3, 0, -30);
+
+      expect(lod.intersect(rayAlongZ(0, 0))).toEqual([near]);
+      expect(lod.intersect(rayAlongZ(3, 0))).toEqual([far]);
+    });
+  });
+
+  it('rejects unknown and duplicate batches', () => {
+    expect(() => nodes.add('unknown')).toThrow();
+    expect(() => nodes.defineBatch('user', new THREE.BoxGeometry(), new THREE.MeshBasicMaterial())).toThrow();
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Instanced node rendering
+ *
+ * Draws all nodes of the same kind (node type plus material variant) with a
+ * single THREE.InstancedMesh, so the number of draw calls depends on how many
+ * kinds of node there are rather than on how many nodes a trace has.
+ *
+ * Each node gets a plain Object3D that is never added to the scene: callers
+ * move, scale and hide it as if it were a mesh, and sync() copies whatever
+ * changed into the instance buffers once per frame.
+ *
+ * With a camera, sync() also applies level of detail: batches with a
+ * low-detail geometry draw distant nodes with it (a second InstancedMesh),
+ * nodes past their maxDistance are skipped, and so are nodes outside the
+ * view when frustum culling is on.
+ */
+
+import * as THREE from 'three';
+
+/**
+ * A node drawn as one instance of a batch
+ */
+export interface NodeInstance {
+  /** Position, uniform scale and visibility of the node */
+  readonly object: THREE.Object3D;
+  /** Key of the batch the node is drawn in */
+  readonly key: string;
+}
+
+/**
+ * Options for a new instance
+ */
+export interface NodeInstanceOptions {
+  /** Scale applied on top of object.scale (e.g. for size-by-content) */
+  baseScale?: number;
+  /** Colour when not overridden (defaults to the batch material's colour) */
+  color?: THREE.ColorRepresentation;
+  /** Camera distance beyond which the node is not drawn */
+  maxDistance?: number;
+}
+
+/**
+ * View-dependent drawing options
+ */
+export interface InstancedNodesOptions {
+  /** Camera used for level of detail and culling; without one, every visible node is drawn in full */
+  camera?: THREE.Camera;
+  /** Camera distance beyond which batches with a low-detail geometry use it */
+  lowDetailDistance?: number;
+  /** Skip nodes outside the camera's view */
+  frustumCulling?: boolean;
+}
+
+/** Internal instance state */
+interface InstanceState extends NodeInstance {
+  baseScale: number;
+  baseColor: THREE.Color;
+  colorOverride: THREE.Color | null;
+  maxDistance: number;
+  matrix: THREE.Matrix4;
+  // Last transform composed into `matrix`, to skip unchanged instances
+  lastX: number;
+  lastY: number;
+  lastZ: number;
+  lastScale: number;
+  // Set until the instance has been written to the mesh it is drawn in
+  matrixDirty: boolean;
+  colorDirty: boolean;
+}
+
+/** Detail levels, indexing Batch.meshes and Batch.slots */
+const FULL_DETAIL = 0;
+const LOW_DETAIL = 1;
+
+/** One kind of node and the InstancedMeshes drawing it */
+interface Batch {
+  /** Geometry per detail level (low detail is optional) */
+  geometries: [THREE.BufferGeometry, THREE.BufferGeometry | null];
+  /** Material copy with a white colour, tinted per instance */
+  material: THREE.Material;
+  /** Colour of the material the batch was defined with */
+  color: THREE.Color;
+  /** Bounding radius of the full-detail geometry */
+  radius: number;
+  meshes: [THREE.InstancedMesh | null, THREE.InstancedMesh | null];
+  /** Instance drawn in each mesh slot, per detail level */
+  slots: [InstanceState[], InstanceState[]];
+  instances: Set<InstanceState>;
+}
+
+/** Smallest InstancedMesh allocated; grows by doubling */
+const MIN_CAPACITY = 16;
+
+// Scratch objects for per-frame view tests
+const _position = new THREE.Vector3();
+const _quaternion = new THREE.Quaternion();
+const _scale = new THREE.Vector3();
+const _cameraPosition = new THREE.Vector3();
+const _viewProjection = new THREE.Matrix4();
+const _frustum = new THREE.Frustum();
+const _sphere = new THREE.Sphere();
+
+export class InstancedNodes {
+  /** Group holding the batch meshes; add it to the scene */
+  public readonly group = new THREE.Group();
+
+  private camera: THREE.Camera | null;
+  private lowDetailDistance: number;
+  private frustumCulling: boolean;
+
+  private batches = new Map<string, Batch>();
+  private meshInfo = new Map<THREE.InstancedMesh, { batch: Batch; level: number }>();
+
+  constructor(options: InstancedNodesOptions = {}) {
+    this.camera = options.camera ?? null;
+    this.lowDetailDistance = options.lowDetailDistance ?? Infinity;
+    this.frustumCulling = options.frustumCulling ?? false;
+  }
+
+  /**
+   * Define a batch. Geometries stay owned by the caller; the material is
+   * copied so its colour can be replaced by per-instance colours.
+   * @param lowDetailGeometry Cheaper geometry for nodes beyond lowDetailDistance
+   */
+  public defineBatch(
+    key: string,
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material,
+    lowDetailGeometry?: THREE.BufferGeometry
+  ): void {
+    if (this.batches.has(key)) {
+      throw new Error(`Batch already defined: ${key}`);
+    }
+
+    const copy = material.clone();
+    const color = new THREE.Color(0xffffff);
+    if ('color' in copy && copy.color instanceof THREE.Color) {
+      color.copy(copy.color);
+      copy.color.set(0xffffff);
+    }
+
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+
+    this.batches.set(key, {
+      geometries: [geometry, lowDetailGeometry ?? null],
+      material: copy,
+      color,
+      radius: geometry.boundingSphere!.center.length() + geometry.boundingSphere!.radius,
+      meshes: [null, null],
+      slots: [[], []],
+      instances: new Set(),
+    });
+  }
+
+  /**
+   * Add a node to a batch
+   */
+  public add(key: string, options: NodeInstanceOptions = {}): NodeInstance {
+    const batch = this.batches.get(key);
+    if (!batch) {
+      throw new Error(`Unknown batch: ${key}`);
+    }
+
+    const instance: InstanceState = {
+      object: new THREE.Object3D(),
+      key,
+      baseScale: options.baseScale ?? 1,
+      baseColor: options.color !== undefined ? new THREE.Color(options.color) : batch.color.clone(),
+      colorOverride: null,
+      maxDistance: options.maxDistance ?? Infinity,
+      matrix: new THREE.Matrix4(),
+      lastX: NaN,
+      lastY: NaN,
+      lastZ: NaN,
+      lastScale: NaN,
+      matrixDirty: true,
+      colorDirty: true,
+    };
+    batch.instances.add(instance);
+    return instance;
+  }
+
+  /**
+   * Remove a node
+   */
+  public remove(node: NodeInstance): void {
+    this.batches.get(node.key)?.instances.delete(node as InstanceState);
+  }
+
+  /**
+   * Remove all nodes, keeping the batch definitions
+   */
+  public clear(): void {
+    for (const batch of this.batches.values()) {
+      batch.instances.clear();
+    }
+  }
+
+  /**
+   * Override a node's colour (e.g. for highlights); null restores its own colour
+   */
+  public setColor(node: NodeInstance, color: THREE.ColorRepresentation | null): void {
+    const instance = node as InstanceState;
+    instance.colorOverride = color === null ? null : new THREE.Color(color);
+    instance.colorDirty = true;
+  }
+
+  /**
+   * Get a node's current colour as a hex number
+   */
+  public getColor(node: NodeInstance): number {
+    const instance = node as InstanceState;
+    return (instance.colorOverride ?? instance.baseColor).getHex();
+  }
+
+  /**
+   * Copy node transforms and colours into the instance buffers,
+   * choosing each node's detail level from the camera
+   */
+  public sync(): void {
+    const camera = this.camera;
+    if (camera) {
+      camera.updateMatrixWorld();
+      _cameraPosition.setFromMatrixPosition(camera.matrixWorld);
+      _viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+      _frustum.setFromProjectionMatrix(_viewProjection);
+    }
+
+    for (const batch of this.batches.values()) {
+      this.syncBatch(batch, camera !== null);
+    }
+  }
+
+  /**
+   * Intersect the drawn nodes with a ray
+   * @returns Hit nodes, nearest first
+   */
+  public intersect(raycaster: THREE.Raycaster): NodeInstance[] {
+    this.sync();
+
+    const meshes = Array.from(this.meshInfo.keys()).filter(mesh => mesh.visible);
+    const hits: NodeInstance[] = [];
+    for (const hit of raycaster.intersectObjects(meshes, false)) {
+      const info = this.meshInfo.get(hit.object as THREE.InstancedMesh);
+      const instance = info && hit.instanceId !== undefined ? info.batch.slots[info.level][hit.instanceId] : undefined;
+      if (instance && !hits.includes(instance)) hits.push(instance);
+    }
+    return hits;
+  }
+
+  /**
+   * Free the batch meshes and material copies
+   */
+  public dispose(): void {
+    for (const batch of this.batches.values()) {
+      this.disposeMesh(batch, FULL_DETAIL);
+      this.disposeMesh(batch, LOW_DETAIL);
+      batch.material.dispose();
+    }
+    this.batches.clear();
+  }
+
+  /**
+   * Sort a batch's visible nodes into detail levels and write them out
+   */
+  private syncBatch(batch: Batch, useCamera: boolean): void {
+    const levels: [InstanceState[], InstanceState[]] = [[], []];
+
+    for (const instance of batch.instances) {
+      this.updateMatrix(instance);
+
+      const { object } = instance;
+      if (!object.visible) continue;
+
+      let level = FULL_DETAIL;
+      if (useCamera) {
+        const distance = object.position.distanceTo(_cameraPosition);
+        if (distance > instance.maxDistance) continue;
+
+        if (this.frustumCulling) {
+          _sphere.center.copy(object.position);
+          _sphere.radius = batch.radius * object.scale.x * instance.baseScale;
+          if (!_frustum.intersectsSphere(_sphere)) continue;
+        }
+
+        if (batch.geometries[LOW_DETAIL] && distance > this.lowDetailDistance) {
+          level = LOW_DETAIL;
+        }
+      }
+
+      levels[level].push(instance);
+    }
+
+    this.writeLevel(batch, FULL_DETAIL, levels[FULL_DETAIL]);
+    this.writeLevel(batch, LOW_DETAIL, levels[LOW_DETAIL]);
+  }
+
+  /**
+   * Recompose an instance's matrix if its transform changed
+   */
+  private updateMatrix(instance: InstanceState): void {
+    const { position, scale } = instance.object;
+    if (
+      position.x === instance.lastX &&
+      position.y === instance.lastY &&
+      position.z === instance.lastZ &&
+      scale.x === instance.lastScale
+    ) {
+      return;
+    }
+
+    _position.copy(position);
+    _scale.setScalar(scale.x * instance.baseScale);
+    instance.matrix.compose(_position, _quaternion, _scale);
+    instance.lastX = position.x;
+    instance.lastY = position.y;
+    instance.lastZ = position.z;
+    instance.lastScale = scale.x;
+    instance.matrixDirty = true;
+  }
+
+  /**
+   * Write the nodes drawn at one detail level into that level's mesh,
+   * touching only slots whose occupant or contents changed
+   */
+  private writeLevel(batch: Batch, level: number, drawn: InstanceState[]): void {
+    let mesh = batch.meshes[level];
+    if (!mesh || mesh.instanceMatrix.count < drawn.length) {
+      if (drawn.length === 0) return;
+      mesh = this.allocateMesh(batch, level);
+    }
+
+    const previous = batch.slots[level];
+    let matricesChanged = previous.length !== drawn.length;
+    let colorsChanged = false;
+
+    drawn.forEach((instance, slot) => {
+      const moved = previous[slot] !== instance;
+      if (moved || instance.matrixDirty) {
+        mesh.setMatrixAt(slot, instance.matrix);
+        matricesChanged = true;
+      }
+      if (moved || instance.colorDirty) {
+        mesh.setColorAt(slot, instance.colorOverride ?? instance.baseColor);
+        colorsChanged = true;
+      }
+    });
+    // Clear dirty flags only once written, so culled nodes update when they return
+    for (const instance of drawn) {
+      instance.matrixDirty = false;
+      instance.colorDirty = false;
+    }
+
+    batch.slots[level] = drawn;
+    mesh.count = drawn.length;
+    // Skip the draw call entirely when nothing is drawn at this level
+    mesh.visible = drawn.length > 0;
+
+    if (matricesChanged) {
+      mesh.instanceMatrix.needsUpdate = true;
+      // Bounds are cached for culling and picking; recompute after moves
+      mesh.boundingSphere = null;
+      mesh.boundingBox = null;
+    }
+    if (colorsChanged && mesh.instanceColor) {
+      mesh.instanceColor.needsUpdate = true;
+    }
+  }
+
+  /**
+   * Create (or grow) the InstancedMesh for one detail level of a batch
+   */
+  private allocateMesh(batch: Batch, level: number): THREE.InstancedMesh {
+    this.disposeMesh(batch, level);
+
+    let capacity = MIN_CAPACITY;
+    while (capacity < batch.instances.size) capacity *= 2;
+
+    const mesh = new THREE.InstancedMesh(batch.geometries[level]!, batch.material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.count = 0;
+    // Nodes are culled individually; whole-mesh culling would need bounds every frame
+    mesh.frustumCulled = !this.frustumCulling;
+    batch.meshes[level] = mesh;
+    // New buffers start empty: every slot is rewritten
+    batch.slots[level] = [];
+    this.meshInfo.set(mesh, { batch, level });
+    this.group.add(mesh);
+    return mesh;
+  }
+
+  /**
+   * Remove one of a batch's meshes from the group and free its buffers
+   */
+  private disposeMesh(batch: Batch, level: number): void {
+    const mesh = batch.meshes[level];
+    if (!mesh) return;
+    this.group.remove(mesh);
+    this.meshInfo.delete(mesh);
+    mesh.dispose();
+    batch.meshes[level] = null;
+    batch.slots[level] = [];
+  }
+}
@@ -8,22 +8,50 @@ import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js';
 import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
 import { Scene, type SceneOptions } from './Scene';
 import { Controls } from './Controls';
+import { InstancedNodes, type NodeInstance } from './InstancedNodes';
+import { decimatePath } from './lod';
+import { findCompactionBoundaries, type CompactionBoundary } from './compaction';
 import type { Conversation, Turn, ContentBlock, SearchableCluster } from '../data/types';
-import { parserRegistry } from '../data/parsers';
+import { parserRegistry, type SourceDetection } from '../data/parsers';
 import {
   buildClusters as buildClustersFromConversation,
   extractSearchableContent,
   calculateClusterMetrics,
+  calculateAgentMetrics,
+  findClusterIndexForTurn,
+  findOwningClusterIndex,
   type TurnCluster,
+  type AgentMetrics,
+  type ClusterMetrics,
 } from './clusters';
 import {
   getSpiralPosition as getLayoutPosition,
+  getBranchSpiralPosition,
+  getAgentCoilPosition,
+  parseTimestamp,
+  createTimelineScale,
+  getLaneOffsets,
+  getTimelinePosition,
   type CoilLayoutParams,
+  type TimelineScale,
 } from './layout';
+import {
+  buildConversationTree,
+  getSideBranches,
+  getBranches as getConversationBranches,
+  arrangeClusters,
+  extendArrangement,
+  type AgentRun,
+  type ClusterArrangement,
+  type ConversationTree,
+  type ConversationBranch,
+} from './tree';
+import type { PreparedConversation } from '../loader';
 import {
   DEFAULT_LAYOUT_CONFIG,
   DEFAULT_THEME_CONFIG,
   DEFAULT_TIMING_CONFIG,
+  DEFAULT_UI_CONFIG,
 } from '../config';
 
 export interface ViewerOptions extends Omit<SceneOptions, 'container'> {
@@ -38,27 +66,67 @@ export interface ViewerStats {
   totalTokens: number;
 }
 
+/** Result of extending the conversation with appended source text */
+export interface AppendResult {
+  /** Number of turns added */
+  turns: number;
+  /** Index of the first cluster that was added or rebuilt */
+  firstChangedCluster: number;
+}
+
+/** How clusters are laid out: on the coil, or along a time axis */
+export type LayoutMode = 'coil' | 'timeline';
+
 /** Node types for visualization */
-type NodeType = 'user' | 'assistant' | 'thinking' | 'tool_use' | 'tool_result' | 'document' | 'cluster';
+type NodeType = 'user' | 'assistant' | 'thinking' | 'tool_use' | 'tool_result' | 'document' | 'cluster' | 'boundary';
+
+/** Compaction boundary on the main coil */
+export interface CompactionBoundaryInfo extends CompactionBoundary {
+  /** Cluster the conversation continues with after the boundary */
+  clusterIndex: number;
+}
 
 /** Visual node in the scene */
 interface VisualNode {
-  mesh: THREE.Mesh;
+  /** Position, scale and visibility; drawn through `instance` */
+  object: THREE.Object3D;
+  instance: NodeInstance;
   type: NodeType;
-  data: Turn | ContentBlock | TurnCluster;
+  data: Turn | ContentBlock | TurnCluster | CompactionBoundaryInfo;
   turnIndex: number;
   clusterIndex?: number;
-  originalMaterial: THREE.Material;
   targetPosition?: THREE.Vector3;
   targetScale?: number;
 }
 
 // TurnCluster is imported from './clusters'
 
+/** Abandoned branch rendered as a side spiral */
+interface SideSpiral {
+  /** Main-coil cluster the branch forks from */
+  forkClusterIndex: number;
+  /** Position among branches sharing the same fork */
+  slot: number;
+  /** One node per branch cluster, in order */
+  nodes: VisualNode[];
+}
+
+/** Sub-agent sidechain rendered as its own coil */
+interface AgentCoil extends AgentRun {
+  /** Whether the coil is folded into its spawning cluster */
+  collapsed: boolean;
+}
+
+/** Per-agent summary for UI panels */
+export interface AgentCoilInfo extends AgentMetrics {
+  spawnClusterIndex: number;
+  collapsed: boolean;
+}
+
 /** Selection info passed to callback */
 export interface SelectionInfo {
   type: NodeType;
-  data: Turn | ContentBlock | TurnCluster;
+  data: Turn | ContentBlock | TurnCluster | CompactionBoundaryInfo;
   turnIndex: number;
   clusterIndex?: number;
 }
@@ -68,6 +136,7 @@ const config = {
   layout: DEFAULT_LAYOUT_CONFIG,
   theme: DEFAULT_THEME_CONFIG,
   timing: DEFAULT_TIMING_CONFIG,
+  ui: DEFAULT_UI_CONFIG,
 };
 
 export class Viewer {
@@ -75,8 +144,39 @@ export class Viewer {
   private controls: Controls;
   private container: HTMLElement;
   private conversation: Conversation | null = null;
+  private detection: SourceDetection | null = null;
   private nodes: VisualNode[] = [];
+  private nodesByCluster = new Map<number, VisualNode[]>();
   private clusters: TurnCluster[] = [];
+  private searchableContent: SearchableCluster[] | null = null;
+  private clusterMetrics: ClusterMetrics[] | null = null;
+
+  // Conversation tree - clusters follow the active branch's path
+  private tree: ConversationTree | null = null;
+  private activeBranchLeaf: number | null = null;
+  private showBranches = false;
+  private sideSpirals: SideSpiral[] = [];
+
+  // Compaction boundaries, drawn as rings around the cluster after each one.
+  // Ring nodes have no clusterIndex so they stay out of cluster layout.
+  private boundaries: CompactionBoundaryInfo[] = [];
+  private boundaryNodes: VisualNode[] = [];
+
+  // Sub-agent sidechains - agent clusters follow their spawning cluster in
+  // this.clusters but sit on their own coil
+  private agentCoils: AgentCoil[] = [];
+  private agentCoilByCluster = new Map<number, AgentCoil>();
+  // Main-coil position of each cluster (agent clusters use their spawning cluster's)
+  private coilSlots: number[] = [];
+  // Turns on the main coil, kept so appended turns can extend it
+  private mainTurns: number[] = [];
+  // Move focus to the newest cluster when turns are appended
+  private followTail = false;
+
+  // Layout mode - timeline offsets are computed on first use after each rebuild
+  private layoutMode: LayoutMode = 'coil';
+  private timelineScale: TimelineScale | null = null;
+  private timelineOffsets: number[] | null = null;
   private statsCallback?: (stats: ViewerStats) => void;
   private selectCallback?: (selection: SelectionInfo | null) => void;
 
@@ -86,7 +186,6 @@ export class Viewer {
   private mouse = new THREE.Vector2();
 
   // Word highlight state
-  private highlightedClusters: Map<number, THREE.Material> = new Map(); // clusterIndex -> original material
   private clusterHighlightColors: Map<number, number> = new Map(); // clusterIndex -> color
 
   // Animation state
@@ -117,19 +216,33 @@ export class Viewer {
 
   // Materials for different node types
   private materials: Record<NodeType, THREE.MeshStandardMaterial>;
-  private highlightMaterial: THREE.MeshStandardMaterial;
   private sidechainMaterial: THREE.MeshStandardMaterial;
   private errorMaterial: THREE.MeshStandardMaterial;
   private toolResultSuccessMaterial: THREE.MeshStandardMaterial;
+  private branchMaterial: THREE.MeshStandardMaterial;
+
+  // Nodes are drawn with one InstancedMesh per node type and material
+  private instancedNodes: InstancedNodes;
+  private nodeGeometries: THREE.BufferGeometry[] = [];
 
-  // Connection lines between nodes
-  private connectionLines: Line2[] = [];
-  private connectionLineGeometries: LineGeometry[] = [];
+  // Connection lines between nodes, by index of their expanded cluster
+  private connectionLines = new Map<number, Line2>();
   private clusterLine: Line2 | null = null;
   private clusterLineGeometry: LineGeometry | null = null;
+  // Points the cluster line was last drawn through
+  private clusterLinePoints: THREE.Vector3[] = [];
   private showClusterLines = true;
   private lineMaterial: LineMaterial;
   private clusterLineMaterial: LineMaterial;
+  private branchLines: Line2[] = [];
+  private branchLineGeometries: LineGeometry[] = [];
+  private branchLineMaterial: LineMaterial;
+  private agentLines: Line2[] = [];
+  private agentLineGeometries: LineGeometry[] = [];
+  // Camera position the connection lines' level of detail was computed for
+  private linesViewpoint = new THREE.Vector3();
+  // Expanded clusters close enough for their blocks to be drawn; the rest show their cluster node
+  private blockDetailClusters = new Set<number>();
 
   // Layout parameters - helix
   private radius = config.layout.coil.radius;
@@ -175,7 +288,7 @@ export class Viewer {
     });
 
     // Initialize materials from theme config
-    const { nodes: nodeThemes, highlight, connectionLine, clusterLine } = config.theme;
+    const { nodes: nodeThemes, connectionLine, clusterLine, branchLine } = config.theme;
     this.materials = {
       user: new THREE.MeshStandardMaterial({
         color: nodeThemes.user.color,
@@ -205,15 +318,13 @@ export class Viewer {
         metalness: nodeThemes.document.material.metalness,
       }),
       cluster: this.createClusterMaterial(),
+      boundary: new THREE.MeshStandardMaterial({
+        color: nodeThemes.boundary.color,
+        roughness: nodeThemes.boundary.material.roughness,
+        emissive: nodeThemes.boundary.material.emissive,
+      }),
     };
 
-    // Highlight material for selected nodes
-    this.highlightMaterial = new THREE.MeshStandardMaterial({
-      color: highlight.color,
-      roughness: highlight.material.roughness,
-      emissive: highlight.material.emissive,
-    });
-
     // Sidechain material: muted, slightly transparent
     this.sidechainMaterial = new THREE.MeshStandardMaterial({
       color: nodeThemes.cluster.color,
@@ -237,6 +348,22 @@ export class Viewer {
       roughness: nodeThemes.toolResultSuccess.material.roughness,
     });
 
+    // Branch material: faint ghost of the cluster material for side spirals
+    this.branchMaterial = new THREE.MeshStandardMaterial({
+      color: nodeThemes.cluster.color,
+      roughness: 0.6,
+      transparent: true,
+      opacity: config.layout.branch.nodeOpacity,
+    });
+
+    this.instancedNodes = new InstancedNodes({
+      camera: this.scene.camera,
+      lowDetailDistance: config.layout.lod.lowDetailDistance,
+      frustumCulling: config.ui.renderer.frustumCulling,
+    });
+    this.defineNodeBatches();
+    this.scene.add(this.instancedNodes.group);
+
     // Line material for connections within expanded clusters
     this.lineMaterial = new LineMaterial({
       color: connectionLine.color,
@@ -255,6 +382,15 @@ export class Viewer {
       resolution: new THREE.Vector2(window.innerWidth, window.innerHeight),
     });
 
+    // Line material for side spirals
+    this.branchLineMaterial = new LineMaterial({
+      color: branchLine.color,
+      transparent: true,
+      opacity: branchLine.opacity,
+      linewidth: branchLine.width,
+      resolution: new THREE.Vector2(window.innerWidth, window.innerHeight),
+    });
+
     // Bind event handlers
     this.boundHandleResize = this.handleResize.bind(this);
     this.boundHandleMouseDown = this.handleMouseDown.bind(this);
@@ -268,6 +404,8 @@ export class Viewer {
     this.scene.start((deltaTime) => {
       this.controls.update();
       this.updateAnimation(deltaTime);
+      this.updateLineDetail();
+      this.instancedNodes.sync();
       this.updatePeriodicCallback(deltaTime);
     });
   }
@@ -284,6 +422,41 @@ export class Viewer {
     });
   }
 
+  /**
+   * Define an instanced batch for each node type and material variant.
+   * Cluster spheres share a unit geometry scaled per instance; spheres get
+   * a low-poly version for distant nodes.
+   */
+  private defineNodeBatches(): void {
+    const { clusterSegments, thinkingRadius } = config.layout.nodeSize;
+    const { lowDetailSegments } = config.layout.lod;
+    const sphere = new THREE.SphereGeometry(1, clusterSegments, clusterSegments);
+    const lowSphere = new THREE.SphereGeometry(1, lowDetailSegments, lowDetailSegments);
+    const lowThinking = new THREE.SphereGeometry(thinkingRadius, lowDetailSegments, lowDetailSegments);
+    this.nodeGeometries.push(sphere, lowSphere, lowThinking);
+    this.instancedNodes.defineBatch('cluster', sphere, this.materials.cluster, lowSphere);
+    this.instancedNodes.defineBatch('cluster-error', sphere, this.errorMaterial, lowSphere);
+    this.instancedNodes.defineBatch('cluster-sidechain', sphere, this.sidechainMaterial, lowSphere);
+    this.instancedNodes.defineBatch('branch', sphere, this.branchMaterial, lowSphere);
+
+    // Compaction rings lie flat around their cluster
+    const { boundaryRadius, boundaryTube } = config.layout.nodeSize;
+    const ring = new THREE.TorusGeometry(boundaryRadius, boundaryTube, 8, 48);
+    ring.rotateX(Math.PI / 2);
+    this.nodeGeometries.push(ring);
+    this.instancedNodes.defineBatch('boundary', ring, this.materials.boundary);
+
+    const types = ['user', 'assistant', 'thinking', 'tool_use', 'tool_result', 'document'] as const;
+    for (const type of types) {
+      const geometry = this.getGeometryForType(type);
+      this.nodeGeometries.push(geometry);
+      this.instancedNodes.defineBatch(type, geometry, this.materials[type], type === 'thinking' ? lowThinking : undefined);
+      if (type === 'tool_result') {
+        this.instancedNodes.defineBatch('tool_result-success', geometry, this.toolResultSuccessMaterial);
+      }
+    }
+  }
+
   /**
    * Attach all event listeners
    */
@@ -310,6 +483,7 @@ export class Viewer {
   private handleResize(): void {
     this.lineMaterial.resolution.set(window.innerWidth, window.innerHeight);
     this.clusterLineMaterial.resolution.set(window.innerWidth, window.innerHeight);
+    this.branchLineMaterial.resolution.set(window.innerWidth, window.innerHeight);
   }
 
   /**
@@ -444,7 +618,7 @@ export class Viewer {
    */
   private getSelectableNodes(): VisualNode[] {
     const threshold = config.layout.selection.visibilityThreshold;
-    return this.nodes.filter(n => n.mesh.visible && n.mesh.scale.x > threshold);
+    return this.nodes.filter(n => n.object.visible && n.object.scale.x > threshold);
   }
 
   /**
@@ -477,30 +651,29 @@ export class Viewer {
 
     this.raycaster.setFromCamera(this.mouse, this.scene.camera);
 
-    const visibleMeshes = this.nodes.filter(n => n.mesh.visible).map(n => n.mesh);
-    const intersects = this.raycaster.intersectObjects(visibleMeshes);
-
-    if (intersects.length > 0) {
-      const mesh = intersects[0].object as THREE.Mesh;
-      const node = this.nodes.find(n => n.mesh === mesh);
+    // Side spiral nodes are drawn but not selectable
+    let node: VisualNode | undefined;
+    for (const instance of this.instancedNodes.intersect(this.raycaster)) {
+      node = this.nodes.find(n => n.instance === instance) ?? this.boundaryNodes.find(n => n.instance === instance);
+      if (node) break;
+    }
 
-      if (node) {
-        const now = Date.now();
-        const { doubleClickWindow } = config.timing.interaction;
-        const isDoubleClick = (now - this.lastClickTime < doubleClickWindow) && (this.lastClickedNode === node);
-
-        if (isDoubleClick && node.type === 'cluster') {
-          // Double-click on cluster: toggle expand/collapse
-          const cluster = node.data as TurnCluster;
-          this.toggleCluster(cluster.index);
-        } else {
-          // Single click: select
-          this.selectNode(node);
-        }
+    if (node) {
+      const now = Date.now();
+      const { doubleClickWindow } = config.timing.interaction;
+      const isDoubleClick = (now - this.lastClickTime < doubleClickWindow) && (this.lastClickedNode === node);
 
-        this.lastClickTime = now;
-        this.lastClickedNode = node;
+      if (isDoubleClick && node.type === 'cluster') {
+        // Double-click on cluster: toggle expand/collapse
+        const cluster = node.data as TurnCluster;
+        this.toggleCluster(cluster.index);
+      } else {
+        // Single click: select
+        this.selectNode(node);
       }
+
+      this.lastClickTime = now;
+      this.lastClickedNode = node;
     } else {
       this.clearSelection();
       this.lastClickedNode = null;
@@ -512,22 +685,25 @@ export class Viewer {
    */
   private selectNode(node: VisualNode): void {
     // Deselect previous
-    if (this.selectedNode && this.selectedNode !== node) {
-      this.selectedNode.mesh.material = this.selectedNode.originalMaterial;
-      // Restore previous node's scale
-      this.restoreNodeScale(this.selectedNode);
-    }
+    const previous = this.selectedNode;
 
     // Select new
     this.selectedNode = node;
-    node.mesh.material = this.highlightMaterial;
+    this.updateNodeColor(node);
+
+    if (previous && previous !== node) {
+      this.updateNodeColor(previous);
+      // Restore previous node's scale
+      this.restoreNodeScale(previous);
+    }
 
     // Scale up the selected node
     this.enlargeNode(node);
 
     // Update focus to the selected cluster (slinky effect)
-    if (node.clusterIndex !== undefined) {
-      this.setFocus(node.clusterIndex);
+    const focusIndex = node.type === 'boundary' ? (node.data as CompactionBoundaryInfo).clusterIndex : node.clusterIndex;
+    if (focusIndex !== undefined) {
+      this.setFocus(focusIndex);
     }
 
     // Gently adjust camera to keep node in view (not aggressive centering)
@@ -548,11 +724,11 @@ export class Viewer {
   private enlargeNode(node: VisualNode): void {
     // Store original scale if not stored
     if ((node as any).originalScale === undefined) {
-      (node as any).originalScale = node.mesh.scale.x;
+      (node as any).originalScale = node.object.scale.x;
     }
     const originalScale = (node as any).originalScale as number;
     const { selectedScale } = config.layout.selection;
-    node.mesh.scale.setScalar(originalScale * selectedScale);
+    node.object.scale.setScalar(originalScale * selectedScale);
   }
 
   /**
@@ -561,7 +737,7 @@ export class Viewer {
   private restoreNodeScale(node: VisualNode): void {
     const originalScale = (node as any).originalScale as number | undefined;
     if (originalScale !== undefined) {
-      node.mesh.scale.setScalar(originalScale);
+      node.object.scale.setScalar(originalScale);
     }
   }
 
@@ -569,7 +745,7 @@ export class Viewer {
    * Gently adjust camera to keep node visible (just update look-at, minimal position change)
    */
   private gentlyCameraAdjust(node: VisualNode): void {
-    const nodePos = node.mesh.position.clone();
+    const nodePos = node.object.position.clone();
     const currentTarget = this.controls.getTarget();
 
     // Only animate the look-at target towards the node
@@ -590,13 +766,28 @@ export class Viewer {
    */
   public clearSelection(): void {
     if (this.selectedNode) {
-      this.selectedNode.mesh.material = this.selectedNode.originalMaterial;
-      this.restoreNodeScale(this.selectedNode);
+      const previous = this.selectedNode;
       this.selectedNode = null;
+      this.updateNodeColor(previous);
+      this.restoreNodeScale(previous);
     }
     this.selectCallback?.(null);
   }
 
+  /**
+   * Colour a node: the selection highlight wins over its cluster's
+   * word highlight, which wins over the node's own colour
+   */
+  private updateNodeColor(node: VisualNode): void {
+    let color: number | null = null;
+    if (node === this.selectedNode) {
+      color = config.theme.highlight.color;
+    } else if (node.type === 'cluster' && node.clusterIndex !== undefined) {
+      color = this.clusterHighlightColors.get(node.clusterIndex) ?? null;
+    }
+    this.instancedNodes.setColor(node.instance, color);
+  }
+
   /**
    * Set callback for selection changes
    */
@@ -637,24 +828,15 @@ export class Viewer {
 
   /**
    * Load a conversation from JSON/JSONL string
+   * @param sourceId Parse with this source instead of auto-detecting
    */
-  public loadJSON(content: string): void {
-    // Try parser registry first (handles JSONL and other formats)
-    if (parserRegistry.canParse(content)) {
-      const result = parserRegistry.detectAndParse(content);
-      this.conversation = result.conversation;
-      this.buildVisualization();
-      this.updateStats();
-      return;
-    }
-
-    // Fall back to JSON parsing
-    try {
-      const data = JSON.parse(content);
-      this.loadData(data);
-    } catch (error) {
-      throw new Error(`Failed to parse file: ${error}`);
-    }
+  public loadJSON(content: string, sourceId?: string): void {
+    const { conversation, ...detection } = parserRegistry.parseContent(content, sourceId);
+    this.conversation = conversation;
+    this.detection = detection;
+    this.activeBranchLeaf = null;
+    this.buildVisualization();
+    this.updateStats();
   }
 
   /**
@@ -663,8 +845,10 @@ export class Viewer {
   public loadData(data: unknown): void {
     // Try parser registry
     if (parserRegistry.canParse(data)) {
-      const result = parserRegistry.detectAndParse(data);
-      this.conversation = result.conversation;
+      const { conversation, ...detection } = parserRegistry.detectAndParse(data);
+      this.conversation = conversation;
+      this.detection = detection;
+      this.activeBranchLeaf = null;
     } else {
       throw new Error('Unsupported conversation format');
     }
@@ -674,16 +858,288 @@ export class Viewer {
   }
 
   /**
-   * Build clusters from turns using the cluster-builder module
+   * Load a conversation that was parsed and arranged off the main thread
+   */
+  public loadPrepared(prepared: PreparedConversation): void {
+    this.conversation = prepared.conversation;
+    this.detection = prepared.detection;
+    this.activeBranchLeaf = null;
+    this.buildVisualization(prepared.arrangement);
+    this.searchableContent = prepared.searchable;
+    this.updateStats();
+  }
+
+  /**
+   * Check whether the current conversation can be extended with appended source text
+   * @param content Source text the conversation was loaded from
+   */
+  public canAppend(content: string): boolean {
+    return Boolean(this.conversation && this.detection && parserRegistry.canAppend(this.detection.sourceId, content));
+  }
+
+  /**
+   * Extend the current conversation with text appended to its source
+   * (e.g. new lines of a live session file).
+   * When the new turns continue the main coil, only the last cluster and
+   * the new ones are rebuilt; otherwise the view is rebuilt in place.
+   * @param lineOffset Lines already in the source, for diagnostics
+   * @returns Number of turns added, and the first cluster that changed so
+   *   panels only have to redraw from there
+   */
+  public appendContent(appended: string, lineOffset = 0): AppendResult {
+    if (!this.conversation || !this.detection) {
+      throw new Error('No conversation to append to');
+    }
+
+    const firstNewTurn = this.conversation.turns.length;
+    const added = parserRegistry.appendContent(this.conversation, appended, this.detection.sourceId, lineOffset);
+    if (added === 0) {
+      this.updateStats();
+      return { turns: 0, firstChangedCluster: this.clusters.length };
+    }
+
+    this.tree = buildConversationTree(this.conversation);
+    const extended = this.activeBranchLeaf === null
+      ? extendArrangement(
+        this.conversation,
+        this.tree,
+        { clusters: this.clusters, coilSlots: this.coilSlots, agents: this.agentCoils, mainTurns: this.mainTurns },
+        firstNewTurn
+      )
+      : null;
+
+    let firstChangedCluster = 0;
+    if (extended) {
+      firstChangedCluster = this.clusters.length - 1;
+      this.appendClusters(extended);
+    } else {
+      const camera = this.getCameraState();
+      const focus = this.followTail ? Infinity : this.focusClusterIndex;
+      this.buildVisualization();
+      this.setCameraState(camera.position, camera.target);
+      this.focusClusterIndex = Math.max(0, Math.min(focus, this.clusters.length - 1));
+      this.applyLayout(false);
+      this.updateConnectionLines();
+    }
+
+    if (this.followTail) {
+      this.showNewestCluster();
+    }
+    this.updateStats();
+    return { turns: added, firstChangedCluster };
+  }
+
+  /**
+   * Replace the last cluster's nodes and add nodes for the clusters after it
    */
-  private buildClusters(): void {
-    this.clusters = buildClustersFromConversation(this.conversation);
+  private appendClusters(arrangement: ClusterArrangement): void {
+    const last = this.clusters[this.clusters.length - 1];
+    if (this.selectedNode?.clusterIndex === last.index) {
+      this.clearSelection();
+    }
+
+    // A layout animation in flight would keep moving the removed nodes
+    this.animating = false;
+    this.animatingNodes = [];
+
+    for (const node of this.nodesByCluster.get(last.index) ?? []) {
+      this.instancedNodes.remove(node.instance);
+    }
+    this.nodes = this.nodes.filter(node => node.clusterIndex !== last.index);
+    this.nodesByCluster.delete(last.index);
+
+    this.clusters = arrangement.clusters;
+    this.coilSlots = arrangement.coilSlots;
+    this.mainTurns = arrangement.mainTurns;
+    this.clusters[last.index].expanded = last.expanded;
+    this.timelineScale = null;
+    this.timelineOffsets = null;
+    // Clusters before the last one are unchanged
+    this.searchableContent = this.searchableContent?.slice(0, last.index) ?? null;
+    this.clusterMetrics = this.clusterMetrics?.slice(0, last.index) ?? null;
+
+    const tail = this.clusters.slice(last.index).flatMap(cluster => this.createClusterNodes(cluster));
+    this.nodes.push(...tail);
+    this.indexNodesByCluster(tail);
+    for (const node of tail) {
+      if (node.type === 'cluster') this.updateNodeColor(node);
+    }
+
+    if (this.selectedNode?.type === 'boundary') {
+      this.clearSelection();
+    }
+    this.clearBoundaries();
+    this.buildBoundaries();
+
+    if (this.followTail) {
+      this.focusClusterIndex = this.clusters.length - 1;
+    }
+    this.applyLayout(false);
+    this.updateConnectionLines();
+  }
+
+  /**
+   * Keep the newest cluster in focus as turns are appended
+   */
+  public setFollowTail(follow: boolean): void {
+    this.followTail = follow;
+    if (follow) {
+      this.showNewestCluster();
+    }
+  }
+
+  /**
+   * Select the newest cluster and move the camera to it
+   */
+  private showNewestCluster(): void {
+    const newest = this.clusters.length - 1;
+    if (newest < 0) return;
+    this.selectClusterByIndex(newest);
+    this.focusOnCluster(newest);
+  }
+
+  /**
+   * Get whether the newest cluster is followed as turns are appended
+   */
+  public getFollowTail(): boolean {
+    return this.followTail;
+  }
+
+  /**
+   * Get how the current conversation's source was detected
+   */
+  public getSourceDetection(): SourceDetection | null {
+    return this.detection;
+  }
+
+  /**
+   * Build clusters for the active branch, with sub-agent coils
+   * @param arrangement Clusters already arranged for the default branch
+   */
+  private buildClusters(arrangement?: ClusterArrangement): void {
+    this.tree = this.conversation ? buildConversationTree(this.conversation) : null;
+    this.agentCoils = [];
+    this.agentCoilByCluster.clear();
+    this.timelineScale = null;
+    this.timelineOffsets = null;
+    this.searchableContent = null;
+    this.clusterMetrics = null;
+
+    if (!this.conversation || !this.tree) {
+      this.clusters = [];
+      this.coilSlots = [];
+      this.mainTurns = [];
+      return;
+    }
+
+    const { clusters, coilSlots, agents, mainTurns } =
+      arrangement ?? arrangeClusters(this.conversation, this.tree, this.activeBranchLeaf ?? undefined);
+    this.clusters = clusters;
+    this.coilSlots = coilSlots;
+    this.mainTurns = mainTurns;
+
+    for (const agent of agents) {
+      const coil: AgentCoil = { ...agent, collapsed: false };
+      for (const clusterIndex of coil.clusterIndices) {
+        this.agentCoilByCluster.set(clusterIndex, coil);
+      }
+      this.agentCoils.push(coil);
+    }
+  }
+
+  /**
+   * Create side spiral nodes for branches abandoned off the main path
+   */
+  private buildSideSpirals(): void {
+    if (!this.showBranches || !this.conversation || !this.tree) return;
+
+    const branches = getSideBranches(this.conversation, this.tree, this.activeBranchLeaf ?? undefined);
+    const mainClusters = this.clusters.filter(cluster => !this.agentCoilByCluster.has(cluster.index));
+    const slotsByFork = new Map<number, number>();
+
+    for (const branch of branches) {
+      const forkClusterIndex = findClusterIndexForTurn(mainClusters, branch.forkTurnIndex);
+      if (forkClusterIndex < 0) continue;
+
+      const slot = slotsByFork.get(forkClusterIndex) ?? 0;
+      slotsByFork.set(forkClusterIndex, slot + 1);
+
+      const branchClusters = buildClustersFromConversation(this.conversation, undefined, branch.turnIndices);
+      const nodes = branchClusters.map((cluster) => this.createBranchNode(cluster));
+
+      this.sideSpirals.push({ forkClusterIndex, slot, nodes });
+    }
+  }
+
+  /**
+   * Remove side spiral nodes and lines from the scene
+   */
+  private clearSideSpirals(): void {
+    for (const node of this.getSideSpiralNodes()) {
+      this.instancedNodes.remove(node.instance);
+    }
+    this.sideSpirals = [];
+
+    for (const line of this.branchLines) {
+      this.scene.remove(line);
+    }
+    for (const geom of this.branchLineGeometries) {
+      geom.dispose();
+    }
+    this.branchLines = [];
+    this.branchLineGeometries = [];
+  }
+
+  /**
+   * Get all side spiral nodes
+   */
+  private getSideSpiralNodes(): VisualNode[] {
+    return this.sideSpirals.flatMap((spiral) => spiral.nodes);
+  }
+
+  /**
+   * Find the compaction boundaries on the main path and create their rings
+   */
+  private buildBoundaries(): void {
+    if (!this.conversation) return;
+
+    const mainTurns = new Set(this.mainTurns);
+    const mainClusters = this.clusters.filter(cluster => !this.agentCoilByCluster.has(cluster.index));
+
+    for (const boundary of findCompactionBoundaries(this.conversation)) {
+      if (!mainTurns.has(boundary.turnIndex)) continue;
+
+      const clusterIndex = findClusterIndexForTurn(mainClusters, boundary.turnIndex);
+      if (clusterIndex < 0 || this.boundaries.some(b => b.clusterIndex === clusterIndex)) continue;
+
+      const info: CompactionBoundaryInfo = { ...boundary, clusterIndex };
+      const instance = this.instancedNodes.add('boundary');
+      this.boundaries.push(info);
+      this.boundaryNodes.push({
+        object: instance.object,
+        instance,
+        type: 'boundary',
+        data: info,
+        turnIndex: boundary.turnIndex,
+      });
+    }
+  }
+
+  /**
+   * Remove compaction rings
+   */
+  private clearBoundaries(): void {
+    for (const node of this.boundaryNodes) {
+      this.instancedNodes.remove(node.instance);
+    }
+    this.boundaries = [];
+    this.boundaryNodes = [];
   }
 
   /**
    * Build the 3D visualization from the loaded conversation
    */
-  private buildVisualization(): void {
+  private buildVisualization(arrangement?: ClusterArrangement): void {
     if (!this.conversation) return;
 
     // Clear existing nodes and selection
@@ -691,82 +1147,99 @@ export class Viewer {
     this.clearNodes();
 
     // Build cluster structure
-    this.buildClusters();
+    this.buildClusters(arrangement);
 
     // Create nodes for each cluster and its contents
     for (const cluster of this.clusters) {
-      // Create cluster node (collapsed representation)
-      const clusterNode = this.createClusterNode(cluster);
-      this.nodes.push(clusterNode);
-      this.scene.add(clusterNode.mesh);
-
-      // Create child nodes (hidden initially)
-      if (cluster.userTurn && cluster.userTurnIndex !== undefined) {
-        const userNode = this.createNode('user', cluster.userTurn, cluster.userTurnIndex, cluster.index);
-        userNode.mesh.visible = false;
-        userNode.mesh.scale.setScalar(0.01);
-        this.nodes.push(userNode);
-        this.scene.add(userNode.mesh);
-      }
+      this.nodes.push(...this.createClusterNodes(cluster));
+    }
+    this.indexNodesByCluster(this.nodes);
 
-      if (cluster.assistantTurn && cluster.assistantTurnIndex !== undefined) {
-        const assistantNode = this.createNode('assistant', cluster.assistantTurn, cluster.assistantTurnIndex, cluster.index);
-        assistantNode.mesh.visible = false;
-        assistantNode.mesh.scale.setScalar(0.01);
-        this.nodes.push(assistantNode);
-        this.scene.add(assistantNode.mesh);
+    // Abandoned branches fork off the main coil
+    this.buildSideSpirals();
+    this.buildBoundaries();
 
-        // Create thinking and tool nodes
-        for (const block of cluster.assistantTurn.content) {
-          if (block.type === 'thinking') {
-            const thinkingNode = this.createNode('thinking', block, cluster.assistantTurnIndex, cluster.index);
-            thinkingNode.mesh.visible = false;
-            thinkingNode.mesh.scale.setScalar(0.01);
-            this.nodes.push(thinkingNode);
-            this.scene.add(thinkingNode.mesh);
-          } else if (block.type === 'tool_use') {
-            const toolNode = this.createNode('tool_use', block, cluster.assistantTurnIndex, cluster.index);
-            toolNode.mesh.visible = false;
-            toolNode.mesh.scale.setScalar(0.01);
-            this.nodes.push(toolNode);
-            this.scene.add(toolNode.mesh);
-          } else if (block.type === 'tool_result') {
-            const resultNode = this.createNode('tool_result', block, cluster.assistantTurnIndex, cluster.index);
-            resultNode.mesh.visible = false;
-            resultNode.mesh.scale.setScalar(0.01);
-            this.nodes.push(resultNode);
-            this.scene.add(resultNode.mesh);
-          } else if (block.type === 'image' || block.type === 'document') {
-            const docNode = this.createNode('document', block, cluster.assistantTurnIndex, cluster.index);
-            docNode.mesh.visible = false;
-            docNode.mesh.scale.setScalar(0.01);
-            this.nodes.push(docNode);
-            this.scene.add(docNode.mesh);
-          }
+    // Set initial focus to middle of conversation
+    this.focusClusterIndex = Math.floor(this.clusters.length / 2);
+
+    // Apply initial layout
+    this.applyLayout(false);
+    this.updateConnectionLines();
+    this.fitCamera();
+  }
+
+  /**
+   * Create a cluster's node and its (initially hidden) turn and block nodes
+   */
+  private createClusterNodes(cluster: TurnCluster): VisualNode[] {
+    // Cluster node (collapsed representation)
+    const nodes = [this.createClusterNode(cluster)];
+
+    // Create child nodes (hidden initially)
+    if (cluster.userTurn && cluster.userTurnIndex !== undefined) {
+      const userNode = this.createNode('user', cluster.userTurn, cluster.userTurnIndex, cluster.index);
+      userNode.object.visible = false;
+      userNode.object.scale.setScalar(0.01);
+      nodes.push(userNode);
+    }
+
+    if (cluster.assistantTurn && cluster.assistantTurnIndex !== undefined) {
+      const assistantNode = this.createNode('assistant', cluster.assistantTurn, cluster.assistantTurnIndex, cluster.index);
+      assistantNode.object.visible = false;
+      assistantNode.object.scale.setScalar(0.01);
+      nodes.push(assistantNode);
+
+      // Create thinking and tool nodes
+      for (const block of cluster.assistantTurn.content) {
+        if (block.type === 'thinking') {
+          const thinkingNode = this.createNode('thinking', block, cluster.assistantTurnIndex, cluster.index);
+          thinkingNode.object.visible = false;
+          thinkingNode.object.scale.setScalar(0.01);
+          nodes.push(thinkingNode);
+        } else if (block.type === 'tool_use') {
+          const toolNode = this.createNode('tool_use', block, cluster.assistantTurnIndex, cluster.index);
+          toolNode.object.visible = false;
+          toolNode.object.scale.setScalar(0.01);
+          nodes.push(toolNode);
+        } else if (block.type === 'tool_result') {
+          const resultNode = this.createNode('tool_result', block, cluster.assistantTurnIndex, cluster.index);
+          resultNode.object.visible = false;
+          resultNode.object.scale.setScalar(0.01);
+          nodes.push(resultNode);
+        } else if (block.type === 'image' || block.type === 'document') {
+          const docNode = this.createNode('document', block, cluster.assistantTurnIndex, cluster.index);
+          docNode.object.visible = false;
+          docNode.object.scale.setScalar(0.01);
+          nodes.push(docNode);
         }
       }
+    }
 
-      // Create document nodes from user turn (images, PDFs, etc.)
-      if (cluster.userTurn && cluster.userTurnIndex !== undefined) {
-        for (const block of cluster.userTurn.content) {
-          if (block.type === 'image' || block.type === 'document') {
-            const docNode = this.createNode('document', block, cluster.userTurnIndex, cluster.index);
-            docNode.mesh.visible = false;
-            docNode.mesh.scale.setScalar(0.01);
-            this.nodes.push(docNode);
-            this.scene.add(docNode.mesh);
-          }
+    // Create document nodes from user turn (images, PDFs, etc.)
+    if (cluster.userTurn && cluster.userTurnIndex !== undefined) {
+      for (const block of cluster.userTurn.content) {
+        if (block.type === 'image' || block.type === 'document') {
+          const docNode = this.createNode('document', block, cluster.userTurnIndex, cluster.index);
+          docNode.object.visible = false;
+          docNode.object.scale.setScalar(0.01);
+          nodes.push(docNode);
         }
       }
     }
 
-    // Set initial focus to middle of conversation
-    this.focusClusterIndex = Math.floor(this.clusters.length / 2);
+    return nodes;
+  }
 
-    // Apply initial layout
-    this.applyLayout(false);
-    this.updateConnectionLines();
-    this.fitCamera();
+  /**
+   * Index nodes by cluster for lookups that run on camera movement
+   */
+  private indexNodesByCluster(nodes: VisualNode[]): void {
+    for (const node of nodes) {
+      if (node.clusterIndex === undefined) continue;
+      const group = this.nodesByCluster.get(node.clusterIndex);
+      if (group) group.push(node);
+      else this.nodesByCluster.set(node.clusterIndex, [node]);
+    }
   }
 
   /**
@@ -774,31 +1247,45 @@ export class Viewer {
    */
   private createClusterNode(cluster: TurnCluster): VisualNode {
     // Size based on content from config
-    const { clusterBase, clusterMaxBonus, clusterSegments } = config.layout.nodeSize;
+    const { clusterBase, clusterMaxBonus } = config.layout.nodeSize;
     const sizeBonus = Math.min(clusterMaxBonus, (cluster.thinkingCount + cluster.toolCount) * 0.1);
-    const size = clusterBase + sizeBonus;
+    const agentScale = this.agentCoilByCluster.has(cluster.index) ? config.layout.agent.nodeScale : 1;
+    const size = (clusterBase + sizeBonus) * agentScale;
 
-    const geometry = new THREE.SphereGeometry(size, clusterSegments, clusterSegments);
-
-    // Select material based on cluster properties
-    let material: THREE.MeshStandardMaterial;
+    // Select batch based on cluster properties
+    let batch = 'cluster';
     if (cluster.hasError) {
-      material = this.errorMaterial;
+      batch = 'cluster-error';
     } else if (cluster.isSidechain) {
-      material = this.sidechainMaterial;
-    } else {
-      material = this.materials.cluster;
+      batch = 'cluster-sidechain';
     }
 
-    const mesh = new THREE.Mesh(geometry, material);
+    const instance = this.instancedNodes.add(batch, { baseScale: size });
 
     return {
-      mesh,
+      object: instance.object,
+      instance,
       type: 'cluster',
       data: cluster,
       turnIndex: cluster.userTurnIndex ?? cluster.assistantTurnIndex ?? 0,
       clusterIndex: cluster.index,
-      originalMaterial: material,
+    };
+  }
+
+  /**
+   * Create a node for a cluster on a side spiral.
+   * Side spiral nodes are ghosted and not selectable.
+   */
+  private createBranchNode(cluster: TurnCluster): VisualNode {
+    const size = config.layout.nodeSize.clusterBase * config.layout.branch.nodeScale;
+    const instance = this.instancedNodes.add('branch', { baseScale: size });
+
+    return {
+      object: instance.object,
+      instance,
+      type: 'cluster',
+      data: cluster,
+      turnIndex: cluster.userTurnIndex ?? cluster.assistantTurnIndex ?? 0,
     };
   }
 
@@ -806,17 +1293,16 @@ export class Viewer {
    * Create a visual node
    */
   private createNode(type: NodeType, data: Turn | ContentBlock, turnIndex: number, clusterIndex?: number): VisualNode {
-    const geometry = this.getGeometryForType(type);
-
     // Use success material for non-error tool results
-    let material = this.materials[type];
+    let batch: string = type;
     if (type === 'tool_result' && data && 'is_error' in data && !data.is_error) {
-      material = this.toolResultSuccessMaterial;
+      batch = 'tool_result-success';
     }
 
-    const mesh = new THREE.Mesh(geometry, material);
+    // Blocks of far-off expanded clusters are not drawn
+    const instance = this.instancedNodes.add(batch, { maxDistance: config.layout.lod.blockHideDistance });
 
-    return { mesh, type, data, turnIndex, clusterIndex, originalMaterial: material };
+    return { object: instance.object, instance, type, data, turnIndex, clusterIndex };
   }
 
   /**
@@ -835,8 +1321,6 @@ export class Viewer {
         return new THREE.ConeGeometry(nodeSize.toolUseRadius, nodeSize.toolUseHeight, nodeSize.toolUseSegments);
       case 'tool_result':
         return new THREE.OctahedronGeometry(nodeSize.toolResultSize);
-      case 'cluster':
-        return new THREE.SphereGeometry(nodeSize.clusterBase, nodeSize.clusterSegments, nodeSize.clusterSegments);
       default:
         return new THREE.BoxGeometry(0.5, 0.5, 0.5);
     }
@@ -852,7 +1336,7 @@ export class Viewer {
       verticalStep: this.verticalStep,
       tiltAngle: this.tiltAngle,
       radiusGrowth: this.radiusGrowth,
-      focusIndex: this.focusClusterIndex,
+      focusIndex: this.coilSlots[this.focusClusterIndex] ?? this.focusClusterIndex,
       minVerticalSpacing: this.minVerticalSpacing,
       maxVerticalSpacing: this.maxVerticalSpacing,
       focusRadius: this.focusRadius,
@@ -867,6 +1351,76 @@ export class Viewer {
     return new THREE.Vector3(pos.x, pos.y, pos.z);
   }
 
+  /**
+   * Calculate position for a cluster: on the main coil, or on its agent coil.
+   * Clusters of a collapsed agent coil sit at their spawning cluster.
+   */
+  private getClusterPosition(index: number): THREE.Vector3 {
+    if (this.layoutMode === 'timeline') return this.getTimelineClusterPosition(index);
+
+    const coilSlot = this.coilSlots[index] ?? index;
+    const coil = this.agentCoilByCluster.get(index);
+    if (!coil || coil.collapsed) return this.getSpiralPosition(coilSlot);
+
+    const pos = getAgentCoilPosition(
+      coilSlot,
+      coil.clusterIndices.indexOf(index),
+      coil.slot,
+      this.getLayoutParams(),
+      config.layout.agent
+    );
+    return new THREE.Vector3(pos.x, pos.y, pos.z);
+  }
+
+  /**
+   * Get the time a cluster started, in milliseconds
+   */
+  private getClusterTime(cluster: TurnCluster): number | undefined {
+    return parseTimestamp(cluster.userTurn?.timestamp ?? cluster.assistantTurn?.timestamp);
+  }
+
+  /**
+   * Get the timeline axis offset of every cluster, computing it on first use.
+   * Main clusters anchor the time scale; each agent lane starts at its
+   * spawning cluster.
+   */
+  private getTimelineOffsets(): number[] {
+    if (this.timelineOffsets) return this.timelineOffsets;
+
+    const { minSpacing } = config.layout.timeline;
+    const mainClusters = this.clusters.filter(cluster => !this.agentCoilByCluster.has(cluster.index));
+    const scale = createTimelineScale(mainClusters.map(cluster => this.getClusterTime(cluster)), config.layout.timeline);
+
+    const offsets: number[] = [];
+    mainClusters.forEach((cluster, i) => {
+      offsets[cluster.index] = scale.offsets[i];
+    });
+    for (const coil of this.agentCoils) {
+      const times = coil.clusterIndices.map(index => this.getClusterTime(this.clusters[index]));
+      getLaneOffsets(scale, times, offsets[coil.spawnClusterIndex], minSpacing).forEach((offset, i) => {
+        offsets[coil.clusterIndices[i]] = offset;
+      });
+    }
+
+    this.timelineScale = scale;
+    this.timelineOffsets = offsets;
+    return offsets;
+  }
+
+  /**
+   * Calculate timeline position for a cluster. Agent clusters run in lanes
+   * beside the main path; collapsed ones sit at their spawning cluster.
+   */
+  private getTimelineClusterPosition(index: number): THREE.Vector3 {
+    const offsets = this.getTimelineOffsets();
+    const coil = this.agentCoilByCluster.get(index);
+
+    const pos = coil?.collapsed
+      ? getTimelinePosition(offsets[coil.spawnClusterIndex], 0, config.layout.timeline)
+      : getTimelinePosition(offsets[index] ?? 0, coil ? -(coil.slot + 1) : 0, config.layout.timeline);
+    return new THREE.Vector3(pos.x, pos.y, pos.z);
+  }
+
   /**
    * Update focus and re-layout
    */
@@ -880,15 +1434,27 @@ export class Viewer {
    * Apply layout to all nodes
    */
   private applyLayout(animate: boolean): void {
+    this.blockDetailClusters.clear();
     for (const cluster of this.clusters) {
-      const clusterPos = this.getSpiralPosition(cluster.index);
+      const clusterPos = this.getClusterPosition(cluster.index);
       const clusterNode = this.nodes.find(n => n.type === 'cluster' && (n.data as TurnCluster).index === cluster.index);
 
       if (!clusterNode) continue;
 
-      if (cluster.expanded) {
-        // Hide cluster node
-        clusterNode.targetScale = 0.01;
+      if (this.agentCoilByCluster.get(cluster.index)?.collapsed) {
+        // Collapsed agent coil: fold everything into the spawning cluster
+        for (const node of this.nodes.filter(n => n.clusterIndex === cluster.index)) {
+          node.targetPosition = clusterPos.clone();
+          node.targetScale = 0.01;
+        }
+      } else if (cluster.expanded) {
+        // Hide cluster node, unless it's too far away for its blocks to be drawn
+        if (this.isWithinBlockDetail(clusterPos)) {
+          this.blockDetailClusters.add(cluster.index);
+          clusterNode.targetScale = 0.01;
+        } else {
+          clusterNode.targetScale = 1;
+        }
         clusterNode.targetPosition = clusterPos.clone();
 
         // Position child nodes in logical order:
@@ -908,14 +1474,16 @@ export class Viewer {
           });
 
         // Radial direction from helix center for angled descent
+        // (the timeline has no center, so children drop straight down)
         const radLen = Math.sqrt(clusterPos.x * clusterPos.x + clusterPos.z * clusterPos.z);
         const radX = radLen > 0 ? clusterPos.x / radLen : 1;
         const radZ = radLen > 0 ? clusterPos.z / radLen : 0;
-        const cosD = Math.cos(this.descendAngle);
-        const sinD = Math.sin(this.descendAngle);
+        const descendAngle = this.layoutMode === 'coil' ? this.descendAngle : 0;
+        const cosD = Math.cos(descendAngle);
+        const sinD = Math.sin(descendAngle);
 
         for (const node of childNodes) {
-          node.mesh.visible = true;
+          node.object.visible = true;
 
           const pos = clusterPos.clone();
           // Descend at an angle: vertical + radial outward component
@@ -960,35 +1528,75 @@ export class Viewer {
       }
     }
 
+    // Side spirals hang off their fork cluster's current position
+    const layoutParams = this.getLayoutParams();
+    for (const spiral of this.sideSpirals) {
+      if (this.layoutMode === 'timeline') {
+        this.applyTimelineBranchLayout(spiral);
+        continue;
+      }
+      spiral.nodes.forEach((node, index) => {
+        const forkSlot = this.coilSlots[spiral.forkClusterIndex] ?? spiral.forkClusterIndex;
+        const pos = getBranchSpiralPosition(forkSlot, index, spiral.slot, layoutParams, config.layout.branch);
+        node.targetPosition = new THREE.Vector3(pos.x, pos.y, pos.z);
+        node.targetScale = 1;
+      });
+    }
+
+    // Compaction rings circle the cluster the conversation continues with
+    for (const node of this.boundaryNodes) {
+      node.targetPosition = this.getClusterPosition((node.data as CompactionBoundaryInfo).clusterIndex);
+      node.targetScale = 1;
+    }
+
     if (animate) {
       this.startAnimation();
     } else {
       // Apply immediately
       const threshold = config.layout.selection.visibilityThreshold;
-      for (const node of this.nodes) {
+      for (const node of [...this.nodes, ...this.getSideSpiralNodes(), ...this.boundaryNodes]) {
         if (node.targetPosition) {
-          node.mesh.position.copy(node.targetPosition);
+          node.object.position.copy(node.targetPosition);
         }
         if (node.targetScale !== undefined) {
-          node.mesh.scale.setScalar(node.targetScale);
-          node.mesh.visible = node.targetScale > threshold;
+          node.object.scale.setScalar(node.targetScale);
+          node.object.visible = node.targetScale > threshold;
         }
       }
     }
   }
 
+  /**
+   * Place an abandoned branch in its own timeline lane, starting at its fork
+   */
+  private applyTimelineBranchLayout(spiral: SideSpiral): void {
+    const offsets = this.getTimelineOffsets();
+    if (!this.timelineScale) return;
+
+    const times = spiral.nodes.map(node => this.getClusterTime(node.data as TurnCluster));
+    const { minSpacing } = config.layout.timeline;
+    const laneOffsets = getLaneOffsets(this.timelineScale, times, offsets[spiral.forkClusterIndex], minSpacing);
+
+    spiral.nodes.forEach((node, index) => {
+      const pos = getTimelinePosition(laneOffsets[index], spiral.slot + 1, config.layout.timeline);
+      node.targetPosition = new THREE.Vector3(pos.x, pos.y, pos.z);
+      node.targetScale = 1;
+    });
+  }
+
   /**
    * Start layout animation
    */
   private startAnimation(): void {
     this.animating = true;
     this.animationStart = Date.now();
-    this.animatingNodes = this.nodes.filter(n => n.targetPosition || n.targetScale !== undefined);
+    this.animatingNodes = [...this.nodes, ...this.getSideSpiralNodes(), ...this.boundaryNodes]
+      .filter(n => n.targetPosition || n.targetScale !== undefined);
 
     // Store starting positions
     for (const node of this.animatingNodes) {
-      (node as any).startPosition = node.mesh.position.clone();
-      (node as any).startScale = node.mesh.scale.x;
+      (node as any).startPosition = node.object.position.clone();
+      (node as any).startScale = node.object.scale.x;
     }
   }
 
@@ -1011,13 +1619,13 @@ export class Viewer {
         const startScale = (node as any).startScale as number;
 
         if (node.targetPosition && startPos) {
-          node.mesh.position.lerpVectors(startPos, node.targetPosition, eased);
+          node.object.position.lerpVectors(startPos, node.targetPosition, eased);
         }
 
         if (node.targetScale !== undefined && startScale !== undefined) {
           const newScale = startScale + (node.targetScale - startScale) * eased;
-          node.mesh.scale.setScalar(newScale);
-          node.mesh.visible = newScale > config.layout.selection.visibilityThreshold;
+          node.object.scale.setScalar(newScale);
+          node.object.visible = newScale > config.layout.selection.visibilityThreshold;
         }
       }
 
@@ -1029,7 +1637,7 @@ export class Viewer {
         this.animatingNodes = [];
 
         // If selected node became invisible, select the cluster instead
-        if (this.selectedNode && !this.selectedNode.mesh.visible) {
+        if (this.selectedNode && !this.selectedNode.object.visible) {
           const clusterNode = this.nodes.find(
             n => n.type === 'cluster' && n.clusterIndex === this.selectedNode?.clusterIndex
           );
@@ -1102,17 +1710,99 @@ export class Viewer {
    * Update connection lines between nodes in expanded clusters
    */
   private updateConnectionLines(): void {
-    // Remove existing lines
-    for (const line of this.connectionLines) {
-      this.scene.remove(line);
+    this.linesViewpoint.copy(this.scene.camera.position);
+
+    this.clearConnectionLines();
+    for (const index of this.blockDetailClusters) {
+      this.addConnectionLine(index);
     }
-    for (const geom of this.connectionLineGeometries) {
-      geom.dispose();
+
+    this.updateClusterLine(this.getClusterLinePoints());
+    this.updateBranchLines();
+    this.updateAgentLines();
+  }
+
+  /**
+   * Whether a position is close enough to the camera for blocks there to be drawn
+   */
+  private isWithinBlockDetail(position: THREE.Vector3): boolean {
+    return position.distanceTo(this.scene.camera.position) <= config.layout.lod.blockHideDistance;
+  }
+
+  /**
+   * Add the line connecting the nodes of an expanded cluster
+   */
+  private addConnectionLine(clusterIndex: number): void {
+    // Get all visible nodes in this cluster in order
+    const clusterNodes = (this.nodesByCluster.get(clusterIndex) ?? []).filter(
+      n => n.type !== 'cluster' && n.object.visible
+    );
+
+    if (clusterNodes.length < 2) return;
+
+    // Sort by Y position (top to bottom)
+    clusterNodes.sort((a, b) => b.object.position.y - a.object.position.y);
+
+    // Create line connecting all nodes using Line2
+    const positions: number[] = [];
+    for (const node of clusterNodes) {
+      positions.push(node.object.position.x, node.object.position.y, node.object.position.z);
     }
-    this.connectionLines = [];
-    this.connectionLineGeometries = [];
 
-    // Remove existing cluster line
+    const geometry = new LineGeometry();
+    geometry.setPositions(positions);
+
+    const line = new Line2(geometry, this.lineMaterial);
+    line.computeLineDistances();
+    this.scene.add(line);
+    this.connectionLines.set(clusterIndex, line);
+  }
+
+  /**
+   * Remove an expanded cluster's connection line
+   */
+  private removeConnectionLine(clusterIndex: number): void {
+    const line = this.connectionLines.get(clusterIndex);
+    if (!line) return;
+    this.scene.remove(line);
+    line.geometry.dispose();
+    this.connectionLines.delete(clusterIndex);
+  }
+
+  /**
+   * Remove every expanded cluster's connection line
+   */
+  private clearConnectionLines(): void {
+    for (const index of Array.from(this.connectionLines.keys())) {
+      this.removeConnectionLine(index);
+    }
+  }
+
+  /**
+   * Points the line through the main-coil cluster nodes runs through at the
+   * current level of detail
+   */
+  private getClusterLinePoints(): THREE.Vector3[] {
+    if (!this.showClusterLines || this.clusters.length <= 1) return [];
+
+    const points: THREE.Vector3[] = [];
+    for (const cluster of this.clusters) {
+      if (this.agentCoilByCluster.has(cluster.index)) continue;
+
+      const node = this.getVisibleClusterNode(cluster);
+      if (node) {
+        points.push(node.object.position);
+      }
+    }
+
+    const { lineDecimationDistance, lineDecimationStep } = config.layout.lod;
+    return decimatePath(points, this.scene.camera.position, lineDecimationDistance, lineDecimationStep);
+  }
+
+  /**
+   * Redraw the line connecting all main-coil cluster nodes through the given points
+   */
+  private updateClusterLine(points: THREE.Vector3[]): void {
     if (this.clusterLine) {
       this.scene.remove(this.clusterLine);
       this.clusterLine = null;
@@ -1121,73 +1811,153 @@ export class Viewer {
       this.clusterLineGeometry.dispose();
       this.clusterLineGeometry = null;
     }
+    this.clusterLinePoints = points;
 
-    // Create lines for each expanded cluster
-    for (const cluster of this.clusters) {
-      if (!cluster.expanded) continue;
+    if (points.length < 2) return;
 
-      // Get all visible nodes in this cluster in order
-      const clusterNodes = this.nodes.filter(
-        n => n.clusterIndex === cluster.index && n.type !== 'cluster' && n.mesh.visible
-      );
+    const positions: number[] = [];
+    for (const point of points) {
+      positions.push(point.x, point.y, point.z);
+    }
+
+    const geometry = new LineGeometry();
+    geometry.setPositions(positions);
+    this.clusterLineGeometry = geometry;
+
+    this.clusterLine = new Line2(geometry, this.clusterLineMaterial);
+    this.clusterLine.computeLineDistances();
+    this.scene.add(this.clusterLine);
+  }
+
+  /**
+   * Find the visible node for a cluster (either cluster node or first child if expanded)
+   */
+  private getVisibleClusterNode(cluster: TurnCluster): VisualNode | undefined {
+    const nodes = this.nodesByCluster.get(cluster.index) ?? [];
+    if (cluster.expanded) {
+      // Use the first visible child node
+      return nodes.find(n => n.type !== 'cluster' && n.object.visible);
+    }
+
+    // Use the cluster node
+    return nodes.find(n => n.type === 'cluster' && n.object.visible);
+  }
 
-      if (clusterNodes.length < 2) continue;
+  /**
+   * Update lines running from each spawning cluster through its agent coil
+   */
+  private updateAgentLines(): void {
+    this.clearAgentLines();
+    if (!this.showClusterLines) return;
 
-      // Sort by Y position (top to bottom)
-      clusterNodes.sort((a, b) => b.mesh.position.y - a.mesh.position.y);
+    for (const coil of this.agentCoils) {
+      if (coil.collapsed) continue;
 
-      // Create line connecting all nodes using Line2
       const positions: number[] = [];
-      for (const node of clusterNodes) {
-        positions.push(node.mesh.position.x, node.mesh.position.y, node.mesh.position.z);
+      for (const index of [coil.spawnClusterIndex, ...coil.clusterIndices]) {
+        const node = this.getVisibleClusterNode(this.clusters[index]);
+        if (node) {
+          positions.push(node.object.position.x, node.object.position.y, node.object.position.z);
+        }
       }
+      if (positions.length < 6) continue;
 
       const geometry = new LineGeometry();
       geometry.setPositions(positions);
-      this.connectionLineGeometries.push(geometry);
+      this.agentLineGeometries.push(geometry);
 
-      const line = new Line2(geometry, this.lineMaterial);
+      const line = new Line2(geometry, this.clusterLineMaterial);
       line.computeLineDistances();
       this.scene.add(line);
-      this.connectionLines.push(line);
+      this.agentLines.push(line);
     }
+  }
 
-    // Create line connecting all cluster nodes if enabled
-    if (this.showClusterLines && this.clusters.length > 1) {
-      const positions: number[] = [];
+  /**
+   * Remove agent coil lines from the scene
+   */
+  private clearAgentLines(): void {
+    for (const line of this.agentLines) {
+      this.scene.remove(line);
+    }
+    for (const geom of this.agentLineGeometries) {
+      geom.dispose();
+    }
+    this.agentLines = [];
+    this.agentLineGeometries = [];
+  }
 
-      for (const cluster of this.clusters) {
-        // Find the visible node for this cluster (either cluster node or first child if expanded)
-        let node: VisualNode | undefined;
+  /**
+   * Update lines running from each fork cluster through its side spiral
+   */
+  private updateBranchLines(): void {
+    for (const line of this.branchLines) {
+      this.scene.remove(line);
+    }
+    for (const geom of this.branchLineGeometries) {
+      geom.dispose();
+    }
+    this.branchLines = [];
+    this.branchLineGeometries = [];
 
-        if (cluster.expanded) {
-          // Use the first visible child node
-          node = this.nodes.find(
-            n => n.clusterIndex === cluster.index && n.type !== 'cluster' && n.mesh.visible
-          );
-        } else {
-          // Use the cluster node
-          node = this.nodes.find(
-            n => n.type === 'cluster' && (n.data as TurnCluster).index === cluster.index && n.mesh.visible
-          );
-        }
+    for (const spiral of this.sideSpirals) {
+      const forkNode = this.nodes.find(
+        n => n.type === 'cluster' && n.clusterIndex === spiral.forkClusterIndex
+      );
+      if (!forkNode) continue;
 
-        if (node) {
-          positions.push(node.mesh.position.x, node.mesh.position.y, node.mesh.position.z);
-        }
+      const positions: number[] = [forkNode.object.position.x, forkNode.object.position.y, forkNode.object.position.z];
+      for (const node of spiral.nodes) {
+        positions.push(node.object.position.x, node.object.position.y, node.object.position.z);
       }
 
-      if (positions.length >= 6) { // At least 2 points (6 values)
-        // Create new LineGeometry
-        const geometry = new LineGeometry();
-        geometry.setPositions(positions);
-        this.clusterLineGeometry = geometry;
+      const geometry = new LineGeometry();
+      geometry.setPositions(positions);
+      this.branchLineGeometries.push(geometry);
+
+      const line = new Line2(geometry, this.branchLineMaterial);
+      line.computeLineDistances();
+      this.scene.add(line);
+      this.branchLines.push(line);
+    }
+  }
+
+  /**
+   * Once the camera has moved far enough, swap expanded clusters between
+   * their blocks and their cluster node, and redraw the lines whose level
+   * of detail changed
+   */
+  private updateLineDetail(): void {
+    if (this.animating || this.nodes.length === 0) return;
+    if (this.scene.camera.position.distanceTo(this.linesViewpoint) <= config.layout.lod.refreshDistance) return;
+    this.linesViewpoint.copy(this.scene.camera.position);
+
+    for (const cluster of this.clusters) {
+      if (!cluster.expanded || this.agentCoilByCluster.get(cluster.index)?.collapsed) continue;
+
+      const clusterNode = this.nodesByCluster.get(cluster.index)?.find(n => n.type === 'cluster');
+      if (!clusterNode) continue;
+
+      const near = this.isWithinBlockDetail(clusterNode.object.position);
+      if (near === this.blockDetailClusters.has(cluster.index)) continue;
 
-        // Create Line2
-        this.clusterLine = new Line2(geometry, this.clusterLineMaterial);
-        this.clusterLine.computeLineDistances();
-        this.scene.add(this.clusterLine);
+      if (near) {
+        this.blockDetailClusters.add(cluster.index);
+        this.addConnectionLine(cluster.index);
+      } else {
+        this.blockDetailClusters.delete(cluster.index);
+        this.removeConnectionLine(cluster.index);
       }
+      clusterNode.targetScale = near ? 0.01 : 1;
+      clusterNode.object.scale.setScalar(clusterNode.targetScale);
+      clusterNode.object.visible = !near;
+    }
+
+    const points = this.getClusterLinePoints();
+    const unchanged = points.length === this.clusterLinePoints.length &&
+      points.every((point, i) => point === this.clusterLinePoints[i]);
+    if (!unchanged) {
+      this.updateClusterLine(points);
     }
   }
 
@@ -1196,20 +1966,18 @@ export class Viewer {
    */
   private clearNodes(): void {
     for (const node of this.nodes) {
-      this.scene.remove(node.mesh);
-      node.mesh.geometry.dispose();
+      this.instancedNodes.remove(node.instance);
     }
     this.nodes = [];
+    this.nodesByCluster.clear();
 
     // Also clear connection lines
-    for (const line of this.connectionLines) {
-      this.scene.remove(line);
-    }
-    for (const geom of this.connectionLineGeometries) {
-      geom.dispose();
-    }
-    this.connectionLines = [];
-    this.connectionLineGeometries = [];
+    this.clearConnectionLines();
+    this.blockDetailClusters.clear();
+
+    this.clearAgentLines();
+    this.clearSideSpirals();
+    this.clearBoundaries();
   }
 
   /**
@@ -1218,13 +1986,16 @@ export class Viewer {
   private fitCamera(): void {
     if (this.nodes.length === 0) return;
 
-    const visibleNodes = this.nodes.filter(n => n.mesh.visible);
+    const visibleNodes = this.nodes.filter(n => n.object.visible);
     if (visibleNodes.length === 0) return;
 
     const box = new THREE.Box3();
     for (const node of visibleNodes) {
-      box.expandByObject(node.mesh);
+      box.expandByPoint(node.object.position);
     }
+    // Node positions are centres; leave room for the largest cluster
+    const { clusterBase, clusterMaxBonus } = config.layout.nodeSize;
+    box.expandByScalar(clusterBase + clusterMaxBonus);
 
     const center = box.getCenter(new THREE.Vector3());
     const size = box.getSize(new THREE.Vector3());
@@ -1239,6 +2010,37 @@ export class Viewer {
     );
   }
 
+  /**
+   * Animate the camera to frame the nodes' target positions
+   * (used when the whole layout changes shape)
+   */
+  private animateCameraToFit(): void {
+    const threshold = config.layout.selection.visibilityThreshold;
+    const box = new THREE.Box3();
+    for (const node of [...this.nodes, ...this.getSideSpiralNodes()]) {
+      if (node.targetPosition && (node.targetScale ?? 1) > threshold) {
+        box.expandByPoint(node.targetPosition);
+      }
+    }
+    if (box.isEmpty()) return;
+
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z, 1);
+    const [offsetX, offsetY, offsetZ] = config.layout.camera.fitViewOffset;
+
+    this.cameraAnimating = true;
+    this.cameraAnimStart = Date.now();
+    this.cameraStartPos.copy(this.scene.camera.position);
+    this.cameraTargetPos.set(
+      center.x + maxDim * offsetX,
+      center.y + maxDim * offsetY,
+      center.z + maxDim * offsetZ
+    );
+    this.cameraStartLookAt.copy(this.controls.getTarget());
+    this.cameraTargetLookAt.copy(center);
+  }
+
   /**
    * Calculate and report stats
    */
@@ -1284,6 +2086,93 @@ export class Viewer {
     return this.conversation;
   }
 
+  /**
+   * Get the index of the cluster containing a turn (-1 if nothing is loaded)
+   */
+  public getClusterIndexForTurn(turnIndex: number): number {
+    return findOwningClusterIndex(this.clusters, this.conversation?.turns ?? [], turnIndex);
+  }
+
+  /**
+   * Get the selectable branches of the conversation, one per leaf.
+   * Linear conversations have a single branch.
+   */
+  public getBranches(): ConversationBranch[] {
+    if (!this.conversation || !this.tree) return [];
+    return getConversationBranches(this.conversation, this.tree);
+  }
+
+  /**
+   * Get the leaf turn index of the branch shown as the main path
+   */
+  public getActiveBranch(): number | null {
+    if (!this.tree) return null;
+    return this.activeBranchLeaf ?? this.tree.leaves[this.tree.leaves.length - 1] ?? null;
+  }
+
+  /**
+   * Make the branch ending at a leaf the main path.
+   * Clusters, metrics, search, and export all follow the main path.
+   */
+  public setActiveBranch(leafTurnIndex: number): void {
+    if (!this.tree?.leaves.includes(leafTurnIndex)) return;
+    if (leafTurnIndex === this.getActiveBranch()) return;
+
+    this.clearAllHighlights();
+    this.searchFilterClusters = null;
+    this.activeBranchLeaf = leafTurnIndex;
+    this.buildVisualization();
+  }
+
+  /**
+   * Show or hide abandoned branches as side spirals off the main coil
+   */
+  public setShowBranches(show: boolean): void {
+    if (show === this.showBranches) return;
+    this.showBranches = show;
+
+    this.clearSideSpirals();
+    this.buildSideSpirals();
+    this.applyLayout(false);
+    this.updateConnectionLines();
+  }
+
+  /**
+   * Get whether abandoned branches are shown as side spirals
+   */
+  public getShowBranches(): boolean {
+    return this.showBranches;
+  }
+
+  /**
+   * Get per-agent token totals and coil state, in reading order
+   */
+  public getAgentMetrics(): AgentCoilInfo[] {
+    const metrics = calculateAgentMetrics(this.clusters, this.agentCoils);
+    return this.agentCoils.map((coil, i) => ({
+      ...metrics[i],
+      spawnClusterIndex: coil.spawnClusterIndex,
+      collapsed: coil.collapsed,
+    }));
+  }
+
+  /**
+   * Collapse an agent's coil into its spawning cluster, or unfold it again
+   */
+  public toggleAgentCoil(agentId: string): void {
+    if (this.animating) return;
+
+    const coil = this.agentCoils.find(c => c.agentId === agentId);
+    if (!coil) return;
+
+    coil.collapsed = !coil.collapsed;
+    if (coil.collapsed && this.selectedNode?.clusterIndex !== undefined &&
+        coil.clusterIndices.includes(this.selectedNode.clusterIndex)) {
+      this.clearSelection();
+    }
+    this.animateLayout();
+  }
+
   /**
    * Get the number of clusters
    */
@@ -1294,16 +2183,20 @@ export class Viewer {
   /**
    * Metrics available per cluster using the cluster-builder module
    */
-  public getClusterMetrics(): Array<{
-    index: number;
-    totalTokens: number;
-    inputTokens: number;
-    outputTokens: number;
-    thinkingCount: number;
-    toolCount: number;
-    contentLength: number;
-  }> {
-    return calculateClusterMetrics(this.clusters);
+  public getClusterMetrics(): ClusterMetrics[] {
+    // Metrics of clusters kept on append stay cached
+    const known = this.clusterMetrics ?? [];
+    this.clusterMetrics = known.length < this.clusters.length
+      ? known.concat(calculateClusterMetrics(this.clusters.slice(known.length)))
+      : known;
+    return this.clusterMetrics;
+  }
+
+  /**
+   * Get the compaction boundaries on the main coil, in order
+   */
+  public getCompactionBoundaries(): CompactionBoundaryInfo[] {
+    return this.boundaries;
   }
 
   /**
@@ -1317,7 +2210,17 @@ export class Viewer {
    * Get searchable content for all clusters using the cluster-builder module
    */
   public getSearchableContent(): SearchableCluster[] {
-    return extractSearchableContent(this.clusters, this.conversation?.entries, this.conversation?.meta.source);
+    // Content of clusters kept on append stays cached
+    const known = this.searchableContent ?? [];
+    this.searchableContent = known.length < this.clusters.length
+      ? known.concat(extractSearchableContent(
+        this.clusters,
+        this.conversation?.entries,
+        this.conversation?.meta.source,
+        known.length
+      ))
+      : known;
+    return this.searchableContent;
   }
 
   /**
@@ -1326,17 +2229,25 @@ export class Viewer {
   public selectClusterByIndex(index: number): void {
     if (index < 0 || index >= this.clusters.length) return;
 
+    // Unfold a collapsed agent coil so its cluster can be selected
+    const coil = this.agentCoilByCluster.get(index);
+    if (coil?.collapsed) {
+      coil.collapsed = false;
+      this.applyLayout(false);
+      this.updateConnectionLines();
+    }
+
     // Find the cluster node
     const clusterNode = this.nodes.find(
       n => n.type === 'cluster' && (n.data as TurnCluster).index === index
     );
 
-    if (clusterNode && clusterNode.mesh.visible) {
+    if (clusterNode && clusterNode.object.visible) {
       this.selectNode(clusterNode);
     } else {
       // If cluster is expanded, find a visible child node
       const childNode = this.nodes.find(
-        n => n.clusterIndex === index && n.type !== 'cluster' && n.mesh.visible
+        n => n.clusterIndex === index && n.type !== 'cluster' && n.object.visible
       );
       if (childNode) {
         this.selectNode(childNode);
@@ -1352,18 +2263,18 @@ export class Viewer {
 
     // Find the cluster node or a visible child
     let targetNode = this.nodes.find(
-      n => n.type === 'cluster' && (n.data as TurnCluster).index === index && n.mesh.visible
+      n => n.type === 'cluster' && (n.data as TurnCluster).index === index && n.object.visible
     );
 
     if (!targetNode) {
       targetNode = this.nodes.find(
-        n => n.clusterIndex === index && n.mesh.visible
+        n => n.clusterIndex === index && n.object.visible
       );
     }
 
     if (!targetNode) return;
 
-    const nodePos = targetNode.mesh.position.clone();
+    const nodePos = targetNode.object.position.clone();
 
     // Calculate camera position to look at node from a good angle
     const cameraOffset = new THREE.Vector3(8, 4, 8);
@@ -1431,19 +2342,9 @@ export class Viewer {
       n => n.type === 'cluster' && (n.data as TurnCluster).index === clusterIndex
     );
 
-    if (clusterNode && !this.highlightedClusters.has(clusterIndex)) {
-      // Store original material
-      this.highlightedClusters.set(clusterIndex, clusterNode.mesh.material as THREE.Material);
+    if (clusterNode && !this.clusterHighlightColors.has(clusterIndex)) {
       this.clusterHighlightColors.set(clusterIndex, color);
-
-      // Apply highlight material
-      const highlightMat = new THREE.MeshStandardMaterial({
-        color: color,
-        roughness: 0.3,
-        emissive: color,
-        emissiveIntensity: 0.3,
-      });
-      clusterNode.mesh.material = highlightMat;
+      this.updateNodeColor(clusterNode);
     }
   }
 
@@ -1472,16 +2373,9 @@ export class Viewer {
       n => n.type === 'cluster' && (n.data as TurnCluster).index === clusterIndex
     );
 
-    const originalMaterial = this.highlightedClusters.get(clusterIndex);
-    if (clusterNode && originalMaterial) {
-      // Dispose highlight material
-      if (clusterNode.mesh.material !== originalMaterial) {
-        (clusterNode.mesh.material as THREE.Material).dispose();
-      }
-      // Restore original
-      clusterNode.mesh.material = originalMaterial;
-      this.highlightedClusters.delete(clusterIndex);
+    if (clusterNode && this.clusterHighlightColors.has(clusterIndex)) {
       this.clusterHighlightColors.delete(clusterIndex);
+      this.updateNodeColor(clusterNode);
     }
   }
 
@@ -1489,7 +2383,7 @@ export class Viewer {
    * Clear all word highlights
    */
   public clearAllHighlights(): void {
-    for (const clusterIndex of Array.from(this.highlightedClusters.keys())) {
+    for (const clusterIndex of Array.from(this.clusterHighlightColors.keys())) {
       this.unhighlightCluster(clusterIndex);
     }
   }
@@ -1498,7 +2392,7 @@ export class Viewer {
    * Get currently highlighted cluster indices
    */
   public getHighlightedClusters(): number[] {
-    return Array.from(this.highlightedClusters.keys());
+    return Array.from(this.clusterHighlightColors.keys());
   }
 
   /**
@@ -1509,15 +2403,18 @@ export class Viewer {
     if (clusterIndices === null || clusterIndices.length === 0) {
       // Clear filter - show all
       this.searchFilterClusters = null;
-      for (const node of this.nodes) {
-        node.mesh.visible = true;
+      for (const node of [...this.nodes, ...this.boundaryNodes]) {
+        node.object.visible = true;
       }
     } else {
       // Apply filter
       this.searchFilterClusters = new Set(clusterIndices);
       for (const node of this.nodes) {
         // Show node if its cluster is in the filter set
-        node.mesh.visible = node.clusterIndex !== undefined && this.searchFilterClusters.has(node.clusterIndex);
+        node.object.visible = node.clusterIndex !== undefined && this.searchFilterClusters.has(node.clusterIndex);
+      }
+      for (const node of this.boundaryNodes) {
+        node.object.visible = this.searchFilterClusters.has((node.data as CompactionBoundaryInfo).clusterIndex);
       }
     }
   }
@@ -1553,6 +2450,11 @@ export class Viewer {
    * Set initial camera view looking down the spiral
    */
   public setInitialView(): void {
+    if (this.layoutMode === 'timeline') {
+      this.fitCamera();
+      return;
+    }
+
     // Position camera above and to the side, looking down at the spiral
     // The spiral descends in negative Y, so we look from above
     const clusterCount = this.clusters.length;
@@ -1573,11 +2475,15 @@ export class Viewer {
     this.clearAllHighlights();
     this.clearNodes();
     Object.values(this.materials).forEach((m) => m.dispose());
-    this.highlightMaterial.dispose();
+    this.instancedNodes.dispose();
+    this.nodeGeometries.forEach((g) => g.dispose());
     this.sidechainMaterial.dispose();
+    this.toolResultSuccessMaterial.dispose();
     this.errorMaterial.dispose();
+    this.branchMaterial.dispose();
     this.lineMaterial.dispose();
     this.clusterLineMaterial.dispose();
+    this.branchLineMaterial.dispose();
     if (this.clusterLineGeometry) {
       this.clusterLineGeometry.dispose();
     }
@@ -1585,6 +2491,26 @@ export class Viewer {
     this.scene.dispose();
   }
 
+  // ===== Layout mode =====
+
+  /**
+   * Get the current layout mode
+   */
+  public getLayoutMode(): LayoutMode {
+    return this.layoutMode;
+  }
+
+  /**
+   * Switch between the coil and the time-proportional timeline.
+   * Nodes animate to their new positions and the camera reframes them.
+   */
+  public setLayoutMode(mode: LayoutMode): void {
+    if (mode === this.layoutMode) return;
+    this.layoutMode = mode;
+    this.animateLayout();
+    this.animateCameraToFit();
+  }
+
   // ===== Coil parameter getters/setters =====
 
   /**
@@ -7,13 +7,16 @@ import {
   buildClusters,
   extractSearchableContent,
   calculateClusterMetrics,
+  calculateAgentMetrics,
   clusterContainsWord,
   findClustersWithWord,
+  findClusterIndexForTurn,
+  findOwningClusterIndex,
   isToolResultOnly,
   type TurnCluster,
   type SearchableClusterContent,
 } from './cluster-builder';
-import type { Conversation, Turn, ContentBlock } from '../../data/types';
+import type { Conversation, Turn, ContentBlock, Entry } from '../../data/types';
 
 // Helper to create a text content block
 function textBlock(text: string): ContentBlock {
@@ -352,6 +355,45 @@ describe('isToolResultOnly', () => {
   });
 });
 
+describe('buildClusters with a turn subset', () => {
+  it('clusters only the given turns and keeps original turn indices', () => {
+    const turns = [
+      createTurn('user', [textBlock('First')]),
+      createTurn('assistant', [textBlock('Answer A')]),
+      createTurn('user', [textBlock('Abandoned edit')]),
+      createTurn('assistant', [textBlock('Answer B')]),
+      createTurn('user', [textBlock('Second')]),
+      createTurn('assistant', [textBlock('Answer C')]),
+    ];
+    const clusters = buildClusters(createConversation(turns), undefined, [0, 1, 4, 5]);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters.map(c => c.index)).toEqual([0, 1]);
+    expect(clusters[1].userTurnIndex).toBe(4);
+    expect(clusters[1].assistantTurnIndex).toBe(5);
+    expect(clusters[1].userTurn?.content).toEqual([textBlock('Second')]);
+  });
+
+  it('merges turns that are adjacent in the subset', () => {
+    const turns = [
+      createTurn('user', [textBlock('Question')]),
+      createTurn('assistant', [textBlock('Skipped')]),
+      createTurn('assistant', [textBlock('Kept')]),
+      createTurn('assistant', [textBlock('Also kept')]),
+    ];
+    const clusters = buildClusters(createConversation(turns), undefined, [0, 2, 3]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].assistantTurnIndex).toBe(2);
+    expect(clusters[0].assistantTurn?.content).toEqual([textBlock('Kept'), textBlock('Also kept')]);
+  });
+
+  it('returns no clusters for an empty subset', () => {
+    const turns = [createTurn('user', [textBlock('Hi')])];
+    expect(buildClusters(createConversation(turns), undefined, [])).toEqual([]);
+  });
+});
+
 describe('extractSearchableContent', () => {
   it('returns empty array for empty clusters', () => {
     const content = extractSearchableContent([]);
@@ -423,6 +465,28 @@ describe('extractSearchableContent', () => {
     expect(content[0].thinkingBlocks[1].text).toBe('Second thought');
   });
 
+  it('extracts clusters from an offset with the same thinking durations', () => {
+    const clusters: TurnCluster[] = ['First', 'Second', 'Third'].map((thought, index) => ({
+      index,
+      assistantTurn: createTurn('assistant', [thinkingBlock(`${thought} thought`)]),
+      expanded: false,
+      thinkingCount: 1,
+      toolCount: 0,
+      documentCount: 0,
+    }));
+    const entries = clusters.map((cluster, i) => ({
+      type: 'assistant',
+      timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, i * (i + 1))).toISOString(),
+      parsedAssistantMessage: { content: cluster.assistantTurn!.content },
+    })) as unknown as Entry[];
+
+    const whole = extractSearchableContent(clusters, entries, 'claude-code');
+    const tail = extractSearchableContent(clusters, entries, 'claude-code', 1);
+
+    expect(whole[1].thinkingBlocks[0].durationMs).toBe(4000);
+    expect(tail).toEqual(whole.slice(1));
+  });
+
   it('extracts tool uses correctly', () => {
     const clusters: TurnCluster[] = [{
       index: 0,
@@ -478,6 +542,26 @@ describe('extractSearchableContent', () => {
     expect(content[0].toolResults[0].isError).toBe(true);
   });
 
+  it('marks images as attached by the user or returned by a tool', () => {
+    const image = (data: string): ContentBlock => ({ type: 'image', source: { type: 'base64', media_type: 'image/png', data } });
+    const clusters: TurnCluster[] = [{
+      index: 0,
+      userTurn: createTurn('user', [textBlock('What is this?'), image('dXNlcg==')]),
+      assistantTurn: createTurn('assistant', [toolResultBlock('[image]'), image('dG9vbA==')]),
+      expanded: false,
+      thinkingCount: 0,
+      toolCount: 0,
+      documentCount: 2,
+    }];
+
+    const content = extractSearchableContent(clusters);
+
+    expect(content[0].documents.map((d) => [d.data, d.origin])).toEqual([
+      ['dXNlcg==', 'user'],
+      ['dG9vbA==', 'tool'],
+    ]);
+  });
+
   it('preserves cluster index', () => {
     const clusters: TurnCluster[] = [
       { index: 0, expanded: false, thinkingCount: 0, toolCount: 0, documentCount: 0 },
@@ -625,6 +709,76 @@ describe('calculateClusterMetrics', () => {
     expect(metrics[0].thinkingCount).toBe(3);
     expect(metrics[0].toolCount).toBe(5);
   });
+  it('reports the peak context of the requests in a cluster', () => {
+    const conversation = createConversation([
+      createTurn('user', [textBlock('Read the file')], { input_tokens: 10 }),
+      createTurn('assistant', [toolUseBlock('Read', {})], {
+        input_tokens: 5, cache_read_input_tokens: 12000, cache_creation_input_tokens: 800, output_tokens: 40,
+      }),
+      createTurn('user', [toolResultBlock('contents')]),
+      createTurn('assistant', [textBlock('Done')], {
+        input_tokens: 3, cache_read_input_tokens: 12800, cache_creation_input_tokens: 1500, output_tokens: 20,
+      }),
+    ]);
+    conversation.turns[1].model = 'claude-sonnet-4-5';
+
+    const metrics = calculateClusterMetrics(buildClusters(conversation));
+
+    expect(metrics).toHaveLength(1);
+    expect(metrics[0].contextTokens).toBe(3 + 12800 + 1500);
+    expect(metrics[0].model).toBe('claude-sonnet-4-5');
+  });
+
+  it('does not sum context across requests when usage is merged', () => {
+    const conversation = createConversation([
+      createTurn('user', [textBlock('Go')]),
+      createTurn('assistant', [textBlock('One')], { input_tokens: 1000, cache_read_input_tokens: 4000 }),
+      createTurn('assistant', [textBlock('Two')], { input_tokens: 500, cache_read_input_tokens: 5000 }),
+    ]);
+    conversation.meta.source = 'codex-cli';
+
+    const [cluster] = buildClusters(conversation);
+
+    expect(cluster.assistantTurn?.usage?.input_tokens).toBe(1500);
+    expect(calculateClusterMetrics([cluster])[0].contextTokens).toBe(5500);
+  });
+
+  it('reports zero context without usage', () => {
+    const conversation = createConversation([
+      createTurn('user', [textBlock('Hi')]),
+      createTurn('assistant', [textBlock('Hello')]),
+    ]);
+
+    expect(calculateClusterMetrics(buildClusters(conversation))[0].contextTokens).toBe(0);
+  });
+});
+
+describe('calculateAgentMetrics', () => {
+  const conversation = createConversation([
+    createTurn('user', [textBlock('Q1')], { input_tokens: 10 }),
+    createTurn('assistant', [textBlock('A1')], { output_tokens: 20, cache_read_input_tokens: 5 }),
+    createTurn('user', [textBlock('Q2')], { input_tokens: 30 }),
+    createTurn('assistant', [textBlock('A2')], { output_tokens: 40 }),
+    createTurn('user', [textBlock('Q3')]),
+    createTurn('assistant', [textBlock('A3')], { output_tokens: 7 }),
+  ]);
+  const clusters = buildClusters(conversation);
+
+  it('sums token metrics over each agent\'s clusters', () => {
+    const metrics = calculateAgentMetrics(clusters, [
+      { agentId: 'agent-a', clusterIndices: [0, 1] },
+      { agentId: 'agent-b', clusterIndices: [2] },
+    ]);
+
+    expect(metrics).toEqual([
+      { agentId: 'agent-a', clusterCount: 2, totalTokens: 105, inputTokens: 45, outputTokens: 60 },
+      { agentId: 'agent-b', clusterCount: 1, totalTokens: 7, inputTokens: 0, outputTokens: 7 },
+    ]);
+  });
+
+  it('returns an empty list without agents', () => {
+    expect(calculateAgentMetrics(clusters, [])).toEqual([]);
+  });
 });
 
 describe('clusterContainsWord', () => {
@@ -817,3 +971,71 @@ describe('cluster ordering', () => {
     }
   });
 });
+
+describe('findClusterIndexForTurn', () => {
+  const conversation = createConversation([
+    createTurn('user', [textBlock('Q1')]),
+    createTurn('assistant', [toolUseBlock('Read', {})]),
+    createTurn('user', [toolResultBlock('ok')]),
+    createTurn('assistant', [textBlock('A1')]),
+    createTurn('user', [textBlock('Q2')]),
+    createTurn('assistant', [textBlock('A2')]),
+  ]);
+  const clusters = buildClusters(conversation);
+
+  it('maps cluster-starting turns to their cluster', () => {
+    expect(findClusterIndexForTurn(clusters, 0)).toBe(0);
+    expect(findClusterIndexForTurn(clusters, 4)).toBe(1);
+  });
+
+  it('maps absorbed turns to the cluster they were merged into', () => {
+    expect(findClusterIndexForTurn(clusters, 2)).toBe(0);
+    expect(findClusterIndexForTurn(clusters, 5)).toBe(1);
+  });
+
+  it('clamps out-of-range turns', () => {
+    expect(findClusterIndexForTurn(clusters, -1)).toBe(0);
+    expect(findClusterIndexForTurn(clusters, 99)).toBe(1);
+  });
+
+  it('does not rely on clusters being in turn order', () => {
+    const reordered = [clusters[1], clusters[0]];
+    expect(findClusterIndexForTurn(reordered, 2)).toBe(0);
+    expect(findClusterIndexForTurn(reordered, 5)).toBe(1);
+  });
+
+  it('returns -1 without clusters', () => {
+    expect(findClusterIndexForTurn([], 0)).toBe(-1);
+  });
+});
+
+describe('findOwningClusterIndex', () => {
+  // The shown branch is turns 0, 1, 2, 3; turns 4 and 5 are an earlier retry of the second prompt
+  const turns: Turn[] = [
+    { id: 'q1', role: 'user', content: [textBlock('Q1')] },
+    { id: 'a1', parentId: 'q1', role: 'assistant', content: [toolUseBlock('Read', {})] },
+    { id: 'q2', parentId: 'a1', role: 'user', content: [textBlock('Q2')] },
+    { id: 'a2', parentId: 'q2', role: 'assistant', content: [textBlock('A2')] },
+    { id: 'q2-old', parentId: 'a1', role: 'user', content: [textBlock('Q2?')] },
+    { id: 'a2-old', parentId: 'q2-old', role: 'assistant', content: [textBlock('A2?')] },
+  ];
+  const clusters = buildClusters(createConversation(turns.slice(0, 4)));
+
+  it('maps cluster-starting turns to their cluster', () => {
+    expect(findOwningClusterIndex(clusters, turns, 0)).toBe(0);
+    expect(findOwningClusterIndex(clusters, turns, 2)).toBe(1);
+  });
+
+  it('maps turns on a hidden branch to the cluster of their nearest shown ancestor', () => {
+    expect(findOwningClusterIndex(clusters, turns, 5)).toBe(0);
+  });
+
+  it('falls back to the turn before one without a parent link', () => {
+    const unlinked = turns.slice(0, 4).map(({ parentId: _, ...turn }) => turn);
+    expect(findOwningClusterIndex(clusters, [...unlinked, { id: 'x', role: 'user', content: [] }], 4)).toBe(1);
+  });
+
+  it('returns -1 without clusters', () => {
+    expect(findOwningClusterIndex([], turns, 0)).toBe(-1);
+  });
+});
@@ -5,7 +5,7 @@
  * A cluster groups a user message with its corresponding assistant response.
  */
 
-import type { Conversation, Turn, ContentBlock, SearchableCluster, ImageBlock, DocumentBlock, DocumentMeta, Entry, ThinkingBlockData, ToolResultData } from '../../data/types';
+import type { Conversation, Turn, TokenUsage, ContentBlock, SearchableCluster, ImageBlock, DocumentBlock, DocumentMeta, Entry, ThinkingBlockData, ToolResultData } from '../../data/types';
 import { strategyRegistry, type ClusterStrategy } from './strategies';
 
 // Re-export isToolResultOnly from strategy for backward compatibility
@@ -33,6 +33,8 @@ export interface TurnCluster {
   hasError?: boolean;
   /** Stop reason from the assistant turn */
   stopReason?: string;
+  /** Largest context window occupancy of any request in the cluster */
+  contextTokens?: number;
 }
 
 /**
@@ -52,6 +54,21 @@ export interface ClusterMetrics {
   thinkingCount: number;
   toolCount: number;
   contentLength: number;
+  /** Peak context window occupancy (0 if unknown) */
+  contextTokens: number;
+  /** Model of the assistant turn, for looking up its context limit */
+  model?: string;
+}
+
+/**
+ * Token totals for one sub-agent's clusters
+ */
+export interface AgentMetrics {
+  agentId: string;
+  clusterCount: number;
+  totalTokens: number;
+  inputTokens: number;
+  outputTokens: number;
 }
 
 /**
@@ -84,15 +101,24 @@ function enrichCluster(cluster: TurnCluster): void {
  *
  * @param conversation The conversation to build clusters from
  * @param strategy Optional cluster building strategy (defaults to source-appropriate strategy)
+ * @param turnIndices Optional subset of turns to cluster, in order (e.g. one branch of a tree).
+ *   Cluster turn indices still refer to Conversation.turns.
  */
-export function buildClusters(conversation: Conversation | null, strategy?: ClusterStrategy): TurnCluster[] {
+export function buildClusters(
+  conversation: Conversation | null,
+  strategy?: ClusterStrategy,
+  turnIndices?: number[],
+): TurnCluster[] {
   if (!conversation) return [];
 
   // Use provided strategy, or get strategy based on source, or use default
   const clusterStrategy = strategy ?? strategyRegistry.get(conversation.meta.source);
 
   const clusters: TurnCluster[] = [];
-  const { turns } = conversation;
+  const turns = turnIndices
+    ? turnIndices.map(index => conversation.turns[index])
+    : conversation.turns;
+  const turnIndexAt = (position: number) => turnIndices ? turnIndices[position] : position;
   let clusterIndex = 0;
   let i = 0;
 
@@ -120,7 +146,7 @@ export function buildClusters(conversation: Conversation | null, strategy?: Clus
       const cluster: TurnCluster = {
         index: clusterIndex,
         userTurn: mergedUserTurn,
-        userTurnIndex: firstUserIndex,
+        userTurnIndex: turnIndexAt(firstUserIndex),
         expanded: false,
         thinkingCount: 0,
         toolCount: 0,
@@ -157,9 +183,13 @@ export function buildClusters(conversation: Conversation | null, strategy?: Clus
           ...firstAssistantTurn,
           content: mergedAssistantContent,
         };
+        if (clusterStrategy.mergeUsage) {
+          mergedAssistantTurn.usage = clusterStrategy.mergeUsage(turns.slice(firstAssistantIndex, i));
+        }
 
         cluster.assistantTurn = mergedAssistantTurn;
-        cluster.assistantTurnIndex = firstAssistantIndex;
+        cluster.assistantTurnIndex = turnIndexAt(firstAssistantIndex);
+        cluster.contextTokens = peakContextTokens(turns.slice(firstAssistantIndex, i));
 
         // Count thinking, tool, and document blocks
         for (const block of mergedAssistantContent) {
@@ -202,15 +232,19 @@ export function buildClusters(conversation: Conversation | null, strategy?: Clus
         ...turn,
         content: mergedContent,
       };
+      if (clusterStrategy.mergeUsage) {
+        mergedTurn.usage = clusterStrategy.mergeUsage(turns.slice(firstIndex, i));
+      }
 
       const cluster: TurnCluster = {
         index: clusterIndex,
         assistantTurn: mergedTurn,
-        assistantTurnIndex: firstIndex,
+        assistantTurnIndex: turnIndexAt(firstIndex),
         expanded: false,
         thinkingCount: 0,
         toolCount: 0,
         documentCount: 0,
+        contextTokens: peakContextTokens(turns.slice(firstIndex, i)),
       };
 
       for (const block of mergedContent) {
@@ -231,6 +265,30 @@ export function buildClusters(conversation: Conversation | null, strategy?: Clus
   return clusters;
 }
 
+/**
+ * Tokens a request placed in the context window: fresh input plus cached prefix
+ */
+export function getContextTokens(usage: TokenUsage | undefined): number {
+  if (!usage) return 0;
+  return (usage.input_tokens || 0)
+    + (usage.cache_read_input_tokens || 0)
+    + (usage.cache_creation_input_tokens || 0);
+}
+
+/**
+ * Largest context of the requests behind a merged assistant turn
+ *
+ * Uses each raw turn's usage rather than the strategy's merged usage,
+ * since summing requests would count the shared context repeatedly.
+ */
+function peakContextTokens(turns: Turn[]): number | undefined {
+  let peak = 0;
+  for (const turn of turns) {
+    if (turn.role === 'assistant') peak = Math.max(peak, getContextTokens(turn.usage));
+  }
+  return peak > 0 ? peak : undefined;
+}
+
 // Timing extraction is now handled by cluster strategies
 // The default (Claude Code) strategy is used when no source-specific strategy is available
 
@@ -239,8 +297,14 @@ export function buildClusters(conversation: Conversation | null, strategy?: Clus
  * @param clusters The clusters to extract content from
  * @param entries Optional entries array for timing calculation
  * @param sourceId Optional source ID for strategy selection
+ * @param from Index of the first cluster to extract, when earlier ones were extracted before
  */
-export function extractSearchableContent(clusters: TurnCluster[], entries?: Entry[], sourceId?: string): SearchableClusterContent[] {
+export function extractSearchableContent(
+  clusters: TurnCluster[],
+  entries?: Entry[],
+  sourceId?: string,
+  from = 0
+): SearchableClusterContent[] {
   // Get the appropriate strategy for timing extraction
   const strategy = strategyRegistry.get(sourceId);
 
@@ -249,8 +313,24 @@ export function extractSearchableContent(clusters: TurnCluster[], entries?: Entr
 
   // Track which thinking timing we're on (they're extracted in order from entries)
   let thinkingTimingIndex = 0;
+  const takeThinkingDuration = (text: string): number | undefined => {
+    const timing = thinkingTimings[thinkingTimingIndex];
+    // Match by text to ensure correct pairing
+    if (timing?.text !== text) return undefined;
+    thinkingTimingIndex++;
+    return timing.durationMs;
+  };
+
+  // Skip the timings of clusters extracted before
+  for (const cluster of clusters.slice(0, from)) {
+    for (const block of cluster.assistantTurn?.content ?? []) {
+      if (block.type === 'thinking' && 'thinking' in block) {
+        takeThinkingDuration(block.thinking as string);
+      }
+    }
+  }
 
-  return clusters.map((cluster) => {
+  return clusters.slice(from).map((cluster) => {
     // Extract user text
     let userText = '';
     if (cluster.userTurn) {
@@ -293,11 +373,12 @@ export function extractSearchableContent(clusters: TurnCluster[], entries?: Entr
       return null;
     };
 
-    // Extract documents from user turn
+    // Extract documents from user turn; next to tool results they were returned by a tool
     if (cluster.userTurn) {
+      const origin = cluster.userTurn.content.some((b) => b.type === 'tool_result') ? 'tool' : 'user';
       for (const block of cluster.userTurn.content) {
         const meta = extractDocMeta(block);
-        if (meta) documents.push(meta);
+        if (meta) documents.push({ ...meta, origin });
       }
     }
 
@@ -307,17 +388,7 @@ export function extractSearchableContent(clusters: TurnCluster[], entries?: Entr
           assistantText += (assistantText ? '\n' : '') + block.text;
         } else if (block.type === 'thinking' && 'thinking' in block) {
           const thinkingText = block.thinking as string;
-          // Try to find matching timing data
-          let durationMs: number | undefined;
-          if (thinkingTimingIndex < thinkingTimings.length) {
-            const timing = thinkingTimings[thinkingTimingIndex];
-            // Match by text to ensure correct pairing
-            if (timing.text === thinkingText) {
-              durationMs = timing.durationMs;
-              thinkingTimingIndex++;
-            }
-          }
-          thinkingBlocks.push({ text: thinkingText, durationMs });
+          thinkingBlocks.push({ text: thinkingText, durationMs: takeThinkingDuration(thinkingText) });
         } else if (block.type === 'tool_use' && 'name' in block) {
           toolUses.push({
             name: block.name as string,
@@ -343,8 +414,9 @@ export function extractSearchableContent(clusters: TurnCluster[], entries?: Entr
             durationMs,
           });
         } else {
+          // Attachments on the assistant side come back from tools
           const meta = extractDocMeta(block);
-          if (meta) documents.push(meta);
+          if (meta) documents.push({ ...meta, origin: 'tool' });
         }
       }
     }
@@ -420,6 +492,40 @@ export function calculateClusterMetrics(clusters: TurnCluster[]): ClusterMetrics
       thinkingCount: cluster.thinkingCount,
       toolCount: cluster.toolCount,
       contentLength,
+      contextTokens: cluster.contextTokens ?? 0,
+      model: cluster.assistantTurn?.model,
+    };
+  });
+}
+
+/**
+ * Sum cluster metrics per sub-agent
+ *
+ * @param agents Each agent's cluster indices
+ */
+export function calculateAgentMetrics(
+  clusters: TurnCluster[],
+  agents: Array<{ agentId: string; clusterIndices: number[] }>
+): AgentMetrics[] {
+  const clusterMetrics = calculateClusterMetrics(clusters);
+
+  return agents.map(({ agentId, clusterIndices }) => {
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (const index of clusterIndices) {
+      const metrics = clusterMetrics[index];
+      if (!metrics) continue;
+      inputTokens += metrics.inputTokens;
+      outputTokens += metrics.outputTokens;
+    }
+
+    return {
+      agentId,
+      clusterCount: clusterIndices.length,
+      totalTokens: inputTokens + outputTokens,
+      inputTokens,
+      outputTokens,
     };
   });
 }
@@ -479,3 +585,61 @@ export function findClustersWithWord(
     .filter((cluster) => clusterContainsWord(cluster, word))
     .map((cluster) => cluster.clusterIndex);
 }
+
+/**
+ * Find the cluster containing a turn (by index in Conversation.turns).
+ * Turns that don't start a cluster (merged or absorbed turns, system turns)
+ * resolve to the closest cluster starting at or before them.
+ *
+ * @returns Cluster index, or -1 if there are no clusters
+ */
+export function findClusterIndexForTurn(clusters: TurnCluster[], turnIndex: number): number {
+  let result = clusters.length > 0 ? clusters[0].index : -1;
+  let resultStart = -Infinity;
+
+  // Clusters aren't always in turn order (agent clusters follow their spawning cluster)
+  for (const cluster of clusters) {
+    const start = Math.min(
+      cluster.userTurnIndex ?? Infinity,
+      cluster.assistantTurnIndex ?? Infinity,
+    );
+    if (start <= turnIndex && start > resultStart) {
+      result = cluster.index;
+      resultStart = start;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the cluster a turn belongs to by following its parent chain.
+ * Turns that don't start a cluster (merged or absorbed turns, system turns,
+ * turns on a branch that isn't shown) belong to the cluster of their
+ * nearest ancestor that does; turns without a parent link fall back to the
+ * turn before them.
+ *
+ * @returns Cluster index, or -1 if there are no clusters
+ */
+export function findOwningClusterIndex(clusters: TurnCluster[], turns: Turn[], turnIndex: number): number {
+  const clusterByTurn = new Map<number, number>();
+  for (const cluster of clusters) {
+    for (const index of [cluster.userTurnIndex, cluster.assistantTurnIndex]) {
+      if (index !== undefined && !clusterByTurn.has(index)) clusterByTurn.set(index, cluster.index);
+    }
+  }
+  const turnIndexById = new Map(turns.map((turn, index) => [turn.id, index]));
+
+  const visited = new Set<number>();
+  let current: number | undefined = turnIndex;
+  while (current !== undefined && current >= 0 && !visited.has(current)) {
+    const clusterIndex = clusterByTurn.get(current);
+    if (clusterIndex !== undefined) return clusterIndex;
+    visited.add(current);
+
+    const parentId: string | undefined = turns[current]?.parentId;
+    current = parentId !== undefined ? turnIndexById.get(parentId) : current - 1;
+  }
+
+  return clusters.length > 0 ? clusters[0].index : -1;
+}
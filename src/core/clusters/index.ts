@@ -6,8 +6,11 @@ export {
   buildClusters,
   extractSearchableContent,
   calculateClusterMetrics,
+  calculateAgentMetrics,
   clusterContainsWord,
   findClustersWithWord,
+  findClusterIndexForTurn,
+  findOwningClusterIndex,
   isToolResultOnly,
 } from './cluster-builder';
 
@@ -15,8 +18,9 @@ export type {
   TurnCluster,
   SearchableClusterContent,
   ClusterMetrics,
+  AgentMetrics,
 } from './cluster-builder';
 
 // Export strategy types and registry
-export { strategyRegistry, claudeCodeStrategy } from './strategies';
+export { strategyRegistry, claudeCodeStrategy, openaiStrategy, geminiCliStrategy, codexCliStrategy, ampStrategy, otelStrategy, langsmithStrategy } from './strategies';
 export type { ClusterStrategy, ClusterTimingData } from './strategies';
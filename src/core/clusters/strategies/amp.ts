@@ -0,0 +1,61 @@
+/**
+ * Amp Cluster Strategy
+ *
+ * Implements cluster building rules for Amp threads, where tool results are
+ * sent back as user messages and every assistant message is a separate
+ * model request with its own usage.
+ */
+
+import type { Turn, Entry } from '../../../data/types';
+import type { ClusterStrategy, ClusterTimingData } from './index';
+import { isToolResultOnly } from './claude-code';
+import { mergeUsage, toTime } from '../../../data/parsers/shared';
+
+/**
+ * Extract timing data from Amp entries.
+ * Assistant messages are stamped when their request finished, so a tool call
+ * is timed from the calling message to the message that sent its result.
+ * Amp doesn't record when thinking started, so thinking blocks are untimed.
+ */
+function extractTimingData(entries: Entry[] | undefined): ClusterTimingData {
+  const toolUseTimestamps = new Map<string, number>();
+  const toolResultTimestamps = new Map<string, number>();
+  const thinkingTimings: Array<{ text: string; durationMs?: number }> = [];
+
+  if (!entries) return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+
+  for (const entry of entries) {
+    const time = toTime(entry.timestamp);
+
+    if (entry.type === 'assistant' && entry.parsedAssistantMessage) {
+      for (const block of entry.parsedAssistantMessage.content) {
+        if (block.type === 'tool_use' && !isNaN(time)) toolUseTimestamps.set(block.id, time);
+        if (block.type === 'thinking') thinkingTimings.push({ text: block.thinking });
+      }
+    }
+
+    if (entry.type === 'user' && Array.isArray(entry.parsedUserMessage?.content) && !isNaN(time)) {
+      for (const block of entry.parsedUserMessage.content) {
+        if (block.type === 'tool_result') toolResultTimestamps.set(block.tool_use_id, time);
+      }
+    }
+  }
+
+  return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+}
+
+/**
+ * Amp cluster building strategy
+ */
+export const ampStrategy: ClusterStrategy = {
+  id: 'amp',
+
+  shouldAbsorbIntoPrevious(turn: Turn): boolean {
+    // Tool results come back as user messages but continue the model's work
+    return isToolResultOnly(turn);
+  },
+
+  extractTimingData,
+
+  mergeUsage,
+};
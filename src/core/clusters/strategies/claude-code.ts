@@ -8,7 +8,8 @@ import type { Turn, Entry } from '../../../data/types';
 import type { ClusterStrategy, ClusterTimingData } from './index';
 
 /**
- * Check if a turn contains only tool_result content blocks.
+ * Check if a turn contains only tool_result content blocks (and the images
+ * a tool returned with them).
  * Such turns are system-generated tool responses (Claude Code logs them as
  * type "user"), not real user messages. They should be folded into the
  * assistant's content rather than starting a new cluster.
@@ -16,8 +17,8 @@ import type { ClusterStrategy, ClusterTimingData } from './index';
 function isToolResultOnly(turn: Turn): boolean {
   return (
     turn.role === 'user' &&
-    turn.content.length > 0 &&
-    turn.content.every((b) => b.type === 'tool_result')
+    turn.content.some((b) => b.type === 'tool_result') &&
+    turn.content.every((b) => b.type === 'tool_result' || b.type === 'image')
   );
 }
 
@@ -0,0 +1,85 @@
+/**
+ * Codex CLI Cluster Strategy
+ *
+ * Implements cluster building rules for Codex CLI session rollouts, where a
+ * single user prompt is followed by many response items (reasoning, tool
+ * calls, tool outputs, messages) that all belong to one cluster.
+ */
+
+import type { Turn, Entry } from '../../../data/types';
+import type { ClusterStrategy, ClusterTimingData } from './index';
+import { isToolResultOnly } from './claude-code';
+import { mergeUsage, toTime } from '../../../data/parsers/shared';
+
+/**
+ * Check if a turn only carries images attached by a tool.
+ * Codex sends images read by `view_image` as a separate user message after
+ * the tool output.
+ */
+function isImageOnly(turn: Turn): boolean {
+  return (
+    turn.role === 'user' &&
+    turn.content.length > 0 &&
+    turn.content.every((b) => b.type === 'image')
+  );
+}
+
+/**
+ * Extract timing data from Codex CLI entries.
+ * Rollout lines are written as each response item completes, so a reasoning
+ * item took the time since the line before it. Tool calls are timed from the
+ * call item to its output item.
+ */
+function extractTimingData(entries: Entry[] | undefined): ClusterTimingData {
+  const toolUseTimestamps = new Map<string, number>();
+  const toolResultTimestamps = new Map<string, number>();
+  const thinkingTimings: Array<{ text: string; durationMs?: number }> = [];
+
+  if (!entries) return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+
+  let previousTime = NaN;
+  for (const entry of entries) {
+    const time = toTime(entry.timestamp);
+
+    if (entry.type === 'assistant' && entry.parsedAssistantMessage) {
+      for (const block of entry.parsedAssistantMessage.content) {
+        if (block.type === 'tool_use' && !isNaN(time) && !toolUseTimestamps.has(block.id)) {
+          toolUseTimestamps.set(block.id, time);
+        }
+        if (block.type === 'thinking') {
+          const durationMs = time - previousTime;
+          thinkingTimings.push(durationMs >= 0 ? { text: block.thinking, durationMs } : { text: block.thinking });
+        }
+      }
+    }
+
+    if (entry.type === 'user' && Array.isArray(entry.parsedUserMessage?.content) && !isNaN(time)) {
+      for (const block of entry.parsedUserMessage.content) {
+        if (block.type === 'tool_result' && !toolResultTimestamps.has(block.tool_use_id)) {
+          toolResultTimestamps.set(block.tool_use_id, time);
+        }
+      }
+    }
+
+    if (!isNaN(time)) previousTime = time;
+  }
+
+  return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+}
+
+/**
+ * Codex CLI cluster building strategy
+ */
+export const codexCliStrategy: ClusterStrategy = {
+  id: 'codex-cli',
+
+  shouldAbsorbIntoPrevious(turn: Turn): boolean {
+    // Tool outputs and tool-attached images are logged as user messages but
+    // are part of the model's work on the current prompt.
+    return isToolResultOnly(turn) || isImageOnly(turn);
+  },
+
+  extractTimingData,
+
+  mergeUsage,
+};
@@ -0,0 +1,73 @@
+/**
+ * Gemini CLI Cluster Strategy
+ *
+ * Implements cluster building rules for Gemini CLI checkpoints and chat
+ * recordings.
+ */
+
+import type { Turn, Entry } from '../../../data/types';
+import type { ClusterStrategy, ClusterTimingData } from './index';
+import { isToolResultOnly } from './claude-code';
+import { toTime } from '../../../data/parsers/shared';
+
+/**
+ * Extract timing data from Gemini CLI entries.
+ * Chat recordings timestamp each message and each recorded thought, so a
+ * thought lasts until the next thought or until its message was written.
+ * Tool calls are timed from the calling message to the recorded result.
+ * Checkpoints carry no timestamps at all.
+ */
+function extractTimingData(entries: Entry[] | undefined): ClusterTimingData {
+  const toolUseTimestamps = new Map<string, number>();
+  const toolResultTimestamps = new Map<string, number>();
+  const thinkingTimings: Array<{ text: string; durationMs?: number }> = [];
+
+  if (!entries) return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+
+  for (const entry of entries) {
+    const time = toTime(entry.timestamp);
+
+    if (entry.type === 'assistant' && entry.parsedAssistantMessage) {
+      const thoughts = Array.isArray(entry.rawMessage?.thoughts) ? entry.rawMessage.thoughts : [];
+      let thoughtIndex = 0;
+
+      for (const block of entry.parsedAssistantMessage.content) {
+        if (block.type === 'tool_use' && !isNaN(time) && !toolUseTimestamps.has(block.id)) {
+          toolUseTimestamps.set(block.id, time);
+        }
+        if (block.type === 'thinking') {
+          const start = toTime(thoughts[thoughtIndex]?.timestamp);
+          const end = thoughtIndex + 1 < thoughts.length ? toTime(thoughts[thoughtIndex + 1]?.timestamp) : time;
+          const durationMs = end - start;
+          thinkingTimings.push(durationMs >= 0 ? { text: block.thinking, durationMs } : { text: block.thinking });
+          thoughtIndex++;
+        }
+      }
+    }
+
+    if (entry.type === 'user' && Array.isArray(entry.parsedUserMessage?.content) && !isNaN(time)) {
+      for (const block of entry.parsedUserMessage.content) {
+        if (block.type === 'tool_result' && !toolResultTimestamps.has(block.tool_use_id)) {
+          toolResultTimestamps.set(block.tool_use_id, time);
+        }
+      }
+    }
+  }
+
+  return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+}
+
+/**
+ * Gemini CLI cluster building strategy
+ */
+export const geminiCliStrategy: ClusterStrategy = {
+  id: 'gemini-cli',
+
+  shouldAbsorbIntoPrevious(turn: Turn): boolean {
+    // functionResponse contents and recorded tool results become
+    // tool_result-only user turns; they belong to the model's cluster.
+    return isToolResultOnly(turn);
+  },
+
+  extractTimingData,
+};
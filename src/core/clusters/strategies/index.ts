@@ -5,8 +5,14 @@
  * Each source can provide its own rules for how to group turns into clusters.
  */
 
-import type { Turn, Entry } from '../../../data/types';
+import type { Turn, Entry, TokenUsage } from '../../../data/types';
 import { claudeCodeStrategy } from './claude-code';
+import { openaiStrategy } from './openai';
+import { geminiCliStrategy } from './gemini';
+import { codexCliStrategy } from './codex';
+import { ampStrategy } from './amp';
+import { otelStrategy } from './otel';
+import { langsmithStrategy } from './langsmith';
 
 /**
  * Timing data extracted from entries for a cluster
@@ -55,6 +61,19 @@ export interface ClusterStrategy {
    * @returns Timing data for tool and thinking duration calculations
    */
   extractTimingData(entries: Entry[] | undefined): ClusterTimingData;
+
+  /**
+   * Combine the token usage of the turns merged into a cluster's assistant side.
+   *
+   * Optional: without it the cluster reports the usage of its first assistant
+   * turn, which suits Claude Code where every entry split from one response
+   * repeats that response's usage. Sources that log one request per turn
+   * should sum them instead.
+   *
+   * @param turns The merged turns, in order (including absorbed turns)
+   * @returns Usage for the whole cluster
+   */
+  mergeUsage?(turns: Turn[]): TokenUsage | undefined;
 }
 
 /**
@@ -68,6 +87,12 @@ class StrategyRegistry {
     // Claude Code strategy is the default
     this.defaultStrategy = claudeCodeStrategy;
     this.register(claudeCodeStrategy);
+    this.register(openaiStrategy);
+    this.register(geminiCliStrategy);
+    this.register(codexCliStrategy);
+    this.register(ampStrategy);
+    this.register(otelStrategy);
+    this.register(langsmithStrategy);
   }
 
   /**
@@ -108,3 +133,9 @@ export const strategyRegistry = new StrategyRegistry();
 
 // Re-export built-in strategies
 export { claudeCodeStrategy } from './claude-code';
+export { openaiStrategy } from './openai';
+export { geminiCliStrategy } from './gemini';
+export { codexCliStrategy } from './codex';
+export { ampStrategy } from './amp';
+export { otelStrategy } from './otel';
+export { langsmithStrategy } from './langsmith';
@@ -0,0 +1,73 @@
+/**
+ * LangSmith Cluster Strategy
+ *
+ * Implements cluster building rules for flattened LangSmith run trees,
+ * where tool results come back as user turns and every LLM run is a
+ * separate request with its own usage.
+ */
+
+import type { Turn, Entry } from '../../../data/types';
+import type { ClusterStrategy, ClusterTimingData } from './index';
+import { isToolResultOnly } from './claude-code';
+import { mergeUsage, toTime } from '../../../data/parsers/shared';
+
+/**
+ * Extract timing data from run tree entries.
+ * A result taken from a tool run is timed by that run's start and end, so
+ * its duration is the tool's own. Results only found in a later LLM run's
+ * messages are timed from the calling turn to that run.
+ * Runs don't record when thinking started, so thinking blocks are untimed.
+ */
+function extractTimingData(entries: Entry[] | undefined): ClusterTimingData {
+  const toolUseTimestamps = new Map<string, number>();
+  const toolResultTimestamps = new Map<string, number>();
+  const thinkingTimings: Array<{ text: string; durationMs?: number }> = [];
+
+  if (!entries) return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+
+  for (const entry of entries) {
+    const time = toTime(entry.timestamp, true);
+
+    if (entry.type === 'assistant' && entry.parsedAssistantMessage) {
+      for (const block of entry.parsedAssistantMessage.content) {
+        if (block.type === 'tool_use' && !isNaN(time)) toolUseTimestamps.set(block.id, time);
+        if (block.type === 'thinking') thinkingTimings.push({ text: block.thinking });
+      }
+    }
+
+    if (entry.type === 'user' && Array.isArray(entry.parsedUserMessage?.content)) {
+      const run = entry.rawMessage;
+      const isToolRun = run?.run_type === 'tool' || run?.run_type === 'retriever';
+      const start = toTime(run?.start_time, true);
+      const end = toTime(run?.end_time, true);
+
+      for (const block of entry.parsedUserMessage.content) {
+        if (block.type !== 'tool_result') continue;
+        if (isToolRun && !isNaN(start) && !isNaN(end)) {
+          toolUseTimestamps.set(block.tool_use_id, start);
+          toolResultTimestamps.set(block.tool_use_id, end);
+        } else if (!isNaN(time)) {
+          toolResultTimestamps.set(block.tool_use_id, time);
+        }
+      }
+    }
+  }
+
+  return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+}
+
+/**
+ * LangSmith cluster building strategy
+ */
+export const langsmithStrategy: ClusterStrategy = {
+  id: 'langsmith',
+
+  shouldAbsorbIntoPrevious(turn: Turn): boolean {
+    // Tool results come back as user turns but continue the model's work
+    return isToolResultOnly(turn);
+  },
+
+  extractTimingData,
+
+  mergeUsage,
+};
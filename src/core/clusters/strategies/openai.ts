@@ -0,0 +1,64 @@
+/**
+ * OpenAI Cluster Strategy
+ *
+ * Implements cluster building rules for OpenAI Chat Completions and
+ * Responses API logs.
+ */
+
+import type { Turn, Entry } from '../../../data/types';
+import type { ClusterStrategy, ClusterTimingData } from './index';
+import { isToolResultOnly } from './claude-code';
+
+/**
+ * Extract timing data from OpenAI entries.
+ * Timestamps are per request/response record, so a tool call is timed from
+ * the response that issued it to the request that returned its output.
+ * Reasoning items carry no timing information.
+ */
+function extractTimingData(entries: Entry[] | undefined): ClusterTimingData {
+  const toolUseTimestamps = new Map<string, number>();
+  const toolResultTimestamps = new Map<string, number>();
+  const thinkingTimings: Array<{ text: string; durationMs?: number }> = [];
+
+  if (!entries) return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+
+  for (const entry of entries) {
+    const time = entry.timestamp ? new Date(entry.timestamp).getTime() : NaN;
+
+    if (entry.type === 'assistant' && entry.parsedAssistantMessage) {
+      for (const block of entry.parsedAssistantMessage.content) {
+        if (block.type === 'tool_use' && !isNaN(time) && !toolUseTimestamps.has(block.id)) {
+          toolUseTimestamps.set(block.id, time);
+        }
+        if (block.type === 'thinking') {
+          thinkingTimings.push({ text: block.thinking });
+        }
+      }
+    }
+
+    if (entry.type === 'user' && Array.isArray(entry.parsedUserMessage?.content) && !isNaN(time)) {
+      for (const block of entry.parsedUserMessage.content) {
+        if (block.type === 'tool_result' && !toolResultTimestamps.has(block.tool_use_id)) {
+          toolResultTimestamps.set(block.tool_use_id, time);
+        }
+      }
+    }
+  }
+
+  return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+}
+
+/**
+ * OpenAI cluster building strategy
+ */
+export const openaiStrategy: ClusterStrategy = {
+  id: 'openai',
+
+  shouldAbsorbIntoPrevious(turn: Turn): boolean {
+    // The parser maps `tool` role messages and `function_call_output` items
+    // to tool_result-only user turns; they belong to the assistant's cluster.
+    return isToolResultOnly(turn);
+  },
+
+  extractTimingData,
+};
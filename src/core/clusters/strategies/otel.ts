@@ -0,0 +1,74 @@
+/**
+ * OpenTelemetry GenAI Cluster Strategy
+ *
+ * Implements cluster building rules for traces rebuilt from GenAI spans,
+ * where tool results come back as user turns and every model call span is
+ * a separate request with its own usage.
+ */
+
+import type { Turn, Entry } from '../../../data/types';
+import type { ClusterStrategy, ClusterTimingData } from './index';
+import { isToolResultOnly } from './claude-code';
+import { mergeUsage, toTime } from '../../../data/parsers/shared';
+
+/**
+ * Extract timing data from trace entries.
+ * A result taken from a tool span is timed by that span's start and end,
+ * so its duration is the tool's own. Results only found in a later model
+ * call's messages are timed from the calling turn to that call.
+ * Spans don't record when thinking started, so thinking blocks are untimed.
+ */
+function extractTimingData(entries: Entry[] | undefined): ClusterTimingData {
+  const toolUseTimestamps = new Map<string, number>();
+  const toolResultTimestamps = new Map<string, number>();
+  const thinkingTimings: Array<{ text: string; durationMs?: number }> = [];
+
+  if (!entries) return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+
+  for (const entry of entries) {
+    const time = toTime(entry.timestamp);
+
+    if (entry.type === 'assistant' && entry.parsedAssistantMessage) {
+      for (const block of entry.parsedAssistantMessage.content) {
+        if (block.type === 'tool_use' && !isNaN(time)) toolUseTimestamps.set(block.id, time);
+        if (block.type === 'thinking') thinkingTimings.push({ text: block.thinking });
+      }
+    }
+
+    if (entry.type === 'user' && Array.isArray(entry.parsedUserMessage?.content)) {
+      const span = entry.rawMessage;
+      const attributes = span?.attributes as Record<string, unknown> | undefined;
+      const isToolSpan = attributes?.['gen_ai.operation.name'] === 'execute_tool' || attributes?.['gen_ai.tool.name'] !== undefined;
+      const start = toTime(span?.startTime);
+      const end = toTime(span?.endTime);
+
+      for (const block of entry.parsedUserMessage.content) {
+        if (block.type !== 'tool_result') continue;
+        if (isToolSpan && !isNaN(start) && !isNaN(end)) {
+          toolUseTimestamps.set(block.tool_use_id, start);
+          toolResultTimestamps.set(block.tool_use_id, end);
+        } else if (!isNaN(time)) {
+          toolResultTimestamps.set(block.tool_use_id, time);
+        }
+      }
+    }
+  }
+
+  return { toolUseTimestamps, toolResultTimestamps, thinkingTimings };
+}
+
+/**
+ * OpenTelemetry GenAI cluster building strategy
+ */
+export const otelStrategy: ClusterStrategy = {
+  id: 'otel',
+
+  shouldAbsorbIntoPrevious(turn: Turn): boolean {
+    // Tool results come back as user turns but continue the model's work
+    return isToolResultOnly(turn);
+  },
+
+  extractTimingData,
+
+  mergeUsage,
+};
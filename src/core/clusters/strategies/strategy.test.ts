@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { strategyRegistry, claudeCodeStrategy } from './index';
+import { strategyRegistry, claudeCodeStrategy, openaiStrategy, geminiCliStrategy, codexCliStrategy, ampStrategy, otelStrategy, langsmithStrategy } from './index';
 import type { Turn, Entry } from '../../../data/types';
 
 describe('StrategyRegistry', () => {
@@ -55,6 +55,29 @@ describe('claudeCodeStrategy', () => {
       expect(claudeCodeStrategy.shouldAbsorbIntoPrevious(turn)).toBe(true);
     });
 
+    it('returns true for tool results with the images a tool returned', () => {
+      const turn: Turn = {
+        id: 'turn-1',
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'test-id', content: '[image]' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } },
+        ],
+      };
+      expect(claudeCodeStrategy.shouldAbsorbIntoPrevious(turn)).toBe(true);
+    });
+
+    it('returns false for user turns with only images', () => {
+      const turn: Turn = {
+        id: 'turn-1',
+        role: 'user',
+        content: [
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } },
+        ],
+      };
+      expect(claudeCodeStrategy.shouldAbsorbIntoPrevious(turn)).toBe(false);
+    });
+
     it('returns false for user turns with text content', () => {
       const turn: Turn = {
         id: 'turn-1',
@@ -204,3 +227,294 @@ describe('claudeCodeStrategy', () => {
     });
   });
 });
+
+describe('openaiStrategy', () => {
+  it('is registered for the openai source', () => {
+    expect(strategyRegistry.get('openai')).toBe(openaiStrategy);
+  });
+
+  it('absorbs tool-result-only turns', () => {
+    const turn: Turn = {
+      id: 'openai-3',
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'ok' }],
+    };
+    expect(openaiStrategy.shouldAbsorbIntoPrevious(turn)).toBe(true);
+  });
+
+  it('times tool calls from response to the next request', () => {
+    const entries: Entry[] = [
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T00:00:00Z',
+        parsedAssistantMessage: {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'plan' },
+            { type: 'tool_use', id: 'call_1', name: 'shell', input: {} },
+          ],
+        },
+      },
+      {
+        type: 'user',
+        timestamp: '2025-01-01T00:00:03Z',
+        parsedUserMessage: {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'ok' }],
+        },
+      },
+    ];
+
+    const result = openaiStrategy.extractTimingData(entries);
+    const duration = result.toolResultTimestamps.get('call_1')! - result.toolUseTimestamps.get('call_1')!;
+    expect(duration).toBe(3000);
+    expect(result.thinkingTimings).toEqual([{ text: 'plan' }]);
+  });
+});
+
+describe('geminiCliStrategy', () => {
+  it('is registered for the gemini-cli source', () => {
+    expect(strategyRegistry.get('gemini-cli')).toBe(geminiCliStrategy);
+  });
+
+  it('absorbs tool-result-only turns', () => {
+    const turn: Turn = {
+      id: 'gemini-2',
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'call-1', content: 'ok' }],
+    };
+    expect(geminiCliStrategy.shouldAbsorbIntoPrevious(turn)).toBe(true);
+  });
+
+  it('times recorded thoughts until the next thought or the message', () => {
+    const entries: Entry[] = [
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T00:00:10Z',
+        rawMessage: {
+          thoughts: [
+            { subject: 'a', timestamp: '2025-01-01T00:00:01Z' },
+            { subject: 'b', timestamp: '2025-01-01T00:00:04Z' },
+          ],
+        },
+        parsedAssistantMessage: {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'a' },
+            { type: 'thinking', thinking: 'b' },
+          ],
+        },
+      },
+    ];
+
+    const result = geminiCliStrategy.extractTimingData(entries);
+    expect(result.thinkingTimings).toEqual([
+      { text: 'a', durationMs: 3000 },
+      { text: 'b', durationMs: 6000 },
+    ]);
+  });
+
+  it('leaves checkpoint thoughts untimed', () => {
+    const entries: Entry[] = [
+      {
+        type: 'assistant',
+        parsedAssistantMessage: { role: 'assistant', content: [{ type: 'thinking', thinking: 'a' }] },
+      },
+    ];
+    expect(geminiCliStrategy.extractTimingData(entries).thinkingTimings).toEqual([{ text: 'a' }]);
+  });
+});
+
+describe('codexCliStrategy', () => {
+  it('is registered for the codex-cli source', () => {
+    expect(strategyRegistry.get('codex-cli')).toBe(codexCliStrategy);
+  });
+
+  it('absorbs tool outputs and tool-attached images but not prompts', () => {
+    const output: Turn = {
+      id: 'codex-3',
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'call-1', content: 'ok' }],
+    };
+    const image: Turn = {
+      id: 'codex-4',
+      role: 'user',
+      content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } }],
+    };
+    const prompt: Turn = { id: 'codex-5', role: 'user', content: [{ type: 'text', text: 'next' }] };
+
+    expect(codexCliStrategy.shouldAbsorbIntoPrevious(output)).toBe(true);
+    expect(codexCliStrategy.shouldAbsorbIntoPrevious(image)).toBe(true);
+    expect(codexCliStrategy.shouldAbsorbIntoPrevious(prompt)).toBe(false);
+  });
+
+  it('times reasoning since the previous line and tools until their output', () => {
+    const entries: Entry[] = [
+      {
+        type: 'user',
+        timestamp: '2025-01-01T00:00:00Z',
+        parsedUserMessage: { role: 'user', content: 'go' },
+      },
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T00:00:04Z',
+        parsedAssistantMessage: { role: 'assistant', content: [{ type: 'thinking', thinking: 'plan' }] },
+      },
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T00:00:05Z',
+        parsedAssistantMessage: {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'call-1', name: 'shell', input: {} }],
+        },
+      },
+      {
+        type: 'user',
+        timestamp: '2025-01-01T00:00:07Z',
+        parsedUserMessage: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call-1', content: 'ok' }] },
+      },
+    ];
+
+    const result = codexCliStrategy.extractTimingData(entries);
+    expect(result.thinkingTimings).toEqual([{ text: 'plan', durationMs: 4000 }]);
+    expect(result.toolResultTimestamps.get('call-1')! - result.toolUseTimestamps.get('call-1')!).toBe(2000);
+  });
+});
+
+describe('ampStrategy', () => {
+  it('is registered for the amp source', () => {
+    expect(strategyRegistry.get('amp')).toBe(ampStrategy);
+  });
+
+  it('absorbs tool results but not prompts', () => {
+    const result: Turn = {
+      id: 'amp-2',
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }],
+    };
+    const prompt: Turn = { id: 'amp-3', role: 'user', content: [{ type: 'text', text: 'next' }] };
+
+    expect(ampStrategy.shouldAbsorbIntoPrevious(result)).toBe(true);
+    expect(ampStrategy.shouldAbsorbIntoPrevious(prompt)).toBe(false);
+  });
+
+  it('times tools until their result and leaves thinking untimed', () => {
+    const entries: Entry[] = [
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T00:00:04Z',
+        parsedAssistantMessage: {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'plan' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: {} },
+          ],
+        },
+      },
+      {
+        type: 'user',
+        timestamp: '2025-01-01T00:00:07Z',
+        parsedUserMessage: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }] },
+      },
+    ];
+
+    const result = ampStrategy.extractTimingData(entries);
+    expect(result.thinkingTimings).toEqual([{ text: 'plan' }]);
+    expect(result.toolResultTimestamps.get('toolu_1')! - result.toolUseTimestamps.get('toolu_1')!).toBe(3000);
+  });
+
+  it('sums the usage of every request', () => {
+    const turns: Turn[] = [
+      { id: 'amp-1', role: 'assistant', content: [], usage: { input_tokens: 10, output_tokens: 5, cache_creation_input_tokens: 100 } },
+      { id: 'amp-2', role: 'user', content: [] },
+      { id: 'amp-3', role: 'assistant', content: [], usage: { input_tokens: 20, output_tokens: 7, cache_read_input_tokens: 100 } },
+    ];
+    expect(ampStrategy.mergeUsage!(turns)).toEqual({
+      input_tokens: 30,
+      output_tokens: 12,
+      cache_read_input_tokens: 100,
+      cache_creation_input_tokens: 100,
+    });
+  });
+});
+
+describe('otelStrategy', () => {
+  it('is registered for the otel source', () => {
+    expect(strategyRegistry.get('otel')).toBe(otelStrategy);
+  });
+
+  it('times results from tool spans by the span itself', () => {
+    const entries: Entry[] = [
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T00:00:04Z',
+        parsedAssistantMessage: {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'call_1', name: 'search', input: {} },
+            { type: 'tool_use', id: 'call_2', name: 'fetch', input: {} },
+          ],
+        },
+      },
+      {
+        type: 'user',
+        timestamp: '2025-01-01T00:00:09Z',
+        rawMessage: {
+          name: 'execute_tool search',
+          startTime: '2025-01-01T00:00:05.000Z',
+          endTime: '2025-01-01T00:00:05.250Z',
+          attributes: { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'search' },
+        },
+        parsedUserMessage: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'ok' }] },
+      },
+      {
+        type: 'user',
+        timestamp: '2025-01-01T00:00:10Z',
+        rawMessage: { name: 'chat gpt-4o', attributes: { 'gen_ai.operation.name': 'chat' } },
+        parsedUserMessage: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_2', content: 'ok' }] },
+      },
+    ];
+
+    const result = otelStrategy.extractTimingData(entries);
+    expect(result.toolResultTimestamps.get('call_1')! - result.toolUseTimestamps.get('call_1')!).toBe(250);
+    expect(result.toolResultTimestamps.get('call_2')! - result.toolUseTimestamps.get('call_2')!).toBe(6000);
+  });
+
+  it('sums the usage of every model call', () => {
+    const turns: Turn[] = [
+      { id: 'otel-1', role: 'assistant', content: [], usage: { input_tokens: 10, output_tokens: 5 } },
+      { id: 'otel-2', role: 'assistant', content: [], usage: { input_tokens: 20, output_tokens: 7, cache_read_input_tokens: 100 } },
+    ];
+    expect(otelStrategy.mergeUsage!(turns)).toEqual({
+      input_tokens: 30,
+      output_tokens: 12,
+      cache_read_input_tokens: 100,
+      cache_creation_input_tokens: 0,
+    });
+  });
+});
+
+describe('langsmithStrategy', () => {
+  it('is registered for the langsmith source', () => {
+    expect(strategyRegistry.get('langsmith')).toBe(langsmithStrategy);
+  });
+
+  it('times results from tool runs by the run itself', () => {
+    const entries: Entry[] = [
+      {
+        type: 'assistant',
+        timestamp: '2025-01-01T00:00:04Z',
+        parsedAssistantMessage: { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'search', input: {} }] },
+      },
+      {
+        type: 'user',
+        timestamp: '2025-01-01T00:00:06Z',
+        rawMessage: { run_type: 'tool', start_time: '2025-01-01T00:00:05.000000', end_time: '2025-01-01T00:00:05.400000' },
+        parsedUserMessage: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'ok' }] },
+      },
+    ];
+
+    const result = langsmithStrategy.extractTimingData(entries);
+    expect(result.toolResultTimestamps.get('call_1')! - result.toolUseTimestamps.get('call_1')!).toBe(400);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for compaction boundary detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findCompactionBoundaries } from './compaction';
+import type { Conversation, Entry, Turn } from '../data/types';
+
+function turn(id: string, role: 'user' | 'assistant', text: string, extra: Partial<Turn> = {}): Turn {
+  return { id, role, content: [{ type: 'text', text }], ...extra };
+}
+
+function entryFor(t: Turn, extra: Partial<Entry> = {}): Entry {
+  return { type: t.role === 'user' ? 'user' : 'assistant', uuid: t.id, ...extra };
+}
+
+function conversationOf(turns: Turn[], entries?: Entry[]): Conversation {
+  return { meta: {}, turns, entries };
+}
+
+const u1 = turn('u1', 'user', 'Hello');
+const a1 = turn('a1', 'assistant', 'Hi');
+const u2 = turn('u2', 'user', 'This session is being continued from a previous conversation.');
+const a2 = turn('a2', 'assistant', 'Carrying on');
+
+describe('findCompactionBoundaries', () => {
+  it('finds nothing without entries', () => {
+    expect(findCompactionBoundaries(conversationOf([u1, a1]))).toEqual([]);
+  });
+
+  it('opens a boundary at the turn after a compact_boundary entry', () => {
+    const entries: Entry[] = [
+      entryFor(u1),
+      entryFor(a1),
+      {
+        type: 'system',
+        uuid: 'c1',
+        subtype: 'compact_boundary',
+        compactMetadata: { trigger: 'auto', preTokens: 155000 },
+        timestamp: '2026-01-01T00:00:00Z',
+      },
+      entryFor(u2, { isCompactSummary: true }),
+      entryFor(a2),
+    ];
+
+    expect(findCompactionBoundaries(conversationOf([u1, a1, u2, a2], entries))).toEqual([
+      {
+        turnIndex: 2,
+        kind: 'compact',
+        summary: 'This session is being continued from a previous conversation.',
+        trigger: 'auto',
+        preTokens: 155000,
+        timestamp: '2026-01-01T00:00:00Z',
+      },
+    ]);
+  });
+
+  it('skips sidechain turns when placing a compaction', () => {
+    const side = turn('s1', 'assistant', 'agent work', { isSidechain: true });
+    const entries: Entry[] = [
+      entryFor(u1),
+      entryFor(a1),
+      { type: 'system', subtype: 'compact_boundary' },
+      entryFor(side),
+      entryFor(u2),
+    ];
+
+    const boundaries = findCompactionBoundaries(conversationOf([u1, a1, side, u2], entries));
+    expect(boundaries.map(b => b.turnIndex)).toEqual([3]);
+  });
+
+  it('opens a boundary after the leaf of a summary entry', () => {
+    const entries: Entry[] = [
+      { type: 'summary', summary: 'Greeting', leafUuid: 'a1' },
+      entryFor(u1),
+      entryFor(a1),
+      entryFor(u2),
+      entryFor(a2),
+    ];
+
+    expect(findCompactionBoundaries(conversationOf([u1, a1, u2, a2], entries))).toEqual([
+      { turnIndex: 2, kind: 'summary', summary: 'Greeting', timestamp: undefined },
+    ]);
+  });
+
+  it('ignores summaries of the last turn or of turns not in the file', () => {
+    const entries: Entry[] = [
+      { type: 'summary', summary: 'Session title', leafUuid: 'a2' },
+      { type: 'summary', summary: 'Another session', leafUuid: 'elsewhere' },
+      entryFor(u1),
+      entryFor(a1),
+      entryFor(u2),
+      entryFor(a2),
+    ];
+
+    expect(findCompactionBoundaries(conversationOf([u1, a1, u2, a2], entries))).toEqual([]);
+  });
+
+  it('merges a summary entry into the compaction at the same turn', () => {
+    const entries: Entry[] = [
+      { type: 'summary', summary: 'Greeting', leafUuid: 'a1' },
+      entryFor(u1),
+      entryFor(a1),
+      { type: 'system', subtype: 'compact_boundary', compactMetadata: { trigger: 'manual' } },
+      entryFor(u2, { isCompactSummary: true }),
+      entryFor(a2),
+    ];
+
+    const boundaries = findCompactionBoundaries(conversationOf([u1, a1, u2, a2], entries));
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0]).toMatchObject({
+      turnIndex: 2,
+      kind: 'compact',
+      trigger: 'manual',
+      summary: 'This session is being continued from a previous conversation.',
+    });
+  });
+});
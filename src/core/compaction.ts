@@ -0,0 +1,115 @@
+/**
+ * Compaction boundaries
+ *
+ * When a conversation outgrows its context window it is compacted: the
+ * history is replaced by a summary and the conversation carries on from
+ * there. Claude Code records this as a `compact_boundary` system entry
+ * followed by a user entry holding the summary; older files mark it with a
+ * `summary` entry naming the last message it covers (`leafUuid`).
+ */
+
+import type { Conversation, Turn } from '../data/types';
+
+/**
+ * A point where the conversation continues from a summary
+ */
+export interface CompactionBoundary {
+  /** First turn after the boundary (by index in Conversation.turns) */
+  turnIndex: number;
+  /** Where the boundary came from: a compact_boundary entry or a summary entry */
+  kind: 'compact' | 'summary';
+  /** Summary the conversation continues from */
+  summary?: string;
+  /** What started the compaction ('auto' or 'manual') */
+  trigger?: string;
+  /** Context size in tokens just before compacting */
+  preTokens?: number;
+  timestamp?: string;
+}
+
+/**
+ * Text of a turn's text blocks
+ */
+function turnText(turn: Turn): string {
+  return turn.content
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Find the compaction boundaries of a conversation, in turn order.
+ *
+ * A compact_boundary entry opens a boundary at the next main-path turn;
+ * its summary comes from the user entry marked isCompactSummary. A summary
+ * entry opens one at the turn after its leaf, if the leaf is in the file and
+ * the conversation goes on past it. Boundaries at the same turn are merged.
+ */
+export function findCompactionBoundaries(conversation: Conversation): CompactionBoundary[] {
+  const { turns, entries } = conversation;
+  if (!entries || entries.length === 0) return [];
+
+  const idToIndex = new Map<string, number>();
+  turns.forEach((turn, index) => {
+    if (turn.id && !idToIndex.has(turn.id)) idToIndex.set(turn.id, index);
+  });
+
+  const byTurn = new Map<number, CompactionBoundary>();
+  const add = (boundary: CompactionBoundary): CompactionBoundary => {
+    const existing = byTurn.get(boundary.turnIndex);
+    if (!existing) {
+      byTurn.set(boundary.turnIndex, boundary);
+      return boundary;
+    }
+    // A compaction's own details win over a summary entry's
+    if (boundary.kind === 'compact' && existing.kind === 'summary') {
+      existing.kind = 'compact';
+      existing.trigger = boundary.trigger;
+      existing.preTokens = boundary.preTokens;
+      existing.timestamp = boundary.timestamp ?? existing.timestamp;
+    }
+    existing.summary ??= boundary.summary;
+    return existing;
+  };
+
+  let pending: Omit<CompactionBoundary, 'turnIndex'> | null = null;
+  let current: CompactionBoundary | null = null;
+
+  for (const entry of entries) {
+    if (entry.type === 'system' && entry.subtype === 'compact_boundary') {
+      pending = {
+        kind: 'compact',
+        trigger: entry.compactMetadata?.trigger,
+        preTokens: entry.compactMetadata?.preTokens,
+        timestamp: entry.timestamp,
+      };
+      continue;
+    }
+
+    if (entry.type === 'summary' && entry.summary && entry.leafUuid) {
+      const leaf = idToIndex.get(entry.leafUuid);
+      if (leaf === undefined) continue;
+      const next = turns.findIndex((turn, index) => index > leaf && !turn.isSidechain);
+      if (next >= 0) add({ turnIndex: next, kind: 'summary', summary: entry.summary, timestamp: entry.timestamp });
+      continue;
+    }
+
+    const turnIndex = entry.uuid !== undefined ? idToIndex.get(entry.uuid) : undefined;
+    if (turnIndex === undefined || turns[turnIndex].isSidechain) continue;
+
+    if (pending) {
+      current = add({ ...pending, turnIndex });
+      pending = null;
+    }
+    if (entry.isCompactSummary) {
+      const summary = turnText(turns[turnIndex]);
+      if (current?.turnIndex === turnIndex) {
+        current.summary = summary || current.summary;
+      } else {
+        add({ turnIndex, kind: 'compact', summary, timestamp: entry.timestamp });
+      }
+    }
+  }
+
+  return Array.from(byTurn.values()).sort((a, b) => a.turnIndex - b.turnIndex);
+}
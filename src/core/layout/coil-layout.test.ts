@@ -7,11 +7,15 @@ import {
   getVerticalSpacing,
   getPathProgress,
   getSpiralPosition,
+  getBranchSpiralPosition,
+  getAgentCoilPosition,
   calculateAllPositions,
   getBoundingBox,
   getExpandedBlockPositions,
   DEFAULT_COIL_PARAMS,
   type CoilLayoutParams,
+  type BranchSpiralParams,
+  type AgentCoilParams,
 } from './coil-layout';
 
 describe('getVerticalSpacing', () => {
@@ -148,6 +152,95 @@ describe('getSpiralPosition', () => {
   });
 });
 
+describe('getBranchSpiralPosition', () => {
+  const params: CoilLayoutParams = { ...DEFAULT_COIL_PARAMS, tiltAngle: 0 };
+  const branch: BranchSpiralParams = {
+    radius: 2,
+    angleStep: Math.PI / 4,
+    verticalStep: 1,
+    drift: 0.5,
+    fanAngle: Math.PI / 6,
+  };
+
+  const distance = (a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }) =>
+    Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+  it('starts just below the fork cluster', () => {
+    const fork = getSpiralPosition(3, params);
+    const first = getBranchSpiralPosition(3, 0, 0, params, branch);
+
+    expect(first.y).toBeCloseTo(fork.y - branch.verticalStep);
+    expect(distance(first, fork)).toBeLessThan(branch.radius * 2 + branch.verticalStep + branch.drift);
+  });
+
+  it('descends one vertical step per cluster', () => {
+    const a = getBranchSpiralPosition(2, 0, 0, params, branch);
+    const b = getBranchSpiralPosition(2, 1, 0, params, branch);
+    expect(a.y - b.y).toBeCloseTo(branch.verticalStep);
+  });
+
+  it('drifts away from the main coil axis', () => {
+    const near = getBranchSpiralPosition(0, 0, 0, params, branch);
+    const far = getBranchSpiralPosition(0, 8, 0, params, branch);
+    expect(Math.hypot(far.x, far.z)).toBeGreaterThan(Math.hypot(near.x, near.z));
+  });
+
+  it('fans branches sharing a fork apart by slot', () => {
+    const first = getBranchSpiralPosition(4, 2, 0, params, branch);
+    const second = getBranchSpiralPosition(4, 2, 1, params, branch);
+    expect(distance(first, second)).toBeGreaterThan(0.5);
+  });
+
+  it('applies the coil tilt', () => {
+    const upright = getBranchSpiralPosition(1, 0, 0, params, branch);
+    const tilted = getBranchSpiralPosition(1, 0, 0, { ...params, tiltAngle: Math.PI / 6 }, branch);
+    expect(tilted.z).toBeCloseTo(upright.z);
+    expect(tilted.x).not.toBeCloseTo(upright.x);
+  });
+});
+
+describe('getAgentCoilPosition', () => {
+  const params: CoilLayoutParams = { ...DEFAULT_COIL_PARAMS, tiltAngle: 0 };
+  const agent: AgentCoilParams = {
+    radius: 1.5,
+    angleStep: Math.PI / 4,
+    verticalStep: 0.8,
+    inset: 1.5,
+    fanAngle: Math.PI / 5,
+  };
+
+  const distance = (a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }) =>
+    Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+  it('starts just below the spawning cluster', () => {
+    const spawn = getSpiralPosition(3, params);
+    const first = getAgentCoilPosition(3, 0, 0, params, agent);
+
+    expect(first.y).toBeCloseTo(spawn.y - agent.verticalStep);
+    expect(distance(first, spawn)).toBeLessThan(agent.radius * 2 + agent.verticalStep);
+  });
+
+  it('descends one vertical step per cluster', () => {
+    const a = getAgentCoilPosition(2, 0, 0, params, agent);
+    const b = getAgentCoilPosition(2, 1, 0, params, agent);
+    expect(a.y - b.y).toBeCloseTo(agent.verticalStep);
+  });
+
+  it('stays inside the main coil', () => {
+    const spawn = getSpiralPosition(5, params);
+    for (let i = 0; i < 12; i++) {
+      const pos = getAgentCoilPosition(5, i, 0, params, agent);
+      expect(Math.hypot(pos.x, pos.z)).toBeLessThanOrEqual(Math.hypot(spawn.x, spawn.z) + 1e-9);
+    }
+  });
+
+  it('fans agents sharing a spawning cluster apart by slot', () => {
+    const first = getAgentCoilPosition(4, 2, 0, params, agent);
+    const second = getAgentCoilPosition(4, 2, 1, params, agent);
+    expect(distance(first, second)).toBeGreaterThan(0.5);
+  });
+});
+
 describe('calculateAllPositions', () => {
   it('returns empty array for count 0', () => {
     const positions = calculateAllPositions(0, DEFAULT_COIL_PARAMS);
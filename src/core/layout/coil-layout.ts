@@ -23,6 +23,28 @@ export interface CoilLayoutParams {
   focusRadius: number;
 }
 
+/**
+ * Layout parameters for side spirals (abandoned branches)
+ */
+export interface BranchSpiralParams {
+  radius: number;
+  angleStep: number;
+  verticalStep: number;
+  drift: number;           // outward axis movement per cluster
+  fanAngle: number;        // angle between branches sharing a fork (radians)
+}
+
+/**
+ * Layout parameters for sub-agent coils
+ */
+export interface AgentCoilParams {
+  radius: number;
+  angleStep: number;
+  verticalStep: number;
+  inset: number;           // distance from the spawning cluster to the coil axis
+  fanAngle: number;        // angle between agents sharing a spawning cluster (radians)
+}
+
 /**
  * Default layout parameters
  */
@@ -104,9 +126,15 @@ export function getSpiralPosition(
   const ly = -pathProgress * params.verticalStep;
   const lz = Math.sin(angle) * currentRadius;
 
-  // Tilt the axis: rotate around Z by tiltAngle
-  const cosT = Math.cos(params.tiltAngle);
-  const sinT = Math.sin(params.tiltAngle);
+  return tiltPosition(lx, ly, lz, params.tiltAngle);
+}
+
+/**
+ * Tilt a position on the upright helix: rotate around Z by tiltAngle
+ */
+function tiltPosition(lx: number, ly: number, lz: number, tiltAngle: number): Position3D {
+  const cosT = Math.cos(tiltAngle);
+  const sinT = Math.sin(tiltAngle);
 
   return {
     x: lx * cosT - ly * sinT,
@@ -115,6 +143,90 @@ export function getSpiralPosition(
   };
 }
 
+/**
+ * Calculate position for a cluster on a side spiral that forks off
+ * the main coil (used for abandoned conversation branches).
+ *
+ * The side spiral starts at the fork cluster, winds around an axis just
+ * outside the main coil, and drifts outward as it descends so it stays
+ * clear of the clusters below the fork.
+ *
+ * @param forkIndex Main-coil cluster the branch forks from
+ * @param index Position of the cluster within the branch (0 = first)
+ * @param slot Which of the branches sharing this fork (fans them apart)
+ */
+export function getBranchSpiralPosition(
+  forkIndex: number,
+  index: number,
+  slot: number,
+  params: CoilLayoutParams,
+  branch: BranchSpiralParams
+): Position3D {
+  const forkProgress = getPathProgress(forkIndex, params);
+  const forkAngle = forkProgress * params.angleStep;
+  const forkRadius = params.radius + forkProgress * params.radiusGrowth;
+  const step = index + 1;
+
+  // Fork point on the upright helix
+  const fx = Math.cos(forkAngle) * forkRadius;
+  const fz = Math.sin(forkAngle) * forkRadius;
+
+  // Side spiral axis sits outward from the fork, fanned by slot
+  const direction = forkAngle + slot * branch.fanAngle;
+  const axisDistance = branch.radius + step * branch.drift;
+  const cx = fx + Math.cos(direction) * axisDistance;
+  const cz = fz + Math.sin(direction) * axisDistance;
+
+  // Start facing back toward the fork and wind from there
+  const angle = direction + Math.PI + step * branch.angleStep;
+  const lx = cx + Math.cos(angle) * branch.radius;
+  const ly = -forkProgress * params.verticalStep - step * branch.verticalStep;
+  const lz = cz + Math.sin(angle) * branch.radius;
+
+  return tiltPosition(lx, ly, lz, params.tiltAngle);
+}
+
+/**
+ * Calculate position for a cluster on a sub-agent coil.
+ *
+ * The agent coil hangs from the spawning cluster on the inside of the
+ * main coil: its vertical axis sits `inset` toward the main axis, and it
+ * winds downward from the spawning cluster with a tighter radius.
+ *
+ * @param spawnIndex Main-coil cluster whose tool call spawned the agent
+ * @param index Position of the cluster within the agent coil (0 = first)
+ * @param slot Which of the agents sharing this spawning cluster (fans them apart)
+ */
+export function getAgentCoilPosition(
+  spawnIndex: number,
+  index: number,
+  slot: number,
+  params: CoilLayoutParams,
+  agent: AgentCoilParams
+): Position3D {
+  const spawnProgress = getPathProgress(spawnIndex, params);
+  const spawnAngle = spawnProgress * params.angleStep;
+  const spawnRadius = params.radius + spawnProgress * params.radiusGrowth;
+  const step = index + 1;
+
+  // Spawn point on the upright helix
+  const sx = Math.cos(spawnAngle) * spawnRadius;
+  const sz = Math.sin(spawnAngle) * spawnRadius;
+
+  // Coil axis sits inward from the spawn point, fanned by slot
+  const direction = spawnAngle + Math.PI + slot * agent.fanAngle;
+  const cx = sx + Math.cos(direction) * agent.inset;
+  const cz = sz + Math.sin(direction) * agent.inset;
+
+  // Start facing back toward the spawn point and wind from there
+  const angle = direction + Math.PI + step * agent.angleStep;
+  const lx = cx + Math.cos(angle) * agent.radius;
+  const ly = -spawnProgress * params.verticalStep - step * agent.verticalStep;
+  const lz = cz + Math.sin(angle) * agent.radius;
+
+  return tiltPosition(lx, ly, lz, params.tiltAngle);
+}
+
 /**
  * Calculate positions for all clusters
  */
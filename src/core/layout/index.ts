@@ -6,10 +6,23 @@ export {
   getVerticalSpacing,
   getPathProgress,
   getSpiralPosition,
+  getBranchSpiralPosition,
+  getAgentCoilPosition,
   calculateAllPositions,
   getBoundingBox,
   getExpandedBlockPositions,
   DEFAULT_COIL_PARAMS,
 } from './coil-layout';
 
-export type { CoilLayoutParams, Position3D } from './coil-layout';
+export type { CoilLayoutParams, BranchSpiralParams, AgentCoilParams, Position3D } from './coil-layout';
+
+export {
+  parseTimestamp,
+  fillMissingTimes,
+  createTimelineScale,
+  getTimelineOffset,
+  getLaneOffsets,
+  getTimelinePosition,
+} from './timeline-layout';
+
+export type { TimelineLayoutParams, TimelineScale } from './timeline-layout';
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for timeline layout calculations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTimestamp,
+  fillMissingTimes,
+  createTimelineScale,
+  getTimelineOffset,
+  getLaneOffsets,
+  getTimelinePosition,
+  type TimelineLayoutParams,
+} from './timeline-layout';
+
+const params: TimelineLayoutParams = {
+  length: 100,
+  minSpacing: 1,
+  maxGap: 60_000,
+  laneSpacing: 4,
+};
+
+describe('parseTimestamp', () => {
+  it('parses ISO timestamps', () => {
+    expect(parseTimestamp('2025-01-01T00:00:01.000Z')).toBe(Date.UTC(2025, 0, 1, 0, 0, 1));
+  });
+
+  it('returns undefined for missing or invalid timestamps', () => {
+    expect(parseTimestamp(undefined)).toBeUndefined();
+    expect(parseTimestamp('yesterday-ish')).toBeUndefined();
+  });
+});
+
+describe('fillMissingTimes', () => {
+  it('interpolates between known times', () => {
+    expect(fillMissingTimes([0, undefined, undefined, 30])).toEqual([0, 10, 20, 30]);
+  });
+
+  it('copies the nearest known time at the ends', () => {
+    expect(fillMissingTimes([undefined, 5, undefined])).toEqual([5, 5, 5]);
+  });
+
+  it('falls back to indices without any times', () => {
+    expect(fillMissingTimes([undefined, undefined, undefined])).toEqual([0, 1, 2]);
+  });
+});
+
+describe('createTimelineScale', () => {
+  it('spaces clusters in proportion to the time between them', () => {
+    const scale = createTimelineScale([0, 10_000, 40_000], params);
+
+    // 40s spread over 100 units, plus minSpacing per step
+    expect(scale.offsets[0]).toBe(0);
+    expect(scale.offsets[1]).toBeCloseTo(1 + 25);
+    expect(scale.offsets[2]).toBeCloseTo(2 + 100);
+  });
+
+  it('keeps bursts apart by the minimum spacing', () => {
+    const scale = createTimelineScale([0, 0, 0], params);
+    expect(scale.offsets).toEqual([0, 1, 2]);
+  });
+
+  it('caps long pauses', () => {
+    const scale = createTimelineScale([0, 60_000, 60_000 + 24 * 3600_000], params);
+    expect(scale.offsets[2] - scale.offsets[1]).toBeCloseTo(scale.offsets[1] - scale.offsets[0]);
+  });
+
+  it('treats times that run backward as no gap', () => {
+    const scale = createTimelineScale([0, 20_000, 10_000, 40_000], params);
+    expect(scale.times).toEqual([0, 20_000, 20_000, 40_000]);
+    expect(scale.offsets[2] - scale.offsets[1]).toBe(params.minSpacing);
+  });
+
+  it('spaces evenly without timestamps', () => {
+    const scale = createTimelineScale([undefined, undefined, undefined], params);
+    const first = scale.offsets[1] - scale.offsets[0];
+    expect(scale.offsets[2] - scale.offsets[1]).toBeCloseTo(first);
+  });
+});
+
+describe('getTimelineOffset', () => {
+  const scale = createTimelineScale([0, 10_000, 40_000], params);
+
+  it('returns main cluster offsets at their times', () => {
+    expect(getTimelineOffset(scale, 10_000)).toBeCloseTo(scale.offsets[1]);
+  });
+
+  it('interpolates between main clusters', () => {
+    const offset = getTimelineOffset(scale, 25_000);
+    expect(offset).toBeCloseTo((scale.offsets[1] + scale.offsets[2]) / 2);
+  });
+
+  it('extrapolates past either end', () => {
+    expect(getTimelineOffset(scale, 44_000)).toBeCloseTo(scale.offsets[2] + 10);
+    expect(getTimelineOffset(scale, -4_000)).toBeCloseTo(-10);
+  });
+
+  it('returns 0 for an empty scale', () => {
+    expect(getTimelineOffset(createTimelineScale([], params), 5)).toBe(0);
+  });
+});
+
+describe('getLaneOffsets', () => {
+  const scale = createTimelineScale([0, 10_000, 40_000], params);
+
+  it('follows the scale for known times', () => {
+    const offsets = getLaneOffsets(scale, [12_000, 30_000], scale.offsets[1], params.minSpacing);
+    expect(offsets[0]).toBeCloseTo(getTimelineOffset(scale, 12_000));
+    expect(offsets[1]).toBeCloseTo(getTimelineOffset(scale, 30_000));
+  });
+
+  it('starts no earlier than the spawning cluster', () => {
+    const offsets = getLaneOffsets(scale, [0], scale.offsets[1], params.minSpacing);
+    expect(offsets[0]).toBe(scale.offsets[1]);
+  });
+
+  it('steps by the minimum spacing for bursts and missing times', () => {
+    const start = scale.offsets[1];
+    const offsets = getLaneOffsets(scale, [10_000, 10_000, undefined], start, params.minSpacing);
+    expect(offsets).toEqual([start, start + 1, start + 2]);
+  });
+});
+
+describe('getTimelinePosition', () => {
+  it('places lanes along Z', () => {
+    expect(getTimelinePosition(12, 0, params)).toEqual({ x: 12, y: 0, z: 0 });
+    expect(getTimelinePosition(12, -1, params)).toEqual({ x: 12, y: 0, z: -4 });
+    expect(getTimelinePosition(12, 2, params)).toEqual({ x: 12, y: 0, z: 8 });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Timeline Layout Calculator
+ *
+ * Pure math functions for a time-proportional layout: clusters sit along
+ * the X axis by timestamp, so long pauses, slow tool executions and bursts
+ * show up as gaps and clumps. Sub-agents and abandoned branches run in
+ * parallel lanes offset along Z.
+ */
+
+import type { Position3D } from './coil-layout';
+
+/**
+ * Layout parameters for the timeline visualization
+ */
+export interface TimelineLayoutParams {
+  length: number;          // axis length the session's (capped) duration is spread over
+  minSpacing: number;      // minimum distance between consecutive clusters
+  maxGap: number;          // pauses longer than this (ms) are drawn at this length
+  laneSpacing: number;     // distance between parallel lanes
+}
+
+/**
+ * Mapping from time to position along the timeline axis,
+ * anchored at the main path's clusters
+ */
+export interface TimelineScale {
+  /** Main path cluster times (ms), non-decreasing */
+  times: number[];
+  /** Axis offset of each main path cluster */
+  offsets: number[];
+  /** Axis units per millisecond of (capped) time */
+  unitsPerMs: number;
+  /** Cap applied to gaps (ms) */
+  maxGap: number;
+}
+
+/**
+ * Parse an ISO timestamp to milliseconds, or undefined if missing/invalid
+ */
+export function parseTimestamp(timestamp: string | undefined): number | undefined {
+  if (!timestamp) return undefined;
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Fill in missing times by interpolating between known neighbours.
+ * Leading and trailing gaps copy the nearest known time; with no known
+ * times at all, the index is used so clusters are evenly spaced.
+ */
+export function fillMissingTimes(times: (number | undefined)[]): number[] {
+  const known = times
+    .map((time, index) => ({ time, index }))
+    .filter((entry): entry is { time: number; index: number } => entry.time !== undefined);
+
+  if (known.length === 0) return times.map((_, index) => index);
+
+  return times.map((time, index) => {
+    if (time !== undefined) return time;
+
+    const next = known.findIndex(entry => entry.index > index);
+    if (next === -1) return known[known.length - 1].time;
+    if (next === 0) return known[0].time;
+
+    const before = known[next - 1];
+    const after = known[next];
+    const t = (index - before.index) / (after.index - before.index);
+    return before.time + (after.time - before.time) * t;
+  });
+}
+
+/**
+ * Build the timeline scale from the main path's cluster times.
+ *
+ * Each cluster sits `minSpacing` past the previous one plus its share of
+ * `length` proportional to the time since it. Gaps are capped at `maxGap`
+ * so a session resumed days later doesn't flatten everything else.
+ */
+export function createTimelineScale(
+  times: (number | undefined)[],
+  params: TimelineLayoutParams
+): TimelineScale {
+  const filled = fillMissingTimes(times);
+
+  // Clock skew can make times run backward; treat that as no gap
+  const monotonic: number[] = [];
+  for (const time of filled) {
+    monotonic.push(monotonic.length > 0 ? Math.max(time, monotonic[monotonic.length - 1]) : time);
+  }
+
+  const gaps = monotonic.map((time, i) => (i === 0 ? 0 : Math.min(time - monotonic[i - 1], params.maxGap)));
+  const totalGap = gaps.reduce((sum, gap) => sum + gap, 0);
+  const unitsPerMs = totalGap > 0 ? params.length / totalGap : 0;
+
+  const offsets: number[] = [];
+  gaps.forEach((gap, i) => {
+    offsets.push(i === 0 ? 0 : offsets[i - 1] + params.minSpacing + gap * unitsPerMs);
+  });
+
+  return { times: monotonic, offsets, unitsPerMs, maxGap: params.maxGap };
+}
+
+/**
+ * Get the axis offset for an arbitrary time, interpolating between the
+ * main path clusters around it
+ */
+export function getTimelineOffset(scale: TimelineScale, time: number): number {
+  const { times, offsets, unitsPerMs, maxGap } = scale;
+  if (times.length === 0) return 0;
+
+  const last = times.length - 1;
+  if (time <= times[0]) return offsets[0] - Math.min(times[0] - time, maxGap) * unitsPerMs;
+  if (time >= times[last]) return offsets[last] + Math.min(time - times[last], maxGap) * unitsPerMs;
+
+  // Last main cluster at or before this time (binary search)
+  let lo = 0;
+  let hi = last;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (times[mid] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+
+  const span = times[lo + 1] - times[lo];
+  const t = span > 0 ? (time - times[lo]) / span : 0;
+  return offsets[lo] + (offsets[lo + 1] - offsets[lo]) * t;
+}
+
+/**
+ * Get axis offsets for clusters in a side lane (a sub-agent or branch).
+ * The lane starts no earlier than `start` (its spawning cluster), follows
+ * the scale where times are known, and keeps clusters `minSpacing` apart.
+ */
+export function getLaneOffsets(
+  scale: TimelineScale,
+  times: (number | undefined)[],
+  start: number,
+  minSpacing: number
+): number[] {
+  const offsets: number[] = [];
+  let previous = start - minSpacing;
+
+  for (const time of times) {
+    const offset = Math.max(
+      time !== undefined ? getTimelineOffset(scale, time) : -Infinity,
+      previous + minSpacing
+    );
+    offsets.push(offset);
+    previous = offset;
+  }
+
+  return offsets;
+}
+
+/**
+ * Calculate position for a cluster on the timeline.
+ * Lane 0 is the main path; sub-agents use negative lanes, branches positive ones.
+ */
+export function getTimelinePosition(
+  offset: number,
+  lane: number,
+  params: TimelineLayoutParams
+): Position3D {
+  return { x: offset, y: 0, z: lane * params.laneSpacing };
+}
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for level-of-detail helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decimatePath } from './lod';
+
+/** Points along X at x = 0..count-1 */
+function line(count: number) {
+  return Array.from({ length: count }, (_, x) => ({ x, y: 0, z: 0 }));
+}
+
+const origin = { x: 0, y: 0, z: 0 };
+
+describe('decimatePath', () => {
+  it('keeps every point near the viewpoint', () => {
+    const points = line(10);
+    expect(decimatePath(points, origin, 100, 4)).toEqual(points);
+  });
+
+  it('keeps every step-th point far away, plus the ends', () => {
+    const xs = decimatePath(line(12), { x: -100, y: 0, z: 0 }, 10, 4).map(p => p.x);
+    expect(xs).toEqual([0, 4, 8, 11]);
+  });
+
+  it('keeps the neighbours of near stretches so the line joins up', () => {
+    const xs = decimatePath(line(20), { x: 10, y: 0, z: 0 }, 2, 4).map(p => p.x);
+    expect(xs).toEqual([0, 4, 7, 8, 9, 10, 11, 12, 13, 16, 19]);
+  });
+
+  it('returns short paths and step 1 unchanged', () => {
+    const far = { x: 1000, y: 0, z: 0 };
+    expect(decimatePath(line(2), far, 1, 4)).toHaveLength(2);
+    expect(decimatePath(line(10), far, 1, 1)).toHaveLength(10);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Level-of-detail helpers
+ *
+ * Distant parts of a long coil cover few pixels, so lines through them can
+ * use far fewer points without any visible difference.
+ */
+
+import type { Position3D } from './layout';
+
+/**
+ * Thin out the far parts of a path.
+ *
+ * Points within `distance` of the viewpoint are kept. Beyond it, only every
+ * `step`-th point (by index in the full path, so the choice doesn't shift as
+ * the camera moves) is kept, along with the path's ends and the points on
+ * either side of each near stretch so it still joins up.
+ */
+export function decimatePath<T extends Position3D>(
+  points: T[],
+  viewpoint: Position3D,
+  distance: number,
+  step: number
+): T[] {
+  if (step <= 1 || points.length <= 2) return points;
+
+  const maxSq = distance * distance;
+  const near = points.map(point => {
+    const dx = point.x - viewpoint.x;
+    const dy = point.y - viewpoint.y;
+    const dz = point.z - viewpoint.z;
+    return dx * dx + dy * dy + dz * dz <= maxSq;
+  });
+
+  return points.filter((_, i) =>
+    i === 0 ||
+    i === points.length - 1 ||
+    i % step === 0 ||
+    near[i] ||
+    near[i - 1] ||
+    near[i + 1]
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for cluster arrangement
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildConversationTree } from './conversation-tree';
+import { arrangeClusters, extendArrangement } from './arrangement';
+import type { Conversation, Turn } from '../../data/types';
+
+function turn(id: string, role: 'user' | 'assistant', parentId: string | undefined, extra: Partial<Turn> = {}): Turn {
+  return { id, role, parentId, content: [{ type: 'text', text: id }], ...extra };
+}
+
+function arrange(turns: Turn[], leafTurnIndex?: number) {
+  const conversation: Conversation = { meta: { title: 'Test' }, turns };
+  return arrangeClusters(conversation, buildConversationTree(conversation), leafTurnIndex);
+}
+
+describe('arrangeClusters', () => {
+  it('arranges a linear conversation on the main coil', () => {
+    const arrangement = arrange([
+      turn('u1', 'user', undefined),
+      turn('a1', 'assistant', 'u1'),
+      turn('u2', 'user', 'a1'),
+      turn('a2', 'assistant', 'u2'),
+    ]);
+
+    expect(arrangement.clusters.map(c => c.index)).toEqual([0, 1]);
+    expect(arrangement.coilSlots).toEqual([0, 1]);
+    expect(arrangement.agents).toEqual([]);
+  });
+
+  it('places agent clusters right after their spawning cluster', () => {
+    const arrangement = arrange([
+      turn('u1', 'user', undefined),
+      {
+        id: 'a1',
+        role: 'assistant',
+        parentId: 'u1',
+        content: [{ type: 'tool_use', id: 'task1', name: 'Task', input: { prompt: 'go' } }],
+      },
+      turn('s1', 'user', undefined, { isSidechain: true, agentId: 'agent-x' }),
+      turn('s2', 'assistant', 's1', { isSidechain: true, agentId: 'agent-x' }),
+      {
+        id: 'u2',
+        role: 'user',
+        parentId: 'a1',
+        content: [{ type: 'tool_result', tool_use_id: 'task1', content: 'Done' }],
+        spawnedAgentId: 'agent-x',
+      },
+      turn('a2', 'assistant', 'u2'),
+    ]);
+
+    expect(arrangement.agents).toEqual([
+      { agentId: 'agent-x', spawnClusterIndex: 0, slot: 0, clusterIndices: [1] },
+    ]);
+    expect(arrangement.clusters[1].isSidechain).toBe(true);
+    expect(arrangement.coilSlots[1]).toBe(arrangement.coilSlots[0]);
+    expect(arrangement.clusters.map(c => c.index)).toEqual(arrangement.clusters.map((_, i) => i));
+  });
+
+  it('keeps a sidechain-only file on the main coil', () => {
+    const arrangement = arrange([
+      turn('s1', 'user', undefined, { isSidechain: true, agentId: 'agent-x' }),
+      turn('s2', 'assistant', 's1', { isSidechain: true, agentId: 'agent-x' }),
+    ]);
+
+    expect(arrangement.clusters).toHaveLength(1);
+    expect(arrangement.agents).toEqual([]);
+  });
+});
+
+describe('extendArrangement', () => {
+  const base = () => [
+    turn('u1', 'user', undefined),
+    turn('a1', 'assistant', 'u1'),
+    turn('u2', 'user', 'a1'),
+    turn('a2', 'assistant', 'u2'),
+  ];
+
+  function extend(initial: Turn[], appended: Turn[]) {
+    const conversation: Conversation = { meta: { title: 'Test' }, turns: initial };
+    const arrangement = arrangeClusters(conversation, buildConversationTree(conversation));
+    const clusters = [...arrangement.clusters];
+
+    conversation.turns = [...initial, ...appended];
+    const extended = extendArrangement(conversation, buildConversationTree(conversation), arrangement, initial.length);
+    const full = arrangeClusters(conversation, buildConversationTree(conversation));
+    return { clusters, extended, full };
+  }
+
+  it('matches arranging the whole conversation', () => {
+    const { clusters, extended, full } = extend(base(), [
+      turn('a3', 'assistant', 'a2'),
+      turn('u3', 'user', 'a3'),
+      turn('a4', 'assistant', 'u3'),
+    ]);
+
+    expect(extended).toEqual(full);
+    expect(extended!.clusters).toHaveLength(3);
+    // Earlier clusters are kept, the last one is rebuilt
+    expect(extended!.clusters[0]).toBe(clusters[0]);
+    expect(extended!.clusters[1]).not.toBe(clusters[1]);
+    expect(extended!.clusters[1].assistantTurn?.content).toHaveLength(2);
+  });
+
+  it('gives up on sub-agent turns', () => {
+    const { extended } = extend(base(), [
+      turn('s1', 'user', undefined, { isSidechain: true, agentId: 'agent-x' }),
+    ]);
+    expect(extended).toBeNull();
+  });
+
+  it('gives up when a new turn forks off an earlier one', () => {
+    const { extended } = extend(base(), [turn('u2b', 'user', 'a1')]);
+    expect(extended).toBeNull();
+  });
+
+  it('gives up on an empty arrangement', () => {
+    const { extended } = extend([], base());
+    expect(extended).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Cluster Arrangement
+ *
+ * Pure function turning a conversation into the ordered cluster list the
+ * viewer lays out: the active branch's main-path clusters, each followed by
+ * the clusters of the sub-agents it spawned.
+ */
+
+import type { Conversation } from '../../data/types';
+import {
+  buildClusters,
+  findClusterIndexForTurn,
+  type TurnCluster,
+} from '../clusters';
+import { getMainPath, type ConversationTree } from './conversation-tree';
+import { getAgentSidechains } from './sidechains';
+
+/**
+ * A sub-agent's run of clusters in an arrangement
+ */
+export interface AgentRun {
+  agentId: string;
+  /** Main-coil cluster whose tool call spawned the agent */
+  spawnClusterIndex: number;
+  /** Position among agents sharing the same spawning cluster */
+  slot: number;
+  /** Clusters of the agent, in order */
+  clusterIndices: number[];
+}
+
+/**
+ * Clusters in display order with their coil placement
+ */
+export interface ClusterArrangement {
+  clusters: TurnCluster[];
+  /** Main-coil slot of each cluster (agent clusters share their spawn's slot) */
+  coilSlots: number[];
+  agents: AgentRun[];
+  /** Turns making up the main coil (the active path without sidechains), in order */
+  mainTurns: number[];
+}
+
+/**
+ * Arrange a conversation's clusters.
+ * Only turns on the active branch's path become main-coil clusters. Each
+ * sub-agent's sidechain becomes its own run of clusters, placed right after
+ * the cluster that spawned it.
+ * @param leafTurnIndex Leaf of the active branch (defaults to the main branch)
+ */
+export function arrangeClusters(
+  conversation: Conversation,
+  tree: ConversationTree,
+  leafTurnIndex?: number
+): ClusterArrangement {
+  const mainPath = getMainPath(conversation, tree, leafTurnIndex);
+  const sidechains = getAgentSidechains(conversation, tree);
+  const sidechainTurns = new Set(sidechains.flatMap(sidechain => sidechain.turnIndices));
+  const mainTurns = mainPath.filter(index => !sidechainTurns.has(index));
+
+  // A file holding only sidechain turns (e.g. a lone agent log) stays on the main coil
+  if (mainTurns.length === 0) {
+    const clusters = buildClusters(conversation, undefined, mainPath);
+    return { clusters, coilSlots: clusters.map(cluster => cluster.index), agents: [], mainTurns: mainPath };
+  }
+
+  const mainClusters = buildClusters(conversation, undefined, mainTurns);
+  const agentsBySpawn = new Map<number, Array<{ agentId: string; clusters: TurnCluster[] }>>();
+  for (const sidechain of sidechains) {
+    const spawn = findClusterIndexForTurn(mainClusters, sidechain.spawnTurnIndex ?? sidechain.turnIndices[0]);
+    const agents = agentsBySpawn.get(spawn) ?? [];
+    agents.push({
+      agentId: sidechain.agentId,
+      clusters: buildClusters(conversation, undefined, sidechain.turnIndices),
+    });
+    agentsBySpawn.set(spawn, agents);
+  }
+
+  const arrangement: ClusterArrangement = { clusters: [], coilSlots: [], agents: [], mainTurns };
+  const place = (cluster: TurnCluster, coilSlot: number) => {
+    cluster.index = arrangement.clusters.length;
+    arrangement.clusters.push(cluster);
+    arrangement.coilSlots.push(coilSlot);
+  };
+
+  mainClusters.forEach((mainCluster, coilSlot) => {
+    place(mainCluster, coilSlot);
+
+    (agentsBySpawn.get(coilSlot) ?? []).forEach((agent, slot) => {
+      const run: AgentRun = {
+        agentId: agent.agentId,
+        spawnClusterIndex: mainCluster.index,
+        slot,
+        clusterIndices: [],
+      };
+      for (const cluster of agent.clusters) {
+        place(cluster, coilSlot);
+        run.clusterIndices.push(cluster.index);
+      }
+      arrangement.agents.push(run);
+    });
+  });
+
+  return arrangement;
+}
+
+/**
+ * Extend an arrangement after turns were appended to the conversation.
+ * Only the last cluster (which may have grown) and the clusters after it
+ * are rebuilt; earlier clusters are kept as they are.
+ *
+ * Returns null when the new turns don't simply continue the main coil
+ * (sub-agent turns, new branches, or a sub-agent run at the end), in which
+ * case the conversation has to be arranged again.
+ * @param tree Tree of the extended conversation
+ * @param firstNewTurn Index of the first appended turn
+ */
+export function extendArrangement(
+  conversation: Conversation,
+  tree: ConversationTree,
+  arrangement: ClusterArrangement,
+  firstNewTurn: number
+): ClusterArrangement | null {
+  const { clusters, coilSlots, agents, mainTurns } = arrangement;
+  const { turns } = conversation;
+  const last = clusters[clusters.length - 1];
+  if (!last || agents.some(agent => agent.clusterIndices.includes(last.index))) return null;
+  if (turns.slice(firstNewTurn).some(turn => turn.isSidechain)) return null;
+
+  // Every new turn must extend the old main coil
+  const extendedTurns = getMainPath(conversation, tree).filter(index => !turns[index].isSidechain);
+  if (extendedTurns.length !== mainTurns.length + turns.length - firstNewTurn) return null;
+  if (mainTurns.some((index, position) => extendedTurns[position] !== index)) return null;
+
+  const start = mainTurns.lastIndexOf(last.userTurnIndex ?? last.assistantTurnIndex ?? -1);
+  if (start < 0) return null;
+
+  const tail = buildClusters(conversation, undefined, extendedTurns.slice(start));
+  tail.forEach((cluster, i) => {
+    cluster.index = last.index + i;
+  });
+
+  return {
+    clusters: [...clusters.slice(0, last.index), ...tail],
+    coilSlots: [...coilSlots.slice(0, last.index), ...tail.map((_, i) => coilSlots[last.index] + i)],
+    agents,
+    mainTurns: extendedTurns,
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Unit tests for conversation tree functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildConversationTree,
+  getMainPath,
+  getSideBranches,
+  getBranches,
+} from './conversation-tree';
+import type { Conversation, Turn, Entry, ContentBlock } from '../../data/types';
+
+// Helper to create a turn with an explicit parent
+function turn(id: string, role: 'user' | 'assistant', parentId: string | undefined, text: string, extra: Partial<Turn> = {}): Turn {
+  return { id, role, parentId, content: [{ type: 'text', text }], ...extra };
+}
+
+// Helper to create a tool-result-only user turn
+function toolResult(id: string, parentId: string, toolUseId: string): Turn {
+  const content: ContentBlock[] = [{ type: 'tool_result', tool_use_id: toolUseId, content: 'ok' }];
+  return { id, role: 'user', parentId, content };
+}
+
+function conversationOf(turns: Turn[], entries?: Entry[]): Conversation {
+  return { meta: { title: 'Test' }, turns, entries };
+}
+
+// u1 -> a1 -> u2 -> a2 (abandoned), and u2' -> a2' editing u2 from a1
+function editedConversation(): Conversation {
+  return conversationOf([
+    turn('u1', 'user', undefined, 'Hello'),
+    turn('a1', 'assistant', 'u1', 'Hi there'),
+    turn('u2', 'user', 'a1', 'Write a poem'),
+    turn('a2', 'assistant', 'u2', 'Roses are red'),
+    turn('u2b', 'user', 'a1', 'Write a haiku'),
+    turn('a2b', 'assistant', 'u2b', 'Old pond'),
+  ]);
+}
+
+describe('buildConversationTree', () => {
+  it('links turns through their parent ids', () => {
+    const tree = buildConversationTree(editedConversation());
+
+    expect(tree.parents).toEqual([null, 0, 1, 2, 1, 4]);
+    expect(tree.children[1]).toEqual([2, 4]);
+    expect(tree.leaves).toEqual([3, 5]);
+  });
+
+  it('treats a conversation without parent ids as linear', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', undefined, 'Hi'),
+      turn('u2', 'user', undefined, 'Bye'),
+    ]);
+    const tree = buildConversationTree(conversation);
+
+    expect(tree.parents).toEqual([null, 0, 1]);
+    expect(tree.leaves).toEqual([2]);
+  });
+
+  it('continues from the previous turn when a parent is missing', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+      turn('u2', 'user', 'compacted-away', 'Continue'),
+    ]);
+
+    expect(buildConversationTree(conversation).parents).toEqual([null, 0, 1]);
+  });
+
+  it('follows entry parents through entries without turns', () => {
+    const entries: Entry[] = [
+      { type: 'user', uuid: 'u1' },
+      { type: 'system', uuid: 's1', parentUuid: 'u1' },
+      { type: 'progress', uuid: 'p1', parentUuid: 's1' },
+      { type: 'assistant', uuid: 'a1', parentUuid: 'p1' },
+    ];
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'p1', 'Hi'),
+    ], entries);
+
+    expect(buildConversationTree(conversation).parents).toEqual([null, 0]);
+  });
+
+  it('ignores dangling tool results from parallel tool calls', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Read both files'),
+      turn('a1', 'assistant', 'u1', 'Reading'),
+      turn('a2', 'assistant', 'a1', 'Reading more'),
+      toolResult('r1', 'a1', 't1'),
+      toolResult('r2', 'a2', 't2'),
+      turn('a3', 'assistant', 'r2', 'Done'),
+    ]);
+    const tree = buildConversationTree(conversation);
+
+    expect(tree.leaves).toEqual([5]);
+    expect(tree.leadsToLeaf[3]).toBe(false);
+  });
+
+  it('keeps sidechain turns out of the branching structure', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('s1', 'user', undefined, 'Agent task', { isSidechain: true }),
+      turn('s2', 'assistant', 's1', 'Agent reply', { isSidechain: true }),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+    ]);
+    const tree = buildConversationTree(conversation);
+
+    expect(tree.parents).toEqual([null, null, 1, 0]);
+    expect(tree.children[0]).toEqual([3]);
+    expect(tree.leaves).toEqual([3]);
+  });
+});
+
+describe('getMainPath', () => {
+  it('follows the most recent leaf by default', () => {
+    const conversation = editedConversation();
+    const tree = buildConversationTree(conversation);
+
+    expect(getMainPath(conversation, tree)).toEqual([0, 1, 4, 5]);
+  });
+
+  it('follows a chosen leaf', () => {
+    const conversation = editedConversation();
+    const tree = buildConversationTree(conversation);
+
+    expect(getMainPath(conversation, tree, 3)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('falls back to the most recent leaf for a turn that is not a leaf', () => {
+    const conversation = editedConversation();
+    const tree = buildConversationTree(conversation);
+
+    expect(getMainPath(conversation, tree, 1)).toEqual([0, 1, 4, 5]);
+  });
+
+  it('keeps dangling tool results and sidechains on the main path', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Read both files'),
+      turn('a1', 'assistant', 'u1', 'Reading'),
+      turn('s1', 'user', undefined, 'Agent task', { isSidechain: true }),
+      turn('a2', 'assistant', 'a1', 'Reading more'),
+      toolResult('r1', 'a1', 't1'),
+      toolResult('r2', 'a2', 't2'),
+      turn('a3', 'assistant', 'r2', 'Done'),
+    ]);
+    const tree = buildConversationTree(conversation);
+
+    expect(getMainPath(conversation, tree)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it('returns every turn for a linear conversation', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+    ]);
+
+    expect(getMainPath(conversation, buildConversationTree(conversation))).toEqual([0, 1]);
+  });
+});
+
+describe('getSideBranches', () => {
+  it('returns abandoned turns grouped by fork', () => {
+    const conversation = editedConversation();
+    const tree = buildConversationTree(conversation);
+
+    expect(getSideBranches(conversation, tree)).toEqual([
+      { forkTurnIndex: 1, turnIndices: [2, 3] },
+    ]);
+    expect(getSideBranches(conversation, tree, 3)).toEqual([
+      { forkTurnIndex: 1, turnIndices: [4, 5] },
+    ]);
+  });
+
+  it('keeps nested forks inside the same side branch', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+      turn('u2', 'user', 'a1', 'Option A'),
+      turn('a2', 'assistant', 'u2', 'A1'),
+      turn('a2b', 'assistant', 'u2', 'A2 retry'),
+      turn('u3', 'user', 'a1', 'Option B'),
+    ]);
+    const tree = buildConversationTree(conversation);
+
+    expect(tree.leaves).toEqual([3, 4, 5]);
+    expect(getSideBranches(conversation, tree)).toEqual([
+      { forkTurnIndex: 1, turnIndices: [2, 3, 4] },
+    ]);
+  });
+
+  it('returns nothing for a linear conversation', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+    ]);
+
+    expect(getSideBranches(conversation, buildConversationTree(conversation))).toEqual([]);
+  });
+});
+
+describe('getBranches', () => {
+  it('describes each leaf with its fork and diverging turn', () => {
+    const conversation = editedConversation();
+    const branches = getBranches(conversation, buildConversationTree(conversation));
+
+    expect(branches).toEqual([
+      { leafTurnIndex: 3, forkTurnIndex: 1, divergeTurnIndex: 2, length: 4, preview: 'Write a poem' },
+      { leafTurnIndex: 5, forkTurnIndex: 1, divergeTurnIndex: 4, length: 4, preview: 'Write a haiku' },
+    ]);
+  });
+
+  it('returns a single unforked branch for a linear conversation', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+    ]);
+    const branches = getBranches(conversation, buildConversationTree(conversation));
+
+    expect(branches).toEqual([
+      { leafTurnIndex: 1, forkTurnIndex: null, divergeTurnIndex: 0, length: 2, preview: 'Hello' },
+    ]);
+  });
+
+  it('labels a branch with the first turn after the fork that has text', () => {
+    const conversation = conversationOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+      turn('a2', 'assistant', 'a1', 'First attempt'),
+      { id: 'a2b', role: 'assistant', parentId: 'a1', content: [{ type: 'thinking', thinking: 'Retrying' }] },
+    ]);
+    const branches = getBranches(conversation, buildConversationTree(conversation));
+
+    expect(branches.map(b => b.preview)).toEqual(['First attempt', 'Retrying']);
+  });
+
+  it('measures branches forking from a long shared path', () => {
+    // 3000 turns in a row, then a retry of the last reply
+    const turns: Turn[] = [turn('t0', 'user', undefined, 'Start')];
+    for (let i = 1; i < 3000; i++) {
+      turns.push(turn(`t${i}`, i % 2 ? 'assistant' : 'user', `t${i - 1}`, `Turn ${i}`));
+    }
+    turns.push(turn('retry', 'assistant', 't2998', 'Retried'));
+    const conversation = conversationOf(turns);
+    const branches = getBranches(conversation, buildConversationTree(conversation));
+
+    expect(branches).toEqual([
+      { leafTurnIndex: 2999, forkTurnIndex: 2998, divergeTurnIndex: 2999, length: 3000, preview: 'Turn 2999' },
+      { leafTurnIndex: 3000, forkTurnIndex: 2998, divergeTurnIndex: 3000, length: 3000, preview: 'Retried' },
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Conversation Tree
+ *
+ * Pure functions for recovering the branching structure of a conversation
+ * from parent links (Turn.parentId / Entry.parentUuid).
+ *
+ * Edits, retries, and rewinds append a new turn whose parent is an earlier
+ * turn, so the file holds several paths through one tree. One leaf is picked
+ * as the "main" path; turns that fork off it are abandoned side branches.
+ */
+
+import type { Conversation, Turn } from '../../data/types';
+import { isToolResultOnly } from '../clusters';
+
+/**
+ * Parent/child structure of a conversation's turns (by index in Conversation.turns)
+ */
+export interface ConversationTree {
+  /** Parent turn index for each turn, null for roots and sidechain turns without a parent */
+  parents: Array<number | null>;
+  /** Child turn indices for each turn, in file order (sidechain turns excluded) */
+  children: number[][];
+  /** Turns that end a user-visible branch, in file order */
+  leaves: number[];
+  /** Whether each turn's subtree contains one of `leaves` */
+  leadsToLeaf: boolean[];
+}
+
+/**
+ * A selectable path through the tree, identified by its leaf
+ */
+export interface ConversationBranch {
+  /** Turn index of the branch's last turn */
+  leafTurnIndex: number;
+  /** Last turn shared with another branch, null if the conversation never forks */
+  forkTurnIndex: number | null;
+  /** First turn that belongs only to this branch (the edit or retry) */
+  divergeTurnIndex: number;
+  /** Number of turns from the root to the leaf */
+  length: number;
+  /** Text of the first turn after the fork, for labelling */
+  preview: string;
+}
+
+/**
+ * An abandoned branch hanging off the main path
+ */
+export interface SideBranch {
+  /** Turn on the main path the branch forks from */
+  forkTurnIndex: number;
+  /** Turn indices of the branch (including its own sub-branches), in file order */
+  turnIndices: number[];
+}
+
+/**
+ * Resolve a parent id to a turn index, following entry parent links
+ * through entries that didn't produce turns (system, progress, ...)
+ */
+function resolveParent(
+  parentId: string | undefined,
+  idToIndex: Map<string, number>,
+  entryParents: Map<string, string | undefined>,
+): number | undefined {
+  const visited = new Set<string>();
+  let id = parentId;
+
+  while (id && !visited.has(id)) {
+    const index = idToIndex.get(id);
+    if (index !== undefined) return index;
+    visited.add(id);
+    id = entryParents.get(id);
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a leaf's own segment (up to the nearest fork) holds anything
+ * beyond tool results. Parallel tool calls leave dangling tool_result
+ * turns that look like branches but aren't.
+ */
+function isVisibleLeaf(turns: Turn[], tree: Pick<ConversationTree, 'parents' | 'children'>, leaf: number): boolean {
+  let index: number | null = leaf;
+  while (index !== null) {
+    if (!isToolResultOnly(turns[index])) return true;
+    const parent: number | null = tree.parents[index];
+    if (parent === null || tree.children[parent].length > 1) return false;
+    index = parent;
+  }
+  return false;
+}
+
+/**
+ * Build the conversation tree from parent links.
+ *
+ * Turns whose parent can't be found (the first turn, compaction restarts,
+ * broken chains) continue from the previous turn in file order, so the
+ * non-sidechain turns always form a single tree. Sidechain (sub-agent)
+ * turns are kept out of the branching structure.
+ */
+export function buildConversationTree(conversation: Conversation): ConversationTree {
+  const { turns } = conversation;
+
+  const idToIndex = new Map<string, number>();
+  turns.forEach((turn, index) => {
+    if (turn.id && !idToIndex.has(turn.id)) idToIndex.set(turn.id, index);
+  });
+
+  const entryParents = new Map<string, string | undefined>();
+  for (const entry of conversation.entries ?? []) {
+    if (entry.uuid) entryParents.set(entry.uuid, entry.parentUuid);
+  }
+
+  const parents: Array<number | null> = [];
+  const children: number[][] = turns.map(() => []);
+  let previous: number | null = null;
+
+  turns.forEach((turn, index) => {
+    const resolved = resolveParent(turn.parentId, idToIndex, entryParents);
+    // Only accept earlier turns as parents so the tree stays acyclic
+    const parent = resolved !== undefined && resolved < index ? resolved : null;
+
+    if (turn.isSidechain) {
+      parents.push(parent);
+      return;
+    }
+
+    const effectiveParent = parent !== null && !turns[parent].isSidechain ? parent : previous;
+    parents.push(effectiveParent);
+    if (effectiveParent !== null) children[effectiveParent].push(index);
+    previous = index;
+  });
+
+  const candidates = turns
+    .map((_, index) => index)
+    .filter(index => !turns[index].isSidechain && children[index].length === 0);
+  const visible = candidates.filter(leaf => isVisibleLeaf(turns, { parents, children }, leaf));
+  // Always keep at least one leaf so there is a main path
+  const leaves = visible.length > 0 ? visible : candidates.slice(-1);
+
+  // Parents always precede children, so a reverse pass sees children first
+  const leadsToLeaf = turns.map(() => false);
+  for (const leaf of leaves) leadsToLeaf[leaf] = true;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const parent = parents[i];
+    if (leadsToLeaf[i] && parent !== null && !turns[i].isSidechain) leadsToLeaf[parent] = true;
+  }
+
+  return { parents, children, leaves, leadsToLeaf };
+}
+
+/**
+ * Get the turns on the path to a leaf, in file order.
+ *
+ * Sidechain turns and dangling tool-result-only dead ends are kept with
+ * the path so the main coil reads like the original linear view.
+ *
+ * @param leafTurnIndex Leaf to follow (defaults to the most recent leaf)
+ */
+export function getMainPath(conversation: Conversation, tree: ConversationTree, leafTurnIndex?: number): number[] {
+  return partitionTurns(conversation, tree, leafTurnIndex).mainPath;
+}
+
+/**
+ * Get the abandoned branches forking off the path to a leaf
+ *
+ * @param leafTurnIndex Leaf defining the main path (defaults to the most recent leaf)
+ */
+export function getSideBranches(conversation: Conversation, tree: ConversationTree, leafTurnIndex?: number): SideBranch[] {
+  return partitionTurns(conversation, tree, leafTurnIndex).sideBranches;
+}
+
+/**
+ * Split turns into the main path and side branches
+ */
+function partitionTurns(
+  conversation: Conversation,
+  tree: ConversationTree,
+  leafTurnIndex?: number,
+): { mainPath: number[]; sideBranches: SideBranch[] } {
+  const { turns } = conversation;
+  const leaf = leafTurnIndex !== undefined && tree.leaves.includes(leafTurnIndex)
+    ? leafTurnIndex
+    : tree.leaves[tree.leaves.length - 1];
+
+  const onPath = new Set<number>();
+  for (let index: number | null = leaf ?? null; index !== null; index = tree.parents[index]) {
+    onPath.add(index);
+  }
+
+  const mainPath: number[] = [];
+  const sideBranches: SideBranch[] = [];
+  // Side branch each turn belongs to, undefined for main-path turns
+  const branchOf: Array<SideBranch | undefined> = [];
+
+  turns.forEach((turn, index) => {
+    const parent = tree.parents[index];
+
+    let branch: SideBranch | undefined;
+    if (!turn.isSidechain && !onPath.has(index) && parent !== null) {
+      branch = branchOf[parent];
+      // A subtree leaving the path starts a side branch unless it's only a dead end
+      if (!branch && tree.leadsToLeaf[index]) {
+        branch = { forkTurnIndex: parent, turnIndices: [] };
+        sideBranches.push(branch);
+      }
+    }
+
+    branchOf.push(branch);
+    if (branch) {
+      branch.turnIndices.push(index);
+    } else {
+      mainPath.push(index);
+    }
+  });
+
+  return { mainPath, sideBranches };
+}
+
+/**
+ * Get text for labelling a turn (first text block, else first thinking block)
+ */
+function getTurnPreview(turn: Turn): string {
+  for (const block of turn.content) {
+    if (block.type === 'text' && block.text.trim()) return block.text.trim();
+  }
+  for (const block of turn.content) {
+    if (block.type === 'thinking' && block.thinking.trim()) return block.thinking.trim();
+  }
+  return '';
+}
+
+/**
+ * List the selectable branches, one per leaf, in file order
+ */
+export function getBranches(conversation: Conversation, tree: ConversationTree): ConversationBranch[] {
+  const { turns } = conversation;
+  const { parents } = tree;
+
+  // A turn is a fork when more than one of its children leads on to a leaf
+  const isFork = tree.children.map(children => children.filter(child => tree.leadsToLeaf[child]).length > 1);
+
+  // Number of turns from the root, filled in as leaves are measured
+  const depths: Array<number | undefined> = [];
+  const depthOf = (turnIndex: number): number => {
+    const unmeasured: number[] = [];
+    let index: number | null = turnIndex;
+    for (; index !== null && depths[index] === undefined; index = parents[index]) {
+      unmeasured.push(index);
+    }
+    let depth = index === null ? 0 : depths[index]!;
+    for (let i = unmeasured.length - 1; i >= 0; i--) {
+      depths[unmeasured[i]] = ++depth;
+    }
+    return depth;
+  };
+
+  return tree.leaves.map((leaf) => {
+    // Walk back from the leaf to the nearest turn with another branch below it.
+    // Segments of different leaves don't overlap, so this is linear overall.
+    const segment = [leaf];
+    let forkTurnIndex: number | null = null;
+    for (let index = parents[leaf]; index !== null; index = parents[index]) {
+      if (isFork[index]) {
+        forkTurnIndex = index;
+        break;
+      }
+      segment.push(index);
+    }
+    segment.reverse();
+    const divergeTurnIndex = segment[0];
+
+    // Label with the first turn after the fork that has text
+    let preview = '';
+    for (let i = 0; i < segment.length && !preview; i++) {
+      preview = getTurnPreview(turns[segment[i]]);
+    }
+
+    return { leafTurnIndex: leaf, forkTurnIndex, divergeTurnIndex, length: depthOf(leaf), preview };
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Tree module - pure functions for branching conversations
+ */
+
+export {
+  buildConversationTree,
+  getMainPath,
+  getSideBranches,
+  getBranches,
+} from './conversation-tree';
+
+export type {
+  ConversationTree,
+  ConversationBranch,
+  SideBranch,
+} from './conversation-tree';
+
+export { getAgentSidechains } from './sidechains';
+export type { AgentSidechain } from './sidechains';
+
+export { arrangeClusters, extendArrangement } from './arrangement';
+export type { AgentRun, ClusterArrangement } from './arrangement';
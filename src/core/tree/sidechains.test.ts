@@ -0,0 +1,140 @@
+/**
+ * Unit tests for agent sidechain grouping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildConversationTree } from './conversation-tree';
+import { getAgentSidechains } from './sidechains';
+import type { Conversation, Turn } from '../../data/types';
+
+function turn(id: string, role: 'user' | 'assistant', parentId: string | undefined, text: string, extra: Partial<Turn> = {}): Turn {
+  return { id, role, parentId, content: [{ type: 'text', text }], ...extra };
+}
+
+// Assistant turn calling the Task tool
+function taskCall(id: string, parentId: string, toolUseId: string, prompt: string): Turn {
+  return {
+    id,
+    role: 'assistant',
+    parentId,
+    content: [{ type: 'tool_use', id: toolUseId, name: 'Task', input: { description: 'Sub-task', prompt } }],
+  };
+}
+
+// User turn holding a Task result
+function taskResult(id: string, parentId: string, toolUseId: string, spawnedAgentId?: string): Turn {
+  return {
+    id,
+    role: 'user',
+    parentId,
+    content: [{ type: 'tool_result', tool_use_id: toolUseId, content: 'Done' }],
+    spawnedAgentId,
+  };
+}
+
+function sidechain(id: string, role: 'user' | 'assistant', parentId: string | undefined, text: string, agentId?: string): Turn {
+  return turn(id, role, parentId, text, { isSidechain: true, agentId });
+}
+
+function agentsOf(turns: Turn[]) {
+  const conversation: Conversation = { meta: { title: 'Test' }, turns };
+  return getAgentSidechains(conversation, buildConversationTree(conversation));
+}
+
+describe('getAgentSidechains', () => {
+  it('returns nothing without sidechains', () => {
+    expect(agentsOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+    ])).toEqual([]);
+  });
+
+  it('links agents to tool calls by the agent ID in the result', () => {
+    const agents = agentsOf([
+      turn('u1', 'user', undefined, 'Explore twice'),
+      taskCall('a1', 'u1', 't1', 'Look at the parser'),
+      taskCall('a2', 'a1', 't2', 'Look at the viewer'),
+      taskResult('r1', 'a2', 't1', 'agent-b'),
+      taskResult('r2', 'r1', 't2', 'agent-a'),
+      // Agent files are appended after the main session
+      sidechain('sa1', 'user', undefined, 'Different wording', 'agent-a'),
+      sidechain('sa2', 'assistant', 'sa1', 'Viewer notes', 'agent-a'),
+      sidechain('sb1', 'user', undefined, 'Other wording', 'agent-b'),
+    ]);
+
+    expect(agents).toEqual([
+      { agentId: 'agent-a', spawnTurnIndex: 2, toolUseId: 't2', turnIndices: [5, 6] },
+      { agentId: 'agent-b', spawnTurnIndex: 1, toolUseId: 't1', turnIndices: [7] },
+    ]);
+  });
+
+  it('groups inline sidechains without agent IDs by their root and matches prompts', () => {
+    const agents = agentsOf([
+      turn('u1', 'user', undefined, 'Explore twice'),
+      taskCall('a1', 'u1', 't1', 'Look at the parser'),
+      taskCall('a2', 'a1', 't2', 'Look at the viewer'),
+      sidechain('s1', 'user', undefined, 'Look at the viewer'),
+      sidechain('s2', 'user', undefined, 'Look at the parser'),
+      sidechain('s3', 'assistant', 's1', 'Viewer notes'),
+      sidechain('s4', 'assistant', 's2', 'Parser notes'),
+      taskResult('r1', 'a2', 't1'),
+    ]);
+
+    expect(agents).toEqual([
+      { agentId: 'sidechain-3', spawnTurnIndex: 2, toolUseId: 't2', turnIndices: [3, 5] },
+      { agentId: 'sidechain-4', spawnTurnIndex: 1, toolUseId: 't1', turnIndices: [4, 6] },
+    ]);
+  });
+
+  it('falls back to the nearest earlier Task call', () => {
+    const agents = agentsOf([
+      turn('u1', 'user', undefined, 'Explore'),
+      taskCall('a1', 'u1', 't1', 'Look around'),
+      sidechain('s1', 'user', undefined, 'Look around carefully', 'agent-a'),
+    ]);
+
+    expect(agents[0]).toMatchObject({ spawnTurnIndex: 1, toolUseId: 't1' });
+  });
+
+  it('matches Amp oracle calls by their task', () => {
+    const agents = agentsOf([
+      turn('u1', 'user', undefined, 'Review twice'),
+      {
+        id: 'a1',
+        role: 'assistant',
+        parentId: 'u1',
+        content: [
+          { type: 'tool_use', id: 't1', name: 'oracle', input: { task: 'Review the parser' } },
+          { type: 'tool_use', id: 't2', name: 'oracle', input: { task: 'Review the viewer' } },
+        ],
+      },
+      sidechain('s1', 'user', undefined, 'Review the viewer', 'oracle-t2'),
+      sidechain('s2', 'user', undefined, 'Review the parser', 'oracle-t1'),
+    ]);
+
+    expect(agents.map(a => [a.agentId, a.toolUseId])).toEqual([['oracle-t2', 't2'], ['oracle-t1', 't1']]);
+  });
+
+  it('hangs sidechains without a Task call off the nearest earlier main turn', () => {
+    const agents = agentsOf([
+      turn('u1', 'user', undefined, 'Hello'),
+      turn('a1', 'assistant', 'u1', 'Hi'),
+      sidechain('s1', 'user', undefined, 'Warmup', 'agent-a'),
+    ]);
+
+    expect(agents).toEqual([
+      { agentId: 'agent-a', spawnTurnIndex: 1, turnIndices: [2] },
+    ]);
+  });
+
+  it('has no spawn turn when nothing precedes the sidechain', () => {
+    const agents = agentsOf([
+      sidechain('s1', 'user', undefined, 'Task', 'agent-a'),
+      sidechain('s2', 'assistant', 's1', 'Reply', 'agent-a'),
+    ]);
+
+    expect(agents).toEqual([
+      { agentId: 'agent-a', spawnTurnIndex: null, turnIndices: [0, 1] },
+    ]);
+  });
+});
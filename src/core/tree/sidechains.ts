@@ -0,0 +1,166 @@
+/**
+ * Agent Sidechains
+ *
+ * Pure functions for grouping sub-agent (sidechain) turns by agent and
+ * finding the Task tool call that spawned each agent.
+ *
+ * Older traces write sidechains inline without an agent ID; newer ones
+ * keep each agent in its own file, tag its turns with agentId, and report
+ * that ID in the Task tool result.
+ */
+
+import type { Conversation, Turn, TextBlock } from '../../data/types';
+import type { ConversationTree } from './conversation-tree';
+
+/** Tool names that start a sub-agent (Claude Code, and Amp's oracle and search agents) */
+const AGENT_TOOL_NAMES = new Set(['Task', 'Agent', 'oracle', 'codebase_search_agent', 'librarian']);
+
+/** Tool input fields holding the sub-agent's prompt, in order of preference */
+const AGENT_PROMPT_FIELDS = ['prompt', 'task', 'query'];
+
+/**
+ * One sub-agent's turns and where it was spawned
+ */
+export interface AgentSidechain {
+  /** Agent ID, or `sidechain-<first turn index>` for sidechains recorded without one */
+  agentId: string;
+  /** Turn holding the spawning tool_use (or the nearest earlier main turn), null if none */
+  spawnTurnIndex: number | null;
+  /** ID of the spawning tool_use block, if it was found */
+  toolUseId?: string;
+  /** Turn indices of the sidechain, in file order */
+  turnIndices: number[];
+}
+
+/**
+ * A tool call on the main path that starts a sub-agent
+ */
+interface AgentToolCall {
+  turnIndex: number;
+  id: string;
+  prompt?: string;
+}
+
+/**
+ * Get the joined text blocks of a turn
+ */
+function getTurnText(turn: Turn): string {
+  return turn.content
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Collect sub-agent tool calls from main (non-sidechain) turns, in file order
+ */
+function collectAgentToolCalls(turns: Turn[]): AgentToolCall[] {
+  const calls: AgentToolCall[] = [];
+
+  turns.forEach((turn, turnIndex) => {
+    if (turn.isSidechain || turn.role !== 'assistant') return;
+    for (const block of turn.content) {
+      if (block.type !== 'tool_use' || !AGENT_TOOL_NAMES.has(block.name)) continue;
+      const prompt = AGENT_PROMPT_FIELDS.map(field => block.input?.[field]).find(value => typeof value === 'string');
+      calls.push({
+        turnIndex,
+        id: block.id,
+        prompt: typeof prompt === 'string' ? prompt.trim() : undefined,
+      });
+    }
+  });
+
+  return calls;
+}
+
+/**
+ * Map tool_use IDs to the agent their result reports (Turn.spawnedAgentId)
+ */
+function collectSpawnedAgents(turns: Turn[]): Map<string, string> {
+  const agentByToolUse = new Map<string, string>();
+
+  for (const turn of turns) {
+    if (turn.isSidechain || !turn.spawnedAgentId) continue;
+    const result = turn.content.find(block => block.type === 'tool_result');
+    if (result?.type === 'tool_result') agentByToolUse.set(result.tool_use_id, turn.spawnedAgentId);
+  }
+
+  return agentByToolUse;
+}
+
+/**
+ * Group sidechain turns by agent.
+ * Turns without an agent ID are grouped by the sidechain root they descend from.
+ */
+function groupSidechainTurns(turns: Turn[], tree: ConversationTree): AgentSidechain[] {
+  const sidechains = new Map<string, AgentSidechain>();
+
+  turns.forEach((turn, index) => {
+    if (!turn.isSidechain) return;
+
+    let key = turn.agentId;
+    if (!key) {
+      let root = index;
+      for (let parent = tree.parents[root]; parent !== null && turns[parent].isSidechain; parent = tree.parents[parent]) {
+        root = parent;
+      }
+      key = turns[root].agentId ?? `sidechain-${root}`;
+    }
+
+    let sidechain = sidechains.get(key);
+    if (!sidechain) {
+      sidechain = { agentId: key, spawnTurnIndex: null, turnIndices: [] };
+      sidechains.set(key, sidechain);
+    }
+    sidechain.turnIndices.push(index);
+  });
+
+  return Array.from(sidechains.values());
+}
+
+/**
+ * Find each sub-agent's sidechain and the tool call that spawned it.
+ *
+ * The spawning call is matched by the agent ID in its result, then by the
+ * Task prompt matching the sidechain's first message, then by the nearest
+ * earlier Task call. Sidechains with no Task call at all hang off the
+ * nearest earlier main turn.
+ *
+ * @returns Sidechains ordered by their first turn
+ */
+export function getAgentSidechains(conversation: Conversation, tree: ConversationTree): AgentSidechain[] {
+  const { turns } = conversation;
+  const sidechains = groupSidechainTurns(turns, tree);
+  if (sidechains.length === 0) return [];
+
+  const calls = collectAgentToolCalls(turns);
+  const agentByToolUse = collectSpawnedAgents(turns);
+  const claimed = new Set<string>();
+
+  for (const sidechain of sidechains) {
+    const first = sidechain.turnIndices[0];
+    const prompt = getTurnText(turns[first]);
+    const unclaimed = calls.filter(call => !claimed.has(call.id));
+
+    const call = unclaimed.find(c => agentByToolUse.get(c.id) === sidechain.agentId)
+      ?? (prompt ? unclaimed.find(c => c.prompt === prompt) : undefined)
+      ?? unclaimed.filter(c => c.turnIndex < first && !agentByToolUse.has(c.id)).pop();
+
+    if (call) {
+      claimed.add(call.id);
+      sidechain.spawnTurnIndex = call.turnIndex;
+      sidechain.toolUseId = call.id;
+      continue;
+    }
+
+    for (let index = first - 1; index >= 0; index--) {
+      if (!turns[index].isSidechain) {
+        sidechain.spawnTurnIndex = index;
+        break;
+      }
+    }
+  }
+
+  return sidechains;
+}
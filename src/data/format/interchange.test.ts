@@ -0,0 +1,146 @@
+/**
+ * Tests for the thinking-tracer interchange format
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TRACER_FORMAT,
+  TRACER_FORMAT_VERSION,
+  tracerSchema,
+  toTracerDocument,
+  isTracerDocument,
+  validateTracerDocument,
+} from './interchange';
+import { claudeCodeParser } from '../parsers/claude-code';
+import { openaiParser } from '../parsers/openai';
+import { parserRegistry } from '../parsers';
+import type { Conversation } from '../types';
+
+const claudeCodeJsonl = [
+  '{"type":"summary","summary":"Fix the build","leafUuid":"a2"}',
+  '{"type":"user","uuid":"u1","sessionId":"s1","timestamp":"2025-01-01T00:00:00.000Z","cwd":"/repo","gitBranch":"main","message":{"role":"user","content":"Fix the build"}}',
+  '{"type":"assistant","uuid":"a1","parentUuid":"u1","timestamp":"2025-01-01T00:00:02.000Z","requestId":"req_1","message":{"role":"assistant","model":"claude-sonnet-4","content":[{"type":"thinking","thinking":"Check the logs","signature":"sig"},{"type":"tool_use","id":"t1","name":"Bash","input":{"command":"npm run build"}}],"stop_reason":"tool_use","usage":{"input_tokens":10,"output_tokens":20,"cache_read_input_tokens":100}}}',
+  '{"type":"user","uuid":"u2","parentUuid":"a1","timestamp":"2025-01-01T00:00:05.000Z","message":{"role":"user","content":[{"type":"tool_result","tool_use_id":"t1","content":"error TS2304","is_error":true}]}}',
+  'not json',
+  '{"type":"assistant","uuid":"a2","parentUuid":"u2","timestamp":"2025-01-01T00:00:07.000Z","isSidechain":true,"agentId":"agent-1","message":{"role":"assistant","model":"claude-sonnet-4","content":[{"type":"text","text":"Fixed."}],"stop_reason":"end_turn","usage":{"input_tokens":5,"output_tokens":3}}}',
+].join('\n');
+
+function roundTrip(conversation: Conversation): unknown {
+  return JSON.parse(JSON.stringify(toTracerDocument(conversation)));
+}
+
+describe('toTracerDocument', () => {
+  it('wraps the conversation with the format marker and version', () => {
+    const conversation: Conversation = { meta: { title: 'Hi' }, turns: [] };
+    const doc = toTracerDocument(conversation);
+
+    expect(doc.format).toBe(TRACER_FORMAT);
+    expect(doc.version).toBe(TRACER_FORMAT_VERSION);
+    expect(doc.$schema).toBe(tracerSchema.$id);
+    expect(doc.conversation).toEqual({ meta: { title: 'Hi' }, turns: [] });
+  });
+
+  it('includes entries and diagnostics only when the conversation has them', () => {
+    expect(toTracerDocument({ meta: {}, turns: [] }).conversation).toEqual({ meta: {}, turns: [] });
+
+    const doc = toTracerDocument({ meta: {}, turns: [], entries: [{ type: 'summary', summary: 'S' }], diagnostics: [] });
+    expect(doc.conversation.entries).toEqual([{ type: 'summary', summary: 'S' }]);
+    expect(doc.conversation.diagnostics).toEqual([]);
+  });
+
+  it('produces documents that match the schema', () => {
+    const claudeCode = claudeCodeParser.parse(claudeCodeJsonl);
+    expect(claudeCode.diagnostics?.length).toBeGreaterThan(0);
+    expect(validateTracerDocument(roundTrip(claudeCode))).toEqual([]);
+
+    const openai = openaiParser.parse({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: [{ type: 'text', text: 'Weather?' }, { type: 'image_url', image_url: { url: 'https://example.com/a.png' } }] },
+        { role: 'assistant', content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }] },
+        { role: 'tool', tool_call_id: 'c1', content: 'Rain' },
+      ],
+    });
+    expect(validateTracerDocument(roundTrip(openai))).toEqual([]);
+  });
+
+  it('re-imports exported entries of types the viewer does not know', () => {
+    const jsonl = `${claudeCodeJsonl}\n{"type":"custom-title","customTitle":"Build fix","sessionId":"s1"}`;
+    const conversation = claudeCodeParser.parse(jsonl);
+    expect(conversation.diagnostics?.some(d => d.kind === 'unknown-entry-type')).toBe(true);
+
+    const exported = JSON.stringify(toTracerDocument(conversation));
+    expect(validateTracerDocument(JSON.parse(exported))).toEqual([]);
+
+    const reimported = parserRegistry.parseContent(exported);
+    expect(reimported.sourceId).toBe('thinking-tracer');
+    expect(reimported.conversation.entries?.at(-1)).toEqual(conversation.entries?.at(-1));
+    expect(reimported.conversation.turns).toEqual(conversation.turns);
+  });
+});
+
+describe('isTracerDocument', () => {
+  it('recognises the format marker regardless of version', () => {
+    expect(isTracerDocument({ format: 'thinking-tracer', version: 2 })).toBe(true);
+    expect(isTracerDocument({ format: 'other' })).toBe(false);
+    expect(isTracerDocument([{ format: 'thinking-tracer' }])).toBe(false);
+    expect(isTracerDocument('thinking-tracer')).toBe(false);
+  });
+});
+
+describe('validateTracerDocument', () => {
+  it('reports schema errors with JSON paths', () => {
+    const errors = validateTracerDocument({
+      format: 'thinking-tracer',
+      version: 1,
+      conversation: {
+        meta: { title: 3 },
+        turns: [
+          { id: 't0', role: 'user', content: [{ type: 'text', text: 'hi' }] },
+          { id: 't1', role: 'robot', content: [{ type: 'tool_use', id: 'x', name: 'Bash' }] },
+        ],
+      },
+    });
+
+    expect(errors).toEqual([
+      { path: '$.conversation.meta.title', message: 'must be string, got integer' },
+      { path: '$.conversation.turns[1].role', message: 'must be one of "user", "assistant", "system"' },
+      { path: '$.conversation.turns[1].content[0]', message: 'missing required property "input"' },
+    ]);
+  });
+
+  it('rejects other versions and unknown top-level fields', () => {
+    const errors = validateTracerDocument({
+      format: 'thinking-tracer',
+      version: 2,
+      conversation: { meta: {}, turns: [] },
+      extra: true,
+    });
+
+    expect(errors).toEqual([
+      { path: '$.version', message: 'must be 1' },
+      { path: '$.extra', message: 'unknown property' },
+    ]);
+  });
+
+  it('accepts nested tool result content and raw entry records', () => {
+    const errors = validateTracerDocument({
+      format: 'thinking-tracer',
+      version: 1,
+      conversation: {
+        meta: { source: 'my-agent', total_usage: { input_tokens: 1, output_tokens: 2 } },
+        turns: [
+          {
+            id: 't0',
+            role: 'user',
+            content: [{ type: 'tool_result', tool_use_id: 'x', content: [{ type: 'text', text: 'ok' }] }],
+          },
+        ],
+        entries: [{ type: 'user', uuid: 't0', rawMessage: { anything: ['goes', 1, null] } }],
+      },
+    });
+
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Canonical interchange format
+ *
+ * A versioned JSON document that wraps a Conversation exactly as the viewer
+ * models it. Any loaded trace can be exported to it, and other tools can
+ * convert into it once instead of needing a dedicated parser here.
+ * The structure is described by thinking-tracer-v1.schema.json (see FORMAT.md).
+ */
+
+import type { Conversation } from '../types';
+import schema from './thinking-tracer-v1.schema.json';
+import { validateSchema, type JsonSchema, type SchemaError } from './json-schema';
+
+/** Value of the document's "format" field */
+export const TRACER_FORMAT = 'thinking-tracer';
+
+/** Current format version; bumped on incompatible changes */
+export const TRACER_FORMAT_VERSION = 1;
+
+/** Published JSON Schema for the current version */
+export const tracerSchema = schema as JsonSchema;
+
+/** A thinking-tracer interchange document */
+export interface TracerDocument {
+  /** Optional schema URL for editor support */
+  $schema?: string;
+  format: typeof TRACER_FORMAT;
+  version: number;
+  conversation: Conversation;
+}
+
+/**
+ * Wrap a conversation in an interchange document
+ */
+export function toTracerDocument(conversation: Conversation): TracerDocument {
+  const { meta, turns, entries, diagnostics } = conversation;
+  return {
+    $schema: schema.$id,
+    format: TRACER_FORMAT,
+    version: TRACER_FORMAT_VERSION,
+    conversation: {
+      meta,
+      turns,
+      ...(entries ? { entries } : {}),
+      ...(diagnostics ? { diagnostics } : {}),
+    },
+  };
+}
+
+/**
+ * Check whether data declares itself an interchange document
+ * (of any version; use validateTracerDocument to check the contents)
+ */
+export function isTracerDocument(data: unknown): boolean {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    !Array.isArray(data) &&
+    (data as Record<string, unknown>).format === TRACER_FORMAT
+  );
+}
+
+/**
+ * Validate an interchange document against the schema
+ * @returns Errors with JSONPath locations (empty when valid)
+ */
+export function validateTracerDocument(data: unknown): SchemaError[] {
+  return validateSchema(tracerSchema, data);
+}
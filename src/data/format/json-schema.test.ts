@@ -0,0 +1,101 @@
+/**
+ * Tests for the minimal JSON Schema validator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateSchema, formatSchemaErrors, type JsonSchema } from './json-schema';
+
+const blockSchema: JsonSchema = {
+  type: 'object',
+  required: ['blocks'],
+  properties: {
+    blocks: { type: 'array', items: { $ref: '#/$defs/block' } },
+    count: { type: 'integer', minimum: 0 },
+    'odd key': { type: 'string' },
+  },
+  additionalProperties: false,
+  $defs: {
+    block: {
+      oneOf: [{ $ref: '#/$defs/text' }, { $ref: '#/$defs/image' }],
+    },
+    text: {
+      type: 'object',
+      required: ['type', 'text'],
+      properties: { type: { const: 'text' }, text: { type: 'string' } },
+      additionalProperties: false,
+    },
+    image: {
+      type: 'object',
+      required: ['type', 'source'],
+      properties: {
+        type: { const: 'image' },
+        source: { enum: ['base64', 'url'] },
+      },
+      additionalProperties: false,
+    },
+  },
+};
+
+describe('validateSchema', () => {
+  it('accepts matching data', () => {
+    const data = { blocks: [{ type: 'text', text: 'hi' }, { type: 'image', source: 'url' }], count: 2 };
+    expect(validateSchema(blockSchema, data)).toEqual([]);
+  });
+
+  it('reports type mismatches with the value path', () => {
+    expect(validateSchema(blockSchema, { blocks: 'nope' })).toEqual([
+      { path: '$.blocks', message: 'must be array, got string' },
+    ]);
+  });
+
+  it('reports missing required and unknown properties', () => {
+    expect(validateSchema(blockSchema, { extra: true })).toEqual([
+      { path: '$', message: 'missing required property "blocks"' },
+      { path: '$.extra', message: 'unknown property' },
+    ]);
+  });
+
+  it('distinguishes integers and checks minimums', () => {
+    expect(validateSchema(blockSchema, { blocks: [], count: 1.5 })).toEqual([
+      { path: '$.count', message: 'must be integer, got number' },
+    ]);
+    expect(validateSchema(blockSchema, { blocks: [], count: -1 })).toEqual([
+      { path: '$.count', message: 'must be >= 0' },
+    ]);
+  });
+
+  it('reports errors from the oneOf branch the block type names', () => {
+    const data = { blocks: [{ type: 'text', text: 'ok' }, { type: 'text', text: 3 }] };
+    expect(validateSchema(blockSchema, data)).toEqual([
+      { path: '$.blocks[1].text', message: 'must be string, got integer' },
+    ]);
+  });
+
+  it('lists the allowed shapes for an unknown block type', () => {
+    const errors = validateSchema(blockSchema, { blocks: [{ type: 'video' }] });
+    expect(errors).toEqual([
+      { path: '$.blocks[0]', message: 'must be a text block or a image block' },
+    ]);
+  });
+
+  it('checks enums and brackets property names that are not identifiers', () => {
+    expect(validateSchema(blockSchema, { blocks: [{ type: 'image', source: 'file' }] })).toEqual([
+      { path: '$.blocks[0].source', message: 'must be one of "base64", "url"' },
+    ]);
+    expect(validateSchema(blockSchema, { blocks: [], 'odd key': 1 })).toEqual([
+      { path: '$["odd key"]', message: 'must be string, got integer' },
+    ]);
+  });
+
+  it('throws on references it cannot resolve', () => {
+    expect(() => validateSchema({ $ref: '#/$defs/missing' }, {})).toThrow('Unresolvable schema reference');
+  });
+});
+
+describe('formatSchemaErrors', () => {
+  it('formats one error per line and truncates long lists', () => {
+    const errors = Array.from({ length: 7 }, (_, i) => ({ path: `$.a[${i}]`, message: 'bad' }));
+    const text = formatSchemaErrors(errors, 2);
+    expect(text).toBe('$.a[0]: bad\n$.a[1]: bad\n...and 5 more');
+  });
+});
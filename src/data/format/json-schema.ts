@@ -0,0 +1,220 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Interprets the subset of JSON Schema (draft 2020-12) used by the
+ * interchange format schema: local $ref, type, const, enum, required,
+ * properties, additionalProperties, items, minimum and oneOf. Errors are
+ * reported with JSONPath locations (e.g. $.conversation.turns[3].role)
+ * so converter authors can find the offending value.
+ */
+
+/** The JSON Schema keywords this validator understands */
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  oneOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/** A value that does not match the schema */
+export interface SchemaError {
+  /** JSONPath of the value, e.g. $.conversation.turns[0].content[1] */
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate data against a schema, returning every error found
+ * (an empty array means the data is valid)
+ */
+export function validateSchema(schema: JsonSchema, data: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(schema, data, '$', schema, errors);
+  return errors;
+}
+
+/**
+ * Format errors as one line each ("path: message"), keeping at most limit
+ */
+export function formatSchemaErrors(errors: SchemaError[], limit = 5): string {
+  const lines = errors.slice(0, limit).map((e) => `${e.path}: ${e.message}`);
+  if (errors.length > limit) {
+    lines.push(`...and ${errors.length - limit} more`);
+  }
+  return lines.join('\n');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/** Append a property name to a JSONPath, bracketing names that are not identifiers */
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const match = /^#\/\$defs\/(.+)$/.exec(ref);
+  const resolved = match ? root.$defs?.[match[1]] : undefined;
+  if (!resolved) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return resolved;
+}
+
+function describe(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+/** Short description of what a schema accepts, for oneOf failures */
+function expectation(schema: JsonSchema, root: JsonSchema): string {
+  const target = schema.$ref ? resolveRef(root, schema.$ref) : schema;
+  const typeConst = target.properties?.type?.const;
+  if (typeof typeConst === 'string') return `a ${typeConst} block`;
+  if (target.type) return Array.isArray(target.type) ? target.type.join(' or ') : target.type;
+  if (target.const !== undefined) return describe(target.const);
+  return 'a matching value';
+}
+
+function validateNode(
+  schema: JsonSchema,
+  data: unknown,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[]
+): void {
+  if (schema.$ref) {
+    validateNode(resolveRef(root, schema.$ref), data, path, root, errors);
+    return;
+  }
+
+  if (schema.const !== undefined && data !== schema.const) {
+    errors.push({ path, message: `must be ${describe(schema.const)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(data)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map(describe).join(', ')}` });
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(data, t))) {
+      errors.push({ path, message: `must be ${types.join(' or ')}, got ${typeOf(data)}` });
+      return;
+    }
+  }
+
+  if (schema.oneOf) {
+    validateOneOf(schema.oneOf, data, path, root, errors);
+    return;
+  }
+
+  if (typeof data === 'number' && schema.minimum !== undefined && data < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+
+  if (Array.isArray(data) && schema.items) {
+    data.forEach((item, i) => validateNode(schema.items!, item, `${path}[${i}]`, root, errors));
+  }
+
+  if (isObject(data)) {
+    validateObject(schema, data, path, root, errors);
+  }
+}
+
+function validateObject(
+  schema: JsonSchema,
+  data: Record<string, unknown>,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[]
+): void {
+  for (const key of schema.required ?? []) {
+    if (!(key in data)) {
+      errors.push({ path, message: `missing required property "${key}"` });
+    }
+  }
+
+  const properties = schema.properties ?? {};
+  for (const [key, value] of Object.entries(data)) {
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      validateNode(propertySchema, value, childPath(path, key), root, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: childPath(path, key), message: 'unknown property' });
+    } else if (isObject(schema.additionalProperties)) {
+      validateNode(schema.additionalProperties, value, childPath(path, key), root, errors);
+    }
+  }
+}
+
+/**
+ * oneOf: exactly one branch must match. When the branches are objects
+ * discriminated by a "type" const (content blocks), errors come from the
+ * branch the value names, which reads far better than every branch's errors.
+ */
+function validateOneOf(
+  branches: JsonSchema[],
+  data: unknown,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaError[]
+): void {
+  const results = branches.map((branch) => {
+    const branchErrors: SchemaError[] = [];
+    validateNode(branch, data, path, root, branchErrors);
+    return branchErrors;
+  });
+
+  const matched = results.filter((r) => r.length === 0).length;
+  if (matched === 1) return;
+  if (matched > 1) {
+    errors.push({ path, message: 'matches more than one allowed shape' });
+    return;
+  }
+
+  if (isObject(data) && typeof data.type === 'string') {
+    const index = branches.findIndex((branch) => {
+      const target = branch.$ref ? resolveRef(root, branch.$ref) : branch;
+      return target.properties?.type?.const === data.type;
+    });
+    if (index >= 0) {
+      errors.push(...results[index]);
+      return;
+    }
+  }
+
+  const expected = branches.map((branch) => expectation(branch, root));
+  errors.push({ path, message: `must be ${expected.join(' or ')}` });
+}
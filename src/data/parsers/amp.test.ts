@@ -0,0 +1,242 @@
+/**
+ * Tests for Amp thread parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ampParser, parseToolRun, parseUsage, scoreAmpThread } from './amp';
+import { parserRegistry } from './index';
+import { buildClusters, calculateClusterMetrics, extractSearchableContent } from '../../core/clusters';
+import { arrangeClusters, buildConversationTree } from '../../core/tree';
+
+const usage = (timestamp: string, inputTokens: number, outputTokens: number) => ({
+  model: 'claude-sonnet-4-20250514',
+  inputTokens,
+  outputTokens,
+  cacheReadInputTokens: 1000,
+  cacheCreationInputTokens: 0,
+  timestamp: `2025-08-01T10:00:${timestamp}.000Z`,
+});
+
+/** A thread that runs a build, asks a sub-agent and the oracle, then answers */
+const thread = {
+  v: 42,
+  id: 'T-5928a90d-d53b-488f-a829-4e36442142ee',
+  created: Date.parse('2025-08-01T10:00:00.000Z'),
+  title: 'Fix the build',
+  env: {
+    initial: {
+      trees: [{
+        displayName: 'app',
+        uri: 'file:///home/me/app',
+        repository: { type: 'git', url: 'https://github.com/me/app', ref: 'refs/heads/main' },
+      }],
+    },
+  },
+  messages: [
+    {
+      role: 'user',
+      messageId: 0,
+      content: [{ type: 'text', text: 'Why is the build failing?' }],
+      meta: { sentAt: Date.parse('2025-08-01T10:00:00.000Z') },
+    },
+    {
+      role: 'assistant',
+      messageId: 1,
+      content: [
+        { type: 'thinking', thinking: 'Run the build first.', signature: 'sig' },
+        { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { cmd: 'npm run build' } },
+      ],
+      state: { type: 'complete', stopReason: 'tool_use' },
+      usage: usage('02', 10, 50),
+    },
+    {
+      role: 'user',
+      messageId: 2,
+      content: [{ type: 'tool_result', toolUseID: 'toolu_1', run: { status: 'done', result: { output: 'error TS2322', exitCode: 2 } } }],
+      meta: { sentAt: Date.parse('2025-08-01T10:00:05.000Z') },
+    },
+    {
+      role: 'assistant',
+      messageId: 3,
+      content: [
+        { type: 'tool_use', id: 'toolu_2', name: 'Task', input: { description: 'Find usages', prompt: 'Find callers of parse()' } },
+        { type: 'tool_use', id: 'toolu_3', name: 'oracle', input: { task: 'Explain TS2322 here' } },
+      ],
+      state: { type: 'complete', stopReason: 'tool_use' },
+      usage: usage('07', 20, 30),
+    },
+    {
+      role: 'user',
+      messageId: 4,
+      content: [
+        {
+          type: 'tool_result',
+          toolUseID: 'toolu_2',
+          run: {
+            status: 'done',
+            result: 'parse() is called from main.ts.',
+            progress: [
+              {
+                role: 'assistant',
+                content: [{ type: 'tool_use', id: 'toolu_s1', name: 'Grep', input: { pattern: 'parse\\(' } }],
+              },
+              {
+                role: 'user',
+                content: [{ type: 'tool_result', toolUseID: 'toolu_s1', run: { status: 'done', result: 'main.ts:3' } }],
+              },
+              {
+                role: 'assistant',
+                content: [{ type: 'text', text: 'parse() is called from main.ts.' }],
+              },
+            ],
+          },
+        },
+        { type: 'tool_result', toolUseID: 'toolu_3', run: { status: 'done', result: 'Widen the return type.' } },
+      ],
+    },
+    {
+      role: 'assistant',
+      messageId: 5,
+      content: [{ type: 'text', text: 'The return type of parse() is too narrow.' }],
+      state: { type: 'complete', stopReason: 'end_turn' },
+      usage: usage('12', 30, 40),
+    },
+  ],
+};
+
+describe('ampParser', () => {
+  describe('canParse', () => {
+    it('accepts Amp threads and their JSON text', () => {
+      expect(ampParser.canParse(thread)).toBe(true);
+      expect(ampParser.canParse({ ...thread, id: undefined })).toBe(true);
+      expect(ampParser.canParse(JSON.stringify(thread))).toBe(true);
+    });
+
+    it('rejects text and other JSON', () => {
+      expect(ampParser.canParse('not json')).toBe(false);
+      expect(ampParser.canParse({ messages: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }] })).toBe(false);
+      expect(ampParser.canParse({ model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] })).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    const conversation = ampParser.parse(thread);
+    const main = conversation.turns.filter(t => !t.isSidechain);
+
+    it('maps messages to turns with thinking, tool calls and results', () => {
+      expect(main.map(t => t.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user', 'assistant']);
+      expect(main[1].content).toEqual([
+        { type: 'thinking', thinking: 'Run the build first.', signature: 'sig' },
+        { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { cmd: 'npm run build' } },
+      ]);
+      expect(main[2].content[0]).toEqual({
+        type: 'tool_result', tool_use_id: 'toolu_1', content: 'error TS2322', is_error: true,
+      });
+      expect(main[1].stopReason).toBe('tool_use');
+    });
+
+    it('links main turns past the sidechains', () => {
+      expect(main[0].parentId).toBeUndefined();
+      expect(main[5].parentId).toBe(main[4].id);
+    });
+
+    it('maps sub-agent and oracle calls to sidechains', () => {
+      const task = conversation.turns.filter(t => t.agentId === 'Task-toolu_2');
+      expect(task.map(t => t.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+      expect(task.every(t => t.isSidechain)).toBe(true);
+      expect(task[0].content).toEqual([{ type: 'text', text: 'Find callers of parse()' }]);
+      expect(task[0].parentId).toBeUndefined();
+      expect(task[1].parentId).toBe(task[0].id);
+
+      const oracle = conversation.turns.filter(t => t.agentId === 'oracle-toolu_3');
+      expect(oracle.map(t => t.content)).toEqual([
+        [{ type: 'text', text: 'Explain TS2322 here' }],
+        [{ type: 'text', text: 'Widen the return type.' }],
+      ]);
+
+      expect(main[4].spawnedAgentId).toBe('Task-toolu_2');
+      expect(conversation.meta.agentIds).toEqual(['Task-toolu_2', 'oracle-toolu_3']);
+    });
+
+    it('places each sidechain after the cluster that spawned it', () => {
+      const arrangement = arrangeClusters(conversation, buildConversationTree(conversation));
+      expect(arrangement.agents.map(a => [a.agentId, a.spawnClusterIndex])).toEqual([
+        ['Task-toolu_2', 0],
+        ['oracle-toolu_3', 0],
+      ]);
+    });
+
+    it('builds metadata from the thread', () => {
+      expect(conversation.meta).toMatchObject({
+        id: 'T-5928a90d-d53b-488f-a829-4e36442142ee',
+        title: 'Fix the build',
+        source: 'amp',
+        model: 'claude-sonnet-4-20250514',
+        cwd: '/home/me/app',
+        git_branch: 'main',
+        created_at: '2025-08-01T10:00:00.000Z',
+        duration_ms: 12000,
+      });
+      expect(conversation.meta.total_usage?.input_tokens).toBe(60);
+      expect(conversation.entries).toHaveLength(conversation.turns.length);
+    });
+
+    it('groups the main thread into one cluster with every request counted', () => {
+      const clusters = buildClusters(conversation, undefined, conversation.turns.flatMap((t, i) => t.isSidechain ? [] : [i]));
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].toolCount).toBe(3);
+      expect(calculateClusterMetrics(clusters)[0].outputTokens).toBe(120);
+
+      const searchable = extractSearchableContent(clusters, conversation.entries, conversation.meta.source);
+      expect(searchable[0].toolResults[0]).toMatchObject({ isError: true, durationMs: 3000 });
+    });
+
+    it('keeps failed requests as errors', () => {
+      const parsed = ampParser.parse({
+        ...thread,
+        messages: [thread.messages[0], { role: 'assistant', content: [], state: { type: 'error', error: { message: 'Overloaded' } } }],
+      });
+      expect(parsed.turns[1].error).toBe('Overloaded');
+      expect(parsed.meta.hasErrors).toBe(true);
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects threads as amp', () => {
+      const result = parserRegistry.parseContent(JSON.stringify(thread, null, 2));
+      expect(result.sourceId).toBe('amp');
+      expect(result.confidence).toBe(1);
+    });
+
+    it('detects threads without tools as amp', () => {
+      const result = parserRegistry.parseContent(JSON.stringify({ ...thread, messages: thread.messages.slice(0, 1) }));
+      expect(result.sourceId).toBe('amp');
+    });
+  });
+});
+
+describe('parseToolRun', () => {
+  it('reports failed, cancelled and rejected runs as errors', () => {
+    expect(parseToolRun({ status: 'error', error: { message: 'ENOENT' } })).toEqual({ content: 'ENOENT', isError: true });
+    expect(parseToolRun({ status: 'rejected-by-user' })).toEqual({ content: 'Tool run rejected-by-user', isError: true });
+  });
+
+  it('serialises structured results', () => {
+    expect(parseToolRun({ status: 'done', result: { files: ['a.ts'] } }).content).toBe('{\n  "files": [\n    "a.ts"\n  ]\n}');
+  });
+});
+
+describe('parseUsage', () => {
+  it('returns undefined without counts', () => {
+    expect(parseUsage(undefined)).toBeUndefined();
+    expect(parseUsage({ model: 'x', inputTokens: 0, outputTokens: 0 })).toBeUndefined();
+  });
+});
+
+describe('scoreAmpThread', () => {
+  it('needs a thread id or Amp message fields', () => {
+    expect(scoreAmpThread({ id: 'T-1', messages: [] })).toBe(1);
+    expect(scoreAmpThread({ messages: [{ role: 'user', messageId: 0, content: [] }] })).toBe(1);
+    expect(scoreAmpThread({ messages: [{ role: 'user', content: [] }] })).toBe(0);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Parser for exported Amp threads (JSON)
+ *
+ * Amp stores each thread as one JSON document:
+ * - `id` (`T-…`), `created` (Unix ms), `title` and the initial environment
+ *   (`env.initial.trees`: workspace folders with their git repository)
+ * - `messages`: user and assistant messages with Anthropic-style content
+ *   blocks. Assistant messages carry `usage` and a completion `state`; tool
+ *   results are user-message blocks `{ toolUseID, run: { status, result } }`.
+ *
+ * Sub-agent calls (`Task`, the `oracle` and the search agents) run a
+ * separate thread. Each becomes a sidechain of turns tagged with an agentId:
+ * the prompt, the sub-agent's messages when the run recorded them in
+ * `run.progress`, and its final answer.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  Turn,
+  ContentBlock,
+  TraceParser,
+  TokenUsage,
+  Entry,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { toJsonDocument, turnToEntry } from './shared';
+
+/** A turn plus the raw message it came from */
+interface PendingTurn {
+  turn: Omit<Turn, 'id' | 'parentId'>;
+  raw: Record<string, unknown>;
+}
+
+/** A tool run result reduced to text */
+interface ToolRunOutput {
+  content: string;
+  isError: boolean;
+}
+
+/** Tools that run a sub-agent thread */
+const SUB_AGENT_TOOLS = new Set(['Task', 'oracle', 'codebase_search_agent', 'librarian']);
+
+/** Input fields holding a sub-agent's prompt, in order of preference */
+const SUB_AGENT_PROMPT_FIELDS = ['prompt', 'task', 'query'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value looks like a thread message
+ */
+function isThreadMessage(value: unknown): value is Record<string, unknown> & { content: unknown[] } {
+  return isObject(value) && (value.role === 'user' || value.role === 'assistant') && Array.isArray(value.content);
+}
+
+/**
+ * Score data as an Amp thread (0–1).
+ * The `T-` thread id is unambiguous; otherwise Amp's own message fields
+ * (`messageId`, tool results keyed by `toolUseID`) have to be present.
+ */
+function scoreAmpThread(raw: unknown): number {
+  const data = toJsonDocument(raw);
+  if (!isObject(data) || !Array.isArray(data.messages) || !data.messages.every(isThreadMessage)) return 0;
+
+  if (typeof data.id === 'string' && data.id.startsWith('T-')) return 1;
+
+  const hasAmpFields = data.messages.some(message =>
+    'messageId' in message ||
+    message.content.some(block => isObject(block) && block.type === 'tool_result' && 'toolUseID' in block));
+  return hasAmpFields ? 1 : 0;
+}
+
+/**
+ * Convert a Unix time in milliseconds to an ISO timestamp
+ */
+function toIsoTimestamp(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return new Date(value).toISOString();
+}
+
+/**
+ * Convert Amp usage to TokenUsage.
+ * Amp reports Anthropic-style counts: input tokens exclude cache reads and writes.
+ */
+function parseUsage(usage: unknown): TokenUsage | undefined {
+  if (!isObject(usage)) return undefined;
+
+  const count = (key: string) => (typeof usage[key] === 'number' ? usage[key] as number : 0);
+  const input = count('inputTokens');
+  const output = count('outputTokens');
+  if (input <= 0 && output <= 0) return undefined;
+
+  const result: TokenUsage = { input_tokens: input, output_tokens: output };
+  if (count('cacheReadInputTokens') > 0) result.cache_read_input_tokens = count('cacheReadInputTokens');
+  if (count('cacheCreationInputTokens') > 0) result.cache_creation_input_tokens = count('cacheCreationInputTokens');
+  return result;
+}
+
+/**
+ * Reduce a tool run to text and an error flag.
+ * Runs that errored, were cancelled or were rejected are errors; shell
+ * results (`{ output, exitCode }`) are errors on a non-zero exit.
+ */
+function parseToolRun(run: unknown): ToolRunOutput {
+  if (!isObject(run)) return { content: '', isError: false };
+
+  const status = typeof run.status === 'string' ? run.status : 'done';
+  if (status !== 'done') {
+    const error = isObject(run.error) ? run.error.message : run.error;
+    return { content: typeof error === 'string' && error ? error : `Tool run ${status}`, isError: true };
+  }
+
+  const { result } = run;
+  if (typeof result === 'string') return { content: result, isError: false };
+  if (isObject(result) && typeof result.output === 'string') {
+    const exitCode = result.exitCode ?? result.exit_code;
+    return { content: result.output, isError: typeof exitCode === 'number' && exitCode !== 0 };
+  }
+  if (isObject(result) && typeof result.content === 'string') return { content: result.content, isError: false };
+  if (result === undefined || result === null) return { content: '', isError: false };
+  return { content: JSON.stringify(result, null, 2), isError: false };
+}
+
+/**
+ * Parse Amp content blocks into ContentBlocks.
+ * Tool results are returned with their run reduced to text.
+ */
+function parseContent(blocks: unknown[]): ContentBlock[] {
+  const content: ContentBlock[] = [];
+
+  for (const block of blocks) {
+    if (!isObject(block)) continue;
+
+    switch (block.type) {
+      case 'text':
+        if (typeof block.text === 'string' && block.text) content.push({ type: 'text', text: block.text });
+        break;
+
+      case 'thinking':
+        if (typeof block.thinking === 'string' && block.thinking) {
+          content.push({
+            type: 'thinking',
+            thinking: block.thinking,
+            ...(typeof block.signature === 'string' ? { signature: block.signature } : {}),
+          });
+        }
+        break;
+
+      case 'redacted_thinking':
+        content.push({ type: 'thinking', thinking: '', redacted: true });
+        break;
+
+      case 'tool_use':
+        content.push({
+          type: 'tool_use',
+          id: String(block.id ?? ''),
+          name: String(block.name ?? 'unknown'),
+          input: isObject(block.input) ? block.input : {},
+        });
+        break;
+
+      case 'tool_result': {
+        const { content: output, isError } = parseToolRun(block.run);
+        content.push({
+          type: 'tool_result',
+          tool_use_id: String(block.toolUseID ?? block.tool_use_id ?? ''),
+          content: output,
+          ...(isError ? { is_error: true } : {}),
+        });
+        break;
+      }
+
+      case 'image': {
+        const source = isObject(block.source) ? block.source : {};
+        content.push({
+          type: 'image',
+          source: source.type === 'url'
+            ? { type: 'url', url: String(source.url ?? '') }
+            : {
+              type: 'base64',
+              media_type: String(source.mediaType ?? source.media_type ?? 'image/png'),
+              data: String(source.data ?? ''),
+            },
+        });
+        break;
+      }
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Convert a thread message into a turn (null for empty user messages)
+ */
+function messageToTurn(message: Record<string, unknown> & { content: unknown[] }): Omit<Turn, 'id' | 'parentId'> | null {
+  const content = parseContent(message.content);
+
+  if (message.role === 'user') {
+    if (content.length === 0) return null;
+    const meta = isObject(message.meta) ? message.meta : {};
+    return { role: 'user', content, timestamp: toIsoTimestamp(meta.sentAt) };
+  }
+
+  const usage = isObject(message.usage) ? message.usage : undefined;
+  const state = isObject(message.state) ? message.state : {};
+  const turn: Omit<Turn, 'id' | 'parentId'> = {
+    role: 'assistant',
+    content,
+    timestamp: toIsoTimestamp(usage?.timestamp),
+    model: typeof usage?.model === 'string' ? usage.model : undefined,
+    usage: parseUsage(usage),
+  };
+  if (typeof state.stopReason === 'string') turn.stopReason = state.stopReason;
+  if (state.type === 'error') {
+    const error = isObject(state.error) ? state.error.message : state.error;
+    turn.error = typeof error === 'string' && error ? error : 'Request failed';
+  }
+  return turn;
+}
+
+/**
+ * Get the prompt a sub-agent was started with
+ */
+function getSubAgentPrompt(input: Record<string, unknown>): string | undefined {
+  for (const field of SUB_AGENT_PROMPT_FIELDS) {
+    const value = input[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Build the sidechain turns of a sub-agent call.
+ * `run.progress` holds the sub-agent's messages, or (for runs that only
+ * streamed content) bare assistant content blocks; the final answer is
+ * added when the recorded messages don't end with one.
+ */
+function subAgentTurns(
+  toolUse: Record<string, unknown>,
+  run: unknown,
+  agentId: string
+): PendingTurn[] {
+  const pending: PendingTurn[] = [];
+  const push = (turn: Omit<Turn, 'id' | 'parentId'>, raw: Record<string, unknown>) =>
+    pending.push({ turn: { ...turn, isSidechain: true, agentId }, raw });
+
+  const prompt = getSubAgentPrompt(isObject(toolUse.input) ? toolUse.input : {});
+  if (prompt) push({ role: 'user', content: [{ type: 'text', text: prompt }] }, toolUse);
+
+  const progress = isObject(run) && Array.isArray(run.progress) ? run.progress : [];
+  if (progress.every(isThreadMessage)) {
+    for (const message of progress) {
+      const turn = messageToTurn(message);
+      if (turn) push(turn, message);
+    }
+  } else {
+    const content = parseContent(progress);
+    if (content.length > 0) push({ role: 'assistant', content }, { progress });
+  }
+
+  const last = pending[pending.length - 1]?.turn;
+  const hasAnswer = last?.role === 'assistant' && last.content.some(block => block.type === 'text');
+  const { content, isError } = parseToolRun(run);
+  if (!hasAnswer && content && !isError) {
+    push({ role: 'assistant', content: [{ type: 'text', text: content }] }, isObject(run) ? run : {});
+  }
+
+  return pending;
+}
+
+/**
+ * Convert thread messages into pending turns.
+ * The sidechain of each sub-agent call follows the message holding its result.
+ */
+function threadToTurns(messages: unknown[]): PendingTurn[] {
+  const pending: PendingTurn[] = [];
+  const subAgentCalls = new Map<string, Record<string, unknown>>();
+
+  for (const message of messages) {
+    if (!isThreadMessage(message)) continue;
+
+    const turn = messageToTurn(message);
+    if (!turn) continue;
+
+    if (turn.role === 'assistant') {
+      for (const block of message.content) {
+        if (isObject(block) && block.type === 'tool_use' && typeof block.id === 'string' &&
+            typeof block.name === 'string' && SUB_AGENT_TOOLS.has(block.name)) {
+          subAgentCalls.set(block.id, block);
+        }
+      }
+      pending.push({ turn, raw: message });
+      continue;
+    }
+
+    const sidechains: PendingTurn[] = [];
+    message.content.forEach((block, index) => {
+      if (!isObject(block) || block.type !== 'tool_result') return;
+      const toolUse = subAgentCalls.get(String(block.toolUseID ?? ''));
+      if (!toolUse) return;
+
+      const agentId = `${toolUse.name}-${toolUse.id}`;
+      // Turn.spawnedAgentId is matched against the turn's first tool result
+      if (index === 0) turn.spawnedAgentId = agentId;
+      sidechains.push(...subAgentTurns(toolUse, block.run, agentId));
+    });
+
+    pending.push({ turn, raw: message }, ...sidechains);
+  }
+
+  return pending;
+}
+
+/**
+ * Read the workspace folder and git branch from the thread's initial environment
+ */
+function readEnvironment(env: unknown): { cwd?: string; gitBranch?: string } {
+  const initial = isObject(env) && isObject(env.initial) ? env.initial : {};
+  const tree = Array.isArray(initial.trees) ? initial.trees.find(isObject) : undefined;
+  if (!tree) return {};
+
+  const uri = typeof tree.uri === 'string' ? tree.uri : undefined;
+  const ref = isObject(tree.repository) && typeof tree.repository.ref === 'string' ? tree.repository.ref : undefined;
+  return {
+    cwd: uri?.startsWith('file://') ? decodeURIComponent(uri.slice('file://'.length)) : uri,
+    gitBranch: ref?.replace(/^refs\/heads\//, ''),
+  };
+}
+
+/**
+ * Amp thread parser
+ */
+export const ampParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return scoreAmpThread(data) > 0;
+  },
+
+  score(data: unknown): number {
+    return scoreAmpThread(data);
+  },
+
+  parse(data: unknown): Conversation {
+    const document = toJsonDocument(data);
+    const thread = isObject(document) ? document : {};
+    const pending = threadToTurns(Array.isArray(thread.messages) ? thread.messages : []);
+
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+    // Main turns and each sidechain form their own chain
+    const lastTurnId = new Map<string, string>();
+
+    pending.forEach(({ turn: partial, raw }, index) => {
+      const chain = partial.agentId ?? '';
+      const turn: Turn = {
+        ...partial,
+        id: `amp-${index}`,
+        parentId: lastTurnId.get(chain),
+      };
+      turns.push(turn);
+      entries.push(turnToEntry(turn, raw));
+      lastTurnId.set(chain, turn.id);
+    });
+
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t);
+    const firstTimestamp = toIsoTimestamp(thread.created) ?? timestamps[0];
+    const lastTimestamp = timestamps[timestamps.length - 1] ?? firstTimestamp;
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const duration = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+      if (!isNaN(duration)) durationMs = duration;
+    }
+
+    const id = typeof thread.id === 'string' ? thread.id : undefined;
+    const { cwd, gitBranch } = readEnvironment(thread.env);
+
+    const meta: ConversationMeta = {
+      id,
+      title: typeof thread.title === 'string' && thread.title ? thread.title : 'Amp Thread',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model: turns.find(t => t.model && !t.isSidechain)?.model ?? turns.find(t => t.model)?.model,
+      source: 'amp',
+      cwd,
+      git_branch: gitBranch,
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+};
+
+// Export helper functions for testing
+export { parseContent, parseToolRun, parseUsage, scoreAmpThread, threadToTurns };
+
+export default ampParser;
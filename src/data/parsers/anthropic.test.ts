@@ -0,0 +1,247 @@
+/**
+ * Tests for Anthropic Messages API transcript parser
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  anthropicApiParser,
+  parseApiContentBlock,
+  parseApiResponse,
+  extractRequestId,
+  toRecord,
+} from './anthropic';
+import { parserRegistry } from './index';
+import { buildClusters } from '../../core/clusters';
+
+const firstResponse = {
+  id: 'msg_01ABCDEFGHIJ',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-20250514',
+  content: [
+    { type: 'thinking', thinking: 'Check the file first.', signature: 'sig-1' },
+    { type: 'redacted_thinking', data: 'opaque' },
+    { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.txt' } },
+  ],
+  stop_reason: 'tool_use',
+  usage: { input_tokens: 100, output_tokens: 40, cache_read_input_tokens: 10, cache_creation_input_tokens: 5 },
+};
+
+const secondResponse = {
+  id: 'msg_02',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-20250514',
+  content: [{ type: 'text', text: 'The file says hello.' }],
+  stop_reason: 'end_turn',
+  usage: { input_tokens: 150, output_tokens: 10 },
+};
+
+const firstMessages = [{ role: 'user', content: 'Read a.txt' }];
+
+const secondMessages = [
+  ...firstMessages,
+  { role: 'assistant', content: firstResponse.content },
+  {
+    role: 'user',
+    content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'hello' }] }],
+  },
+];
+
+const transcript = [
+  JSON.stringify({
+    timestamp: '2025-01-01T00:00:00Z',
+    request_id: 'req_1',
+    request: { model: 'claude-sonnet-4-20250514', system: 'Be brief.', messages: firstMessages },
+    response: firstResponse,
+  }),
+  JSON.stringify({
+    timestamp: '2025-01-01T00:00:04Z',
+    headers: { 'request-id': 'req_2' },
+    request: { model: 'claude-sonnet-4-20250514', system: 'Be brief.', messages: secondMessages },
+    response: secondResponse,
+  }),
+].join('\n');
+
+describe('anthropicApiParser', () => {
+  describe('canParse', () => {
+    it('accepts JSONL request/response captures', () => {
+      expect(anthropicApiParser.canParse(transcript)).toBe(true);
+    });
+
+    it('accepts a bare response', () => {
+      expect(anthropicApiParser.canParse(firstResponse)).toBe(true);
+      expect(anthropicApiParser.canParse(JSON.stringify(firstResponse))).toBe(true);
+    });
+
+    it('accepts a bare messages array', () => {
+      expect(anthropicApiParser.canParse(secondMessages)).toBe(true);
+    });
+
+    it('rejects OpenAI requests', () => {
+      expect(anthropicApiParser.canParse({ model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] })).toBe(false);
+      expect(anthropicApiParser.canParse({ messages: [{ role: 'system', content: 'hi' }] })).toBe(false);
+    });
+
+    it('rejects Claude Code JSONL and garbage', () => {
+      expect(anthropicApiParser.canParse('{"type":"user","uuid":"1","message":{"role":"user","content":"hi"}}')).toBe(false);
+      expect(anthropicApiParser.canParse('')).toBe(false);
+      expect(anthropicApiParser.canParse(null)).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    const conversation = anthropicApiParser.parse(transcript);
+
+    it('does not duplicate history repeated in later requests', () => {
+      expect(conversation.turns.map(t => t.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant']);
+    });
+
+    it('fills usage, stop reason and request id', () => {
+      const turn = conversation.turns[2];
+      expect(turn.usage).toEqual({
+        input_tokens: 100,
+        output_tokens: 40,
+        cache_read_input_tokens: 10,
+        cache_creation_input_tokens: 5,
+      });
+      expect(turn.stopReason).toBe('tool_use');
+      expect(turn.requestId).toBe('req_1');
+      expect(conversation.turns[4].requestId).toBe('req_2');
+    });
+
+    it('keeps thinking signatures and redacted thinking', () => {
+      const [thinking, redacted] = conversation.turns[2].content;
+      expect(thinking).toEqual({ type: 'thinking', thinking: 'Check the file first.', redacted: false, signature: 'sig-1' });
+      expect(redacted).toEqual({ type: 'thinking', thinking: '', redacted: true });
+    });
+
+    it('flattens array tool_result content', () => {
+      expect(conversation.turns[3].content[0]).toEqual({
+        type: 'tool_result',
+        tool_use_id: 'toolu_1',
+        content: 'hello',
+        is_error: false,
+      });
+    });
+
+    it('keeps images returned in tool_result content', () => {
+      const image = { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } };
+      const result = anthropicApiParser.parse([
+        { role: 'user', content: 'Take a screenshot' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_2', name: 'screenshot', input: {} }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_2', content: [image] }] },
+      ]);
+
+      expect(result.turns[2].content).toEqual([
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: '[image]', is_error: false },
+        image,
+      ]);
+    });
+
+    it('builds total usage and metadata', () => {
+      expect(conversation.meta.source).toBe('anthropic-api');
+      expect(conversation.meta.model).toBe('claude-sonnet-4-20250514');
+      expect(conversation.meta.id).toBe('msg_01ABCDEFGHIJ');
+      expect(conversation.meta.total_usage).toEqual({
+        input_tokens: 250,
+        output_tokens: 50,
+        cache_read_input_tokens: 10,
+        cache_creation_input_tokens: 5,
+      });
+      expect(conversation.meta.duration_ms).toBe(4000);
+    });
+
+    it('groups tool results into a single cluster', () => {
+      const clusters = buildClusters(conversation);
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].thinkingCount).toBe(2);
+      expect(clusters[0].stopReason).toBe('tool_use');
+    });
+
+    it('parses a bare messages array', () => {
+      const result = anthropicApiParser.parse(secondMessages);
+      expect(result.turns).toHaveLength(3);
+    });
+  });
+
+  describe('score', () => {
+    it('scores captured responses as a full match', () => {
+      expect(anthropicApiParser.score!(transcript)).toBe(1);
+    });
+
+    it('samples the first JSONL records without reading the rest', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const records = Array.from({ length: 60 }, () => transcript.split('\n')[0]);
+      expect(anthropicApiParser.score!([...records, 'not json'].join('\n'))).toBe(1);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('scores plain-text messages without a model as ambiguous', () => {
+      expect(anthropicApiParser.score!([{ role: 'user', content: 'hi' }])).toBe(0.6);
+    });
+
+    it('accepts messages saved with response fields', () => {
+      expect(anthropicApiParser.score!({
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'hi' }] },
+          { id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-sonnet-4', stop_reason: 'end_turn', content: [{ type: 'text', text: 'hello' }] },
+        ],
+      })).toBe(1);
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects Messages API captures', () => {
+      expect(parserRegistry.detectAndParse(transcript).sourceId).toBe('anthropic-api');
+    });
+
+    it('reports lower confidence for plain-text transcripts', () => {
+      const result = parserRegistry.detectAndParse(JSON.stringify({ messages: [{ role: 'user', content: 'hi' }] }));
+      expect(result.sourceId).toBe('anthropic-api');
+      expect(result.confidence).toBe(0.6);
+    });
+
+    it('detects single-line bare responses instead of claude-code', () => {
+      expect(parserRegistry.detectAndParse(JSON.stringify(firstResponse)).sourceId).toBe('anthropic-api');
+    });
+  });
+});
+
+describe('parseApiContentBlock', () => {
+  it('maps server tool use and web search results', () => {
+    expect(parseApiContentBlock({ type: 'server_tool_use', id: 'srv_1', name: 'web_search', input: { query: 'x' } }))
+      .toEqual({ type: 'tool_use', id: 'srv_1', name: 'web_search', input: { query: 'x' } });
+
+    const result = parseApiContentBlock({
+      type: 'web_search_tool_result',
+      tool_use_id: 'srv_1',
+      content: [{ type: 'web_search_result', title: 'Example', url: 'https://example.com' }],
+    });
+    expect(result).toMatchObject({ type: 'tool_result', content: 'Example - https://example.com', is_error: false });
+  });
+});
+
+describe('parseApiResponse', () => {
+  it('turns error responses into error turns', () => {
+    const turn = parseApiResponse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, 'req_x');
+    expect(turn?.error).toBe('Overloaded');
+    expect(turn?.isApiErrorMessage).toBe(true);
+    expect(turn?.requestId).toBe('req_x');
+  });
+});
+
+describe('extractRequestId', () => {
+  it('reads request ids from fields and headers', () => {
+    expect(extractRequestId({ request_id: 'a' })).toBe('a');
+    expect(extractRequestId({ response_headers: { 'request-id': 'b' } })).toBe('b');
+    expect(extractRequestId({})).toBeUndefined();
+  });
+});
+
+describe('toRecord', () => {
+  it('returns null for unrelated objects', () => {
+    expect(toRecord({ name: 'x' })).toBeNull();
+  });
+});
@@ -0,0 +1,437 @@
+/**
+ * Parser for raw Anthropic Messages API transcripts (JSON or JSONL)
+ *
+ * Accepts captured API traffic in any of these shapes:
+ * - `{ request, response }` wrappers written by logging proxies
+ * - Bare requests (`{ model, messages, system? }`)
+ * - Bare responses (`{ type: 'message', role: 'assistant', content, usage }`)
+ * - A bare `messages` array
+ *
+ * Requests repeat the full history, so only messages not already seen in an
+ * earlier record are turned into new turns.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  Turn,
+  ContentBlock,
+  TraceParser,
+  Entry,
+} from '../types';
+import {
+  parseContentBlock,
+  flattenToolResultContent,
+  toolResultImages,
+  parseAssistantMessage,
+  computeTotalUsage,
+  extractMeta,
+} from './claude-code';
+import { parseJsonText, turnToEntry } from './shared';
+
+/** A normalised capture record: optional request and response bodies */
+interface AnthropicRecord {
+  request?: Record<string, unknown>;
+  response?: Record<string, unknown>;
+  requestId?: string;
+  timestamp?: string;
+}
+
+/** A turn plus the raw message it came from */
+interface PendingTurn {
+  turn: Omit<Turn, 'id'>;
+  raw: Record<string, unknown>;
+  timestamp?: string;
+}
+
+/** Number of records sampled when scoring */
+const SCORE_SAMPLE_RECORDS = 50;
+
+/** Content block types that identify Messages API payloads */
+const ANTHROPIC_BLOCK_TYPES = new Set([
+  'text',
+  'thinking',
+  'redacted_thinking',
+  'tool_use',
+  'tool_result',
+  'server_tool_use',
+  'web_search_tool_result',
+  'image',
+  'document',
+]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a Messages API content block.
+ * Extends the Claude Code block parser with API-only block types.
+ */
+function parseApiContentBlock(raw: unknown): ContentBlock | null {
+  if (!isObject(raw)) return parseContentBlock(raw);
+
+  switch (raw.type) {
+    case 'redacted_thinking':
+      return { type: 'thinking', thinking: '', redacted: true };
+
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        tool_use_id: String(raw.tool_use_id || ''),
+        content: flattenToolResultContent(raw.content),
+        is_error: raw.is_error === true,
+      };
+
+    case 'server_tool_use':
+      return {
+        type: 'tool_use',
+        id: String(raw.id || ''),
+        name: String(raw.name || ''),
+        input: isObject(raw.input) ? raw.input : {},
+      };
+
+    case 'web_search_tool_result': {
+      const content = raw.content;
+      const isError = isObject(content) && content.type === 'web_search_tool_result_error';
+      return {
+        type: 'tool_result',
+        tool_use_id: String(raw.tool_use_id || ''),
+        content: Array.isArray(content)
+          ? content
+              .filter(isObject)
+              .map(r => [r.title, r.url].filter(Boolean).join(' - '))
+              .join('\n')
+          : JSON.stringify(content ?? ''),
+        is_error: isError,
+      };
+    }
+
+    case 'document':
+      return {
+        type: 'document',
+        source: raw.source as Extract<ContentBlock, { type: 'document' }>['source'],
+        ...(typeof raw.title === 'string' ? { title: raw.title } : {}),
+        ...(typeof raw.context === 'string' ? { context: raw.context } : {}),
+      };
+
+    default:
+      return parseContentBlock(raw);
+  }
+}
+
+/**
+ * Parse message content (string or array of blocks)
+ */
+function parseApiContent(content: unknown): ContentBlock[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  const blocks: ContentBlock[] = [];
+  for (const raw of content) {
+    const block = parseApiContentBlock(raw);
+    if (block) blocks.push(block, ...toolResultImages(raw));
+  }
+  return blocks;
+}
+
+/**
+ * Convert a request message ({ role, content }) into a turn
+ */
+function parseApiMessage(message: Record<string, unknown>): Omit<Turn, 'id'> | null {
+  if (message.role !== 'user' && message.role !== 'assistant') return null;
+  return { role: message.role, content: parseApiContent(message.content) };
+}
+
+/**
+ * Convert a response body into an assistant turn with usage and stop reason
+ */
+function parseApiResponse(response: Record<string, unknown>, requestId?: string): Omit<Turn, 'id'> | null {
+  if (response.type === 'error') {
+    const error = isObject(response.error) ? String(response.error.message ?? response.error.type ?? '') : 'error';
+    return { role: 'assistant', content: [], error, isApiErrorMessage: true, requestId };
+  }
+
+  const parsed = parseAssistantMessage({ ...response, content: [] }, 'assistant');
+  if (!parsed) return null;
+
+  const turn: Omit<Turn, 'id'> = {
+    role: 'assistant',
+    content: parseApiContent(response.content),
+    model: parsed.model,
+    usage: parsed.usage,
+    stopReason: parsed.stopReason,
+  };
+
+  // Fall back to the SDK's `_request_id` when no header was captured
+  const id = requestId ?? (typeof response._request_id === 'string' ? response._request_id : undefined);
+  if (id) turn.requestId = id;
+
+  return turn;
+}
+
+/**
+ * Extract a request id from a capture wrapper (`request_id` or response headers)
+ */
+function extractRequestId(raw: Record<string, unknown>): string | undefined {
+  for (const key of ['request_id', 'requestId']) {
+    if (typeof raw[key] === 'string') return raw[key] as string;
+  }
+  const headers = isObject(raw.headers) ? raw.headers
+    : isObject(raw.response_headers) ? raw.response_headers
+    : undefined;
+  const header = headers?.['request-id'] ?? headers?.['x-request-id'];
+  return typeof header === 'string' ? header : undefined;
+}
+
+/**
+ * Normalise a raw capture into request/response bodies
+ */
+function toRecord(raw: unknown): AnthropicRecord | null {
+  if (Array.isArray(raw)) {
+    // A bare messages array
+    return { request: { messages: raw } };
+  }
+  if (!isObject(raw)) return null;
+
+  const timestamp = typeof raw.timestamp === 'string' ? raw.timestamp : undefined;
+
+  if (isObject(raw.request) || isObject(raw.response)) {
+    return {
+      request: isObject(raw.request) ? raw.request : undefined,
+      response: isObject(raw.response) ? raw.response : undefined,
+      requestId: extractRequestId(raw),
+      timestamp,
+    };
+  }
+
+  if ((raw.type === 'message' && raw.role === 'assistant') || raw.type === 'error') {
+    return { response: raw, requestId: extractRequestId(raw), timestamp };
+  }
+
+  if (Array.isArray(raw.messages)) {
+    return { request: raw, timestamp };
+  }
+
+  return null;
+}
+
+/**
+ * Check that a message looks like a Messages API message
+ */
+function isApiMessage(message: unknown): boolean {
+  if (!isObject(message)) return false;
+  if (message.role !== 'user' && message.role !== 'assistant') return false;
+  if (typeof message.content === 'string') return true;
+  return Array.isArray(message.content) &&
+    message.content.every(b => isObject(b) && typeof b.type === 'string' && ANTHROPIC_BLOCK_TYPES.has(b.type));
+}
+
+/**
+ * Score a raw value as an Anthropic Messages API capture (0–1).
+ * Responses and structured content blocks are unambiguous; plain-text
+ * messages are shared with other chat APIs and score lower.
+ */
+function scoreAnthropicRecord(raw: unknown): number {
+  const record = toRecord(raw);
+  if (!record) return 0;
+
+  const { request, response } = record;
+  if (response) {
+    if (response.type === 'message' && response.role === 'assistant' && Array.isArray(response.content)) {
+      return 1;
+    }
+    if (response.type === 'error' && isObject(response.error)) return 0.9;
+    if (!request) return 0;
+  }
+
+  if (!request || !Array.isArray(request.messages) || request.messages.length === 0) return 0;
+
+  // Plain text messages are shared with other providers; trust the model name if present
+  const isClaudeModel = typeof request.model === 'string' && /claude/i.test(request.model);
+  if (typeof request.model === 'string' && !isClaudeModel) return 0;
+
+  // OpenAI-only roles or content parts rule the format out
+  if (!request.messages.every(isApiMessage)) return 0;
+
+  const hasBlocks = request.messages.some(m => isObject(m) && Array.isArray(m.content));
+  if (hasBlocks) return 1;
+  return isClaudeModel ? 0.9 : 0.6;
+}
+
+/**
+ * Check whether a raw value is an Anthropic Messages API capture
+ */
+function isAnthropicRecord(raw: unknown): boolean {
+  return scoreAnthropicRecord(raw) > 0;
+}
+
+/**
+ * Split raw input (JSON string, JSONL string, object or array) into raw records
+ * @param maxLines Stop reading JSONL after this many lines (for detection)
+ */
+function toRawRecords(data: unknown, maxLines = Infinity): unknown[] {
+  if (Array.isArray(data)) {
+    // A bare messages array is a single record; otherwise an array of captures
+    return data.length > 0 && isApiMessage(data[0]) ? [data] : data;
+  }
+  if (typeof data !== 'string') return [data];
+
+  const text = data.trim();
+  if (!text) return [];
+
+  try {
+    return toRawRecords(parseJsonText(data));
+  } catch {
+    // Fall through to JSONL
+  }
+
+  const records: unknown[] = [];
+  // split() treats an Infinity limit as 0
+  for (const line of maxLines === Infinity ? text.split('\n') : text.split('\n', maxLines)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      records.push(JSON.parse(trimmed));
+    } catch {
+      // Detection samples arbitrary text, so only warn when parsing
+      if (maxLines === Infinity) console.warn('Skipping invalid JSON line');
+    }
+  }
+  return records;
+}
+
+/**
+ * Convert capture records into ordered pending turns, skipping repeated history
+ */
+function recordsToTurns(records: AnthropicRecord[]): PendingTurn[] {
+  const result: PendingTurn[] = [];
+  let seen = 0;
+
+  for (const record of records) {
+    const messages = Array.isArray(record.request?.messages) ? record.request.messages : [];
+    const start = messages.length < seen ? 0 : seen;
+
+    // System prompt only needs to appear once per conversation
+    if (start === 0 && record.request?.system !== undefined) {
+      const system = parseApiContent(record.request.system);
+      if (system.length > 0) {
+        result.push({ turn: { role: 'system', content: system }, raw: { system: record.request.system }, timestamp: record.timestamp });
+      }
+    }
+
+    for (const message of messages.slice(start)) {
+      if (!isObject(message)) continue;
+      const turn = parseApiMessage(message);
+      if (turn) result.push({ turn, raw: message, timestamp: record.timestamp });
+    }
+
+    let responseCount = 0;
+    if (record.response) {
+      const turn = parseApiResponse(record.response, record.requestId);
+      if (turn) {
+        result.push({ turn, raw: record.response, timestamp: record.timestamp });
+        responseCount = 1;
+      }
+    }
+
+    seen = messages.length + responseCount;
+  }
+
+  return result;
+}
+
+/**
+ * Anthropic Messages API transcript parser
+ */
+export const anthropicApiParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    if (typeof data === 'string') {
+      const text = data.trim();
+      if (!text) return false;
+      try {
+        const parsed = parseJsonText(data);
+        return anthropicApiParser.canParse(parsed);
+      } catch {
+        try {
+          return isAnthropicRecord(JSON.parse(text.split('\n', 1)[0]));
+        } catch {
+          return false;
+        }
+      }
+    }
+
+    if (Array.isArray(data)) {
+      if (data.length === 0) return false;
+      return isApiMessage(data[0]) ? isAnthropicRecord(data) : isAnthropicRecord(data[0]);
+    }
+
+    return isAnthropicRecord(data);
+  },
+
+  score(data: unknown): number {
+    const records = toRawRecords(data, SCORE_SAMPLE_RECORDS).slice(0, SCORE_SAMPLE_RECORDS);
+    if (records.length === 0) return 0;
+    return records.reduce<number>((sum, raw) => sum + scoreAnthropicRecord(raw), 0) / records.length;
+  },
+
+  parse(data: unknown): Conversation {
+    const records = toRawRecords(data)
+      .map(toRecord)
+      .filter((r): r is AnthropicRecord => r !== null);
+
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+    let parentId: string | undefined;
+
+    recordsToTurns(records).forEach(({ turn: partial, raw, timestamp }, index) => {
+      const turn: Turn = {
+        ...partial,
+        id: typeof raw.id === 'string' && partial.role === 'assistant' ? raw.id : `anthropic-${index}`,
+        timestamp,
+        parentId,
+      };
+      turns.push(turn);
+      entries.push(turnToEntry(turn, raw));
+      parentId = turn.id;
+    });
+
+    const firstRequest = records.find(r => r.request)?.request;
+    const firstResponse = records.find(r => typeof r.response?.id === 'string')?.response;
+    const firstResponseId = firstResponse?.id as string | undefined;
+
+    const model = turns.find(t => t.model)?.model
+      ?? (typeof firstRequest?.model === 'string' ? firstRequest.model : undefined);
+
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t);
+    const firstTimestamp = timestamps[0];
+    const lastTimestamp = timestamps[timestamps.length - 1];
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const start = new Date(firstTimestamp).getTime();
+      const end = new Date(lastTimestamp).getTime();
+      if (!isNaN(start) && !isNaN(end)) durationMs = end - start;
+    }
+
+    const meta: ConversationMeta = {
+      id: firstResponseId,
+      title: firstResponseId ? `Session ${firstResponseId.slice(0, 12)}...` : 'Anthropic API Session',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model,
+      source: 'anthropic-api',
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+};
+
+// Export helper functions for testing
+export { parseApiContent, parseApiContentBlock, parseApiResponse, extractRequestId, toRecord, recordsToTurns };
+
+export default anthropicApiParser;
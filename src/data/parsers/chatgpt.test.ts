@@ -0,0 +1,208 @@
+/**
+ * Tests for ChatGPT export parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chatgptParser, parseContent, orderNodes, listExportedConversations } from './chatgpt';
+import { parserRegistry } from './index';
+import { buildConversationTree, getBranches, getMainPath } from '../../core/tree';
+
+function node(id: string, parent: string | null, children: string[], message: Record<string, unknown> | null) {
+  return { id, parent, children, message: message && { id, ...message } };
+}
+
+function text(role: string, value: string, extra: Record<string, unknown> = {}) {
+  return {
+    author: { role },
+    create_time: 1717200000,
+    content: { content_type: 'text', parts: [value] },
+    ...extra,
+  };
+}
+
+/**
+ * A conversation whose answer was regenerated: a1 was replaced by a2,
+ * and the follow-up continued from a2
+ */
+const regenerated = {
+  title: 'Sorting help',
+  create_time: 1717200000,
+  update_time: 1717300000,
+  conversation_id: 'conv-1',
+  default_model_slug: 'gpt-4o',
+  current_node: 'a3',
+  mapping: {
+    root: node('root', null, ['sys'], null),
+    sys: node('sys', 'root', ['u1'], {
+      ...text('system', ''),
+      metadata: { is_visually_hidden_from_conversation: true },
+    }),
+    u1: node('u1', 'sys', ['a1', 'a2'], text('user', 'How do I sort a list?')),
+    a1: node('a1', 'u1', [], text('assistant', 'Use sorted().', { metadata: { model_slug: 'gpt-4o' } })),
+    a2: node('a2', 'u1', ['u2'], text('assistant', 'Call list.sort().', { metadata: { model_slug: 'gpt-4o' } })),
+    u2: node('u2', 'a2', ['a3'], text('user', 'In reverse?')),
+    a3: node('a3', 'u2', [], text('assistant', 'Pass reverse=True.')),
+  },
+};
+
+/** A conversation with reasoning and a code interpreter round trip */
+const withTools = {
+  title: 'Math',
+  create_time: 1717000000,
+  update_time: 1717000100,
+  conversation_id: 'conv-2',
+  current_node: 'a2',
+  mapping: {
+    u1: node('u1', null, ['t1'], text('user', 'What is 2**100?')),
+    t1: node('t1', 'u1', ['r1'], {
+      author: { role: 'assistant' },
+      content: { content_type: 'thoughts', thoughts: [{ summary: 'Compute', content: 'Use Python.' }] },
+    }),
+    r1: node('r1', 't1', ['c1'], {
+      author: { role: 'assistant' },
+      content: { content_type: 'reasoning_recap', content: 'Thought for 2s' },
+    }),
+    c1: node('c1', 'r1', ['o1'], {
+      author: { role: 'assistant' },
+      recipient: 'python',
+      content: { content_type: 'code', language: 'unknown', text: 'print(2**100)' },
+    }),
+    o1: node('o1', 'c1', ['a2'], {
+      author: { role: 'tool', name: 'python' },
+      content: { content_type: 'execution_output', text: '1267650600228229401496703205376' },
+    }),
+    a2: node('a2', 'o1', [], text('assistant', 'It is 1267650600228229401496703205376.')),
+  },
+};
+
+describe('chatgptParser', () => {
+  describe('canParse', () => {
+    it('accepts an export array and a single conversation', () => {
+      expect(chatgptParser.canParse([regenerated, withTools])).toBe(true);
+      expect(chatgptParser.canParse(regenerated)).toBe(true);
+    });
+
+    it('rejects text and other JSON', () => {
+      expect(chatgptParser.canParse(JSON.stringify([regenerated]))).toBe(false);
+      expect(chatgptParser.canParse([])).toBe(false);
+      expect(chatgptParser.canParse({ model: 'gpt-4o', messages: [] })).toBe(false);
+    });
+  });
+
+  describe('parse - branches', () => {
+    const conversation = chatgptParser.parse(regenerated);
+
+    it('skips hidden and empty nodes and links turns through them', () => {
+      expect(conversation.turns.map(t => t.id)).toEqual(['u1', 'a1', 'a2', 'u2', 'a3']);
+      expect(conversation.turns[0].parentId).toBeUndefined();
+      expect(conversation.turns[1].parentId).toBe('u1');
+      expect(conversation.turns[2].parentId).toBe('u1');
+    });
+
+    it('makes the current_node branch the main path', () => {
+      const tree = buildConversationTree(conversation);
+      const mainPath = getMainPath(conversation, tree).map(i => conversation.turns[i].id);
+      expect(mainPath).toEqual(['u1', 'a2', 'u2', 'a3']);
+      expect(getBranches(conversation, tree)).toHaveLength(2);
+    });
+
+    it('builds metadata from the conversation', () => {
+      expect(conversation.meta).toMatchObject({
+        id: 'conv-1',
+        title: 'Sorting help',
+        source: 'chatgpt',
+        model: 'gpt-4o',
+        created_at: new Date(1717200000 * 1000).toISOString(),
+      });
+      expect(conversation.turns[1].model).toBe('gpt-4o');
+    });
+  });
+
+  describe('parse - tools and reasoning', () => {
+    const conversation = chatgptParser.parse(withTools);
+
+    it('maps thoughts, tool calls and tool output', () => {
+      expect(conversation.turns.map(t => t.role)).toEqual(['user', 'assistant', 'assistant', 'user', 'assistant']);
+      expect(conversation.turns[1].content).toEqual([{ type: 'thinking', thinking: 'Compute\n\nUse Python.' }]);
+      expect(conversation.turns[2].content[0]).toEqual({
+        type: 'tool_use', id: 'c1', name: 'python', input: { code: 'print(2**100)' },
+      });
+      expect(conversation.turns[3].content[0]).toEqual({
+        type: 'tool_result', tool_use_id: 'c1', content: '1267650600228229401496703205376',
+      });
+    });
+  });
+
+  describe('multiple conversations', () => {
+    const data = [withTools, regenerated];
+
+    it('lists conversations most recently updated first', () => {
+      expect(chatgptParser.listConversations!(data)).toEqual([
+        { id: 'conv-1', title: 'Sorting help', updated_at: new Date(1717300000 * 1000).toISOString() },
+        { id: 'conv-2', title: 'Math', updated_at: new Date(1717000100 * 1000).toISOString() },
+      ]);
+    });
+
+    it('parses the most recent conversation by default', () => {
+      expect(chatgptParser.parse(data).meta.id).toBe('conv-1');
+    });
+
+    it('parses the requested conversation', () => {
+      expect(chatgptParser.parse(data, { conversationId: 'conv-2' }).meta.title).toBe('Math');
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    const content = JSON.stringify([withTools, regenerated]);
+
+    it('detects exports and lists their conversations', () => {
+      const result = parserRegistry.parseContent(content);
+      expect(result.sourceId).toBe('chatgpt');
+      expect(result.conversations?.map(c => c.id)).toEqual(['conv-1', 'conv-2']);
+    });
+
+    it('parses the requested conversation', () => {
+      expect(parserRegistry.parseContent(content, undefined, 'conv-2').conversation.meta.id).toBe('conv-2');
+      expect(parserRegistry.parseContent(content, 'chatgpt', 'conv-2').conversation.meta.id).toBe('conv-2');
+    });
+
+    it('omits the list for a single conversation', () => {
+      expect(parserRegistry.parseContent(JSON.stringify([regenerated])).conversations).toBeUndefined();
+    });
+  });
+});
+
+describe('parseContent', () => {
+  it('maps image pointers to file documents', () => {
+    const blocks = parseContent({
+      content_type: 'multimodal_text',
+      parts: [{ content_type: 'image_asset_pointer', asset_pointer: 'file-service://file-abc' }, 'What is this?'],
+    });
+    expect(blocks).toEqual([
+      { type: 'document', source: { type: 'file', file_id: 'file-abc' }, title: 'Image' },
+      { type: 'text', text: 'What is this?' },
+    ]);
+  });
+
+  it('drops reasoning recaps', () => {
+    expect(parseContent({ content_type: 'reasoning_recap', content: 'Thought for 3s' })).toEqual([]);
+  });
+});
+
+describe('orderNodes', () => {
+  it('visits the current branch last at every fork', () => {
+    const nodes = new Map([
+      ['r', { id: 'r', message: null, parent: null, children: ['x', 'y', 'z'] }],
+      ['x', { id: 'x', message: null, parent: 'r', children: [] }],
+      ['y', { id: 'y', message: null, parent: 'r', children: [] }],
+      ['z', { id: 'z', message: null, parent: 'r', children: [] }],
+    ]);
+    expect(orderNodes(nodes, 'y')).toEqual(['r', 'x', 'z', 'y']);
+  });
+});
+
+describe('listExportedConversations', () => {
+  it('returns nothing for other data', () => {
+    expect(listExportedConversations({ messages: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Parser for ChatGPT data exports (conversations.json)
+ *
+ * The export holds an array of conversations. Each stores its messages as a
+ * `mapping` of nodes linked by `parent`/`children`; regenerated answers and
+ * edited prompts are sibling nodes, and `current_node` is the leaf of the
+ * branch last shown in ChatGPT.
+ *
+ * Every message becomes a turn whose parentId follows the tree, so alternate
+ * branches stay available. Turns are ordered so the `current_node` branch
+ * ends last and is therefore the default main path.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  ConversationSummary,
+  Turn,
+  ContentBlock,
+  TraceParser,
+  ParseOptions,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { turnToEntry } from './shared';
+
+/** A node of a conversation's `mapping` */
+interface MappingNode {
+  id: string;
+  message: Record<string, unknown> | null;
+  parent: string | null;
+  children: string[];
+}
+
+/** Recipient of assistant messages addressed to the user rather than a tool */
+const USER_RECIPIENT = 'all';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is an exported conversation
+ */
+function isExportedConversation(value: unknown): value is Record<string, unknown> & { mapping: Record<string, unknown> } {
+  return isObject(value) && isObject(value.mapping) &&
+    ('current_node' in value || 'conversation_id' in value || 'create_time' in value);
+}
+
+/**
+ * Get the exported conversations in data (an export array or a single conversation)
+ */
+function getExportedConversations(data: unknown): Array<Record<string, unknown> & { mapping: Record<string, unknown> }> {
+  if (isExportedConversation(data)) return [data];
+  if (!Array.isArray(data) || data.length === 0 || !data.every(isExportedConversation)) return [];
+  return data;
+}
+
+/**
+ * Convert a Unix time in seconds to an ISO timestamp
+ */
+function toIsoTimestamp(seconds: unknown): string | undefined {
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds)) return undefined;
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Get a conversation's identifier
+ */
+function getConversationId(conversation: Record<string, unknown>, index: number): string {
+  const id = conversation.conversation_id ?? conversation.id;
+  return typeof id === 'string' ? id : String(index);
+}
+
+/**
+ * Summarise the conversations in an export, most recently updated first
+ */
+function listExportedConversations(data: unknown): ConversationSummary[] {
+  return getExportedConversations(data)
+    .map((conversation, index) => ({
+      summary: {
+        id: getConversationId(conversation, index),
+        title: typeof conversation.title === 'string' && conversation.title ? conversation.title : 'Untitled',
+        updated_at: toIsoTimestamp(conversation.update_time ?? conversation.create_time),
+      },
+      time: typeof conversation.update_time === 'number' ? conversation.update_time : -Infinity,
+    }))
+    .sort((a, b) => b.time - a.time)
+    .map(({ summary }) => summary);
+}
+
+/**
+ * Read a conversation's mapping into nodes
+ */
+function readMapping(mapping: Record<string, unknown>): Map<string, MappingNode> {
+  const nodes = new Map<string, MappingNode>();
+  for (const [key, raw] of Object.entries(mapping)) {
+    if (!isObject(raw)) continue;
+    nodes.set(key, {
+      id: typeof raw.id === 'string' ? raw.id : key,
+      message: isObject(raw.message) ? raw.message : null,
+      parent: typeof raw.parent === 'string' ? raw.parent : null,
+      children: Array.isArray(raw.children) ? raw.children.filter((c): c is string => typeof c === 'string') : [],
+    });
+  }
+  return nodes;
+}
+
+/**
+ * Order node ids depth-first, parents before children, visiting the branch
+ * leading to `current_node` last at every fork
+ */
+function orderNodes(nodes: Map<string, MappingNode>, currentNode: string | undefined): string[] {
+  const onCurrentPath = new Set<string>();
+  for (let id = currentNode; id && nodes.has(id) && !onCurrentPath.has(id); id = nodes.get(id)!.parent ?? undefined) {
+    onCurrentPath.add(id);
+  }
+
+  const roots = [...nodes.keys()].filter(id => {
+    const parent = nodes.get(id)!.parent;
+    return !parent || !nodes.has(parent);
+  });
+
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  // The stack pops the last pushed id first: push the current branch first so it is visited last
+  const pushChildren = (ids: string[]) => {
+    const current = ids.filter(id => onCurrentPath.has(id));
+    const others = ids.filter(id => !onCurrentPath.has(id)).reverse();
+    stack.push(...current, ...others);
+  };
+  pushChildren(roots);
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    const node = nodes.get(id);
+    if (!node || visited.has(id)) continue;
+    visited.add(id);
+    order.push(id);
+    pushChildren(node.children);
+  }
+
+  return order;
+}
+
+/**
+ * Get the text parts of message content
+ */
+function getTextParts(content: Record<string, unknown>): string[] {
+  if (!Array.isArray(content.parts)) return typeof content.text === 'string' ? [content.text] : [];
+  return content.parts.flatMap((part): string[] => {
+    if (typeof part === 'string') return [part];
+    if (isObject(part) && typeof part.text === 'string') return [part.text];
+    return [];
+  });
+}
+
+/**
+ * Convert message content into content blocks
+ */
+function parseContent(content: unknown): ContentBlock[] {
+  if (!isObject(content)) return [];
+
+  switch (content.content_type) {
+    case 'thoughts':
+      return (Array.isArray(content.thoughts) ? content.thoughts : [])
+        .filter(isObject)
+        .map((thought): ContentBlock => ({
+          type: 'thinking',
+          thinking: [thought.summary, thought.content].filter(s => typeof s === 'string' && s).join('\n\n'),
+        }));
+
+    case 'reasoning_recap':
+    case 'user_editable_context':
+    case 'model_editable_context':
+      // "Thought for 5s" labels and custom instructions aren't conversation content
+      return [];
+
+    case 'code': {
+      const text = typeof content.text === 'string' ? content.text : '';
+      const language = typeof content.language === 'string' && content.language !== 'unknown' ? content.language : '';
+      return text ? [{ type: 'text', text: `\`\`\`${language}\n${text}\n\`\`\`` }] : [];
+    }
+
+    case 'tether_quote': {
+      const text = [content.title, content.url, content.text].filter(s => typeof s === 'string' && s).join('\n\n');
+      return text ? [{ type: 'text', text }] : [];
+    }
+
+    case 'tether_browsing_display':
+      return typeof content.result === 'string' && content.result ? [{ type: 'text', text: content.result }] : [];
+  }
+
+  const blocks: ContentBlock[] = [];
+  const parts = Array.isArray(content.parts) ? content.parts : [content.text];
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      if (part) blocks.push({ type: 'text', text: part });
+    } else if (isObject(part) && part.content_type === 'image_asset_pointer' && typeof part.asset_pointer === 'string') {
+      // Images are separate files in the export archive
+      blocks.push({
+        type: 'document',
+        source: { type: 'file', file_id: part.asset_pointer.replace(/^[a-z-]+:\/\//, '') },
+        title: 'Image',
+      });
+    } else if (isObject(part) && typeof part.text === 'string' && part.text) {
+      blocks.push({ type: 'text', text: part.text });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Build the input of a tool call from the message addressed to the tool
+ */
+function parseToolInput(content: unknown): Record<string, unknown> {
+  if (!isObject(content)) return {};
+  const text = getTextParts(content).join('\n');
+
+  if (content.content_type === 'code') return { code: text };
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (isObject(parsed)) return parsed;
+  } catch {
+    // Tool commands are often plain text
+  }
+  return { input: text };
+}
+
+/**
+ * Find the tool call a tool message answers: the nearest ancestor addressed to a tool
+ */
+function findToolCall(nodes: Map<string, MappingNode>, node: MappingNode): string | undefined {
+  const visited = new Set<string>();
+  for (let id = node.parent; id && !visited.has(id); id = nodes.get(id)?.parent ?? null) {
+    visited.add(id);
+    const message = nodes.get(id)?.message;
+    if (!message || !isObject(message.author)) continue;
+    if (message.author.role === 'assistant' && typeof message.recipient === 'string' && message.recipient !== USER_RECIPIENT) {
+      return id;
+    }
+    if (message.author.role === 'user') return undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Convert a mapping node into a turn (null for nodes without visible content)
+ */
+function nodeToTurn(nodes: Map<string, MappingNode>, node: MappingNode): Omit<Turn, 'id' | 'parentId'> | null {
+  const message = node.message;
+  if (!message || !isObject(message.author)) return null;
+
+  const metadata = isObject(message.metadata) ? message.metadata : {};
+  if (metadata.is_visually_hidden_from_conversation) return null;
+
+  const timestamp = toIsoTimestamp(message.create_time);
+  const role = message.author.role;
+
+  if (role === 'assistant') {
+    const model = typeof metadata.model_slug === 'string' ? metadata.model_slug : undefined;
+    const finish = isObject(metadata.finish_details) && typeof metadata.finish_details.type === 'string'
+      ? metadata.finish_details.type
+      : undefined;
+    const recipient = typeof message.recipient === 'string' ? message.recipient : USER_RECIPIENT;
+
+    const content: ContentBlock[] = recipient === USER_RECIPIENT
+      ? parseContent(message.content)
+      : [{ type: 'tool_use', id: node.id, name: recipient, input: parseToolInput(message.content) }];
+    if (content.length === 0) return null;
+
+    return { role: 'assistant', content, timestamp, model, ...(finish ? { stopReason: finish } : {}) };
+  }
+
+  if (role === 'tool') {
+    const text = parseContent(message.content).map(b => (b.type === 'text' ? b.text : '')).join('\n');
+    const callId = findToolCall(nodes, node);
+    if (!callId) {
+      return text ? { role: 'system', content: [{ type: 'text', text }], timestamp } : null;
+    }
+    return { role: 'user', content: [{ type: 'tool_result', tool_use_id: callId, content: text }], timestamp };
+  }
+
+  const content = parseContent(message.content);
+  if (content.length === 0) return null;
+  return { role: role === 'user' ? 'user' : 'system', content, timestamp };
+}
+
+/**
+ * Convert one exported conversation into turns.
+ * Nodes without visible content are skipped; their children attach to the
+ * nearest ancestor that produced a turn.
+ */
+function conversationToTurns(conversation: Record<string, unknown> & { mapping: Record<string, unknown> }): Turn[] {
+  const nodes = readMapping(conversation.mapping);
+  const currentNode = typeof conversation.current_node === 'string' ? conversation.current_node : undefined;
+
+  const turns: Turn[] = [];
+  // Nearest turn-producing ancestor (or self) of each visited node
+  const turnIdOf = new Map<string, string | undefined>();
+
+  for (const id of orderNodes(nodes, currentNode)) {
+    const node = nodes.get(id)!;
+    const parentId = node.parent ? turnIdOf.get(node.parent) : undefined;
+    const partial = nodeToTurn(nodes, node);
+
+    if (partial) {
+      turns.push({ ...partial, id: node.id, parentId });
+      turnIdOf.set(id, node.id);
+    } else {
+      turnIdOf.set(id, parentId);
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * ChatGPT export parser
+ */
+export const chatgptParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return getExportedConversations(data).length > 0;
+  },
+
+  parse(data: unknown, options: ParseOptions = {}): Conversation {
+    const conversations = getExportedConversations(data);
+    const selectedId = options.conversationId ?? listExportedConversations(data)[0]?.id;
+    const index = Math.max(0, conversations.findIndex((c, i) => getConversationId(c, i) === selectedId));
+    const conversation = conversations[index];
+    if (!conversation) {
+      throw new Error('No conversations in ChatGPT export');
+    }
+
+    const turns = conversationToTurns(conversation);
+    const entries = turns.map(turn => turnToEntry(turn));
+
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t).sort();
+    const firstTimestamp = timestamps[0];
+    const lastTimestamp = timestamps[timestamps.length - 1];
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const duration = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+      if (!isNaN(duration)) durationMs = duration;
+    }
+
+    const meta: ConversationMeta = {
+      id: getConversationId(conversation, index),
+      title: typeof conversation.title === 'string' && conversation.title ? conversation.title : 'ChatGPT Conversation',
+      created_at: toIsoTimestamp(conversation.create_time) ?? firstTimestamp,
+      updated_at: toIsoTimestamp(conversation.update_time) ?? lastTimestamp,
+      model: typeof conversation.default_model_slug === 'string'
+        ? conversation.default_model_slug
+        : turns.find(t => t.model)?.model,
+      source: 'chatgpt',
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+
+  listConversations(data: unknown): ConversationSummary[] {
+    return listExportedConversations(data);
+  },
+};
+
+// Export helper functions for testing
+export { parseContent, orderNodes, conversationToTurns, listExportedConversations };
+
+export default chatgptParser;
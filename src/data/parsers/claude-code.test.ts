@@ -12,6 +12,8 @@ import {
   computeTotalUsage,
   parseUserMessage,
   parseAssistantMessage,
+  scoreJsonl,
+  collectDiagnostics,
 } from './claude-code';
 import type { Entry } from '../../data/types';
 
@@ -30,6 +32,11 @@ describe('claudeCodeParser', () => {
     it('returns false for empty string', () => {
       expect(claudeCodeParser.canParse('')).toBe(false);
     });
+
+    it('returns false for raw Messages API responses', () => {
+      const json = '{"id":"msg_1","type":"message","role":"assistant","content":[]}';
+      expect(claudeCodeParser.canParse(json)).toBe(false);
+    });
   });
 
   describe('canParse - legacy object format', () => {
@@ -135,6 +142,20 @@ describe('claudeCodeParser', () => {
       }
     });
 
+    it('keeps images returned in tool results as image blocks', () => {
+      const jsonl = [
+        '{"type":"assistant","uuid":"msg-1","message":{"content":[{"type":"tool_use","id":"tool-1","name":"Read","input":{"file_path":"/shot.png"}}]}}',
+        '{"type":"user","uuid":"msg-2","message":{"content":[{"type":"tool_result","tool_use_id":"tool-1","content":[{"type":"text","text":"Screenshot"},{"type":"image","source":{"type":"base64","media_type":"image/png","data":"iVBORw0K"}}]}]}}',
+      ].join('\n');
+
+      const result = claudeCodeParser.parse(jsonl);
+
+      expect(result.turns[1].content).toEqual([
+        { type: 'tool_result', tool_use_id: 'tool-1', content: 'Screenshot\n[image]', is_error: false },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } },
+      ]);
+    });
+
     it('calculates total token usage', () => {
       const jsonl = [
         '{"type":"assistant","uuid":"msg-1","message":{"content":[],"usage":{"input_tokens":100,"output_tokens":50}}}',
@@ -232,6 +253,18 @@ describe('claudeCodeParser', () => {
       expect(result.turns[1].agentId).toBe('agent-xyz');
     });
 
+    it('parses the agent spawned by a Task tool result', () => {
+      const jsonl = [
+        '{"type":"assistant","uuid":"a1","message":{"content":[{"type":"tool_use","id":"t1","name":"Task","input":{"prompt":"Explore"}}]}}',
+        '{"type":"user","uuid":"u1","parentUuid":"a1","toolUseResult":{"status":"completed","agentId":"agent-xyz"},"message":{"content":[{"type":"tool_result","tool_use_id":"t1","content":"Found it"}]}}',
+      ].join('\n');
+
+      const result = claudeCodeParser.parse(jsonl);
+
+      expect(result.turns[0].spawnedAgentId).toBeUndefined();
+      expect(result.turns[1].spawnedAgentId).toBe('agent-xyz');
+    });
+
     it('extracts summaries into meta.summaries', () => {
       const jsonl = [
         '{"type":"summary","uuid":"s1","summary":"First summary"}',
@@ -399,6 +432,27 @@ describe('parseEntry', () => {
     expect(entry.summary).toBe('This is a summary');
   });
 
+  it('parses compaction fields', () => {
+    const boundary = parseEntry({
+      type: 'system',
+      uuid: 'c1',
+      subtype: 'compact_boundary',
+      compactMetadata: { trigger: 'auto', preTokens: 155000 },
+    });
+    const continued = parseEntry({
+      type: 'user',
+      uuid: 'u9',
+      isCompactSummary: true,
+      message: { role: 'user', content: 'Summary of earlier work' },
+    });
+    const summary = parseEntry({ type: 'summary', summary: 'Fix the build', leafUuid: 'a1' });
+
+    expect(boundary.subtype).toBe('compact_boundary');
+    expect(boundary.compactMetadata).toEqual({ trigger: 'auto', preTokens: 155000 });
+    expect(continued.isCompactSummary).toBe(true);
+    expect(summary.leafUuid).toBe('a1');
+  });
+
   it('parses progress entry', () => {
     const entry = parseEntry({
       type: 'progress',
@@ -779,3 +833,158 @@ describe('turn ordering', () => {
     expect(result.entries![3].type).toBe('summary');
   });
 });
+
+describe('scoreJsonl', () => {
+  it('scores known entry types as a full match', () => {
+    const jsonl = [
+      '{"type":"user","uuid":"1"}',
+      '{"type":"assistant","uuid":"2"}',
+    ].join('\n');
+    expect(scoreJsonl(jsonl)).toBe(1);
+  });
+
+  it('scores unknown types at half weight and invalid lines at zero', () => {
+    const jsonl = [
+      '{"type":"user"}',
+      '{"type":"session_meta"}',
+      'not json',
+      '{"no_type":true}',
+    ].join('\n');
+    expect(scoreJsonl(jsonl)).toBe(1.5 / 4);
+  });
+
+  it('returns 0 for empty text', () => {
+    expect(scoreJsonl('')).toBe(0);
+  });
+});
+
+describe('parse diagnostics', () => {
+  const user = (uuid: string, parentUuid: string | null, content: unknown) =>
+    JSON.stringify({ type: 'user', uuid, parentUuid, message: { role: 'user', content } });
+  const assistant = (uuid: string, parentUuid: string, content: unknown[]) =>
+    JSON.stringify({ type: 'assistant', uuid, parentUuid, message: { role: 'assistant', content } });
+
+  it('returns no diagnostics for a clean trace', () => {
+    const jsonl = [
+      user('u1', null, 'Hello'),
+      assistant('a1', 'u1', [{ type: 'tool_use', id: 't1', name: 'Read', input: {} }]),
+      user('u2', 'a1', [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }]),
+    ].join('\n');
+
+    expect(claudeCodeParser.parse(jsonl).diagnostics).toEqual([]);
+  });
+
+  it('reports invalid lines with their line number and nearest turn', () => {
+    const jsonl = [
+      user('u1', null, 'Hello'),
+      '{"type":"assistant", truncated',
+      assistant('a1', 'u1', [{ type: 'text', text: 'Hi' }]),
+    ].join('\n');
+
+    const result = claudeCodeParser.parse(jsonl);
+    expect(result.turns).toHaveLength(2);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ kind: 'invalid-line', line: 2, turnIndex: 0 }),
+    ]);
+  });
+
+  it('reports unknown entry types', () => {
+    const jsonl = [
+      user('u1', null, 'Hello'),
+      JSON.stringify({ type: 'custom-event', uuid: 'x1', parentUuid: 'u1' }),
+    ].join('\n');
+
+    const diagnostics = claudeCodeParser.parse(jsonl).diagnostics ?? [];
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ kind: 'unknown-entry-type', subject: 'custom-event', line: 2, uuid: 'x1', turnIndex: 0 });
+  });
+
+  it('reports tool results without a matching tool_use', () => {
+    const jsonl = [
+      user('u1', null, 'Hello'),
+      assistant('a1', 'u1', [{ type: 'text', text: 'Hi' }]),
+      user('u2', 'a1', [{ type: 'tool_result', tool_use_id: 'missing', content: 'ok' }]),
+    ].join('\n');
+
+    const diagnostics = claudeCodeParser.parse(jsonl).diagnostics ?? [];
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: 'orphan-tool-result', subject: 'missing', line: 3, uuid: 'u2', turnIndex: 2 }),
+    ]);
+  });
+
+  it('reports parentUuid references to missing entries', () => {
+    const jsonl = [
+      user('u1', null, 'Hello'),
+      assistant('a1', 'gone', [{ type: 'text', text: 'Hi' }]),
+    ].join('\n');
+
+    const diagnostics = claudeCodeParser.parse(jsonl).diagnostics ?? [];
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: 'broken-parent-chain', subject: 'gone', line: 2, uuid: 'a1', turnIndex: 1 }),
+    ]);
+  });
+
+  it('maps entries without turns to the closest preceding turn', () => {
+    const entries = [
+      parseEntry({ type: 'summary', summary: 'x', leafUuid: 'u1' }),
+      parseEntry({ type: 'user', uuid: 'u1', parentUuid: 'gone', message: { role: 'user', content: 'Hi' } }),
+    ];
+    const diagnostics = collectDiagnostics(entries, [undefined, 0], [1, 3], [2]);
+
+    expect(diagnostics.map(d => [d.kind, d.line, d.turnIndex])).toEqual([
+      ['invalid-line', 2, 0],
+      ['broken-parent-chain', 3, 0],
+    ]);
+  });
+});
+
+describe('append', () => {
+  const line = (record: object) => JSON.stringify(record);
+  const user = (uuid: string, parentUuid: string | null, content: unknown, timestamp?: string) =>
+    line({ type: 'user', uuid, parentUuid, sessionId: 'abcdef123456', timestamp, message: { role: 'user', content } });
+  const assistant = (uuid: string, parentUuid: string, content: unknown[], timestamp?: string) =>
+    line({
+      type: 'assistant', uuid, parentUuid, timestamp,
+      message: { role: 'assistant', model: 'claude-x', content, usage: { input_tokens: 10, output_tokens: 5 } },
+    });
+
+  const lines = [
+    user('u1', null, 'Hello', '2025-01-01T00:00:00Z'),
+    assistant('a1', 'u1', [{ type: 'tool_use', id: 't1', name: 'Read', input: {} }], '2025-01-01T00:00:05Z'),
+    user('u2', 'a1', [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }], '2025-01-01T00:00:06Z'),
+    'not json',
+    assistant('a2', 'u2', [{ type: 'text', text: 'Done' }], '2025-01-01T00:00:10Z'),
+  ];
+
+  it('matches parsing the whole file at once', () => {
+    const head = lines.slice(0, 2).join('\n') + '\n';
+    const tail = lines.slice(2).join('\n') + '\n';
+
+    const conversation = claudeCodeParser.parse(head);
+    claudeCodeParser.append!(conversation, tail, 2);
+
+    const full = claudeCodeParser.parse(head + tail);
+    expect(conversation.turns).toEqual(full.turns);
+    expect(conversation.entries).toEqual(full.entries);
+    expect(conversation.meta).toEqual(full.meta);
+    expect(conversation.diagnostics).toEqual(full.diagnostics);
+  });
+
+  it('resolves references to entries parsed earlier', () => {
+    const conversation = claudeCodeParser.parse(lines.slice(0, 2).join('\n') + '\n');
+    claudeCodeParser.append!(conversation, lines[2] + '\n', 2);
+
+    expect(conversation.diagnostics).toEqual([]);
+    expect(conversation.meta.duration_ms).toBe(6000);
+    expect(conversation.meta.total_usage?.output_tokens).toBe(5);
+  });
+
+  it('reports invalid appended lines at their file line number', () => {
+    const conversation = claudeCodeParser.parse(lines.slice(0, 3).join('\n') + '\n');
+    claudeCodeParser.append!(conversation, lines.slice(3).join('\n'), 3);
+
+    expect(conversation.diagnostics).toEqual([
+      expect.objectContaining({ kind: 'invalid-line', line: 4, turnIndex: 2 }),
+    ]);
+  });
+});
@@ -15,7 +15,9 @@ import type {
   ParsedUserMessage,
   ParsedAssistantMessage,
   ThinkingMetadata,
+  CompactMetadata,
   CacheCreation,
+  ParseDiagnostic,
 } from '../types';
 
 /** Raw Claude Code JSONL line (used only for legacy object format) */
@@ -41,6 +43,52 @@ interface LegacyClaudeCodeLine {
   };
 }
 
+/** Entry types Claude Code is known to write */
+const KNOWN_ENTRY_TYPES: ReadonlySet<string> = new Set<EntryType>([
+  'user',
+  'assistant',
+  'system',
+  'progress',
+  'file-history-snapshot',
+  'summary',
+  'queue-operation',
+]);
+
+/** Number of lines sampled when scoring */
+const SCORE_SAMPLE_LINES = 50;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten tool_result content (string or array of blocks) into a string
+ */
+function flattenToolResultContent(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return content === undefined || content === null ? '' : JSON.stringify(content);
+
+  return content
+    .map(part => {
+      if (isObject(part) && part.type === 'text') return String(part.text ?? '');
+      if (isObject(part) && part.type === 'image') return '[image]';
+      return typeof part === 'string' ? part : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Images returned inside a raw tool_result block (e.g. a screenshot read by
+ * the Read tool). They are kept as image blocks after the tool result.
+ */
+function toolResultImages(raw: unknown): ImageBlock[] {
+  if (!isObject(raw) || raw.type !== 'tool_result' || !Array.isArray(raw.content)) return [];
+  return raw.content
+    .filter((part): part is Record<string, unknown> => isObject(part) && part.type === 'image' && isObject(part.source))
+    .map(part => ({ type: 'image', source: part.source as ImageBlock['source'] }));
+}
+
 /**
  * Parse a raw content block from Claude Code format
  */
@@ -82,7 +130,7 @@ function parseContentBlock(raw: unknown): ContentBlock | null {
       return {
         type: 'tool_result',
         tool_use_id: String(block.tool_use_id || ''),
-        content: String(block.content || ''),
+        content: flattenToolResultContent(block.content),
         is_error: block.is_error === true,
       };
 
@@ -122,7 +170,7 @@ function parseUserMessage(message: Record<string, unknown>, roleHint?: string):
     const blocks: ContentBlock[] = [];
     for (const rawBlock of rawContent) {
       const block = parseContentBlock(rawBlock);
-      if (block) blocks.push(block);
+      if (block) blocks.push(block, ...toolResultImages(rawBlock));
     }
     return { role: 'user', content: blocks };
   }
@@ -217,6 +265,10 @@ function parseEntry(raw: Record<string, unknown>): Entry {
   // Agent/sidechain fields
   if (typeof raw.isSidechain === 'boolean') entry.isSidechain = raw.isSidechain;
   if (typeof raw.agentId === 'string') entry.agentId = raw.agentId;
+  if (raw.toolUseResult && typeof raw.toolUseResult === 'object') {
+    const toolUseResult = raw.toolUseResult as Record<string, unknown>;
+    if (typeof toolUseResult.agentId === 'string') entry.spawnedAgentId = toolUseResult.agentId;
+  }
 
   // Error fields
   if (typeof raw.error === 'string') entry.error = raw.error;
@@ -239,9 +291,21 @@ function parseEntry(raw: Record<string, unknown>): Entry {
   // Permission mode
   if (typeof raw.permissionMode === 'string') entry.permissionMode = raw.permissionMode;
 
+  // Compaction: a compact_boundary system entry, then a user entry holding the summary
+  if (typeof raw.subtype === 'string') entry.subtype = raw.subtype;
+  if (raw.compactMetadata && typeof raw.compactMetadata === 'object') {
+    const cm = raw.compactMetadata as Record<string, unknown>;
+    const compactMetadata: CompactMetadata = {};
+    if (typeof cm.trigger === 'string') compactMetadata.trigger = cm.trigger;
+    if (typeof cm.preTokens === 'number') compactMetadata.preTokens = cm.preTokens;
+    entry.compactMetadata = compactMetadata;
+  }
+  if (raw.isCompactSummary === true) entry.isCompactSummary = true;
+
   // Summary entries
   if (entryType === 'summary') {
     if (typeof raw.summary === 'string') entry.summary = raw.summary;
+    if (typeof raw.leafUuid === 'string') entry.leafUuid = raw.leafUuid;
     // Also check message.summary
     if (!entry.summary && raw.message && typeof raw.message === 'object') {
       const msg = raw.message as Record<string, unknown>;
@@ -318,6 +382,7 @@ function entryToTurn(entry: Entry): Turn | null {
   // Propagate enriched fields
   if (entry.isSidechain !== undefined) turn.isSidechain = entry.isSidechain;
   if (entry.agentId) turn.agentId = entry.agentId;
+  if (entry.spawnedAgentId) turn.spawnedAgentId = entry.spawnedAgentId;
   if (entry.error) turn.error = entry.error;
   if (entry.isApiErrorMessage !== undefined) turn.isApiErrorMessage = entry.isApiErrorMessage;
   if (entry.requestId) turn.requestId = entry.requestId;
@@ -389,42 +454,288 @@ function computeTotalUsage(turns: Turn[]): TokenUsage {
 }
 
 /**
- * Parse JSONL string into array of raw objects
+ * Parsed JSONL records with their source line numbers
  */
-function parseJsonl(text: string): Record<string, unknown>[] {
-  const lines: Record<string, unknown>[] = [];
+interface JsonlParseResult {
+  records: Array<{ raw: Record<string, unknown>; line: number }>;
+  /** 1-based line numbers of lines that failed to parse */
+  invalidLines: number[];
+}
+
+/**
+ * Parse JSONL string into raw objects, keeping line numbers
+ */
+function parseJsonlLines(text: string): JsonlParseResult {
+  const records: JsonlParseResult['records'] = [];
+  const invalidLines: number[] = [];
 
-  for (const line of text.split('\n')) {
+  text.split('\n').forEach((line, index) => {
     const trimmed = line.trim();
-    if (!trimmed) continue;
+    if (!trimmed) return;
 
     try {
-      lines.push(JSON.parse(trimmed));
+      const parsed = JSON.parse(trimmed);
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+        records.push({ raw: parsed, line: index + 1 });
+      } else {
+        invalidLines.push(index + 1);
+      }
     } catch {
-      // Skip invalid JSON lines
-      console.warn('Skipping invalid JSON line');
+      // Skip invalid JSON lines; reported through diagnostics
+      console.warn(`Skipping invalid JSON line ${index + 1}`);
+      invalidLines.push(index + 1);
+    }
+  });
+
+  return { records, invalidLines };
+}
+
+/**
+ * Parse JSONL string into array of raw objects
+ */
+function parseJsonl(text: string): Record<string, unknown>[] {
+  return parseJsonlLines(text).records.map(r => r.raw);
+}
+
+/**
+ * Find the turn nearest to an entry: its own turn, else the closest
+ * preceding one, else the first following one
+ */
+function nearestTurnIndex(entryTurnIndex: Array<number | undefined>, entryIndex: number): number | undefined {
+  for (let i = Math.min(entryIndex, entryTurnIndex.length - 1); i >= 0; i--) {
+    if (entryTurnIndex[i] !== undefined) return entryTurnIndex[i];
+  }
+  for (let i = entryIndex + 1; i < entryTurnIndex.length; i++) {
+    if (entryTurnIndex[i] !== undefined) return entryTurnIndex[i];
+  }
+  return undefined;
+}
+
+/**
+ * Collect parse diagnostics: skipped lines, unknown entry types,
+ * orphan tool results, and parentUuid references to missing entries.
+ *
+ * @param entries Parsed entries in file order
+ * @param entryTurnIndex Turn index produced by each entry (undefined if none)
+ * @param entryLines Source line number of each entry (JSONL only)
+ * @param invalidLines Line numbers that failed to parse (JSONL only)
+ * @param earlierEntries Entries parsed before these (when appending), which
+ *   parent links and tool results may refer to
+ */
+function collectDiagnostics(
+  entries: Entry[],
+  entryTurnIndex: Array<number | undefined>,
+  entryLines: number[] = [],
+  invalidLines: number[] = [],
+  earlierEntries: Entry[] = [],
+): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+
+  // Skipped lines map to the entry just before them in the file
+  for (const line of invalidLines) {
+    let entryIndex = -1;
+    while (entryIndex + 1 < entryLines.length && entryLines[entryIndex + 1] < line) entryIndex++;
+    diagnostics.push({
+      kind: 'invalid-line',
+      message: `Line ${line} is not valid JSON and was skipped`,
+      line,
+      turnIndex: nearestTurnIndex(entryTurnIndex, Math.max(entryIndex, 0)),
+    });
+  }
+
+  const uuids = new Set<string>();
+  const toolUseIds = new Set<string>();
+  for (const entry of [...earlierEntries, ...entries]) {
+    if (entry.uuid) uuids.add(entry.uuid);
+    for (const block of entry.parsedAssistantMessage?.content ?? []) {
+      if (block.type === 'tool_use') toolUseIds.add(block.id);
+    }
+  }
+
+  entries.forEach((entry, index) => {
+    const location = {
+      line: entryLines[index],
+      uuid: entry.uuid,
+      turnIndex: nearestTurnIndex(entryTurnIndex, index),
+    };
+
+    if (!KNOWN_ENTRY_TYPES.has(entry.type)) {
+      diagnostics.push({
+        kind: 'unknown-entry-type',
+        message: `Unknown entry type "${entry.type}"`,
+        subject: entry.type,
+        ...location,
+      });
+    }
+
+    const content = entry.parsedUserMessage?.content;
+    if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block.type === 'tool_result' && !toolUseIds.has(block.tool_use_id)) {
+          diagnostics.push({
+            kind: 'orphan-tool-result',
+            message: `Tool result references unknown tool_use_id "${block.tool_use_id}"`,
+            subject: block.tool_use_id,
+            ...location,
+          });
+        }
+      }
+    }
+
+    if (entry.parentUuid && !uuids.has(entry.parentUuid)) {
+      diagnostics.push({
+        kind: 'broken-parent-chain',
+        message: `Parent entry "${entry.parentUuid}" is missing`,
+        subject: entry.parentUuid,
+        ...location,
+      });
+    }
+  });
+
+  // Report in file order
+  return diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Build conversation metadata for JSONL entries and the turns made from them
+ */
+function buildJsonlMeta(entries: Entry[], turns: Turn[]): ConversationMeta {
+  // Extract session info from first message-bearing entry
+  const messageEntries = entries.filter(e => e.type === 'user' || e.type === 'assistant');
+  const firstMsg = messageEntries[0];
+  const lastMsg = messageEntries[messageEntries.length - 1];
+
+  const sessionId = firstMsg?.sessionId;
+  const firstTimestamp = firstMsg?.timestamp;
+  const lastTimestamp = lastMsg?.timestamp;
+
+  // Calculate duration
+  let durationMs: number | undefined;
+  if (firstTimestamp && lastTimestamp) {
+    const start = new Date(firstTimestamp).getTime();
+    const end = new Date(lastTimestamp).getTime();
+    if (!isNaN(start) && !isNaN(end)) {
+      durationMs = end - start;
     }
   }
 
-  return lines;
+  // Find model from assistant messages
+  const modelEntry = messageEntries.find(e => e.type === 'assistant' && e.parsedAssistantMessage?.model);
+  const model = modelEntry?.parsedAssistantMessage?.model;
+
+  // Calculate total usage
+  const totalUsage = computeTotalUsage(turns);
+
+  // Extract enriched metadata from all entries
+  const enrichedMeta = extractMeta(entries);
+
+  return {
+    id: sessionId,
+    title: sessionId ? `Session ${sessionId.slice(0, 8)}...` : 'Claude Code Session',
+    created_at: firstTimestamp,
+    updated_at: lastTimestamp,
+    model,
+    source: 'claude-code',
+    source_version: firstMsg?.version,
+    cwd: firstMsg?.cwd,
+    git_branch: firstMsg?.gitBranch,
+    duration_ms: durationMs,
+    total_usage: totalUsage,
+    ...enrichedMeta,
+  };
+}
+
+/**
+ * Extend a conversation parsed from JSONL with appended lines, in place.
+ * Only the new lines are parsed; metadata is rebuilt from all entries.
+ * @throws Error if none of the lines parse, leaving the conversation unchanged
+ */
+function appendJsonl(conversation: Conversation, text: string, lineOffset = 0): void {
+  const { records, invalidLines } = parseJsonlLines(text);
+  if (records.length === 0 && invalidLines.length > 0) {
+    throw new Error('Appended text is not JSONL');
+  }
+  const earlierEntries = conversation.entries ?? [];
+  const entries = records.map(r => parseEntry(r.raw));
+
+  const lastEarlierTurn = conversation.turns.length - 1;
+  const entryTurnIndex: Array<number | undefined> = [];
+  for (const entry of entries) {
+    const turn = entryToTurn(entry);
+    entryTurnIndex.push(turn ? conversation.turns.length : undefined);
+    if (turn) conversation.turns.push(turn);
+  }
+
+  conversation.entries = [...earlierEntries, ...entries];
+  conversation.meta = { ...conversation.meta, ...buildJsonlMeta(conversation.entries, conversation.turns) };
+
+  const diagnostics = collectDiagnostics(
+    entries,
+    entryTurnIndex,
+    records.map(r => r.line + lineOffset),
+    invalidLines.map(line => line + lineOffset),
+    earlierEntries,
+  );
+  // Invalid lines ahead of the first new entry belong with the last earlier turn
+  const firstLine = records.length > 0 ? records[0].line + lineOffset : Infinity;
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.kind === 'invalid-line' && diagnostic.line! < firstLine && lastEarlierTurn >= 0) {
+      diagnostic.turnIndex = lastEarlierTurn;
+    }
+  }
+  conversation.diagnostics = [...(conversation.diagnostics ?? []), ...diagnostics];
 }
 
 /**
  * Check if text is JSONL format (Claude Code)
  */
 function isJsonl(text: string): boolean {
-  const firstLine = text.trim().split('\n')[0];
+  const trimmed = text.trimStart();
+  const newline = trimmed.indexOf('\n');
+  const firstLine = (newline === -1 ? trimmed : trimmed.slice(0, newline)).trim();
   if (!firstLine) return false;
 
   try {
     const parsed = JSON.parse(firstLine);
-    // Claude Code JSONL has type field
-    return typeof parsed === 'object' && parsed !== null && 'type' in parsed;
+    // Claude Code JSONL has type field; raw Messages API responses use
+    // type "message"/"error" and are handled by the anthropic-api parser
+    return (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      'type' in parsed &&
+      parsed.type !== 'message' &&
+      parsed.type !== 'error'
+    );
   } catch {
     return false;
   }
 }
 
+/**
+ * Score JSONL text by the share of sampled lines that look like Claude Code
+ * entries. Lines with an unknown type count half; invalid lines count zero.
+ */
+function scoreJsonl(text: string): number {
+  const lines = text
+    .split('\n', SCORE_SAMPLE_LINES)
+    .map(line => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return 0;
+
+  let total = 0;
+  for (const line of lines) {
+    try {
+      const parsed = JSON.parse(line);
+      if (typeof parsed !== 'object' || parsed === null || typeof parsed.type !== 'string') continue;
+      total += KNOWN_ENTRY_TYPES.has(parsed.type) ? 1 : 0.5;
+    } catch {
+      // Invalid line scores zero
+    }
+  }
+
+  return total / lines.length;
+}
+
 /**
  * Claude Code conversation parser
  */
@@ -453,66 +764,32 @@ export const claudeCodeParser: TraceParser = {
     );
   },
 
+  score(data: unknown): number {
+    // Legacy object format is only accepted when its shape matches exactly
+    return typeof data === 'string' ? scoreJsonl(data) : 1.0;
+  },
+
   parse(data: unknown): Conversation {
     // Handle JSONL string input
     if (typeof data === 'string') {
-      const rawLines = parseJsonl(data);
+      const { records, invalidLines } = parseJsonlLines(data);
 
       // Parse all lines into entries
-      const entries = rawLines.map(parseEntry);
+      const entries = records.map(r => parseEntry(r.raw));
 
-      // Convert user/assistant entries to turns
+      // Convert user/assistant entries to turns, remembering which entry made which turn
       const turns: Turn[] = [];
+      const entryTurnIndex: Array<number | undefined> = [];
       for (const entry of entries) {
         const turn = entryToTurn(entry);
+        entryTurnIndex.push(turn ? turns.length : undefined);
         if (turn) turns.push(turn);
       }
 
-      // Extract session info from first message-bearing entry
-      const messageEntries = entries.filter(e => e.type === 'user' || e.type === 'assistant');
-      const firstMsg = messageEntries[0];
-      const lastMsg = messageEntries[messageEntries.length - 1];
-
-      const sessionId = firstMsg?.sessionId;
-      const firstTimestamp = firstMsg?.timestamp;
-      const lastTimestamp = lastMsg?.timestamp;
-
-      // Calculate duration
-      let durationMs: number | undefined;
-      if (firstTimestamp && lastTimestamp) {
-        const start = new Date(firstTimestamp).getTime();
-        const end = new Date(lastTimestamp).getTime();
-        if (!isNaN(start) && !isNaN(end)) {
-          durationMs = end - start;
-        }
-      }
-
-      // Find model from assistant messages
-      const modelEntry = messageEntries.find(e => e.type === 'assistant' && e.parsedAssistantMessage?.model);
-      const model = modelEntry?.parsedAssistantMessage?.model;
-
-      // Calculate total usage
-      const totalUsage = computeTotalUsage(turns);
-
-      // Extract enriched metadata from all entries
-      const enrichedMeta = extractMeta(entries);
-
-      const meta: ConversationMeta = {
-        id: sessionId,
-        title: sessionId ? `Session ${sessionId.slice(0, 8)}...` : 'Claude Code Session',
-        created_at: firstTimestamp,
-        updated_at: lastTimestamp,
-        model,
-        source: 'claude-code',
-        source_version: firstMsg?.version,
-        cwd: firstMsg?.cwd,
-        git_branch: firstMsg?.gitBranch,
-        duration_ms: durationMs,
-        total_usage: totalUsage,
-        ...enrichedMeta,
-      };
+      const meta = buildJsonlMeta(entries, turns);
+      const diagnostics = collectDiagnostics(entries, entryTurnIndex, records.map(r => r.line), invalidLines);
 
-      return { meta, turns, entries };
+      return { meta, turns, entries, diagnostics };
     }
 
     // Handle legacy object format
@@ -530,8 +807,10 @@ export const claudeCodeParser: TraceParser = {
     // For legacy format, convert through the entry pipeline too
     const entries: Entry[] = raw.messages.map(line => parseEntry(line as unknown as Record<string, unknown>));
     const turns: Turn[] = [];
+    const entryTurnIndex: Array<number | undefined> = [];
     for (const entry of entries) {
       const turn = entryToTurn(entry);
+      entryTurnIndex.push(turn ? turns.length : undefined);
       if (turn) turns.push(turn);
     }
 
@@ -542,12 +821,16 @@ export const claudeCodeParser: TraceParser = {
     const enrichedMeta = extractMeta(entries);
     Object.assign(meta, enrichedMeta);
 
-    return { meta, turns, entries };
+    return { meta, turns, entries, diagnostics: collectDiagnostics(entries, entryTurnIndex) };
+  },
+
+  append(conversation: Conversation, appended: string, lineOffset?: number): void {
+    appendJsonl(conversation, appended, lineOffset);
   },
 };
 
 // Export helper functions for testing
-export { parseEntry, parseContentBlock, entryToTurn, extractMeta, computeTotalUsage, parseJsonl, parseUserMessage, parseAssistantMessage };
+export { parseEntry, parseContentBlock, flattenToolResultContent, toolResultImages, entryToTurn, extractMeta, computeTotalUsage, parseJsonl, parseJsonlLines, collectDiagnostics, appendJsonl, parseUserMessage, parseAssistantMessage, scoreJsonl };
 export type { Entry, EntryType };
 
 export default claudeCodeParser;
@@ -0,0 +1,147 @@
+/**
+ * Tests for Cline / Roo Code task parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { clineParser, alignWithUiLog, parseRequestUsage, scoreClineTask } from './cline';
+import { parserRegistry } from './index';
+
+const T0 = Date.parse('2025-07-01T09:00:00.000Z');
+const at = (seconds: number) => T0 + seconds * 1000;
+
+const request = (seconds: number, tokensIn: number, tokensOut: number) => ({
+  ts: at(seconds),
+  type: 'say',
+  say: 'api_req_started',
+  text: JSON.stringify({ request: '...', tokensIn, tokensOut, cacheWrites: 0, cacheReads: 500, cost: 0.01 }),
+});
+
+/** A task that reads a file and then answers */
+const apiConversationHistory = [
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: '<task>\nSummarise README.md\nKeep it short\n</task>' },
+      { type: 'text', text: '<environment_details>\n# Current Working Directory (/home/me/app) Files\nREADME.md\n</environment_details>' },
+    ],
+  },
+  {
+    role: 'assistant',
+    content: [{ type: 'text', text: '<read_file>\n<path>README.md</path>\n</read_file>' }],
+  },
+  {
+    role: 'user',
+    content: [{ type: 'text', text: '[read_file for \'README.md\'] Result:' }, { type: 'text', text: '# App' }],
+  },
+  {
+    role: 'assistant',
+    content: [{ type: 'text', text: 'It is an app.' }],
+  },
+];
+
+const uiMessages = [
+  { ts: at(0), type: 'say', say: 'task', text: 'Summarise README.md\nKeep it short' },
+  request(1, 1200, 40),
+  { ts: at(4), type: 'ask', ask: 'tool', text: '{"tool":"readFile","path":"README.md"}' },
+  request(9, 300, 20),
+  { ts: at(11), type: 'say', say: 'completion_result', text: 'It is an app.' },
+];
+
+const task = { taskId: '1751360400000', apiConversationHistory, uiMessages };
+
+describe('clineParser', () => {
+  describe('canParse', () => {
+    it('accepts task documents and their JSON text', () => {
+      expect(clineParser.canParse(task)).toBe(true);
+      expect(clineParser.canParse({ apiConversationHistory })).toBe(true);
+      expect(clineParser.canParse(JSON.stringify(task))).toBe(true);
+    });
+
+    it('rejects plain message arrays and other JSON', () => {
+      expect(clineParser.canParse(apiConversationHistory)).toBe(false);
+      expect(clineParser.canParse({ messages: apiConversationHistory })).toBe(false);
+      expect(clineParser.canParse(JSON.stringify(apiConversationHistory))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    const conversation = clineParser.parse(task);
+
+    it('takes content from the API history', () => {
+      expect(conversation.turns.map(t => t.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+      expect(conversation.turns[3].content).toEqual([{ type: 'text', text: 'It is an app.' }]);
+      expect(conversation.turns[3].parentId).toBe(conversation.turns[2].id);
+    });
+
+    it('takes timestamps from the UI log', () => {
+      expect(conversation.turns.map(t => t.timestamp)).toEqual([
+        new Date(at(0)).toISOString(),
+        new Date(at(4)).toISOString(),
+        new Date(at(9)).toISOString(),
+        new Date(at(11)).toISOString(),
+      ]);
+    });
+
+    it('attaches request usage to assistant turns', () => {
+      expect(conversation.turns[1].usage).toEqual({ input_tokens: 1200, output_tokens: 40, cache_read_input_tokens: 500 });
+      expect(conversation.meta.total_usage?.output_tokens).toBe(60);
+    });
+
+    it('builds metadata from the task', () => {
+      expect(conversation.meta).toMatchObject({
+        id: '1751360400000',
+        title: 'Summarise README.md',
+        source: 'cline',
+        cwd: '/home/me/app',
+        created_at: new Date(at(0)).toISOString(),
+        duration_ms: 11000,
+      });
+      expect(conversation.entries).toHaveLength(4);
+    });
+
+    it('prefers the timestamps Roo Code stores on messages', () => {
+      const roo = apiConversationHistory.map((message, i) => ({ ...message, ts: at(100 + i) }));
+      const parsed = clineParser.parse({ apiConversationHistory: roo, uiMessages });
+      expect(parsed.turns[1].timestamp).toBe(new Date(at(101)).toISOString());
+      expect(parsed.turns[1].usage?.input_tokens).toBe(1200);
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects task documents as cline', () => {
+      expect(parserRegistry.parseContent(JSON.stringify(task)).sourceId).toBe('cline');
+    });
+
+    it('detects Roo Code API histories on their own', () => {
+      const roo = apiConversationHistory.map((message, i) => ({ ...message, ts: at(i) }));
+      expect(parserRegistry.parseContent(JSON.stringify(roo)).sourceId).toBe('cline');
+    });
+
+    it('leaves plain API histories to the anthropic-api parser', () => {
+      expect(parserRegistry.parseContent(JSON.stringify(apiConversationHistory)).sourceId).toBe('anthropic-api');
+    });
+  });
+});
+
+describe('alignWithUiLog', () => {
+  it('leaves messages unstamped without a UI log', () => {
+    const aligned = alignWithUiLog(apiConversationHistory, []);
+    expect(aligned).toHaveLength(4);
+    expect(aligned.every(({ timestamp, usage }) => timestamp === undefined && usage === undefined)).toBe(true);
+  });
+});
+
+describe('parseRequestUsage', () => {
+  it('ignores events without counts', () => {
+    expect(parseRequestUsage({ ts: 0, say: 'api_req_started', text: 'not json' })).toBeUndefined();
+    expect(parseRequestUsage({ ts: 0, say: 'api_req_started', text: '{"request":"..."}' })).toBeUndefined();
+  });
+});
+
+describe('scoreClineTask', () => {
+  it('needs a task document or Roo Code timestamps', () => {
+    expect(scoreClineTask({ apiConversationHistory: [], uiMessages: [] })).toBe(1);
+    expect(scoreClineTask([{ role: 'user', content: 'hi', ts: 1 }])).toBe(1);
+    expect(scoreClineTask([{ role: 'user', content: 'hi' }])).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Parser for Cline / Roo Code task histories
+ *
+ * Cline-style agents store each task as two files, combined into one
+ * document when a task folder is loaded (see utils/task-bundle):
+ * - `apiConversationHistory`: the Anthropic-format messages sent to the
+ *   model, which hold the conversation's content
+ * - `uiMessages`: the chat log, one `{ ts, type: 'say' | 'ask', say?, ask?,
+ *   text? }` event per line in the chat. Every model request is logged as a
+ *   `say: 'api_req_started'` event whose text is JSON with its token counts.
+ *
+ * Content comes from the API history and timestamps from the UI log: the
+ * n-th assistant message answers the n-th request, so it is stamped with
+ * the first event its output produced, and the user message that led to it
+ * with the time the request started. Roo Code also stamps API messages with
+ * `ts`, which is used when present.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  Turn,
+  TraceParser,
+  TokenUsage,
+  Entry,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { parseApiContent } from './anthropic';
+import { toJsonDocument, turnToEntry } from './shared';
+
+/** A chat event from `ui_messages.json` */
+interface UiMessage {
+  ts: number;
+  type?: string;
+  say?: string;
+  ask?: string;
+  text?: string;
+}
+
+/** Number of API messages sampled when scoring */
+const SCORE_SAMPLE_MESSAGES = 50;
+
+/** Title length before it is cut off */
+const TITLE_LENGTH = 80;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value looks like an API history message
+ */
+function isHistoryMessage(value: unknown): value is Record<string, unknown> {
+  return isObject(value) && (value.role === 'user' || value.role === 'assistant') &&
+    (typeof value.content === 'string' || Array.isArray(value.content));
+}
+
+/**
+ * Split data into the API history and UI log.
+ * Accepts a combined task document or a bare API history array.
+ */
+function toTask(data: unknown): { taskId?: string; history: unknown[]; ui: UiMessage[] } | null {
+  if (Array.isArray(data)) return { history: data, ui: [] };
+  if (!isObject(data) || !Array.isArray(data.apiConversationHistory)) return null;
+
+  const ui = Array.isArray(data.uiMessages)
+    ? data.uiMessages.filter((m): m is UiMessage => isObject(m) && typeof m.ts === 'number')
+    : [];
+  return {
+    taskId: typeof data.taskId === 'string' ? data.taskId : undefined,
+    history: data.apiConversationHistory,
+    ui,
+  };
+}
+
+/**
+ * Score data as a Cline task (0–1).
+ * A combined task document is unambiguous; a bare API history is only
+ * recognised by the `ts` Roo Code adds to its messages, since plain
+ * Anthropic messages belong to the anthropic-api parser.
+ */
+function scoreClineTask(raw: unknown): number {
+  const data = toJsonDocument(raw);
+  const task = toTask(data);
+  if (!task) return 0;
+
+  const sample = task.history.slice(0, SCORE_SAMPLE_MESSAGES);
+  if (!sample.every(isHistoryMessage)) return 0;
+  if (!Array.isArray(data)) return 1;
+
+  return sample.length > 0 && sample.some(message => typeof message.ts === 'number') ? 1 : 0;
+}
+
+/**
+ * Convert a Unix time in milliseconds to an ISO timestamp
+ */
+function toIsoTimestamp(value: unknown): string | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return new Date(value).toISOString();
+}
+
+/**
+ * Read token usage from an `api_req_started` event.
+ * Its `tokensIn` excludes cache reads and writes, as in the Anthropic API.
+ */
+function parseRequestUsage(event: UiMessage | undefined): TokenUsage | undefined {
+  if (!event?.text) return undefined;
+
+  let info: unknown;
+  try {
+    info = JSON.parse(event.text);
+  } catch {
+    return undefined;
+  }
+  if (!isObject(info)) return undefined;
+
+  const count = (key: string) => (typeof info[key] === 'number' ? info[key] as number : 0);
+  if (count('tokensIn') <= 0 && count('tokensOut') <= 0) return undefined;
+
+  const usage: TokenUsage = { input_tokens: count('tokensIn'), output_tokens: count('tokensOut') };
+  if (count('cacheReads') > 0) usage.cache_read_input_tokens = count('cacheReads');
+  if (count('cacheWrites') > 0) usage.cache_creation_input_tokens = count('cacheWrites');
+  return usage;
+}
+
+/**
+ * Stamp API messages with times from the UI log and attach request usage.
+ * Returns one timestamp and (for assistant messages) one usage per message.
+ */
+function alignWithUiLog(history: Record<string, unknown>[], ui: UiMessage[]): Array<{
+  timestamp?: string;
+  usage?: TokenUsage;
+}> {
+  const requestIndices = ui
+    .map((event, index) => (event.say === 'api_req_started' ? index : -1))
+    .filter(index => index >= 0);
+
+  let request = 0;
+  return history.map((message, index) => {
+    const own = toIsoTimestamp(message.ts);
+
+    if (message.role === 'assistant') {
+      const started = requestIndices[request];
+      request++;
+      // The output follows the request event unless the request produced none
+      const output = started !== undefined && started + 1 !== requestIndices[request] ? ui[started + 1] : undefined;
+      return { timestamp: own ?? toIsoTimestamp((output ?? ui[started])?.ts), usage: parseRequestUsage(ui[started]) };
+    }
+
+    // The first message is the task itself; later ones were sent with the next request
+    const sentAt = index === 0 ? ui.find(event => event.say === 'task') ?? ui[requestIndices[0]] : ui[requestIndices[request]];
+    return { timestamp: own ?? toIsoTimestamp(sentAt?.ts) };
+  });
+}
+
+/**
+ * Get the text of a message's text blocks
+ */
+function getText(turn: Omit<Turn, 'id'> | undefined): string {
+  return (turn?.content ?? [])
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('\n');
+}
+
+/**
+ * Build a title from the task's first line
+ */
+function getTitle(task: string): string | undefined {
+  const line = task.replace(/<\/?task>/g, '').trim().split('\n')[0]?.trim();
+  if (!line) return undefined;
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH)}...` : line;
+}
+
+/**
+ * Cline / Roo Code task parser
+ */
+export const clineParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return scoreClineTask(data) > 0;
+  },
+
+  score(data: unknown): number {
+    return scoreClineTask(data);
+  },
+
+  parse(data: unknown): Conversation {
+    const task = toTask(toJsonDocument(data)) ?? { history: [], ui: [] };
+    const history = task.history.filter(isHistoryMessage);
+    const aligned = alignWithUiLog(history, task.ui);
+
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+    let parentId: string | undefined;
+
+    history.forEach((message, index) => {
+      const modelInfo = isObject(message.modelInfo) ? message.modelInfo : undefined;
+      const turn: Turn = {
+        id: `cline-${index}`,
+        role: message.role as Turn['role'],
+        content: parseApiContent(message.content),
+        timestamp: aligned[index].timestamp,
+        parentId,
+      };
+      if (turn.role === 'assistant') {
+        if (aligned[index].usage) turn.usage = aligned[index].usage;
+        if (typeof modelInfo?.modelId === 'string') turn.model = modelInfo.modelId;
+      }
+      turns.push(turn);
+      entries.push(turnToEntry(turn, message));
+      parentId = turn.id;
+    });
+
+    const taskEvent = task.ui.find(event => event.say === 'task');
+    const taskText = taskEvent?.text ?? getText(turns[0]);
+    const cwd = /# Current Working Directory \(([^)]+)\)/.exec(getText(turns[0]))?.[1];
+
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t);
+    const firstTimestamp = toIsoTimestamp(task.ui[0]?.ts) ?? timestamps[0];
+    const lastTimestamp = toIsoTimestamp(task.ui[task.ui.length - 1]?.ts) ?? timestamps[timestamps.length - 1];
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const duration = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+      if (!isNaN(duration)) durationMs = duration;
+    }
+
+    const meta: ConversationMeta = {
+      id: task.taskId ?? (task.ui[0] ? String(task.ui[0].ts) : undefined),
+      title: getTitle(taskText) ?? 'Cline Task',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model: turns.find(t => t.model)?.model,
+      source: 'cline',
+      cwd,
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+};
+
+// Export helper functions for testing
+export { alignWithUiLog, parseRequestUsage, scoreClineTask };
+
+export default clineParser;
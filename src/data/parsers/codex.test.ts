@@ -0,0 +1,210 @@
+/**
+ * Tests for Codex CLI rollout parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { codexCliParser, parseTokenUsage, parseToolOutput, scoreCodexLines } from './codex';
+import { parserRegistry } from './index';
+import { buildClusters, calculateClusterMetrics, extractSearchableContent } from '../../core/clusters';
+
+const line = (timestamp: string, type: string, payload: Record<string, unknown>) =>
+  JSON.stringify({ timestamp: `2025-09-01T10:00:${timestamp}.000Z`, type, payload });
+
+const tokenCount = (timestamp: string, input: number, cached: number, output: number, reasoning: number) =>
+  line(timestamp, 'event_msg', {
+    type: 'token_count',
+    info: {
+      last_token_usage: {
+        input_tokens: input,
+        cached_input_tokens: cached,
+        output_tokens: output,
+        reasoning_output_tokens: reasoning,
+        total_tokens: input + output,
+      },
+    },
+  });
+
+/** A rollout with one prompt, a reasoning summary, a shell call and a reply */
+const rollout = [
+  line('00', 'session_meta', {
+    id: '0199a1b2-c3d4-7e5f',
+    timestamp: '2025-09-01T10:00:00.000Z',
+    cwd: '/home/me/project',
+    originator: 'codex_cli_rs',
+    cli_version: '0.42.0',
+    git: { branch: 'main', commit_hash: 'abc' },
+  }),
+  line('00', 'response_item', {
+    type: 'message',
+    role: 'user',
+    content: [{ type: 'input_text', text: '<environment_context>\n  <cwd>/home/me/project</cwd>\n</environment_context>' }],
+  }),
+  line('01', 'turn_context', { cwd: '/home/me/project', model: 'gpt-5-codex', effort: 'medium' }),
+  line('01', 'response_item', {
+    type: 'message',
+    role: 'user',
+    content: [{ type: 'input_text', text: 'List the files here' }],
+  }),
+  line('01', 'event_msg', { type: 'user_message', message: 'List the files here', kind: 'plain' }),
+  line('01', 'event_msg', { type: 'token_count', info: null }),
+  line('04', 'response_item', {
+    type: 'reasoning',
+    summary: [{ type: 'summary_text', text: '**Listing files**' }],
+    content: null,
+    encrypted_content: 'gAAAA',
+  }),
+  line('05', 'response_item', {
+    type: 'function_call',
+    name: 'shell',
+    arguments: '{"command":["bash","-lc","ls"],"workdir":"/home/me/project"}',
+    call_id: 'call_1',
+  }),
+  tokenCount('05', 1200, 1000, 60, 40),
+  line('07', 'response_item', {
+    type: 'function_call_output',
+    call_id: 'call_1',
+    output: '{"output":"a.txt\\nb.txt\\n","metadata":{"exit_code":0,"duration_seconds":0.1}}',
+  }),
+  line('09', 'response_item', {
+    type: 'message',
+    role: 'assistant',
+    content: [{ type: 'output_text', text: 'There are two files.' }],
+  }),
+  line('09', 'event_msg', { type: 'agent_message', message: 'There are two files.' }),
+  tokenCount('09', 1300, 1200, 10, 0),
+  // A repeated count without new output must not be attributed twice
+  tokenCount('09', 1300, 1200, 10, 0),
+].join('\n');
+
+describe('codexCliParser', () => {
+  describe('canParse', () => {
+    it('accepts wrapped rollouts', () => {
+      expect(codexCliParser.canParse(rollout)).toBe(true);
+    });
+
+    it('accepts older rollouts with a bare header and items', () => {
+      const legacy = [
+        '{"id":"0199","timestamp":"2025-05-01T10:00:00.000Z","instructions":null}',
+        '{"type":"message","role":"user","content":[{"type":"input_text","text":"hi"}]}',
+        '{"record_type":"state"}',
+      ].join('\n');
+      expect(codexCliParser.canParse(legacy)).toBe(true);
+    });
+
+    it('rejects Claude Code JSONL and OpenAI logs', () => {
+      expect(codexCliParser.canParse('{"type":"user","uuid":"1","message":{"role":"user","content":"hi"}}')).toBe(false);
+      expect(codexCliParser.canParse({ model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] })).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    const conversation = codexCliParser.parse(rollout);
+
+    it('maps response items to turns', () => {
+      expect(conversation.turns.map(t => t.role)).toEqual(['system', 'user', 'assistant', 'assistant', 'user', 'assistant']);
+      expect(conversation.turns[2].content[0]).toMatchObject({ type: 'thinking', thinking: '**Listing files**' });
+      expect(conversation.turns[3].content[0]).toEqual({
+        type: 'tool_use', id: 'call_1', name: 'shell', input: { command: ['bash', '-lc', 'ls'], workdir: '/home/me/project' },
+      });
+      expect(conversation.turns[4].content[0]).toEqual({
+        type: 'tool_result', tool_use_id: 'call_1', content: 'a.txt\nb.txt\n',
+      });
+    });
+
+    it('tags assistant turns with the turn context model', () => {
+      expect(conversation.turns[3].model).toBe('gpt-5-codex');
+      expect(conversation.turns[1].model).toBeUndefined();
+    });
+
+    it('fills usage from token_count events', () => {
+      expect(conversation.turns[2].usage).toBeUndefined();
+      expect(conversation.turns[3].usage).toEqual({
+        input_tokens: 200,
+        output_tokens: 60,
+        cache_read_input_tokens: 1000,
+        thinking_tokens: 40,
+      });
+      expect(conversation.turns[5].usage).toEqual({
+        input_tokens: 100,
+        output_tokens: 10,
+        cache_read_input_tokens: 1200,
+      });
+      expect(conversation.meta.total_usage?.input_tokens).toBe(300);
+      expect(conversation.meta.total_usage?.output_tokens).toBe(70);
+    });
+
+    it('builds metadata from the session', () => {
+      expect(conversation.meta).toMatchObject({
+        id: '0199a1b2-c3d4-7e5f',
+        title: 'Session 0199a1b2...',
+        source: 'codex-cli',
+        source_version: '0.42.0',
+        cwd: '/home/me/project',
+        git_branch: 'main',
+        model: 'gpt-5-codex',
+        duration_ms: 9000,
+      });
+      expect(conversation.entries).toHaveLength(conversation.turns.length);
+    });
+
+    it('groups one prompt into a single cluster', () => {
+      const clusters = buildClusters(conversation);
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].thinkingCount).toBe(1);
+      expect(clusters[0].toolCount).toBe(1);
+      // Every request's usage counts towards the cluster
+      expect(calculateClusterMetrics(clusters)[0].outputTokens).toBe(70);
+
+      const searchable = extractSearchableContent(clusters, conversation.entries, conversation.meta.source);
+      expect(searchable[0].toolResults[0].durationMs).toBe(2000);
+      expect(searchable[0].thinkingBlocks[0].durationMs).toBe(3000);
+    });
+
+    it('keeps CLI errors as system turns', () => {
+      const withError = `${rollout}\n${line('10', 'event_msg', { type: 'error', message: 'stream disconnected' })}`;
+      const parsed = codexCliParser.parse(withError);
+      expect(parsed.turns[parsed.turns.length - 1].error).toBe('stream disconnected');
+      expect(parsed.meta.hasErrors).toBe(true);
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects rollouts as codex-cli', () => {
+      expect(parserRegistry.parseContent(rollout).sourceId).toBe('codex-cli');
+    });
+
+    it('still detects Claude Code JSONL as claude-code', () => {
+      const jsonl = '{"type":"user","uuid":"1","message":{"role":"user","content":"hi"}}';
+      expect(parserRegistry.parseContent(jsonl).sourceId).toBe('claude-code');
+    });
+  });
+});
+
+describe('parseToolOutput', () => {
+  it('unwraps shell output and flags non-zero exits', () => {
+    expect(parseToolOutput('{"output":"boom","metadata":{"exit_code":2}}')).toEqual({ content: 'boom', isError: true });
+    expect(parseToolOutput('Exit code: 1\nWall time: 0.1 seconds\nOutput:\nboom')).toMatchObject({ isError: true });
+  });
+
+  it('keeps plain text as is', () => {
+    expect(parseToolOutput('Success. Updated the following files:\nM a.txt')).toEqual({
+      content: 'Success. Updated the following files:\nM a.txt',
+      isError: false,
+    });
+  });
+});
+
+describe('parseTokenUsage', () => {
+  it('returns undefined without counts', () => {
+    expect(parseTokenUsage(undefined)).toBeUndefined();
+    expect(parseTokenUsage({ input_tokens: 0, cached_input_tokens: 0, output_tokens: 0, reasoning_output_tokens: 0 })).toBeUndefined();
+  });
+});
+
+describe('scoreCodexLines', () => {
+  it('requires rollout lines', () => {
+    expect(scoreCodexLines([])).toBe(0);
+    expect(scoreCodexLines([{ type: 'user', message: {} }])).toBe(0);
+    expect(scoreCodexLines([{ timestamp: 't', type: 'session_meta', payload: { id: 'x' } }])).toBe(1);
+  });
+});
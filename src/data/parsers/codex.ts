@@ -0,0 +1,442 @@
+/**
+ * Parser for Codex CLI session rollouts (JSONL)
+ *
+ * Codex CLI writes `~/.codex/sessions/YYYY/MM/DD/rollout-*.jsonl`, one
+ * `{ timestamp, type, payload }` line per event:
+ * - `session_meta`: session id, working directory, CLI version and git info
+ * - `turn_context`: the model and settings used for the following items
+ * - `response_item`: Responses API items (messages, `reasoning` summaries,
+ *   `function_call`/`function_call_output` and custom tool calls)
+ * - `event_msg`: UI events; `token_count` carries per-request token usage
+ *
+ * Older rollouts start with a bare `{ id, timestamp }` header and log the
+ * response items without a wrapper; both layouts are accepted.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  Turn,
+  ContentBlock,
+  TraceParser,
+  TokenUsage,
+  Entry,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { parseContentParts, parseResponseItem } from './openai';
+import { turnToEntry } from './shared';
+
+/** A turn plus the raw rollout line it came from */
+interface PendingTurn {
+  turn: Omit<Turn, 'id'>;
+  raw: Record<string, unknown>;
+  timestamp?: string;
+}
+
+/** A rollout line normalised to `{ type, payload }` */
+interface RolloutLine {
+  type: string;
+  payload: Record<string, unknown>;
+  timestamp?: string;
+  raw: Record<string, unknown>;
+}
+
+/** Session-level details from `session_meta` */
+interface SessionInfo {
+  id?: string;
+  timestamp?: string;
+  cwd?: string;
+  cliVersion?: string;
+  gitBranch?: string;
+}
+
+/** Raw token counts as logged by Codex */
+interface CodexTokenCounts {
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  reasoning_output_tokens: number;
+}
+
+/** Line types of the wrapped rollout layout */
+const ROLLOUT_TYPES = new Set(['session_meta', 'response_item', 'event_msg', 'turn_context', 'compacted']);
+
+/** Response item types logged bare by older rollouts */
+const RESPONSE_ITEM_TYPES = new Set([
+  'message',
+  'reasoning',
+  'function_call',
+  'function_call_output',
+  'custom_tool_call',
+  'custom_tool_call_output',
+  'local_shell_call',
+  'web_search_call',
+]);
+
+/**
+ * Prefixes of user-role messages that Codex injects itself (environment and
+ * AGENTS.md instructions, abort notices) rather than prompts the user typed
+ */
+const INJECTED_CONTEXT_PREFIXES = [
+  '<environment_context>',
+  '<user_instructions>',
+  '# AGENTS.md instructions',
+  '<turn_aborted>',
+];
+
+/** Number of lines sampled when scoring */
+const SCORE_SAMPLE_LINES = 50;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Split rollout text into raw line objects
+ * @param maxLines Stop reading after this many lines (for detection)
+ */
+function toRawLines(data: unknown, maxLines = Infinity): unknown[] {
+  if (Array.isArray(data)) return data;
+  if (typeof data !== 'string') return isObject(data) ? [data] : [];
+
+  const text = data.trim();
+  const lines: unknown[] = [];
+  // split() treats an Infinity limit as 0
+  for (const line of maxLines === Infinity ? text.split('\n') : text.split('\n', maxLines)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      lines.push(JSON.parse(trimmed));
+    } catch {
+      // Detection samples arbitrary text, so only warn when parsing
+      if (maxLines === Infinity) console.warn('Skipping invalid JSON line');
+    }
+  }
+  return lines;
+}
+
+/**
+ * Normalise a raw line from either rollout layout (null if not a rollout line)
+ */
+function toRolloutLine(raw: unknown): RolloutLine | null {
+  if (!isObject(raw)) return null;
+  const timestamp = typeof raw.timestamp === 'string' ? raw.timestamp : undefined;
+
+  if (typeof raw.type === 'string' && ROLLOUT_TYPES.has(raw.type) && isObject(raw.payload)) {
+    return { type: raw.type, payload: raw.payload, timestamp, raw };
+  }
+
+  // Older layout: bare response items after a `{ id, timestamp }` header
+  if (typeof raw.type === 'string' && RESPONSE_ITEM_TYPES.has(raw.type)) {
+    return { type: 'response_item', payload: raw, timestamp, raw };
+  }
+  if (raw.type === undefined && typeof raw.id === 'string' && timestamp) {
+    return { type: 'session_meta', payload: raw, timestamp, raw };
+  }
+
+  return null;
+}
+
+/**
+ * Score raw lines as a Codex rollout (0–1).
+ * Wrapped `session_meta`/`response_item` lines are unambiguous; the older
+ * bare layout needs its session header followed by response items.
+ */
+function scoreCodexLines(rawLines: unknown[]): number {
+  const sample = rawLines.slice(0, SCORE_SAMPLE_LINES);
+  if (sample.length === 0 || !sample.every(isObject)) return 0;
+
+  const lines = sample.map(toRolloutLine);
+  const wrapped = lines.some(line =>
+    line !== null && line.payload !== line.raw &&
+    (line.type === 'session_meta' || line.type === 'response_item'));
+  if (wrapped) return 1;
+
+  const hasHeader = lines[0]?.type === 'session_meta';
+  const hasItems = lines.some(line => line?.type === 'response_item');
+  return hasHeader && hasItems ? 0.9 : 0;
+}
+
+/**
+ * Read raw token counts from a `token_count` event.
+ * Prefers the usage of the last request, then the change in the running
+ * total, then counts logged directly on the event by older CLIs.
+ */
+function readTokenCounts(payload: Record<string, unknown>, previousTotal: CodexTokenCounts | undefined): {
+  counts?: CodexTokenCounts;
+  total?: CodexTokenCounts;
+} {
+  const toCounts = (raw: unknown): CodexTokenCounts | undefined => isObject(raw)
+    ? {
+      input_tokens: toCount(raw.input_tokens),
+      cached_input_tokens: toCount(raw.cached_input_tokens),
+      output_tokens: toCount(raw.output_tokens),
+      reasoning_output_tokens: toCount(raw.reasoning_output_tokens),
+    }
+    : undefined;
+
+  if (!isObject(payload.info)) {
+    return { counts: 'input_tokens' in payload ? toCounts(payload) : undefined };
+  }
+
+  const last = toCounts(payload.info.last_token_usage);
+  const total = toCounts(payload.info.total_token_usage);
+  if (last || !total) return { counts: last, total };
+
+  const before = previousTotal ?? { input_tokens: 0, cached_input_tokens: 0, output_tokens: 0, reasoning_output_tokens: 0 };
+  return {
+    counts: {
+      input_tokens: total.input_tokens - before.input_tokens,
+      cached_input_tokens: total.cached_input_tokens - before.cached_input_tokens,
+      output_tokens: total.output_tokens - before.output_tokens,
+      reasoning_output_tokens: total.reasoning_output_tokens - before.reasoning_output_tokens,
+    },
+    total,
+  };
+}
+
+/**
+ * Convert Codex token counts to TokenUsage.
+ * Codex input counts include cached tokens and output counts include
+ * reasoning tokens.
+ */
+function parseTokenUsage(counts: CodexTokenCounts | undefined): TokenUsage | undefined {
+  if (!counts || (counts.input_tokens <= 0 && counts.output_tokens <= 0)) return undefined;
+
+  const usage: TokenUsage = {
+    input_tokens: Math.max(0, counts.input_tokens - counts.cached_input_tokens),
+    output_tokens: counts.output_tokens,
+  };
+  if (counts.cached_input_tokens > 0) usage.cache_read_input_tokens = counts.cached_input_tokens;
+  if (counts.reasoning_output_tokens > 0) usage.thinking_tokens = counts.reasoning_output_tokens;
+  return usage;
+}
+
+/**
+ * Parse tool output into text and an error flag.
+ * Shell calls log `{"output": ..., "metadata": {"exit_code": ...}}` as a JSON
+ * string (or "Exit code: N" text in newer CLIs); a non-zero exit is an error.
+ */
+function parseToolOutput(output: unknown): { content: string; isError: boolean } {
+  if (Array.isArray(output)) {
+    const content = parseContentParts(output).map(b => (b.type === 'text' ? b.text : '')).join('\n');
+    return { content, isError: false };
+  }
+  if (isObject(output) && typeof output.content === 'string') {
+    return { content: output.content, isError: output.success === false };
+  }
+  if (typeof output !== 'string') {
+    return { content: output === undefined || output === null ? '' : JSON.stringify(output), isError: false };
+  }
+
+  if (output.startsWith('{')) {
+    try {
+      const parsed: unknown = JSON.parse(output);
+      if (isObject(parsed) && typeof parsed.output === 'string') {
+        const exitCode = isObject(parsed.metadata) ? parsed.metadata.exit_code : undefined;
+        return { content: parsed.output, isError: typeof exitCode === 'number' && exitCode !== 0 };
+      }
+    } catch {
+      // Plain text that happens to start with a brace
+    }
+  }
+
+  const exitCode = /^Exit code: (\d+)/.exec(output);
+  return { content: output, isError: !!exitCode && exitCode[1] !== '0' };
+}
+
+/**
+ * Check whether a user message was injected by Codex rather than typed
+ */
+function isInjectedContext(content: ContentBlock[]): boolean {
+  const first = content[0];
+  if (!first || first.type !== 'text') return false;
+  const text = first.text.trimStart();
+  return INJECTED_CONTEXT_PREFIXES.some(prefix => text.startsWith(prefix));
+}
+
+/**
+ * Convert a response item into a turn (null for items without content)
+ */
+function parseCodexItem(item: Record<string, unknown>): Omit<Turn, 'id'> | null {
+  const type = typeof item.type === 'string' ? item.type : 'message';
+
+  if (type.endsWith('_call_output')) {
+    const { content, isError } = parseToolOutput(item.output);
+    return {
+      role: 'user',
+      content: [{
+        type: 'tool_result',
+        tool_use_id: String(item.call_id ?? item.id ?? ''),
+        content,
+        ...(isError ? { is_error: true } : {}),
+      }],
+    };
+  }
+
+  if (type === 'local_shell_call' && isObject(item.action)) {
+    return {
+      role: 'assistant',
+      content: [{
+        type: 'tool_use',
+        id: String(item.call_id ?? item.id ?? ''),
+        name: 'local_shell',
+        input: { ...item.action },
+      }],
+    };
+  }
+
+  const turn = parseResponseItem(item);
+  if (!turn) return null;
+
+  if (turn.role === 'user' && isInjectedContext(turn.content)) {
+    return { ...turn, role: 'system' };
+  }
+  if (turn.role !== 'assistant' && turn.content.length === 0) return null;
+
+  return turn;
+}
+
+/**
+ * Convert rollout lines into pending turns and session details.
+ * Token counts follow the request they measure, so each `token_count` event
+ * fills the usage of the last assistant turn logged since the previous one.
+ */
+function rolloutToTurns(rawLines: unknown[]): { pending: PendingTurn[]; info: SessionInfo } {
+  const pending: PendingTurn[] = [];
+  const info: SessionInfo = {};
+  let model: string | undefined;
+  let unmeasured: PendingTurn | undefined;
+  let previousTotal: CodexTokenCounts | undefined;
+
+  for (const raw of rawLines) {
+    const line = toRolloutLine(raw);
+    if (!line) continue;
+    const { payload, timestamp } = line;
+
+    switch (line.type) {
+      case 'session_meta':
+        info.id ??= typeof payload.id === 'string' ? payload.id : undefined;
+        info.timestamp ??= typeof payload.timestamp === 'string' ? payload.timestamp : timestamp;
+        info.cwd ??= typeof payload.cwd === 'string' ? payload.cwd : undefined;
+        info.cliVersion ??= typeof payload.cli_version === 'string' ? payload.cli_version : undefined;
+        if (isObject(payload.git) && typeof payload.git.branch === 'string') {
+          info.gitBranch ??= payload.git.branch;
+        }
+        break;
+
+      case 'turn_context':
+        if (typeof payload.model === 'string') model = payload.model;
+        break;
+
+      case 'response_item': {
+        const turn = parseCodexItem(payload);
+        if (!turn) break;
+        const entry: PendingTurn = {
+          turn: turn.role === 'assistant' && model ? { ...turn, model } : turn,
+          raw: line.raw,
+          timestamp,
+        };
+        pending.push(entry);
+        if (turn.role === 'assistant') unmeasured = entry;
+        break;
+      }
+
+      case 'compacted':
+        if (typeof payload.message === 'string' && payload.message) {
+          pending.push({ turn: { role: 'system', content: [{ type: 'text', text: payload.message }] }, raw: line.raw, timestamp });
+        }
+        break;
+
+      case 'event_msg':
+        if (payload.type === 'token_count') {
+          const { counts, total } = readTokenCounts(payload, previousTotal);
+          if (total) previousTotal = total;
+          const usage = parseTokenUsage(counts);
+          if (usage && unmeasured) {
+            unmeasured.turn = { ...unmeasured.turn, usage };
+            unmeasured = undefined;
+          }
+        } else if (payload.type === 'error' && typeof payload.message === 'string') {
+          pending.push({
+            turn: { role: 'system', content: [{ type: 'text', text: payload.message }], error: payload.message },
+            raw: line.raw,
+            timestamp,
+          });
+        }
+        // Other events (user_message, agent_message, agent_reasoning, ...)
+        // repeat response items for the terminal UI
+        break;
+    }
+  }
+
+  return { pending, info };
+}
+
+/**
+ * Codex CLI rollout parser
+ */
+export const codexCliParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return scoreCodexLines(toRawLines(data, SCORE_SAMPLE_LINES)) > 0;
+  },
+
+  score(data: unknown): number {
+    return scoreCodexLines(toRawLines(data, SCORE_SAMPLE_LINES));
+  },
+
+  parse(data: unknown): Conversation {
+    const { pending, info } = rolloutToTurns(toRawLines(data));
+
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+    let parentId: string | undefined;
+
+    pending.forEach(({ turn: partial, raw, timestamp }, index) => {
+      const turn: Turn = {
+        ...partial,
+        id: `codex-${index}`,
+        timestamp,
+        parentId,
+      };
+      turns.push(turn);
+      entries.push(turnToEntry(turn, raw));
+      parentId = turn.id;
+    });
+
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t);
+    const firstTimestamp = info.timestamp ?? timestamps[0];
+    const lastTimestamp = timestamps[timestamps.length - 1] ?? firstTimestamp;
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const duration = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+      if (!isNaN(duration)) durationMs = duration;
+    }
+
+    const meta: ConversationMeta = {
+      id: info.id,
+      title: info.id ? `Session ${info.id.slice(0, 8)}...` : 'Codex CLI Session',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model: turns.find(t => t.model)?.model,
+      source: 'codex-cli',
+      source_version: info.cliVersion,
+      cwd: info.cwd,
+      git_branch: info.gitBranch,
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+};
+
+// Export helper functions for testing
+export { parseTokenUsage, parseToolOutput, rolloutToTurns, scoreCodexLines };
+
+export default codexCliParser;
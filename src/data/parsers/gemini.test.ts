@@ -0,0 +1,230 @@
+/**
+ * Tests for Gemini CLI session parser
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { geminiCliParser, parseParts, parseTokens, scoreGeminiRecord } from './gemini';
+import { parserRegistry } from './index';
+import { buildClusters, extractSearchableContent } from '../../core/clusters';
+
+const newState = () => ({ counter: 0, pendingByName: new Map<string, string[]>() });
+
+/** A `/chat save` checkpoint with a thought and a tool round trip */
+const checkpoint = [
+  { role: 'user', parts: [{ text: 'List the files here' }] },
+  {
+    role: 'model',
+    parts: [
+      { text: 'I should call ls.', thought: true, thoughtSignature: 'sig' },
+      { functionCall: { id: 'call-1', name: 'list_directory', args: { path: '.' } } },
+    ],
+  },
+  {
+    role: 'user',
+    parts: [{ functionResponse: { id: 'call-1', name: 'list_directory', response: { output: 'a.txt\nb.txt' } } }],
+  },
+  { role: 'model', parts: [{ text: 'There are two files.' }] },
+];
+
+/** A chat recording with recorded thoughts, a tool call and token counts */
+const recording = {
+  sessionId: 'abc12345-6789',
+  projectHash: 'ffff',
+  startTime: '2025-06-01T10:00:00.000Z',
+  lastUpdated: '2025-06-01T10:00:10.000Z',
+  messages: [
+    { id: 'm1', timestamp: '2025-06-01T10:00:00.000Z', type: 'user', content: 'Read package.json' },
+    {
+      id: 'm2',
+      timestamp: '2025-06-01T10:00:04.000Z',
+      type: 'gemini',
+      content: '',
+      model: 'gemini-2.5-pro',
+      thoughts: [
+        { subject: 'Planning', description: 'Read the file first.', timestamp: '2025-06-01T10:00:01.000Z' },
+      ],
+      toolCalls: [{
+        id: 'read_file-1',
+        name: 'read_file',
+        args: { absolute_path: '/p/package.json' },
+        result: [{ functionResponse: { id: 'read_file-1', name: 'read_file', response: { output: '{"name":"p"}' } } }],
+        status: 'success',
+        timestamp: '2025-06-01T10:00:06.000Z',
+      }],
+      tokens: { input: 1000, output: 50, cached: 400, thoughts: 30, tool: 0, total: 1080 },
+    },
+    {
+      id: 'm3',
+      timestamp: '2025-06-01T10:00:10.000Z',
+      type: 'gemini',
+      content: 'The package is called p.',
+      model: 'gemini-2.5-pro',
+      tokens: { input: 1100, output: 10 },
+    },
+    { id: 'm4', timestamp: '2025-06-01T10:00:10.000Z', type: 'error', content: 'Quota exceeded' },
+  ],
+};
+
+describe('geminiCliParser', () => {
+  describe('canParse', () => {
+    it('accepts a checkpoint array and its JSON text', () => {
+      expect(geminiCliParser.canParse(checkpoint)).toBe(true);
+      expect(geminiCliParser.canParse(JSON.stringify(checkpoint, null, 2))).toBe(true);
+    });
+
+    it('accepts restore checkpoints and chat recordings', () => {
+      expect(geminiCliParser.canParse({ clientHistory: checkpoint, commitHash: 'abc' })).toBe(true);
+      expect(geminiCliParser.canParse(JSON.stringify(recording))).toBe(true);
+    });
+
+    it('samples JSONL lines without parsing the whole text as one document', () => {
+      const jsonl = checkpoint.map(content => JSON.stringify(content)).join('\n');
+      const parse = vi.spyOn(JSON, 'parse');
+      const accepted = geminiCliParser.canParse(jsonl);
+      const wholeTextParses = parse.mock.calls.filter(([text]) => text === jsonl);
+      parse.mockRestore();
+
+      expect(accepted).toBe(true);
+      expect(wholeTextParses).toHaveLength(0);
+    });
+
+    it('rejects Claude Code JSONL and OpenAI logs', () => {
+      expect(geminiCliParser.canParse('{"type":"user","uuid":"1","message":{"role":"user","content":"hi"}}')).toBe(false);
+      expect(geminiCliParser.canParse({ model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] })).toBe(false);
+    });
+  });
+
+  describe('parse - checkpoint', () => {
+    const conversation = geminiCliParser.parse(JSON.stringify(checkpoint));
+
+    it('maps roles and thought parts', () => {
+      expect(conversation.turns.map(t => t.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+      expect(conversation.turns[1].content[0]).toEqual({ type: 'thinking', thinking: 'I should call ls.', signature: 'sig' });
+    });
+
+    it('maps function calls and responses to tool blocks', () => {
+      expect(conversation.turns[1].content[1]).toEqual({
+        type: 'tool_use', id: 'call-1', name: 'list_directory', input: { path: '.' },
+      });
+      expect(conversation.turns[2].content[0]).toEqual({
+        type: 'tool_result', tool_use_id: 'call-1', content: 'a.txt\nb.txt',
+      });
+    });
+
+    it('reads one content per line from JSONL', () => {
+      const jsonl = checkpoint.map(content => JSON.stringify(content)).join('\n');
+      expect(geminiCliParser.parse(jsonl).turns).toHaveLength(checkpoint.length);
+    });
+
+    it('builds metadata without session details', () => {
+      expect(conversation.meta.source).toBe('gemini-cli');
+      expect(conversation.meta.title).toBe('Gemini CLI Session');
+      expect(conversation.entries).toHaveLength(conversation.turns.length);
+    });
+
+    it('clusters tool results into the model cluster', () => {
+      const clusters = buildClusters(conversation);
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].thinkingCount).toBe(1);
+      expect(clusters[0].toolCount).toBe(1);
+
+      const searchable = extractSearchableContent(clusters, conversation.entries, conversation.meta.source);
+      expect(searchable[0].toolResults[0].content).toBe('a.txt\nb.txt');
+    });
+  });
+
+  describe('parse - chat recording', () => {
+    const conversation = geminiCliParser.parse(JSON.stringify(recording));
+
+    it('emits recorded tool results as a user turn after the call', () => {
+      expect(conversation.turns.map(t => t.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'system']);
+      expect(conversation.turns[1].content.map(b => b.type)).toEqual(['thinking', 'tool_use']);
+      expect(conversation.turns[2].content[0]).toEqual({
+        type: 'tool_result', tool_use_id: 'read_file-1', content: '{"name":"p"}',
+      });
+      expect(conversation.turns[2].timestamp).toBe('2025-06-01T10:00:06.000Z');
+    });
+
+    it('formats recorded thoughts as thinking text', () => {
+      expect(conversation.turns[1].content[0]).toEqual({ type: 'thinking', thinking: 'Planning\n\nRead the file first.' });
+    });
+
+    it('keeps CLI errors as system turns', () => {
+      expect(conversation.turns[4].error).toBe('Quota exceeded');
+      expect(conversation.meta.hasErrors).toBe(true);
+    });
+
+    it('builds metadata from the session', () => {
+      expect(conversation.meta.id).toBe('abc12345-6789');
+      expect(conversation.meta.title).toBe('Session abc12345...');
+      expect(conversation.meta.model).toBe('gemini-2.5-pro');
+      expect(conversation.meta.duration_ms).toBe(10000);
+      expect(conversation.meta.total_usage?.input_tokens).toBe(1700);
+      expect(conversation.meta.total_usage?.output_tokens).toBe(90);
+    });
+
+    it('times thoughts and tool calls', () => {
+      const clusters = buildClusters(conversation);
+      const searchable = extractSearchableContent(clusters, conversation.entries, conversation.meta.source);
+      expect(searchable[0].thinkingBlocks[0].durationMs).toBe(3000);
+      expect(searchable[0].toolResults[0].durationMs).toBe(2000);
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects checkpoints and recordings', () => {
+      expect(parserRegistry.parseContent(JSON.stringify(checkpoint)).sourceId).toBe('gemini-cli');
+      expect(parserRegistry.parseContent(JSON.stringify(recording, null, 2)).sourceId).toBe('gemini-cli');
+    });
+
+    it('still detects Claude Code JSONL as claude-code', () => {
+      const jsonl = '{"type":"user","uuid":"1","message":{"role":"user","content":"hi"}}';
+      expect(parserRegistry.parseContent(jsonl).sourceId).toBe('claude-code');
+    });
+  });
+});
+
+describe('parseParts', () => {
+  it('links responses to id-less calls by name', () => {
+    const state = newState();
+    const calls = parseParts([{ functionCall: { name: 'shell', args: {} } }], state);
+    const results = parseParts([{ functionResponse: { name: 'shell', response: { error: 'denied' } } }], state);
+    expect(calls[0]).toMatchObject({ type: 'tool_use', id: 'gemini-call-0' });
+    expect(results[0]).toEqual({ type: 'tool_result', tool_use_id: 'gemini-call-0', content: 'denied', is_error: true });
+  });
+
+  it('maps inline images and files', () => {
+    const blocks = parseParts([
+      { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+      { fileData: { mimeType: 'application/pdf', fileUri: 'gs://b/doc.pdf' } },
+    ], newState());
+    expect(blocks[0]).toEqual({ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } });
+    expect(blocks[1]).toMatchObject({ type: 'document', source: { type: 'url', url: 'gs://b/doc.pdf' } });
+  });
+
+  it('accepts a bare string', () => {
+    expect(parseParts('hello', newState())).toEqual([{ type: 'text', text: 'hello' }]);
+  });
+});
+
+describe('parseTokens', () => {
+  it('splits out cached tokens and counts thoughts as output', () => {
+    expect(parseTokens({ input: 1000, output: 50, cached: 400, thoughts: 30 })).toEqual({
+      input_tokens: 600,
+      output_tokens: 80,
+      cache_read_input_tokens: 400,
+      thinking_tokens: 30,
+    });
+  });
+
+  it('returns undefined without counts', () => {
+    expect(parseTokens(undefined)).toBeUndefined();
+  });
+});
+
+describe('scoreGeminiRecord', () => {
+  it('scores user-only text contents lower', () => {
+    expect(scoreGeminiRecord([{ role: 'user', parts: [{ text: 'hi' }] }])).toBe(0.6);
+    expect(scoreGeminiRecord(checkpoint)).toBe(1);
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * Parser for Gemini CLI sessions (JSON or JSONL)
+ *
+ * Accepts the shapes Gemini CLI writes under `~/.gemini/tmp/<project>/`:
+ * - Chat checkpoints (`/chat save`): an array of `{ role, parts }` contents
+ * - Restore checkpoints wrapping the same contents in `history`/`clientHistory`
+ * - Chat recordings (`chats/session-*.json`): `{ sessionId, messages }` where
+ *   each message is a `user` or `gemini` record with thoughts, tool calls and tokens
+ *
+ * `thought` parts become thinking blocks, `functionCall`/`functionResponse`
+ * parts become tool_use/tool_result blocks.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  Turn,
+  ContentBlock,
+  TraceParser,
+  TokenUsage,
+  Entry,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { parseJsonText, turnToEntry } from './shared';
+
+/** A turn plus the raw record it came from */
+interface PendingTurn {
+  turn: Omit<Turn, 'id'>;
+  raw: Record<string, unknown>;
+}
+
+/** Session-level details of a chat recording */
+interface RecordingInfo {
+  sessionId?: string;
+  startTime?: string;
+  lastUpdated?: string;
+}
+
+/** Content roles used in Gemini API histories */
+const CONTENT_ROLES = new Set(['user', 'model', 'function']);
+
+/** Message types written to chat recordings */
+const RECORDING_TYPES = new Set(['user', 'gemini', 'info', 'error', 'warning']);
+
+/** Part keys that only exist in Gemini payloads */
+const GEMINI_PART_KEYS = ['functionCall', 'functionResponse', 'thought', 'inlineData', 'fileData', 'executableCode'];
+
+/** Number of records sampled when scoring */
+const SCORE_SAMPLE_RECORDS = 50;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is a Gemini API content (`{ role, parts }`)
+ */
+function isContent(value: unknown): value is Record<string, unknown> & { parts: unknown[] } {
+  return isObject(value) && Array.isArray(value.parts) &&
+    (value.role === undefined || (typeof value.role === 'string' && CONTENT_ROLES.has(value.role)));
+}
+
+/**
+ * Check whether a value is a chat recording (`{ messages: [{ type, content }] }`)
+ */
+function isRecording(value: unknown): value is Record<string, unknown> & { messages: unknown[] } {
+  return isObject(value) && Array.isArray(value.messages) && value.messages.length > 0 &&
+    value.messages.every(m => isObject(m) && typeof m.type === 'string' && RECORDING_TYPES.has(m.type) && 'content' in m);
+}
+
+/**
+ * Get the contents of a checkpoint (a bare array or a restore checkpoint wrapper)
+ */
+function getCheckpointContents(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (!isObject(value)) return null;
+  if (Array.isArray(value.clientHistory)) return value.clientHistory;
+  if (Array.isArray(value.history)) return value.history;
+  return null;
+}
+
+/**
+ * Assigns ids to function calls that have none and links responses back to them.
+ * Older histories only match calls and responses by function name.
+ */
+interface CallState {
+  counter: number;
+  pendingByName: Map<string, string[]>;
+}
+
+function newCallState(): CallState {
+  return { counter: 0, pendingByName: new Map() };
+}
+
+function registerCall(state: CallState, name: string, id: unknown): string {
+  const callId = typeof id === 'string' && id ? id : `gemini-call-${state.counter++}`;
+  const pending = state.pendingByName.get(name) ?? [];
+  pending.push(callId);
+  state.pendingByName.set(name, pending);
+  return callId;
+}
+
+function resolveCall(state: CallState, name: string, id: unknown): string {
+  const pending = state.pendingByName.get(name) ?? [];
+  if (typeof id === 'string' && id) {
+    const index = pending.indexOf(id);
+    if (index >= 0) pending.splice(index, 1);
+    return id;
+  }
+  return pending.shift() ?? `gemini-call-${name}`;
+}
+
+/**
+ * Stringify a value for display, keeping strings as they are
+ */
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined || value === null) return '';
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Flatten a `functionResponse.response` into result text.
+ * Gemini CLI wraps tool output as `{ output }` and failures as `{ error }`.
+ */
+function parseFunctionResponse(response: unknown): { content: string; isError: boolean } {
+  if (!isObject(response)) return { content: stringify(response), isError: false };
+  if (response.error !== undefined && response.output === undefined) {
+    return { content: stringify(isObject(response.error) ? response.error.message ?? response.error : response.error), isError: true };
+  }
+  if (response.output !== undefined) return { content: stringify(response.output), isError: false };
+  if (response.content !== undefined) return { content: stringify(response.content), isError: false };
+  return { content: stringify(response), isError: false };
+}
+
+/**
+ * Convert inline or file data to an image or document block
+ */
+function parseDataPart(data: Record<string, unknown>, inline: boolean): ContentBlock {
+  const mediaType = typeof data.mimeType === 'string' ? data.mimeType : undefined;
+  const source = inline
+    ? { type: 'base64' as const, media_type: mediaType, data: String(data.data ?? '') }
+    : { type: 'url' as const, media_type: mediaType, url: String(data.fileUri ?? '') };
+
+  if (mediaType?.startsWith('image/')) return { type: 'image', source };
+  return { type: 'document', source, title: typeof data.displayName === 'string' ? data.displayName : undefined };
+}
+
+/**
+ * Parse Gemini parts (a part list, a single part or a string) into content blocks
+ */
+function parseParts(parts: unknown, state: CallState): ContentBlock[] {
+  if (typeof parts === 'string') return parts ? [{ type: 'text', text: parts }] : [];
+  if (isObject(parts)) return parseParts([parts], state);
+  if (!Array.isArray(parts)) return [];
+
+  const blocks: ContentBlock[] = [];
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      if (part) blocks.push({ type: 'text', text: part });
+      continue;
+    }
+    if (!isObject(part)) continue;
+
+    if (part.thought === true) {
+      blocks.push({
+        type: 'thinking',
+        thinking: String(part.text ?? ''),
+        ...(typeof part.thoughtSignature === 'string' ? { signature: part.thoughtSignature } : {}),
+      });
+    } else if (typeof part.text === 'string') {
+      if (part.text) blocks.push({ type: 'text', text: part.text });
+    } else if (isObject(part.functionCall)) {
+      const name = String(part.functionCall.name ?? '');
+      blocks.push({
+        type: 'tool_use',
+        id: registerCall(state, name, part.functionCall.id),
+        name,
+        input: isObject(part.functionCall.args) ? part.functionCall.args : {},
+      });
+    } else if (isObject(part.functionResponse)) {
+      const name = String(part.functionResponse.name ?? '');
+      const { content, isError } = parseFunctionResponse(part.functionResponse.response);
+      blocks.push({
+        type: 'tool_result',
+        tool_use_id: resolveCall(state, name, part.functionResponse.id),
+        content,
+        ...(isError ? { is_error: true } : {}),
+      });
+    } else if (isObject(part.executableCode)) {
+      blocks.push({
+        type: 'tool_use',
+        id: registerCall(state, 'code_execution', undefined),
+        name: 'code_execution',
+        input: { language: part.executableCode.language, code: part.executableCode.code },
+      });
+    } else if (isObject(part.codeExecutionResult)) {
+      blocks.push({
+        type: 'tool_result',
+        tool_use_id: resolveCall(state, 'code_execution', undefined),
+        content: stringify(part.codeExecutionResult.output),
+        ...(part.codeExecutionResult.outcome !== 'OUTCOME_OK' ? { is_error: true } : {}),
+      });
+    } else if (isObject(part.inlineData)) {
+      blocks.push(parseDataPart(part.inlineData, true));
+    } else if (isObject(part.fileData)) {
+      blocks.push(parseDataPart(part.fileData, false));
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Convert checkpoint contents into pending turns
+ */
+function contentsToTurns(contents: unknown[], state: CallState): PendingTurn[] {
+  const pending: PendingTurn[] = [];
+  for (const content of contents) {
+    if (!isContent(content)) continue;
+    pending.push({
+      turn: {
+        role: content.role === 'model' ? 'assistant' : 'user',
+        content: parseParts(content.parts, state),
+      },
+      raw: content,
+    });
+  }
+  return pending;
+}
+
+/**
+ * Parse chat recording token counts into TokenUsage.
+ * Gemini counts cached tokens inside the input total and thoughts outside
+ * the output total, so both are moved to match the convention used by metrics.
+ */
+function parseTokens(raw: unknown): TokenUsage | undefined {
+  if (!isObject(raw)) return undefined;
+
+  const num = (value: unknown) => (typeof value === 'number' && isFinite(value) ? value : undefined);
+  const input = num(raw.input);
+  const output = num(raw.output);
+  const cached = num(raw.cached);
+  const thoughts = num(raw.thoughts);
+  if (input === undefined && output === undefined) return undefined;
+
+  const usage: TokenUsage = {
+    input_tokens: input !== undefined ? input - (cached ?? 0) : undefined,
+    output_tokens: output !== undefined ? output + (thoughts ?? 0) : thoughts,
+  };
+  if (cached) usage.cache_read_input_tokens = cached;
+  if (thoughts) usage.thinking_tokens = thoughts;
+  return usage;
+}
+
+/**
+ * Format a recorded thought (`{ subject, description }`) as thinking text
+ */
+function formatThought(thought: Record<string, unknown>): string {
+  const subject = typeof thought.subject === 'string' ? thought.subject.trim() : '';
+  const description = typeof thought.description === 'string' ? thought.description.trim() : '';
+  return subject && description ? `${subject}\n\n${description}` : subject || description;
+}
+
+/**
+ * Get the result blocks of a recorded tool call
+ */
+function parseToolCallResult(call: Record<string, unknown>, id: string): ContentBlock {
+  const failed = call.status === 'error' || call.status === 'cancelled';
+  const responses = (Array.isArray(call.result) ? call.result : [call.result])
+    .filter(isObject)
+    .map(part => (isObject(part.functionResponse) ? parseFunctionResponse(part.functionResponse.response) : null))
+    .filter((r): r is { content: string; isError: boolean } => r !== null);
+
+  const content = responses.length > 0
+    ? responses.map(r => r.content).join('\n')
+    : stringify(call.resultDisplay ?? call.result);
+
+  return {
+    type: 'tool_result',
+    tool_use_id: id,
+    content,
+    ...(failed || responses.some(r => r.isError) ? { is_error: true } : {}),
+  };
+}
+
+/**
+ * Convert a chat recording into pending turns.
+ * Tool results are emitted as a user turn after the message that called them,
+ * like Claude Code logs them, so they fold into the same cluster.
+ */
+function recordingToTurns(messages: unknown[], state: CallState): Array<PendingTurn & { timestamp?: string }> {
+  const pending: Array<PendingTurn & { timestamp?: string }> = [];
+
+  for (const message of messages) {
+    if (!isObject(message)) continue;
+    const timestamp = typeof message.timestamp === 'string' ? message.timestamp : undefined;
+
+    if (message.type === 'user') {
+      pending.push({ turn: { role: 'user', content: parseParts(message.content, state) }, raw: message, timestamp });
+      continue;
+    }
+
+    if (message.type !== 'gemini') {
+      // info / warning / error notices from the CLI itself
+      const text = stringify(message.content);
+      pending.push({
+        turn: {
+          role: 'system',
+          content: text ? [{ type: 'text', text }] : [],
+          ...(message.type === 'error' ? { error: text } : {}),
+        },
+        raw: message,
+        timestamp,
+      });
+      continue;
+    }
+
+    const content: ContentBlock[] = [];
+    if (Array.isArray(message.thoughts)) {
+      for (const thought of message.thoughts) {
+        if (isObject(thought) && formatThought(thought)) {
+          content.push({ type: 'thinking', thinking: formatThought(thought) });
+        }
+      }
+    }
+    content.push(...parseParts(message.content, state));
+
+    const calls = Array.isArray(message.toolCalls) ? message.toolCalls.filter(isObject) : [];
+    const results: Array<{ block: ContentBlock; call: Record<string, unknown> }> = [];
+    for (const call of calls) {
+      // Recorded calls carry their result, so they never need matching by name
+      const id = typeof call.id === 'string' && call.id ? call.id : `gemini-call-${state.counter++}`;
+      content.push({ type: 'tool_use', id, name: String(call.name ?? ''), input: isObject(call.args) ? call.args : {} });
+      if (call.result !== undefined || call.resultDisplay !== undefined || call.status !== undefined) {
+        results.push({ block: parseToolCallResult(call, id), call });
+      }
+    }
+
+    pending.push({
+      turn: {
+        role: 'assistant',
+        content,
+        model: typeof message.model === 'string' ? message.model : undefined,
+        usage: parseTokens(message.tokens),
+      },
+      raw: message,
+      timestamp,
+    });
+
+    if (results.length > 0) {
+      const last = results[results.length - 1].call;
+      pending.push({
+        turn: { role: 'user', content: results.map(r => r.block) },
+        raw: { toolCalls: results.map(r => r.call) },
+        timestamp: typeof last.timestamp === 'string' ? last.timestamp : timestamp,
+      });
+    }
+  }
+
+  return pending;
+}
+
+/**
+ * Check if a line holds a JSON value on its own
+ */
+function isJsonLine(line: string): boolean {
+  try {
+    JSON.parse(line);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turn raw input (JSON string, JSONL string, object or array) into one raw session.
+ * JSONL holds one content per line and becomes a checkpoint array.
+ * @param maxLines Stop reading JSONL after this many lines (for detection)
+ */
+function toRawSession(data: unknown, maxLines = Infinity): unknown {
+  if (typeof data !== 'string') return data;
+
+  const text = data.trim();
+  if (!text) return null;
+
+  // Detection only reads the first lines of JSONL, so don't parse it all as
+  // one document first
+  const newline = text.indexOf('\n');
+  if (maxLines === Infinity || newline === -1 || !isJsonLine(text.slice(0, newline))) {
+    try {
+      return parseJsonText(data);
+    } catch {
+      // Fall through to JSONL
+    }
+  }
+
+  const contents: unknown[] = [];
+  // split() treats an Infinity limit as 0
+  const lines = maxLines === Infinity ? text.split('\n') : text.split('\n', maxLines);
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      contents.push(JSON.parse(trimmed));
+    } catch {
+      // Detection samples arbitrary text, so only warn when parsing
+      if (maxLines === Infinity) console.warn('Skipping invalid JSON line');
+    }
+  }
+  return contents;
+}
+
+/**
+ * Score how strongly a list of contents looks like a Gemini history (0–1).
+ * Model turns and Gemini-only parts are unambiguous; user-only text is not.
+ */
+function scoreContents(contents: unknown[]): number {
+  const sample = contents.slice(0, SCORE_SAMPLE_RECORDS);
+  if (sample.length === 0 || !sample.every(isContent)) return 0;
+
+  const hasGeminiMarkers = sample.some(content =>
+    content.role === 'model' ||
+    content.parts.some(part => isObject(part) && GEMINI_PART_KEYS.some(key => key in part))
+  );
+  return hasGeminiMarkers ? 1 : 0.6;
+}
+
+/**
+ * Score a raw value as a Gemini CLI session (0–1)
+ */
+function scoreGeminiRecord(raw: unknown): number {
+  if (isRecording(raw)) {
+    const hasGemini = raw.messages.some(m => isObject(m) && m.type === 'gemini');
+    return hasGemini || typeof raw.sessionId === 'string' ? 1 : 0.6;
+  }
+
+  const contents = getCheckpointContents(raw);
+  return contents ? scoreContents(contents) : 0;
+}
+
+/**
+ * Convert a raw record into pending turns and session details
+ */
+function recordToTurns(raw: unknown): { pending: Array<PendingTurn & { timestamp?: string }>; info: RecordingInfo } {
+  const state = newCallState();
+
+  if (isRecording(raw)) {
+    return {
+      pending: recordingToTurns(raw.messages, state),
+      info: {
+        sessionId: typeof raw.sessionId === 'string' ? raw.sessionId : undefined,
+        startTime: typeof raw.startTime === 'string' ? raw.startTime : undefined,
+        lastUpdated: typeof raw.lastUpdated === 'string' ? raw.lastUpdated : undefined,
+      },
+    };
+  }
+
+  return { pending: contentsToTurns(getCheckpointContents(raw) ?? [], state), info: {} };
+}
+
+/**
+ * Gemini CLI session parser
+ */
+export const geminiCliParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return scoreGeminiRecord(toRawSession(data, SCORE_SAMPLE_RECORDS)) > 0;
+  },
+
+  score(data: unknown): number {
+    return scoreGeminiRecord(toRawSession(data, SCORE_SAMPLE_RECORDS));
+  },
+
+  parse(data: unknown): Conversation {
+    const { pending, info } = recordToTurns(toRawSession(data));
+
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+    let parentId: string | undefined;
+
+    pending.forEach(({ turn: partial, raw, timestamp }, index) => {
+      const turn: Turn = {
+        ...partial,
+        id: `gemini-${index}`,
+        timestamp,
+        parentId,
+      };
+      turns.push(turn);
+      entries.push(turnToEntry(turn, raw));
+      parentId = turn.id;
+    });
+
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t);
+    const firstTimestamp = info.startTime ?? timestamps[0];
+    const lastTimestamp = info.lastUpdated ?? timestamps[timestamps.length - 1];
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const duration = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+      if (!isNaN(duration)) durationMs = duration;
+    }
+
+    const meta: ConversationMeta = {
+      id: info.sessionId,
+      title: info.sessionId ? `Session ${info.sessionId.slice(0, 8)}...` : 'Gemini CLI Session',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model: turns.find(t => t.model)?.model,
+      source: 'gemini-cli',
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+};
+
+// Export helper functions for testing
+export { parseParts, parseTokens, contentsToTurns, recordingToTurns, scoreGeminiRecord };
+
+export default geminiCliParser;
@@ -2,8 +2,28 @@
  * Parser Registry - manages trace file parsers and auto-detection
  */
 
-import type { Conversation, TraceParser } from '../types';
+import type { Conversation, ConversationSummary, TraceParser } from '../types';
 import { claudeCodeParser } from './claude-code';
+import { anthropicApiParser } from './anthropic';
+import { openaiParser } from './openai';
+import { geminiCliParser } from './gemini';
+import { codexCliParser } from './codex';
+import { chatgptParser } from './chatgpt';
+import { ampParser } from './amp';
+import { clineParser } from './cline';
+import { otelParser } from './otel';
+import { langsmithParser } from './langsmith';
+import { thinkingTracerParser } from './thinking-tracer';
+import { parseJsonText, releaseJsonText } from './shared';
+
+/**
+ * A parser that matched the input during detection
+ */
+export interface DetectionCandidate {
+  sourceId: string;
+  /** How well the input matches the parser's expected shape (0–1) */
+  confidence: number;
+}
 
 /**
  * Result of parsing with source detection
@@ -12,6 +32,31 @@ export interface ParseResult {
   conversation: Conversation;
   sourceId: string;
   confidence: number;
+  /** Runner-up parsers that also matched, best first */
+  candidates: DetectionCandidate[];
+  /** Conversations in the file when it holds more than one; the parsed one has conversation.meta.id */
+  conversations?: ConversationSummary[];
+}
+
+/**
+ * Detection outcome without the parsed conversation
+ */
+export type SourceDetection = Omit<ParseResult, 'conversation'>;
+
+/** Below this confidence, detection is treated as uncertain */
+export const AMBIGUOUS_CONFIDENCE = 0.75;
+
+/** A runner-up within this margin of the best score makes detection ambiguous */
+export const AMBIGUOUS_MARGIN = 0.15;
+
+/**
+ * Check whether a detection result is ambiguous enough that the user
+ * should be offered a choice of parser
+ */
+export function isAmbiguousDetection(result: Pick<SourceDetection, 'confidence' | 'candidates'>): boolean {
+  if (result.candidates.length === 0) return false;
+  if (result.confidence < AMBIGUOUS_CONFIDENCE) return true;
+  return result.confidence - result.candidates[0].confidence <= AMBIGUOUS_MARGIN;
 }
 
 /**
@@ -23,6 +68,17 @@ interface RegisteredParser {
   priority: number;
 }
 
+/**
+ * Parse JSON file content, wrapping syntax errors
+ */
+function parseJSON(content: string): unknown {
+  try {
+    return parseJsonText(content);
+  } catch (error) {
+    throw new Error(`Failed to parse file: ${error}`);
+  }
+}
+
 /**
  * Parser Registry - manages multiple parsers and auto-detection
  */
@@ -68,28 +124,106 @@ class ParserRegistry {
   }
 
   /**
-   * Detect the source and parse the data
-   * Tries each parser in priority order until one succeeds
+   * Score every parser against the data
+   * @returns Matching parsers ordered by confidence, then priority
    */
-  detectAndParse(data: unknown): ParseResult {
+  detect(data: unknown): DetectionCandidate[] {
+    const candidates: DetectionCandidate[] = [];
+
     for (const { sourceId, parser } of this.parsers) {
-      if (parser.canParse(data)) {
-        const conversation = parser.parse(data);
-        return {
-          conversation,
-          sourceId,
-          confidence: 1.0, // Future: implement confidence scoring
-        };
+      if (!parser.canParse(data)) continue;
+
+      const score = parser.score ? parser.score(data) : 1.0;
+      const confidence = Math.max(0, Math.min(1, Number.isFinite(score) ? score : 0));
+      if (confidence > 0) {
+        candidates.push({ sourceId, confidence });
       }
     }
 
-    throw new Error('No registered parser can handle this file format');
+    // Stable sort keeps priority order for equal scores
+    return candidates.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Detect the source and parse the data
+   * Uses the best-scoring parser and reports the runner-ups
+   */
+  detectAndParse(data: unknown, conversationId?: string): ParseResult {
+    return this.parseDetected(data, this.detect(data), conversationId);
+  }
+
+  /**
+   * Parse data with the best of the detected candidates
+   */
+  private parseDetected(data: unknown, detected: DetectionCandidate[], conversationId?: string): ParseResult {
+    const [best, ...candidates] = detected;
+    if (!best) {
+      throw new Error('No registered parser can handle this file format');
+    }
+
+    const parser = this.getParser(best.sourceId)!;
+    const conversation = parser.parse(data, { conversationId });
+    return {
+      conversation,
+      sourceId: best.sourceId,
+      confidence: best.confidence,
+      candidates,
+      ...this.listConversations(parser, data),
+    };
+  }
+
+  /**
+   * Parse file content, detecting the source unless one is given.
+   * Content no parser accepts as text is parsed as JSON first.
+   * @param sourceId Parse with this source instead of auto-detecting
+   * @param conversationId Conversation to parse from a file holding several
+   */
+  parseContent(content: string, sourceId?: string, conversationId?: string): ParseResult {
+    try {
+      return this.parseContentOnce(content, sourceId, conversationId);
+    } finally {
+      releaseJsonText();
+    }
+  }
+
+  /**
+   * Parse file content; parsers asked about the same text share one JSON parse of it
+   */
+  private parseContentOnce(content: string, sourceId?: string, conversationId?: string): ParseResult {
+    if (sourceId) {
+      const data = this.getParser(sourceId)?.canParse(content) ? content : parseJSON(content);
+      const conversation = this.parseWithSource(data, sourceId, conversationId);
+
+      // Keep the other candidates so the choice can be changed again
+      const candidates = this.detect(data);
+      return {
+        conversation,
+        sourceId,
+        confidence: candidates.find(c => c.sourceId === sourceId)?.confidence ?? 0,
+        candidates: candidates.filter(c => c.sourceId !== sourceId),
+        ...this.listConversations(this.getParser(sourceId)!, data),
+      };
+    }
+
+    // Try parsers on the raw text first (handles JSONL and other formats)
+    const textCandidates = this.detect(content);
+    if (textCandidates.length > 0) {
+      return this.parseDetected(content, textCandidates, conversationId);
+    }
+
+    const data = parseJSON(content);
+    const candidates = this.detect(data);
+    if (candidates.length === 0) {
+      throw new Error('Unsupported conversation format');
+    }
+    return this.parseDetected(data, candidates, conversationId);
   }
 
   /**
    * Parse data with a specific parser
+   * @param conversationId Conversation to parse from data holding several
    */
-  parseWithSource(data: unknown, sourceId: string): Conversation {
+  parseWithSource(data: unknown, sourceId: string, conversationId?: string): Conversation {
     const entry = this.parsers.find(p => p.sourceId === sourceId);
     if (!entry) {
       throw new Error(`Unknown source: ${sourceId}`);
@@ -97,7 +231,42 @@ class ParserRegistry {
     if (!entry.parser.canParse(data)) {
       throw new Error(`Parser for ${sourceId} cannot handle this data`);
     }
-    return entry.parser.parse(data);
+    return entry.parser.parse(data, { conversationId });
+  }
+
+  /**
+   * List the conversations in data when the parser finds more than one
+   */
+  private listConversations(parser: TraceParser, data: unknown): Pick<ParseResult, 'conversations'> {
+    const conversations = parser.listConversations?.(data) ?? [];
+    return conversations.length > 1 ? { conversations } : {};
+  }
+
+  /**
+   * Check whether a conversation parsed from content can be extended with
+   * text appended to it. Only content the parser reads as text (JSONL) is
+   * line-oriented; a JSON document that grows has to be parsed again.
+   * @param content Source text the conversation was parsed from
+   */
+  canAppend(sourceId: string, content: string): boolean {
+    const parser = this.getParser(sourceId);
+    return typeof parser?.append === 'function' && parser.canParse(content);
+  }
+
+  /**
+   * Extend a conversation in place with text appended to its source
+   * @param sourceId Parser that produced the conversation
+   * @param lineOffset Lines already in the source
+   * @returns Number of turns added
+   */
+  appendContent(conversation: Conversation, appended: string, sourceId: string, lineOffset = 0): number {
+    const parser = this.getParser(sourceId);
+    if (!parser?.append) {
+      throw new Error(`Parser for ${sourceId} cannot append content`);
+    }
+    const turnCount = conversation.turns.length;
+    parser.append(conversation, appended, lineOffset);
+    return conversation.turns.length - turnCount;
   }
 
   /**
@@ -111,9 +280,31 @@ class ParserRegistry {
 // Create and export the singleton registry
 export const parserRegistry = new ParserRegistry();
 
-// Register the built-in Claude Code parser
+// Register the built-in parsers
+parserRegistry.register('thinking-tracer', thinkingTracerParser, 110);
 parserRegistry.register('claude-code', claudeCodeParser, 100);
+// Amp threads and Roo Code histories are Messages API transcripts with extra
+// fields, so their parsers win ties with anthropic-api
+parserRegistry.register('amp', ampParser, 95);
+parserRegistry.register('cline', clineParser, 92);
+parserRegistry.register('anthropic-api', anthropicApiParser, 90);
+parserRegistry.register('openai', openaiParser, 50);
+parserRegistry.register('gemini-cli', geminiCliParser, 40);
+parserRegistry.register('codex-cli', codexCliParser, 30);
+parserRegistry.register('chatgpt', chatgptParser, 20);
+parserRegistry.register('otel', otelParser, 3);
+parserRegistry.register('langsmith', langsmithParser, 2);
 
 // Re-export for convenience
 export { claudeCodeParser } from './claude-code';
+export { anthropicApiParser } from './anthropic';
+export { openaiParser } from './openai';
+export { geminiCliParser } from './gemini';
+export { codexCliParser } from './codex';
+export { chatgptParser } from './chatgpt';
+export { ampParser } from './amp';
+export { clineParser } from './cline';
+export { otelParser } from './otel';
+export { langsmithParser } from './langsmith';
+export { thinkingTracerParser } from './thinking-tracer';
 export type { TraceParser } from '../types';
@@ -0,0 +1,300 @@
+/**
+ * Tests for LangSmith run-tree parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { langsmithParser, buildRunTrees, collectCalls, parseMessage, parseRunUsage, scoreLangSmithRuns } from './langsmith';
+import { parserRegistry } from './index';
+import { buildClusters, extractSearchableContent } from '../../core/clusters';
+
+const at = (seconds: number) => `2025-06-01T08:00:${String(seconds).padStart(2, '0')}.000000`;
+const iso = (seconds: number) => `2025-06-01T08:00:${String(seconds).padStart(2, '0')}.000Z`;
+
+const lc = (kind: string, kwargs: Record<string, unknown>) => ({
+  lc: 1,
+  type: 'constructor',
+  id: ['langchain', 'schema', 'messages', kind],
+  kwargs,
+});
+
+const system = lc('SystemMessage', { content: 'You answer support questions.', type: 'system' });
+const human = lc('HumanMessage', { content: 'Can I get a refund?', type: 'human' });
+const toolCalls = lc('AIMessage', {
+  content: '',
+  type: 'ai',
+  id: 'run-llm-1',
+  tool_calls: [
+    { name: 'search_docs', args: { query: 'refund' }, id: 'call_1', type: 'tool_call' },
+    { name: 'ask_billing', args: { question: 'Refund status?' }, id: 'call_2', type: 'tool_call' },
+  ],
+  usage_metadata: { input_tokens: 120, output_tokens: 30, total_tokens: 150, input_token_details: { cache_read: 20 } },
+  response_metadata: { model_name: 'gpt-4o-2024-08-06', finish_reason: 'tool_calls' },
+});
+
+const run = (id: string, name: string, runType: string, start: number, end: number, fields: Record<string, unknown> = {}) => ({
+  id,
+  name,
+  run_type: runType,
+  start_time: at(start),
+  end_time: at(end),
+  inputs: {},
+  outputs: {},
+  extra: {},
+  child_runs: [],
+  ...fields,
+});
+
+/** An agent that searches the docs, asks a billing chain, then answers */
+const tree = run('root', 'support_agent', 'chain', 0, 20, {
+  child_runs: [
+    run('seq-1', 'RunnableSequence', 'chain', 1, 4, {
+      child_runs: [
+        run('llm-1', 'ChatOpenAI', 'llm', 2, 4, {
+          inputs: { messages: [[system, human]] },
+          outputs: { generations: [[{ text: '', message: toolCalls, generation_info: { finish_reason: 'tool_calls' } }]] },
+          extra: { invocation_params: { model: 'gpt-4o' } },
+        }),
+      ],
+    }),
+    run('tool-1', 'search_docs', 'tool', 5, 6, {
+      inputs: { input: '{"query": "refund"}' },
+      outputs: { output: lc('ToolMessage', { content: 'Refunds within 30 days.', tool_call_id: 'call_1', type: 'tool' }) },
+    }),
+    run('tool-2', 'ask_billing', 'tool', 6, 12, {
+      inputs: { input: '{"question": "Refund status?"}' },
+      outputs: { output: 'Approved' },
+      child_runs: [
+        run('billing', 'billing_agent', 'chain', 7, 11, {
+          child_runs: [
+            run('llm-b', 'ChatAnthropic', 'llm', 8, 10, {
+              inputs: { messages: [[{ type: 'human', data: { content: 'Refund status?' } }]] },
+              outputs: { generations: [[{ text: 'Approved' }]], llm_output: { usage: { input_tokens: 15, output_tokens: 3 } } },
+              extra: { metadata: { ls_model_name: 'claude-sonnet-4' } },
+            }),
+          ],
+        }),
+      ],
+    }),
+    run('seq-2', 'RunnableSequence', 'chain', 13, 19, {
+      child_runs: [
+        run('llm-2', 'ChatOpenAI', 'llm', 14, 19, {
+          inputs: {
+            messages: [[
+              system,
+              human,
+              toolCalls,
+              lc('ToolMessage', { content: 'Refunds within 30 days.', tool_call_id: 'call_1' }),
+              lc('ToolMessage', { content: 'Approved', tool_call_id: 'call_2' }),
+            ]],
+          },
+          outputs: {
+            generations: [[{
+              text: 'Yes, your refund is approved.',
+              message: lc('AIMessage', { content: 'Yes, your refund is approved.', response_metadata: { finish_reason: 'stop' } }),
+            }]],
+            llm_output: { token_usage: { prompt_tokens: 200, completion_tokens: 10 } },
+          },
+          extra: { invocation_params: { model_name: 'gpt-4o' } },
+        }),
+      ],
+    }),
+  ],
+});
+
+describe('langsmithParser', () => {
+  describe('canParse', () => {
+    it('accepts run trees and run lists', () => {
+      expect(langsmithParser.canParse(tree)).toBe(true);
+      expect(langsmithParser.canParse([tree])).toBe(true);
+      expect(langsmithParser.canParse({ runs: [tree] })).toBe(true);
+    });
+
+    it('rejects other JSON', () => {
+      expect(langsmithParser.canParse({ messages: [{ role: 'user', content: 'hi' }] })).toBe(false);
+      expect(langsmithParser.canParse([{ role: 'user', content: 'hi' }])).toBe(false);
+      expect(langsmithParser.canParse(JSON.stringify(tree))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    const conversation = langsmithParser.parse(tree);
+    const main = conversation.turns.filter(t => !t.isSidechain);
+
+    it('flattens LLM runs into turns and tool runs into call/result pairs', () => {
+      expect(main.map(t => t.role)).toEqual(['system', 'user', 'assistant', 'user', 'user', 'assistant']);
+      expect(main[2].content).toEqual([
+        { type: 'tool_use', id: 'call_1', name: 'search_docs', input: { query: 'refund' } },
+        { type: 'tool_use', id: 'call_2', name: 'ask_billing', input: { question: 'Refund status?' } },
+      ]);
+      expect(main[3].content).toEqual([{ type: 'tool_result', tool_use_id: 'call_1', content: 'Refunds within 30 days.' }]);
+      expect(main[4].content).toEqual([{ type: 'tool_result', tool_use_id: 'call_2', content: 'Approved' }]);
+      expect(main[5].content).toEqual([{ type: 'text', text: 'Yes, your refund is approved.' }]);
+      expect(main[5].parentId).toBe(main[4].id);
+    });
+
+    it('reads model, usage and stop reason from the runs', () => {
+      expect(main[2]).toMatchObject({
+        model: 'gpt-4o-2024-08-06',
+        stopReason: 'tool_calls',
+        requestId: 'run-llm-1',
+        usage: { input_tokens: 100, output_tokens: 30, cache_read_input_tokens: 20 },
+        timestamp: iso(4),
+      });
+      expect(main[5]).toMatchObject({ model: 'gpt-4o', stopReason: 'stop', usage: { input_tokens: 200, output_tokens: 10 } });
+    });
+
+    it('maps nested chains to sidechains named after the chain', () => {
+      const billing = conversation.turns.filter(t => t.isSidechain);
+      expect(billing.map(t => t.role)).toEqual(['user', 'assistant']);
+      expect(billing.every(t => t.agentId === 'billing_agent')).toBe(true);
+      expect(billing[1]).toMatchObject({ content: [{ type: 'text', text: 'Approved' }], model: 'claude-sonnet-4' });
+      expect(main[4].spawnedAgentId).toBe('billing_agent');
+      expect(conversation.meta.agentIds).toEqual(['billing_agent']);
+    });
+
+    it('keeps runs without their children as raw messages', () => {
+      const raw = conversation.entries![4].rawMessage!;
+      expect(raw).toMatchObject({ id: 'tool-2', name: 'ask_billing', run_type: 'tool' });
+      expect(raw.child_runs).toBeUndefined();
+    });
+
+    it('times tools by their runs', () => {
+      const clusters = buildClusters(conversation, undefined, conversation.turns.flatMap((t, i) => t.isSidechain ? [] : [i]));
+      const searchable = extractSearchableContent(clusters, conversation.entries, conversation.meta.source);
+      expect(searchable.flatMap(c => c.toolResults).map(r => r.durationMs)).toEqual([1000, 6000]);
+    });
+
+    it('builds metadata from the root run', () => {
+      expect(conversation.meta).toMatchObject({
+        id: 'root',
+        title: 'support_agent',
+        source: 'langsmith',
+        created_at: iso(0),
+        duration_ms: 20000,
+      });
+      expect(conversation.meta.total_usage?.output_tokens).toBe(43);
+    });
+
+    it('adds calls for tools the model did not call and reports failures', () => {
+      const parsed = langsmithParser.parse(run('root', 'pipeline', 'chain', 0, 3, {
+        child_runs: [run('r1', 'vector_store', 'retriever', 1, 2, { inputs: { query: 'refund' }, error: 'TimeoutError()' })],
+      }));
+      expect(parsed.turns.map(t => t.content)).toEqual([
+        [{ type: 'tool_use', id: 'r1', name: 'vector_store', input: { query: 'refund' } }],
+        [{ type: 'tool_result', tool_use_id: 'r1', content: 'TimeoutError()', is_error: true }],
+      ]);
+    });
+    it('matches tool runs without a call ID to the oldest unanswered call to that tool', () => {
+      const calls = lc('AIMessage', {
+        content: '',
+        tool_calls: [1, 2, 3].map(n => ({ name: 'search_docs', args: { query: `q${n}` }, id: `call_${n}` })),
+      });
+      const parsed = langsmithParser.parse(run('root', 'agent', 'chain', 0, 9, {
+        child_runs: [
+          run('llm-1', 'ChatOpenAI', 'llm', 1, 2, {
+            inputs: { messages: [[human]] },
+            outputs: { generations: [[{ text: '', message: calls }]] },
+          }),
+          run('tool-2', 'search_docs', 'tool', 3, 4, {
+            outputs: { output: lc('ToolMessage', { content: 'second', tool_call_id: 'call_2' }) },
+          }),
+          run('tool-1', 'search_docs', 'tool', 5, 6, { outputs: { output: 'first' } }),
+          run('tool-3', 'search_docs', 'tool', 7, 8, { outputs: { output: 'third' } }),
+        ],
+      }));
+      const results = parsed.turns.flatMap(t => t.content).filter(block => block.type === 'tool_result');
+      expect(results.map(block => block.type === 'tool_result' && [block.tool_use_id, block.content])).toEqual([
+        ['call_2', 'second'],
+        ['call_1', 'first'],
+        ['call_3', 'third'],
+      ]);
+    });
+  });
+
+  describe('flat exports', () => {
+    const flatten = (node: ReturnType<typeof run>, parent?: string): Record<string, unknown>[] => {
+      const { child_runs: children, ...rest } = node;
+      return [{ ...rest, parent_run_id: parent ?? null }, ...(children as ReturnType<typeof run>[]).flatMap(child => flatten(child, node.id))];
+    };
+    const other = run('other', 'classifier', 'llm', 30, 31, { inputs: { prompts: ['Classify: hi'] }, outputs: { generations: [[{ text: 'greeting' }]] } });
+    const runs = [...flatten(tree), other].reverse();
+
+    it('nests runs by parent and lists each root, most recent first', () => {
+      expect(langsmithParser.listConversations!(runs)).toEqual([
+        { id: 'other', title: 'classifier', updated_at: iso(31) },
+        { id: 'root', title: 'support_agent', updated_at: iso(20) },
+      ]);
+      expect(langsmithParser.parse(runs, { conversationId: 'root' }).turns).toHaveLength(langsmithParser.parse(tree).turns.length);
+    });
+
+    it('parses a completion run on its own', () => {
+      const parsed = langsmithParser.parse(runs);
+      expect(parsed.turns.map(t => t.content)).toEqual([
+        [{ type: 'text', text: 'Classify: hi' }],
+        [{ type: 'text', text: 'greeting' }],
+      ]);
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects run trees as langsmith', () => {
+      const result = parserRegistry.parseContent(JSON.stringify(tree, null, 2));
+      expect(result.sourceId).toBe('langsmith');
+      expect(result.confidence).toBe(1);
+    });
+  });
+});
+
+describe('collectCalls', () => {
+  it('keeps graph nodes that wrap the model in the main conversation', () => {
+    const graph = buildRunTrees(run('g', 'LangGraph', 'chain', 0, 9, {
+      child_runs: [
+        run('n1', 'agent', 'chain', 1, 3, { child_runs: [run('m1', 'call_model', 'chain', 1, 3, { child_runs: [run('l1', 'ChatOpenAI', 'llm', 2, 3)] })] }),
+        run('n2', 'tools', 'chain', 4, 5, { child_runs: [run('t1', 'search', 'tool', 4, 5)] }),
+        run('n3', 'agent', 'chain', 6, 8, { child_runs: [run('m2', 'call_model', 'chain', 6, 8, { child_runs: [run('l2', 'ChatOpenAI', 'llm', 7, 8)] })] }),
+      ],
+    }))[0];
+    const calls = collectCalls(graph, new Map());
+    expect(calls.map(c => [c.node.run.id, c.agent])).toEqual([['l1', null], ['t1', null], ['l2', null]]);
+  });
+});
+
+describe('parseMessage', () => {
+  it('reads serialised, dict and plain messages', () => {
+    expect(parseMessage(human)).toEqual({ role: 'user', content: [{ type: 'text', text: 'Can I get a refund?' }] });
+    expect(parseMessage({ type: 'system', data: { content: 'Be brief.' } })).toEqual({ role: 'system', content: [{ type: 'text', text: 'Be brief.' }] });
+    expect(parseMessage({ role: 'tool', content: 'boom', tool_call_id: 'c1', status: 'error' })).toEqual({
+      role: 'user', content: [{ type: 'tool_result', tool_use_id: 'c1', content: 'boom', is_error: true }],
+    });
+    expect(parseMessage({ foo: 'bar' })).toBeNull();
+  });
+
+  it('reads provider tool calls and skips calls repeated as content blocks', () => {
+    const openai = parseMessage(lc('AIMessage', {
+      content: '',
+      additional_kwargs: { tool_calls: [{ id: 'c1', type: 'function', function: { name: 'ls', arguments: '{"path":"."}' } }] },
+    }));
+    expect(openai?.content).toEqual([{ type: 'tool_use', id: 'c1', name: 'ls', input: { path: '.' } }]);
+
+    const anthropic = parseMessage(lc('AIMessage', {
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'ls', input: {} }],
+      tool_calls: [{ id: 'toolu_1', name: 'ls', args: {} }],
+    }));
+    expect(anthropic?.content).toHaveLength(1);
+  });
+});
+
+describe('parseRunUsage', () => {
+  it('reads run token counts and returns undefined without counts', () => {
+    expect(parseRunUsage({ prompt_tokens: 5, completion_tokens: 2 }, undefined)).toEqual({ input_tokens: 5, output_tokens: 2 });
+    expect(parseRunUsage({ outputs: {} }, undefined)).toBeUndefined();
+  });
+});
+
+describe('scoreLangSmithRuns', () => {
+  it('needs runs with a run type', () => {
+    expect(scoreLangSmithRuns(tree)).toBe(1);
+    expect(scoreLangSmithRuns([])).toBe(0);
+    expect(scoreLangSmithRuns([tree, { name: 'x' }])).toBe(0);
+  });
+});
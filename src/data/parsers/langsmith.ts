@@ -0,0 +1,659 @@
+/**
+ * Parser for LangSmith / LangChain run-tree exports
+ *
+ * A run tree is a run (`{ id, name, run_type, start_time, end_time, inputs,
+ * outputs, error, extra, child_runs }`) whose children are nested in
+ * `child_runs`. Flat exports listing every run with its `parent_run_id` are
+ * nested the same way, and each root run is one conversation.
+ *
+ * Runs are flattened into turns:
+ * - `llm` runs give the messages they were sent (`inputs.messages`, or
+ *   `inputs.prompts` for completion models) and the generation they produced
+ * - `tool` and `retriever` runs give a tool_use / tool_result pair, timed by
+ *   the run
+ * - `chain` runs only group other runs. Chains down to the level where the
+ *   main conversation's model is called are wrappers (agent executors,
+ *   graph nodes, runnable sequences); a chain nested below that level which
+ *   calls a model itself is a sub-agent, and its runs become a sidechain
+ *   named after the chain.
+ *
+ * Each model call usually repeats the agent's full history, so only the
+ * messages not seen in its earlier calls become new turns. Every entry keeps
+ * the run it came from, without its children, as its raw message.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  ConversationSummary,
+  ContentBlock,
+  Turn,
+  TraceParser,
+  ParseOptions,
+  TokenUsage,
+  Entry,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { parseApiContent } from './anthropic';
+import { parseArguments, stringifyToolOutput } from './openai';
+import { toTime, turnToEntry } from './shared';
+
+/** A run with its child runs, in start order */
+interface RunTree {
+  run: Record<string, unknown>;
+  children: RunTree[];
+}
+
+/** A model or tool run with the sub-agent it belongs to */
+interface RunCall {
+  node: RunTree;
+  /** Chain run of the sub-agent, or null for the main conversation */
+  agent: RunTree | null;
+}
+
+/** A turn waiting for its ID, with the sub-agent it belongs to */
+interface PendingTurn {
+  turn: Omit<Turn, 'id' | 'parentId'>;
+  raw: Record<string, unknown>;
+  agent: RunTree | null;
+  /** Sub-agent started by the tool run this turn came from */
+  spawned?: RunTree;
+}
+
+/** Runs that call a tool */
+const TOOL_RUN_TYPES = new Set(['tool', 'retriever']);
+
+/** Roles of LangChain message classes and message type names */
+const MESSAGE_ROLES: Record<string, string> = {
+  HumanMessage: 'user',
+  HumanMessageChunk: 'user',
+  human: 'user',
+  user: 'user',
+  AIMessage: 'assistant',
+  AIMessageChunk: 'assistant',
+  ai: 'assistant',
+  assistant: 'assistant',
+  SystemMessage: 'system',
+  system: 'system',
+  ToolMessage: 'tool',
+  FunctionMessage: 'tool',
+  tool: 'tool',
+  function: 'tool',
+};
+
+/** Number of runs sampled when scoring a flat export */
+const SCORE_SAMPLE_RUNS = 50;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value looks like a run
+ */
+function isRun(value: unknown): value is Record<string, unknown> {
+  return isObject(value) && typeof value.run_type === 'string' &&
+    (typeof value.id === 'string' || typeof value.name === 'string');
+}
+
+/**
+ * Get the runs in data: one run tree, an array of runs, or `{ runs }`
+ */
+function getRuns(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  if (isObject(data) && Array.isArray(data.runs)) return data.runs;
+  return isRun(data) ? [data] : [];
+}
+
+/**
+ * Score data as a LangSmith run export (0–1).
+ * `run_type` is specific to LangSmith, so a match is unambiguous.
+ */
+function scoreLangSmithRuns(data: unknown): number {
+  const sample = getRuns(data).slice(0, SCORE_SAMPLE_RUNS);
+  return sample.length > 0 && sample.every(isRun) ? 1 : 0;
+}
+
+/**
+ * Convert a LangSmith timestamp to an ISO timestamp.
+ * LangSmith writes UTC times without a zone designator.
+ */
+function toIsoTimestamp(value: unknown): string | undefined {
+  const time = toTime(value, true);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Nest runs into trees and return the roots.
+ * Children nested in `child_runs` and children pointing at their parent's ID
+ * are combined.
+ */
+function buildRunTrees(data: unknown): RunTree[] {
+  const runs = getRuns(data).filter(isRun);
+  const ids = new Set(runs.map(run => run.id));
+  const flatChildren = new Map<unknown, Record<string, unknown>[]>();
+  const roots: Record<string, unknown>[] = [];
+
+  for (const run of runs) {
+    if (run.parent_run_id !== undefined && run.parent_run_id !== null && ids.has(run.parent_run_id)) {
+      const siblings = flatChildren.get(run.parent_run_id);
+      if (siblings) {
+        siblings.push(run);
+      } else {
+        flatChildren.set(run.parent_run_id, [run]);
+      }
+    } else {
+      roots.push(run);
+    }
+  }
+
+  const build = (run: Record<string, unknown>, ancestors: Set<unknown>): RunTree => {
+    const nested = Array.isArray(run.child_runs) ? run.child_runs.filter(isRun) : [];
+    const children = [...nested, ...(flatChildren.get(run.id) ?? [])]
+      .filter(child => !ancestors.has(child.id))
+      .map((child, index) => ({ child, index }))
+      // Stable: runs without times keep their export order
+      .sort((a, b) => (toTime(a.child.start_time, true) - toTime(b.child.start_time, true)) || a.index - b.index)
+      .map(({ child }) => build(child, new Set([...ancestors, child.id])));
+    return { run, children };
+  };
+
+  return roots.map(run => build(run, new Set([run.id])));
+}
+
+/**
+ * Get a root run's conversation ID
+ */
+function getRunId(run: Record<string, unknown>, index: number): string {
+  return typeof run.id === 'string' ? run.id : `run-${index}`;
+}
+
+/**
+ * List the root runs in data, most recent first
+ */
+function listRunTrees(data: unknown): ConversationSummary[] {
+  return buildRunTrees(data)
+    .map(({ run }, index) => ({
+      summary: {
+        id: getRunId(run, index),
+        title: typeof run.name === 'string' && run.name ? run.name : 'Untitled',
+        updated_at: toIsoTimestamp(run.end_time ?? run.start_time),
+      },
+      time: toTime(run.end_time ?? run.start_time, true),
+    }))
+    .sort((a, b) => (isNaN(b.time) ? -Infinity : b.time) - (isNaN(a.time) ? -Infinity : a.time))
+    .map(({ summary }) => summary);
+}
+
+/**
+ * Check whether a run tree calls a model anywhere
+ */
+function callsModel(node: RunTree): boolean {
+  return node.run.run_type === 'llm' || node.children.some(callsModel);
+}
+
+/**
+ * Depth of the shallowest chain that calls a model directly (Infinity if none)
+ */
+function findModelLevel(node: RunTree, depth = 0): number {
+  if (node.run.run_type === 'llm') return Infinity;
+  const own = node.run.run_type === 'chain' && node.children.some(child => child.run.run_type === 'llm') ? depth : Infinity;
+  return Math.min(own, ...node.children.map(child => findModelLevel(child, depth + 1)));
+}
+
+/**
+ * Collect model and tool runs in order, with the sub-agent each belongs to
+ * @param spawns Filled with the tool run that started each sub-agent
+ */
+function collectCalls(root: RunTree, spawns: Map<RunTree, RunTree>): RunCall[] {
+  const calls: RunCall[] = [];
+
+  const visit = (node: RunTree, depth: number, level: number, agent: RunTree | null, tool: RunTree | null) => {
+    for (const child of node.children) {
+      const type = child.run.run_type;
+
+      if (type === 'llm') {
+        calls.push({ node: child, agent });
+      } else if (typeof type === 'string' && TOOL_RUN_TYPES.has(type)) {
+        calls.push({ node: child, agent });
+        visit(child, depth + 1, level, agent, child);
+      } else if (type === 'chain' && depth + 1 > level && callsModel(child)) {
+        // A chain below the model level with its own model calls is a sub-agent
+        if (tool) spawns.set(child, tool);
+        visit(child, 0, findModelLevel(child), child, null);
+      } else {
+        visit(child, depth + 1, level, agent, tool);
+      }
+    }
+  };
+
+  if (root.run.run_type === 'llm' || TOOL_RUN_TYPES.has(String(root.run.run_type))) {
+    calls.push({ node: root, agent: null });
+  }
+  visit(root, 0, findModelLevel(root), null, TOOL_RUN_TYPES.has(String(root.run.run_type)) ? root : null);
+  return calls;
+}
+
+/**
+ * Normalise a LangChain message: a serialised class
+ * (`{ lc, id: [..., 'AIMessage'], kwargs }`), a `{ type, data }` dict, or a
+ * plain `{ type | role, content }` object
+ * @returns The message's role and fields, or null if it isn't a message
+ */
+function readMessage(raw: unknown): { role: string; message: Record<string, unknown> } | null {
+  if (typeof raw === 'string') return { role: 'user', message: { content: raw } };
+  if (!isObject(raw)) return null;
+
+  let kind: unknown;
+  let message = raw;
+  if (Array.isArray(raw.id) && isObject(raw.kwargs)) {
+    kind = raw.id[raw.id.length - 1];
+    message = raw.kwargs;
+  } else if (isObject(raw.data) && typeof raw.type === 'string') {
+    kind = raw.type;
+    message = raw.data;
+  } else {
+    kind = raw.type ?? raw.role;
+  }
+
+  const role = typeof kind === 'string' ? MESSAGE_ROLES[kind] : undefined;
+  return role ? { role, message } : null;
+}
+
+/**
+ * Get a message's tool calls as tool_use blocks.
+ * LangChain keeps them in `tool_calls` (`{ id, name, args }`); older
+ * messages only have the provider's calls in `additional_kwargs`.
+ */
+function readToolCalls(message: Record<string, unknown>): ContentBlock[] {
+  const additional = isObject(message.additional_kwargs) ? message.additional_kwargs : {};
+  const calls = Array.isArray(message.tool_calls) && message.tool_calls.length > 0 ? message.tool_calls
+    : Array.isArray(additional.tool_calls) ? additional.tool_calls
+    : [];
+
+  return calls.filter(isObject).map(call => {
+    const fn = isObject(call.function) ? call.function : undefined;
+    return {
+      type: 'tool_use' as const,
+      id: String(call.id ?? ''),
+      name: String(call.name ?? fn?.name ?? ''),
+      input: parseArguments(call.args ?? fn?.arguments),
+    };
+  });
+}
+
+/**
+ * Convert a LangChain message into a turn
+ */
+function parseMessage(raw: unknown): Omit<Turn, 'id'> | null {
+  const read = readMessage(raw);
+  if (!read) return null;
+  const { role, message } = read;
+
+  if (role === 'tool') {
+    return {
+      role: 'user',
+      content: [{
+        type: 'tool_result',
+        tool_use_id: String(message.tool_call_id ?? message.name ?? ''),
+        content: stringifyToolOutput(message.content),
+        ...(message.status === 'error' ? { is_error: true } : {}),
+      }],
+    };
+  }
+
+  const content = parseApiContent(message.content);
+  if (role !== 'assistant') {
+    return content.length > 0 ? { role: role === 'system' ? 'system' : 'user', content } : null;
+  }
+
+  // Anthropic models repeat their tool calls as content blocks
+  const blockIds = new Set(content.flatMap(block => (block.type === 'tool_use' ? [block.id] : [])));
+  content.push(...readToolCalls(message).filter(block => block.type !== 'tool_use' || !blockIds.has(block.id)));
+  return { role: 'assistant', content };
+}
+
+/**
+ * Get the messages an LLM run was sent.
+ * Batched calls nest a list per prompt; only the first prompt is read.
+ */
+function readInputMessages(inputs: unknown): unknown[] {
+  if (!isObject(inputs)) return [];
+  if (Array.isArray(inputs.messages)) {
+    return Array.isArray(inputs.messages[0]) ? inputs.messages[0] : inputs.messages;
+  }
+  if (Array.isArray(inputs.prompts)) return inputs.prompts.slice(0, 1);
+  if (typeof inputs.prompt === 'string') return [inputs.prompt];
+  return [];
+}
+
+/**
+ * Get the generation an LLM run produced: the first generation's message,
+ * its text, or an output message
+ */
+function readOutput(outputs: unknown): { message?: unknown; generationInfo?: Record<string, unknown> } {
+  if (!isObject(outputs)) return {};
+
+  if (Array.isArray(outputs.generations)) {
+    const first = Array.isArray(outputs.generations[0]) ? outputs.generations[0][0] : outputs.generations[0];
+    if (!isObject(first)) return {};
+    const generationInfo = isObject(first.generation_info) ? first.generation_info : undefined;
+    if (first.message !== undefined) return { message: first.message, generationInfo };
+    if (typeof first.text === 'string') return { message: { type: 'ai', content: first.text }, generationInfo };
+    return { generationInfo };
+  }
+
+  if (readMessage(outputs)?.role === 'assistant') return { message: outputs };
+  if (isObject(outputs.output)) return { message: outputs.output };
+  return {};
+}
+
+/**
+ * Read token usage from an LLM run: the message's `usage_metadata`, the
+ * provider's `llm_output` usage, or the run's own counts.
+ * LangChain counts cached tokens in `input_tokens`, so they are split out to
+ * match the Anthropic convention used by metrics.
+ */
+function parseRunUsage(run: Record<string, unknown>, message: Record<string, unknown> | undefined): TokenUsage | undefined {
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+  const metadata = isObject(message?.usage_metadata) ? message.usage_metadata : undefined;
+  if (metadata) {
+    const details = isObject(metadata.input_token_details) ? metadata.input_token_details : {};
+    const outputDetails = isObject(metadata.output_token_details) ? metadata.output_token_details : {};
+    const cacheRead = number(details.cache_read) ?? 0;
+    const cacheCreation = number(details.cache_creation) ?? 0;
+    const input = number(metadata.input_tokens);
+
+    const usage: TokenUsage = {
+      input_tokens: input !== undefined ? Math.max(0, input - cacheRead - cacheCreation) : undefined,
+      output_tokens: number(metadata.output_tokens),
+    };
+    if (cacheRead) usage.cache_read_input_tokens = cacheRead;
+    if (cacheCreation) usage.cache_creation_input_tokens = cacheCreation;
+    if (number(outputDetails.reasoning)) usage.thinking_tokens = number(outputDetails.reasoning);
+    return usage;
+  }
+
+  const outputs = isObject(run.outputs) ? run.outputs : {};
+  const llmOutput = isObject(outputs.llm_output) ? outputs.llm_output : {};
+  const tokenUsage = isObject(llmOutput.token_usage) ? llmOutput.token_usage : isObject(llmOutput.usage) ? llmOutput.usage : run;
+  const input = number(tokenUsage.prompt_tokens) ?? number(tokenUsage.input_tokens);
+  const output = number(tokenUsage.completion_tokens) ?? number(tokenUsage.output_tokens);
+  if (input === undefined && output === undefined) return undefined;
+  return { input_tokens: input, output_tokens: output };
+}
+
+/**
+ * Get the model an LLM run called
+ */
+function getRunModel(run: Record<string, unknown>, message: Record<string, unknown> | undefined): string | undefined {
+  const extra = isObject(run.extra) ? run.extra : {};
+  const params = isObject(extra.invocation_params) ? extra.invocation_params : {};
+  const metadata = isObject(extra.metadata) ? extra.metadata : {};
+  const response = isObject(message?.response_metadata) ? message.response_metadata : {};
+
+  return [response.model_name, response.model, params.model, params.model_name, metadata.ls_model_name]
+    .find((model): model is string => typeof model === 'string' && !!model);
+}
+
+/**
+ * Get a run's error as a one-line message
+ */
+function getRunError(run: Record<string, unknown>): string | undefined {
+  if (typeof run.error !== 'string' || !run.error) return undefined;
+  return run.error.split('\n')[0] || run.error;
+}
+
+/**
+ * Get the run as shown in the raw JSON view, without its children
+ */
+function runRecord(run: Record<string, unknown>): Record<string, unknown> {
+  const { child_runs: _children, ...record } = run;
+  return record;
+}
+
+/**
+ * Read a tool run's input: the arguments object, or its single `input` value
+ */
+function readToolInput(inputs: unknown): Record<string, unknown> {
+  if (!isObject(inputs)) return {};
+  const keys = Object.keys(inputs);
+  if (keys.length === 1 && keys[0] === 'input') return parseArguments(inputs.input);
+  if (keys.length === 1 && keys[0] === 'query') return { query: inputs.query };
+  return inputs;
+}
+
+/**
+ * Read a tool run's output and the tool call it answers, if recorded
+ */
+function readToolOutput(outputs: unknown): { text: string; toolCallId?: string } {
+  if (!isObject(outputs)) return { text: stringifyToolOutput(outputs) };
+
+  const output = outputs.output ?? outputs.documents ?? outputs;
+  const read = readMessage(output);
+  if (read?.role === 'tool') {
+    return {
+      text: stringifyToolOutput(read.message.content),
+      toolCallId: typeof read.message.tool_call_id === 'string' ? read.message.tool_call_id : undefined,
+    };
+  }
+  return { text: stringifyToolOutput(output) };
+}
+
+/**
+ * Flatten a run tree into turns, in run order
+ */
+function runTreeToTurns(root: RunTree): PendingTurn[] {
+  const spawns = new Map<RunTree, RunTree>();
+  const calls = collectCalls(root, spawns);
+  const spawnedBy = new Map([...spawns].map(([agent, tool]) => [tool, agent]));
+
+  const turns: PendingTurn[] = [];
+  const lastTurn = new Map<RunTree | null, PendingTurn>();
+  const seen = new Map<RunTree | null, number>();
+  const called = new Map<string, string>();
+  const answered = new Set<string>();
+  // Call IDs by tool name in call order, from the oldest that may be unanswered
+  const callsByName = new Map<string, { ids: string[]; next: number }>();
+
+  const addCall = (id: string, name: string) => {
+    called.set(id, name);
+    const calls = callsByName.get(name);
+    if (calls) {
+      calls.ids.push(id);
+    } else {
+      callsByName.set(name, { ids: [id], next: 0 });
+    }
+  };
+
+  const findUnansweredCall = (name: string): string | undefined => {
+    const calls = callsByName.get(name);
+    if (!calls) return undefined;
+    while (calls.next < calls.ids.length && answered.has(calls.ids[calls.next])) calls.next++;
+    return calls.ids[calls.next];
+  };
+
+  const push = (pending: PendingTurn) => {
+    for (const block of pending.turn.content) {
+      if (block.type === 'tool_use') addCall(block.id, block.name);
+      if (block.type === 'tool_result') answered.add(block.tool_use_id);
+    }
+    turns.push(pending);
+    lastTurn.set(pending.agent, pending);
+  };
+
+  for (const { node, agent } of calls) {
+    const run = node.run;
+    const raw = runRecord(run);
+
+    if (run.run_type !== 'llm') {
+      const name = typeof run.name === 'string' ? run.name : String(run.run_type);
+      const { text, toolCallId } = readToolOutput(run.outputs);
+      // Match the call by ID, else the oldest unanswered call to the same tool
+      const id = toolCallId
+        ?? findUnansweredCall(name)
+        ?? String(run.id ?? `${name}-${turns.length}`);
+
+      // Runs of tools the model didn't call (or whose call wasn't recorded) get their own call
+      if (!called.has(id)) {
+        const use: ContentBlock = { type: 'tool_use', id, name, input: readToolInput(run.inputs) };
+        const previous = lastTurn.get(agent);
+        if (previous?.turn.role === 'assistant') {
+          previous.turn.content.push(use);
+          addCall(id, name);
+        } else {
+          push({ turn: { role: 'assistant', content: [use], timestamp: toIsoTimestamp(run.start_time) }, raw, agent });
+        }
+      }
+
+      const error = typeof run.error === 'string' && run.error ? run.error : undefined;
+      const spawned = spawnedBy.get(node);
+      push({
+        turn: {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: id, content: error ?? text, ...(error ? { is_error: true } : {}) }],
+          timestamp: toIsoTimestamp(run.end_time),
+        },
+        raw,
+        agent,
+        spawned,
+      });
+      continue;
+    }
+
+    const input = readInputMessages(run.inputs);
+    const seenCount = seen.get(agent) ?? 0;
+    const start = input.length < seenCount ? 0 : seenCount;
+
+    for (const message of input.slice(start)) {
+      const turn = parseMessage(message);
+      if (!turn) continue;
+      // Results already taken from tool runs are repeated in later calls
+      const content = turn.content.filter(block => block.type !== 'tool_result' || !answered.has(block.tool_use_id));
+      if (content.length === 0) continue;
+      push({ turn: { ...turn, content, timestamp: toIsoTimestamp(run.start_time) }, raw, agent });
+    }
+
+    const { message: outputMessage, generationInfo } = readOutput(run.outputs);
+    const parsed = outputMessage !== undefined ? parseMessage(outputMessage) : null;
+    const fields = readMessage(outputMessage)?.message;
+    const response = isObject(fields?.response_metadata) ? fields.response_metadata : {};
+    const stopReason = [response.finish_reason, response.stop_reason, generationInfo?.finish_reason]
+      .find((reason): reason is string => typeof reason === 'string' && !!reason);
+    const usage = parseRunUsage(run, fields);
+    const error = getRunError(run);
+
+    // Calls without a recorded generation still count their usage and errors
+    if (parsed?.role === 'assistant' || usage || error) {
+      const turn: Omit<Turn, 'id' | 'parentId'> = {
+        role: 'assistant',
+        content: parsed?.role === 'assistant' ? parsed.content : [],
+        timestamp: toIsoTimestamp(run.end_time),
+      };
+      const model = getRunModel(run, fields);
+      if (model) turn.model = model;
+      if (usage) turn.usage = usage;
+      if (stopReason) turn.stopReason = stopReason;
+      if (typeof fields?.id === 'string') turn.requestId = fields.id;
+      if (error) turn.error = error;
+      push({ turn, raw, agent });
+    }
+
+    seen.set(agent, input.length + (outputMessage !== undefined ? 1 : 0));
+  }
+
+  return turns;
+}
+
+/**
+ * Name sub-agents after their chains, numbering repeated names
+ */
+function nameAgents(agents: RunTree[]): Map<RunTree, string> {
+  const names = new Map<RunTree, string>();
+  const counts = new Map<string, number>();
+
+  for (const agent of agents) {
+    const name = typeof agent.run.name === 'string' && agent.run.name ? agent.run.name : 'chain';
+    const count = (counts.get(name) ?? 0) + 1;
+    counts.set(name, count);
+    names.set(agent, count === 1 ? name : `${name}-${count}`);
+  }
+  return names;
+}
+
+/**
+ * LangSmith run-tree parser
+ */
+export const langsmithParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return scoreLangSmithRuns(data) > 0;
+  },
+
+  score(data: unknown): number {
+    return scoreLangSmithRuns(data);
+  },
+
+  parse(data: unknown, options: ParseOptions = {}): Conversation {
+    const trees = buildRunTrees(data);
+    const selectedId = options.conversationId ?? listRunTrees(data)[0]?.id;
+    const index = Math.max(0, trees.findIndex(({ run }, i) => getRunId(run, i) === selectedId));
+    const root = trees[index];
+    if (!root) {
+      throw new Error('No runs in LangSmith export');
+    }
+
+    const pending = runTreeToTurns(root);
+    const agentIds = nameAgents([...new Set(pending.flatMap(({ agent }) => (agent ? [agent] : [])))]);
+
+    const lastTurnId = new Map<RunTree | null, string>();
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+
+    pending.forEach(({ turn: partial, raw, agent, spawned }, i) => {
+      const turn: Turn = { ...partial, id: `langsmith-${i}`, parentId: lastTurnId.get(agent) };
+      if (agent) {
+        turn.isSidechain = true;
+        turn.agentId = agentIds.get(agent);
+      }
+      const spawnedId = spawned && agentIds.get(spawned);
+      if (spawnedId) turn.spawnedAgentId = spawnedId;
+      turns.push(turn);
+      entries.push(turnToEntry(turn, raw));
+      lastTurnId.set(agent, turn.id);
+    });
+
+    const run = root.run;
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t).sort();
+    const firstTimestamp = toIsoTimestamp(run.start_time) ?? timestamps[0];
+    const lastTimestamp = toIsoTimestamp(run.end_time) ?? timestamps[timestamps.length - 1];
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const duration = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+      if (!isNaN(duration)) durationMs = duration;
+    }
+
+    const meta: ConversationMeta = {
+      id: getRunId(run, index),
+      title: typeof run.name === 'string' && run.name ? run.name : 'LangSmith Trace',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model: turns.find(t => t.model)?.model,
+      source: 'langsmith',
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+
+  listConversations(data: unknown): ConversationSummary[] {
+    return listRunTrees(data);
+  },
+};
+
+// Export helper functions for testing
+export { buildRunTrees, collectCalls, parseMessage, parseRunUsage, scoreLangSmithRuns };
+
+export default langsmithParser;
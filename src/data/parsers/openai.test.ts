@@ -0,0 +1,341 @@
+/**
+ * Tests for OpenAI Chat Completions / Responses parser
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  openaiParser,
+  parseUsage,
+  parseChatMessage,
+  parseResponseItem,
+  parseContentParts,
+  toRecord,
+} from './openai';
+import { parserRegistry } from './index';
+import { buildClusters, calculateClusterMetrics } from '../../core/clusters';
+
+const newState = () => ({ counter: 0, pendingByName: new Map<string, string>() });
+
+/** A two-step Chat Completions tool-calling exchange, one record per line */
+const chatLog = [
+  JSON.stringify({
+    timestamp: '2025-01-01T00:00:00Z',
+    request: {
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'What is the weather in Paris?' },
+      ],
+    },
+    response: {
+      id: 'chatcmpl-abc123456',
+      object: 'chat.completion',
+      created: 1735689601,
+      model: 'gpt-4o-2024-08-06',
+      choices: [{
+        index: 0,
+        finish_reason: 'tool_calls',
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+          }],
+        },
+      }],
+      usage: { prompt_tokens: 100, completion_tokens: 20, prompt_tokens_details: { cached_tokens: 40 } },
+    },
+  }),
+  JSON.stringify({
+    timestamp: '2025-01-01T00:00:05Z',
+    request: {
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'What is the weather in Paris?' },
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny, 22C' },
+      ],
+    },
+    response: {
+      id: 'chatcmpl-def',
+      object: 'chat.completion',
+      created: 1735689606,
+      model: 'gpt-4o-2024-08-06',
+      choices: [{
+        index: 0,
+        finish_reason: 'stop',
+        message: { role: 'assistant', content: 'It is sunny and 22C in Paris.' },
+      }],
+      usage: { prompt_tokens: 150, completion_tokens: 12 },
+    },
+  }),
+].join('\n');
+
+/** A Responses API response with reasoning and a function call */
+const responsesLog = {
+  request: {
+    model: 'o4-mini',
+    instructions: 'Be concise.',
+    input: [{ role: 'user', content: [{ type: 'input_text', text: 'List files' }] }],
+  },
+  response: {
+    id: 'resp_123',
+    object: 'response',
+    created_at: 1735689600,
+    model: 'o4-mini-2025-04-16',
+    status: 'completed',
+    output: [
+      { type: 'reasoning', id: 'rs_1', summary: [{ type: 'summary_text', text: 'Need to call ls.' }] },
+      { type: 'function_call', id: 'fc_1', call_id: 'call_ls', name: 'shell', arguments: '{"cmd":"ls"}' },
+    ],
+    usage: {
+      input_tokens: 50,
+      output_tokens: 30,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens_details: { reasoning_tokens: 25 },
+    },
+  },
+};
+
+describe('openaiParser', () => {
+  describe('canParse', () => {
+    it('accepts Chat Completions JSONL logs', () => {
+      expect(openaiParser.canParse(chatLog)).toBe(true);
+    });
+
+    it('accepts a Responses API log object', () => {
+      expect(openaiParser.canParse(responsesLog)).toBe(true);
+    });
+
+    it('accepts a pretty-printed JSON string', () => {
+      expect(openaiParser.canParse(JSON.stringify(responsesLog, null, 2))).toBe(true);
+    });
+
+    it('accepts bare chat requests with OpenAI-only roles', () => {
+      expect(openaiParser.canParse({ messages: [{ role: 'developer', content: 'x' }] })).toBe(true);
+    });
+
+    it('rejects Claude Code JSONL', () => {
+      const jsonl = '{"type":"user","uuid":"1","message":{"role":"user","content":"hi"}}';
+      expect(openaiParser.canParse(jsonl)).toBe(false);
+    });
+
+    it('rejects legacy Claude Code objects', () => {
+      const data = { messages: [{ uuid: '1', message: { role: 'user', content: 'hi' } }] };
+      expect(openaiParser.canParse(data)).toBe(false);
+    });
+
+    it('rejects garbage', () => {
+      expect(openaiParser.canParse('')).toBe(false);
+      expect(openaiParser.canParse('not json')).toBe(false);
+      expect(openaiParser.canParse(null)).toBe(false);
+      expect(openaiParser.canParse({ name: 'test' })).toBe(false);
+    });
+  });
+
+  describe('parse - Chat Completions', () => {
+    const conversation = openaiParser.parse(chatLog);
+
+    it('does not duplicate history repeated in later requests', () => {
+      const roles = conversation.turns.map(t => t.role);
+      expect(roles).toEqual(['system', 'user', 'assistant', 'user', 'assistant']);
+    });
+
+    it('maps tool_calls to tool_use blocks', () => {
+      const block = conversation.turns[2].content[0];
+      expect(block).toEqual({ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } });
+    });
+
+    it('maps tool role messages to tool_result blocks', () => {
+      const block = conversation.turns[3].content[0];
+      expect(block).toEqual({ type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny, 22C' });
+    });
+
+    it('fills usage, stop reason and request id', () => {
+      const turn = conversation.turns[2];
+      expect(turn.usage?.input_tokens).toBe(60);
+      expect(turn.usage?.cache_read_input_tokens).toBe(40);
+      expect(turn.stopReason).toBe('tool_calls');
+      expect(turn.requestId).toBe('chatcmpl-abc123456');
+    });
+
+    it('builds conversation metadata', () => {
+      expect(conversation.meta.source).toBe('openai');
+      expect(conversation.meta.model).toBe('gpt-4o-2024-08-06');
+      expect(conversation.meta.total_usage?.output_tokens).toBe(32);
+      expect(conversation.meta.duration_ms).toBe(6000);
+    });
+
+    it('links turns with parent ids and mirrors them as entries', () => {
+      expect(conversation.turns[1].parentId).toBe(conversation.turns[0].id);
+      expect(conversation.entries).toHaveLength(conversation.turns.length);
+      expect(conversation.entries?.[0].type).toBe('system');
+    });
+
+    it('clusters tool results into the assistant cluster', () => {
+      const clusters = buildClusters(conversation);
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].toolCount).toBe(1);
+      expect(clusters[0].assistantTurn?.content.map(b => b.type)).toEqual(['tool_use', 'tool_result', 'text']);
+
+      const metrics = calculateClusterMetrics(clusters);
+      expect(metrics[0].toolCount).toBe(1);
+    });
+  });
+
+  describe('parse - Responses API', () => {
+    const conversation = openaiParser.parse(responsesLog);
+
+    it('adds instructions as a system turn', () => {
+      expect(conversation.turns[0].role).toBe('system');
+      expect(conversation.turns[0].content[0]).toEqual({ type: 'text', text: 'Be concise.' });
+    });
+
+    it('maps reasoning items to thinking blocks', () => {
+      const thinking = conversation.turns[2].content[0];
+      expect(thinking).toEqual({ type: 'thinking', thinking: 'Need to call ls.', redacted: false });
+    });
+
+    it('maps function_call items to tool_use blocks', () => {
+      const block = conversation.turns[3].content[0];
+      expect(block).toEqual({ type: 'tool_use', id: 'call_ls', name: 'shell', input: { cmd: 'ls' } });
+    });
+
+    it('attaches usage once per response', () => {
+      const withUsage = conversation.turns.filter(t => t.usage);
+      expect(withUsage).toHaveLength(1);
+      expect(withUsage[0].usage?.thinking_tokens).toBe(25);
+      expect(withUsage[0].stopReason).toBe('completed');
+    });
+
+    it('emits all input for chained requests', () => {
+      const follow = {
+        request: {
+          model: 'o4-mini',
+          previous_response_id: 'resp_123',
+          input: [{ type: 'function_call_output', call_id: 'call_ls', output: 'a.txt' }],
+        },
+        response: {
+          id: 'resp_456',
+          object: 'response',
+          output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'a.txt' }] }],
+        },
+      };
+      const chained = openaiParser.parse([responsesLog, follow]);
+      const results = chained.turns.flatMap(t => t.content).filter(b => b.type === 'tool_result');
+      expect(results).toHaveLength(1);
+      expect(chained.turns[chained.turns.length - 1].content[0]).toEqual({ type: 'text', text: 'a.txt' });
+    });
+  });
+
+  describe('score', () => {
+    it('scores logs with response markers as a full match', () => {
+      expect(openaiParser.score!(chatLog)).toBe(1);
+    });
+
+    it('samples the first JSONL records without reading the rest', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const records = Array.from({ length: 60 }, () => chatLog.split('\n')[0]);
+      expect(openaiParser.score!([...records, 'not json'].join('\n'))).toBe(1);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('scores model-name-only requests lower', () => {
+      expect(openaiParser.score!({ model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] })).toBe(0.7);
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects OpenAI logs', () => {
+      const result = parserRegistry.detectAndParse(chatLog);
+      expect(result.sourceId).toBe('openai');
+    });
+
+    it('still detects Claude Code JSONL as claude-code', () => {
+      const jsonl = '{"type":"user","uuid":"1","message":{"role":"user","content":"hi"}}';
+      expect(parserRegistry.detectAndParse(jsonl).sourceId).toBe('claude-code');
+    });
+  });
+});
+
+describe('parseUsage', () => {
+  it('maps chat usage and splits out cached tokens', () => {
+    expect(parseUsage({ prompt_tokens: 10, completion_tokens: 5, prompt_tokens_details: { cached_tokens: 4 } })).toEqual({
+      input_tokens: 6,
+      output_tokens: 5,
+      cache_read_input_tokens: 4,
+    });
+  });
+
+  it('returns undefined for missing usage', () => {
+    expect(parseUsage(undefined)).toBeUndefined();
+  });
+});
+
+describe('parseChatMessage', () => {
+  it('extracts reasoning_content as thinking', () => {
+    const turn = parseChatMessage({ role: 'assistant', reasoning_content: 'hmm', content: 'ok' }, newState());
+    expect(turn?.content).toEqual([
+      { type: 'thinking', thinking: 'hmm' },
+      { type: 'text', text: 'ok' },
+    ]);
+  });
+
+  it('links legacy function_call and function results', () => {
+    const state = newState();
+    const call = parseChatMessage({ role: 'assistant', function_call: { name: 'lookup', arguments: '{"q":1}' } }, state);
+    const result = parseChatMessage({ role: 'function', name: 'lookup', content: 'found' }, state);
+    const toolUse = call?.content[0];
+    const toolResult = result?.content[0];
+    expect(toolUse?.type).toBe('tool_use');
+    expect(toolResult?.type).toBe('tool_result');
+    if (toolUse?.type === 'tool_use' && toolResult?.type === 'tool_result') {
+      expect(toolResult.tool_use_id).toBe(toolUse.id);
+    }
+  });
+
+  it('keeps invalid tool arguments as a raw string', () => {
+    const turn = parseChatMessage({
+      role: 'assistant',
+      tool_calls: [{ id: 'c', type: 'function', function: { name: 'f', arguments: '{bad' } }],
+    }, newState());
+    expect(turn?.content[0]).toMatchObject({ input: { arguments: '{bad' } });
+  });
+});
+
+describe('parseResponseItem', () => {
+  it('marks encrypted-only reasoning as redacted', () => {
+    const turn = parseResponseItem({ type: 'reasoning', summary: [], encrypted_content: 'xyz' });
+    expect(turn?.content[0]).toEqual({ type: 'thinking', thinking: '', redacted: true });
+  });
+
+  it('maps built-in tool calls to tool_use blocks', () => {
+    const turn = parseResponseItem({ type: 'web_search_call', id: 'ws_1', status: 'completed', action: { query: 'x' } });
+    expect(turn?.content[0]).toEqual({ type: 'tool_use', id: 'ws_1', name: 'web_search', input: { action: { query: 'x' } } });
+  });
+
+  it('returns null for unknown items', () => {
+    expect(parseResponseItem({ type: 'mystery' })).toBeNull();
+  });
+});
+
+describe('parseContentParts', () => {
+  it('parses data URL images as base64', () => {
+    const blocks = parseContentParts([{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }]);
+    expect(blocks[0]).toEqual({ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } });
+  });
+});
+
+describe('toRecord', () => {
+  it('wraps bare responses', () => {
+    expect(toRecord({ choices: [] })?.response).toBeDefined();
+  });
+
+  it('returns null for non-objects', () => {
+    expect(toRecord('x')).toBeNull();
+  });
+});
@@ -0,0 +1,679 @@
+/**
+ * Parser for OpenAI Chat Completions and Responses API logs (JSON or JSONL)
+ *
+ * Accepts request/response log records in any of these shapes:
+ * - `{ request, response }` wrappers written by logging proxies
+ * - Bare Chat Completions requests (`{ model, messages }`) or responses (`{ choices }`)
+ * - Bare Responses API requests (`{ model, input }`) or responses (`{ object: 'response', output }`)
+ *
+ * Each request usually repeats the full history, so only the messages that
+ * were not already seen in an earlier record are turned into new turns.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  Turn,
+  ContentBlock,
+  ImageBlock,
+  TraceParser,
+  TokenUsage,
+  Entry,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { parseJsonText, turnToEntry } from './shared';
+
+/** A normalised log record: optional request and response bodies */
+interface OpenAIRecord {
+  request?: Record<string, unknown>;
+  response?: Record<string, unknown>;
+  timestamp?: string;
+}
+
+/** A turn plus the raw message it came from */
+interface PendingTurn {
+  turn: Omit<Turn, 'id'>;
+  raw: Record<string, unknown>;
+}
+
+/** Roles that only exist in OpenAI message arrays */
+const OPENAI_ONLY_ROLES = new Set(['system', 'developer', 'tool', 'function']);
+
+/** Number of records sampled when scoring */
+const SCORE_SAMPLE_RECORDS = 50;
+
+/** Content part types that only exist in OpenAI payloads */
+const OPENAI_PART_TYPES = new Set(['input_text', 'output_text', 'image_url', 'input_image', 'refusal']);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a timestamp (ISO string, unix seconds or unix ms) to ISO format
+ */
+function toIsoTimestamp(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const time = new Date(value).getTime();
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+  if (typeof value === 'number' && isFinite(value)) {
+    // Unix seconds (OpenAI `created`) vs milliseconds
+    const ms = value < 1e12 ? value * 1000 : value;
+    return new Date(ms).toISOString();
+  }
+  return undefined;
+}
+
+/**
+ * Parse a tool call `arguments` JSON string into an input object
+ */
+function parseArguments(args: unknown): Record<string, unknown> {
+  if (isObject(args)) return args;
+  if (typeof args !== 'string' || !args.trim()) return {};
+
+  try {
+    const parsed = JSON.parse(args);
+    return isObject(parsed) ? parsed : { arguments: parsed };
+  } catch {
+    // Models occasionally emit truncated or invalid JSON arguments
+    return { arguments: args };
+  }
+}
+
+/**
+ * Convert an image URL (possibly a data URL) to an image block
+ */
+function parseImageUrl(url: string): ImageBlock {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (match) {
+    return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } };
+  }
+  return { type: 'image', source: { type: 'url', url } };
+}
+
+/**
+ * Parse message content (string or array of content parts) into content blocks
+ */
+function parseContentParts(content: unknown): ContentBlock[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  const blocks: ContentBlock[] = [];
+  for (const part of content) {
+    if (typeof part === 'string') {
+      blocks.push({ type: 'text', text: part });
+      continue;
+    }
+    if (!isObject(part)) continue;
+
+    switch (part.type) {
+      case 'text':
+      case 'input_text':
+      case 'output_text':
+      case 'summary_text':
+      case 'reasoning_text':
+        blocks.push({ type: 'text', text: String(part.text ?? '') });
+        break;
+
+      case 'refusal':
+        blocks.push({ type: 'text', text: String(part.refusal ?? '') });
+        break;
+
+      case 'image_url': {
+        const imageUrl = isObject(part.image_url) ? part.image_url.url : part.image_url;
+        if (typeof imageUrl === 'string') blocks.push(parseImageUrl(imageUrl));
+        break;
+      }
+
+      case 'input_image':
+        if (typeof part.image_url === 'string') blocks.push(parseImageUrl(part.image_url));
+        break;
+
+      default:
+        if (typeof part.text === 'string') blocks.push({ type: 'text', text: part.text });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Flatten tool output (string or content parts) into a string
+ */
+function stringifyToolOutput(output: unknown): string {
+  if (typeof output === 'string') return output;
+  if (Array.isArray(output)) {
+    return parseContentParts(output)
+      .map(b => (b.type === 'text' ? b.text : ''))
+      .join('\n');
+  }
+  if (output === undefined || output === null) return '';
+  return JSON.stringify(output);
+}
+
+/**
+ * Extract reasoning text attached to a Chat Completions message.
+ * Not part of the official API, but emitted by several compatible providers.
+ */
+function extractChatReasoning(message: Record<string, unknown>): string | undefined {
+  for (const key of ['reasoning_content', 'reasoning']) {
+    const value = message[key];
+    if (typeof value === 'string' && value) return value;
+    if (isObject(value) && typeof value.content === 'string' && value.content) return value.content;
+  }
+  return undefined;
+}
+
+/**
+ * Parse OpenAI usage into TokenUsage.
+ * OpenAI counts cached tokens inside the prompt total, so they are split out
+ * to match the Anthropic convention used by metrics.
+ */
+function parseUsage(raw: unknown): TokenUsage | undefined {
+  if (!isObject(raw)) return undefined;
+
+  const input = typeof raw.prompt_tokens === 'number' ? raw.prompt_tokens
+    : typeof raw.input_tokens === 'number' ? raw.input_tokens
+    : undefined;
+  const output = typeof raw.completion_tokens === 'number' ? raw.completion_tokens
+    : typeof raw.output_tokens === 'number' ? raw.output_tokens
+    : undefined;
+
+  const inputDetails = isObject(raw.prompt_tokens_details) ? raw.prompt_tokens_details
+    : isObject(raw.input_tokens_details) ? raw.input_tokens_details
+    : undefined;
+  const outputDetails = isObject(raw.completion_tokens_details) ? raw.completion_tokens_details
+    : isObject(raw.output_tokens_details) ? raw.output_tokens_details
+    : undefined;
+
+  const cached = typeof inputDetails?.cached_tokens === 'number' ? inputDetails.cached_tokens : undefined;
+  const reasoning = typeof outputDetails?.reasoning_tokens === 'number' ? outputDetails.reasoning_tokens : undefined;
+
+  const usage: TokenUsage = {
+    input_tokens: input !== undefined ? input - (cached ?? 0) : undefined,
+    output_tokens: output,
+  };
+  if (cached !== undefined) usage.cache_read_input_tokens = cached;
+  if (reasoning !== undefined) usage.thinking_tokens = reasoning;
+  if (typeof raw.service_tier === 'string') usage.service_tier = raw.service_tier;
+
+  return usage;
+}
+
+/**
+ * Tracks legacy `function_call` ids so `function` role results can be linked back
+ */
+interface FunctionCallState {
+  counter: number;
+  pendingByName: Map<string, string>;
+}
+
+/**
+ * Convert a Chat Completions message into a turn
+ */
+function parseChatMessage(message: Record<string, unknown>, state: FunctionCallState): Omit<Turn, 'id'> | null {
+  const role = message.role;
+
+  if (role === 'tool') {
+    return {
+      role: 'user',
+      content: [{
+        type: 'tool_result',
+        tool_use_id: String(message.tool_call_id ?? ''),
+        content: stringifyToolOutput(message.content),
+      }],
+    };
+  }
+
+  if (role === 'function') {
+    const name = String(message.name ?? '');
+    const toolUseId = state.pendingByName.get(name) ?? `function_call_${name}`;
+    state.pendingByName.delete(name);
+    return {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: toolUseId, content: stringifyToolOutput(message.content) }],
+    };
+  }
+
+  if (role === 'system' || role === 'developer') {
+    return { role: 'system', content: parseContentParts(message.content) };
+  }
+
+  if (role === 'user') {
+    return { role: 'user', content: parseContentParts(message.content) };
+  }
+
+  if (role !== 'assistant') return null;
+
+  const content: ContentBlock[] = [];
+
+  const reasoning = extractChatReasoning(message);
+  if (reasoning) {
+    content.push({ type: 'thinking', thinking: reasoning });
+  }
+
+  content.push(...parseContentParts(message.content));
+  if (typeof message.refusal === 'string' && message.refusal) {
+    content.push({ type: 'text', text: message.refusal });
+  }
+
+  if (Array.isArray(message.tool_calls)) {
+    for (const call of message.tool_calls) {
+      if (!isObject(call)) continue;
+      const fn = isObject(call.function) ? call.function : {};
+      content.push({
+        type: 'tool_use',
+        id: String(call.id ?? ''),
+        name: String(fn.name ?? call.type ?? ''),
+        input: parseArguments(fn.arguments),
+      });
+    }
+  }
+
+  if (isObject(message.function_call)) {
+    const name = String(message.function_call.name ?? '');
+    const id = `function_call_${state.counter++}`;
+    state.pendingByName.set(name, id);
+    content.push({ type: 'tool_use', id, name, input: parseArguments(message.function_call.arguments) });
+  }
+
+  return { role: 'assistant', content };
+}
+
+/**
+ * Convert a Responses API item (input or output) into a turn
+ */
+function parseResponseItem(item: unknown): Omit<Turn, 'id'> | null {
+  if (typeof item === 'string') {
+    return { role: 'user', content: [{ type: 'text', text: item }] };
+  }
+  if (!isObject(item)) return null;
+
+  const type = typeof item.type === 'string' ? item.type : 'message';
+
+  if (type === 'message') {
+    const role = item.role === 'assistant' ? 'assistant'
+      : item.role === 'system' || item.role === 'developer' ? 'system'
+      : 'user';
+    return { role, content: parseContentParts(item.content) };
+  }
+
+  if (type === 'reasoning') {
+    // Prefer raw reasoning content, fall back to the summary
+    const contentText = parseContentParts(item.content).map(b => (b.type === 'text' ? b.text : '')).join('\n\n');
+    const summaryText = parseContentParts(item.summary).map(b => (b.type === 'text' ? b.text : '')).join('\n\n');
+    const thinking = contentText || summaryText;
+    return {
+      role: 'assistant',
+      content: [{
+        type: 'thinking',
+        thinking,
+        redacted: !thinking && typeof item.encrypted_content === 'string',
+      }],
+    };
+  }
+
+  if (type === 'function_call' || type === 'custom_tool_call') {
+    return {
+      role: 'assistant',
+      content: [{
+        type: 'tool_use',
+        id: String(item.call_id ?? item.id ?? ''),
+        name: String(item.name ?? ''),
+        input: type === 'custom_tool_call' ? { input: item.input } : parseArguments(item.arguments),
+      }],
+    };
+  }
+
+  if (type.endsWith('_call_output')) {
+    return {
+      role: 'user',
+      content: [{
+        type: 'tool_result',
+        tool_use_id: String(item.call_id ?? item.id ?? ''),
+        content: stringifyToolOutput(item.output),
+      }],
+    };
+  }
+
+  if (type.endsWith('_call')) {
+    // Built-in tools (web_search_call, file_search_call, computer_call, ...)
+    const input: Record<string, unknown> = { ...item };
+    delete input.type;
+    delete input.id;
+    delete input.call_id;
+    delete input.status;
+    return {
+      role: 'assistant',
+      content: [{
+        type: 'tool_use',
+        id: String(item.call_id ?? item.id ?? ''),
+        name: type.slice(0, -'_call'.length),
+        input,
+      }],
+      ...(item.status === 'failed' ? { error: `${type} failed` } : {}),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Normalise a raw log line into request/response bodies
+ */
+function toRecord(raw: unknown): OpenAIRecord | null {
+  if (!isObject(raw)) return null;
+
+  if (isObject(raw.request) || isObject(raw.response)) {
+    return {
+      request: isObject(raw.request) ? raw.request : undefined,
+      response: isObject(raw.response) ? raw.response : undefined,
+      timestamp: toIsoTimestamp(raw.timestamp ?? raw.created_at),
+    };
+  }
+
+  if (Array.isArray(raw.choices) || Array.isArray(raw.output)) {
+    return { response: raw };
+  }
+
+  if (Array.isArray(raw.messages) || raw.input !== undefined) {
+    return { request: raw, timestamp: toIsoTimestamp(raw.timestamp) };
+  }
+
+  return null;
+}
+
+/**
+ * Score how strongly a request or response body looks like an OpenAI payload.
+ * Returns 1 for unambiguous markers, less for hints shared with other APIs,
+ * and 0 when nothing matches.
+ */
+function scoreOpenAIBody(body: Record<string, unknown>): number {
+  if (body.object === 'chat.completion' || body.object === 'response') return 1;
+  if (Array.isArray(body.choices)) return 1;
+  if (Array.isArray(body.output) && body.output.every(isObject)) return 1;
+
+  // Responses API request
+  if (typeof body.model === 'string' && (typeof body.input === 'string' || Array.isArray(body.input))) {
+    return 0.8;
+  }
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) return 0;
+
+  // Legacy Claude Code object format uses { uuid, message } entries
+  if (body.messages.some(m => isObject(m) && 'uuid' in m)) return 0;
+
+  const hasOpenAIMarkers = body.messages.some(m => {
+    if (!isObject(m)) return false;
+    if (typeof m.role === 'string' && OPENAI_ONLY_ROLES.has(m.role)) return true;
+    if (Array.isArray(m.tool_calls) || isObject(m.function_call)) return true;
+    return Array.isArray(m.content) &&
+      m.content.some(p => isObject(p) && typeof p.type === 'string' && OPENAI_PART_TYPES.has(p.type));
+  });
+  if (hasOpenAIMarkers) return 1;
+
+  if (typeof body.model === 'string' && /^(gpt-|o\d|chatgpt-|codex-)/.test(body.model)) return 0.7;
+
+  return 0;
+}
+
+/**
+ * Score a raw value as an OpenAI log record (0–1)
+ */
+function scoreOpenAIRecord(raw: unknown): number {
+  const record = toRecord(raw);
+  if (!record) return 0;
+  return Math.max(
+    record.request ? scoreOpenAIBody(record.request) : 0,
+    record.response ? scoreOpenAIBody(record.response) : 0,
+  );
+}
+
+/**
+ * Check whether a raw value is an OpenAI log record
+ */
+function isOpenAIRecord(raw: unknown): boolean {
+  return scoreOpenAIRecord(raw) > 0;
+}
+
+/**
+ * Split raw input (JSON string, JSONL string, object or array) into raw records
+ * @param maxLines Stop reading JSONL after this many lines (for detection)
+ */
+function toRawRecords(data: unknown, maxLines = Infinity): unknown[] {
+  if (Array.isArray(data)) return data;
+  if (typeof data !== 'string') return [data];
+
+  const text = data.trim();
+  if (!text) return [];
+
+  // Whole-file JSON (single record or array of records)
+  try {
+    const parsed = parseJsonText(data);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    // Fall through to JSONL
+  }
+
+  const records: unknown[] = [];
+  // split() treats an Infinity limit as 0
+  for (const line of maxLines === Infinity ? text.split('\n') : text.split('\n', maxLines)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      records.push(JSON.parse(trimmed));
+    } catch {
+      // Detection samples arbitrary text, so only warn when parsing
+      if (maxLines === Infinity) console.warn('Skipping invalid JSON line');
+    }
+  }
+  return records;
+}
+
+/**
+ * Get the request history items of a record (Chat `messages` or Responses `input`)
+ */
+function getRequestItems(request: Record<string, unknown> | undefined): unknown[] {
+  if (!request) return [];
+  if (Array.isArray(request.messages)) return request.messages;
+  if (Array.isArray(request.input)) return request.input;
+  if (typeof request.input === 'string') return [request.input];
+  return [];
+}
+
+/**
+ * Convert the response body of a record into pending turns
+ */
+function parseResponse(response: Record<string, unknown>, state: FunctionCallState): PendingTurn[] {
+  const pending: PendingTurn[] = [];
+  const model = typeof response.model === 'string' ? response.model : undefined;
+  const requestId = typeof response.id === 'string' ? response.id : undefined;
+  const usage = parseUsage(response.usage);
+
+  if (Array.isArray(response.choices)) {
+    // Chat Completions: only the first choice continues the conversation
+    const choice = response.choices.find(isObject);
+    if (choice && isObject(choice.message)) {
+      const turn = parseChatMessage({ role: 'assistant', ...choice.message }, state);
+      if (turn) {
+        turn.model = model;
+        turn.usage = usage;
+        turn.requestId = requestId;
+        if (typeof choice.finish_reason === 'string') turn.stopReason = choice.finish_reason;
+        pending.push({ turn, raw: choice.message });
+      }
+    }
+    return pending;
+  }
+
+  if (Array.isArray(response.output)) {
+    const incomplete = isObject(response.incomplete_details) ? response.incomplete_details.reason : undefined;
+    const error = isObject(response.error) ? response.error.message : undefined;
+    let first = true;
+
+    for (const item of response.output) {
+      const turn = parseResponseItem(item);
+      if (!turn || !isObject(item)) continue;
+      if (turn.role === 'assistant') {
+        turn.model = model;
+        turn.requestId = requestId;
+        if (first) {
+          // Usage covers the whole response; attach it once to avoid double counting
+          turn.usage = usage;
+          if (typeof incomplete === 'string') turn.stopReason = incomplete;
+          else if (typeof response.status === 'string') turn.stopReason = response.status;
+          if (typeof error === 'string') turn.error = error;
+          first = false;
+        }
+      }
+      pending.push({ turn, raw: item });
+    }
+  }
+
+  return pending;
+}
+
+/**
+ * Convert log records into ordered pending turns, skipping history already seen
+ */
+function recordsToTurns(records: OpenAIRecord[]): Array<PendingTurn & { timestamp?: string }> {
+  const result: Array<PendingTurn & { timestamp?: string }> = [];
+  const state: FunctionCallState = { counter: 0, pendingByName: new Map() };
+  let seen = 0;
+
+  for (const record of records) {
+    const items = getRequestItems(record.request);
+
+    // Responses requests chained with previous_response_id only carry new input
+    const chained = typeof record.request?.previous_response_id === 'string';
+    const start = chained || items.length < seen ? 0 : seen;
+
+    // Responses API instructions act as a system prompt
+    if (start === 0 && typeof record.request?.instructions === 'string' && record.request.instructions) {
+      result.push({
+        turn: { role: 'system', content: [{ type: 'text', text: record.request.instructions }] },
+        raw: { instructions: record.request.instructions },
+        timestamp: record.timestamp,
+      });
+    }
+
+    for (const item of items.slice(start)) {
+      const turn = Array.isArray(record.request?.messages) && isObject(item)
+        ? parseChatMessage(item, state)
+        : parseResponseItem(item);
+      if (turn) {
+        result.push({ turn, raw: isObject(item) ? item : { content: item }, timestamp: record.timestamp });
+      }
+    }
+
+    let responseCount = 0;
+    if (record.response) {
+      const responseTimestamp = toIsoTimestamp(record.response.created ?? record.response.created_at) ?? record.timestamp;
+      const responseTurns = parseResponse(record.response, state);
+      for (const pending of responseTurns) {
+        result.push({ ...pending, timestamp: responseTimestamp });
+      }
+      responseCount = Array.isArray(record.response.output) ? record.response.output.length : 1;
+    }
+
+    seen = chained ? 0 : items.length + responseCount;
+  }
+
+  return result;
+}
+
+/**
+ * OpenAI Chat Completions / Responses log parser
+ */
+export const openaiParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    if (typeof data === 'string') {
+      const text = data.trim();
+      if (!text) return false;
+      // Only inspect the first record of JSONL files
+      try {
+        const parsed = parseJsonText(data);
+        const first = Array.isArray(parsed) ? parsed[0] : parsed;
+        return isOpenAIRecord(first);
+      } catch {
+        try {
+          return isOpenAIRecord(JSON.parse(text.split('\n', 1)[0]));
+        } catch {
+          return false;
+        }
+      }
+    }
+
+    if (Array.isArray(data)) {
+      return data.length > 0 && isOpenAIRecord(data[0]);
+    }
+
+    return isOpenAIRecord(data);
+  },
+
+  score(data: unknown): number {
+    const records = toRawRecords(data, SCORE_SAMPLE_RECORDS).slice(0, SCORE_SAMPLE_RECORDS);
+    if (records.length === 0) return 0;
+    return records.reduce<number>((sum, raw) => sum + scoreOpenAIRecord(raw), 0) / records.length;
+  },
+
+  parse(data: unknown): Conversation {
+    const records = toRawRecords(data)
+      .map(toRecord)
+      .filter((r): r is OpenAIRecord => r !== null);
+
+    const pending = recordsToTurns(records);
+
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+    let parentId: string | undefined;
+
+    pending.forEach(({ turn: partial, raw, timestamp }, index) => {
+      const turn: Turn = {
+        ...partial,
+        id: `openai-${index}`,
+        timestamp,
+        parentId,
+      };
+      turns.push(turn);
+      entries.push(turnToEntry(turn, raw));
+      parentId = turn.id;
+    });
+
+    const firstResponse = records.find(r => r.response)?.response;
+    const firstRequest = records.find(r => r.request)?.request;
+    const conversationId = typeof firstResponse?.id === 'string' ? firstResponse.id : undefined;
+
+    const model = turns.find(t => t.model)?.model
+      ?? (typeof firstRequest?.model === 'string' ? firstRequest.model : undefined);
+
+    const timestamps = turns.map(t => t.timestamp).filter((t): t is string => !!t);
+    const firstTimestamp = timestamps[0];
+    const lastTimestamp = timestamps[timestamps.length - 1];
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      durationMs = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+    }
+
+    const meta: ConversationMeta = {
+      id: conversationId,
+      title: conversationId ? `Session ${conversationId.slice(0, 8)}...` : 'OpenAI Session',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model,
+      source: 'openai',
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+};
+
+// Export helper functions for testing
+export { parseUsage, parseChatMessage, parseResponseItem, parseContentParts, parseArguments, stringifyToolOutput, toRecord, recordsToTurns };
+
+export default openaiParser;
@@ -0,0 +1,285 @@
+/**
+ * Tests for OpenTelemetry GenAI trace parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { otelParser, readAnyValue, readSpanMessages, parseSpanUsage, scoreOtelTrace, listTraces } from './otel';
+import { parserRegistry } from './index';
+import { buildClusters, extractSearchableContent } from '../../core/clusters';
+
+const T0 = Date.parse('2025-09-01T12:00:00.000Z');
+const nanos = (ms: number) => `${T0 + ms}000000`;
+
+type Attribute = { key: string; value: Record<string, unknown> };
+
+const str = (key: string, value: string): Attribute => ({ key, value: { stringValue: value } });
+const int = (key: string, value: number): Attribute => ({ key, value: { intValue: String(value) } });
+
+const span = (spanId: string, parentSpanId: string, name: string, start: number, end: number, attributes: Attribute[], extra: Record<string, unknown> = {}) => ({
+  traceId: 'trace-1',
+  spanId,
+  parentSpanId,
+  name,
+  kind: 1,
+  startTimeUnixNano: nanos(start),
+  endTimeUnixNano: nanos(end),
+  attributes,
+  ...extra,
+});
+
+const exportOf = (spans: unknown[]) => ({
+  resourceSpans: [{
+    resource: { attributes: [str('service.name', 'weather-service')] },
+    scopeSpans: [{ scope: { name: 'agents' }, spans }],
+  }],
+});
+
+const user = { role: 'user', parts: [{ type: 'text', content: 'Weather in Paris?' }] };
+const toolCall = { role: 'assistant', parts: [{ type: 'tool_call', id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }] };
+const toolResponse = { role: 'tool', parts: [{ type: 'tool_call_response', id: 'call_1', response: '18°C' }] };
+
+/** An agent that checks the weather, asks a nested agent, then answers */
+const trace = exportOf([
+  span('a1', '', 'invoke_agent weather', 0, 9000, [
+    str('gen_ai.operation.name', 'invoke_agent'),
+    str('gen_ai.agent.name', 'weather'),
+  ]),
+  span('c1', 'a1', 'chat gpt-4o', 100, 1500, [
+    str('gen_ai.operation.name', 'chat'),
+    str('gen_ai.request.model', 'gpt-4o'),
+    str('gen_ai.response.model', 'gpt-4o-2024-08-06'),
+    str('gen_ai.response.id', 'chatcmpl-1'),
+    { key: 'gen_ai.response.finish_reasons', value: { arrayValue: { values: [{ stringValue: 'tool_calls' }] } } },
+    int('gen_ai.usage.input_tokens', 300),
+    int('gen_ai.usage.output_tokens', 20),
+    int('gen_ai.usage.cache_read.input_tokens', 100),
+    str('gen_ai.system_instructions', JSON.stringify([{ type: 'text', content: 'You report the weather.' }])),
+    str('gen_ai.input.messages', JSON.stringify([user])),
+    str('gen_ai.output.messages', JSON.stringify([{ ...toolCall, finish_reason: 'tool_call' }])),
+  ]),
+  span('t1', 'a1', 'execute_tool get_weather', 1600, 1850, [
+    str('gen_ai.operation.name', 'execute_tool'),
+    str('gen_ai.tool.name', 'get_weather'),
+    str('gen_ai.tool.call.id', 'call_1'),
+    str('gen_ai.tool.call.result', '18°C'),
+  ]),
+  span('t2', 'a1', 'execute_tool ask_expert', 2000, 5000, [
+    str('gen_ai.operation.name', 'execute_tool'),
+    str('gen_ai.tool.name', 'ask_expert'),
+    str('gen_ai.tool.call.id', 'call_2'),
+    str('gen_ai.tool.call.arguments', '{"question":"Umbrella?"}'),
+    str('gen_ai.tool.call.result', 'Yes'),
+  ]),
+  span('a2', 't2', 'invoke_agent expert', 2100, 4900, [
+    str('gen_ai.operation.name', 'invoke_agent'),
+    str('gen_ai.agent.name', 'expert'),
+  ]),
+  span('c2', 'a2', 'chat gpt-4o-mini', 2200, 4800, [
+    str('gen_ai.operation.name', 'chat'),
+    str('gen_ai.request.model', 'gpt-4o-mini'),
+    int('gen_ai.usage.input_tokens', 50),
+    int('gen_ai.usage.output_tokens', 5),
+    str('gen_ai.input.messages', JSON.stringify([{ role: 'user', parts: [{ type: 'text', content: 'Umbrella?' }] }])),
+    str('gen_ai.output.messages', JSON.stringify([{ role: 'assistant', parts: [{ type: 'text', content: 'Yes' }] }])),
+  ]),
+  span('c3', 'a1', 'chat gpt-4o', 5100, 8000, [
+    str('gen_ai.operation.name', 'chat'),
+    str('gen_ai.request.model', 'gpt-4o'),
+    int('gen_ai.usage.input_tokens', 400),
+    int('gen_ai.usage.output_tokens', 30),
+    str('gen_ai.input.messages', JSON.stringify([user, toolCall, toolResponse])),
+    str('gen_ai.output.messages', JSON.stringify([{ role: 'assistant', parts: [{ type: 'text', content: '18°C, take an umbrella.' }] }])),
+  ]),
+]);
+
+describe('otelParser', () => {
+  describe('canParse', () => {
+    it('accepts OTLP exports with GenAI spans', () => {
+      expect(otelParser.canParse(trace)).toBe(true);
+      expect(otelParser.canParse(JSON.stringify(trace))).toBe(true);
+    });
+
+    it('rejects traces without GenAI spans and other JSON', () => {
+      expect(otelParser.canParse(exportOf([span('s1', '', 'GET /', 0, 10, [str('http.method', 'GET')])]))).toBe(false);
+      expect(otelParser.canParse({ messages: [{ role: 'user', content: 'hi' }] })).toBe(false);
+      expect(otelParser.canParse(JSON.stringify(trace, null, 2))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    const conversation = otelParser.parse(trace);
+    const main = conversation.turns.filter(t => !t.isSidechain);
+
+    it('rebuilds the conversation from model call and tool spans', () => {
+      expect(main.map(t => t.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant', 'user', 'assistant']);
+      expect(main[0].content).toEqual([{ type: 'text', text: 'You report the weather.' }]);
+      expect(main[2].content).toEqual([{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }]);
+      expect(main[3].content).toEqual([{ type: 'tool_result', tool_use_id: 'call_1', content: '18°C' }]);
+      expect(main[6].content).toEqual([{ type: 'text', text: '18°C, take an umbrella.' }]);
+      expect(main[6].parentId).toBe(main[5].id);
+    });
+
+    it('adds calls only known from their tool span', () => {
+      expect(main[4].content).toEqual([{ type: 'tool_use', id: 'call_2', name: 'ask_expert', input: { question: 'Umbrella?' } }]);
+      expect(main[4].timestamp).toBe(new Date(T0 + 2000).toISOString());
+    });
+
+    it('takes model, usage and finish reason from span attributes', () => {
+      expect(main[2]).toMatchObject({
+        model: 'gpt-4o-2024-08-06',
+        stopReason: 'tool_calls',
+        requestId: 'chatcmpl-1',
+        usage: { input_tokens: 200, output_tokens: 20, cache_read_input_tokens: 100 },
+        timestamp: new Date(T0 + 1500).toISOString(),
+      });
+      expect(conversation.meta.total_usage?.output_tokens).toBe(55);
+    });
+
+    it('keeps spans with their attributes as raw messages', () => {
+      expect(conversation.entries![3].rawMessage).toMatchObject({
+        spanId: 't1',
+        name: 'execute_tool get_weather',
+        startTime: new Date(T0 + 1600).toISOString(),
+        endTime: new Date(T0 + 1850).toISOString(),
+        attributes: { 'gen_ai.tool.name': 'get_weather', 'gen_ai.tool.call.id': 'call_1' },
+      });
+    });
+
+    it('maps nested agents to sidechains spawned by their tool', () => {
+      const expert = conversation.turns.filter(t => t.isSidechain);
+      expect(expert.map(t => t.role)).toEqual(['user', 'assistant']);
+      expect(expert.every(t => t.agentId === 'expert-a2')).toBe(true);
+      expect(expert[0].parentId).toBeUndefined();
+      expect(main[5].spawnedAgentId).toBe('expert-a2');
+      expect(conversation.meta.agentIds).toEqual(['expert-a2']);
+    });
+
+    it('times tools by their spans', () => {
+      const clusters = buildClusters(conversation, undefined, conversation.turns.flatMap((t, i) => t.isSidechain ? [] : [i]));
+      const searchable = extractSearchableContent(clusters, conversation.entries, conversation.meta.source);
+      const results = searchable.flatMap(c => c.toolResults);
+      expect(results.map(r => r.durationMs)).toEqual([250, 3000]);
+    });
+
+    it('builds metadata from the trace', () => {
+      expect(conversation.meta).toMatchObject({
+        id: 'trace-1',
+        title: 'weather',
+        source: 'otel',
+        model: 'gpt-4o-2024-08-06',
+        created_at: new Date(T0).toISOString(),
+        duration_ms: 9000,
+      });
+    });
+
+    it('keeps content-less calls and failed tools', () => {
+      const parsed = otelParser.parse(exportOf([
+        span('c1', '', 'chat claude', 0, 1000, [
+          str('gen_ai.operation.name', 'chat'),
+          str('gen_ai.request.model', 'claude-sonnet-4'),
+          int('gen_ai.usage.input_tokens', 10),
+          int('gen_ai.usage.output_tokens', 5),
+        ]),
+        span('t1', '', 'execute_tool read_file', 1100, 1200, [
+          str('gen_ai.operation.name', 'execute_tool'),
+          str('gen_ai.tool.name', 'read_file'),
+        ], { status: { code: 2, message: 'ENOENT' } }),
+      ]));
+      expect(parsed.turns.map(t => t.role)).toEqual(['assistant', 'user']);
+      expect(parsed.turns[0].content).toEqual([{ type: 'tool_use', id: 't1', name: 'read_file', input: {} }]);
+      expect(parsed.turns[1].content).toEqual([{ type: 'tool_result', tool_use_id: 't1', content: 'ENOENT', is_error: true }]);
+    });
+    it('handles traces with more spans than fit in a call', () => {
+      const request = exportOf([
+        span('c1', '', 'chat gpt-4o', 0, 10, [str('gen_ai.operation.name', 'chat'), str('gen_ai.prompt', 'Hello')]),
+        ...Array.from({ length: 200_000 }, (_, i) => span(`s${i}`, 'c1', 'work', i, i + 1, [])),
+      ]);
+      expect(otelParser.parse(request).meta.duration_ms).toBe(200_000);
+      expect(listTraces(request)[0].updated_at).toBe(new Date(T0 + 200_000).toISOString());
+    });
+  });
+
+  describe('traces', () => {
+    const second = exportOf([
+      { ...span('c9', '', 'chat gpt-4o', 20000, 21000, [str('gen_ai.operation.name', 'chat'), str('gen_ai.prompt', 'Hello')]), traceId: 'trace-2' },
+    ]);
+    const jsonl = [trace, second].map(request => JSON.stringify(request)).join('\n');
+
+    it('lists one conversation per trace, most recent first', () => {
+      expect(listTraces(jsonl)).toEqual([
+        { id: 'trace-2', title: 'chat gpt-4o', updated_at: new Date(T0 + 21000).toISOString() },
+        { id: 'trace-1', title: 'weather', updated_at: new Date(T0 + 9000).toISOString() },
+      ]);
+    });
+
+    it('parses the chosen trace', () => {
+      expect(otelParser.parse(jsonl).meta.id).toBe('trace-2');
+      expect(otelParser.parse(jsonl, { conversationId: 'trace-1' }).meta.id).toBe('trace-1');
+    });
+  });
+
+  describe('parserRegistry integration', () => {
+    it('detects OTLP/JSON documents as otel', () => {
+      const result = parserRegistry.parseContent(JSON.stringify(trace, null, 2));
+      expect(result.sourceId).toBe('otel');
+      expect(result.confidence).toBe(1);
+    });
+
+    it('detects JSONL exports as otel', () => {
+      expect(parserRegistry.parseContent(`${JSON.stringify(trace)}\n`).sourceId).toBe('otel');
+    });
+  });
+});
+
+describe('readAnyValue', () => {
+  it('reads scalars, arrays and key-value lists', () => {
+    expect(readAnyValue({ intValue: '42' })).toBe(42);
+    expect(readAnyValue({ boolValue: false })).toBe(false);
+    expect(readAnyValue({ arrayValue: { values: [{ stringValue: 'a' }, { doubleValue: 1.5 }] } })).toEqual(['a', 1.5]);
+    expect(readAnyValue({ kvlistValue: { values: [{ key: 'k', value: { stringValue: 'v' } }] } })).toEqual({ k: 'v' });
+  });
+});
+
+describe('readSpanMessages', () => {
+  const spanWith = (attributes: Record<string, unknown>, events: Array<{ name: string; attributes: Record<string, unknown> }> = []) => ({
+    traceId: 't', spanId: 's', name: 'chat', start: 0, end: 0, attributes, events,
+  });
+
+  it('rebuilds messages from indexed attributes', () => {
+    const { input, output } = readSpanMessages(spanWith({
+      'gen_ai.prompt.0.role': 'user',
+      'gen_ai.prompt.0.content': 'List files',
+      'gen_ai.completion.0.role': 'assistant',
+      'gen_ai.completion.0.finish_reason': 'tool_calls',
+      'gen_ai.completion.0.tool_calls.0.id': 'call_1',
+      'gen_ai.completion.0.tool_calls.0.name': 'ls',
+      'gen_ai.completion.0.tool_calls.0.arguments': '{"path":"."}',
+    }));
+    expect(input).toEqual([{ role: 'user', content: 'List files' }]);
+    expect(output[0].tool_calls).toEqual([{ id: 'call_1', name: 'ls', arguments: '{"path":"."}' }]);
+  });
+
+  it('reads message events', () => {
+    const { input, output } = readSpanMessages(spanWith({}, [
+      { name: 'gen_ai.user.message', attributes: { content: 'Hi' } },
+      { name: 'gen_ai.tool.message', attributes: { id: 'call_1', content: 'ok' } },
+      { name: 'gen_ai.choice', attributes: { finish_reason: 'stop', message: { content: 'Hello' } } },
+    ]));
+    expect(input).toEqual([{ role: 'user', content: 'Hi' }, { role: 'tool', content: 'ok', tool_call_id: 'call_1' }]);
+    expect(output).toEqual([{ role: 'assistant', content: 'Hello', finish_reason: 'stop' }]);
+  });
+});
+
+describe('parseSpanUsage', () => {
+  it('reads legacy token counts and returns undefined without counts', () => {
+    expect(parseSpanUsage({ 'gen_ai.usage.prompt_tokens': 7, 'gen_ai.usage.completion_tokens': 3 })).toEqual({ input_tokens: 7, output_tokens: 3 });
+    expect(parseSpanUsage({ 'gen_ai.request.model': 'gpt-4o' })).toBeUndefined();
+  });
+});
+
+describe('scoreOtelTrace', () => {
+  it('needs a GenAI span', () => {
+    expect(scoreOtelTrace(trace)).toBe(1);
+    expect(scoreOtelTrace({ resourceSpans: [] })).toBe(0);
+  });
+});
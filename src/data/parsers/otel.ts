@@ -0,0 +1,753 @@
+/**
+ * Parser for OpenTelemetry traces that follow the GenAI semantic conventions
+ *
+ * Reads OTLP/JSON exports (`{ resourceSpans: [{ scopeSpans: [{ spans }] }] }`),
+ * either as one document or as one export request per line, as written by
+ * the collector's file exporter. Spans are rebuilt into turns:
+ * - Model call spans (`gen_ai.operation.name` = `chat`, ...) give the
+ *   messages they were sent and the completion they produced, read from
+ *   `gen_ai.input.messages` / `gen_ai.output.messages`, the indexed
+ *   `gen_ai.prompt.N.*` / `gen_ai.completion.N.*` attributes, or the
+ *   `gen_ai.prompt` / `gen_ai.completion` attributes and message events of
+ *   earlier versions of the conventions
+ * - Tool spans (`execute_tool`) give a tool result, timed by the span
+ * - Spans under a nested `invoke_agent` span form that sub-agent's sidechain
+ *
+ * Each model call usually repeats the agent's full history, so only the
+ * messages not seen in its earlier calls become new turns. Every entry keeps
+ * the span it came from, attributes included, as its raw message. A file
+ * holding several traces lists one conversation per trace.
+ */
+
+import type {
+  Conversation,
+  ConversationMeta,
+  ConversationSummary,
+  ContentBlock,
+  Turn,
+  TraceParser,
+  ParseOptions,
+  TokenUsage,
+  Entry,
+} from '../types';
+import { computeTotalUsage, extractMeta } from './claude-code';
+import { parseArguments, parseChatMessage, stringifyToolOutput } from './openai';
+import { turnToEntry } from './shared';
+
+/** A span event with its attributes */
+interface SpanEvent {
+  name: string;
+  time?: string;
+  attributes: Record<string, unknown>;
+}
+
+/** A span read from an OTLP export, with attributes as plain values */
+interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** Start and end in Unix milliseconds */
+  start: number;
+  end: number;
+  attributes: Record<string, unknown>;
+  events: SpanEvent[];
+  status?: { code?: unknown; message?: string };
+}
+
+/** A turn waiting for its ID, with the agent it belongs to */
+interface PendingTurn {
+  turn: Omit<Turn, 'id' | 'parentId'>;
+  raw: Record<string, unknown>;
+  /** Span ID of the enclosing `invoke_agent` span ('' outside any agent) */
+  agent: string;
+}
+
+/** Operations that call a model */
+const MODEL_OPERATIONS = new Set(['chat', 'text_completion', 'generate_content']);
+
+const TOOL_OPERATION = 'execute_tool';
+const AGENT_OPERATION = 'invoke_agent';
+
+/** Events that hold one input message each */
+const MESSAGE_EVENT = /^gen_ai\.(system|user|assistant|tool)\.message$/;
+
+/** Indexed message attributes, e.g. `gen_ai.prompt.0.content` */
+const INDEXED_MESSAGE = /^gen_ai\.(prompt|completion)\.(\d+)\.(.+)$/;
+
+/** Number of JSONL lines sampled when scoring */
+const SCORE_SAMPLE_LINES = 20;
+
+/** OTLP status code for failed spans */
+const STATUS_ERROR = 2;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value is an OTLP trace export request
+ */
+function isExportRequest(value: unknown): value is Record<string, unknown> & { resourceSpans: unknown[] } {
+  return isObject(value) && Array.isArray(value.resourceSpans);
+}
+
+/**
+ * Get the export requests in data: one document, an array of them, or JSONL
+ * text with one per line
+ * @param maxLines Only read this many lines of JSONL text
+ */
+function toExportRequests(data: unknown, maxLines?: number): Array<Record<string, unknown> & { resourceSpans: unknown[] }> {
+  if (Array.isArray(data)) return data.filter(isExportRequest);
+  if (typeof data !== 'string') return isExportRequest(data) ? [data] : [];
+
+  const lines = maxLines === undefined ? data.split('\n') : data.split('\n', maxLines);
+  const requests = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      // A pretty-printed document is read as JSON instead
+      return [];
+    }
+    if (isExportRequest(parsed)) requests.push(parsed);
+  }
+  return requests;
+}
+
+/**
+ * Read an OTLP `AnyValue` (`{ stringValue }`, `{ intValue }`, ...) as a plain value
+ */
+function readAnyValue(value: unknown): unknown {
+  if (!isObject(value)) return undefined;
+  if ('stringValue' in value) return value.stringValue;
+  if ('boolValue' in value) return value.boolValue;
+  // 64-bit integers are encoded as strings
+  if ('intValue' in value) return Number(value.intValue);
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('bytesValue' in value) return value.bytesValue;
+  if (isObject(value.arrayValue)) {
+    return Array.isArray(value.arrayValue.values) ? value.arrayValue.values.map(readAnyValue) : [];
+  }
+  if (isObject(value.kvlistValue)) return readAttributes(value.kvlistValue.values);
+  return undefined;
+}
+
+/**
+ * Read an OTLP attribute list (`[{ key, value }]`) into an object
+ */
+function readAttributes(list: unknown): Record<string, unknown> {
+  const attributes: Record<string, unknown> = {};
+  if (!Array.isArray(list)) return attributes;
+
+  for (const item of list) {
+    if (isObject(item) && typeof item.key === 'string') {
+      attributes[item.key] = readAnyValue(item.value);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Convert OTLP nanoseconds since the epoch (string or number) to milliseconds.
+ * Nanosecond times don't fit a double exactly, so they are rounded to the millisecond.
+ */
+function nanosToMs(value: unknown): number {
+  if (typeof value !== 'string' && typeof value !== 'number') return NaN;
+  return Math.round(Number(value) / 1e6);
+}
+
+/**
+ * Convert Unix milliseconds to an ISO timestamp
+ */
+function toIsoTimestamp(ms: number): string | undefined {
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : undefined;
+}
+
+/**
+ * Read every span in the export requests
+ */
+function readSpans(requests: Array<{ resourceSpans: unknown[] }>): Span[] {
+  const spans: Span[] = [];
+
+  for (const request of requests) {
+    for (const resourceSpans of request.resourceSpans) {
+      if (!isObject(resourceSpans)) continue;
+      // `instrumentationLibrarySpans` is the pre-1.0 name of `scopeSpans`
+      const scopes = resourceSpans.scopeSpans ?? resourceSpans.instrumentationLibrarySpans;
+      if (!Array.isArray(scopes)) continue;
+
+      for (const scope of scopes) {
+        if (!isObject(scope) || !Array.isArray(scope.spans)) continue;
+        for (const raw of scope.spans) {
+          if (!isObject(raw) || typeof raw.traceId !== 'string' || typeof raw.spanId !== 'string') continue;
+          spans.push({
+            traceId: raw.traceId,
+            spanId: raw.spanId,
+            parentSpanId: typeof raw.parentSpanId === 'string' && raw.parentSpanId ? raw.parentSpanId : undefined,
+            name: typeof raw.name === 'string' ? raw.name : '',
+            start: nanosToMs(raw.startTimeUnixNano),
+            end: nanosToMs(raw.endTimeUnixNano),
+            attributes: readAttributes(raw.attributes),
+            events: Array.isArray(raw.events)
+              ? raw.events.filter(isObject).map(event => ({
+                name: typeof event.name === 'string' ? event.name : '',
+                time: toIsoTimestamp(nanosToMs(event.timeUnixNano)),
+                attributes: readAttributes(event.attributes),
+              }))
+              : [],
+            status: isObject(raw.status) ? {
+              code: raw.status.code,
+              message: typeof raw.status.message === 'string' ? raw.status.message : undefined,
+            } : undefined,
+          });
+        }
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Check whether a span carries GenAI attributes or events
+ */
+function isGenAiSpan(span: Span): boolean {
+  return Object.keys(span.attributes).some(key => key.startsWith('gen_ai.')) ||
+    span.events.some(event => event.name.startsWith('gen_ai.'));
+}
+
+/**
+ * Get a span's GenAI operation.
+ * Instrumentations that predate `gen_ai.operation.name` are recognised by
+ * their tool name or model attributes.
+ */
+function getOperation(span: Span): string | undefined {
+  const operation = span.attributes['gen_ai.operation.name'];
+  if (typeof operation === 'string') return operation;
+  if (span.attributes['gen_ai.tool.name'] !== undefined) return TOOL_OPERATION;
+  if (span.attributes['gen_ai.request.model'] !== undefined || span.attributes['gen_ai.response.model'] !== undefined) {
+    return 'chat';
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a span failed
+ */
+function isErrorSpan(span: Span): boolean {
+  return span.status?.code === STATUS_ERROR || span.status?.code === 'STATUS_CODE_ERROR';
+}
+
+/**
+ * Score data as an OTLP GenAI trace export (0–1).
+ * Traces without GenAI spans hold no conversation, so they score 0.
+ */
+function scoreOtelTrace(data: unknown): number {
+  const spans = readSpans(toExportRequests(data, SCORE_SAMPLE_LINES));
+  return spans.some(isGenAiSpan) ? 1 : 0;
+}
+
+/**
+ * Parse a value that may hold JSON, returning it unchanged if it doesn't
+ */
+function parseJsonValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read a message list attribute: JSON messages, one message, or plain text
+ * @param role Role of messages that don't name one
+ */
+function readMessages(value: unknown, role: string): Record<string, unknown>[] {
+  const parsed = parseJsonValue(value);
+  if (Array.isArray(parsed)) return parsed.filter(isObject).map(message => ({ role, ...message }));
+  if (isObject(parsed)) return [{ role, ...parsed }];
+  if (typeof value === 'string' && value) return [{ role, content: value }];
+  return [];
+}
+
+/**
+ * Set a value at a dotted path, creating objects along the way
+ */
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    target[key] = value;
+    return;
+  }
+  if (!isObject(target[key])) target[key] = {};
+  setPath(target[key] as Record<string, unknown>, rest, value);
+}
+
+/**
+ * Turn objects keyed by indices ({ 0: a, 1: b }) into arrays, recursively
+ */
+function toArrays(value: unknown): unknown {
+  if (!isObject(value)) return value;
+
+  const keys = Object.keys(value);
+  const converted = Object.fromEntries(keys.map(key => [key, toArrays(value[key])]));
+  if (keys.length > 0 && keys.every(key => /^\d+$/.test(key))) {
+    return keys.map(Number).sort((a, b) => a - b).map(index => converted[index]);
+  }
+  return converted;
+}
+
+/**
+ * Rebuild messages from indexed attributes
+ * (`gen_ai.prompt.0.role`, `gen_ai.completion.0.tool_calls.0.name`, ...)
+ */
+function readIndexedMessages(attributes: Record<string, unknown>): { prompt: Record<string, unknown>[]; completion: Record<string, unknown>[] } {
+  const groups = { prompt: new Map<number, Record<string, unknown>>(), completion: new Map<number, Record<string, unknown>>() };
+
+  for (const [key, value] of Object.entries(attributes)) {
+    const match = INDEXED_MESSAGE.exec(key);
+    if (!match) continue;
+    const group = groups[match[1] as 'prompt' | 'completion'];
+    const index = Number(match[2]);
+    const message = group.get(index) ?? {};
+    setPath(message, match[3].split('.'), value);
+    group.set(index, message);
+  }
+
+  const ordered = (group: Map<number, Record<string, unknown>>) => [...group.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, message]) => toArrays(message) as Record<string, unknown>);
+  return { prompt: ordered(groups.prompt), completion: ordered(groups.completion) };
+}
+
+/**
+ * Read the messages a model call span was sent and the ones it produced.
+ * The current conventions' attributes are preferred over the indexed
+ * attributes, single attributes and events of earlier versions.
+ */
+function readSpanMessages(span: Span): { input: Record<string, unknown>[]; output: Record<string, unknown>[] } {
+  const attributes = span.attributes;
+
+  if (attributes['gen_ai.input.messages'] !== undefined || attributes['gen_ai.output.messages'] !== undefined) {
+    const instructions = parseJsonValue(attributes['gen_ai.system_instructions']);
+    const system = Array.isArray(instructions) ? [{ role: 'system', parts: instructions }] : [];
+    return {
+      input: [...system, ...readMessages(attributes['gen_ai.input.messages'], 'user')],
+      output: readMessages(attributes['gen_ai.output.messages'], 'assistant'),
+    };
+  }
+
+  const indexed = readIndexedMessages(attributes);
+  if (indexed.prompt.length > 0 || indexed.completion.length > 0) {
+    return { input: indexed.prompt, output: indexed.completion };
+  }
+
+  // `gen_ai.content.prompt` / `gen_ai.content.completion` events hold the same attributes
+  const eventAttributes = Object.assign({}, ...span.events.map(event => event.attributes)) as Record<string, unknown>;
+  const prompt = attributes['gen_ai.prompt'] ?? eventAttributes['gen_ai.prompt'];
+  const completion = attributes['gen_ai.completion'] ?? eventAttributes['gen_ai.completion'];
+  if (prompt !== undefined || completion !== undefined) {
+    return { input: readMessages(prompt, 'user'), output: readMessages(completion, 'assistant') };
+  }
+
+  const input: Record<string, unknown>[] = [];
+  const output: Record<string, unknown>[] = [];
+  for (const event of span.events) {
+    const match = MESSAGE_EVENT.exec(event.name);
+    if (match) {
+      const { id, ...rest } = event.attributes;
+      input.push({ role: match[1], ...rest, ...(match[1] === 'tool' && id !== undefined ? { tool_call_id: id } : {}) });
+    } else if (event.name === 'gen_ai.choice') {
+      const message = parseJsonValue(event.attributes.message);
+      output.push({ role: 'assistant', ...(isObject(message) ? message : {}), finish_reason: event.attributes.finish_reason });
+    }
+  }
+  return { input, output };
+}
+
+/**
+ * Convert a message made of typed parts (the current conventions) into a turn
+ */
+function parsePartsMessage(message: Record<string, unknown> & { parts: unknown[] }): Omit<Turn, 'id'> | null {
+  const content: ContentBlock[] = [];
+
+  for (const part of message.parts) {
+    if (!isObject(part)) continue;
+    const mimeType = typeof part.mime_type === 'string' ? part.mime_type : undefined;
+    const isImage = part.modality === 'image' || !!mimeType?.startsWith('image/');
+
+    switch (part.type) {
+      case 'text':
+        if (typeof part.content === 'string') content.push({ type: 'text', text: part.content });
+        break;
+
+      case 'reasoning':
+        if (typeof part.content === 'string') content.push({ type: 'thinking', thinking: part.content });
+        break;
+
+      case 'tool_call':
+        content.push({ type: 'tool_use', id: String(part.id ?? ''), name: String(part.name ?? ''), input: parseArguments(part.arguments) });
+        break;
+
+      case 'tool_call_response':
+        content.push({ type: 'tool_result', tool_use_id: String(part.id ?? ''), content: stringifyToolOutput(part.response ?? part.result) });
+        break;
+
+      case 'blob':
+        if (isImage && typeof part.content === 'string') {
+          content.push({ type: 'image', source: { type: 'base64', media_type: mimeType, data: part.content } });
+        }
+        break;
+
+      case 'uri':
+        if (isImage && typeof part.uri === 'string') {
+          content.push({ type: 'image', source: { type: 'url', url: part.uri } });
+        }
+        break;
+    }
+  }
+
+  if (message.role === 'assistant') return { role: 'assistant', content };
+  if (content.length === 0) return null;
+  return { role: message.role === 'system' ? 'system' : 'user', content };
+}
+
+/**
+ * Convert a GenAI message into a turn.
+ * Messages without parts are Chat Completions-style; earlier conventions
+ * flatten their tool calls to `{ id, name, arguments }`.
+ */
+function parseGenAiMessage(message: Record<string, unknown>, state: Parameters<typeof parseChatMessage>[1]): Omit<Turn, 'id'> | null {
+  if (Array.isArray(message.parts)) return parsePartsMessage(message as Record<string, unknown> & { parts: unknown[] });
+
+  const toolCalls = Array.isArray(message.tool_calls)
+    ? message.tool_calls.map(call => (isObject(call) && !isObject(call.function)
+      ? { id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } }
+      : call))
+    : message.tool_calls;
+  return parseChatMessage({ ...message, tool_calls: toolCalls }, state);
+}
+
+/**
+ * Read token usage from a model call span.
+ * The conventions count cached tokens in `gen_ai.usage.input_tokens`, so
+ * they are split out to match the Anthropic convention used by metrics.
+ */
+function parseSpanUsage(attributes: Record<string, unknown>): TokenUsage | undefined {
+  const count = (...keys: string[]) => {
+    const value = keys.map(key => attributes[key]).find(v => typeof v === 'number' && Number.isFinite(v));
+    return value as number | undefined;
+  };
+
+  const input = count('gen_ai.usage.input_tokens', 'gen_ai.usage.prompt_tokens');
+  const output = count('gen_ai.usage.output_tokens', 'gen_ai.usage.completion_tokens');
+  if (input === undefined && output === undefined) return undefined;
+
+  const cacheRead = count('gen_ai.usage.cache_read.input_tokens', 'gen_ai.usage.cache_read_input_tokens');
+  const cacheCreation = count('gen_ai.usage.cache_creation.input_tokens', 'gen_ai.usage.cache_creation_input_tokens');
+
+  const usage: TokenUsage = {
+    input_tokens: input !== undefined ? Math.max(0, input - (cacheRead ?? 0) - (cacheCreation ?? 0)) : undefined,
+    output_tokens: output,
+  };
+  if (cacheRead) usage.cache_read_input_tokens = cacheRead;
+  if (cacheCreation) usage.cache_creation_input_tokens = cacheCreation;
+  return usage;
+}
+
+/**
+ * Get the span as shown in the raw JSON view, with readable times and attributes
+ */
+function spanRecord(span: Span): Record<string, unknown> {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+    name: span.name,
+    startTime: toIsoTimestamp(span.start),
+    endTime: toIsoTimestamp(span.end),
+    ...(span.status ? { status: span.status } : {}),
+    attributes: span.attributes,
+    ...(span.events.length > 0 ? { events: span.events } : {}),
+  };
+}
+
+/**
+ * Earliest start and latest end of some spans (±Infinity when none has a time).
+ * Loops instead of spreading into Math.min/max, which overflows the stack on
+ * traces with very many spans.
+ */
+function getTimeRange(spans: Span[]): { start: number; end: number } {
+  let start = Infinity;
+  let end = -Infinity;
+  for (const span of spans) {
+    if (span.start < start) start = span.start;
+    if (span.end > end) end = span.end;
+  }
+  return { start, end };
+}
+
+/**
+ * Group GenAI spans by trace
+ */
+function groupTraces(spans: Span[]): Map<string, Span[]> {
+  const traces = new Map<string, Span[]>();
+  for (const span of spans) {
+    const trace = traces.get(span.traceId) ?? [];
+    trace.push(span);
+    traces.set(span.traceId, trace);
+  }
+  for (const [traceId, trace] of traces) {
+    if (!trace.some(isGenAiSpan)) traces.delete(traceId);
+  }
+  return traces;
+}
+
+/**
+ * Title a trace with its first agent's name, or its root span's name
+ */
+function getTraceTitle(spans: Span[]): string | undefined {
+  const ordered = [...spans].sort((a, b) => a.start - b.start);
+  const agentName = ordered
+    .map(span => span.attributes['gen_ai.agent.name'])
+    .find((name): name is string => typeof name === 'string' && !!name);
+  if (agentName) return agentName;
+
+  const ids = new Set(spans.map(span => span.spanId));
+  return ordered.find(span => !span.parentSpanId || !ids.has(span.parentSpanId))?.name || undefined;
+}
+
+/**
+ * List the traces in data, most recent first
+ */
+function listTraces(data: unknown): ConversationSummary[] {
+  return [...groupTraces(readSpans(toExportRequests(data))).entries()]
+    .map(([traceId, spans]) => {
+      const { end } = getTimeRange(spans);
+      return {
+        summary: { id: traceId, title: getTraceTitle(spans) ?? 'Untitled', updated_at: toIsoTimestamp(end) },
+        time: Number.isFinite(end) ? end : -Infinity,
+      };
+    })
+    .sort((a, b) => b.time - a.time)
+    .map(({ summary }) => summary);
+}
+
+/**
+ * Rebuild one trace's spans into turns, in start order
+ */
+function spansToTurns(spans: Span[]): { turns: PendingTurn[]; agentNames: Map<string, string> } {
+  const byId = new Map(spans.map(span => [span.spanId, span]));
+
+  // Nearest ancestor of a span with the given operation
+  const findAncestor = (span: Span, operation: string): Span | undefined => {
+    const visited = new Set<string>();
+    for (let parent = span.parentSpanId ? byId.get(span.parentSpanId) : undefined; parent && !visited.has(parent.spanId);
+      parent = parent.parentSpanId ? byId.get(parent.parentSpanId) : undefined) {
+      visited.add(parent.spanId);
+      if (getOperation(parent) === operation) return parent;
+    }
+    return undefined;
+  };
+
+  const agentNames = new Map<string, string>();
+  const spawningTools = new Map<string, string>();
+  for (const span of spans) {
+    if (getOperation(span) !== AGENT_OPERATION) continue;
+    const name = span.attributes['gen_ai.agent.name'];
+    agentNames.set(span.spanId, typeof name === 'string' && name ? name : 'agent');
+    // An agent run as a tool reports back through that tool's result
+    const tool = findAncestor(span, TOOL_OPERATION);
+    if (tool) spawningTools.set(tool.spanId, span.spanId);
+  }
+
+  const calls = spans
+    .filter(span => {
+      const operation = getOperation(span);
+      return operation === TOOL_OPERATION || (operation !== undefined && MODEL_OPERATIONS.has(operation));
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const turns: PendingTurn[] = [];
+  const lastTurn = new Map<string, PendingTurn>();
+  const seen = new Map<string, number>();
+  const called = new Set<string>();
+  const answered = new Set<string>();
+  const functionCalls = { counter: 0, pendingByName: new Map<string, string>() };
+
+  const push = (pending: PendingTurn) => {
+    for (const block of pending.turn.content) {
+      if (block.type === 'tool_use') called.add(block.id);
+      if (block.type === 'tool_result') answered.add(block.tool_use_id);
+    }
+    turns.push(pending);
+    lastTurn.set(pending.agent, pending);
+  };
+
+  for (const span of calls) {
+    const agent = findAncestor(span, AGENT_OPERATION)?.spanId ?? '';
+    const raw = spanRecord(span);
+    const attributes = span.attributes;
+
+    if (getOperation(span) === TOOL_OPERATION) {
+      const id = typeof attributes['gen_ai.tool.call.id'] === 'string' ? attributes['gen_ai.tool.call.id'] : span.spanId;
+
+      // Without captured content the call is only known from its span
+      if (!called.has(id)) {
+        const name = typeof attributes['gen_ai.tool.name'] === 'string'
+          ? attributes['gen_ai.tool.name']
+          : span.name.replace(/^execute_tool\s+/, '');
+        const use: ContentBlock = { type: 'tool_use', id, name, input: parseArguments(attributes['gen_ai.tool.call.arguments']) };
+        const previous = lastTurn.get(agent);
+        if (previous?.turn.role === 'assistant') {
+          previous.turn.content.push(use);
+          called.add(id);
+        } else {
+          push({ turn: { role: 'assistant', content: [use], timestamp: toIsoTimestamp(span.start) }, raw, agent });
+        }
+      }
+
+      const isError = isErrorSpan(span);
+      const result = attributes['gen_ai.tool.call.result'];
+      const text = result !== undefined
+        ? stringifyToolOutput(result)
+        : isError ? span.status?.message ?? String(attributes['error.type'] ?? '') : '';
+      const spawned = spawningTools.get(span.spanId);
+
+      push({
+        turn: {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: id, content: text, ...(isError ? { is_error: true } : {}) }],
+          timestamp: toIsoTimestamp(span.end),
+          ...(spawned ? { spawnedAgentId: spawned } : {}),
+        },
+        raw,
+        agent,
+      });
+      continue;
+    }
+
+    const { input, output } = readSpanMessages(span);
+    const seenCount = seen.get(agent) ?? 0;
+    const start = input.length < seenCount ? 0 : seenCount;
+
+    for (const message of input.slice(start)) {
+      const turn = parseGenAiMessage(message, functionCalls);
+      if (!turn) continue;
+      // Results already taken from tool spans are repeated in later calls
+      const content = turn.content.filter(block => block.type !== 'tool_result' || !answered.has(block.tool_use_id));
+      if (content.length === 0) continue;
+      push({ turn: { ...turn, content, timestamp: toIsoTimestamp(span.start) }, raw, agent });
+    }
+
+    const parsed = output.length > 0 ? parseGenAiMessage(output[0], functionCalls) : null;
+    const finishReasons = attributes['gen_ai.response.finish_reasons'];
+    const finishReason = Array.isArray(finishReasons) && typeof finishReasons[0] === 'string'
+      ? finishReasons[0]
+      : typeof output[0]?.finish_reason === 'string' ? output[0].finish_reason : undefined;
+    const model = attributes['gen_ai.response.model'] ?? attributes['gen_ai.request.model'];
+    const usage = parseSpanUsage(attributes);
+    const isError = isErrorSpan(span);
+
+    // Calls without captured content still count their usage and errors
+    if (parsed?.role === 'assistant' || usage || isError) {
+      const turn: Omit<Turn, 'id' | 'parentId'> = {
+        role: 'assistant',
+        content: parsed?.role === 'assistant' ? parsed.content : [],
+        timestamp: toIsoTimestamp(span.end),
+      };
+      if (typeof model === 'string') turn.model = model;
+      if (usage) turn.usage = usage;
+      if (finishReason) turn.stopReason = finishReason;
+      if (typeof attributes['gen_ai.response.id'] === 'string') turn.requestId = attributes['gen_ai.response.id'];
+      if (isError) turn.error = span.status?.message || String(attributes['error.type'] ?? 'Request failed');
+      push({ turn, raw, agent });
+    }
+
+    seen.set(agent, input.length + (output.length > 0 ? 1 : 0));
+  }
+
+  return { turns, agentNames };
+}
+
+/**
+ * OpenTelemetry GenAI trace parser
+ */
+export const otelParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return scoreOtelTrace(data) > 0;
+  },
+
+  score(data: unknown): number {
+    return scoreOtelTrace(data);
+  },
+
+  parse(data: unknown, options: ParseOptions = {}): Conversation {
+    const traces = groupTraces(readSpans(toExportRequests(data)));
+    const traceId = options.conversationId !== undefined && traces.has(options.conversationId)
+      ? options.conversationId
+      : listTraces(data)[0]?.id;
+    const spans = traceId !== undefined ? traces.get(traceId) : undefined;
+    if (!traceId || !spans) {
+      throw new Error('No GenAI spans in OpenTelemetry trace');
+    }
+
+    const { turns: pending, agentNames } = spansToTurns(spans);
+
+    // The agent of the first call is the main conversation; nested agents are sidechains
+    const mainAgent = pending[0]?.agent ?? '';
+    const lastTurnId = new Map<string, string>();
+    const turns: Turn[] = [];
+    const entries: Entry[] = [];
+
+    pending.forEach(({ turn: partial, raw, agent }, index) => {
+      const turn: Turn = { ...partial, id: `otel-${index}`, parentId: lastTurnId.get(agent) };
+      if (agent !== mainAgent) {
+        turn.isSidechain = true;
+        turn.agentId = `${agentNames.get(agent) ?? 'agent'}-${agent}`;
+      }
+      if (turn.spawnedAgentId) {
+        turn.spawnedAgentId = `${agentNames.get(turn.spawnedAgentId) ?? 'agent'}-${turn.spawnedAgentId}`;
+      }
+      turns.push(turn);
+      entries.push(turnToEntry(turn, raw));
+      lastTurnId.set(agent, turn.id);
+    });
+
+    const { start, end } = getTimeRange(spans);
+    const firstTimestamp = toIsoTimestamp(start);
+    const lastTimestamp = toIsoTimestamp(end);
+    let durationMs: number | undefined;
+    if (firstTimestamp && lastTimestamp) {
+      const duration = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+      if (!isNaN(duration)) durationMs = duration;
+    }
+
+    const meta: ConversationMeta = {
+      id: traceId,
+      title: getTraceTitle(spans) ?? 'OpenTelemetry Trace',
+      created_at: firstTimestamp,
+      updated_at: lastTimestamp,
+      model: turns.find(t => t.model)?.model,
+      source: 'otel',
+      duration_ms: durationMs,
+      total_usage: computeTotalUsage(turns),
+      ...extractMeta(entries),
+    };
+
+    return { meta, turns, entries };
+  },
+
+  listConversations(data: unknown): ConversationSummary[] {
+    return listTraces(data);
+  },
+};
+
+// Export helper functions for testing
+export { readAnyValue, readAttributes, readSpanMessages, parseSpanUsage, scoreOtelTrace, listTraces };
+
+export default otelParser;
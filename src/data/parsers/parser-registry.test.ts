@@ -2,8 +2,8 @@
  * Tests for Parser Registry
  */
 
-import { describe, it, expect } from 'vitest';
-import { parserRegistry, claudeCodeParser } from './index';
+import { describe, it, expect, vi } from 'vitest';
+import { parserRegistry, claudeCodeParser, isAmbiguousDetection } from './index';
 import type { TraceParser } from '../types';
 
 describe('ParserRegistry', () => {
@@ -51,6 +51,71 @@ describe('ParserRegistry', () => {
         'No registered parser can handle this file format'
       );
     });
+
+    it('picks the best-scoring parser regardless of priority', () => {
+      const weakParser: TraceParser = {
+        canParse: (data) => typeof data === 'string' && data.startsWith('SCORE:'),
+        parse: () => ({ meta: { source: 'weak' }, turns: [] }),
+        score: () => 0.4,
+      };
+      const strongParser: TraceParser = {
+        canParse: (data) => typeof data === 'string' && data.startsWith('SCORE:'),
+        parse: () => ({ meta: { source: 'strong' }, turns: [] }),
+        score: () => 0.9,
+      };
+
+      parserRegistry.register('weak', weakParser, 200);
+      parserRegistry.register('strong', strongParser, 1);
+
+      const result = parserRegistry.detectAndParse('SCORE:test');
+      expect(result.sourceId).toBe('strong');
+      expect(result.confidence).toBe(0.9);
+      expect(result.candidates).toEqual([{ sourceId: 'weak', confidence: 0.4 }]);
+
+      parserRegistry.unregister('weak');
+      parserRegistry.unregister('strong');
+    });
+
+    it('clamps scores and ignores zero-score parsers', () => {
+      const overParser: TraceParser = {
+        canParse: (data) => data === 'CLAMP',
+        parse: () => ({ meta: {}, turns: [] }),
+        score: () => 3,
+      };
+      const zeroParser: TraceParser = {
+        canParse: (data) => data === 'CLAMP',
+        parse: () => ({ meta: {}, turns: [] }),
+        score: () => 0,
+      };
+
+      parserRegistry.register('over', overParser);
+      parserRegistry.register('zero', zeroParser);
+
+      expect(parserRegistry.detect('CLAMP')).toEqual([{ sourceId: 'over', confidence: 1 }]);
+
+      parserRegistry.unregister('over');
+      parserRegistry.unregister('zero');
+    });
+
+    it('reports no candidates for unambiguous Claude Code JSONL', () => {
+      const content = '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}';
+      expect(parserRegistry.detectAndParse(content).candidates).toEqual([]);
+    });
+  });
+
+  describe('isAmbiguousDetection', () => {
+    it('is not ambiguous without runner-ups', () => {
+      expect(isAmbiguousDetection({ confidence: 0.3, candidates: [] })).toBe(false);
+    });
+
+    it('is ambiguous when the best confidence is low', () => {
+      expect(isAmbiguousDetection({ confidence: 0.6, candidates: [{ sourceId: 'b', confidence: 0.1 }] })).toBe(true);
+    });
+
+    it('is ambiguous when a runner-up is close', () => {
+      expect(isAmbiguousDetection({ confidence: 1, candidates: [{ sourceId: 'b', confidence: 0.9 }] })).toBe(true);
+      expect(isAmbiguousDetection({ confidence: 1, candidates: [{ sourceId: 'b', confidence: 0.5 }] })).toBe(false);
+    });
   });
 
   describe('parseWithSource', () => {
@@ -67,6 +132,89 @@ describe('ParserRegistry', () => {
     });
   });
 
+  describe('parseContent', () => {
+    it('detects the source of JSONL text', () => {
+      const content = '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}';
+      const result = parserRegistry.parseContent(content);
+      expect(result.sourceId).toBe('claude-code');
+      expect(result.conversation.turns).toHaveLength(1);
+    });
+
+    it('parses JSON documents before detection', () => {
+      const content = JSON.stringify({ messages: [{ role: 'user', content: 'hello' }] });
+      const result = parserRegistry.parseContent(content);
+      expect(result.conversation.turns.length).toBeGreaterThan(0);
+    });
+
+    it('uses the given source and keeps the others as candidates', () => {
+      const content = '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}';
+      const result = parserRegistry.parseContent(content, 'claude-code');
+      expect(result.sourceId).toBe('claude-code');
+      expect(result.candidates.some(c => c.sourceId === 'claude-code')).toBe(false);
+    });
+
+    it('parses a JSON document once while detecting its source', () => {
+      const content = JSON.stringify({ messages: [{ role: 'user', content: 'hello' }] }, null, 2);
+      const parse = vi.spyOn(JSON, 'parse');
+      parserRegistry.parseContent(content);
+      const wholeFileParses = parse.mock.calls.filter(([text]) => String(text).trim() === content);
+      parse.mockRestore();
+
+      expect(wholeFileParses).toHaveLength(1);
+    });
+
+    it('reports malformed and unsupported content', () => {
+      expect(() => parserRegistry.parseContent('not valid')).toThrow('Failed to parse file');
+      expect(() => parserRegistry.parseContent('{"foo":1}')).toThrow('Unsupported conversation format');
+    });
+  });
+
+  describe('appendContent', () => {
+    it('extends a conversation and returns the number of new turns', () => {
+      const conversation = parserRegistry.parseContent(
+        '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}\n'
+      ).conversation;
+      const added = parserRegistry.appendContent(
+        conversation,
+        '{"type":"assistant","uuid":"2","parentUuid":"1","message":{"role":"assistant","content":[{"type":"text","text":"hi"}]}}\n',
+        'claude-code',
+        1
+      );
+
+      expect(added).toBe(1);
+      expect(conversation.turns).toHaveLength(2);
+    });
+
+    it('only appends to conversations read from JSONL', () => {
+      const jsonl = '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}\n';
+      const legacy = JSON.stringify({
+        messages: [{ uuid: '1', type: 'user', message: { role: 'user', content: 'hello' } }],
+      }, null, 2);
+
+      expect(parserRegistry.canAppend('claude-code', jsonl)).toBe(true);
+      expect(parserRegistry.parseContent(legacy).sourceId).toBe('claude-code');
+      expect(parserRegistry.canAppend('claude-code', legacy)).toBe(false);
+    });
+
+    it('rejects appended text that does not parse', () => {
+      const conversation = parserRegistry.parseContent(
+        '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}\n'
+      ).conversation;
+
+      expect(() => parserRegistry.appendContent(conversation, '  ],\n  "model": "x"\n}\n', 'claude-code', 1))
+        .toThrow('Appended text is not JSONL');
+      expect(conversation.turns).toHaveLength(1);
+      expect(conversation.diagnostics).toEqual([]);
+    });
+
+    it('throws for parsers that cannot append', () => {
+      expect(parserRegistry.canAppend('openai', '{}')).toBe(false);
+      expect(() => parserRegistry.appendContent({ meta: {}, turns: [] }, '{}', 'openai')).toThrow(
+        'Parser for openai cannot append content'
+      );
+    });
+  });
+
   describe('register and unregister', () => {
     it('can register a custom parser', () => {
       const mockParser: TraceParser = {
@@ -0,0 +1,63 @@
+/**
+ * Tests for helpers shared by the trace parsers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeUsage, toTime, turnToEntry } from './shared';
+
+describe('turnToEntry', () => {
+  it('mirrors an assistant turn and its raw record', () => {
+    const raw = { id: 'msg-1' };
+    const entry = turnToEntry(
+      { id: 't1', parentId: 't0', role: 'assistant', content: [], model: 'm', stopReason: 'end_turn', agentId: 'a1' },
+      raw
+    );
+
+    expect(entry).toMatchObject({
+      type: 'assistant',
+      uuid: 't1',
+      parentUuid: 't0',
+      rawMessage: raw,
+      stopReason: 'end_turn',
+      agentId: 'a1',
+      parsedAssistantMessage: { role: 'assistant', model: 'm', stopReason: 'end_turn' },
+    });
+    expect(entry.parsedUserMessage).toBeUndefined();
+  });
+
+  it('keeps system turns and leaves out the raw record when there is none', () => {
+    const entry = turnToEntry({ id: 's', role: 'system', content: [] });
+    expect(entry.type).toBe('system');
+    expect(entry).not.toHaveProperty('rawMessage');
+  });
+});
+
+describe('mergeUsage', () => {
+  it('counts thinking tokens only when a turn reports them', () => {
+    expect(mergeUsage([
+      { id: 'a', role: 'assistant', content: [], usage: { input_tokens: 1, output_tokens: 2 } },
+      { id: 'b', role: 'assistant', content: [], usage: { input_tokens: 3, thinking_tokens: 4 } },
+    ])).toEqual({
+      input_tokens: 4,
+      output_tokens: 2,
+      cache_read_input_tokens: 0,
+      cache_creation_input_tokens: 0,
+      thinking_tokens: 4,
+    });
+  });
+
+  it('returns undefined when no turn has usage', () => {
+    expect(mergeUsage([{ id: 'a', role: 'assistant', content: [] }])).toBeUndefined();
+  });
+});
+
+describe('toTime', () => {
+  it('reads timestamps without a zone as UTC when asked', () => {
+    expect(toTime('2025-01-01T00:00:00', true)).toBe(Date.UTC(2025, 0, 1));
+    expect(toTime('2025-01-01T00:00:00+01:00', true)).toBe(Date.UTC(2024, 11, 31, 23));
+  });
+
+  it('returns NaN for missing values', () => {
+    expect(toTime(undefined)).toBeNaN();
+  });
+});
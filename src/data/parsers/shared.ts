@@ -0,0 +1,117 @@
+/**
+ * Helpers shared by the trace parsers and their cluster strategies
+ */
+
+import type { Entry, TokenUsage, Turn } from '../types';
+
+/** Outcome of parsing the last text given to parseJsonText */
+let lastParse: { text: string; value?: unknown; error?: unknown } | null = null;
+
+/**
+ * Parse a whole file's text as one JSON document.
+ * Detection asks every parser about the same text (canParse, score, then
+ * parse), so the last outcome is kept and a file is parsed only once.
+ * @throws SyntaxError if the text is not a single JSON document
+ */
+export function parseJsonText(text: string): unknown {
+  if (lastParse?.text !== text) {
+    try {
+      lastParse = { text, value: JSON.parse(text) };
+    } catch (error) {
+      lastParse = { text, error };
+    }
+  }
+  if (lastParse.error !== undefined) throw lastParse.error;
+  return lastParse.value;
+}
+
+/**
+ * Get the JSON document data holds: text is parsed (null if it isn't a
+ * single JSON document) and anything else is taken as already parsed
+ */
+export function toJsonDocument(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return parseJsonText(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget the kept parse so a large file can be garbage collected
+ */
+export function releaseJsonText(): void {
+  lastParse = null;
+}
+
+/**
+ * Build the entry that stands for a parsed turn, for formats whose records
+ * don't map one-to-one onto Claude Code entries
+ * @param raw The record the turn was parsed from
+ */
+export function turnToEntry(turn: Turn, raw?: Record<string, unknown>): Entry {
+  const entry: Entry = {
+    type: turn.role === 'assistant' ? 'assistant' : turn.role === 'system' ? 'system' : 'user',
+    uuid: turn.id,
+    parentUuid: turn.parentId,
+    timestamp: turn.timestamp,
+  };
+  if (raw) entry.rawMessage = raw;
+
+  if (turn.role === 'user') {
+    entry.parsedUserMessage = { role: 'user', content: turn.content };
+  } else if (turn.role === 'assistant') {
+    entry.parsedAssistantMessage = {
+      role: 'assistant',
+      model: turn.model,
+      content: turn.content,
+      stopReason: turn.stopReason,
+      usage: turn.usage,
+    };
+  }
+  if (turn.requestId) entry.requestId = turn.requestId;
+  if (turn.stopReason) entry.stopReason = turn.stopReason;
+  if (turn.isSidechain) entry.isSidechain = true;
+  if (turn.agentId) entry.agentId = turn.agentId;
+  if (turn.spawnedAgentId) entry.spawnedAgentId = turn.spawnedAgentId;
+  if (turn.error) entry.error = turn.error;
+  if (turn.isApiErrorMessage) entry.isApiErrorMessage = true;
+
+  return entry;
+}
+
+/**
+ * Sum the usage of every request in a cluster, for formats whose turns each
+ * report a separate request (unlike Claude Code, where usage repeats).
+ * Thinking tokens are only counted by some formats, so they're left out
+ * unless a turn reports them.
+ */
+export function mergeUsage(turns: Turn[]): TokenUsage | undefined {
+  let merged: TokenUsage | undefined;
+
+  for (const { usage } of turns) {
+    if (!usage) continue;
+    merged = {
+      input_tokens: (merged?.input_tokens || 0) + (usage.input_tokens || 0),
+      output_tokens: (merged?.output_tokens || 0) + (usage.output_tokens || 0),
+      cache_read_input_tokens: (merged?.cache_read_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+      cache_creation_input_tokens: (merged?.cache_creation_input_tokens || 0) + (usage.cache_creation_input_tokens || 0),
+      ...(merged?.thinking_tokens !== undefined || usage.thinking_tokens !== undefined
+        ? { thinking_tokens: (merged?.thinking_tokens || 0) + (usage.thinking_tokens || 0) }
+        : {}),
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Milliseconds since the epoch for an ISO timestamp, or NaN
+ * @param utc Read timestamps without a zone as UTC rather than local time
+ */
+export function toTime(value: unknown, utc = false): number {
+  if (typeof value !== 'string') return NaN;
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+  return new Date(utc && !hasZone ? `${value}Z` : value).getTime();
+}
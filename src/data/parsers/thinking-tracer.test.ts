@@ -0,0 +1,100 @@
+/**
+ * Tests for the thinking-tracer interchange format parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { thinkingTracerParser } from './thinking-tracer';
+import { claudeCodeParser } from './claude-code';
+import { parserRegistry } from './index';
+import { exportAsTracerJson } from '../../export/exporter';
+
+function makeDocument(conversation: Record<string, unknown>, version: unknown = 1): Record<string, unknown> {
+  return { format: 'thinking-tracer', version, conversation };
+}
+
+const conversation = {
+  meta: { title: 'Converted trace' },
+  turns: [
+    { id: 'u1', role: 'user', content: [{ type: 'text', text: 'Hello' }], timestamp: '2025-01-01T00:00:00.000Z' },
+    {
+      id: 'a1',
+      role: 'assistant',
+      parentId: 'u1',
+      model: 'my-model',
+      content: [
+        { type: 'thinking', thinking: 'Greet back' },
+        { type: 'text', text: 'Hi!' },
+      ],
+      usage: { input_tokens: 4, output_tokens: 6, thinking_tokens: 2 },
+    },
+  ],
+};
+
+describe('thinkingTracerParser', () => {
+  describe('canParse', () => {
+    it('accepts documents with the format marker', () => {
+      expect(thinkingTracerParser.canParse(makeDocument(conversation))).toBe(true);
+      expect(thinkingTracerParser.canParse(makeDocument(conversation, 2))).toBe(true);
+    });
+
+    it('rejects other data', () => {
+      expect(thinkingTracerParser.canParse({ conversation })).toBe(false);
+      expect(thinkingTracerParser.canParse('{"format":"thinking-tracer"}')).toBe(false);
+      expect(thinkingTracerParser.canParse(null)).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('returns the conversation with source and total usage filled in', () => {
+      const result = thinkingTracerParser.parse(makeDocument(conversation));
+
+      expect(result.meta.title).toBe('Converted trace');
+      expect(result.meta.source).toBe('thinking-tracer');
+      expect(result.meta.total_usage).toMatchObject({ input_tokens: 4, output_tokens: 6 });
+      expect(result.turns).toHaveLength(2);
+      expect(result.turns[1].content[0]).toEqual({ type: 'thinking', thinking: 'Greet back' });
+      expect(result.entries).toBeUndefined();
+    });
+
+    it('keeps the source the conversation names', () => {
+      const result = thinkingTracerParser.parse(
+        makeDocument({ ...conversation, meta: { source: 'claude-code' } })
+      );
+      expect(result.meta.source).toBe('claude-code');
+    });
+
+    it('rejects unsupported versions', () => {
+      expect(() => thinkingTracerParser.parse(makeDocument(conversation, 2))).toThrow(
+        'Unsupported thinking-tracer format version 2 (expected 1)'
+      );
+    });
+
+    it('rejects invalid documents with the paths of the errors', () => {
+      const invalid = makeDocument({ meta: {}, turns: [{ id: 'x', role: 'user', content: 'Hello' }] });
+      expect(() => thinkingTracerParser.parse(invalid)).toThrow(
+        'Invalid thinking-tracer document:\n$.conversation.turns[0].content: must be array, got string'
+      );
+    });
+  });
+
+  describe('registry', () => {
+    it('is detected ahead of other parsers', () => {
+      const result = parserRegistry.parseContent(JSON.stringify(makeDocument(conversation)));
+      expect(result.sourceId).toBe('thinking-tracer');
+      expect(result.confidence).toBe(1);
+    });
+
+    it('round-trips an exported trace', () => {
+      const original = claudeCodeParser.parse([
+        '{"type":"user","uuid":"u1","timestamp":"2025-01-01T00:00:00.000Z","message":{"role":"user","content":"List files"}}',
+        '{"type":"assistant","uuid":"a1","parentUuid":"u1","timestamp":"2025-01-01T00:00:01.000Z","message":{"role":"assistant","model":"claude-sonnet-4","content":[{"type":"tool_use","id":"t1","name":"Bash","input":{"command":"ls"}}],"usage":{"input_tokens":3,"output_tokens":5}}}',
+        '{"type":"user","uuid":"u2","parentUuid":"a1","timestamp":"2025-01-01T00:00:02.000Z","message":{"role":"user","content":[{"type":"tool_result","tool_use_id":"t1","content":"README.md"}]}}',
+      ].join('\n'));
+
+      const result = parserRegistry.parseContent(exportAsTracerJson(original));
+
+      expect(result.sourceId).toBe('thinking-tracer');
+      expect(result.conversation).toEqual(JSON.parse(JSON.stringify(original)));
+    });
+  });
+});
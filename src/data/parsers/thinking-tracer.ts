@@ -0,0 +1,61 @@
+/**
+ * Parser for the canonical thinking-tracer interchange format (JSON)
+ *
+ * The document wraps a Conversation exactly as the viewer models it
+ * (see FORMAT.md and src/data/format/thinking-tracer-v1.schema.json):
+ *
+ *   { "format": "thinking-tracer", "version": 1, "conversation": { meta, turns, entries?, diagnostics? } }
+ *
+ * Documents are validated against the schema and rejected with the JSON
+ * paths of the offending values. The conversation's own `meta.source` is
+ * kept, so a trace exported from another source keeps that source's labels
+ * and clustering when it is loaded again.
+ */
+
+import type { Conversation, TraceParser } from '../types';
+import { computeTotalUsage } from './claude-code';
+import {
+  TRACER_FORMAT_VERSION,
+  isTracerDocument,
+  validateTracerDocument,
+  type TracerDocument,
+} from '../format/interchange';
+import { formatSchemaErrors } from '../format/json-schema';
+
+export const thinkingTracerParser: TraceParser = {
+  canParse(data: unknown): boolean {
+    return isTracerDocument(data);
+  },
+
+  parse(data: unknown): Conversation {
+    if (!isTracerDocument(data)) {
+      throw new Error('Invalid thinking-tracer document: missing "format": "thinking-tracer"');
+    }
+
+    const version = (data as Record<string, unknown>).version;
+    if (version !== TRACER_FORMAT_VERSION) {
+      throw new Error(
+        `Unsupported thinking-tracer format version ${JSON.stringify(version)} (expected ${TRACER_FORMAT_VERSION})`
+      );
+    }
+
+    const errors = validateTracerDocument(data);
+    if (errors.length > 0) {
+      throw new Error(`Invalid thinking-tracer document:\n${formatSchemaErrors(errors)}`);
+    }
+
+    const { meta, turns, entries, diagnostics } = (data as TracerDocument).conversation;
+    return {
+      meta: {
+        ...meta,
+        source: meta.source ?? 'thinking-tracer',
+        total_usage: meta.total_usage ?? computeTotalUsage(turns),
+      },
+      turns,
+      ...(entries ? { entries } : {}),
+      ...(diagnostics ? { diagnostics } : {}),
+    };
+  },
+};
+
+export default thinkingTracerParser;
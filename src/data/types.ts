@@ -103,6 +103,8 @@ export interface Turn {
   isSidechain?: boolean;
   /** Agent ID if from a sub-agent */
   agentId?: string;
+  /** Agent ID of the sub-agent whose Task result is in this turn */
+  spawnedAgentId?: string;
   /** Error message if this turn encountered an error */
   error?: string;
   /** Whether this is an API error message */
@@ -147,6 +149,14 @@ export interface ThinkingMetadata {
   triggers?: string[];
 }
 
+/** Details of a context compaction (Claude Code compact_boundary entries) */
+export interface CompactMetadata {
+  /** What started the compaction ('auto' or 'manual') */
+  trigger?: string;
+  /** Context size in tokens just before compacting */
+  preTokens?: number;
+}
+
 /** Metadata about the conversation */
 export interface ConversationMeta {
   /** Unique identifier for the conversation */
@@ -183,12 +193,51 @@ export interface ConversationMeta {
   agentIds?: string[];
 }
 
+/** Kinds of problems found while parsing a trace */
+export type ParseDiagnosticKind =
+  | 'invalid-line'
+  | 'unknown-entry-type'
+  | 'orphan-tool-result'
+  | 'broken-parent-chain';
+
+/** A problem found while parsing a trace (the trace is still loaded) */
+export interface ParseDiagnostic {
+  kind: ParseDiagnosticKind;
+  /** Human-readable description */
+  message: string;
+  /** The unknown entry type, tool_use_id or parent UUID the problem is about */
+  subject?: string;
+  /** 1-based line number in the source file (JSONL only) */
+  line?: number;
+  /** UUID of the entry the problem was found in */
+  uuid?: string;
+  /** Index in Conversation.turns of the nearest turn, for navigation */
+  turnIndex?: number;
+}
+
 /** Complete conversation trace */
 export interface Conversation {
   meta: ConversationMeta;
   turns: Turn[];
   /** Raw entries from JSONL (all entry types, not just user/assistant) */
   entries?: Entry[];
+  /** Problems found while parsing (skipped lines, dangling references, ...) */
+  diagnostics?: ParseDiagnostic[];
+}
+
+/** One conversation in a file that holds several (e.g. a ChatGPT export) */
+export interface ConversationSummary {
+  /** Identifier passed back as ParseOptions.conversationId */
+  id: string;
+  title: string;
+  /** When the conversation was last updated */
+  updated_at?: string;
+}
+
+/** Options for TraceParser.parse */
+export interface ParseOptions {
+  /** Conversation to parse from a file holding several (defaults to the parser's choice) */
+  conversationId?: string;
 }
 
 /** Parser interface for different agent formats */
@@ -196,7 +245,24 @@ export interface TraceParser {
   /** Check if this parser can handle the given data */
   canParse(data: unknown): boolean;
   /** Parse raw data into a Conversation */
-  parse(data: unknown): Conversation;
+  parse(data: unknown, options?: ParseOptions): Conversation;
+  /**
+   * Score how well the data matches this parser's expected shape (0–1).
+   * Only consulted when canParse returns true; parsers without a score
+   * are treated as a full match.
+   */
+  score?(data: unknown): number;
+  /**
+   * Extend a conversation this parser produced with text appended to the
+   * same source, in place. Only line-oriented formats (JSONL) support this.
+   * @param lineOffset Lines already in the source, so diagnostics report file line numbers
+   */
+  append?(conversation: Conversation, appended: string, lineOffset?: number): void;
+  /**
+   * List the conversations in data that holds several, most recent first.
+   * Only formats that bundle conversations into one file support this.
+   */
+  listConversations?(data: unknown): ConversationSummary[];
 }
 
 /**
@@ -217,6 +283,8 @@ export interface DocumentMeta {
   data?: string;
   /** File ID if sourceType is 'file' (Files API) */
   fileId?: string;
+  /** Who attached it: the user, or a tool that returned it (e.g. a screenshot) */
+  origin?: 'user' | 'tool';
 }
 
 /**
@@ -245,7 +313,7 @@ export interface SearchableCluster {
   thinkingBlocks: ThinkingBlockData[];
   toolUses: Array<{ name: string; input: string; id?: string }>;
   toolResults: ToolResultData[];
-  /** Document/media attachments (images, PDFs, etc.) - metadata only */
+  /** Document/media attachments (images, PDFs, etc.) */
   documents: DocumentMeta[];
   /** Whether this cluster is from a sidechain */
   isSidechain?: boolean;
@@ -311,6 +379,8 @@ export interface Entry {
   // Agent/sidechain
   isSidechain?: boolean;
   agentId?: string;
+  /** Sub-agent reported by a Task tool result (toolUseResult.agentId) */
+  spawnedAgentId?: string;
 
   // Error handling
   error?: string;
@@ -326,8 +396,18 @@ export interface Entry {
   // Permission
   permissionMode?: string;
 
+  // System entries
+  /** System entry kind (e.g. 'compact_boundary') */
+  subtype?: string;
+  /** Compaction details (for subtype='compact_boundary') */
+  compactMetadata?: CompactMetadata;
+  /** User entry carrying the summary a compacted conversation continues from */
+  isCompactSummary?: boolean;
+
   // Summary (for type='summary')
   summary?: string;
+  /** Last message of the stretch the summary covers */
+  leafUuid?: string;
 
   // Progress (for type='progress')
   progressStatus?: string;
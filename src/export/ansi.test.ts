@@ -0,0 +1,92 @@
+/**
+ * Tests for ANSI terminal output rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hasAnsi, ansiToHtml, stripAnsi, formatRawAnsi, ansiStyles } from './ansi';
+
+const ESC = '\x1b';
+
+describe('hasAnsi', () => {
+  it('detects escape sequences and bare carriage returns', () => {
+    expect(hasAnsi(`${ESC}[31mred${ESC}[0m`)).toBe(true);
+    expect(hasAnsi('10%\r50%')).toBe(true);
+  });
+
+  it('ignores plain text and CRLF line endings', () => {
+    expect(hasAnsi('plain output')).toBe(false);
+    expect(hasAnsi('line 1\r\nline 2\r\n')).toBe(false);
+  });
+});
+
+describe('ansiToHtml', () => {
+  it('escapes plain text without adding spans', () => {
+    expect(ansiToHtml('a < b')).toBe('a &lt; b');
+  });
+
+  it('renders palette colours and attributes as classes', () => {
+    expect(ansiToHtml(`${ESC}[1;32mPASS${ESC}[0m src/a.test.ts`)).toBe(
+      '<span class="ansi-fg-2 ansi-bold">PASS</span> src/a.test.ts'
+    );
+    expect(ansiToHtml(`${ESC}[91;44mx${ESC}[m`)).toBe('<span class="ansi-fg-9 ansi-bg-4">x</span>');
+  });
+
+  it('inlines 256-colour and truecolor values', () => {
+    expect(ansiToHtml(`${ESC}[38;5;196mred${ESC}[0m`)).toBe('<span style="color:#ff0000">red</span>');
+    expect(ansiToHtml(`${ESC}[38;5;3mx`)).toBe('<span class="ansi-fg-3">x</span>');
+    expect(ansiToHtml(`${ESC}[48;2;16;32;48mbg`)).toBe('<span style="background-color:#102030">bg</span>');
+  });
+
+  it('resets individual attributes', () => {
+    expect(ansiToHtml(`${ESC}[1;31mA${ESC}[22mB${ESC}[39mC`)).toBe(
+      '<span class="ansi-fg-1 ansi-bold">A</span><span class="ansi-fg-1">B</span>C'
+    );
+  });
+
+  it('overwrites a line after a carriage return', () => {
+    expect(ansiToHtml('Progress 10%\rProgress 100%\ndone')).toBe('Progress 100%\ndone');
+    expect(ansiToHtml('loading...\rok')).toBe('okading...');
+    expect(ansiToHtml(`loading...\r${ESC}[Kok`)).toBe('ok');
+  });
+
+  it('escapes text inside styled runs', () => {
+    expect(ansiToHtml(`${ESC}[33m<warn>${ESC}[0m`)).toBe('<span class="ansi-fg-3">&lt;warn&gt;</span>');
+  });
+
+  it('drops other control sequences and incomplete trailing escapes', () => {
+    expect(ansiToHtml(`${ESC}]0;title\x07${ESC}[2Jtext${ESC}[3`)).toBe('text');
+  });
+
+  it('keeps the text after an unterminated escape', () => {
+    expect(ansiToHtml(`ok ${ESC}]0;title tail`)).toBe('ok 0;title tail');
+    expect(ansiToHtml(`ok ${ESC}[1;2 42%`)).toBe('ok  42%');
+  });
+
+  it('limits how far a cursor move can pad a line', () => {
+    const html = ansiToHtml(`${ESC}[2000000Cx`);
+    expect(html).toBe(' '.repeat(256) + 'x');
+    expect(ansiToHtml(`abc${ESC}[2000000Gx`)).toHaveLength(3 + 256 + 1);
+    expect(ansiToHtml(`abcdef\r${ESC}[3Gx`)).toBe('abxdef');
+  });
+});
+
+describe('stripAnsi', () => {
+  it('returns the text left on screen', () => {
+    expect(stripAnsi(`${ESC}[32m✓${ESC}[0m ok\r\n[##  ] 50%\r[####] 100%`)).toBe('✓ ok\n[####] 100%');
+  });
+});
+
+describe('formatRawAnsi', () => {
+  it('shows control characters as visible symbols', () => {
+    expect(formatRawAnsi(`${ESC}[31m<x>\ry`)).toBe('␛[31m&lt;x&gt;␍y');
+  });
+});
+
+describe('ansiStyles', () => {
+  it('generates a rule per palette colour', () => {
+    const css = ansiStyles(['#000', '#f00']);
+    expect(css).toContain('.ansi-fg-1 { color: #f00; }');
+    expect(css).toContain('.ansi-bg-0 { background-color: #000; }');
+    expect(css).toContain('.ansi-bold');
+  });
+});
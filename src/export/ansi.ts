@@ -0,0 +1,291 @@
+/**
+ * ANSI terminal output rendering
+ *
+ * Bash tool results keep the escape sequences and carriage returns the
+ * command wrote: colours, bold text, progress bars redrawn in place. This
+ * module replays them like a terminal line buffer (CR returns to the start
+ * of the line, erase-line clears it) and renders the final screen text as
+ * HTML with SGR styles, or as plain text.
+ */
+
+import { escapeHtml } from '../utils/html';
+
+/** Text attributes set by SGR sequences; colours are palette indexes (0–15) or hex */
+interface AnsiStyle {
+  fg?: number | string;
+  bg?: number | string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+/** One character on a line with the style it was written in */
+interface Cell {
+  char: string;
+  style: AnsiStyle;
+}
+
+const NO_STYLE: AnsiStyle = {};
+
+/** Furthest a cursor move may go past the end of the line, so a huge count can't pad it out */
+const MAX_CURSOR_GAP = 256;
+
+/** Palette for exports on a light background, indexed by ANSI colour number */
+export const ANSI_LIGHT_PALETTE = [
+  '#000000', '#c62828', '#2e7d32', '#9a7d0a', '#1565c0', '#7b1fa2', '#00838f', '#757575',
+  '#555555', '#e53935', '#43a047', '#b7950b', '#1e88e5', '#8e24aa', '#00acc1', '#9e9e9e',
+];
+
+/**
+ * Check whether text holds escape sequences or carriage returns worth rendering
+ */
+export function hasAnsi(text: string): boolean {
+  return text.includes('\x1b') || /\r(?!\n)/.test(text);
+}
+
+/** Convert a 256-colour index above 15 to hex */
+function color256(n: number): string {
+  const hex = (v: number) => v.toString(16).padStart(2, '0');
+  if (n >= 232) {
+    const gray = 8 + (n - 232) * 10;
+    return `#${hex(gray)}${hex(gray)}${hex(gray)}`;
+  }
+  const cube = n - 16;
+  const level = (v: number) => (v === 0 ? 0 : 55 + v * 40);
+  return `#${hex(level(Math.floor(cube / 36)))}${hex(level(Math.floor(cube / 6) % 6))}${hex(level(cube % 6))}`;
+}
+
+/**
+ * Read an extended colour (38;5;n or 38;2;r;g;b) starting after the 38/48
+ * @returns The colour and how many extra parameters it used
+ */
+function readExtendedColor(params: number[], at: number): [number | string | undefined, number] {
+  if (params[at] === 5 && params[at + 1] !== undefined) {
+    const n = params[at + 1] & 255;
+    return [n < 16 ? n : color256(n), 2];
+  }
+  if (params[at] === 2 && params[at + 3] !== undefined) {
+    const hex = params.slice(at + 1, at + 4).map((v) => (v & 255).toString(16).padStart(2, '0')).join('');
+    return [`#${hex}`, 4];
+  }
+  return [undefined, 0];
+}
+
+/**
+ * Apply SGR parameters to a style, returning the new style
+ */
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+  let next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const p = params[i];
+    if (p === 0) next = {};
+    else if (p === 1) next.bold = true;
+    else if (p === 2) next.dim = true;
+    else if (p === 3) next.italic = true;
+    else if (p === 4) next.underline = true;
+    else if (p === 7) next.inverse = true;
+    else if (p === 21 || p === 22) next.bold = next.dim = false;
+    else if (p === 23) next.italic = false;
+    else if (p === 24) next.underline = false;
+    else if (p === 27) next.inverse = false;
+    else if (p >= 30 && p <= 37) next.fg = p - 30;
+    else if (p >= 90 && p <= 97) next.fg = p - 90 + 8;
+    else if (p === 39) next.fg = undefined;
+    else if (p >= 40 && p <= 47) next.bg = p - 40;
+    else if (p >= 100 && p <= 107) next.bg = p - 100 + 8;
+    else if (p === 49) next.bg = undefined;
+    else if (p === 38 || p === 48) {
+      const [color, used] = readExtendedColor(params, i + 1);
+      if (p === 38) next.fg = color;
+      else next.bg = color;
+      i += used;
+    }
+  }
+  return next;
+}
+
+/**
+ * Replay text through a line buffer, returning the cells left on each line
+ */
+function parseAnsi(text: string): Cell[][] {
+  const lines: Cell[][] = [];
+  let line: Cell[] = [];
+  let cursor = 0;
+  let style = NO_STYLE;
+
+  const moveTo = (column: number) => {
+    cursor = Math.max(0, Math.min(column, line.length + MAX_CURSOR_GAP));
+  };
+
+  const write = (char: string) => {
+    while (line.length < cursor) line.push({ char: ' ', style: NO_STYLE });
+    line[cursor++] = { char, style };
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\x1b') {
+      if (text[i + 1] === '[') {
+        // CSI: parameters, then a final byte in @–~
+        let end = i + 2;
+        while (end < text.length && !/[@-~]/.test(text[end])) end++;
+        if (end >= text.length) {
+          // Unterminated: drop the introducer and its parameters, keep the rest as text
+          i += 2;
+          while (i < text.length && /[0-?]/.test(text[i])) i++;
+          continue;
+        }
+        const paramText = text.slice(i + 2, end);
+        const params = paramText ? paramText.split(';').map((p) => parseInt(p, 10) || 0) : [];
+        const n = params[0] || 1;
+        switch (text[end]) {
+          case 'm':
+            style = applySgr(style, params.length ? params : [0]);
+            break;
+          case 'K':
+            if (!params[0]) line.length = Math.min(line.length, cursor);
+            else if (params[0] === 1) for (let c = 0; c < Math.min(cursor + 1, line.length); c++) line[c] = { char: ' ', style: NO_STYLE };
+            else line = [];
+            break;
+          case 'G':
+            moveTo(n - 1);
+            break;
+          case 'C':
+            moveTo(cursor + n);
+            break;
+          case 'D':
+            cursor = Math.max(0, cursor - n);
+            break;
+        }
+        i = end + 1;
+      } else if (text[i + 1] === ']') {
+        // OSC (titles, hyperlinks): ends with BEL or ESC \
+        const bel = text.indexOf('\x07', i);
+        const st = text.indexOf('\x1b\\', i);
+        const ends = [bel, st].filter((p) => p >= 0);
+        if (ends.length === 0) {
+          // Unterminated: drop the introducer, keep the rest as text
+          i += 2;
+          continue;
+        }
+        const stop = Math.min(...ends);
+        i = stop + (stop === st ? 2 : 1);
+      } else {
+        i += 2;
+      }
+      continue;
+    }
+
+    if (ch === '\r') {
+      if (text[i + 1] !== '\n') cursor = 0;
+    } else if (ch === '\n') {
+      lines.push(line);
+      line = [];
+      cursor = 0;
+    } else if (ch === '\b') {
+      cursor = Math.max(0, cursor - 1);
+    } else if (ch === '\t' || ch >= ' ') {
+      // Keep surrogate pairs (emoji) in one cell
+      const code = text.codePointAt(i)!;
+      const char = String.fromCodePoint(code);
+      write(char);
+      i += char.length;
+      continue;
+    }
+    i++;
+  }
+  lines.push(line);
+  return lines;
+}
+
+function sameStyle(a: AnsiStyle, b: AnsiStyle): boolean {
+  return a === b || (
+    a.fg === b.fg && a.bg === b.bg && !!a.bold === !!b.bold && !!a.dim === !!b.dim &&
+    !!a.italic === !!b.italic && !!a.underline === !!b.underline && !!a.inverse === !!b.inverse
+  );
+}
+
+/** Opening span for a style, or '' for unstyled text */
+function openSpan(style: AnsiStyle): string {
+  let { fg, bg } = style;
+  const classes: string[] = [];
+  if (style.inverse) {
+    if (fg === undefined && bg === undefined) classes.push('ansi-inverse');
+    [fg, bg] = [bg, fg];
+  }
+  const css: string[] = [];
+  if (typeof fg === 'number') classes.push(`ansi-fg-${fg}`);
+  else if (fg) css.push(`color:${fg}`);
+  if (typeof bg === 'number') classes.push(`ansi-bg-${bg}`);
+  else if (bg) css.push(`background-color:${bg}`);
+  if (style.bold) classes.push('ansi-bold');
+  if (style.dim) classes.push('ansi-dim');
+  if (style.italic) classes.push('ansi-italic');
+  if (style.underline) classes.push('ansi-underline');
+
+  if (classes.length === 0 && css.length === 0) return '';
+  const classAttr = classes.length ? ` class="${classes.join(' ')}"` : '';
+  const styleAttr = css.length ? ` style="${css.join(';')}"` : '';
+  return `<span${classAttr}${styleAttr}>`;
+}
+
+/**
+ * Render terminal output as HTML for a pre-formatted container.
+ * Palette colours become ansi-fg-N / ansi-bg-N classes so each theme can
+ * choose them; 256-colour and truecolor values are inlined.
+ */
+export function ansiToHtml(text: string): string {
+  if (!hasAnsi(text)) return escapeHtml(text);
+
+  return parseAnsi(text)
+    .map((cells) => {
+      let html = '';
+      let i = 0;
+      while (i < cells.length) {
+        const style = cells[i].style;
+        let run = '';
+        while (i < cells.length && sameStyle(cells[i].style, style)) run += cells[i++].char;
+        const open = openSpan(style);
+        html += open ? `${open}${escapeHtml(run)}</span>` : escapeHtml(run);
+      }
+      return html;
+    })
+    .join('\n');
+}
+
+/**
+ * The text terminal output leaves on screen, without escape sequences
+ */
+export function stripAnsi(text: string): string {
+  if (!hasAnsi(text)) return text;
+  return parseAnsi(text)
+    .map((cells) => cells.map((c) => c.char).join(''))
+    .join('\n');
+}
+
+/**
+ * Render terminal output with its control characters made visible
+ * (ESC as ␛, a bare carriage return as ␍), for the raw view
+ */
+export function formatRawAnsi(text: string): string {
+  return escapeHtml(text.replace(/\x1b/g, '␛').replace(/\r(?!\n)/g, '␍'));
+}
+
+/**
+ * CSS rules for the palette and text attributes, for standalone exports
+ */
+export function ansiStyles(palette: string[] = ANSI_LIGHT_PALETTE): string {
+  const colors = palette
+    .map((color, n) => `.ansi-fg-${n} { color: ${color}; } .ansi-bg-${n} { background-color: ${color}; }`)
+    .join('\n    ');
+  return `${colors}
+    .ansi-bold { font-weight: bold; }
+    .ansi-dim { opacity: 0.7; }
+    .ansi-italic { font-style: italic; }
+    .ansi-underline { text-decoration: underline; }
+    .ansi-inverse { color: #fff; background-color: #333; }`;
+}
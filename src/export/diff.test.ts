@@ -0,0 +1,147 @@
+/**
+ * Tests for tool diff rendering
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { diffLines, getToolDiff, renderToolDiff, formatToolDiff } from './diff';
+
+// Show message values so the rendered counts can be checked
+vi.mock('../i18n', () => ({
+  t: (key: string, values?: Record<string, string | number>) =>
+    values ? `${key}(${Object.values(values).join(',')})` : key,
+}));
+
+describe('diffLines', () => {
+  it('marks changed lines between unchanged context', () => {
+    expect(diffLines('a\nb\nc\n', 'a\nB\nc\n')).toEqual([
+      { type: 'context', text: 'a' },
+      { type: 'remove', text: 'b' },
+      { type: 'add', text: 'B' },
+      { type: 'context', text: 'c' },
+    ]);
+  });
+
+  it('finds insertions and deletions inside a block', () => {
+    const lines = diffLines('one\ntwo\nthree\nfour', 'one\nthree\nfour\nfive\nsix');
+    expect(lines.map((l) => `${l.type[0]}${l.text}`)).toEqual([
+      'cone',
+      'rtwo',
+      'cthree',
+      'cfour',
+      'afive',
+      'asix',
+    ]);
+  });
+
+  it('keeps the shortest edit when lines move', () => {
+    const lines = diffLines('a\nb\nc\nd', 'b\nc\nd\na');
+    expect(lines.filter((l) => l.type !== 'context')).toEqual([
+      { type: 'remove', text: 'a' },
+      { type: 'add', text: 'a' },
+    ]);
+  });
+
+  it('treats an empty old text as all additions', () => {
+    expect(diffLines('', 'x\ny')).toEqual([
+      { type: 'add', text: 'x' },
+      { type: 'add', text: 'y' },
+    ]);
+  });
+});
+
+describe('getToolDiff', () => {
+  it('diffs Edit old_string against new_string', () => {
+    const diff = getToolDiff('Edit', {
+      file_path: '/src/a.ts',
+      old_string: 'const a = 1;',
+      new_string: 'const a = 2;',
+      replace_all: true,
+    });
+
+    expect(diff).toMatchObject({ toolName: 'Edit', filePath: '/src/a.ts', additions: 1, deletions: 1, replaceAll: true });
+    expect(diff!.edits).toHaveLength(1);
+  });
+
+  it('diffs each MultiEdit edit separately', () => {
+    const diff = getToolDiff('MultiEdit', {
+      file_path: '/src/a.ts',
+      edits: [
+        { old_string: 'a', new_string: 'b' },
+        { old_string: 'c', new_string: 'c\nd' },
+      ],
+    });
+
+    expect(diff!.edits).toHaveLength(2);
+    expect(diff!.additions).toBe(2);
+    expect(diff!.deletions).toBe(1);
+  });
+
+  it('shows Write content as additions and accepts JSON text input', () => {
+    const diff = getToolDiff('Write', JSON.stringify({ file_path: 'notes.md', content: '# Notes\n\nDone\n' }));
+    expect(diff!.additions).toBe(3);
+    expect(diff!.deletions).toBe(0);
+  });
+
+  it('returns null for other tools and incomplete inputs', () => {
+    expect(getToolDiff('Read', { file_path: '/a' })).toBeNull();
+    expect(getToolDiff('Edit', { file_path: '/a', old_string: 'x' })).toBeNull();
+    expect(getToolDiff('Edit', '{not json')).toBeNull();
+  });
+});
+
+describe('renderToolDiff', () => {
+  const diff = getToolDiff('Edit', {
+    file_path: '/src/<app>.ts',
+    old_string: 'keep\nold <b>\n',
+    new_string: 'keep\nnew <b>\n',
+  })!;
+
+  it('renders a unified diff with an escaped file header', () => {
+    const html = renderToolDiff(diff);
+
+    expect(html).toContain('/src/&lt;app&gt;.ts');
+    expect(html).toContain('<span class="diff-stat-add">+1</span>');
+    expect(html).toContain('class="diff-line diff-remove"><span class="diff-marker">-</span>old &lt;b&gt;');
+    expect(html).toContain('class="diff-line diff-add"><span class="diff-marker">+</span>new &lt;b&gt;');
+  });
+
+  it('renders side by side rows pairing removed and added lines', () => {
+    const html = renderToolDiff(diff, { mode: 'split' });
+
+    expect(html).toContain('<table class="diff-split">');
+    expect(html).toContain('<tr><td class="diff-remove"><span class="diff-marker">-</span>old &lt;b&gt;</td><td class="diff-add"><span class="diff-marker">+</span>new &lt;b&gt;</td></tr>');
+  });
+
+  it('collapses long unchanged runs and cuts off long diffs', () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const edited = old.replace('line 10', 'changed');
+    const html = renderToolDiff(getToolDiff('Edit', { file_path: 'f', old_string: old, new_string: edited })!, { context: 2 });
+
+    expect(html).toContain('sidebar.diffUnchanged(8)');
+    expect(html).toContain('sidebar.diffUnchanged(7)');
+    expect(html).not.toContain('line 3<');
+
+    const write = getToolDiff('Write', { file_path: 'f', content: old })!;
+    expect(renderToolDiff(write, { maxLines: 5 })).toContain('sidebar.diffMore(15)');
+  });
+
+  it('labels each MultiEdit edit', () => {
+    const multi = getToolDiff('MultiEdit', {
+      file_path: 'f',
+      edits: [{ old_string: 'a', new_string: 'b' }, { old_string: 'c', new_string: 'd' }],
+    })!;
+    expect(renderToolDiff(multi)).toContain('sidebar.diffEdit(2,2)');
+  });
+});
+
+describe('formatToolDiff', () => {
+  it('formats unified diff text', () => {
+    const diff = getToolDiff('Edit', { file_path: 'src/a.ts', old_string: 'a\nb', new_string: 'a\nc' })!;
+    expect(formatToolDiff(diff)).toBe('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n');
+  });
+
+  it('formats Write as a new file', () => {
+    const diff = getToolDiff('Write', { file_path: 'x.txt', content: 'hi\n' })!;
+    expect(formatToolDiff(diff)).toBe('--- /dev/null\n+++ b/x.txt\n@@ -0,0 +1,1 @@\n+hi\n');
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Diff rendering for file-editing tool calls
+ *
+ * Edit, MultiEdit and Write inputs carry whole strings (old_string,
+ * new_string, content) that are unreadable as escaped JSON. This module
+ * turns them into line diffs and renders those as unified or side-by-side
+ * HTML, shared by the detail panel, conversation panel and HTML export.
+ */
+
+import { escapeHtml } from '../utils/html';
+import { t } from '../i18n';
+
+/** Kind of line in a diff */
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+/** One line of a diff */
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+/** A file change described by an editing tool call */
+export interface ToolDiff {
+  /** Tool that made the change (Edit, MultiEdit, Write) */
+  toolName: string;
+  filePath: string;
+  /** Line diff per edit; Write has one edit holding the new content */
+  edits: DiffLine[][];
+  /** Whether the edit replaces every occurrence of old_string */
+  replaceAll?: boolean;
+  additions: number;
+  deletions: number;
+}
+
+/** Diff layouts */
+export type DiffViewMode = 'unified' | 'split';
+
+/** Options for renderToolDiff */
+export interface DiffRenderOptions {
+  mode?: DiffViewMode;
+  /** Unchanged lines kept around each change; longer runs are collapsed */
+  context?: number;
+  /** Lines rendered per edit before the rest is cut off */
+  maxLines?: number;
+}
+
+/** Beyond this many changed lines the diff falls back to remove-all/add-all */
+const MAX_EDIT_DISTANCE = 1000;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Split text into lines, ignoring the newline that ends the last line
+ */
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Myers diff of two line arrays (no common prefix or suffix).
+ * Returns null when the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+function myersDiff(a: string[], b: string[]): DiffLine[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // snapshots[d][k + d] = furthest x on diagonal k after d edits
+  const snapshots: number[][] = [];
+
+  let found = -1;
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+    }
+    snapshots.push(v.slice(offset - d, offset + d + 1));
+    if (v[offset + n - m] >= n && Math.abs(n - m) <= d) {
+      found = d;
+      break;
+    }
+  }
+  if (found < 0) return null;
+
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const prev = snapshots[d - 1];
+    const at = (k: number) => prev[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'context', text: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      lines.push({ type: 'add', text: b[--y] });
+    } else {
+      lines.push({ type: 'remove', text: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    lines.push({ type: 'context', text: a[--x] });
+    y--;
+  }
+  return lines.reverse();
+}
+
+/**
+ * Compute a line diff between two texts
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myersDiff(middleA, middleB) ?? [
+    ...middleA.map((text): DiffLine => ({ type: 'remove', text })),
+    ...middleB.map((text): DiffLine => ({ type: 'add', text })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((text): DiffLine => ({ type: 'context', text })),
+    ...middle,
+    ...a.slice(endA).map((text): DiffLine => ({ type: 'context', text })),
+  ];
+}
+
+/**
+ * Build the diff for an Edit, MultiEdit or Write tool call
+ * @param input Tool input object, or its JSON text (as in SearchableCluster.toolUses)
+ * @returns null for other tools or inputs without the expected fields
+ */
+export function getToolDiff(toolName: string, input: unknown): ToolDiff | null {
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input);
+    } catch {
+      return null;
+    }
+  }
+  if (!isObject(input) || typeof input.file_path !== 'string') return null;
+
+  let edits: DiffLine[][];
+  let replaceAll: boolean | undefined;
+  if (toolName === 'Edit') {
+    if (typeof input.old_string !== 'string' || typeof input.new_string !== 'string') return null;
+    edits = [diffLines(input.old_string, input.new_string)];
+    replaceAll = input.replace_all === true || undefined;
+  } else if (toolName === 'MultiEdit') {
+    if (!Array.isArray(input.edits)) return null;
+    edits = input.edits
+      .filter(isObject)
+      .map((edit) => diffLines(String(edit.old_string ?? ''), String(edit.new_string ?? '')));
+  } else if (toolName === 'Write') {
+    if (typeof input.content !== 'string') return null;
+    edits = [diffLines('', input.content)];
+  } else {
+    return null;
+  }
+
+  const all = edits.flat();
+  return {
+    toolName,
+    filePath: input.file_path,
+    edits,
+    ...(replaceAll ? { replaceAll } : {}),
+    additions: all.filter((l) => l.type === 'add').length,
+    deletions: all.filter((l) => l.type === 'remove').length,
+  };
+}
+
+/** A diff line, or a marker for collapsed unchanged lines ('gap') or cut-off lines ('more') */
+type DisplayLine = DiffLine | { type: 'gap' | 'more'; count: number };
+
+/**
+ * Collapse unchanged runs longer than 2 * context lines, and cut the
+ * result off after maxLines
+ */
+function collapseContext(lines: DiffLine[], context: number, maxLines: number): DisplayLine[] {
+  const result: DisplayLine[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'context') {
+      result.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'context') end++;
+    const keepBefore = i === 0 ? 0 : context;
+    const keepAfter = end === lines.length ? 0 : context;
+    if (end - i > keepBefore + keepAfter) {
+      result.push(...lines.slice(i, i + keepBefore));
+      result.push({ type: 'gap', count: end - i - keepBefore - keepAfter });
+      result.push(...lines.slice(end - keepAfter, end));
+    } else {
+      result.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+
+  // A diff with no changes at all collapses to nothing; show it whole
+  if (result.length === 1 && result[0].type === 'gap') return lines.slice(0, maxLines);
+
+  if (result.length > maxLines) {
+    const hidden = result.slice(maxLines).reduce((sum, l) => sum + ('count' in l ? l.count : 1), 0);
+    return [...result.slice(0, maxLines), { type: 'more', count: hidden }];
+  }
+  return result;
+}
+
+const MARKERS: Record<DiffLineType, string> = { context: ' ', add: '+', remove: '-' };
+
+function renderGap(line: { type: 'gap' | 'more'; count: number }, colspan?: number): string {
+  const text = escapeHtml(t(line.type === 'gap' ? 'sidebar.diffUnchanged' : 'sidebar.diffMore', { count: line.count }));
+  return colspan
+    ? `<tr class="diff-gap"><td colspan="${colspan}">${text}</td></tr>`
+    : `<div class="diff-line diff-gap">${text}</div>`;
+}
+
+function renderUnified(lines: DisplayLine[]): string {
+  let html = '<div class="diff-unified">';
+  for (const line of lines) {
+    if ('count' in line) {
+      html += renderGap(line);
+      continue;
+    }
+    html += `<div class="diff-line diff-${line.type}"><span class="diff-marker">${MARKERS[line.type]}</span>${escapeHtml(line.text)}</div>`;
+  }
+  return html + '</div>';
+}
+
+function renderSplitCell(line: DiffLine | undefined): string {
+  if (!line) return '<td class="diff-empty"></td>';
+  return `<td class="diff-${line.type}"><span class="diff-marker">${MARKERS[line.type]}</span>${escapeHtml(line.text)}</td>`;
+}
+
+function renderSplit(lines: DisplayLine[]): string {
+  let html = '<table class="diff-split"><tbody>';
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if ('count' in line) {
+      html += renderGap(line, 2);
+      i++;
+    } else if (line.type === 'context') {
+      html += `<tr>${renderSplitCell(line)}${renderSplitCell(line)}</tr>`;
+      i++;
+    } else {
+      // Pair a run of removed lines with the added lines that follow it
+      const removed: DiffLine[] = [];
+      const added: DiffLine[] = [];
+      while (i < lines.length && lines[i].type === 'remove') removed.push(lines[i++] as DiffLine);
+      while (i < lines.length && lines[i].type === 'add') added.push(lines[i++] as DiffLine);
+      for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+        html += `<tr>${renderSplitCell(removed[r])}${renderSplitCell(added[r])}</tr>`;
+      }
+    }
+  }
+  return html + '</tbody></table>';
+}
+
+/**
+ * Render a tool diff as HTML: a file path header with change counts,
+ * then each edit as a unified or side-by-side diff
+ */
+export function renderToolDiff(diff: ToolDiff, options: DiffRenderOptions = {}): string {
+  const { mode = 'unified', context = 3, maxLines = 400 } = options;
+
+  const stats = `<span class="diff-stat-add">+${diff.additions}</span> <span class="diff-stat-remove">-${diff.deletions}</span>`;
+  const note = diff.toolName === 'Write'
+    ? ` ${t('sidebar.diffFullContent')}`
+    : diff.replaceAll ? ` ${t('sidebar.diffReplaceAll')}` : '';
+  let html = `<div class="diff-view"><div class="diff-file"><span class="diff-file-path">${escapeHtml(diff.filePath)}</span>${escapeHtml(note)} <span class="diff-stats">${stats}</span></div>`;
+
+  diff.edits.forEach((lines, i) => {
+    if (diff.edits.length > 1) {
+      html += `<div class="diff-edit-label">${escapeHtml(t('sidebar.diffEdit', { number: i + 1, total: diff.edits.length }))}</div>`;
+    }
+    const display = collapseContext(lines, context, maxLines);
+    html += mode === 'split' ? renderSplit(display) : renderUnified(display);
+  });
+
+  return html + '</div>';
+}
+
+/**
+ * Format a tool diff as unified diff text (for copying)
+ */
+export function formatToolDiff(diff: ToolDiff): string {
+  const oldPath = diff.toolName === 'Write' ? '/dev/null' : `a/${diff.filePath}`;
+  let text = `--- ${oldPath}\n+++ b/${diff.filePath}\n`;
+  diff.edits.forEach((lines, i) => {
+    const oldCount = lines.filter((l) => l.type !== 'add').length;
+    const newCount = lines.filter((l) => l.type !== 'remove').length;
+    text += `@@ -${oldCount ? 1 : 0},${oldCount} +${newCount ? 1 : 0},${newCount} @@${diff.edits.length > 1 ? ` edit ${i + 1}` : ''}\n`;
+    for (const line of lines) {
+      text += `${MARKERS[line.type]}${line.text}\n`;
+    }
+  });
+  return text;
+}
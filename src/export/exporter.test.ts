@@ -4,38 +4,14 @@
 
 import { describe, it, expect } from 'vitest';
 import {
-  escapeHtml,
   renderMarkdown,
   getSafeFilename,
   exportAsHtml,
   exportAsMarkdown,
+  exportAsTracerJson,
   type SearchableCluster,
 } from './exporter';
 
-describe('escapeHtml', () => {
-  it('escapes HTML special characters', () => {
-    expect(escapeHtml('<script>alert("xss")</script>')).toBe(
-      '&lt;script&gt;alert("xss")&lt;/script&gt;'
-    );
-  });
-
-  it('escapes ampersands', () => {
-    expect(escapeHtml('foo & bar')).toBe('foo &amp; bar');
-  });
-
-  it('escapes quotes', () => {
-    expect(escapeHtml('say "hello"')).toBe('say "hello"');
-  });
-
-  it('handles empty string', () => {
-    expect(escapeHtml('')).toBe('');
-  });
-
-  it('passes through plain text unchanged', () => {
-    expect(escapeHtml('Hello World')).toBe('Hello World');
-  });
-});
-
 describe('renderMarkdown', () => {
   it('renders basic markdown', () => {
     const result = renderMarkdown('**bold**');
@@ -121,6 +97,52 @@ describe('exportAsHtml', () => {
     expect(html).toContain('<body>');
   });
 
+  it('renders Edit tool calls as a diff', () => {
+    const clusters: SearchableCluster[] = [{
+      ...sampleClusters[0],
+      toolUses: [{
+        name: 'Edit',
+        input: JSON.stringify({ file_path: 'src/app.ts', old_string: 'old line', new_string: 'new line' }),
+      }],
+    }];
+    const html = exportAsHtml(clusters, 'Diff');
+
+    expect(html).toContain('<span class="diff-file-path">src/app.ts</span>');
+    expect(html).toContain('<span class="diff-marker">-</span>old line');
+    expect(html).toContain('<span class="diff-marker">+</span>new line');
+    expect(html).not.toContain('old_string');
+  });
+
+  it('embeds images with the user message or after tool results', () => {
+    const clusters: SearchableCluster[] = [{
+      ...sampleClusters[0],
+      userText: '',
+      documents: [
+        { mediaType: 'image/png', sourceType: 'base64', data: 'dXNlcg==', origin: 'user' },
+        { mediaType: 'image/png', sourceType: 'base64', data: 'dG9vbA==', origin: 'tool' },
+        { mediaType: 'application/pdf', sourceType: 'base64', data: 'JVBERi0=' },
+      ],
+    }];
+    const html = exportAsHtml(clusters, 'Images');
+
+    expect(html).toMatch(/<div class="user">\s*<div class="user-label">User<\/div>\s*<div class="images"><img class="embedded-image" src="data:image\/png;base64,dXNlcg=="/);
+    expect(html).toContain('<div class="images"><img class="embedded-image" src="data:image/png;base64,dG9vbA=="');
+    expect(html.indexOf('dG9vbA==')).toBeGreaterThan(html.indexOf('tool-content'));
+    expect(html).not.toContain('JVBERi0=');
+  });
+
+  it('renders terminal colours in tool results', () => {
+    const clusters: SearchableCluster[] = [{
+      ...sampleClusters[0],
+      toolResults: [{ content: '\x1b[1;31merror\x1b[0m: build failed', isError: true }],
+    }];
+    const html = exportAsHtml(clusters, 'ANSI');
+
+    expect(html).toContain('<span class="ansi-fg-1 ansi-bold">error</span>: build failed');
+    expect(html).toContain('.ansi-fg-1 {');
+    expect(html).not.toContain('\x1b');
+  });
+
   it('includes the title', () => {
     const html = exportAsHtml(sampleClusters, 'My Test Title');
 
@@ -407,6 +429,17 @@ describe('exportAsMarkdown', () => {
     },
   ];
 
+  it('strips terminal escape sequences from tool results', () => {
+    const clusters: SearchableCluster[] = [{
+      ...sampleClusters[0],
+      toolResults: [{ content: '\x1b[32mok\x1b[0m\n10%\r100%', isError: false }],
+    }];
+    const md = exportAsMarkdown(clusters, 'ANSI');
+
+    expect(md).toContain('ok\n100%');
+    expect(md).not.toContain('\x1b');
+  });
+
   it('starts with title as H1', () => {
     const md = exportAsMarkdown(sampleClusters, 'My Conversation');
 
@@ -665,3 +698,18 @@ describe('exportAsMarkdown', () => {
     expect(md).toContain('> **Error:** failed');
   });
 });
+
+describe('exportAsTracerJson', () => {
+  it('writes the conversation as a thinking-tracer document', () => {
+    const json = exportAsTracerJson({
+      meta: { title: 'Export', source: 'claude-code' },
+      turns: [{ id: 't1', role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+    });
+    const doc = JSON.parse(json);
+
+    expect(doc.format).toBe('thinking-tracer');
+    expect(doc.version).toBe(1);
+    expect(doc.conversation.meta).toEqual({ title: 'Export', source: 'claude-code' });
+    expect(doc.conversation.turns[0].content[0].text).toBe('Hello');
+  });
+});
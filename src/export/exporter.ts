@@ -5,7 +5,12 @@
 import { marked } from 'marked';
 import DOMPurify from 'dompurify';
 import { getUIText } from '../config';
-import type { SearchableCluster } from '../data/types';
+import type { Conversation, SearchableCluster } from '../data/types';
+import { toTracerDocument } from '../data/format/interchange';
+import { getToolDiff, renderToolDiff } from './diff';
+import { hasAnsi, ansiToHtml, ansiStyles, stripAnsi } from './ansi';
+import { isImageDocument, renderImageThumbnail } from './images';
+import { escapeHtml } from '../utils/html';
 
 // Re-export for consumers that import from here
 export type { SearchableCluster };
@@ -16,15 +21,6 @@ marked.setOptions({
   breaks: true, // Convert \n to <br>
 });
 
-/**
- * Escape HTML to prevent XSS
- */
-export function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
-}
-
 /**
  * Render markdown to sanitized HTML
  * Uses DOMPurify to prevent XSS attacks from malicious markdown
@@ -97,7 +93,22 @@ const HTML_EXPORT_STYLES = `
     .tool-result .tool-header { color: #2e7d32; }
     .tool-error { background: #ffebee; }
     .tool-error .tool-header { color: #c62828; }
+    .diff-view { font-family: monospace; font-size: 13px; background: #fff; border: 1px solid #ddd; border-radius: 4px; overflow-x: auto; }
+    .diff-file { padding: 6px 10px; background: #f6f8fa; border-bottom: 1px solid #ddd; font-weight: 600; }
+    .diff-stat-add { color: #2e7d32; }
+    .diff-stat-remove { color: #c62828; }
+    .diff-edit-label { padding: 4px 10px; color: #666; background: #fafafa; border-bottom: 1px solid #eee; }
+    .diff-line { white-space: pre; padding: 0 10px; }
+    .diff-marker { display: inline-block; width: 1.5em; color: #999; user-select: none; }
+    .diff-add { background: #e6ffec; }
+    .diff-remove { background: #ffebe9; }
+    .diff-gap { color: #888; background: #f6f8fa; font-style: italic; }
+    .diff-split { width: 100%; border-collapse: collapse; table-layout: fixed; margin: 0; }
+    .diff-split td { border: none; padding: 0 10px; white-space: pre; overflow: hidden; vertical-align: top; width: 50%; }
+    .diff-split td + td { border-left: 1px solid #eee; }
     .text { }
+    .images { display: flex; flex-wrap: wrap; gap: 10px; margin: 10px 0; }
+    .embedded-image { max-width: 100%; max-height: 480px; border: 1px solid #ddd; border-radius: 4px; background: #fff; }
     .badges { display: flex; gap: 6px; margin-bottom: 10px; flex-wrap: wrap; }
     .badge { display: inline-block; padding: 2px 8px; border-radius: 10px; font-size: 11px; font-weight: 600; }
     .badge-sidechain { background: #e0e0e0; color: #555; }
@@ -107,9 +118,9 @@ const HTML_EXPORT_STYLES = `
     .turn-sidechain { border-left: 3px solid #bbb; opacity: 0.85; }
     .meta { color: #666; font-size: 12px; margin-top: 20px; padding-top: 10px; border-top: 1px solid #ddd; }
     /* Markdown content */
-    .user > div:last-child, .text, .thinking-content { line-height: 1.6; }
-    .user > div:last-child p, .text p { margin: 0 0 0.75em 0; }
-    .user > div:last-child p:last-child, .text p:last-child { margin-bottom: 0; }
+    .user-text, .text, .thinking-content { line-height: 1.6; }
+    .user-text p, .text p { margin: 0 0 0.75em 0; }
+    .user-text p:last-child, .text p:last-child { margin-bottom: 0; }
     code { background: rgba(0,0,0,0.08); padding: 0.15em 0.4em; border-radius: 3px; font-family: monospace; font-size: 0.9em; }
     pre { background: rgba(0,0,0,0.08); padding: 12px; border-radius: 6px; overflow-x: auto; margin: 0.75em 0; }
     pre code { background: none; padding: 0; }
@@ -133,7 +144,8 @@ export function exportAsHtml(clusters: SearchableCluster[], title: string, sourc
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${escapeHtml(title)}</title>
-  <style>${HTML_EXPORT_STYLES}</style>
+  <style>${HTML_EXPORT_STYLES}    ${ansiStyles()}
+</style>
 </head>
 <body>
   <h1>${escapeHtml(title)}</h1>
@@ -160,11 +172,22 @@ export function exportAsHtml(clusters: SearchableCluster[], title: string, sourc
       html += `    <div class="error-banner">${errorText}</div>\n`;
     }
 
+    // Images are embedded with their data, so the export stays self-contained
+    const images = cluster.documents.filter(isImageDocument);
+    const renderImages = (origin: 'user' | 'tool') => {
+      const thumbs = images
+        .filter((doc) => (doc.origin ?? 'user') === origin)
+        .map((doc) => renderImageThumbnail(doc, doc.title || 'Image', 'embedded-image'))
+        .join('');
+      return thumbs ? `<div class="images">${thumbs}</div>` : '';
+    };
+    const userImages = renderImages('user');
+
     // User message
-    if (cluster.userText) {
+    if (cluster.userText || userImages) {
       html += `    <div class="user">
       <div class="user-label">User</div>
-      <div>${renderMarkdown(cluster.userText)}</div>
+      ${cluster.userText ? `<div class="user-text">${renderMarkdown(cluster.userText)}</div>` : ''}${userImages}
     </div>\n`;
     }
 
@@ -182,9 +205,10 @@ export function exportAsHtml(clusters: SearchableCluster[], title: string, sourc
     // Tool calls and results
     for (let t = 0; t < cluster.toolUses.length; t++) {
       const toolUse = cluster.toolUses[t];
+      const diff = getToolDiff(toolUse.name, toolUse.input);
       html += `      <details class="tool">
         <summary class="tool-header">Tool: ${escapeHtml(toolUse.name)}</summary>
-        <div class="tool-content">${escapeHtml(toolUse.input)}</div>
+        ${diff ? renderToolDiff(diff) : `<div class="tool-content">${escapeHtml(toolUse.input)}</div>`}
       </details>\n`;
 
       if (t < cluster.toolResults.length) {
@@ -192,11 +216,17 @@ export function exportAsHtml(clusters: SearchableCluster[], title: string, sourc
         const resultClass = toolResult.isError ? 'tool tool-error' : 'tool tool-result';
         html += `      <details class="${resultClass}">
         <summary class="tool-header">${toolResult.isError ? 'Error' : 'Result'}</summary>
-        <div class="tool-content">${escapeHtml(toolResult.content)}</div>
+        <div class="tool-content">${hasAnsi(toolResult.content) ? ansiToHtml(toolResult.content) : escapeHtml(toolResult.content)}</div>
       </details>\n`;
       }
     }
 
+    // Images returned by tools
+    const toolImages = renderImages('tool');
+    if (toolImages) {
+      html += `      ${toolImages}\n`;
+    }
+
     // Assistant text
     if (cluster.assistantText) {
       html += `      <div class="text">${renderMarkdown(cluster.assistantText)}</div>\n`;
@@ -265,7 +295,7 @@ export function exportAsMarkdown(clusters: SearchableCluster[], title: string, s
       if (t < cluster.toolResults.length) {
         const toolResult = cluster.toolResults[t];
         const label = toolResult.isError ? 'Error' : 'Result';
-        md += `<details>\n<summary>${label}</summary>\n\n\`\`\`\n${toolResult.content}\n\`\`\`\n\n</details>\n\n`;
+        md += `<details>\n<summary>${label}</summary>\n\n\`\`\`\n${stripAnsi(toolResult.content)}\n\`\`\`\n\n</details>\n\n`;
       }
     }
 
@@ -279,3 +309,13 @@ export function exportAsMarkdown(clusters: SearchableCluster[], title: string, s
 
   return md;
 }
+
+/**
+ * Generate a thinking-tracer interchange document (JSON) of the conversation.
+ * Unlike the HTML and Markdown exports it keeps everything the viewer
+ * loaded, so the result can be opened again with full fidelity.
+ * @param conversation The conversation to export
+ */
+export function exportAsTracerJson(conversation: Conversation): string {
+  return JSON.stringify(toTracerDocument(conversation), null, 2);
+}
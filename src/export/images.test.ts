@@ -0,0 +1,52 @@
+/**
+ * Tests for image attachment rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isImageDocument, imageBlockSource, getImageSrc, renderImageThumbnail } from './images';
+
+describe('getImageSrc', () => {
+  it('builds a data URL from base64 data', () => {
+    expect(getImageSrc({ mediaType: 'image/png', data: 'iVBO\nRw0K' })).toBe('data:image/png;base64,iVBORw0K');
+  });
+
+  it('falls back to image/png for unusable media types', () => {
+    expect(getImageSrc({ mediaType: 'image/png"><x', data: 'AAAA' })).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('rejects data that is not base64', () => {
+    expect(getImageSrc({ mediaType: 'image/png', data: 'AA"onerror="x' })).toBeNull();
+  });
+
+  it('accepts http(s) and data image URLs only', () => {
+    expect(getImageSrc({ mediaType: 'image/jpeg', url: 'https://example.com/a.jpg' })).toBe('https://example.com/a.jpg');
+    expect(getImageSrc({ mediaType: 'image/png', url: 'data:image/png;base64,AAAA' })).toBe('data:image/png;base64,AAAA');
+    expect(getImageSrc({ mediaType: 'image/png', url: 'javascript:alert(1)' })).toBeNull();
+    expect(getImageSrc({ mediaType: 'image/png' })).toBeNull();
+  });
+});
+
+describe('renderImageThumbnail', () => {
+  it('renders an escaped thumbnail', () => {
+    const html = renderImageThumbnail({ mediaType: 'image/gif', url: 'https://example.com/a.gif?x=1&y=2' }, 'A <b> image');
+    expect(html).toBe(
+      '<img class="image-thumb" src="https://example.com/a.gif?x=1&amp;y=2" alt="A &lt;b&gt; image" title="A &lt;b&gt; image" loading="lazy">'
+    );
+  });
+
+  it('returns nothing for images that cannot be shown', () => {
+    expect(renderImageThumbnail({ mediaType: 'image/png', url: 'file:///etc/passwd' }, 'x')).toBe('');
+  });
+});
+
+describe('image helpers', () => {
+  it('reads image blocks and recognises image documents', () => {
+    expect(imageBlockSource({ type: 'image', source: { type: 'base64', data: 'AAAA' } })).toEqual({
+      mediaType: 'image/unknown',
+      data: 'AAAA',
+      url: undefined,
+    });
+    expect(isImageDocument({ mediaType: 'image/webp' })).toBe(true);
+    expect(isImageDocument({ mediaType: 'application/pdf' })).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Image rendering for attachments
+ *
+ * Images arrive as base64 data or URLs, either as ImageBlocks in a turn or
+ * as DocumentMeta in searchable content. This module turns them into img
+ * sources and thumbnail markup, shared by the detail panel, conversation
+ * panel, gallery and HTML export.
+ */
+
+import { escapeHtml } from '../utils/html';
+import type { DocumentMeta, ImageBlock } from '../data/types';
+
+/** The parts of an attachment needed to display it */
+export type ImageSource = Pick<DocumentMeta, 'mediaType' | 'data' | 'url'>;
+
+/**
+ * Check whether an attachment is an image
+ */
+export function isImageDocument(doc: Pick<DocumentMeta, 'mediaType'>): boolean {
+  return doc.mediaType.startsWith('image/');
+}
+
+/**
+ * Convert an image block to an image source
+ */
+export function imageBlockSource(block: ImageBlock): ImageSource {
+  return {
+    mediaType: block.source.media_type || 'image/unknown',
+    data: block.source.data,
+    url: block.source.url,
+  };
+}
+
+/**
+ * Get the img src for an image: a data URL for base64 data, or the URL.
+ * @returns null when there is nothing that can be shown safely (malformed
+ *   base64, or a URL that isn't http(s) or a data: image)
+ */
+export function getImageSrc(image: ImageSource): string | null {
+  if (image.data) {
+    const data = image.data.replace(/\s/g, '');
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) return null;
+    // Browsers sniff the real format, so an unknown subtype still renders
+    const mediaType = /^image\/[\w.+-]+$/.test(image.mediaType) ? image.mediaType : 'image/png';
+    return `data:${mediaType};base64,${data}`;
+  }
+  if (image.url && /^(https?:|data:image\/)/i.test(image.url)) return image.url;
+  return null;
+}
+
+/**
+ * Render an image as a thumbnail; clicking an .image-thumb opens the lightbox
+ * @returns '' when the image can't be shown
+ */
+export function renderImageThumbnail(image: ImageSource, alt: string, className = 'image-thumb'): string {
+  const src = getImageSrc(image);
+  if (!src) return '';
+  return `<img class="${className}" src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" title="${escapeHtml(alt)}" loading="lazy">`;
+}
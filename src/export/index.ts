@@ -5,9 +5,38 @@
 export {
   exportAsHtml,
   exportAsMarkdown,
+  exportAsTracerJson,
   downloadFile,
   getSafeFilename,
-  escapeHtml,
   renderMarkdown,
   type SearchableCluster,
 } from './exporter';
+
+export {
+  diffLines,
+  getToolDiff,
+  renderToolDiff,
+  formatToolDiff,
+  type DiffLine,
+  type DiffLineType,
+  type ToolDiff,
+  type DiffViewMode,
+  type DiffRenderOptions,
+} from './diff';
+
+export {
+  hasAnsi,
+  ansiToHtml,
+  stripAnsi,
+  formatRawAnsi,
+  ansiStyles,
+  ANSI_LIGHT_PALETTE,
+} from './ansi';
+
+export {
+  isImageDocument,
+  imageBlockSource,
+  getImageSrc,
+  renderImageThumbnail,
+  type ImageSource,
+} from './images';
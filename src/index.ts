@@ -7,7 +7,7 @@
  */
 
 // Core exports
-export { Viewer, type ViewerOptions, type ViewerStats, type SelectionInfo } from './core/Viewer';
+export { Viewer, type ViewerOptions, type ViewerStats, type SelectionInfo, type LayoutMode, type AppendResult } from './core/Viewer';
 export { Scene, type SceneOptions } from './core/Scene';
 export { Controls, type ControlsOptions } from './core/Controls';
 
@@ -26,10 +26,46 @@ export type {
   TokenUsage,
   Role,
   TraceParser,
+  ParseOptions,
+  ConversationSummary,
 } from './data/types';
 
 // Parsers
 export { claudeCodeParser } from './data/parsers/claude-code';
+export { anthropicApiParser } from './data/parsers/anthropic';
+export { openaiParser } from './data/parsers/openai';
+export { geminiCliParser } from './data/parsers/gemini';
+export { codexCliParser } from './data/parsers/codex';
+export { chatgptParser } from './data/parsers/chatgpt';
+export { ampParser } from './data/parsers/amp';
+export { clineParser } from './data/parsers/cline';
+export { otelParser } from './data/parsers/otel';
+export { langsmithParser } from './data/parsers/langsmith';
+export { thinkingTracerParser } from './data/parsers/thinking-tracer';
+
+// Interchange format
+export {
+  TRACER_FORMAT,
+  TRACER_FORMAT_VERSION,
+  tracerSchema,
+  toTracerDocument,
+  isTracerDocument,
+  validateTracerDocument,
+  type TracerDocument,
+} from './data/format/interchange';
+export { validateSchema, type JsonSchema, type SchemaError } from './data/format/json-schema';
+
+// Loading
+export {
+  TraceLoader,
+  runLoadPipeline,
+  LoadCancelledError,
+  type TraceLoaderOptions,
+  type TraceLoadOptions,
+  type TraceSource,
+  type LoadProgress,
+  type PreparedConversation,
+} from './loader';
 
 // Utilities
 export { initFileDrop, type FileDropOptions } from './utils/file-drop';
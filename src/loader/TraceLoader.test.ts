@@ -0,0 +1,166 @@
+/**
+ * Tests for TraceLoader
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TraceLoader } from './TraceLoader';
+import { runLoadPipeline, LoadCancelledError, type LoadProgress } from './pipeline';
+import { serializeConversation } from './serialize';
+import type { LoadRequest, LoadResponse } from './protocol';
+
+const SESSION = [
+  '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}',
+  '{"type":"assistant","uuid":"2","parentUuid":"1","message":{"role":"assistant","content":[{"type":"text","text":"hi"}]}}',
+].join('\n');
+
+/**
+ * Stand-in for the load worker that runs the pipeline and replies like load.worker.ts
+ */
+class FakeWorker extends EventTarget {
+  public requests: LoadRequest[] = [];
+  public terminated = false;
+
+  postMessage(request: LoadRequest): void {
+    this.requests.push(request);
+  }
+
+  /** Run the last request and reply */
+  async respond(): Promise<void> {
+    const { id, source, sourceId } = this.requests[this.requests.length - 1];
+    const reply = (data: LoadResponse) => this.dispatchEvent(new MessageEvent('message', { data }));
+    try {
+      const prepared = await runLoadPipeline(source, {
+        sourceId,
+        onProgress: progress => reply({ id, type: 'progress', progress }),
+      });
+      reply({ id, type: 'done', result: serializeConversation(prepared) });
+    } catch (error) {
+      reply({ id, type: 'error', message: (error as Error).message });
+    }
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+describe('TraceLoader', () => {
+  let loader: TraceLoader;
+
+  afterEach(() => {
+    loader?.dispose();
+  });
+
+  describe('without a worker', () => {
+    it('loads on the main thread', async () => {
+      loader = new TraceLoader({ createWorker: () => null });
+      const prepared = await loader.load(SESSION);
+
+      expect(prepared.conversation.turns).toHaveLength(2);
+      expect(prepared.arrangement.clusters).toHaveLength(1);
+      expect(loader.isLoading()).toBe(false);
+    });
+
+    it('reports progress', async () => {
+      loader = new TraceLoader({ createWorker: () => null });
+      const reports: LoadProgress[] = [];
+      await loader.load(SESSION, { onProgress: p => reports.push(p) });
+
+      expect(reports.map(p => p.phase)).toEqual(['parse', 'cluster', 'index']);
+    });
+
+    it('rejects a cancelled load', async () => {
+      loader = new TraceLoader({ createWorker: () => null });
+      const promise = loader.load(SESSION);
+      expect(loader.isLoading()).toBe(true);
+
+      loader.cancel();
+
+      await expect(promise).rejects.toBeInstanceOf(LoadCancelledError);
+      expect(loader.isLoading()).toBe(false);
+    });
+
+    it('cancels the previous load when a new one starts', async () => {
+      loader = new TraceLoader({ createWorker: () => null });
+      const first = loader.load(SESSION);
+      const second = loader.load(SESSION);
+
+      await expect(first).rejects.toBeInstanceOf(LoadCancelledError);
+      await expect(second).resolves.toBeDefined();
+    });
+
+    it('falls back when the worker cannot be created', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      loader = new TraceLoader({ createWorker: () => { throw new Error('blocked'); } });
+
+      await expect(loader.load(SESSION)).resolves.toBeDefined();
+    });
+  });
+
+  describe('with a worker', () => {
+    function createLoader() {
+      const workers: FakeWorker[] = [];
+      loader = new TraceLoader({
+        createWorker: () => {
+          const worker = new FakeWorker();
+          workers.push(worker);
+          return worker as unknown as Worker;
+        },
+      });
+      return workers;
+    }
+
+    it('loads through the worker and restores the conversation', async () => {
+      const workers = createLoader();
+      const reports: LoadProgress[] = [];
+      const promise = loader.load(SESSION, { sourceId: 'claude-code', onProgress: p => reports.push(p) });
+
+      expect(workers[0].requests[0]).toEqual({ id: 1, source: SESSION, sourceId: 'claude-code' });
+      await workers[0].respond();
+
+      const prepared = await promise;
+      expect(prepared.content).toBe(SESSION);
+      expect(prepared.arrangement.clusters[0].userTurn?.content[0]).toBe(prepared.conversation.turns[0].content[0]);
+      expect(reports.length).toBeGreaterThan(0);
+    });
+
+    it('rejects with the worker error message', async () => {
+      const workers = createLoader();
+      const promise = loader.load('not valid');
+      await workers[0].respond();
+
+      await expect(promise).rejects.toThrow('Failed to parse file');
+    });
+
+    it('terminates the worker on cancel and ignores its late replies', async () => {
+      const workers = createLoader();
+      const promise = loader.load(SESSION);
+
+      loader.cancel();
+      await expect(promise).rejects.toBeInstanceOf(LoadCancelledError);
+      expect(workers[0].terminated).toBe(true);
+
+      // The next load gets a fresh worker
+      const next = loader.load(SESSION);
+      expect(workers).toHaveLength(2);
+      await workers[0].respond();
+      await workers[1].respond();
+      await expect(next).resolves.toBeDefined();
+    });
+
+    it('rejects when the worker fails', async () => {
+      const workers = createLoader();
+      const promise = loader.load(SESSION);
+      workers[0].dispatchEvent(new ErrorEvent('error', { message: 'script failed' }));
+
+      await expect(promise).rejects.toThrow('script failed');
+      expect(workers[0].terminated).toBe(true);
+    });
+  });
+
+  it('rejects loads after dispose', async () => {
+    loader = new TraceLoader({ createWorker: () => null });
+    loader.dispose();
+    await expect(loader.load(SESSION)).rejects.toThrow('disposed');
+  });
+});
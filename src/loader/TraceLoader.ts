@@ -0,0 +1,219 @@
+/**
+ * TraceLoader - runs the load pipeline in a Web Worker
+ *
+ * Keeps decompression, parsing and cluster building off the main thread.
+ * Falls back to running the pipeline in-process where workers are
+ * unavailable. One load runs at a time; starting another cancels it.
+ */
+
+import {
+  runLoadPipeline,
+  LoadCancelledError,
+  type LoadProgress,
+  type PreparedConversation,
+  type TraceSource,
+} from './pipeline';
+import { deserializeConversation } from './serialize';
+import type { LoadRequest, LoadResponse } from './protocol';
+
+/**
+ * Options for TraceLoader
+ */
+export interface TraceLoaderOptions {
+  /** Create the load worker; returning null loads on the main thread */
+  createWorker?: () => Worker | null;
+}
+
+/**
+ * Options for a single load
+ */
+export interface TraceLoadOptions {
+  /** Parse with this source instead of auto-detecting */
+  sourceId?: string;
+  /** Conversation to load from a file holding several */
+  conversationId?: string;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+/**
+ * A load waiting for its result
+ */
+interface PendingLoad {
+  id: number;
+  resolve: (prepared: PreparedConversation) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: LoadProgress) => void;
+  /** Set for in-process loads */
+  controller?: AbortController;
+}
+
+/**
+ * Create the bundled load worker, if the environment supports workers
+ */
+function createLoadWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  return new Worker(new URL('./load.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * TraceLoader manages the load worker and the load in flight
+ */
+export class TraceLoader {
+  private createWorker: () => Worker | null;
+  private worker: Worker | null = null;
+  private workerUnavailable = false;
+  private pending: PendingLoad | null = null;
+  private nextId = 1;
+  private disposed = false;
+
+  // Bound event handlers for cleanup
+  private boundHandleMessage: (event: MessageEvent<LoadResponse>) => void;
+  private boundHandleError: (event: ErrorEvent) => void;
+
+  constructor(options: TraceLoaderOptions = {}) {
+    this.createWorker = options.createWorker ?? createLoadWorker;
+
+    this.boundHandleMessage = this.handleMessage.bind(this);
+    this.boundHandleError = this.handleError.bind(this);
+  }
+
+  /**
+   * Load a trace, cancelling any load in flight
+   */
+  public load(source: TraceSource, options: TraceLoadOptions = {}): Promise<PreparedConversation> {
+    if (this.disposed) {
+      return Promise.reject(new Error('TraceLoader has been disposed'));
+    }
+
+    this.cancel();
+
+    const { sourceId, conversationId, onProgress } = options;
+    const id = this.nextId++;
+
+    return new Promise<PreparedConversation>((resolve, reject) => {
+      const pending: PendingLoad = { id, resolve, reject, onProgress };
+      this.pending = pending;
+
+      const worker = this.getWorker();
+      if (worker) {
+        const request: LoadRequest = { id, source, sourceId, conversationId };
+        worker.postMessage(request);
+        return;
+      }
+
+      pending.controller = new AbortController();
+      runLoadPipeline(source, { sourceId, conversationId, onProgress, signal: pending.controller.signal })
+        .then(prepared => this.settle(id)?.resolve(prepared))
+        .catch(error => this.settle(id)?.reject(error instanceof Error ? error : new Error(String(error))));
+    });
+  }
+
+  /**
+   * Cancel the load in flight; its promise rejects with LoadCancelledError.
+   * Worker parsing can't be interrupted, so the worker is terminated and
+   * recreated on the next load.
+   */
+  public cancel(): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+
+    if (pending.controller) {
+      pending.controller.abort();
+    } else {
+      this.terminateWorker();
+    }
+    pending.reject(new LoadCancelledError());
+  }
+
+  /**
+   * Check whether a load is in flight
+   */
+  public isLoading(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Get the worker, creating it on first use
+   */
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerUnavailable) return this.worker;
+
+    try {
+      this.worker = this.createWorker();
+    } catch (error) {
+      console.warn('Load worker unavailable, loading on the main thread:', error);
+      this.worker = null;
+    }
+
+    if (this.worker) {
+      this.worker.addEventListener('message', this.boundHandleMessage);
+      this.worker.addEventListener('error', this.boundHandleError);
+    } else {
+      this.workerUnavailable = true;
+    }
+    return this.worker;
+  }
+
+  /**
+   * Take the pending load if it is still the one with this id
+   */
+  private settle(id: number): PendingLoad | null {
+    if (this.pending?.id !== id) return null;
+    const pending = this.pending;
+    this.pending = null;
+    return pending;
+  }
+
+  /**
+   * Handle a worker reply
+   */
+  private handleMessage(event: MessageEvent<LoadResponse>): void {
+    const message = event.data;
+    if (this.pending?.id !== message.id) return;
+
+    switch (message.type) {
+      case 'progress':
+        this.pending.onProgress?.(message.progress);
+        break;
+      case 'done':
+        this.settle(message.id)?.resolve(deserializeConversation(message.result));
+        break;
+      case 'error':
+        this.settle(message.id)?.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  /**
+   * Handle an uncaught worker error (e.g. the script failed to load)
+   */
+  private handleError(event: ErrorEvent): void {
+    event.preventDefault();
+    this.terminateWorker();
+
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(new Error(event.message || 'Load worker failed'));
+  }
+
+  /**
+   * Terminate the worker and detach its listeners
+   */
+  private terminateWorker(): void {
+    if (!this.worker) return;
+    this.worker.removeEventListener('message', this.boundHandleMessage);
+    this.worker.removeEventListener('error', this.boundHandleError);
+    this.worker.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Clean up resources
+   */
+  public dispose(): void {
+    this.cancel();
+    this.terminateWorker();
+    this.disposed = true;
+  }
+}
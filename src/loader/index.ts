@@ -0,0 +1,21 @@
+/**
+ * Loader module - trace loading pipeline and its worker
+ */
+
+export {
+  runLoadPipeline,
+  getLoadFraction,
+  LoadCancelledError,
+  type TraceSource,
+  type LoadPhase,
+  type LoadProgress,
+  type LoadPipelineOptions,
+  type PreparedConversation,
+} from './pipeline';
+export {
+  serializeConversation,
+  deserializeConversation,
+  type SerializedConversation,
+} from './serialize';
+export type { LoadRequest, LoadResponse } from './protocol';
+export { TraceLoader, type TraceLoaderOptions, type TraceLoadOptions } from './TraceLoader';
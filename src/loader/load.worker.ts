@@ -0,0 +1,30 @@
+/**
+ * Load Worker
+ *
+ * Runs the load pipeline off the main thread. Cancellation terminates the
+ * worker, so requests are handled one at a time without abort support.
+ */
+
+import { runLoadPipeline } from './pipeline';
+import { serializeConversation } from './serialize';
+import type { LoadRequest, LoadResponse } from './protocol';
+
+function post(message: LoadResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<LoadRequest>) => {
+  const { id, source, sourceId, conversationId } = event.data;
+
+  try {
+    const prepared = await runLoadPipeline(source, {
+      sourceId,
+      conversationId,
+      onProgress: (progress) => post({ id, type: 'progress', progress }),
+    });
+    const result = serializeConversation(prepared);
+    post({ id, type: 'done', result }, [result.buffer]);
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
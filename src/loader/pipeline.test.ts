@@ -0,0 +1,108 @@
+/**
+ * Tests for the load pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runLoadPipeline, getLoadFraction, LoadCancelledError, type LoadProgress } from './pipeline';
+
+const SESSION = [
+  '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}',
+  '{"type":"assistant","uuid":"2","parentUuid":"1","message":{"role":"assistant","content":[{"type":"text","text":"hi there"}]}}',
+  '{"type":"user","uuid":"3","parentUuid":"2","message":{"role":"user","content":"again"}}',
+  '{"type":"assistant","uuid":"4","parentUuid":"3","message":{"role":"assistant","content":[{"type":"text","text":"sure"}]}}',
+].join('\n');
+
+function streamOf(bytes: Uint8Array<ArrayBuffer>): ReadableStream<BufferSource> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
+
+/** jsdom Files lack stream(), so stub it with the given bytes */
+function traceFile(bytes: Uint8Array<ArrayBuffer>, name: string): File {
+  return Object.assign(new File([bytes], name), { stream: () => streamOf(bytes) });
+}
+
+async function gzip(text: string): Promise<Uint8Array<ArrayBuffer>> {
+  const compressed = streamOf(new TextEncoder().encode(text)).pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+}
+
+describe('runLoadPipeline', () => {
+  it('prepares text content', async () => {
+    const prepared = await runLoadPipeline(SESSION);
+
+    expect(prepared.content).toBe(SESSION);
+    expect(prepared.detection.sourceId).toBe('claude-code');
+    expect(prepared.conversation.turns).toHaveLength(4);
+    expect(prepared.arrangement.clusters).toHaveLength(2);
+    expect(prepared.searchable).toHaveLength(2);
+    expect(prepared.searchable[0].userText).toContain('hello');
+  });
+
+  it('reads plain files', async () => {
+    const prepared = await runLoadPipeline(traceFile(new TextEncoder().encode(SESSION), 'session.jsonl'));
+    expect(prepared.content).toBe(SESSION);
+  });
+
+  it('decompresses gzipped files', async () => {
+    const prepared = await runLoadPipeline(traceFile(await gzip(SESSION), 'session.jsonl.gz'));
+    expect(prepared.content).toBe(SESSION);
+    expect(prepared.arrangement.clusters).toHaveLength(2);
+  });
+
+  it('reports progress through each phase', async () => {
+    const bytes = new TextEncoder().encode(SESSION);
+    const reports: LoadProgress[] = [];
+    await runLoadPipeline(traceFile(bytes, 'session.jsonl'), { onProgress: p => reports.push(p) });
+
+    expect([...new Set(reports.map(p => p.phase))]).toEqual(['read', 'parse', 'cluster', 'index']);
+    const last = reports[reports.length - 1];
+    expect(last.bytesRead).toBe(bytes.length);
+    expect(last.totalBytes).toBe(bytes.length);
+    expect(last.linesParsed).toBe(4);
+    expect(last.clustersBuilt).toBe(2);
+  });
+
+  it('uses the given source', async () => {
+    const prepared = await runLoadPipeline(SESSION, { sourceId: 'claude-code' });
+    expect(prepared.detection.sourceId).toBe('claude-code');
+  });
+
+  it('rejects unsupported content', async () => {
+    await expect(runLoadPipeline('not valid')).rejects.toThrow('Failed to parse file');
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    const promise = runLoadPipeline(SESSION, {
+      signal: controller.signal,
+      onProgress: (progress) => {
+        if (progress.phase === 'cluster') controller.abort();
+      },
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(LoadCancelledError);
+  });
+});
+
+describe('getLoadFraction', () => {
+  const progress = (phase: LoadProgress['phase'], bytesRead = 0, totalBytes = 0): LoadProgress =>
+    ({ phase, bytesRead, totalBytes, linesParsed: 0, clustersBuilt: 0 });
+
+  it('fills the first part of the bar while reading', () => {
+    expect(getLoadFraction(progress('read', 0, 100))).toBe(0);
+    expect(getLoadFraction(progress('read', 50, 100))).toBeCloseTo(0.2);
+    expect(getLoadFraction(progress('read', 0, 0))).toBe(0);
+  });
+
+  it('increases through the later phases', () => {
+    const phases: LoadProgress['phase'][] = ['decompress', 'parse', 'cluster', 'index'];
+    const fractions = phases.map(phase => getLoadFraction(progress(phase)));
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+    expect(fractions[fractions.length - 1]).toBeLessThan(1);
+  });
+});
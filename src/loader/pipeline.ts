@@ -0,0 +1,244 @@
+/**
+ * Load Pipeline
+ *
+ * Everything between a trace file and a conversation the viewer can show:
+ * read (with byte progress), decompress, parse with source detection,
+ * arrange clusters and extract searchable content. Runs in the load worker,
+ * or on the main thread where workers are unavailable.
+ */
+
+import type { Conversation, SearchableCluster } from '../data/types';
+import { parserRegistry, type SourceDetection } from '../data/parsers';
+import { extractSearchableContent } from '../core/clusters';
+import { buildConversationTree, arrangeClusters, type ClusterArrangement } from '../core/tree';
+import {
+  decompressGzipStream,
+  decompressZstdBuffer,
+  DecompressionSizeLimitError,
+  MAX_DECOMPRESSED_SIZE,
+} from '../utils/file-drop';
+
+/**
+ * A trace to load: text that was already read, or a (possibly compressed) file
+ */
+export type TraceSource = string | File;
+
+/** Pipeline phases, in order */
+export type LoadPhase = 'read' | 'decompress' | 'parse' | 'cluster' | 'index';
+
+/**
+ * Load progress report
+ */
+export interface LoadProgress {
+  phase: LoadPhase;
+  /** Bytes of the file read so far */
+  bytesRead: number;
+  /** File size in bytes (0 for text sources) */
+  totalBytes: number;
+  /** Lines of text parsed */
+  linesParsed: number;
+  /** Clusters built */
+  clustersBuilt: number;
+}
+
+/**
+ * A conversation ready for Viewer.loadPrepared
+ */
+export interface PreparedConversation {
+  /** Decoded (decompressed) file content */
+  content: string;
+  conversation: Conversation;
+  detection: SourceDetection;
+  /** Clusters for the default branch */
+  arrangement: ClusterArrangement;
+  searchable: SearchableCluster[];
+}
+
+/**
+ * Options for a pipeline run
+ */
+export interface LoadPipelineOptions {
+  /** Parse with this source instead of auto-detecting */
+  sourceId?: string;
+  /** Conversation to load from a file holding several */
+  conversationId?: string;
+  onProgress?: (progress: LoadProgress) => void;
+  /** Abort between phases and while reading */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error thrown when a load is cancelled
+ */
+export class LoadCancelledError extends Error {
+  constructor() {
+    super('Load cancelled');
+    this.name = 'LoadCancelledError';
+  }
+}
+
+/** Share of the progress bar at the start of each phase; reading fills the first part */
+const PHASE_START: Record<LoadPhase, number> = {
+  read: 0,
+  decompress: 0.4,
+  parse: 0.5,
+  cluster: 0.8,
+  index: 0.9,
+};
+
+/**
+ * Get overall completion (0–1) for a progress report
+ */
+export function getLoadFraction(progress: LoadProgress): number {
+  if (progress.phase === 'read') {
+    return progress.totalBytes > 0 ? PHASE_START.decompress * Math.min(1, progress.bytesRead / progress.totalBytes) : 0;
+  }
+  return PHASE_START[progress.phase];
+}
+
+/**
+ * Check whether a file name has a compression extension
+ */
+function getCompression(name: string): 'gzip' | 'zstd' | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.gz')) return 'gzip';
+  if (lower.endsWith('.zst') || lower.endsWith('.zstd')) return 'zstd';
+  return null;
+}
+
+/**
+ * Count lines in text (a trailing newline doesn't start a new line)
+ */
+function countLines(text: string): number {
+  if (text.length === 0) return 0;
+  let lines = 1;
+  for (let i = text.indexOf('\n'); i !== -1 && i < text.length - 1; i = text.indexOf('\n', i + 1)) {
+    lines++;
+  }
+  return lines;
+}
+
+/**
+ * Throw if the load was cancelled
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new LoadCancelledError();
+}
+
+/**
+ * Let queued work (progress rendering, cancel clicks) run between phases
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Read a file in chunks, reporting bytes read
+ */
+async function readBytes(
+  file: File,
+  report: (bytesRead: number) => void,
+  signal?: AbortSignal
+): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = file.stream().getReader();
+  const chunks: Uint8Array[] = [];
+  let bytesRead = 0;
+
+  while (true) {
+    if (signal?.aborted) {
+      await reader.cancel();
+      throw new LoadCancelledError();
+    }
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    bytesRead += value.length;
+    report(bytesRead);
+  }
+
+  const bytes = new Uint8Array(bytesRead);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Turn a trace source into a conversation ready to display
+ */
+export async function runLoadPipeline(
+  source: TraceSource,
+  options: LoadPipelineOptions = {}
+): Promise<PreparedConversation> {
+  const { sourceId, conversationId, onProgress, signal } = options;
+  const progress: LoadProgress = {
+    phase: 'read',
+    bytesRead: 0,
+    totalBytes: typeof source === 'string' ? 0 : source.size,
+    linesParsed: 0,
+    clustersBuilt: 0,
+  };
+  const report = (phase: LoadPhase) => {
+    progress.phase = phase;
+    onProgress?.({ ...progress });
+  };
+
+  throwIfCancelled(signal);
+
+  let content: string;
+  if (typeof source === 'string') {
+    content = source;
+  } else {
+    const compression = getCompression(source.name);
+    // Plain text is held in full, so it gets the same limit as decompressed content
+    if (!compression && source.size > MAX_DECOMPRESSED_SIZE) {
+      throw new DecompressionSizeLimitError(source.size);
+    }
+
+    report('read');
+    const bytes = await readBytes(source, (bytesRead) => {
+      progress.bytesRead = bytesRead;
+      report('read');
+    }, signal);
+
+    if (compression) {
+      report('decompress');
+      await yieldToEventLoop();
+      throwIfCancelled(signal);
+    }
+
+    if (compression === 'gzip') {
+      content = await decompressGzipStream(new ReadableStream({
+        start(controller) {
+          controller.enqueue(bytes);
+          controller.close();
+        },
+      }));
+    } else if (compression === 'zstd') {
+      content = decompressZstdBuffer(bytes.buffer);
+    } else {
+      content = new TextDecoder().decode(bytes);
+    }
+  }
+
+  report('parse');
+  await yieldToEventLoop();
+  throwIfCancelled(signal);
+  const { conversation, ...detection } = parserRegistry.parseContent(content, sourceId, conversationId);
+  progress.linesParsed = countLines(content);
+
+  report('cluster');
+  await yieldToEventLoop();
+  throwIfCancelled(signal);
+  const arrangement = arrangeClusters(conversation, buildConversationTree(conversation));
+  progress.clustersBuilt = arrangement.clusters.length;
+
+  report('index');
+  await yieldToEventLoop();
+  throwIfCancelled(signal);
+  const searchable = extractSearchableContent(arrangement.clusters, conversation.entries, conversation.meta.source);
+
+  return { content, conversation, detection, arrangement, searchable };
+}
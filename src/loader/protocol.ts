@@ -0,0 +1,26 @@
+/**
+ * Load Worker Protocol
+ *
+ * Messages exchanged between TraceLoader and the load worker.
+ */
+
+import type { LoadProgress, TraceSource } from './pipeline';
+import type { SerializedConversation } from './serialize';
+
+/**
+ * Request to load a trace (main thread → worker)
+ */
+export interface LoadRequest {
+  id: number;
+  source: TraceSource;
+  sourceId?: string;
+  conversationId?: string;
+}
+
+/**
+ * Reply for a load request (worker → main thread)
+ */
+export type LoadResponse =
+  | { id: number; type: 'progress'; progress: LoadProgress }
+  | { id: number; type: 'done'; result: SerializedConversation }
+  | { id: number; type: 'error'; message: string };
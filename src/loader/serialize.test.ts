@@ -0,0 +1,54 @@
+/**
+ * Tests for conversation serialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runLoadPipeline } from './pipeline';
+import { serializeConversation, deserializeConversation } from './serialize';
+
+const SESSION = [
+  '{"type":"user","uuid":"1","message":{"role":"user","content":"hello"}}',
+  '{"type":"assistant","uuid":"2","parentUuid":"1","message":{"id":"m1","role":"assistant","content":[{"type":"thinking","thinking":"hmm"}]}}',
+  '{"type":"assistant","uuid":"3","parentUuid":"2","message":{"id":"m1","role":"assistant","content":[{"type":"text","text":"hi"}]}}',
+  '{"type":"user","uuid":"4","parentUuid":"3","message":{"role":"user","content":"again"}}',
+  '{"type":"assistant","uuid":"5","parentUuid":"4","message":{"role":"assistant","content":[{"type":"text","text":"sure"}]}}',
+].join('\n');
+
+describe('serializeConversation', () => {
+  it('round-trips a prepared conversation', async () => {
+    const prepared = await runLoadPipeline(SESSION);
+    const restored = deserializeConversation(serializeConversation(prepared));
+
+    expect(restored.content).toBe(prepared.content);
+    expect(restored.detection).toEqual(prepared.detection);
+    expect(restored.searchable).toEqual(prepared.searchable);
+    expect(restored.arrangement).toEqual(JSON.parse(JSON.stringify(prepared.arrangement)));
+    expect(restored.conversation).toEqual(JSON.parse(JSON.stringify(prepared.conversation)));
+  });
+
+  it('encodes everything but the content into a transferable buffer', async () => {
+    const serialized = serializeConversation(await runLoadPipeline(SESSION));
+    expect(serialized.content).toBe(SESSION);
+    expect(structuredClone(serialized.buffer, { transfer: [serialized.buffer] }).byteLength).toBeGreaterThan(0);
+  });
+
+  it('shares content blocks between cluster turns and conversation turns', async () => {
+    const prepared = await runLoadPipeline(SESSION);
+    const restored = deserializeConversation(serializeConversation(prepared));
+    const [first] = restored.arrangement.clusters;
+    const turns = restored.conversation.turns;
+
+    // The first assistant turn merges two messages
+    expect(first.assistantTurn!.content).toHaveLength(2);
+    expect(first.assistantTurn!.content[0]).toBe(turns[1].content[0]);
+    expect(first.assistantTurn!.content[1]).toBe(turns[2].content[0]);
+    expect(first.userTurn!.content[0]).toBe(turns[0].content[0]);
+  });
+
+  it('is smaller than encoding the clusters in full', async () => {
+    const prepared = await runLoadPipeline(SESSION);
+    const { content: _content, ...rest } = prepared;
+    const full = new TextEncoder().encode(JSON.stringify(rest)).byteLength;
+    expect(serializeConversation(prepared).buffer.byteLength).toBeLessThan(full);
+  });
+});
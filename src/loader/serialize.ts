@@ -0,0 +1,135 @@
+/**
+ * Conversation Serialization
+ *
+ * Compact, transferable form of a prepared conversation for the worker
+ * boundary. Everything except the raw text is JSON-encoded into one
+ * ArrayBuffer that can be transferred instead of structured-cloned.
+ * Cluster turns are merged copies of conversation turns that share their
+ * content blocks, so they are stored as references into conversation.turns
+ * rather than duplicating the whole conversation.
+ */
+
+import type { ContentBlock, Turn } from '../data/types';
+import type { TurnCluster } from '../core/clusters';
+import type { PreparedConversation } from './pipeline';
+
+/**
+ * A prepared conversation ready to post across a worker boundary
+ */
+export interface SerializedConversation {
+  /** Decoded file content (strings are cheap to clone) */
+  content: string;
+  /** UTF-8 JSON of everything else; add to the transfer list */
+  buffer: ArrayBuffer;
+}
+
+/** Position of a content block: [turn index, block index] */
+type BlockRef = [number, number];
+
+/** A cluster turn stored as the conversation turn it copies, with its merged content */
+interface TurnRef {
+  turnRef: number;
+  content: Array<BlockRef | ContentBlock>;
+}
+
+type EncodedTurn = Turn | TurnRef;
+
+type EncodedCluster = Omit<TurnCluster, 'userTurn' | 'assistantTurn'> & {
+  userTurn?: EncodedTurn;
+  assistantTurn?: EncodedTurn;
+};
+
+type EncodedPrepared = Omit<PreparedConversation, 'content' | 'arrangement'> & {
+  arrangement: Omit<PreparedConversation['arrangement'], 'clusters'> & {
+    clusters: EncodedCluster[];
+  };
+};
+
+/**
+ * Index every content block of the conversation by its position
+ */
+function indexBlocks(turns: Turn[]): Map<ContentBlock, BlockRef> {
+  const positions = new Map<ContentBlock, BlockRef>();
+  turns.forEach((turn, turnIndex) => {
+    turn.content.forEach((block, blockIndex) => positions.set(block, [turnIndex, blockIndex]));
+  });
+  return positions;
+}
+
+/**
+ * Store a turn as a reference when it copies conversation.turns[index]
+ * with only its content changed; otherwise store it in full.
+ */
+function encodeTurn(
+  turn: Turn | undefined,
+  index: number | undefined,
+  turns: Turn[],
+  blocks: Map<ContentBlock, BlockRef>
+): EncodedTurn | undefined {
+  const base = index !== undefined ? turns[index] : undefined;
+  if (!turn || !base) return turn;
+
+  const keys = Object.keys(turn) as Array<keyof Turn>;
+  const copiesBase = keys.length === Object.keys(base).length &&
+    keys.every(key => key === 'content' || turn[key] === base[key]);
+  if (!copiesBase) return turn;
+
+  return {
+    turnRef: index!,
+    content: turn.content.map(block => blocks.get(block) ?? block),
+  };
+}
+
+function decodeTurn(turn: EncodedTurn | undefined, turns: Turn[]): Turn | undefined {
+  if (!turn || !('turnRef' in turn)) return turn;
+
+  return {
+    ...turns[turn.turnRef],
+    content: turn.content.map(block => Array.isArray(block) ? turns[block[0]].content[block[1]] : block),
+  };
+}
+
+/**
+ * Serialize a prepared conversation
+ */
+export function serializeConversation(prepared: PreparedConversation): SerializedConversation {
+  const { content, arrangement, ...rest } = prepared;
+  const turns = prepared.conversation.turns;
+  const blocks = indexBlocks(turns);
+
+  const encoded: EncodedPrepared = {
+    ...rest,
+    arrangement: {
+      ...arrangement,
+      clusters: arrangement.clusters.map(cluster => ({
+        ...cluster,
+        userTurn: encodeTurn(cluster.userTurn, cluster.userTurnIndex, turns, blocks),
+        assistantTurn: encodeTurn(cluster.assistantTurn, cluster.assistantTurnIndex, turns, blocks),
+      })),
+    },
+  };
+
+  const bytes = new TextEncoder().encode(JSON.stringify(encoded));
+  return { content, buffer: bytes.buffer };
+}
+
+/**
+ * Restore a prepared conversation; cluster turns share content blocks with conversation.turns again
+ */
+export function deserializeConversation(serialized: SerializedConversation): PreparedConversation {
+  const encoded = JSON.parse(new TextDecoder().decode(serialized.buffer)) as EncodedPrepared;
+  const turns = encoded.conversation.turns;
+
+  return {
+    ...encoded,
+    content: serialized.content,
+    arrangement: {
+      ...encoded.arrangement,
+      clusters: encoded.arrangement.clusters.map(cluster => ({
+        ...cluster,
+        userTurn: decodeTurn(cluster.userTurn, turns),
+        assistantTurn: decodeTurn(cluster.assistantTurn, turns),
+      })),
+    },
+  };
+}
@@ -13,6 +13,7 @@ export const messages = {
   'landing.dropText': 'Drop a conversation file',
   'landing.dropSubtext': 'Supports .jsonl trace files from AI coding assistants',
   'landing.selectFile': 'Select File',
+  'landing.selectFolder': 'Select Folder',
   'landing.loadUrl': 'Load URL',
   'landing.urlPlaceholder': 'https://example.com/trace.jsonl',
   'landing.orLoadFromUrl': 'or load from URL',
@@ -34,6 +35,19 @@ export const messages = {
   'toolbar.export': 'Export Conversation',
   'toolbar.exportHtml': 'Export as HTML',
   'toolbar.exportMarkdown': 'Export as Markdown',
+  'toolbar.exportTracerJson': 'Export as thinking-tracer JSON',
+  'toolbar.source': 'Format',
+  'toolbar.sourceAmbiguous': 'Detected format is uncertain - choose another parser',
+  'toolbar.conversation': 'Conversation',
+  'toolbar.conversationHint': 'This file holds {count} conversations - choose one to view',
+  'toolbar.branch': 'Branch',
+  'toolbar.branchHint': 'This conversation has {count} branches (edits or retries) - choose the main path',
+  'toolbar.showBranches': 'Show all',
+  'toolbar.followTail': 'Follow',
+  'toolbar.followTailHint': 'Keep the newest turn in view as the watched file grows',
+
+  // Branches
+  'branch.option': 'Branch {number} ({turns} turns)',
 
   // Search
   'search.placeholder': 'Search conversation...',
@@ -60,6 +74,7 @@ export const messages = {
   'sidebar.input': 'Input',
   'sidebar.thinking': 'Thinking',
   'sidebar.tools': 'Tools',
+  'sidebar.context': 'Context',
 
   // Sidebar - Word Frequency
   'sidebar.topWords': 'Top Words',
@@ -102,6 +117,45 @@ export const messages = {
   'sidebar.toolInput': 'Input',
   'sidebar.toolResult': 'Result',
   'sidebar.toolResultError': 'Result (Error)',
+  'sidebar.fileChange': 'File Change',
+  'sidebar.diffUnified': 'Unified',
+  'sidebar.diffSplit': 'Side by side',
+  'sidebar.diffUnchanged': '⋯ {count} unchanged lines',
+  'sidebar.diffMore': '⋯ {count} more lines',
+  'sidebar.diffFullContent': '(full content)',
+  'sidebar.diffReplaceAll': '(replace all)',
+  'sidebar.diffEdit': 'Edit {number} of {total}',
+  'sidebar.rawOutput': 'Raw',
+  'sidebar.formattedOutput': 'Formatted',
+  'sidebar.diagnostics': 'Diagnostics',
+  'sidebar.images': 'Images',
+
+  // Diagnostics
+  'diagnostics.invalidLine': 'Invalid line',
+  'diagnostics.unknownEntryType': 'Unknown entry type',
+  'diagnostics.orphanToolResult': 'Orphan tool result',
+  'diagnostics.brokenParentChain': 'Broken parent chain',
+  'diagnostics.line': 'Line {line}',
+  'diagnostics.invalidLineMessage': 'Line {line} is not valid JSON and was skipped',
+  'diagnostics.unknownEntryTypeMessage': 'Unknown entry type "{subject}"',
+  'diagnostics.orphanToolResultMessage': 'Tool result references unknown tool_use_id "{subject}"',
+  'diagnostics.brokenParentChainMessage': 'Parent entry "{subject}" is missing',
+
+  // Image gallery
+  'gallery.fromUser': 'User',
+  'gallery.fromTool': 'Tool',
+  'gallery.turn': 'Turn {turn}',
+  'gallery.jumpToTurn': 'Go to turn {turn}',
+
+  // Compaction boundaries
+  'compaction.label': 'Compaction',
+  'compaction.compacted': 'Context compacted',
+  'compaction.summarized': 'Summarized',
+  'compaction.trigger': 'Trigger: {trigger}',
+  'compaction.preTokens': '{tokens} tokens before',
+  'compaction.continuesAt': 'Continues at turn {turn}',
+  'compaction.summary': 'Summary',
+  'compaction.noSummary': 'No summary recorded',
 
   // Legend
   'legend.title': 'Legend',
@@ -122,6 +176,8 @@ export const messages = {
   'conversation.resultSuccess': '✓ Result',
   'conversation.resultError': '✗ Error',
   'conversation.more': 'More',
+  'conversation.rawOutput': 'Raw',
+  'conversation.formattedOutput': 'Formatted',
   'conversation.chars': '{count} chars',
   'conversation.thinkingSummary': '{count} thinking ({chars} chars · {duration})',
   'conversation.thinkingSummaryNoTime': '{count} thinking ({chars} chars)',
@@ -163,6 +219,18 @@ export const messages = {
   'toast.fetchFailed': 'Could not fetch the URL (check if it exists and allows cross-origin requests)',
   'toast.localServerFailed': 'Could not connect to local server. Make sure the CLI is still running.',
   'toast.authFailed': 'Authentication failed - invalid or missing token',
+  'toast.noTraceFiles': 'The folder has no .json or .jsonl files',
+  'toast.noMainSession': 'No main session file found among the selected files',
+  'toast.noTaskHistory': 'No api_conversation_history.json found in the task folder',
+  'toast.ignoredFiles': 'Only the newest session was loaded. Ignored: {files}',
+
+  // Load progress
+  'loading.read': 'Reading file... {loaded} of {total}',
+  'loading.decompress': 'Decompressing...',
+  'loading.parse': 'Parsing...',
+  'loading.cluster': 'Building clusters from {lines} lines...',
+  'loading.index': 'Indexing {clusters} clusters...',
+  'loading.cancel': 'Cancel',
 
   // File watcher
   'watch.stopped': 'Stopped watching',
@@ -199,10 +267,13 @@ export const messages = {
   'document.downloadPdf': 'Download PDF',
   'document.base64Data': 'Base64 data ({size} KB)',
   'document.noPreview': 'No preview available',
+  'document.fromUser': 'Attached by the user',
+  'document.fromTool': 'Returned by a tool',
 
   // Recent traces
   'recent.turns': '{count} turns',
   'recent.clusters': '{count} clusters',
+  'recent.agents': '{count} agents',
 
   // Detail panel actions
   'detail.collapseToSingle': 'Collapse to single node',
@@ -214,6 +285,14 @@ export const messages = {
 
   // Metrics
   'metrics.turnNumber': 'Turn {number}',
+  'metrics.agents': 'Sub-agents',
+  'metrics.agent': 'Agent {number}',
+  'metrics.agentTurns': '{count} turns',
+  'metrics.agentToggle': 'Click to collapse or unfold this agent\'s coil',
+  'metrics.resetAtCompaction': 'Reset at compactions',
+  'metrics.resetAtCompactionHint': 'Scale charts and totals to the stretch between compactions that holds the focused turn',
+  'metrics.contextOfLimit': '{tokens} of {limit} tokens ({percent}%)',
+  'metrics.contextHint': 'Context window occupancy at the focused turn',
 
   // Legend sections
   'legend.camera': 'Camera',
@@ -237,6 +316,9 @@ export const messages = {
   'coil.maxGap': 'Max Gap',
   'coil.showClusterLines': 'Show cluster lines',
   'coil.parameters': 'Coil Parameters',
+  'coil.layout': 'Layout',
+  'coil.layoutCoil': 'Coil',
+  'coil.layoutTimeline': 'Timeline',
 
   // Watch
   'watch.requiresChromium': 'File watching requires Chromium-based browser',
@@ -14,6 +14,7 @@ export const messages = {
   'landing.dropText': 'Arrastra un archivo de conversación',
   'landing.dropSubtext': 'Compatible con archivos .jsonl de asistentes de código IA',
   'landing.selectFile': 'Seleccionar archivo',
+  'landing.selectFolder': 'Seleccionar carpeta',
   'landing.loadUrl': 'Cargar URL',
   'landing.urlPlaceholder': 'https://ejemplo.com/trace.jsonl',
   'landing.orLoadFromUrl': 'o cargar desde URL',
@@ -35,6 +36,19 @@ export const messages = {
   'toolbar.export': 'Exportar conversación',
   'toolbar.exportHtml': 'Exportar como HTML',
   'toolbar.exportMarkdown': 'Exportar como Markdown',
+  'toolbar.exportTracerJson': 'Exportar como JSON de thinking-tracer',
+  'toolbar.source': 'Formato',
+  'toolbar.sourceAmbiguous': 'El formato detectado es incierto: elige otro analizador',
+  'toolbar.conversation': 'Conversación',
+  'toolbar.conversationHint': 'Este archivo contiene {count} conversaciones - elige una para verla',
+  'toolbar.branch': 'Rama',
+  'toolbar.branchHint': 'Esta conversación tiene {count} ramas (ediciones o reintentos) - elige la ruta principal',
+  'toolbar.showBranches': 'Mostrar todas',
+  'toolbar.followTail': 'Seguir',
+  'toolbar.followTailHint': 'Mantener el turno más reciente a la vista mientras crece el archivo vigilado',
+
+  // Branches
+  'branch.option': 'Rama {number} ({turns} turnos)',
 
   // Search
   'search.placeholder': 'Buscar en conversación...',
@@ -61,6 +75,7 @@ export const messages = {
   'sidebar.input': 'Entrada',
   'sidebar.thinking': 'Pensamiento',
   'sidebar.tools': 'Herramientas',
+  'sidebar.context': 'Contexto',
 
   // Sidebar - Word Frequency
   'sidebar.topWords': 'Palabras frecuentes',
@@ -103,6 +118,45 @@ export const messages = {
   'sidebar.toolInput': 'Entrada',
   'sidebar.toolResult': 'Resultado',
   'sidebar.toolResultError': 'Resultado (Error)',
+  'sidebar.fileChange': 'Cambio de archivo',
+  'sidebar.diffUnified': 'Unificado',
+  'sidebar.diffSplit': 'Lado a lado',
+  'sidebar.diffUnchanged': '⋯ {count} líneas sin cambios',
+  'sidebar.diffMore': '⋯ {count} líneas más',
+  'sidebar.diffFullContent': '(contenido completo)',
+  'sidebar.diffReplaceAll': '(reemplazar todo)',
+  'sidebar.diffEdit': 'Edición {number} de {total}',
+  'sidebar.rawOutput': 'Sin formato',
+  'sidebar.formattedOutput': 'Con formato',
+  'sidebar.diagnostics': 'Diagnósticos',
+  'sidebar.images': 'Imágenes',
+
+  // Diagnostics
+  'diagnostics.invalidLine': 'Línea no válida',
+  'diagnostics.unknownEntryType': 'Tipo de entrada desconocido',
+  'diagnostics.orphanToolResult': 'Resultado de herramienta huérfano',
+  'diagnostics.brokenParentChain': 'Cadena de padres rota',
+  'diagnostics.line': 'Línea {line}',
+  'diagnostics.invalidLineMessage': 'La línea {line} no es JSON válido y se omitió',
+  'diagnostics.unknownEntryTypeMessage': 'Tipo de entrada desconocido "{subject}"',
+  'diagnostics.orphanToolResultMessage': 'El resultado de herramienta hace referencia a un tool_use_id desconocido "{subject}"',
+  'diagnostics.brokenParentChainMessage': 'Falta la entrada padre "{subject}"',
+
+  // Image gallery
+  'gallery.fromUser': 'Usuario',
+  'gallery.fromTool': 'Herramienta',
+  'gallery.turn': 'Turno {turn}',
+  'gallery.jumpToTurn': 'Ir al turno {turn}',
+
+  // Compaction boundaries
+  'compaction.label': 'Compactación',
+  'compaction.compacted': 'Contexto compactado',
+  'compaction.summarized': 'Resumido',
+  'compaction.trigger': 'Origen: {trigger}',
+  'compaction.preTokens': '{tokens} tokens antes',
+  'compaction.continuesAt': 'Continúa en el turno {turn}',
+  'compaction.summary': 'Resumen',
+  'compaction.noSummary': 'No se registró ningún resumen',
 
   // Legend
   'legend.title': 'Leyenda',
@@ -123,6 +177,8 @@ export const messages = {
   'conversation.resultSuccess': '✓ Resultado',
   'conversation.resultError': '✗ Error',
   'conversation.more': 'Más',
+  'conversation.rawOutput': 'Sin formato',
+  'conversation.formattedOutput': 'Con formato',
   'conversation.chars': '{count} caracteres',
   'conversation.thinkingSummary': '{count} pensamientos ({chars} car. · {duration})',
   'conversation.thinkingSummaryNoTime': '{count} pensamientos ({chars} car.)',
@@ -164,6 +220,18 @@ export const messages = {
   'toast.fetchFailed': 'No se pudo obtener la URL (verifica que exista y permita solicitudes de origen cruzado)',
   'toast.localServerFailed': 'No se pudo conectar al servidor local. Asegúrate de que el CLI esté ejecutándose.',
   'toast.authFailed': 'Autenticación fallida - token inválido o faltante',
+  'toast.noTraceFiles': 'La carpeta no contiene archivos .json o .jsonl',
+  'toast.noMainSession': 'No se encontró el archivo de sesión principal entre los archivos seleccionados',
+  'toast.noTaskHistory': 'No se encontró api_conversation_history.json en la carpeta de la tarea',
+  'toast.ignoredFiles': 'Solo se cargó la sesión más reciente. Ignorados: {files}',
+
+  // Load progress
+  'loading.read': 'Leyendo archivo... {loaded} de {total}',
+  'loading.decompress': 'Descomprimiendo...',
+  'loading.parse': 'Analizando...',
+  'loading.cluster': 'Construyendo grupos a partir de {lines} líneas...',
+  'loading.index': 'Indexando {clusters} grupos...',
+  'loading.cancel': 'Cancelar',
 
   // File watcher
   'watch.stopped': 'Vigilancia detenida',
@@ -200,10 +268,13 @@ export const messages = {
   'document.downloadPdf': 'Descargar PDF',
   'document.base64Data': 'Datos Base64 ({size} KB)',
   'document.noPreview': 'Vista previa no disponible',
+  'document.fromUser': 'Adjuntada por el usuario',
+  'document.fromTool': 'Devuelta por una herramienta',
 
   // Recent traces
   'recent.turns': '{count} turnos',
   'recent.clusters': '{count} grupos',
+  'recent.agents': '{count} agentes',
 
   // Detail panel actions
   'detail.collapseToSingle': 'Contraer a un solo nodo',
@@ -215,6 +286,14 @@ export const messages = {
 
   // Metrics
   'metrics.turnNumber': 'Turno {number}',
+  'metrics.agents': 'Subagentes',
+  'metrics.agent': 'Agente {number}',
+  'metrics.agentTurns': '{count} turnos',
+  'metrics.agentToggle': 'Haz clic para plegar o desplegar la espiral de este agente',
+  'metrics.resetAtCompaction': 'Reiniciar en compactaciones',
+  'metrics.resetAtCompactionHint': 'Escala los gráficos y totales al tramo entre compactaciones que contiene el turno enfocado',
+  'metrics.contextOfLimit': '{tokens} de {limit} tokens ({percent}%)',
+  'metrics.contextHint': 'Ocupación de la ventana de contexto en el turno enfocado',
 
   // Legend sections
   'legend.camera': 'Cámara',
@@ -238,6 +317,9 @@ export const messages = {
   'coil.maxGap': 'Espacio máx',
   'coil.showClusterLines': 'Mostrar líneas de grupo',
   'coil.parameters': 'Parámetros de espiral',
+  'coil.layout': 'Disposición',
+  'coil.layoutCoil': 'Espiral',
+  'coil.layoutTimeline': 'Línea de tiempo',
 
   // Watch
   'watch.requiresChromium': 'La vigilancia de archivos requiere un navegador basado en Chromium',
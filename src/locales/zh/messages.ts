@@ -14,6 +14,7 @@ export const messages = {
   'landing.dropText': '拖放对话文件到此处',
   'landing.dropSubtext': '支持AI编程助手的.jsonl轨迹文件',
   'landing.selectFile': '选择文件',
+  'landing.selectFolder': '选择文件夹',
   'landing.loadUrl': '加载链接',
   'landing.urlPlaceholder': 'https://example.com/trace.jsonl',
   'landing.orLoadFromUrl': '或从链接加载',
@@ -35,6 +36,19 @@ export const messages = {
   'toolbar.export': '导出对话',
   'toolbar.exportHtml': '导出为HTML',
   'toolbar.exportMarkdown': '导出为Markdown',
+  'toolbar.exportTracerJson': '导出为thinking-tracer JSON',
+  'toolbar.source': '格式',
+  'toolbar.sourceAmbiguous': '检测到的格式不确定 - 请选择其他解析器',
+  'toolbar.conversation': '对话',
+  'toolbar.conversationHint': '此文件包含 {count} 个对话 - 选择要查看的对话',
+  'toolbar.branch': '分支',
+  'toolbar.branchHint': '此对话有 {count} 个分支（编辑或重试）- 选择主路径',
+  'toolbar.showBranches': '全部显示',
+  'toolbar.followTail': '跟随',
+  'toolbar.followTailHint': '监视的文件增长时保持最新的轮次可见',
+
+  // Branches
+  'branch.option': '分支 {number}（{turns} 轮）',
 
   // Search
   'search.placeholder': '搜索对话...',
@@ -61,6 +75,7 @@ export const messages = {
   'sidebar.input': '输入',
   'sidebar.thinking': '思考',
   'sidebar.tools': '工具',
+  'sidebar.context': '上下文',
 
   // Sidebar - Word Frequency
   'sidebar.topWords': '高频词汇',
@@ -103,6 +118,45 @@ export const messages = {
   'sidebar.toolInput': '输入',
   'sidebar.toolResult': '结果',
   'sidebar.toolResultError': '结果（错误）',
+  'sidebar.fileChange': '文件变更',
+  'sidebar.diffUnified': '统一',
+  'sidebar.diffSplit': '并排',
+  'sidebar.diffUnchanged': '⋯ {count} 行未更改',
+  'sidebar.diffMore': '⋯ 另有 {count} 行',
+  'sidebar.diffFullContent': '（完整内容）',
+  'sidebar.diffReplaceAll': '（全部替换）',
+  'sidebar.diffEdit': '编辑 {number} / {total}',
+  'sidebar.rawOutput': '原始',
+  'sidebar.formattedOutput': '格式化',
+  'sidebar.diagnostics': '诊断',
+  'sidebar.images': '图片',
+
+  // Diagnostics
+  'diagnostics.invalidLine': '无效行',
+  'diagnostics.unknownEntryType': '未知条目类型',
+  'diagnostics.orphanToolResult': '孤立的工具结果',
+  'diagnostics.brokenParentChain': '父链断裂',
+  'diagnostics.line': '第 {line} 行',
+  'diagnostics.invalidLineMessage': '第 {line} 行不是有效的 JSON，已跳过',
+  'diagnostics.unknownEntryTypeMessage': '未知条目类型 "{subject}"',
+  'diagnostics.orphanToolResultMessage': '工具结果引用了未知的 tool_use_id "{subject}"',
+  'diagnostics.brokenParentChainMessage': '缺少父条目 "{subject}"',
+
+  // Image gallery
+  'gallery.fromUser': '用户',
+  'gallery.fromTool': '工具',
+  'gallery.turn': '第 {turn} 轮',
+  'gallery.jumpToTurn': '跳转到第 {turn} 轮',
+
+  // Compaction boundaries
+  'compaction.label': '压缩',
+  'compaction.compacted': '上下文已压缩',
+  'compaction.summarized': '已摘要',
+  'compaction.trigger': '触发方式：{trigger}',
+  'compaction.preTokens': '压缩前 {tokens} Token',
+  'compaction.continuesAt': '从第 {turn} 轮继续',
+  'compaction.summary': '摘要',
+  'compaction.noSummary': '未记录摘要',
 
   // Legend
   'legend.title': '图例',
@@ -123,6 +177,8 @@ export const messages = {
   'conversation.resultSuccess': '✓ 结果',
   'conversation.resultError': '✗ 错误',
   'conversation.more': '更多',
+  'conversation.rawOutput': '原始',
+  'conversation.formattedOutput': '格式化',
   'conversation.chars': '{count} 字符',
   'conversation.thinkingSummary': '{count} 次思考 ({chars} 字符 · {duration})',
   'conversation.thinkingSummaryNoTime': '{count} 次思考 ({chars} 字符)',
@@ -164,6 +220,18 @@ export const messages = {
   'toast.fetchFailed': '无法获取该链接（请检查链接是否存在并允许跨域请求）',
   'toast.localServerFailed': '无法连接到本地服务器。请确保CLI仍在运行。',
   'toast.authFailed': '认证失败 - 令牌无效或缺失',
+  'toast.noTraceFiles': '该文件夹中没有 .json 或 .jsonl 文件',
+  'toast.noMainSession': '所选文件中未找到主会话文件',
+  'toast.noTaskHistory': '任务文件夹中未找到 api_conversation_history.json',
+  'toast.ignoredFiles': '仅加载了最新的会话。已忽略：{files}',
+
+  // Load progress
+  'loading.read': '正在读取文件... {loaded} / {total}',
+  'loading.decompress': '正在解压...',
+  'loading.parse': '正在解析...',
+  'loading.cluster': '正在从 {lines} 行构建集群...',
+  'loading.index': '正在索引 {clusters} 个集群...',
+  'loading.cancel': '取消',
 
   // File watcher
   'watch.stopped': '已停止监视',
@@ -200,10 +268,13 @@ export const messages = {
   'document.downloadPdf': '下载PDF',
   'document.base64Data': 'Base64数据 ({size} KB)',
   'document.noPreview': '无法预览',
+  'document.fromUser': '用户附加',
+  'document.fromTool': '工具返回',
 
   // Recent traces
   'recent.turns': '{count} 轮',
   'recent.clusters': '{count} 个集群',
+  'recent.agents': '{count} 个代理',
 
   // Detail panel actions
   'detail.collapseToSingle': '折叠为单个节点',
@@ -215,6 +286,14 @@ export const messages = {
 
   // Metrics
   'metrics.turnNumber': '轮次 {number}',
+  'metrics.agents': '子代理',
+  'metrics.agent': '代理 {number}',
+  'metrics.agentTurns': '{count} 轮',
+  'metrics.agentToggle': '点击折叠或展开该代理的螺旋',
+  'metrics.resetAtCompaction': '在压缩处重置',
+  'metrics.resetAtCompactionHint': '按包含当前轮次的压缩区间缩放图表和合计',
+  'metrics.contextOfLimit': '{tokens} / {limit} Token（{percent}%）',
+  'metrics.contextHint': '当前轮次的上下文窗口占用',
 
   // Legend sections
   'legend.camera': '相机',
@@ -238,6 +317,9 @@ export const messages = {
   'coil.maxGap': '最大间隙',
   'coil.showClusterLines': '显示集群线',
   'coil.parameters': '螺旋参数',
+  'coil.layout': '布局',
+  'coil.layoutCoil': '螺旋',
+  'coil.layoutTimeline': '时间线',
 
   // Watch
   'watch.requiresChromium': '文件监视需要基于Chromium的浏览器',
@@ -5,9 +5,19 @@
 import './styles/main.css';
 
 import { initI18n, t, onLocaleChange, changeLocale, getCurrentLocale, SUPPORTED_LOCALES, LOCALE_NAMES, type SupportedLocale } from './i18n';
-import { Viewer } from './core/Viewer';
+import { Viewer, type AppendResult } from './core/Viewer';
 import { hashContent } from './utils/hash';
-import { escapeHtml } from './export';
+import { formatSize } from './utils/recent-traces';
+import {
+  TraceLoader,
+  LoadCancelledError,
+  getLoadFraction,
+  type LoadProgress,
+  type PreparedConversation,
+  type TraceSource,
+} from './loader';
+import { escapeHtml } from './utils/html';
+import { sourceRegistry } from './config/sources';
 import type { SearchableViewer } from './ui';
 import {
   MetricsPanel,
@@ -15,12 +25,18 @@ import {
   WordFrequencyPanel,
   ConversationPanel,
   CoilControlsPanel,
+  DiagnosticsPanel,
+  GalleryPanel,
   FileLoader,
   RecentTracesManager,
   SearchController,
   SidebarController,
   ExportController,
   SplitPaneController,
+  LightboxController,
+  SourcePickerController,
+  ConversationPickerController,
+  BranchPickerController,
 } from './ui';
 import type { Selection, RecentTrace, TraceUIState } from './ui';
 
@@ -103,12 +119,18 @@ function updateStaticText(): void {
   if (dropText) dropText.textContent = t('landing.dropText');
   if (dropSubtext) dropSubtext.textContent = t('landing.dropSubtext');
   if (fileSelectBtn) fileSelectBtn.textContent = t('landing.selectFile');
+  const folderSelectBtn = document.getElementById('folder-select-btn');
+  if (folderSelectBtn) folderSelectBtn.textContent = t('landing.selectFolder');
   if (urlLoadBtn && !urlLoadBtn.classList.contains('loading')) {
     urlLoadBtn.textContent = t('landing.loadUrl');
   }
   if (urlInput) urlInput.placeholder = t('landing.urlPlaceholder');
   if (samplePreviewBtn) samplePreviewBtn.textContent = t('landing.seeHowBuilt');
 
+  // Load progress
+  const loadProgressCancel = document.querySelector('.load-progress-cancel');
+  if (loadProgressCancel) loadProgressCancel.textContent = t('loading.cancel');
+
   // Recent traces
   const recentHeader = document.querySelector('.recent-header h3');
   const recentClearBtn = document.getElementById('recent-clear-btn');
@@ -132,6 +154,18 @@ function updateStaticText(): void {
   if (toolbarBack) toolbarBack.title = t('toolbar.back');
   if (sidebarToggle) sidebarToggle.title = t('toolbar.toggleSidebar');
   if (exportBtn) exportBtn.textContent = t('toolbar.export').replace('Conversation', '').trim();
+  const sourcePickerLabel = document.querySelector('#source-picker label');
+  if (sourcePickerLabel) sourcePickerLabel.textContent = t('toolbar.source');
+  const conversationPickerLabel = document.querySelector('#conversation-picker label');
+  if (conversationPickerLabel) conversationPickerLabel.textContent = t('toolbar.conversation');
+  const branchPickerLabel = document.querySelector('#branch-picker label[for="branch-select"]');
+  if (branchPickerLabel) branchPickerLabel.textContent = t('toolbar.branch');
+  const branchToggleLabel = document.querySelector('#branch-picker .branch-toggle span');
+  if (branchToggleLabel) branchToggleLabel.textContent = t('toolbar.showBranches');
+  const followTail = document.getElementById('follow-tail');
+  if (followTail) followTail.title = t('toolbar.followTailHint');
+  const followTailLabel = document.querySelector('#follow-tail span');
+  if (followTailLabel) followTailLabel.textContent = t('toolbar.followTail');
 
   // View mode buttons
   document.querySelectorAll('.view-mode-btn').forEach((btn) => {
@@ -146,6 +180,7 @@ function updateStaticText(): void {
     const format = (btn as HTMLElement).dataset.format;
     if (format === 'html') btn.textContent = t('toolbar.exportHtml');
     else if (format === 'markdown') btn.textContent = t('toolbar.exportMarkdown');
+    else if (format === 'thinking-tracer') btn.textContent = t('toolbar.exportTracerJson');
   });
 
   // Search
@@ -190,6 +225,8 @@ function updateStaticText(): void {
     if (sectionType === 'metrics') header.textContent = t('sidebar.metrics');
     else if (sectionType === 'words') header.textContent = t('sidebar.topWords');
     else if (sectionType === 'details') header.textContent = t('sidebar.details');
+    else if (sectionType === 'diagnostics') header.textContent = t('sidebar.diagnostics');
+    else if (sectionType === 'images') header.textContent = t('sidebar.images');
   });
 
   // Metrics labels
@@ -202,7 +239,14 @@ function updateStaticText(): void {
     else if (metric === 'inputTokens') label.textContent = t('sidebar.input');
     else if (metric === 'thinkingCount') label.textContent = t('sidebar.thinking');
     else if (metric === 'toolCount') label.textContent = t('sidebar.tools');
+    else if (metric === 'contextTokens') label.textContent = t('sidebar.context');
   });
+  const compactionOption = document.getElementById('metrics-compaction');
+  if (compactionOption) {
+    compactionOption.title = t('metrics.resetAtCompactionHint');
+    const span = compactionOption.querySelector('span');
+    if (span) span.textContent = t('metrics.resetAtCompaction');
+  }
 
   // Word frequency source options
   const wordFreqSource = document.getElementById('word-freq-source') as HTMLSelectElement | null;
@@ -243,6 +287,7 @@ function updateStaticText(): void {
     else if (colorDiv.classList.contains('tool-result-success')) label.textContent = t('legend.toolSuccess');
     else if (colorDiv.classList.contains('tool-result')) label.textContent = t('legend.toolError');
     else if (colorDiv.classList.contains('document')) label.textContent = t('document.label');
+    else if (colorDiv.classList.contains('boundary')) label.textContent = t('compaction.label');
   });
 
   // Canvas controls
@@ -268,6 +313,12 @@ function updateStaticText(): void {
   if (coilResetBtn) coilResetBtn.textContent = t('coil.reset');
   if (coilControlsHeader) coilControlsHeader.textContent = t('coil.parameters');
   if (clusterLinesLabel) clusterLinesLabel.textContent = t('coil.showClusterLines');
+  const layoutModeLabel = document.querySelector('.coil-layout-row label');
+  if (layoutModeLabel) layoutModeLabel.textContent = t('coil.layout');
+  document.querySelectorAll('#layout-mode-select option').forEach((option) => {
+    const value = (option as HTMLOptionElement).value;
+    option.textContent = value === 'timeline' ? t('coil.layoutTimeline') : t('coil.layoutCoil');
+  });
 
   // Coil slider labels
   document.querySelectorAll('.coil-slider').forEach((slider) => {
@@ -417,6 +468,9 @@ function updateLanguageSwitcher(): void {
 onLocaleChange(() => {
   updateStaticText();
   conversationPanel?.render();
+  diagnosticsPanel?.render();
+  galleryPanel?.render();
+  metricsPanel?.draw();
 });
 
 // Get DOM elements
@@ -436,6 +490,8 @@ const sampleDismissBtn = document.getElementById('sample-dismiss-btn');
 const canvasControls = document.getElementById('canvas-controls');
 const watchToggle = document.getElementById('watch-toggle');
 const fileInput = document.getElementById('file-input') as HTMLInputElement | null;
+const folderSelectBtn = document.getElementById('folder-select-btn');
+const folderInput = document.getElementById('folder-input') as HTMLInputElement | null;
 const legend = document.getElementById('legend');
 const legendHeader = document.getElementById('legend-header');
 const detailPanelContent = document.getElementById('detail-panel-content');
@@ -444,6 +500,9 @@ const recentListEl = document.getElementById('recent-list');
 const recentClearBtn = document.getElementById('recent-clear-btn');
 const metricsStack = document.getElementById('metrics-stack');
 const chartRange = document.getElementById('chart-range');
+const agentMetrics = document.getElementById('agent-metrics');
+const metricsCompaction = document.getElementById('metrics-compaction');
+const metricsResetCompaction = document.getElementById('metrics-reset-compaction') as HTMLInputElement | null;
 const chartTooltip = document.getElementById('chart-tooltip');
 const splitHandle = document.getElementById('split-handle');
 const canvasPane = document.getElementById('canvas-pane');
@@ -454,6 +513,14 @@ const conversationTurnIndicator = document.getElementById('conversation-turn-ind
 const conversationFilters = document.getElementById('conversation-filters');
 const wordFreqChart = document.getElementById('word-freq-chart');
 const wordFreqSource = document.getElementById('word-freq-source') as HTMLSelectElement | null;
+const diagnosticsSection = document.querySelector<HTMLElement>('.sidebar-section[data-section="diagnostics"]');
+const diagnosticsContent = document.getElementById('diagnostics-content');
+const diagnosticsCount = document.getElementById('diagnostics-count');
+const gallerySection = document.querySelector<HTMLElement>('.sidebar-section[data-section="images"]');
+const galleryContent = document.getElementById('gallery-content');
+const galleryCount = document.getElementById('gallery-count');
+const lightboxOverlay = document.getElementById('image-lightbox');
+const lightboxImage = document.getElementById('image-lightbox-img') as HTMLImageElement | null;
 const searchInput = document.getElementById('search-input') as HTMLInputElement | null;
 const searchRegexToggle = document.getElementById('search-regex-toggle');
 const searchResultsCount = document.getElementById('search-results-count');
@@ -464,10 +531,20 @@ const searchClearBtn = document.getElementById('search-clear');
 const exportBtn = document.getElementById('export-btn');
 const exportDropdown = document.querySelector('.export-dropdown');
 const exportMenu = document.querySelector('.export-menu');
+const sourcePickerEl = document.getElementById('source-picker');
+const sourceSelect = document.getElementById('source-select') as HTMLSelectElement | null;
+const conversationPickerEl = document.getElementById('conversation-picker');
+const conversationSelect = document.getElementById('conversation-select') as HTMLSelectElement | null;
+const branchPickerEl = document.getElementById('branch-picker');
+const branchSelect = document.getElementById('branch-select') as HTMLSelectElement | null;
+const branchShowToggle = document.getElementById('branch-show-toggle') as HTMLInputElement | null;
+const followTailEl = document.getElementById('follow-tail');
+const followTailToggle = document.getElementById('follow-tail-toggle') as HTMLInputElement | null;
 const expandToggle = document.getElementById('expand-toggle');
 const coilControlsToggle = document.getElementById('coil-controls-toggle');
 const coilControlsPanelEl = document.getElementById('coil-controls');
 const coilResetBtn = document.getElementById('coil-reset-btn');
+const layoutModeSelect = document.getElementById('layout-mode-select') as HTMLSelectElement | null;
 const coilSliders = document.querySelectorAll('.coil-slider');
 const clusterLinesToggle = document.getElementById('cluster-lines-toggle') as HTMLInputElement | null;
 const clusterLineOptions = document.getElementById('cluster-line-options');
@@ -479,6 +556,10 @@ const clusterLineOpacity = document.getElementById('cluster-line-opacity') as HT
 const clusterLineOpacityValue = document.getElementById('cluster-line-opacity-value');
 const urlInput = document.getElementById('url-input') as HTMLInputElement | null;
 const urlLoadBtn = document.getElementById('url-load-btn');
+const loadProgressEl = document.getElementById('load-progress');
+const loadProgressLabel = loadProgressEl?.querySelector<HTMLElement>('.load-progress-label') ?? null;
+const loadProgressBar = loadProgressEl?.querySelector<HTMLElement>('.load-progress-bar') ?? null;
+const loadProgressCancel = loadProgressEl?.querySelector<HTMLElement>('.load-progress-cancel') ?? null;
 
 // Track expanded state
 let allExpanded = false;
@@ -490,12 +571,18 @@ let detailPanel: DetailPanel | null = null;
 let wordFrequencyPanel: WordFrequencyPanel | null = null;
 let conversationPanel: ConversationPanel | null = null;
 let coilControlsPanel: CoilControlsPanel | null = null;
+let diagnosticsPanel: DiagnosticsPanel | null = null;
+let galleryPanel: GalleryPanel | null = null;
+let lightboxController: LightboxController | null = null;
 let fileLoader: FileLoader | null = null;
 let recentTracesManager: RecentTracesManager | null = null;
 let searchController: SearchController | null = null;
 let sidebarController: SidebarController | null = null;
 let exportController: ExportController | null = null;
 let splitPaneController: SplitPaneController | null = null;
+let sourcePickerController: SourcePickerController | null = null;
+let conversationPickerController: ConversationPickerController | null = null;
+let branchPickerController: BranchPickerController | null = null;
 
 // View mode: '3d' | 'split' | 'conversation'
 let viewMode: '3d' | 'split' | 'conversation' = 'split';
@@ -503,6 +590,10 @@ let viewMode: '3d' | 'split' | 'conversation' = 'split';
 // Current trace info for name editing
 let currentTraceId: string | null = null;
 
+// Current trace content, kept so it can be re-parsed with another source.
+// Its line count is kept once lines are appended to it.
+let currentTrace: { content: string; filename: string; customName?: string; lineCount?: number } | null = null;
+
 // Track if this is a freshly loaded trace (vs restored from recent)
 let isNewTrace = false;
 
@@ -604,6 +695,9 @@ if (metricsStack) {
       container: metricsStack,
       rangeLabel: chartRange,
       tooltip: chartTooltip,
+      agentList: agentMetrics,
+      compactionOption: metricsCompaction,
+      resetToggle: metricsResetCompaction,
     },
     viewer
   );
@@ -622,6 +716,22 @@ if (wordFreqChart) {
   );
 }
 
+// Create diagnostics panel
+if (diagnosticsContent) {
+  diagnosticsPanel = new DiagnosticsPanel(
+    { container: diagnosticsContent, section: diagnosticsSection, countBadge: diagnosticsCount },
+    viewer
+  );
+}
+
+// Create image gallery panel
+if (galleryContent) {
+  galleryPanel = new GalleryPanel(
+    { container: galleryContent, section: gallerySection, countBadge: galleryCount },
+    viewer
+  );
+}
+
 // Create conversation panel
 if (conversationContent) {
   conversationPanel = new ConversationPanel(
@@ -647,14 +757,103 @@ viewer.onStats((stats) => {
 });
 
 
+// ============================================
+// Load Progress
+// ============================================
+
+// Parses and builds clusters in a worker so large traces don't freeze the tab
+const traceLoader = new TraceLoader();
+
+// Loads faster than this finish without flashing the progress overlay
+const LOAD_PROGRESS_DELAY_MS = 150;
+let loadProgressTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Describe a load progress report
+ */
+function getLoadProgressLabel(progress: LoadProgress): string {
+  switch (progress.phase) {
+    case 'read':
+      return t('loading.read', { loaded: formatSize(progress.bytesRead), total: formatSize(progress.totalBytes) });
+    case 'decompress':
+      return t('loading.decompress');
+    case 'parse':
+      return t('loading.parse');
+    case 'cluster':
+      return t('loading.cluster', { lines: progress.linesParsed.toLocaleString() });
+    case 'index':
+      return t('loading.index', { clusters: progress.clustersBuilt.toLocaleString() });
+  }
+}
+
+/**
+ * Reset the progress overlay and show it if the load takes a while
+ */
+function startLoadProgress(): void {
+  if (!loadProgressEl) return;
+  if (loadProgressBar) loadProgressBar.style.width = '0%';
+  if (loadProgressLabel) loadProgressLabel.textContent = t('landing.loading');
+  loadProgressEl.setAttribute('aria-valuenow', '0');
+
+  if (loadProgressTimeout) clearTimeout(loadProgressTimeout);
+  loadProgressTimeout = setTimeout(() => {
+    loadProgressTimeout = null;
+    loadProgressEl.classList.add('visible');
+  }, LOAD_PROGRESS_DELAY_MS);
+}
+
+/**
+ * Update the progress overlay
+ */
+function updateLoadProgress(progress: LoadProgress): void {
+  const percent = Math.round(getLoadFraction(progress) * 100);
+  if (loadProgressBar) loadProgressBar.style.width = `${percent}%`;
+  if (loadProgressLabel) loadProgressLabel.textContent = getLoadProgressLabel(progress);
+  loadProgressEl?.setAttribute('aria-valuenow', String(percent));
+}
+
+/**
+ * Hide the progress overlay
+ */
+function endLoadProgress(): void {
+  if (loadProgressTimeout) {
+    clearTimeout(loadProgressTimeout);
+    loadProgressTimeout = null;
+  }
+  loadProgressEl?.classList.remove('visible');
+}
+
+loadProgressCancel?.addEventListener('click', () => traceLoader.cancel());
+
 /**
- * Load a conversation file
+ * Load a conversation from text or a (possibly compressed) file
  */
-async function loadFile(content: string, filename: string, skipSave = false, customName?: string): Promise<void> {
+async function loadFile(
+  source: TraceSource,
+  filename: string,
+  skipSave = false,
+  customName?: string,
+  sourceId?: string,
+  conversationId?: string
+): Promise<void> {
   try {
-    viewer.loadJSON(content);
+    startLoadProgress();
+    let prepared: PreparedConversation;
+    try {
+      prepared = await traceLoader.load(source, { sourceId, conversationId, onProgress: updateLoadProgress });
+    } finally {
+      // A newer load may have taken over the overlay
+      if (!traceLoader.isLoading()) endLoadProgress();
+    }
+
+    const content = prepared.content;
+    viewer.loadPrepared(prepared);
+    currentTrace = { content, filename, customName };
+    sourcePickerController?.update(viewer.getSourceDetection());
+    branchPickerController?.update(viewer.getBranches(), viewer.getActiveBranch());
 
     const conversation = viewer.getConversation();
+    conversationPickerController?.update(viewer.getSourceDetection()?.conversations, conversation?.meta.id ?? null);
     const originalTitle = conversation?.meta.title || filename;
     const turnCount = conversation?.turns.length || 0;
 
@@ -669,7 +868,7 @@ async function loadFile(content: string, filename: string, skipSave = false, cus
       // Mark as new trace - will set initial view
       isNewTrace = true;
       if (recentTracesManager) {
-        await recentTracesManager.saveTrace(filename, originalTitle, turnCount, content);
+        await recentTracesManager.saveTrace(filename, originalTitle, turnCount, content, conversation?.meta.agentIds?.length);
         await recentTracesManager.refresh();
       }
     }
@@ -692,18 +891,19 @@ async function loadFile(content: string, filename: string, skipSave = false, cus
     if (toolbarMeta) {
       const meta = conversation?.meta;
       const metaItems: string[] = [];
+      const fields = sourceRegistry.getMetadataFields(meta?.source);
 
-      // Add metadata items
-      if (meta?.model) {
+      // Add metadata items the source declares as meaningful
+      if (meta?.model && fields.includes('model')) {
         metaItems.push(`<span class="meta-item" title="Model">${escapeHtml(meta.model)}</span>`);
       }
-      if (meta?.git_branch) {
+      if (meta?.git_branch && fields.includes('git_branch')) {
         metaItems.push(`<span class="meta-item" title="Git Branch">⎇ ${escapeHtml(meta.git_branch)}</span>`);
       }
-      if (meta?.duration_ms !== undefined) {
+      if (meta?.duration_ms !== undefined && fields.includes('duration_ms')) {
         metaItems.push(`<span class="meta-item" title="Duration">⏱ ${formatDuration(meta.duration_ms)}</span>`);
       }
-      if (meta?.cwd) {
+      if (meta?.cwd && fields.includes('cwd')) {
         const shortCwd = meta.cwd.split('/').slice(-2).join('/');
         metaItems.push(`<span class="meta-item" title="${escapeHtml(meta.cwd)}">📁 ${escapeHtml(shortCwd)}</span>`);
       }
@@ -743,6 +943,8 @@ async function loadFile(content: string, filename: string, skipSave = false, cus
     setTimeout(() => {
       metricsPanel?.draw(currentFocusIndex);
       wordFrequencyPanel?.render();
+      diagnosticsPanel?.render();
+      galleryPanel?.render();
 
       // Set initial camera view for new traces
       if (isNewTrace) {
@@ -755,11 +957,61 @@ async function loadFile(content: string, filename: string, skipSave = false, cus
       }
     }, 50);
   } catch (error) {
+    if (error instanceof LoadCancelledError) return;
     console.error('Failed to load conversation:', error);
     showToast(error instanceof Error ? error.message : String(error), 'error', 'Failed to load file');
   }
 }
 
+/**
+ * Count line breaks in text
+ */
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Add lines appended to the watched file to the current trace
+ * @returns false if the trace can't be extended and has to be reloaded
+ */
+function appendToTrace(text: string): boolean {
+  if (!currentTrace || !viewer.canAppend(currentTrace.content)) return false;
+
+  const lineCount = currentTrace.lineCount ?? countNewlines(currentTrace.content);
+  let appended: AppendResult;
+  try {
+    appended = viewer.appendContent(text, lineCount);
+  } catch (error) {
+    console.error('Failed to append to conversation:', error);
+    return false;
+  }
+  currentTrace.content += text;
+  currentTrace.lineCount = lineCount + countNewlines(text);
+
+  diagnosticsPanel?.render();
+  if (appended.turns === 0) return true;
+
+  // Only the clusters from the first changed one on have to be redrawn
+  branchPickerController?.update(viewer.getBranches(), viewer.getActiveBranch());
+  metricsPanel?.draw(currentFocusIndex);
+  wordFrequencyPanel?.renderFrom(appended.firstChangedCluster);
+  galleryPanel?.renderFrom(appended.firstChangedCluster);
+  conversationPanel?.renderFrom(appended.firstChangedCluster);
+  if (viewer.getFollowTail()) {
+    conversationPanel?.scrollToCluster(viewer.getClusterCount() - 1);
+  }
+  return true;
+}
+
+// Keep the newest cluster in view while a watched file grows
+followTailToggle?.addEventListener('change', () => {
+  viewer.setFollowTail(followTailToggle.checked);
+});
+
 /**
  * Load a trace from recent history
  */
@@ -772,11 +1024,11 @@ async function loadRecentTrace(trace: RecentTrace): Promise<void> {
   // Mark as not a new trace (has saved state)
   isNewTrace = false;
 
-  // Pass custom name if it exists
-  await loadFile(trace.content, trace.filename, true, trace.customName);
+  // Pass custom name and chosen source if they exist
+  await loadFile(trace.content, trace.filename, true, trace.customName, trace.sourceId);
 
-  // Restore UI state after loading
-  if (trace.uiState) {
+  // Restore UI state after loading (unless the load failed or was cancelled)
+  if (trace.uiState && currentTrace?.content === trace.content) {
     restoreUIState(trace.uiState);
 
     // Apply restored view mode (sidebar state is already applied by restoreUIState)
@@ -795,13 +1047,27 @@ async function loadRecentTrace(trace: RecentTrace): Promise<void> {
 fileLoader = new FileLoader({
   fileInput: fileInput,
   fileSelectBtn: fileSelectBtn,
+  folderInput: folderInput,
+  folderSelectBtn: folderSelectBtn,
   trySampleBtn: trySampleBtn,
   watchToggle: watchToggle,
   dropOverlay: dropOverlay,
   onLoad: loadFile,
+  onLoadFile: (file, filename, customName) => loadFile(file, filename, false, customName),
+  onAppend: appendToTrace,
+  onWatchChange: (watching) => {
+    followTailEl?.classList.toggle('visible', watching);
+    if (!watching && followTailToggle?.checked) {
+      followTailToggle.checked = false;
+      viewer.setFollowTail(false);
+    }
+  },
   onError: (error) => {
     showToast(error.message, 'error', 'Error');
   },
+  onNotice: (message) => {
+    showToast(message, 'info');
+  },
 });
 
 // Create RecentTracesManager
@@ -1150,6 +1416,7 @@ if (coilControlsToggle && coilControlsPanelEl) {
       toggleBtn: coilControlsToggle,
       panel: coilControlsPanelEl,
       resetBtn: coilResetBtn,
+      layoutSelect: layoutModeSelect,
       sliders: coilSliders,
       clusterLinesToggle,
       clusterLineOptions,
@@ -1305,6 +1572,22 @@ if (splitHandle && canvasPane && conversationPane && contentArea) {
   });
 }
 
+// ============================================
+// Image Lightbox
+// ============================================
+
+if (lightboxOverlay && lightboxImage) {
+  lightboxController = new LightboxController({
+    elements: {
+      overlay: lightboxOverlay,
+      image: lightboxImage,
+      caption: document.getElementById('image-lightbox-caption'),
+      closeButton: document.getElementById('image-lightbox-close'),
+    },
+    containers: [detailPanelContent, conversationContent, galleryContent].filter((el): el is HTMLElement => el !== null),
+  });
+}
+
 // ============================================
 // Search Functionality
 // ============================================
@@ -1381,7 +1664,93 @@ if (exportBtn && exportDropdown) {
       getSearchableContent: () => viewer.getSearchableContent(),
       getConversationTitle: () => viewer.getConversation()?.meta?.title,
       getSourceId: () => viewer.getConversation()?.meta?.source,
+      getConversation: () => viewer.getConversation(),
+    },
+  });
+}
+
+// ============================================
+// Source Override
+// ============================================
+
+// Re-parse the current trace when the user overrides an ambiguous detection
+if (sourcePickerEl && sourceSelect) {
+  sourcePickerController = new SourcePickerController({
+    elements: {
+      container: sourcePickerEl,
+      select: sourceSelect,
+    },
+    onSelect: (sourceId) => {
+      if (!currentTrace) return;
+      isNewTrace = true;
+      loadFile(currentTrace.content, currentTrace.filename, true, currentTrace.customName, sourceId);
+      // The content is unchanged, so the recent entry keeps its ID
+      if (currentTraceId && recentTracesManager) {
+        recentTracesManager.updateSourceId(currentTraceId, sourceId);
+      }
+    },
+  });
+}
+
+// ============================================
+// Conversation Selection
+// ============================================
+
+// Re-parse the current file with another of its conversations (ChatGPT exports)
+if (conversationPickerEl && conversationSelect) {
+  conversationPickerController = new ConversationPickerController({
+    elements: {
+      container: conversationPickerEl,
+      select: conversationSelect,
+    },
+    onSelect: (conversationId) => {
+      if (!currentTrace) return;
+      isNewTrace = true;
+      const sourceId = viewer.getSourceDetection()?.sourceId;
+      loadFile(currentTrace.content, currentTrace.filename, true, currentTrace.customName, sourceId, conversationId);
+    },
+  });
+}
+
+// ============================================
+// Branch Selection
+// ============================================
+
+/**
+ * Refresh panels after the main path changes to another branch
+ */
+function handleBranchChange(): void {
+  currentFocusIndex = 0;
+  allExpanded = false;
+  if (expandToggle) {
+    expandToggle.textContent = 'Expand';
+    expandToggle.classList.remove('expanded');
+  }
+
+  metricsPanel?.draw(currentFocusIndex);
+  wordFrequencyPanel?.render();
+  galleryPanel?.render();
+  conversationPanel?.render();
+
+  if (viewer.getClusterCount() > 0) {
+    viewer.selectClusterByIndex(0);
+  }
+}
+
+// Choose which branch of an edited/retried conversation is the main path
+if (branchPickerEl && branchSelect) {
+  branchPickerController = new BranchPickerController({
+    elements: {
+      container: branchPickerEl,
+      select: branchSelect,
+      showToggle: branchShowToggle,
+    },
+    onSelect: (leafTurnIndex) => {
+      searchController?.clear();
+      viewer.setActiveBranch(leafTurnIndex);
+      handleBranchChange();
     },
+    onToggleBranches: (show) => viewer.setShowBranches(show),
   });
 }
 
@@ -1468,15 +1837,22 @@ window.addEventListener('beforeunload', () => {
   coilControlsPanel?.dispose();
   sidebarController?.dispose();
   exportController?.dispose();
+  sourcePickerController?.dispose();
+  conversationPickerController?.dispose();
+  branchPickerController?.dispose();
   splitPaneController?.dispose();
+  lightboxController?.dispose();
 
   // Cleanup panels
   metricsPanel?.dispose();
   detailPanel?.dispose();
   wordFrequencyPanel?.dispose();
+  diagnosticsPanel?.dispose();
+  galleryPanel?.dispose();
   conversationPanel?.dispose();
 
   // Cleanup loaders
+  traceLoader.dispose();
   fileLoader?.dispose();
   recentTracesManager?.dispose();
 
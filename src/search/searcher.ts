@@ -2,7 +2,7 @@
  * Search functionality for conversation traces
  */
 
-import { escapeHtml } from '../export';
+import { escapeHtml } from '../utils/html';
 import type { SearchableCluster } from '../data/types';
 
 /**
@@ -0,0 +1,127 @@
+/**
+ * Tests for BranchPickerController
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  BranchPickerController,
+  formatBranchLabel,
+  type BranchPickerControllerElements,
+} from './BranchPickerController';
+import type { ConversationBranch } from '../../core/tree';
+
+function createMockElements(): BranchPickerControllerElements {
+  const container = document.createElement('div');
+  const select = document.createElement('select');
+  const showToggle = document.createElement('input');
+  showToggle.type = 'checkbox';
+  container.append(select, showToggle);
+  return { container, select, showToggle };
+}
+
+function branch(leafTurnIndex: number, preview = '', length = 4): ConversationBranch {
+  return { leafTurnIndex, forkTurnIndex: 1, divergeTurnIndex: leafTurnIndex - 1, length, preview };
+}
+
+describe('formatBranchLabel', () => {
+  it('numbers branches from one', () => {
+    expect(formatBranchLabel(branch(3), 0)).toBe('branch.option');
+  });
+
+  it('appends a truncated single-line preview', () => {
+    const label = formatBranchLabel(branch(3, 'Write a poem\nabout the sea and the sky and everything else'), 1);
+    expect(label).toBe('branch.option · Write a poem about the sea and the sky a...');
+  });
+});
+
+describe('BranchPickerController', () => {
+  let elements: BranchPickerControllerElements;
+  let onSelect: ReturnType<typeof vi.fn>;
+  let onToggleBranches: ReturnType<typeof vi.fn>;
+  let controller: BranchPickerController;
+
+  beforeEach(() => {
+    elements = createMockElements();
+    onSelect = vi.fn();
+    onToggleBranches = vi.fn();
+    controller = new BranchPickerController({ elements, onSelect, onToggleBranches });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  describe('update', () => {
+    it('stays hidden for a linear conversation', () => {
+      controller.update([branch(5)], 5);
+      expect(controller.isVisible()).toBe(false);
+    });
+
+    it('stays hidden with no branches', () => {
+      controller.update([], null);
+      expect(controller.isVisible()).toBe(false);
+    });
+
+    it('lists one option per branch and selects the active one', () => {
+      controller.update([branch(3, 'Write a poem'), branch(5, 'Write a haiku')], 5);
+
+      expect(controller.isVisible()).toBe(true);
+      const options = Array.from(elements.select.options);
+      expect(options.map(o => o.value)).toEqual(['3', '5']);
+      expect(options[0].title).toBe('Write a poem');
+      expect(elements.select.value).toBe('5');
+      expect(elements.container.title).toBe('toolbar.branchHint');
+    });
+
+    it('hides again when a linear conversation is loaded', () => {
+      controller.update([branch(3), branch(5)], 5);
+      controller.update([branch(2)], 2);
+      expect(controller.isVisible()).toBe(false);
+    });
+  });
+
+  describe('selection', () => {
+    it('reports a different branch', () => {
+      controller.update([branch(3), branch(5)], 5);
+
+      elements.select.value = '3';
+      elements.select.dispatchEvent(new Event('change'));
+
+      expect(onSelect).toHaveBeenCalledWith(3);
+    });
+
+    it('ignores re-selecting the active branch', () => {
+      controller.update([branch(3), branch(5)], 5);
+
+      elements.select.dispatchEvent(new Event('change'));
+
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('reports the side spiral toggle', () => {
+      elements.showToggle!.checked = true;
+      elements.showToggle!.dispatchEvent(new Event('change'));
+
+      expect(onToggleBranches).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('dispose', () => {
+    it('stops reporting after dispose', () => {
+      controller.update([branch(3), branch(5)], 5);
+      controller.dispose();
+
+      elements.select.value = '3';
+      elements.select.dispatchEvent(new Event('change'));
+      elements.showToggle!.dispatchEvent(new Event('change'));
+
+      expect(onSelect).not.toHaveBeenCalled();
+      expect(onToggleBranches).not.toHaveBeenCalled();
+    });
+
+    it('is safe to call twice', () => {
+      controller.dispose();
+      expect(() => controller.dispose()).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * BranchPickerController
+ *
+ * Lets the user choose which branch of a branching conversation is the main path:
+ * - Shown only when the conversation tree has more than one leaf
+ * - Lists one option per branch, labelled by where it diverges
+ * - Toggles rendering of abandoned branches as side spirals
+ */
+
+import type { ConversationBranch } from '../../core/tree';
+import { t } from '../../i18n';
+import { truncate } from '../panels';
+
+/** Maximum characters of branch preview text shown in an option */
+const PREVIEW_LENGTH = 40;
+
+/**
+ * DOM elements for BranchPickerController
+ */
+export interface BranchPickerControllerElements {
+  /** Container shown only when the conversation branches */
+  container: HTMLElement;
+  /** Select listing branches */
+  select: HTMLSelectElement;
+  /** Checkbox toggling side spirals for abandoned branches */
+  showToggle?: HTMLInputElement | null;
+}
+
+/**
+ * Configuration options for BranchPickerController
+ */
+export interface BranchPickerControllerOptions {
+  /** DOM elements */
+  elements: BranchPickerControllerElements;
+  /** Called with the leaf turn index when the user picks a different branch */
+  onSelect: (leafTurnIndex: number) => void;
+  /** Called when side spirals are toggled */
+  onToggleBranches?: (show: boolean) => void;
+}
+
+/**
+ * Build the option label for a branch
+ */
+export function formatBranchLabel(branch: ConversationBranch, index: number): string {
+  const label = t('branch.option', { number: index + 1, turns: branch.length });
+  if (!branch.preview) return label;
+  return `${label} · ${truncate(branch.preview.replace(/\s+/g, ' '), PREVIEW_LENGTH)}`;
+}
+
+export class BranchPickerController {
+  private elements: BranchPickerControllerElements;
+  private onSelect: (leafTurnIndex: number) => void;
+  private onToggleBranches?: (show: boolean) => void;
+  private currentLeaf: number | null = null;
+  private disposed = false;
+
+  // Bound handlers for cleanup
+  private boundHandleChange: () => void;
+  private boundHandleToggle: () => void;
+
+  constructor(options: BranchPickerControllerOptions) {
+    this.elements = options.elements;
+    this.onSelect = options.onSelect;
+    this.onToggleBranches = options.onToggleBranches;
+
+    this.boundHandleChange = this.handleChange.bind(this);
+    this.boundHandleToggle = this.handleToggle.bind(this);
+    this.elements.select.addEventListener('change', this.boundHandleChange);
+    this.elements.showToggle?.addEventListener('change', this.boundHandleToggle);
+  }
+
+  /**
+   * Handle select change - report the new branch
+   */
+  private handleChange(): void {
+    if (this.disposed) return;
+
+    const leaf = parseInt(this.elements.select.value, 10);
+    if (isNaN(leaf) || leaf === this.currentLeaf) return;
+
+    this.currentLeaf = leaf;
+    this.onSelect(leaf);
+  }
+
+  /**
+   * Handle side spiral toggle
+   */
+  private handleToggle(): void {
+    if (this.disposed || !this.elements.showToggle) return;
+    this.onToggleBranches?.(this.elements.showToggle.checked);
+  }
+
+  /**
+   * Update the picker from the conversation's branches.
+   * Hides the picker unless there is more than one branch.
+   */
+  public update(branches: ConversationBranch[], activeLeaf: number | null): void {
+    if (this.disposed) return;
+
+    if (branches.length < 2) {
+      this.hide();
+      return;
+    }
+
+    const { select, container } = this.elements;
+    select.innerHTML = '';
+    branches.forEach((branch, index) => {
+      const option = document.createElement('option');
+      option.value = String(branch.leafTurnIndex);
+      option.textContent = formatBranchLabel(branch, index);
+      if (branch.preview) option.title = branch.preview;
+      select.appendChild(option);
+    });
+
+    this.currentLeaf = activeLeaf;
+    if (activeLeaf !== null) select.value = String(activeLeaf);
+    container.title = t('toolbar.branchHint', { count: branches.length });
+    container.classList.add('visible');
+  }
+
+  /**
+   * Check if the picker is currently visible
+   */
+  public isVisible(): boolean {
+    return this.elements.container.classList.contains('visible');
+  }
+
+  /**
+   * Hide the picker
+   */
+  public hide(): void {
+    if (this.disposed) return;
+
+    this.elements.container.classList.remove('visible');
+    this.currentLeaf = null;
+  }
+
+  /**
+   * Dispose and cleanup
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.elements.select.removeEventListener('change', this.boundHandleChange);
+    this.elements.showToggle?.removeEventListener('change', this.boundHandleToggle);
+  }
+}
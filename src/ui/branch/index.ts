@@ -0,0 +1,9 @@
+/**
+ * Branch picker module
+ */
+
+export { BranchPickerController, formatBranchLabel } from './BranchPickerController';
+export type {
+  BranchPickerControllerElements,
+  BranchPickerControllerOptions,
+} from './BranchPickerController';
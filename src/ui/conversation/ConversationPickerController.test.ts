@@ -0,0 +1,94 @@
+/**
+ * Tests for ConversationPickerController
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ConversationPickerController,
+  formatConversationLabel,
+  type ConversationPickerControllerElements,
+} from './ConversationPickerController';
+
+function createMockElements(): ConversationPickerControllerElements {
+  const container = document.createElement('div');
+  const select = document.createElement('select');
+  container.appendChild(select);
+  return { container, select };
+}
+
+const conversations = [
+  { id: 'c1', title: 'Sorting help', updated_at: '2024-06-02T10:00:00.000Z' },
+  { id: 'c2', title: 'Math' },
+];
+
+describe('ConversationPickerController', () => {
+  let elements: ConversationPickerControllerElements;
+  let onSelect: ReturnType<typeof vi.fn>;
+  let controller: ConversationPickerController;
+
+  beforeEach(() => {
+    elements = createMockElements();
+    onSelect = vi.fn();
+    controller = new ConversationPickerController({ elements, onSelect });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  describe('update', () => {
+    it('stays hidden without several conversations', () => {
+      controller.update(undefined, null);
+      expect(controller.isVisible()).toBe(false);
+      controller.update([conversations[0]], 'c1');
+      expect(controller.isVisible()).toBe(false);
+    });
+
+    it('lists conversations and selects the current one', () => {
+      controller.update(conversations, 'c2');
+
+      expect(controller.isVisible()).toBe(true);
+      const options = Array.from(elements.select.options);
+      expect(options.map(o => o.value)).toEqual(['c1', 'c2']);
+      expect(options[0].textContent).toBe('2024-06-02 · Sorting help');
+      expect(elements.select.value).toBe('c2');
+    });
+
+    it('hides again for a file with one conversation', () => {
+      controller.update(conversations, 'c1');
+      controller.update(undefined, null);
+      expect(controller.isVisible()).toBe(false);
+    });
+  });
+
+  describe('selection', () => {
+    beforeEach(() => {
+      controller.update(conversations, 'c1');
+    });
+
+    it('reports a newly chosen conversation', () => {
+      elements.select.value = 'c2';
+      elements.select.dispatchEvent(new Event('change'));
+      expect(onSelect).toHaveBeenCalledWith('c2');
+    });
+
+    it('ignores re-selecting the current conversation', () => {
+      elements.select.value = 'c1';
+      elements.select.dispatchEvent(new Event('change'));
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('ignores changes after dispose', () => {
+      controller.dispose();
+      elements.select.value = 'c2';
+      elements.select.dispatchEvent(new Event('change'));
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('formatConversationLabel', () => {
+  it('uses the title alone without a date', () => {
+    expect(formatConversationLabel({ id: 'x', title: 'Line one\nline two' })).toBe('Line one line two');
+  });
+});
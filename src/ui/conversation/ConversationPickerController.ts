@@ -0,0 +1,130 @@
+/**
+ * ConversationPickerController
+ *
+ * Lets the user choose a conversation from a file that holds several
+ * (e.g. a ChatGPT conversations.json export):
+ * - Shown only when the parsed file lists more than one conversation
+ * - Lists one option per conversation, most recent first
+ * - Reports the chosen conversation so the file can be re-parsed with it
+ */
+
+import type { ConversationSummary } from '../../data/types';
+import { t } from '../../i18n';
+import { truncate } from '../panels';
+
+/** Maximum characters of a conversation title shown in an option */
+const TITLE_LENGTH = 50;
+
+/**
+ * DOM elements for ConversationPickerController
+ */
+export interface ConversationPickerControllerElements {
+  /** Container shown only when the file holds several conversations */
+  container: HTMLElement;
+  /** Select listing conversations */
+  select: HTMLSelectElement;
+}
+
+/**
+ * Configuration options for ConversationPickerController
+ */
+export interface ConversationPickerControllerOptions {
+  /** DOM elements */
+  elements: ConversationPickerControllerElements;
+  /** Called with the conversation id when the user picks a different conversation */
+  onSelect: (conversationId: string) => void;
+}
+
+/**
+ * Build the option label for a conversation
+ */
+export function formatConversationLabel(conversation: ConversationSummary): string {
+  const title = truncate(conversation.title.replace(/\s+/g, ' '), TITLE_LENGTH);
+  return conversation.updated_at ? `${conversation.updated_at.slice(0, 10)} · ${title}` : title;
+}
+
+export class ConversationPickerController {
+  private elements: ConversationPickerControllerElements;
+  private onSelect: (conversationId: string) => void;
+  private currentId: string | null = null;
+  private disposed = false;
+
+  // Bound handlers for cleanup
+  private boundHandleChange: () => void;
+
+  constructor(options: ConversationPickerControllerOptions) {
+    this.elements = options.elements;
+    this.onSelect = options.onSelect;
+
+    this.boundHandleChange = this.handleChange.bind(this);
+    this.elements.select.addEventListener('change', this.boundHandleChange);
+  }
+
+  /**
+   * Handle select change - report the new conversation
+   */
+  private handleChange(): void {
+    if (this.disposed) return;
+
+    const conversationId = this.elements.select.value;
+    if (!conversationId || conversationId === this.currentId) return;
+
+    this.currentId = conversationId;
+    this.onSelect(conversationId);
+  }
+
+  /**
+   * Update the picker from the conversations in the loaded file.
+   * Hides the picker unless there is more than one conversation.
+   */
+  public update(conversations: ConversationSummary[] | undefined, currentId: string | null): void {
+    if (this.disposed) return;
+
+    if (!conversations || conversations.length < 2) {
+      this.hide();
+      return;
+    }
+
+    const { select, container } = this.elements;
+    select.innerHTML = '';
+    for (const conversation of conversations) {
+      const option = document.createElement('option');
+      option.value = conversation.id;
+      option.textContent = formatConversationLabel(conversation);
+      option.title = conversation.title;
+      select.appendChild(option);
+    }
+
+    this.currentId = currentId;
+    if (currentId !== null) select.value = currentId;
+    container.title = t('toolbar.conversationHint', { count: conversations.length });
+    container.classList.add('visible');
+  }
+
+  /**
+   * Check if the picker is currently visible
+   */
+  public isVisible(): boolean {
+    return this.elements.container.classList.contains('visible');
+  }
+
+  /**
+   * Hide the picker
+   */
+  public hide(): void {
+    if (this.disposed) return;
+
+    this.elements.container.classList.remove('visible');
+    this.currentId = null;
+  }
+
+  /**
+   * Dispose and cleanup
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.elements.select.removeEventListener('change', this.boundHandleChange);
+  }
+}
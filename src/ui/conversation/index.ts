@@ -0,0 +1,9 @@
+/**
+ * Conversation picker module
+ */
+
+export { ConversationPickerController, formatConversationLabel } from './ConversationPickerController';
+export type {
+  ConversationPickerControllerElements,
+  ConversationPickerControllerOptions,
+} from './ConversationPickerController';
@@ -13,11 +13,12 @@ import {
 vi.mock('../../export', () => ({
   exportAsHtml: vi.fn(() => '<html>exported</html>'),
   exportAsMarkdown: vi.fn(() => '# Exported'),
+  exportAsTracerJson: vi.fn(() => '{"format":"thinking-tracer"}'),
   downloadFile: vi.fn(),
   getSafeFilename: vi.fn((name: string) => name.replace(/[^a-z0-9]/gi, '_')),
 }));
 
-import { exportAsHtml, exportAsMarkdown, downloadFile, getSafeFilename } from '../../export';
+import { exportAsHtml, exportAsMarkdown, exportAsTracerJson, downloadFile, getSafeFilename } from '../../export';
 
 function createMockElements(): ExportControllerElements {
   const exportBtn = document.createElement('button');
@@ -38,6 +39,11 @@ function createMockElements(): ExportControllerElements {
   mdOption.textContent = 'Markdown';
   menu.appendChild(mdOption);
 
+  const jsonOption = document.createElement('button');
+  jsonOption.dataset.format = 'thinking-tracer';
+  jsonOption.textContent = 'thinking-tracer JSON';
+  menu.appendChild(jsonOption);
+
   return {
     exportBtn,
     dropdown,
@@ -65,6 +71,7 @@ function createMockDataProvider(): ExportDataProvider {
     ]),
     getConversationTitle: vi.fn(() => 'Test Conversation'),
     getSourceId: vi.fn(() => 'claude-code'),
+    getConversation: vi.fn(() => ({ meta: { source: 'claude-code' }, turns: [] })),
   };
 }
 
@@ -175,6 +182,34 @@ describe('ExportController', () => {
       );
     });
 
+    it('exports the loaded conversation as thinking-tracer JSON', () => {
+      controller = new ExportController({ elements, dataProvider });
+
+      const jsonOption = elements.menu?.querySelector('[data-format="thinking-tracer"]') as HTMLElement;
+      jsonOption.click();
+
+      expect(exportAsTracerJson).toHaveBeenCalledWith({ meta: { source: 'claude-code' }, turns: [] });
+      expect(downloadFile).toHaveBeenCalledWith(
+        '{"format":"thinking-tracer"}',
+        'Test_Conversation.thinking-tracer.json',
+        'application/json'
+      );
+    });
+
+    it('skips the thinking-tracer export when no conversation is loaded', () => {
+      const providerWithoutConversation: ExportDataProvider = {
+        ...createMockDataProvider(),
+        getConversation: vi.fn(() => null),
+      };
+      controller = new ExportController({ elements, dataProvider: providerWithoutConversation });
+
+      const jsonOption = elements.menu?.querySelector('[data-format="thinking-tracer"]') as HTMLElement;
+      jsonOption.click();
+
+      expect(exportAsTracerJson).not.toHaveBeenCalled();
+      expect(downloadFile).not.toHaveBeenCalled();
+    });
+
     it('closes dropdown after export', () => {
       controller = new ExportController({ elements, dataProvider });
 
@@ -192,6 +227,7 @@ describe('ExportController', () => {
         getSearchableContent: vi.fn(() => []),
         getConversationTitle: vi.fn(() => undefined),
         getSourceId: vi.fn(() => undefined),
+        getConversation: vi.fn(() => null),
       };
       controller = new ExportController({ elements, dataProvider: providerWithNoTitle });
 
@@ -4,16 +4,18 @@
  * Manages export dropdown and export actions including:
  * - Dropdown toggle on button click
  * - Close dropdown when clicking outside
- * - Handle export format selection (HTML, Markdown)
+ * - Handle export format selection (HTML, Markdown, thinking-tracer JSON)
  */
 
 import {
   exportAsHtml,
   exportAsMarkdown,
+  exportAsTracerJson,
   downloadFile,
   getSafeFilename,
 } from '../../export';
 import type { SearchableCluster } from '../types';
+import type { Conversation } from '../../data/types';
 
 /**
  * Interface for getting export data from the viewer
@@ -25,6 +27,8 @@ export interface ExportDataProvider {
   getConversationTitle(): string | undefined;
   /** Get source ID (e.g., 'claude-code') */
   getSourceId(): string | undefined;
+  /** Get the loaded conversation (for the interchange format) */
+  getConversation(): Conversation | null;
 }
 
 /**
@@ -142,6 +146,11 @@ export class ExportController {
     } else if (format === 'markdown') {
       const md = exportAsMarkdown(clusters, title, sourceId);
       downloadFile(md, `${safeFilename}.md`, 'text/markdown');
+    } else if (format === 'thinking-tracer') {
+      const conversation = this.dataProvider.getConversation();
+      if (!conversation) return;
+      const json = exportAsTracerJson(conversation);
+      downloadFile(json, `${safeFilename}.thinking-tracer.json`, 'application/json');
     }
   }
 
@@ -13,12 +13,17 @@ export {
 } from './panels';
 export { ConversationPanel } from './panels';
 export { CoilControlsPanel } from './panels';
+export { DiagnosticsPanel } from './panels';
+export { GalleryPanel } from './panels';
 export { formatMetricValue } from './panels/MetricsPanel';
 
 export type {
   MetricKey,
   ClusterMetrics,
+  AgentMetrics,
+  CompactionMarker,
   ViewerInterface,
+  MetricsViewer,
   MetricsPanelElements,
   SearchableCluster,
   Selection,
@@ -27,7 +32,9 @@ export type {
 export type { DetailPanelElements } from './panels/DetailPanel';
 export type { WordFrequencyPanelElements, WordFrequencySource } from './panels/WordFrequencyPanel';
 export type { ConversationPanelElements, ConversationFilterState } from './panels/ConversationPanel';
-export type { CoilControlsPanelElements, CoilControllableViewer, CoilParams } from './panels';
+export type { CoilControlsPanelElements, CoilControllableViewer, CoilParams, LayoutMode } from './panels';
+export type { DiagnosticsPanelElements, DiagnosticsViewer } from './panels';
+export type { GalleryPanelElements, GalleryViewer } from './panels';
 
 // Loaders
 export { FileLoader, RecentTracesManager } from './loaders';
@@ -59,6 +66,22 @@ export type { SidebarControllerElements, SidebarControllerOptions } from './side
 export { ExportController } from './export';
 export type { ExportControllerElements, ExportControllerOptions, ExportDataProvider } from './export';
 
+// Source picker
+export { SourcePickerController } from './source';
+export type { SourcePickerControllerElements, SourcePickerControllerOptions } from './source';
+
+// Conversation picker
+export { ConversationPickerController, formatConversationLabel } from './conversation';
+export type { ConversationPickerControllerElements, ConversationPickerControllerOptions } from './conversation';
+
+// Branch picker
+export { BranchPickerController, formatBranchLabel } from './branch';
+export type { BranchPickerControllerElements, BranchPickerControllerOptions } from './branch';
+
 // Split pane
 export { SplitPaneController } from './split';
 export type { SplitPaneControllerElements, SplitPaneControllerOptions } from './split';
+
+// Image lightbox
+export { LightboxController } from './lightbox';
+export type { LightboxControllerElements, LightboxControllerOptions } from './lightbox';
@@ -0,0 +1,80 @@
+/**
+ * Tests for LightboxController
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LightboxController, type LightboxControllerElements } from './LightboxController';
+
+function createMockElements(): LightboxControllerElements {
+  const overlay = document.createElement('div');
+  overlay.className = 'hidden';
+  const image = document.createElement('img');
+  const caption = document.createElement('div');
+  const closeButton = document.createElement('button');
+  overlay.append(closeButton, image, caption);
+  document.body.appendChild(overlay);
+  return { overlay, image, caption, closeButton };
+}
+
+describe('LightboxController', () => {
+  let controller: LightboxController;
+  let elements: LightboxControllerElements;
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    elements = createMockElements();
+    container = document.createElement('div');
+    container.innerHTML = '<img class="image-thumb" src="https://example.com/a.png" alt="Screenshot"><span class="other">text</span>';
+    document.body.appendChild(container);
+    controller = new LightboxController({ elements, containers: [container] });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+    elements.overlay.remove();
+    container.remove();
+  });
+
+  it('opens a clicked thumbnail with its caption', () => {
+    (container.querySelector('.image-thumb') as HTMLElement).click();
+
+    expect(controller.isOpen()).toBe(true);
+    expect(elements.image.src).toBe('https://example.com/a.png');
+    expect(elements.caption!.textContent).toBe('Screenshot');
+  });
+
+  it('keeps the thumbnail click from reaching outer handlers', () => {
+    let outerClicks = 0;
+    document.body.addEventListener('click', () => outerClicks++, { once: true });
+    (container.querySelector('.image-thumb') as HTMLElement).click();
+    expect(outerClicks).toBe(0);
+  });
+
+  it('ignores clicks elsewhere in the container', () => {
+    (container.querySelector('.other') as HTMLElement).click();
+    expect(controller.isOpen()).toBe(false);
+  });
+
+  it('closes on Escape, the close button and the backdrop but not the image', () => {
+    controller.open('https://example.com/a.png');
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(controller.isOpen()).toBe(false);
+    expect(elements.image.hasAttribute('src')).toBe(false);
+
+    controller.open('https://example.com/a.png');
+    elements.closeButton!.click();
+    expect(controller.isOpen()).toBe(false);
+
+    controller.open('https://example.com/a.png');
+    elements.image.click();
+    expect(controller.isOpen()).toBe(true);
+    elements.overlay.click();
+    expect(controller.isOpen()).toBe(false);
+  });
+
+  it('stops listening after dispose', () => {
+    controller.dispose();
+    (container.querySelector('.image-thumb') as HTMLElement).click();
+    expect(controller.isOpen()).toBe(false);
+  });
+});
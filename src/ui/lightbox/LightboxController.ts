@@ -0,0 +1,126 @@
+/**
+ * LightboxController
+ *
+ * Shows images full size over the page:
+ * - Opens when an .image-thumb inside one of the watched containers is clicked
+ * - Closes on the close button, a click outside the image, or Escape
+ */
+
+/**
+ * DOM elements for LightboxController
+ */
+export interface LightboxControllerElements {
+  /** Overlay shown while an image is open */
+  overlay: HTMLElement;
+  /** Full-size image */
+  image: HTMLImageElement;
+  /** Caption under the image (alt text) */
+  caption?: HTMLElement | null;
+  closeButton?: HTMLElement | null;
+}
+
+/**
+ * Configuration options for LightboxController
+ */
+export interface LightboxControllerOptions {
+  /** DOM elements */
+  elements: LightboxControllerElements;
+  /** Containers whose thumbnails open in the lightbox */
+  containers: HTMLElement[];
+}
+
+export class LightboxController {
+  private elements: LightboxControllerElements;
+  private containers: HTMLElement[];
+  private disposed = false;
+
+  // Bound handlers for cleanup
+  private boundHandleThumbnailClick: (e: Event) => void;
+  private boundHandleOverlayClick: (e: Event) => void;
+  private boundHandleKeyDown: (e: KeyboardEvent) => void;
+  private boundClose: () => void;
+
+  constructor(options: LightboxControllerOptions) {
+    this.elements = options.elements;
+    this.containers = options.containers;
+
+    this.boundHandleThumbnailClick = this.handleThumbnailClick.bind(this);
+    this.boundHandleOverlayClick = this.handleOverlayClick.bind(this);
+    this.boundHandleKeyDown = this.handleKeyDown.bind(this);
+    this.boundClose = this.close.bind(this);
+
+    for (const container of this.containers) {
+      container.addEventListener('click', this.boundHandleThumbnailClick);
+    }
+    this.elements.overlay.addEventListener('click', this.boundHandleOverlayClick);
+    this.elements.closeButton?.addEventListener('click', this.boundClose);
+    document.addEventListener('keydown', this.boundHandleKeyDown);
+  }
+
+  /**
+   * Open the thumbnail that was clicked
+   */
+  private handleThumbnailClick(e: Event): void {
+    const thumb = (e.target as HTMLElement).closest<HTMLImageElement>('img.image-thumb');
+    if (!thumb) return;
+
+    // Keep the click from toggling the section the thumbnail sits in
+    e.stopPropagation();
+    this.open(thumb.src, thumb.alt);
+  }
+
+  /**
+   * Close when clicking the backdrop rather than the image
+   */
+  private handleOverlayClick(e: Event): void {
+    if (e.target === this.elements.overlay) this.close();
+  }
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape' && this.isOpen()) {
+      this.close();
+    }
+  }
+
+  /**
+   * Show an image in the lightbox
+   */
+  public open(src: string, caption = ''): void {
+    if (this.disposed) return;
+
+    this.elements.image.src = src;
+    this.elements.image.alt = caption;
+    if (this.elements.caption) {
+      this.elements.caption.textContent = caption;
+    }
+    this.elements.overlay.classList.remove('hidden');
+  }
+
+  /**
+   * Hide the lightbox and release the image
+   */
+  public close(): void {
+    this.elements.overlay.classList.add('hidden');
+    this.elements.image.removeAttribute('src');
+  }
+
+  public isOpen(): boolean {
+    return !this.elements.overlay.classList.contains('hidden');
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    for (const container of this.containers) {
+      container.removeEventListener('click', this.boundHandleThumbnailClick);
+    }
+    this.elements.overlay.removeEventListener('click', this.boundHandleOverlayClick);
+    this.elements.closeButton?.removeEventListener('click', this.boundClose);
+    document.removeEventListener('keydown', this.boundHandleKeyDown);
+    this.close();
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Image lightbox module
+ */
+
+export { LightboxController } from './LightboxController';
+export type { LightboxControllerElements, LightboxControllerOptions } from './LightboxController';
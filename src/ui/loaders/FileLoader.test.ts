@@ -127,6 +127,178 @@ describe('FileLoader', () => {
     });
   });
 
+  describe('folder select button', () => {
+    it('triggers folder input click on button click', () => {
+      const folderInput = document.createElement('input');
+      const folderSelectBtn = document.createElement('button');
+      const loader = new FileLoader({
+        fileInput,
+        fileSelectBtn,
+        folderInput,
+        folderSelectBtn,
+        trySampleBtn: null,
+        watchToggle: null,
+        dropOverlay: null,
+        onLoad: onLoadMock,
+      });
+
+      const clickSpy = vi.spyOn(folderInput, 'click');
+      folderSelectBtn.click();
+
+      expect(clickSpy).toHaveBeenCalled();
+      loader.dispose();
+    });
+  });
+
+  describe('loadFiles', () => {
+    const line = (record: object) => JSON.stringify(record);
+
+    // jsdom's File has no text()
+    function file(content: string, name: string, lastModified = 0): File {
+      return Object.assign(new File([content], name, { lastModified }), { text: () => Promise.resolve(content) });
+    }
+
+    function createLoader(): FileLoader {
+      return new FileLoader({
+        fileInput: null,
+        fileSelectBtn: null,
+        trySampleBtn: null,
+        watchToggle: null,
+        dropOverlay: null,
+        onLoad: onLoadMock,
+        onError: onErrorMock,
+      });
+    }
+
+    it('loads a single file as is', async () => {
+      const loader = createLoader();
+      await loader.loadFiles([file('{"a":1}', 'trace.json')]);
+
+      expect(onLoadMock).toHaveBeenCalledWith('{"a":1}', 'trace.json');
+      loader.dispose();
+    });
+
+    it('merges the newest main session with its agent files', async () => {
+      const loader = createLoader();
+      await loader.loadFiles([
+        file(line({ type: 'user', sessionId: 's1' }), 'agent-abc.jsonl'),
+        file(line({ type: 'user', sessionId: 'old' }), 'old.jsonl', 1),
+        file(line({ type: 'user', sessionId: 's1' }), 's1.jsonl', 2),
+      ]);
+
+      const [content, filename] = onLoadMock.mock.calls[0];
+      expect(filename).toBe('s1.jsonl');
+      expect(content.trim().split('\n')).toHaveLength(2);
+      expect(content).toContain('"agentId":"abc"');
+      expect(content).not.toContain('"old"');
+      loader.dispose();
+    });
+
+    it('tells the user which files were left out', async () => {
+      const onNotice = vi.fn();
+      const loader = new FileLoader({
+        fileInput: null,
+        fileSelectBtn: null,
+        trySampleBtn: null,
+        watchToggle: null,
+        dropOverlay: null,
+        onLoad: onLoadMock,
+        onNotice,
+      });
+      const readOld = vi.fn(() => Promise.resolve(line({ sessionId: 'old' })));
+      const old = Object.assign(new File([], 'old.jsonl.gz', { lastModified: 1 }), { text: readOld });
+      await loader.loadFiles([
+        file(line({ type: 'user', sessionId: 'other' }), 'agent-abc.jsonl'),
+        old,
+        file(line({ type: 'user', sessionId: 's1' }), 's1.jsonl', 2),
+      ]);
+
+      expect(onLoadMock).toHaveBeenCalledTimes(1);
+      expect(readOld).not.toHaveBeenCalled();
+      expect(onNotice).toHaveBeenCalledWith('toast.ignoredFiles');
+      loader.dispose();
+    });
+
+    it('merges a Cline task folder into one document', async () => {
+      const loader = createLoader();
+      await loader.loadFiles([
+        file('{"files_in_context":[]}', 'task_metadata.json'),
+        file('[{"ts":1,"type":"say","say":"task","text":"hi"}]', 'ui_messages.json'),
+        file('[{"role":"user","content":"hi"}]', 'api_conversation_history.json'),
+      ]);
+
+      const [content, filename] = onLoadMock.mock.calls[0];
+      expect(filename).toBe('api_conversation_history.json');
+      expect(JSON.parse(content)).toMatchObject({
+        apiConversationHistory: [{ role: 'user', content: 'hi' }],
+        uiMessages: [{ say: 'task' }],
+      });
+      loader.dispose();
+    });
+
+    it('pairs the API history with the UI log of its own task folder', async () => {
+      const inFolder = (folderFile: File, path: string) =>
+        Object.defineProperty(folderFile, 'webkitRelativePath', { value: path });
+      const loader = createLoader();
+      await loader.loadFiles([
+        inFolder(file('[{"ts":1,"type":"say","say":"task","text":"old"}]', 'ui_messages.json', 3), 'task-1/ui_messages.json'),
+        inFolder(file('[{"role":"user","content":"old"}]', 'api_conversation_history.json', 1), 'task-1/api_conversation_history.json'),
+        inFolder(file('[{"role":"user","content":"new"}]', 'api_conversation_history.json', 2), 'task-2/api_conversation_history.json'),
+        inFolder(file('[{"ts":2,"type":"say","say":"task","text":"new"}]', 'ui_messages.json', 2), 'task-2/ui_messages.json'),
+      ]);
+
+      expect(JSON.parse(onLoadMock.mock.calls[0][0])).toMatchObject({
+        taskId: 'task-2',
+        apiConversationHistory: [{ content: 'new' }],
+        uiMessages: [{ text: 'new' }],
+      });
+      loader.dispose();
+    });
+
+    it('reports an error for a task folder without its API history', async () => {
+      const loader = createLoader();
+      await loader.loadFiles([
+        file('{}', 'task_metadata.json'),
+        file('[]', 'ui_messages.json'),
+      ]);
+
+      expect(onLoadMock).not.toHaveBeenCalled();
+      expect(onErrorMock).toHaveBeenCalledWith(new Error('toast.noTaskHistory'));
+      loader.dispose();
+    });
+
+    it('reports an error when only agent files are given', async () => {
+      const loader = createLoader();
+      await loader.loadFiles([
+        file('{}', 'agent-a.jsonl'),
+        file('{}', 'agent-b.jsonl'),
+      ]);
+
+      expect(onLoadMock).not.toHaveBeenCalled();
+      expect(onErrorMock).toHaveBeenCalledWith(new Error('toast.noMainSession'));
+      loader.dispose();
+    });
+
+    it('hands a single file to onLoadFile unread', async () => {
+      const onLoadFile = vi.fn().mockResolvedValue(undefined);
+      const loader = new FileLoader({
+        fileInput: null,
+        fileSelectBtn: null,
+        trySampleBtn: null,
+        watchToggle: null,
+        dropOverlay: null,
+        onLoad: onLoadMock,
+        onLoadFile,
+      });
+      const trace = new File(['{}'], 'trace.jsonl.gz');
+      await loader.loadFiles([trace]);
+
+      expect(onLoadFile).toHaveBeenCalledWith(trace, 'trace.jsonl');
+      expect(onLoadMock).not.toHaveBeenCalled();
+      loader.dispose();
+    });
+  });
+
   describe('isWatching', () => {
     it('returns false initially', () => {
       const loader = new FileLoader({
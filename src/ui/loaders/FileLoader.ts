@@ -9,6 +9,8 @@ import {
   decompressZstdBuffer,
   FileWatcher,
 } from '../../utils/file-drop';
+import { bundleSessionFiles, isAgentFile, type TraceFile } from '../../utils/session-bundle';
+import { bundleClineTask, isClineTaskFile } from '../../utils/task-bundle';
 import { t } from '../../i18n';
 
 /**
@@ -16,6 +18,17 @@ import { t } from '../../i18n';
  */
 export type FileLoadCallback = (content: string, filename: string, skipSave?: boolean, customName?: string) => Promise<void>;
 
+/**
+ * Callback for a single file to load unread (it may still be compressed)
+ */
+export type FileSourceCallback = (file: File, filename: string, customName?: string) => Promise<void>;
+
+/**
+ * Callback for lines appended to a watched file.
+ * Returns false if they can't be appended, in which case the whole file is reloaded.
+ */
+export type FileAppendCallback = (text: string, filename: string) => boolean;
+
 /**
  * Options for FileLoader
  */
@@ -24,6 +37,10 @@ export interface FileLoaderOptions {
   fileInput: HTMLInputElement | null;
   /** File select button */
   fileSelectBtn: HTMLElement | null;
+  /** Folder input element (webkitdirectory) */
+  folderInput?: HTMLInputElement | null;
+  /** Folder select button */
+  folderSelectBtn?: HTMLElement | null;
   /** Try sample button */
   trySampleBtn: HTMLElement | null;
   /** Watch toggle button */
@@ -32,8 +49,33 @@ export interface FileLoaderOptions {
   dropOverlay: HTMLElement | null;
   /** Callback when file is loaded */
   onLoad: FileLoadCallback;
+  /**
+   * Callback for single files, which are then read by the callback
+   * (e.g. in a worker). Without it files are read here and passed to onLoad.
+   */
+  onLoadFile?: FileSourceCallback;
+  /** Callback for lines appended to the watched file; without it every change reloads the file */
+  onAppend?: FileAppendCallback;
+  /** Callback when watching starts or stops */
+  onWatchChange?: (watching: boolean) => void;
   /** Callback for errors */
   onError?: (error: Error) => void;
+  /** Callback for notices about a load that went ahead, such as files left out */
+  onNotice?: (message: string) => void;
+}
+
+/**
+ * Strip compression extensions from a file name (.jsonl.gz -> .jsonl)
+ */
+function stripCompression(name: string): string {
+  return name.replace(/\.(gz|zstd|zst)$/i, '');
+}
+
+/**
+ * Check whether a file name looks like a trace (.json/.jsonl, optionally compressed)
+ */
+function isTraceFileName(name: string): boolean {
+  return /\.jsonl?$/i.test(stripCompression(name));
 }
 
 /**
@@ -42,17 +84,25 @@ export interface FileLoaderOptions {
 export class FileLoader {
   private fileInput: HTMLInputElement | null;
   private fileSelectBtn: HTMLElement | null;
+  private folderInput: HTMLInputElement | null;
+  private folderSelectBtn: HTMLElement | null;
   private trySampleBtn: HTMLElement | null;
   private watchToggle: HTMLElement | null;
   private dropOverlay: HTMLElement | null;
   private onLoad: FileLoadCallback;
+  private onLoadFile: FileSourceCallback | null;
+  private onAppend: FileAppendCallback | null;
+  private onWatchChange: ((watching: boolean) => void) | null;
   private onError: (error: Error) => void;
+  private onNotice: (message: string) => void;
   private fileWatcher: FileWatcher | null = null;
   private disposed = false;
 
   // Bound event handlers for cleanup
   private boundHandleFileSelectClick: () => void;
   private boundHandleFileInputChange: () => void;
+  private boundHandleFolderSelectClick: () => void;
+  private boundHandleFolderInputChange: () => void;
   private boundHandleWatchClick: () => void;
   private boundHandleTrySampleClick: () => void;
 
@@ -62,15 +112,23 @@ export class FileLoader {
   constructor(options: FileLoaderOptions) {
     this.fileInput = options.fileInput;
     this.fileSelectBtn = options.fileSelectBtn;
+    this.folderInput = options.folderInput ?? null;
+    this.folderSelectBtn = options.folderSelectBtn ?? null;
     this.trySampleBtn = options.trySampleBtn;
     this.watchToggle = options.watchToggle;
     this.dropOverlay = options.dropOverlay;
     this.onLoad = options.onLoad;
+    this.onLoadFile = options.onLoadFile ?? null;
+    this.onAppend = options.onAppend ?? null;
+    this.onWatchChange = options.onWatchChange ?? null;
     this.onError = options.onError || ((err) => console.error(err));
+    this.onNotice = options.onNotice || ((message) => console.warn(message));
 
     // Bind handlers
     this.boundHandleFileSelectClick = this.handleFileSelectClick.bind(this);
     this.boundHandleFileInputChange = this.handleFileInputChange.bind(this);
+    this.boundHandleFolderSelectClick = this.handleFolderSelectClick.bind(this);
+    this.boundHandleFolderInputChange = this.handleFolderInputChange.bind(this);
     this.boundHandleWatchClick = this.handleWatchClick.bind(this);
     this.boundHandleTrySampleClick = this.handleTrySampleClick.bind(this);
 
@@ -84,6 +142,8 @@ export class FileLoader {
   private attachListeners(): void {
     this.fileSelectBtn?.addEventListener('click', this.boundHandleFileSelectClick);
     this.fileInput?.addEventListener('change', this.boundHandleFileInputChange);
+    this.folderSelectBtn?.addEventListener('click', this.boundHandleFolderSelectClick);
+    this.folderInput?.addEventListener('change', this.boundHandleFolderInputChange);
 
     // Only add watch listener if API is supported
     if (this.watchToggle && FileWatcher.isSupported()) {
@@ -102,6 +162,8 @@ export class FileLoader {
   private detachListeners(): void {
     this.fileSelectBtn?.removeEventListener('click', this.boundHandleFileSelectClick);
     this.fileInput?.removeEventListener('change', this.boundHandleFileInputChange);
+    this.folderSelectBtn?.removeEventListener('click', this.boundHandleFolderSelectClick);
+    this.folderInput?.removeEventListener('change', this.boundHandleFolderInputChange);
     this.watchToggle?.removeEventListener('click', this.boundHandleWatchClick);
     this.trySampleBtn?.removeEventListener('click', this.boundHandleTrySampleClick);
   }
@@ -119,21 +181,117 @@ export class FileLoader {
   private async handleFileInputChange(): Promise<void> {
     if (this.disposed) return;
 
-    const file = this.fileInput?.files?.[0];
-    if (!file) return;
+    const files = Array.from(this.fileInput?.files ?? []);
+    if (files.length === 0) return;
+
+    await this.loadFiles(files);
+
+    // Reset input so the same file can be selected again
+    if (this.fileInput) {
+      this.fileInput.value = '';
+    }
+  }
+
+  /**
+   * Handle folder select button click
+   */
+  private handleFolderSelectClick(): void {
+    this.folderInput?.click();
+  }
+
+  /**
+   * Handle folder input change
+   */
+  private async handleFolderInputChange(): Promise<void> {
+    if (this.disposed) return;
+
+    const files = Array.from(this.folderInput?.files ?? []).filter(file => isTraceFileName(file.name));
+    if (files.length === 0) {
+      if (this.folderInput?.files?.length) this.onError(new Error(t('toast.noTraceFiles')));
+      return;
+    }
+
+    await this.loadFiles(files);
+
+    if (this.folderInput) {
+      this.folderInput.value = '';
+    }
+  }
+
+  /**
+   * Load one or more files. Several files are treated as a Cline task
+   * folder when they hold its history files, and otherwise as a Claude Code
+   * session bundle: the newest main session merged with its agent files.
+   */
+  public async loadFiles(files: File[]): Promise<void> {
+    if (this.disposed || files.length === 0) return;
 
     try {
-      const { content, displayName } = await this.readFile(file);
-      await this.onLoad(content, displayName);
+      if (files.length === 1 && this.onLoadFile) {
+        await this.onLoadFile(files[0], stripCompression(files[0].name));
+        return;
+      }
+      if (files.length === 1) {
+        const { content, displayName } = await this.readFile(files[0]);
+        await this.onLoad(content, displayName);
+        return;
+      }
+
+      const taskFiles = files.filter(file => isClineTaskFile(stripCompression(file.name)));
+      if (taskFiles.length > 0) {
+        await this.loadClineTask(taskFiles);
+        return;
+      }
+
+      // Only the newest main session is read; other sessions in a folder are skipped and reported
+      const mainFiles = files.filter(file => !isAgentFile(stripCompression(file.name)));
+      const main = mainFiles.reduce<File | null>(
+        (newest, file) => (!newest || file.lastModified > newest.lastModified ? file : newest),
+        null
+      );
+      if (!main) {
+        throw new Error(t('toast.noMainSession'));
+      }
+
+      const traceFiles: TraceFile[] = [];
+      for (const file of [main, ...files.filter(f => !mainFiles.includes(f))]) {
+        const { content, displayName } = await this.readFile(file);
+        traceFiles.push({ name: displayName, content, lastModified: file.lastModified });
+      }
+
+      const bundle = bundleSessionFiles(traceFiles)!;
+      await this.onLoad(bundle.content, bundle.filename);
+
+      const ignored = [
+        ...mainFiles.filter(file => file !== main).map(file => stripCompression(file.name)),
+        ...bundle.ignoredFiles,
+      ];
+      if (ignored.length > 0) {
+        this.onNotice(t('toast.ignoredFiles', { files: ignored.sort().join(', ') }));
+      }
     } catch (error) {
       console.error('Failed to read file:', error);
       this.onError(error instanceof Error ? error : new Error(String(error)));
     }
+  }
 
-    // Reset input so the same file can be selected again
-    if (this.fileInput) {
-      this.fileInput.value = '';
+  /**
+   * Load a Cline task folder: its API history merged with its UI log
+   */
+  private async loadClineTask(files: File[]): Promise<void> {
+    const traceFiles: TraceFile[] = [];
+    for (const file of files) {
+      const { content, displayName } = await this.readFile(file);
+      // Folder selections keep the task folder in the path, which names the task
+      const name = file.webkitRelativePath ? stripCompression(file.webkitRelativePath) : displayName;
+      traceFiles.push({ name, content, lastModified: file.lastModified });
+    }
+
+    const task = bundleClineTask(traceFiles);
+    if (!task) {
+      throw new Error(t('toast.noTaskHistory'));
     }
+    await this.onLoad(task.content, task.filename);
   }
 
   /**
@@ -150,12 +308,14 @@ export class FileLoader {
     }
 
     // Create new watcher
+    const onAppend = this.onAppend;
     this.fileWatcher = new FileWatcher({
       onChange: async (content, filename) => {
         if (this.disposed) return;
         await this.onLoad(content, filename, false);
         this.showWatchNotification(t('watch.fileUpdated'));
       },
+      onAppend: onAppend ? (text, filename) => !this.disposed && onAppend(text, filename) : undefined,
       onError: (error) => {
         if (this.disposed) return;
         console.error('Watch error:', error);
@@ -209,6 +369,8 @@ export class FileLoader {
       overlay: this.dropOverlay ?? undefined,
       accept: ['.json', '.jsonl'],
       onDrop: (content, filename) => this.onLoad(content, filename),
+      onDropFile: this.onLoadFile ?? undefined,
+      onDropFiles: (files) => this.loadFiles(files),
       onError: (error) => {
         console.error('File drop error:', error);
         this.onError(error);
@@ -264,6 +426,7 @@ export class FileLoader {
    * Update watch button visual state
    */
   private updateWatchButtonState(): void {
+    this.onWatchChange?.(this.isWatching());
     if (!this.watchToggle) return;
 
     if (this.fileWatcher?.isWatching()) {
@@ -322,6 +485,12 @@ export class FileLoader {
       throw new Error(`Failed to fetch: ${response.status}`);
     }
 
+    if (this.onLoadFile) {
+      const file = new File([await response.blob()], filename);
+      await this.onLoadFile(file, filename, customName);
+      return;
+    }
+
     const name = filename.toLowerCase();
     let content: string;
 
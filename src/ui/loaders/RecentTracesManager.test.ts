@@ -12,13 +12,14 @@ vi.mock('../../utils/recent-traces', () => ({
   deleteRecentTrace: vi.fn().mockResolvedValue(undefined),
   clearRecentTraces: vi.fn().mockResolvedValue(undefined),
   updateTraceCustomName: vi.fn().mockResolvedValue(undefined),
+  updateTraceSourceId: vi.fn().mockResolvedValue(undefined),
   updateTraceUIState: vi.fn().mockResolvedValue(undefined),
   formatSize: vi.fn((size: number) => `${size} bytes`),
   formatRelativeTime: vi.fn(() => 'just now'),
 }));
 
-// Mock the export module
-vi.mock('../../export', () => ({
+// Mock the HTML helpers
+vi.mock('../../utils/html', () => ({
   escapeHtml: vi.fn((str: string) => str),
 }));
 
@@ -29,6 +30,7 @@ import {
   clearRecentTraces,
   saveRecentTrace,
   updateTraceCustomName,
+  updateTraceSourceId,
   updateTraceUIState,
 } from '../../utils/recent-traces';
 
@@ -305,7 +307,7 @@ describe('RecentTracesManager', () => {
 
       await manager.saveTrace('file.jsonl', 'Title', 5, '{"content": true}');
 
-      expect(saveRecentTrace).toHaveBeenCalledWith('file.jsonl', 'Title', 5, '{"content": true}');
+      expect(saveRecentTrace).toHaveBeenCalledWith('file.jsonl', 'Title', 5, '{"content": true}', undefined);
       manager.dispose();
     });
 
@@ -322,6 +324,20 @@ describe('RecentTracesManager', () => {
       await expect(manager.saveTrace('file.jsonl', 'Title', 5, '{}')).resolves.toBeUndefined();
       manager.dispose();
     });
+
+    it('saves the agent count of a session bundle', async () => {
+      const manager = new RecentTracesManager({
+        container,
+        listElement,
+        clearBtn,
+        onSelect: onSelectMock,
+      });
+
+      await manager.saveTrace('session.jsonl', 'Title', 12, '{}', 2);
+
+      expect(saveRecentTrace).toHaveBeenCalledWith('session.jsonl', 'Title', 12, '{}', 2);
+      manager.dispose();
+    });
   });
 
   describe('touchTrace', () => {
@@ -339,10 +355,42 @@ describe('RecentTracesManager', () => {
         mockTrace.filename,
         mockTrace.title,
         mockTrace.turnCount,
-        mockTrace.content
+        mockTrace.content,
+        undefined,
+        undefined
       );
       manager.dispose();
     });
+
+    it('keeps the source the user chose', async () => {
+      const manager = new RecentTracesManager({
+        container,
+        listElement,
+        clearBtn,
+        onSelect: onSelectMock,
+      });
+
+      await manager.touchTrace({ ...mockTrace, sourceId: 'openai' });
+
+      expect(vi.mocked(saveRecentTrace).mock.calls[0][5]).toBe('openai');
+      manager.dispose();
+    });
+  });
+
+  describe('updateSourceId', () => {
+    it('saves the chosen source', async () => {
+      const manager = new RecentTracesManager({
+        container,
+        listElement,
+        clearBtn,
+        onSelect: onSelectMock,
+      });
+
+      await manager.updateSourceId('trace-1', 'openai');
+
+      expect(updateTraceSourceId).toHaveBeenCalledWith('trace-1', 'openai');
+      manager.dispose();
+    });
   });
 
   describe('updateCustomName', () => {
@@ -498,6 +546,23 @@ describe('RecentTracesManager', () => {
 
       expect(listElement.innerHTML).toContain('recent.turns');
       expect(listElement.innerHTML).toContain('1024 bytes');
+      expect(listElement.innerHTML).not.toContain('recent.agents');
+      manager.dispose();
+    });
+
+    it('includes the agent count of a session bundle', async () => {
+      vi.mocked(getRecentTraces).mockResolvedValueOnce([{ ...mockTrace, agentCount: 3 }]);
+
+      const manager = new RecentTracesManager({
+        container,
+        listElement,
+        clearBtn,
+        onSelect: onSelectMock,
+      });
+
+      await manager.refresh();
+
+      expect(listElement.innerHTML).toContain('recent.agents');
       manager.dispose();
     });
   });
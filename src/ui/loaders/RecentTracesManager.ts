@@ -8,13 +8,14 @@ import {
   deleteRecentTrace,
   clearRecentTraces,
   updateTraceCustomName,
+  updateTraceSourceId,
   updateTraceUIState,
   formatSize,
   formatRelativeTime,
   type RecentTrace,
   type TraceUIState,
 } from '../../utils/recent-traces';
-import { escapeHtml } from '../../export';
+import { escapeHtml } from '../../utils/html';
 import { t } from '../../i18n';
 
 /**
@@ -224,7 +225,7 @@ export class RecentTracesManager {
           <div class="recent-item-title ${hasCustomName ? 'custom' : ''}">${escapeHtml(displayName)}</div>
           <div class="recent-item-path" title="${escapeHtml(trace.filename)}">${escapeHtml(shortPath)}</div>
           <div class="recent-item-meta">
-            ${t('recent.turns', { count: trace.turnCount })} · ${formatSize(trace.size)} · ${formatRelativeTime(trace.lastOpened)}
+            ${t('recent.turns', { count: trace.turnCount })}${trace.agentCount ? ` · ${t('recent.agents', { count: trace.agentCount })}` : ''} · ${formatSize(trace.size)} · ${formatRelativeTime(trace.lastOpened)}
           </div>
         </div>
         <button class="recent-item-delete" title="${escapeHtml(t('misc.removeFromHistory'))}">&times;</button>
@@ -301,10 +302,11 @@ export class RecentTracesManager {
     filename: string,
     title: string,
     turnCount: number,
-    content: string
+    content: string,
+    agentCount?: number
   ): Promise<void> {
     try {
-      await saveRecentTrace(filename, title, turnCount, content);
+      await saveRecentTrace(filename, title, turnCount, content, agentCount);
     } catch (err) {
       console.warn('Failed to save to recent traces:', err);
     }
@@ -315,7 +317,7 @@ export class RecentTracesManager {
    */
   public async touchTrace(trace: RecentTrace): Promise<void> {
     try {
-      await saveRecentTrace(trace.filename, trace.title, trace.turnCount, trace.content);
+      await saveRecentTrace(trace.filename, trace.title, trace.turnCount, trace.content, trace.agentCount, trace.sourceId);
     } catch (err) {
       console.warn('Failed to update recent trace:', err);
     }
@@ -333,6 +335,17 @@ export class RecentTracesManager {
     }
   }
 
+  /**
+   * Remember the source the user chose for a trace
+   */
+  public async updateSourceId(traceId: string, sourceId: string): Promise<void> {
+    try {
+      await updateTraceSourceId(traceId, sourceId);
+    } catch (err) {
+      console.warn('Failed to save source:', err);
+    }
+  }
+
   /**
    * Update a trace's UI state
    */
@@ -2,7 +2,7 @@
  * Loaders module - file loading and recent traces management
  */
 
-export { FileLoader, type FileLoaderOptions, type FileLoadCallback } from './FileLoader';
+export { FileLoader, type FileLoaderOptions, type FileLoadCallback, type FileSourceCallback, type FileAppendCallback } from './FileLoader';
 export {
   RecentTracesManager,
   type RecentTracesManagerOptions,
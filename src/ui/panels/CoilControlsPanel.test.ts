@@ -8,6 +8,7 @@ import {
   type CoilControllableViewer,
   type CoilControlsPanelElements,
   type CoilParams,
+  type LayoutMode,
 } from './CoilControlsPanel';
 
 function createMockViewer(): CoilControllableViewer {
@@ -23,6 +24,7 @@ function createMockViewer(): CoilControllableViewer {
       minVerticalSpacing: 0.2,
       maxVerticalSpacing: 1.5,
     } as CoilParams,
+    layoutMode: 'coil' as LayoutMode,
     showClusterLines: true,
     lineColor: 0xb7410e,
     lineWidth: 6,
@@ -30,6 +32,10 @@ function createMockViewer(): CoilControllableViewer {
   };
 
   return {
+    getLayoutMode: vi.fn(() => state.layoutMode),
+    setLayoutMode: vi.fn((mode: LayoutMode) => {
+      state.layoutMode = mode;
+    }),
     getCoilParams: vi.fn(() => ({ ...state.params })),
     setCoilParam: vi.fn((name: string, value: number) => {
       if (name in state.params) {
@@ -73,6 +79,13 @@ function createMockElements(): CoilControlsPanelElements {
   const panel = document.createElement('div');
   const resetBtn = document.createElement('button');
 
+  const layoutSelect = document.createElement('select');
+  for (const mode of ['coil', 'timeline']) {
+    const option = document.createElement('option');
+    option.value = mode;
+    layoutSelect.appendChild(option);
+  }
+
   // Create slider elements
   const slidersContainer = document.createElement('div');
   const sliderParams = ['radius', 'angleStep', 'focusRadius'];
@@ -130,6 +143,7 @@ function createMockElements(): CoilControlsPanelElements {
     toggleBtn,
     panel,
     resetBtn,
+    layoutSelect,
     sliders,
     clusterLinesToggle,
     clusterLineOptions,
@@ -251,6 +265,38 @@ describe('CoilControlsPanel', () => {
     });
   });
 
+  describe('layout mode', () => {
+    it('calls viewer.setLayoutMode on change', () => {
+      panel = new CoilControlsPanel(elements, viewer);
+
+      elements.layoutSelect!.value = 'timeline';
+      elements.layoutSelect!.dispatchEvent(new Event('change'));
+
+      expect(viewer.setLayoutMode).toHaveBeenCalledWith('timeline');
+      expect(elements.panel.classList.contains('timeline-mode')).toBe(true);
+    });
+
+    it('syncs the layout mode from viewer', () => {
+      panel = new CoilControlsPanel(elements, viewer);
+      viewer.setLayoutMode('timeline');
+
+      panel.syncFromViewer();
+
+      expect(elements.layoutSelect!.value).toBe('timeline');
+      expect(elements.panel.classList.contains('timeline-mode')).toBe(true);
+    });
+
+    it('stops reporting after dispose', () => {
+      panel = new CoilControlsPanel(elements, viewer);
+      panel.dispose();
+
+      elements.layoutSelect!.value = 'timeline';
+      elements.layoutSelect!.dispatchEvent(new Event('change'));
+
+      expect(viewer.setLayoutMode).not.toHaveBeenCalled();
+    });
+  });
+
   describe('coil sliders', () => {
     it('updates viewer when slider changes', () => {
       panel = new CoilControlsPanel(elements, viewer);
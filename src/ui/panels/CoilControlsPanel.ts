@@ -3,6 +3,7 @@
  *
  * Handles the coil/spiral layout controls including:
  * - Panel visibility toggle
+ * - Layout mode (coil or timeline)
  * - Coil parameter sliders (spiral radius, angle step, etc.)
  * - Cluster line controls (toggle, color, width, opacity)
  * - Reset to defaults
@@ -23,10 +24,17 @@ export interface CoilParams {
   maxVerticalSpacing: number;
 }
 
+/**
+ * Layout mode (from Viewer)
+ */
+export type LayoutMode = 'coil' | 'timeline';
+
 /**
  * Viewer interface for coil controls
  */
 export interface CoilControllableViewer {
+  getLayoutMode(): LayoutMode;
+  setLayoutMode(mode: LayoutMode): void;
   getCoilParams(): CoilParams;
   setCoilParam(name: string, value: number): void;
   resetCoilParams(): void;
@@ -50,6 +58,8 @@ export interface CoilControlsPanelElements {
   panel: HTMLElement;
   /** Reset button */
   resetBtn?: HTMLElement | null;
+  /** Layout mode select (coil/timeline) */
+  layoutSelect?: HTMLSelectElement | null;
   /** Container for coil parameter sliders */
   sliders: NodeListOf<Element> | HTMLElement[];
   /** Cluster lines checkbox */
@@ -78,6 +88,7 @@ export class CoilControlsPanel {
   // Bound handlers for cleanup
   private boundHandleToggle: () => void;
   private boundHandleReset: () => void;
+  private boundHandleLayoutChange: () => void;
   private boundHandleLinesToggle: () => void;
   private boundHandleColorChange: () => void;
   private boundHandleWidthChange: () => void;
@@ -91,6 +102,7 @@ export class CoilControlsPanel {
     // Bind handlers
     this.boundHandleToggle = this.handleToggle.bind(this);
     this.boundHandleReset = this.handleReset.bind(this);
+    this.boundHandleLayoutChange = this.handleLayoutChange.bind(this);
     this.boundHandleLinesToggle = this.handleLinesToggle.bind(this);
     this.boundHandleColorChange = this.handleColorChange.bind(this);
     this.boundHandleWidthChange = this.handleWidthChange.bind(this);
@@ -106,6 +118,7 @@ export class CoilControlsPanel {
     const {
       toggleBtn,
       resetBtn,
+      layoutSelect,
       sliders,
       clusterLinesToggle,
       lineColor,
@@ -119,6 +132,9 @@ export class CoilControlsPanel {
     // Reset button
     resetBtn?.addEventListener('click', this.boundHandleReset);
 
+    // Layout mode
+    layoutSelect?.addEventListener('change', this.boundHandleLayoutChange);
+
     // Cluster lines toggle
     clusterLinesToggle?.addEventListener('change', this.boundHandleLinesToggle);
 
@@ -154,6 +170,7 @@ export class CoilControlsPanel {
     const {
       toggleBtn,
       resetBtn,
+      layoutSelect,
       clusterLinesToggle,
       lineColor,
       lineWidth,
@@ -162,6 +179,7 @@ export class CoilControlsPanel {
 
     toggleBtn.removeEventListener('click', this.boundHandleToggle);
     resetBtn?.removeEventListener('click', this.boundHandleReset);
+    layoutSelect?.removeEventListener('change', this.boundHandleLayoutChange);
     clusterLinesToggle?.removeEventListener('change', this.boundHandleLinesToggle);
     lineColor?.removeEventListener('input', this.boundHandleColorChange);
     lineWidth?.removeEventListener('input', this.boundHandleWidthChange);
@@ -200,6 +218,27 @@ export class CoilControlsPanel {
     this.syncFromViewer();
   }
 
+  /**
+   * Handle layout mode change
+   */
+  private handleLayoutChange(): void {
+    if (this.disposed) return;
+
+    const { layoutSelect } = this.elements;
+    if (!layoutSelect) return;
+
+    const mode = layoutSelect.value as LayoutMode;
+    this.viewer.setLayoutMode(mode);
+    this.updateLayoutModeState(mode);
+  }
+
+  /**
+   * Mark the panel with the layout mode so coil-only controls can be dimmed
+   */
+  private updateLayoutModeState(mode: LayoutMode): void {
+    this.elements.panel.classList.toggle('timeline-mode', mode === 'timeline');
+  }
+
   /**
    * Handle cluster lines toggle
    */
@@ -268,6 +307,7 @@ export class CoilControlsPanel {
     if (this.disposed) return;
 
     const {
+      layoutSelect,
       sliders,
       clusterLinesToggle,
       clusterLineOptions,
@@ -279,6 +319,13 @@ export class CoilControlsPanel {
       lineOpacityValue,
     } = this.elements;
 
+    // Sync layout mode
+    const mode = this.viewer.getLayoutMode();
+    if (layoutSelect) {
+      layoutSelect.value = mode;
+    }
+    this.updateLayoutModeState(mode);
+
     // Sync coil parameters
     const params = this.viewer.getCoilParams();
     sliders.forEach((sliderDiv) => {
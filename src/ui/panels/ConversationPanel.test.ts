@@ -5,6 +5,13 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ConversationPanel } from './ConversationPanel';
 import type { ViewerInterface, SearchableCluster, ConversationData } from '../types';
+import { getToolDiff } from '../../export';
+
+// Count diffs while still rendering them
+vi.mock('../../export', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../export')>();
+  return { ...actual, getToolDiff: vi.fn(actual.getToolDiff) };
+});
 
 // Helper to create a mock viewer
 function createMockViewer(overrides: Partial<ViewerInterface> = {}): ViewerInterface {
@@ -139,6 +146,76 @@ describe('ConversationPanel', () => {
       expect(container.innerHTML).toContain('Read');
     });
 
+    it('renders Edit tool calls as a diff', () => {
+      const clusters = createMockClusters();
+      clusters[0].toolUses = [{
+        name: 'Edit',
+        input: JSON.stringify({ file_path: '/src/app.ts', old_string: 'let x = 1;', new_string: 'let x = 2;' }),
+      }];
+      viewer = createMockViewer({ getSearchableContent: vi.fn().mockReturnValue(clusters) });
+      panel = new ConversationPanel({ container, turnIndicator, filtersContainer }, viewer);
+      panel.render();
+
+      const tool = container.querySelector('.conv-tool.tool-use.has-diff');
+      expect(tool?.querySelector('.diff-file-path')?.textContent).toBe('/src/app.ts');
+      expect(tool?.querySelector('.diff-remove')?.textContent).toBe('-let x = 1;');
+      expect(tool?.querySelector('.diff-add')?.textContent).toBe('+let x = 2;');
+      expect(tool?.innerHTML).not.toContain('old_string');
+    });
+
+    it('diffs each Edit tool call only once across renders', () => {
+      const clusters = createMockClusters();
+      clusters[0].toolUses = [{
+        name: 'Edit',
+        input: JSON.stringify({ file_path: '/src/app.ts', old_string: 'a', new_string: 'b' }),
+      }];
+      viewer = createMockViewer({ getSearchableContent: vi.fn().mockReturnValue(clusters) });
+      panel = new ConversationPanel({ container, turnIndicator, filtersContainer }, viewer);
+      vi.mocked(getToolDiff).mockClear();
+
+      panel.render();
+      panel.render();
+
+      expect(getToolDiff).toHaveBeenCalledTimes(1);
+      expect(container.querySelectorAll('.conv-tool.has-diff')).toHaveLength(1);
+    });
+
+    it('renders images as open thumbnails labelled with their origin', () => {
+      const clusters = createMockClusters();
+      clusters[0].documents = [
+        { mediaType: 'image/png', sourceType: 'base64', data: 'iVBORw0K', size: 8, origin: 'tool' },
+        { mediaType: 'application/pdf', sourceType: 'url', url: 'https://example.com/a.pdf', origin: 'user' },
+      ];
+      viewer = createMockViewer({ getSearchableContent: vi.fn().mockReturnValue(clusters) });
+      panel = new ConversationPanel({ container, turnIndicator, filtersContainer }, viewer);
+      panel.render();
+
+      const [image, pdf] = Array.from(container.querySelectorAll('.conv-document'));
+      expect(image.classList.contains('expanded')).toBe(true);
+      expect(image.querySelector('img.image-thumb')?.getAttribute('src')).toBe('data:image/png;base64,iVBORw0K');
+      expect(image.querySelector('.conv-document-header')?.textContent).toContain('document.fromTool');
+      expect(pdf.classList.contains('expanded')).toBe(false);
+      expect(pdf.querySelector('a')?.getAttribute('href')).toBe('https://example.com/a.pdf');
+    });
+
+    it('renders terminal colours in tool results with a raw toggle', () => {
+      const clusters = createMockClusters();
+      clusters[0].toolResults = [{ content: 'step 1/2\rstep 2/2\n\x1b[32mdone\x1b[0m', isError: false }];
+      viewer = createMockViewer({ getSearchableContent: vi.fn().mockReturnValue(clusters) });
+      panel = new ConversationPanel({ container, turnIndicator, filtersContainer }, viewer);
+      panel.render();
+
+      const result = container.querySelector('.conv-tool.tool-result')!;
+      const output = result.querySelector('.ansi-output')!;
+      expect(output.querySelector('.ansi-rendered')?.innerHTML).toBe('step 2/2\n<span class="ansi-fg-2">done</span>');
+
+      const toggle = result.querySelector('.conv-ansi-toggle') as HTMLElement;
+      toggle.click();
+      expect(output.classList.contains('show-raw')).toBe(true);
+      // The toggle doesn't collapse or expand the section
+      expect(result.classList.contains('expanded')).toBe(false);
+    });
+
     it('renders tool results', () => {
       panel.render();
       const resultBlocks = container.querySelectorAll('.conv-tool.tool-result');
@@ -175,6 +252,45 @@ describe('ConversationPanel', () => {
     });
   });
 
+  describe('renderFrom', () => {
+    it('replaces only the turns from the changed cluster on', () => {
+      panel.render();
+      const first = container.querySelector('.conv-turn[data-cluster-index="0"]');
+
+      const clusters = createMockClusters();
+      clusters[1].assistantText = 'Rewritten answer';
+      clusters.push({ ...clusters[1], clusterIndex: 2, userText: 'Appended question' });
+      vi.mocked(viewer.getSearchableContent).mockReturnValue(clusters);
+      panel.renderFrom(1);
+
+      const turns = container.querySelectorAll<HTMLElement>('.conv-turn');
+      expect(Array.from(turns, (turn) => turn.dataset.clusterIndex)).toEqual(['0', '1', '2']);
+      expect(turns[0]).toBe(first);
+      expect(turns[1].textContent).toContain('Rewritten answer');
+      expect(turns[2].textContent).toContain('Appended question');
+    });
+
+    it('wires up and filters the new turns', () => {
+      panel.render();
+      panel.setFilterState({ user: false });
+      vi.mocked(viewer.getSearchableContent).mockReturnValue([
+        ...createMockClusters(),
+        { ...createMockClusters()[1], clusterIndex: 2 },
+      ]);
+      panel.renderFrom(2);
+
+      const added = container.querySelector<HTMLElement>('.conv-turn[data-cluster-index="2"]')!;
+      expect((added.querySelector('.conv-user') as HTMLElement).style.display).toBe('none');
+      added.click();
+      expect(viewer.selectClusterByIndex).toHaveBeenCalledWith(2);
+    });
+
+    it('renders everything when nothing was rendered yet', () => {
+      panel.renderFrom(1);
+      expect(container.querySelectorAll('.conv-turn')).toHaveLength(2);
+    });
+  });
+
   describe('filter', () => {
     it('shows all turns when filter is null', () => {
       panel.render();
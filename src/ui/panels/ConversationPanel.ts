@@ -2,10 +2,11 @@
  * Conversation Panel - displays the conversation in a scrollable view
  */
 
-import { escapeHtml, renderMarkdown } from '../../export';
+import { renderMarkdown, getToolDiff, renderToolDiff, hasAnsi, ansiToHtml, formatRawAnsi, renderImageThumbnail, type ToolDiff } from '../../export';
+import { escapeHtml } from '../../utils/html';
 import { getUIText } from '../../config';
 import { t } from '../../i18n';
-import type { ViewerInterface } from '../types';
+import type { ViewerInterface, SearchableCluster } from '../types';
 
 /**
  * Format a duration in milliseconds to a human-readable string
@@ -73,6 +74,9 @@ export class ConversationPanel {
   private boundFilterHandlers: Map<Element, () => void> = new Map();
   private scrollListenerAttached = false;
 
+  // Line diffs of file-editing tool calls, so re-renders don't diff them again
+  private toolDiffs = new WeakMap<SearchableCluster['toolUses'][number], ToolDiff | null>();
+
   constructor(elements: ConversationPanelElements, viewer: ViewerInterface) {
     this.viewer = viewer;
     this.container = elements.container;
@@ -98,185 +102,241 @@ export class ConversationPanel {
       return;
     }
 
-    const clusterCount = this.viewer.getClusterCount();
-    const searchableContent = this.viewer.getSearchableContent();
     const sourceId = conversation.meta.source;
+    this.container.innerHTML = this.viewer.getSearchableContent()
+      .map((cluster) => this.renderTurn(cluster, sourceId))
+      .join('');
 
-    let html = '';
+    // Wire up collapsible sections, "More" buttons, raw/formatted toggles and turn clicks
+    this.setupInteractions(this.container);
 
-    for (let i = 0; i < searchableContent.length; i++) {
-      const cluster = searchableContent[i];
+    // Check which content wraps need truncation
+    this.setupTruncation(this.container);
 
-      html += `<div class="conv-turn" data-cluster-index="${cluster.clusterIndex}">`;
+    // Setup scroll sync
+    this.setupScrollSync();
 
-      // Badges row (sidechain, agent, stop reason, error)
-      const badges: string[] = [];
-      if (cluster.isSidechain) badges.push(`<span class="conv-badge sidechain">${escapeHtml(getUIText(sourceId, 'sidechainBadge'))}</span>`);
-      if (cluster.agentId) badges.push(`<span class="conv-badge agent">${escapeHtml(cluster.agentId)}</span>`);
-      if (cluster.stopReason && cluster.stopReason !== 'end_turn') {
-        badges.push(`<span class="conv-badge stop-reason">${escapeHtml(cluster.stopReason)}</span>`);
-      }
-      if (badges.length > 0) {
-        html += `<div class="conv-badges">${badges.join('')}</div>`;
-      }
+    this.updateTurnIndicator();
 
-      // Error banner
-      if (cluster.hasError) {
-        const errorText = cluster.error ? escapeHtml(cluster.error) : escapeHtml(t('misc.errorOccurred'));
-        html += `<div class="conv-error-banner">${errorText}</div>`;
-      }
+    // Apply visibility filters
+    this.applyFilters(this.container);
+  }
+
+  /**
+   * Re-render the turns from a cluster on, keeping the ones before it
+   * (e.g. after turns were appended to a watched file)
+   * @param firstClusterIndex First cluster that was added or rebuilt
+   */
+  public renderFrom(firstClusterIndex: number): void {
+    if (this.disposed) return;
+
+    const conversation = this.viewer.getConversation();
+    if (!conversation || firstClusterIndex <= 0 || !this.container.querySelector('.conv-turn')) {
+      this.render();
+      return;
+    }
 
-      // User message
-      if (cluster.userText) {
-        const len = cluster.userText.length;
-        const charCount = len > 200 ? `<span style="color: #666; font-weight: normal;">(${t('conversation.chars', { count: len.toLocaleString() })})</span>` : '';
-        html += `<div class="conv-user expanded">
+    // Turns are in cluster order, so the changed ones are at the end
+    let turn = this.container.lastElementChild as HTMLElement | null;
+    while (turn && parseInt(turn.dataset.clusterIndex || '0', 10) >= firstClusterIndex) {
+      const previous = turn.previousElementSibling as HTMLElement | null;
+      turn.remove();
+      turn = previous;
+    }
+
+    const template = document.createElement('template');
+    template.innerHTML = this.viewer.getSearchableContent()
+      .slice(firstClusterIndex)
+      .map((cluster) => this.renderTurn(cluster, conversation.meta.source))
+      .join('');
+    const turns = Array.from(template.content.children);
+    this.setupInteractions(template.content);
+    this.container.append(template.content);
+
+    for (const added of turns) {
+      this.setupTruncation(added);
+      this.applyFilters(added);
+    }
+    this.updateTurnIndicator();
+  }
+
+  /**
+   * Get the line diff of a file-editing tool call, computed once per call
+   */
+  private getToolDiff(toolUse: SearchableCluster['toolUses'][number]): ToolDiff | null {
+    let diff = this.toolDiffs.get(toolUse);
+    if (diff === undefined) {
+      diff = getToolDiff(toolUse.name, toolUse.input);
+      this.toolDiffs.set(toolUse, diff);
+    }
+    return diff;
+  }
+
+  /**
+   * Build the HTML of one cluster's turn
+   */
+  private renderTurn(cluster: SearchableCluster, sourceId: string | undefined): string {
+    let html = `<div class="conv-turn" data-cluster-index="${cluster.clusterIndex}">`;
+
+    // Badges row (sidechain, agent, stop reason, error)
+    const badges: string[] = [];
+    if (cluster.isSidechain) badges.push(`<span class="conv-badge sidechain">${escapeHtml(getUIText(sourceId, 'sidechainBadge'))}</span>`);
+    if (cluster.agentId) badges.push(`<span class="conv-badge agent">${escapeHtml(cluster.agentId)}</span>`);
+    if (cluster.stopReason && cluster.stopReason !== 'end_turn') {
+      badges.push(`<span class="conv-badge stop-reason">${escapeHtml(cluster.stopReason)}</span>`);
+    }
+    if (badges.length > 0) {
+      html += `<div class="conv-badges">${badges.join('')}</div>`;
+    }
+
+    // Error banner
+    if (cluster.hasError) {
+      const errorText = cluster.error ? escapeHtml(cluster.error) : escapeHtml(t('misc.errorOccurred'));
+      html += `<div class="conv-error-banner">${errorText}</div>`;
+    }
+
+    // User message
+    if (cluster.userText) {
+      const len = cluster.userText.length;
+      const charCount = len > 200 ? `<span style="color: #666; font-weight: normal;">(${t('conversation.chars', { count: len.toLocaleString() })})</span>` : '';
+      html += `<div class="conv-user expanded">
 <div class="conv-user-header"><span class="arrow">▶</span><span>${escapeHtml(t('conversation.userLabel'))}</span>${charCount}</div>
 <div class="conv-user-content"><div class="conv-content-wrap markdown-content">${renderMarkdown(cluster.userText)}<button class="conv-expand-btn">${escapeHtml(t('conversation.more'))}</button></div></div>
 </div>`;
-      }
+    }
 
-      // Assistant section
-      html += `<div class="conv-assistant">`;
+    // Assistant section
+    html += `<div class="conv-assistant">`;
 
-      // Thinking blocks (default collapsed)
-      for (let ti = 0; ti < cluster.thinkingBlocks.length; ti++) {
-        const thinking = cluster.thinkingBlocks[ti];
-        const thinkingText = thinking.text;
-        const durationStr = thinking.durationMs ? ` · ${formatDuration(thinking.durationMs)}` : '';
-        html += `<div class="conv-thinking" data-thinking-index="${ti}">
+    // Thinking blocks (default collapsed)
+    for (let ti = 0; ti < cluster.thinkingBlocks.length; ti++) {
+      const thinking = cluster.thinkingBlocks[ti];
+      const thinkingText = thinking.text;
+      const durationStr = thinking.durationMs ? ` · ${formatDuration(thinking.durationMs)}` : '';
+      html += `<div class="conv-thinking" data-thinking-index="${ti}">
 <div class="conv-thinking-header"><span class="arrow">▶</span><span>${escapeHtml(t('conversation.thinkingLabel'))}</span><span style="color: #666; font-weight: normal;">(${t('conversation.chars', { count: thinkingText.length.toLocaleString() })}${durationStr})</span></div>
 <div class="conv-thinking-content"><div class="conv-content-wrap markdown-content">${renderMarkdown(thinkingText)}<button class="conv-expand-btn">${escapeHtml(t('conversation.more'))}</button></div></div>
 </div>`;
-      }
+    }
 
-      // Tool calls and results (interleaved, default collapsed)
-      for (let ti = 0; ti < cluster.toolUses.length; ti++) {
-        const toolUse = cluster.toolUses[ti];
-        html += `<div class="conv-tool tool-use" data-tool-index="${ti}">
+    // Tool calls and results (interleaved, default collapsed)
+    for (let ti = 0; ti < cluster.toolUses.length; ti++) {
+      const toolUse = cluster.toolUses[ti];
+      const diff = this.getToolDiff(toolUse);
+      const toolBody = diff ? renderToolDiff(diff) : escapeHtml(toolUse.input);
+      html += `<div class="conv-tool tool-use${diff ? ' has-diff' : ''}" data-tool-index="${ti}">
 <div class="conv-tool-header"><span class="arrow">▶</span><span class="conv-tool-name">${escapeHtml(toolUse.name)}</span></div>
-<div class="conv-tool-content"><div class="conv-content-wrap">${escapeHtml(toolUse.input)}<button class="conv-expand-btn">${escapeHtml(t('conversation.more'))}</button></div></div>
+<div class="conv-tool-content"><div class="conv-content-wrap">${toolBody}<button class="conv-expand-btn">${escapeHtml(t('conversation.more'))}</button></div></div>
 </div>`;
 
-        // Matching tool result (if exists)
-        if (ti < cluster.toolResults.length) {
-          const toolResult = cluster.toolResults[ti];
-          const isError = toolResult.isError;
-          const durationStr = toolResult.durationMs ? `<span style="color: #666; font-weight: normal; margin-left: 8px;">${formatDuration(toolResult.durationMs)}</span>` : '';
-          html += `<div class="conv-tool tool-result ${isError ? '' : 'success'}" data-result-index="${ti}">
-<div class="conv-tool-header"><span class="arrow">▶</span><span>${isError ? escapeHtml(t('conversation.resultError')) : escapeHtml(t('conversation.resultSuccess'))}</span>${durationStr}</div>
-<div class="conv-tool-content"><div class="conv-content-wrap">${escapeHtml(toolResult.content)}<button class="conv-expand-btn">${escapeHtml(t('conversation.more'))}</button></div></div>
+      // Matching tool result (if exists)
+      if (ti < cluster.toolResults.length) {
+        const toolResult = cluster.toolResults[ti];
+        const isError = toolResult.isError;
+        const durationStr = toolResult.durationMs ? `<span style="color: #666; font-weight: normal; margin-left: 8px;">${formatDuration(toolResult.durationMs)}</span>` : '';
+        const ansi = hasAnsi(toolResult.content);
+        const rawToggle = ansi ? `<button class="conv-ansi-toggle">${escapeHtml(t('conversation.rawOutput'))}</button>` : '';
+        const resultBody = ansi
+          ? `<span class="ansi-rendered">${ansiToHtml(toolResult.content)}</span><span class="ansi-raw">${formatRawAnsi(toolResult.content)}</span>`
+          : escapeHtml(toolResult.content);
+        html += `<div class="conv-tool tool-result ${isError ? '' : 'success'}" data-result-index="${ti}">
+<div class="conv-tool-header"><span class="arrow">▶</span><span>${isError ? escapeHtml(t('conversation.resultError')) : escapeHtml(t('conversation.resultSuccess'))}</span>${durationStr}${rawToggle}</div>
+<div class="conv-tool-content"><div class="conv-content-wrap${ansi ? ' ansi-output' : ''}">${resultBody}<button class="conv-expand-btn">${escapeHtml(t('conversation.more'))}</button></div></div>
 </div>`;
-        }
       }
+    }
 
-      // Documents (images, PDFs, etc.)
-      for (let di = 0; di < cluster.documents.length; di++) {
-        const doc = cluster.documents[di];
-        const sizeStr = doc.size ? ` (${(doc.size / 1024).toFixed(1)} KB)` : '';
-        const sourceLabel = doc.sourceType === 'url' ? t('document.sourceUrl') : doc.sourceType === 'file' ? t('document.sourceFile') : t('document.sourceBase64');
-        // Determine display name based on media type
-        let docLabel = t('document.label');
-        const isImage = doc.mediaType.startsWith('image/');
-        const isPdf = doc.mediaType === 'application/pdf';
-        if (isImage) {
-          docLabel = t('document.image');
-        } else if (isPdf) {
-          docLabel = t('document.pdf');
-        } else if (doc.mediaType.startsWith('text/')) {
-          docLabel = t('document.textFile');
-        }
-        const titleStr = doc.title ? ` "${escapeHtml(doc.title)}"` : '';
-
-        // Build content for expansion
-        let contentHtml = '';
-        if (doc.data && isImage) {
-          // Render image from base64
-          contentHtml = `<img src="data:${doc.mediaType};base64,${doc.data}" alt="${escapeHtml(docLabel)}" style="max-width: 100%; max-height: 400px; border-radius: 4px;">`;
-        } else if (doc.url && isImage) {
-          // Render image from URL
-          contentHtml = `<img src="${escapeHtml(doc.url)}" alt="${escapeHtml(docLabel)}" style="max-width: 100%; max-height: 400px; border-radius: 4px;">`;
-        } else if (doc.url) {
-          // Show link for other URL-based documents
-          contentHtml = `<a href="${escapeHtml(doc.url)}" target="_blank" rel="noopener" style="color: #f1c40f;">${escapeHtml(t('document.open', { type: docLabel }))}</a>`;
-        } else if (doc.fileId) {
-          // File API reference
-          contentHtml = `<span style="color: #888;">${escapeHtml(t('document.fileId'))} ${escapeHtml(doc.fileId)}</span>`;
-        } else if (doc.data && isPdf) {
-          // PDF - show as embedded or download link
-          contentHtml = `<a href="data:${doc.mediaType};base64,${doc.data}" download="document.pdf" style="color: #f1c40f;">${escapeHtml(t('document.downloadPdf'))}</a>`;
-        } else if (doc.data) {
-          // Other base64 data - show download link
-          contentHtml = `<span style="color: #888;">${escapeHtml(t('document.base64Data', { size: ((doc.size || 0) / 1024).toFixed(1) }))}</span>`;
-        } else {
-          contentHtml = `<span style="color: #888;">${escapeHtml(t('document.noPreview'))}</span>`;
-        }
+    // Documents (images, PDFs, etc.)
+    for (let di = 0; di < cluster.documents.length; di++) {
+      const doc = cluster.documents[di];
+      const sizeStr = doc.size ? ` (${(doc.size / 1024).toFixed(1)} KB)` : '';
+      const sourceLabel = doc.sourceType === 'url' ? t('document.sourceUrl') : doc.sourceType === 'file' ? t('document.sourceFile') : t('document.sourceBase64');
+      // Determine display name based on media type
+      let docLabel = t('document.label');
+      const isImage = doc.mediaType.startsWith('image/');
+      const isPdf = doc.mediaType === 'application/pdf';
+      if (isImage) {
+        docLabel = t('document.image');
+      } else if (isPdf) {
+        docLabel = t('document.pdf');
+      } else if (doc.mediaType.startsWith('text/')) {
+        docLabel = t('document.textFile');
+      }
+      const titleStr = doc.title ? ` "${escapeHtml(doc.title)}"` : '';
+
+      const originStr = doc.origin ? ` · ${escapeHtml(doc.origin === 'tool' ? t('document.fromTool') : t('document.fromUser'))}` : '';
+
+      // Build content for expansion; images show as a thumbnail that opens the lightbox
+      const thumbnail = isImage ? renderImageThumbnail(doc, docLabel) : '';
+      let contentHtml = '';
+      if (thumbnail) {
+        contentHtml = thumbnail;
+      } else if (doc.url) {
+        // Show link for other URL-based documents
+        contentHtml = `<a href="${escapeHtml(doc.url)}" target="_blank" rel="noopener" style="color: #f1c40f;">${escapeHtml(t('document.open', { type: docLabel }))}</a>`;
+      } else if (doc.fileId) {
+        // File API reference
+        contentHtml = `<span style="color: #888;">${escapeHtml(t('document.fileId'))} ${escapeHtml(doc.fileId)}</span>`;
+      } else if (doc.data && isPdf) {
+        // PDF - show as embedded or download link
+        contentHtml = `<a href="data:${doc.mediaType};base64,${doc.data}" download="document.pdf" style="color: #f1c40f;">${escapeHtml(t('document.downloadPdf'))}</a>`;
+      } else if (doc.data) {
+        // Other base64 data - show download link
+        contentHtml = `<span style="color: #888;">${escapeHtml(t('document.base64Data', { size: ((doc.size || 0) / 1024).toFixed(1) }))}</span>`;
+      } else {
+        contentHtml = `<span style="color: #888;">${escapeHtml(t('document.noPreview'))}</span>`;
+      }
 
-        html += `<div class="conv-document" data-document-index="${di}">
-<div class="conv-document-header"><span class="arrow">▶</span><span>${escapeHtml(docLabel)}</span><span style="color: #888; font-weight: normal; margin-left: 8px;">${escapeHtml(doc.mediaType)}${titleStr} · ${escapeHtml(sourceLabel)}${sizeStr}</span></div>
+      html += `<div class="conv-document${thumbnail ? ' conv-image expanded' : ''}" data-document-index="${di}">
+<div class="conv-document-header"><span class="arrow">▶</span><span>${escapeHtml(docLabel)}</span><span style="color: #888; font-weight: normal; margin-left: 8px;">${escapeHtml(doc.mediaType)}${titleStr} · ${escapeHtml(sourceLabel)}${sizeStr}${originStr}</span></div>
 <div class="conv-document-content">${contentHtml}</div>
 </div>`;
-      }
+    }
 
-      // Summary line with total thinking and tool time
-      const totalThinkingMs = cluster.thinkingBlocks.reduce((sum, tb) => sum + (tb.durationMs || 0), 0);
-      const totalToolMs = cluster.toolResults.reduce((sum, r) => sum + (r.durationMs || 0), 0);
-      const totalChars = cluster.thinkingBlocks.reduce((sum, tb) => sum + tb.text.length, 0);
-      if (cluster.thinkingBlocks.length > 0 || cluster.toolResults.length > 0) {
-        const parts: string[] = [];
-        if (cluster.thinkingBlocks.length > 0) {
-          const thinkingStr = totalThinkingMs > 0
-            ? t('conversation.thinkingSummary', { count: cluster.thinkingBlocks.length, chars: totalChars.toLocaleString(), duration: formatDuration(totalThinkingMs) })
-            : t('conversation.thinkingSummaryNoTime', { count: cluster.thinkingBlocks.length, chars: totalChars.toLocaleString() });
-          parts.push(thinkingStr);
-        }
-        if (cluster.toolResults.length > 0) {
-          const toolStr = totalToolMs > 0
-            ? t('conversation.toolsSummary', { count: cluster.toolResults.length, duration: formatDuration(totalToolMs) })
-            : t('conversation.toolsSummaryNoTime', { count: cluster.toolResults.length });
-          parts.push(toolStr);
-        }
-        html += `<div class="conv-summary" style="color: #888; font-size: 11px; margin-bottom: 8px; padding-left: 4px;">${escapeHtml(parts.join(' · '))}</div>`;
+    // Summary line with total thinking and tool time
+    const totalThinkingMs = cluster.thinkingBlocks.reduce((sum, tb) => sum + (tb.durationMs || 0), 0);
+    const totalToolMs = cluster.toolResults.reduce((sum, r) => sum + (r.durationMs || 0), 0);
+    const totalChars = cluster.thinkingBlocks.reduce((sum, tb) => sum + tb.text.length, 0);
+    if (cluster.thinkingBlocks.length > 0 || cluster.toolResults.length > 0) {
+      const parts: string[] = [];
+      if (cluster.thinkingBlocks.length > 0) {
+        const thinkingStr = totalThinkingMs > 0
+          ? t('conversation.thinkingSummary', { count: cluster.thinkingBlocks.length, chars: totalChars.toLocaleString(), duration: formatDuration(totalThinkingMs) })
+          : t('conversation.thinkingSummaryNoTime', { count: cluster.thinkingBlocks.length, chars: totalChars.toLocaleString() });
+        parts.push(thinkingStr);
+      }
+      if (cluster.toolResults.length > 0) {
+        const toolStr = totalToolMs > 0
+          ? t('conversation.toolsSummary', { count: cluster.toolResults.length, duration: formatDuration(totalToolMs) })
+          : t('conversation.toolsSummaryNoTime', { count: cluster.toolResults.length });
+        parts.push(toolStr);
       }
+      html += `<div class="conv-summary" style="color: #888; font-size: 11px; margin-bottom: 8px; padding-left: 4px;">${escapeHtml(parts.join(' · '))}</div>`;
+    }
 
-      // Assistant text output
-      if (cluster.assistantText) {
-        const len = cluster.assistantText.length;
-        const charCount = len > 200 ? `<span style="color: #666; font-weight: normal;">(${t('conversation.chars', { count: len.toLocaleString() })})</span>` : '';
-        html += `<div class="conv-text expanded">
+    // Assistant text output
+    if (cluster.assistantText) {
+      const len = cluster.assistantText.length;
+      const charCount = len > 200 ? `<span style="color: #666; font-weight: normal;">(${t('conversation.chars', { count: len.toLocaleString() })})</span>` : '';
+      html += `<div class="conv-text expanded">
 <div class="conv-text-header"><span class="arrow">▶</span><span>${escapeHtml(t('conversation.outputLabel'))}</span>${charCount}</div>
 <div class="conv-text-content"><div class="conv-content-wrap markdown-content">${renderMarkdown(cluster.assistantText)}<button class="conv-expand-btn">${escapeHtml(t('conversation.more'))}</button></div></div>
 </div>`;
-      }
-
-      html += `</div>`; // close .conv-assistant
-      html += `</div>`; // close .conv-turn
     }
 
-    this.container.innerHTML = html;
+    html += `</div>`; // close .conv-assistant
+    html += `</div>`; // close .conv-turn
 
-    // Wire up collapsible sections
-    this.setupCollapsibleSections();
-
-    // Check which content wraps need truncation
-    this.setupTruncation();
-
-    // Wire up "More" buttons
-    this.setupExpandButtons();
-
-    // Wire up turn click handlers
-    this.setupTurnClickHandlers();
-
-    // Setup scroll sync
-    this.setupScrollSync();
+    return html;
+  }
 
-    // Update turn indicator
+  /**
+   * Update the turn count shown next to the panel title
+   */
+  private updateTurnIndicator(): void {
     if (this.turnIndicator) {
-      this.turnIndicator.textContent = t('conversation.turns', { count: clusterCount });
+      this.turnIndicator.textContent = t('conversation.turns', { count: this.viewer.getClusterCount() });
     }
-
-    // Apply visibility filters
-    this.applyFilters();
   }
 
   /**
@@ -379,21 +439,21 @@ export class ConversationPanel {
   /**
    * Apply conversation filters to hide/show elements
    */
-  private applyFilters(): void {
+  private applyFilters(root: ParentNode = this.container): void {
     // Apply visibility based on filter state
-    this.container.querySelectorAll('.conv-user').forEach((el) => {
+    root.querySelectorAll('.conv-user').forEach((el) => {
       (el as HTMLElement).style.display = this.filterState.user ? '' : 'none';
     });
-    this.container.querySelectorAll('.conv-text').forEach((el) => {
+    root.querySelectorAll('.conv-text').forEach((el) => {
       (el as HTMLElement).style.display = this.filterState.output ? '' : 'none';
     });
-    this.container.querySelectorAll('.conv-thinking').forEach((el) => {
+    root.querySelectorAll('.conv-thinking').forEach((el) => {
       (el as HTMLElement).style.display = this.filterState.thinking ? '' : 'none';
     });
-    this.container.querySelectorAll('.conv-tool').forEach((el) => {
+    root.querySelectorAll('.conv-tool').forEach((el) => {
       (el as HTMLElement).style.display = this.filterState.tools ? '' : 'none';
     });
-    this.container.querySelectorAll('.conv-document').forEach((el) => {
+    root.querySelectorAll('.conv-document').forEach((el) => {
       (el as HTMLElement).style.display = this.filterState.documents ? '' : 'none';
     });
   }
@@ -438,11 +498,21 @@ export class ConversationPanel {
     });
   }
 
+  /**
+   * Wire up the click handlers of rendered turns
+   */
+  private setupInteractions(root: ParentNode): void {
+    this.setupCollapsibleSections(root);
+    this.setupExpandButtons(root);
+    this.setupAnsiToggles(root);
+    this.setupTurnClickHandlers(root);
+  }
+
   /**
    * Setup collapsible section headers
    */
-  private setupCollapsibleSections(): void {
-    this.container.querySelectorAll('.conv-thinking-header, .conv-tool-header, .conv-user-header, .conv-text-header, .conv-document-header').forEach((header) => {
+  private setupCollapsibleSections(root: ParentNode): void {
+    root.querySelectorAll('.conv-thinking-header, .conv-tool-header, .conv-user-header, .conv-text-header, .conv-document-header').forEach((header) => {
       header.addEventListener('click', (e) => {
         e.stopPropagation();
         const parent = header.parentElement;
@@ -451,11 +521,26 @@ export class ConversationPanel {
     });
   }
 
+  /**
+   * Setup raw/formatted toggles on tool results with terminal escape codes
+   */
+  private setupAnsiToggles(root: ParentNode): void {
+    root.querySelectorAll('.conv-ansi-toggle').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        // Don't collapse the section or select the turn
+        e.stopPropagation();
+        const output = btn.closest('.conv-tool')?.querySelector('.ansi-output');
+        const showRaw = output?.classList.toggle('show-raw') ?? false;
+        btn.textContent = showRaw ? t('conversation.formattedOutput') : t('conversation.rawOutput');
+      });
+    });
+  }
+
   /**
    * Setup content truncation
    */
-  private setupTruncation(): void {
-    this.container.querySelectorAll('.conv-content-wrap').forEach((wrap) => {
+  private setupTruncation(root: ParentNode): void {
+    root.querySelectorAll('.conv-content-wrap').forEach((wrap) => {
       const el = wrap as HTMLElement;
       // Temporarily apply max-height to measure overflow
       el.style.maxHeight = '120px';
@@ -473,8 +558,8 @@ export class ConversationPanel {
   /**
    * Setup "More" buttons for truncated content
    */
-  private setupExpandButtons(): void {
-    this.container.querySelectorAll('.conv-expand-btn').forEach((btn) => {
+  private setupExpandButtons(root: ParentNode): void {
+    root.querySelectorAll('.conv-expand-btn').forEach((btn) => {
       btn.addEventListener('click', (e) => {
         e.stopPropagation();
         const wrap = btn.parentElement;
@@ -487,8 +572,8 @@ export class ConversationPanel {
   /**
    * Setup turn click handlers to select in 3D
    */
-  private setupTurnClickHandlers(): void {
-    this.container.querySelectorAll('.conv-turn').forEach((turn) => {
+  private setupTurnClickHandlers(root: ParentNode): void {
+    root.querySelectorAll('.conv-turn').forEach((turn) => {
       turn.addEventListener('click', () => {
         const clusterIndex = parseInt((turn as HTMLElement).dataset.clusterIndex || '0', 10);
 
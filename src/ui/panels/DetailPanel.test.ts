@@ -417,6 +417,137 @@ describe('DetailPanel', () => {
       expect(container.innerHTML).toContain('/test.txt');
     });
 
+    it('renders Edit tool_use input as a diff', () => {
+      const selection: Selection = {
+        type: 'tool_use',
+        data: {
+          name: 'Edit',
+          input: { file_path: '/src/app.ts', old_string: 'a\nb', new_string: 'a\nc' },
+        },
+        turnIndex: 0,
+      };
+      panel.update(selection);
+
+      const diff = container.querySelector('#tool-diff-content');
+      expect(diff?.querySelector('.diff-file-path')?.textContent).toBe('/src/app.ts');
+      expect(diff?.querySelector('.diff-unified')).not.toBeNull();
+      expect(container.querySelector('[data-copy-id="tool-diff"]')).not.toBeNull();
+      expect(container.querySelector('[data-copy-id="tool-input"]')).toBeNull();
+    });
+
+    it('switches the diff between unified and side by side', () => {
+      const selection: Selection = {
+        type: 'tool_use',
+        data: { name: 'Write', input: { file_path: 'notes.md', content: 'hello' } },
+        turnIndex: 0,
+      };
+      panel.update(selection);
+
+      (container.querySelector('[data-diff-mode="split"]') as HTMLElement).click();
+      expect(container.querySelector('#tool-diff-content .diff-split')).not.toBeNull();
+      expect(container.querySelector('[data-diff-mode="split"]')?.classList.contains('active')).toBe(true);
+
+      // The layout is kept for the next selection
+      panel.update(selection);
+      expect(container.querySelector('#tool-diff-content .diff-split')).not.toBeNull();
+    });
+
+    it('switches the diff of a panel outside the document', () => {
+      const detached = document.createElement('div');
+      const detachedPanel = new DetailPanel({ container: detached }, viewer);
+      detachedPanel.update({
+        type: 'tool_use',
+        data: { name: 'Write', input: { file_path: 'notes.md', content: 'hello' } },
+        turnIndex: 0,
+      });
+
+      (detached.querySelector('[data-diff-mode="split"]') as HTMLElement).click();
+      expect(detached.querySelector('#tool-diff-content .diff-split')).not.toBeNull();
+      detachedPanel.dispose();
+    });
+
+    it('shows the summary of a selected compaction boundary', () => {
+      panel.update({
+        type: 'boundary',
+        data: { clusterIndex: 4, kind: 'compact', trigger: 'auto', preTokens: 155000, summary: 'Fixed the <build>' },
+        turnIndex: 9,
+      });
+
+      expect(container.querySelector('.detail-type-badge.boundary')).not.toBeNull();
+      expect(container.querySelector('.compaction-summary')?.textContent).toBe('Fixed the <build>');
+      expect(container.querySelector('#collapse-parent-btn')).toBeNull();
+
+      (container.querySelector('#focus-cluster-btn') as HTMLElement).click();
+      expect(viewer.focusOnCluster).toHaveBeenCalledWith(4);
+    });
+
+    it('notes a compaction boundary without a summary', () => {
+      panel.update({ type: 'boundary', data: { clusterIndex: 2, kind: 'compact' }, turnIndex: 5 });
+
+      expect(container.querySelector('.compaction-summary')).toBeNull();
+      expect(container.innerHTML).toContain('compaction.noSummary');
+    });
+
+    it('renders a selected image as a thumbnail', () => {
+      panel.update({
+        type: 'document',
+        data: { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } },
+        turnIndex: 0,
+      });
+
+      const thumb = container.querySelector<HTMLImageElement>('.detail-images img.image-thumb');
+      expect(thumb?.getAttribute('src')).toBe('data:image/png;base64,iVBORw0K');
+      expect(container.querySelector('.detail-image-meta')?.textContent).toBe('image/png');
+    });
+
+    it('shows thumbnails of the images in a cluster', () => {
+      panel.update({
+        type: 'cluster',
+        data: {
+          expanded: false,
+          index: 0,
+          thinkingCount: 0,
+          toolCount: 1,
+          userTurn: { content: [{ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }] },
+          assistantTurn: {
+            content: [
+              { type: 'tool_result', content: '[image]' },
+              { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'AAAA' } },
+            ],
+          },
+        },
+        turnIndex: 0,
+      });
+
+      const srcs = Array.from(container.querySelectorAll('.detail-images img')).map((img) => img.getAttribute('src'));
+      expect(srcs).toEqual(['https://example.com/a.png', 'data:image/jpeg;base64,AAAA']);
+    });
+
+    it('renders terminal colours in tool_result content with a raw toggle', () => {
+      const selection: Selection = {
+        type: 'tool_result',
+        data: { content: '\x1b[31mFAIL\x1b[0m 1 test', is_error: true },
+        turnIndex: 0,
+      };
+      panel.update(selection);
+
+      const result = container.querySelector('#tool-result-content')!;
+      expect(result.querySelector('.ansi-rendered')?.innerHTML).toBe('<span class="ansi-fg-1">FAIL</span> 1 test');
+      expect(result.querySelector('.ansi-raw')?.textContent).toBe('␛[31mFAIL␛[0m 1 test');
+
+      const toggle = container.querySelector('#toggle-ansi-raw-btn') as HTMLElement;
+      toggle.click();
+      expect(result.classList.contains('show-raw')).toBe(true);
+      expect(toggle.textContent).toBe('sidebar.formattedOutput');
+      toggle.click();
+      expect(result.classList.contains('show-raw')).toBe(false);
+    });
+
+    it('omits the raw toggle for plain tool output', () => {
+      panel.update({ type: 'tool_result', data: { content: 'plain' }, turnIndex: 0 });
+      expect(container.querySelector('#toggle-ansi-raw-btn')).toBeNull();
+    });
+
     it('renders tool_result content', () => {
       const selection: Selection = {
         type: 'tool_result',
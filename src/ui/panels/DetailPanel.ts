@@ -2,10 +2,23 @@
  * Detail Panel - displays information about the selected node
  */
 
-import { escapeHtml } from '../../export';
+import {
+  getToolDiff,
+  renderToolDiff,
+  formatToolDiff,
+  hasAnsi,
+  ansiToHtml,
+  formatRawAnsi,
+  imageBlockSource,
+  renderImageThumbnail,
+  type ToolDiff,
+  type DiffViewMode,
+} from '../../export';
+import { escapeHtml } from '../../utils/html';
 import { getUIText } from '../../config';
 import { t } from '../../i18n';
 import type { ViewerInterface, Selection, SearchableCluster } from '../types';
+import type { ContentBlock, ImageBlock } from '../../data/types';
 
 /**
  * DOM elements required by DetailPanel
@@ -62,6 +75,10 @@ export class DetailPanel {
   private copyableContent: Record<string, string> = {};
   private disposed = false;
   private activeTimeouts: Set<ReturnType<typeof setTimeout>> = new Set();
+  /** File change of the selected Edit/MultiEdit/Write call */
+  private currentDiff: ToolDiff | null = null;
+  /** Diff layout, kept across selections */
+  private diffMode: DiffViewMode = 'unified';
 
   constructor(elements: DetailPanelElements, viewer: ViewerInterface) {
     this.viewer = viewer;
@@ -134,6 +151,7 @@ export class DetailPanel {
 
     // Reset copyable content
     this.copyableContent = {};
+    this.currentDiff = null;
 
     let content = `<div class="detail-section">
     <div class="detail-section-label"><span>${escapeHtml(t('sidebar.type'))}</span></div>
@@ -344,6 +362,78 @@ export class DetailPanel {
       }
     }
 
+    // Images the user attached or tools returned
+    content += this.renderImages([
+      ...(cluster.userTurn?.content ?? []),
+      ...(cluster.assistantTurn?.content ?? []),
+    ] as ContentBlock[]);
+
+    return content;
+  }
+
+  /**
+   * Render thumbnails of the image blocks among content blocks
+   */
+  private renderImages(blocks: ContentBlock[]): string {
+    const thumbs = blocks
+      .filter((b): b is ImageBlock => b.type === 'image')
+      .map((b) => renderImageThumbnail(imageBlockSource(b), t('document.image')))
+      .join('');
+    if (!thumbs) return '';
+
+    return `<div class="detail-section">
+      <div class="detail-section-label">${escapeHtml(t('sidebar.images'))}</div>
+      <div class="detail-section-content detail-images">${thumbs}</div>
+    </div>`;
+  }
+
+  /**
+   * Render a compaction boundary: what happened, where the conversation
+   * continues, and the summary it continues from
+   */
+  private renderBoundaryDetails(data: unknown): string {
+    const boundary = data as {
+      clusterIndex: number;
+      kind: 'compact' | 'summary';
+      summary?: string;
+      trigger?: string;
+      preTokens?: number;
+    };
+
+    const facts = [t(boundary.kind === 'compact' ? 'compaction.compacted' : 'compaction.summarized')];
+    if (boundary.trigger) facts.push(t('compaction.trigger', { trigger: boundary.trigger }));
+    if (boundary.preTokens !== undefined) {
+      facts.push(t('compaction.preTokens', { tokens: boundary.preTokens.toLocaleString() }));
+    }
+
+    let content = `<div class="detail-section">
+      <div class="detail-section-label">${escapeHtml(t('compaction.label'))}</div>
+      <div class="detail-section-content">${escapeHtml(facts.join(' · '))}</div>
+    </div>`;
+
+    content += `<div class="detail-section">
+      <div class="detail-section-label">${escapeHtml(t('sidebar.turn'))}</div>
+      <div class="detail-section-content detail-actions">
+        <span>${escapeHtml(t('compaction.continuesAt', { turn: boundary.clusterIndex + 1 }))}</span>
+        <button id="focus-cluster-btn" class="detail-action-btn" data-cluster-index="${boundary.clusterIndex}" title="${escapeHtml(t('detail.centerCamera'))}">
+          ${escapeHtml(t('sidebar.focus'))}
+        </button>
+      </div>
+    </div>`;
+
+    if (boundary.summary) {
+      this.copyableContent['compaction-summary'] = boundary.summary;
+      content += `<div class="detail-section">
+        <div class="detail-section-label"><span>${escapeHtml(t('compaction.summary'))}</span><button class="copy-btn" data-copy-id="compaction-summary">${escapeHtml(t('sidebar.copy'))}</button></div>
+        <div class="detail-section-content compaction-summary">${escapeHtml(truncate(boundary.summary, 4000))}</div>
+      </div>`;
+    } else {
+      content += `<div class="detail-section">
+        <div class="detail-section-label">${escapeHtml(t('compaction.summary'))}</div>
+        <div class="detail-section-content">${escapeHtml(t('compaction.noSummary'))}</div>
+      </div>`;
+    }
+
     return content;
   }
 
@@ -408,6 +498,8 @@ export class DetailPanel {
         <div class="detail-section-content">${toolBlocks.map((b) => escapeHtml(b.name || 'unknown')).join(', ')}</div>
       </div>`;
       }
+
+      content += this.renderImages(turn.content as ContentBlock[]);
     } else if (type === 'thinking') {
       const block = data as { thinking?: string };
       if (block.thinking) {
@@ -423,7 +515,17 @@ export class DetailPanel {
       <div class="detail-section-label"><span>${escapeHtml(t('search.tool'))}</span></div>
       <div class="detail-section-content"><strong>${escapeHtml(block.name || 'unknown')}</strong></div>
     </div>`;
-      if (block.input) {
+      const diff = block.name ? getToolDiff(block.name, block.input) : null;
+      if (diff) {
+        this.currentDiff = diff;
+        this.copyableContent['tool-diff'] = formatToolDiff(diff);
+        const modeButton = (mode: DiffViewMode, label: string) =>
+          `<button class="diff-mode-btn${this.diffMode === mode ? ' active' : ''}" data-diff-mode="${mode}">${escapeHtml(label)}</button>`;
+        content += `<div class="detail-section">
+        <div class="detail-section-label"><span>${escapeHtml(t('sidebar.fileChange'))}</span><span class="diff-mode-toggle">${modeButton('unified', t('sidebar.diffUnified'))}${modeButton('split', t('sidebar.diffSplit'))}</span><button class="copy-btn" data-copy-id="tool-diff">${escapeHtml(t('sidebar.copy'))}</button></div>
+        <div id="tool-diff-content" class="detail-section-content diff-container">${renderToolDiff(diff, { mode: this.diffMode })}</div>
+      </div>`;
+      } else if (block.input) {
         const inputJson = JSON.stringify(block.input, null, 2);
         this.copyableContent['tool-input'] = inputJson;
         content += `<div class="detail-section">
@@ -431,13 +533,39 @@ export class DetailPanel {
         <div class="detail-section-content code">${escapeHtml(truncate(inputJson, 1500))}</div>
       </div>`;
       }
+    } else if (type === 'document') {
+      const block = data as ContentBlock;
+      if (block.type === 'image') {
+        const source = imageBlockSource(block);
+        const thumb = renderImageThumbnail(source, t('document.image'));
+        content += `<div class="detail-section">
+        <div class="detail-section-label">${escapeHtml(t('document.image'))}</div>
+        <div class="detail-section-content detail-images">${thumb || escapeHtml(t('document.noPreview'))}</div>
+        <div class="detail-section-content detail-image-meta">${escapeHtml(source.mediaType)}</div>
+      </div>`;
+      } else if (block.type === 'document') {
+        const title = block.title ? ` · ${block.title}` : '';
+        content += `<div class="detail-section">
+        <div class="detail-section-label">${escapeHtml(t('document.label'))}</div>
+        <div class="detail-section-content">${escapeHtml((block.source.media_type || 'application/octet-stream') + title)}</div>
+      </div>`;
+      }
+    } else if (type === 'boundary') {
+      content += this.renderBoundaryDetails(data);
     } else if (type === 'tool_result') {
       const block = data as { content?: string; is_error?: boolean };
       const resultContent = String(block.content || '');
       this.copyableContent['tool-result'] = resultContent;
+      const shown = truncate(resultContent, 2000);
+      // Terminal output: render colours and redrawn lines, with the raw text one click away
+      const ansi = hasAnsi(resultContent);
+      const rawToggle = ansi ? `<button id="toggle-ansi-raw-btn" class="ansi-raw-toggle">${escapeHtml(t('sidebar.rawOutput'))}</button>` : '';
+      const body = ansi
+        ? `<span class="ansi-rendered">${ansiToHtml(shown)}</span><span class="ansi-raw">${formatRawAnsi(shown)}</span>`
+        : escapeHtml(shown);
       content += `<div class="detail-section">
-      <div class="detail-section-label"><span>${escapeHtml(block.is_error ? t('sidebar.toolResultError') : t('sidebar.toolResult'))}</span><button class="copy-btn" data-copy-id="tool-result">${escapeHtml(t('sidebar.copy'))}</button></div>
-      <div class="detail-section-content code">${escapeHtml(truncate(resultContent, 2000))}</div>
+      <div class="detail-section-label"><span>${escapeHtml(block.is_error ? t('sidebar.toolResultError') : t('sidebar.toolResult'))}</span>${rawToggle}<button class="copy-btn" data-copy-id="tool-result">${escapeHtml(t('sidebar.copy'))}</button></div>
+      <div id="tool-result-content" class="detail-section-content code${ansi ? ' ansi-output' : ''}">${body}</div>
     </div>`;
     }
 
@@ -518,6 +646,28 @@ export class DetailPanel {
       }
     });
 
+    // Wire up terminal output raw/formatted toggle
+    const ansiToggleBtn = document.getElementById('toggle-ansi-raw-btn');
+    const resultContent = document.getElementById('tool-result-content');
+    ansiToggleBtn?.addEventListener('click', () => {
+      const showRaw = resultContent?.classList.toggle('show-raw') ?? false;
+      ansiToggleBtn.textContent = showRaw ? t('sidebar.formattedOutput') : t('sidebar.rawOutput');
+    });
+
+    // Wire up diff layout toggle
+    const diffContent = this.container.querySelector<HTMLElement>('#tool-diff-content');
+    this.container.querySelectorAll('.diff-mode-btn').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const mode = (btn as HTMLElement).dataset.diffMode as DiffViewMode | undefined;
+        if (!mode || !this.currentDiff || !diffContent) return;
+        this.diffMode = mode;
+        diffContent.innerHTML = renderToolDiff(this.currentDiff, { mode });
+        this.container.querySelectorAll('.diff-mode-btn').forEach((other) => {
+          other.classList.toggle('active', other === btn);
+        });
+      });
+    });
+
     // Wire up copy buttons
     this.container.querySelectorAll('.copy-btn').forEach((btn) => {
       btn.addEventListener('click', async () => {
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for DiagnosticsPanel
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import type { DiagnosticsViewer } from './DiagnosticsPanel';
+import type { ParseDiagnostic } from '../../data/types';
+
+function createMockViewer(diagnostics?: ParseDiagnostic[]): DiagnosticsViewer {
+  return {
+    getConversation: vi.fn().mockReturnValue(diagnostics ? { diagnostics } : null),
+    getClusterIndexForTurn: vi.fn((turnIndex: number) => Math.floor(turnIndex / 2)),
+    selectClusterByIndex: vi.fn(),
+    focusOnCluster: vi.fn(),
+  };
+}
+
+describe('DiagnosticsPanel', () => {
+  let container: HTMLElement;
+  let section: HTMLElement;
+  let countBadge: HTMLElement;
+  let panel: DiagnosticsPanel | null = null;
+
+  const sample: ParseDiagnostic[] = [
+    { kind: 'invalid-line', message: 'Line 3 is not valid JSON and was skipped', line: 3, turnIndex: 1 },
+    { kind: 'orphan-tool-result', message: 'Tool result references unknown tool_use_id "t9"', line: 7, turnIndex: 4 },
+    { kind: 'unknown-entry-type', message: 'Unknown entry type "x"' },
+  ];
+
+  beforeEach(() => {
+    section = document.createElement('div');
+    container = document.createElement('div');
+    countBadge = document.createElement('span');
+    section.appendChild(container);
+    document.body.appendChild(section);
+  });
+
+  afterEach(() => {
+    panel?.dispose();
+    panel = null;
+    section.remove();
+  });
+
+  it('hides the section when there are no diagnostics', () => {
+    panel = new DiagnosticsPanel({ container, section, countBadge }, createMockViewer([]));
+    panel.render();
+
+    expect(section.classList.contains('hidden')).toBe(true);
+    expect(countBadge.textContent).toBe('');
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('hides the section when no conversation is loaded', () => {
+    panel = new DiagnosticsPanel({ container, section }, createMockViewer());
+    panel.render();
+
+    expect(section.classList.contains('hidden')).toBe(true);
+  });
+
+  it('renders one item per diagnostic with its kind and line', () => {
+    panel = new DiagnosticsPanel({ container, section, countBadge }, createMockViewer(sample));
+    panel.render();
+
+    const items = container.querySelectorAll('.diagnostic-item');
+    expect(section.classList.contains('hidden')).toBe(false);
+    expect(countBadge.textContent).toBe('3');
+    expect(items).toHaveLength(3);
+    expect(items[0].classList.contains('invalid-line')).toBe(true);
+    expect(items[0].querySelector('.diagnostic-kind')?.textContent).toBe('diagnostics.invalidLine');
+    expect(items[0].querySelector('.diagnostic-line')?.textContent).toBe('diagnostics.line');
+    expect(items[2].querySelector('.diagnostic-line')).toBeNull();
+  });
+
+  it('shows messages in the reader\'s language when they carry their values', () => {
+    panel = new DiagnosticsPanel({ container }, createMockViewer([
+      ...sample,
+      { kind: 'broken-parent-chain', message: 'Parent entry "p1" is missing', subject: 'p1' },
+    ]));
+    panel.render();
+
+    const messages = Array.from(container.querySelectorAll('.diagnostic-message')).map(m => m.textContent);
+    expect(messages).toEqual([
+      'diagnostics.invalidLineMessage',
+      'Tool result references unknown tool_use_id "t9"',
+      'Unknown entry type "x"',
+      'diagnostics.brokenParentChainMessage',
+    ]);
+  });
+
+  it('escapes diagnostic messages', () => {
+    panel = new DiagnosticsPanel(
+      { container },
+      createMockViewer([{ kind: 'unknown-entry-type', message: '<img src=x>' }])
+    );
+    panel.render();
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('.diagnostic-message')?.textContent).toBe('<img src=x>');
+  });
+
+  it('selects and focuses the nearest cluster on click', () => {
+    const viewer = createMockViewer(sample);
+    panel = new DiagnosticsPanel({ container }, viewer);
+    panel.render();
+
+    const item = container.querySelectorAll<HTMLElement>('.diagnostic-item')[1];
+    item.querySelector<HTMLElement>('.diagnostic-message')!.click();
+
+    expect(viewer.getClusterIndexForTurn).toHaveBeenCalledWith(4);
+    expect(viewer.selectClusterByIndex).toHaveBeenCalledWith(2);
+    expect(viewer.focusOnCluster).toHaveBeenCalledWith(2);
+  });
+
+  it('ignores clicks on diagnostics without a turn', () => {
+    const viewer = createMockViewer(sample);
+    panel = new DiagnosticsPanel({ container }, viewer);
+    panel.render();
+
+    container.querySelectorAll<HTMLElement>('.diagnostic-item')[2].click();
+
+    expect(viewer.selectClusterByIndex).not.toHaveBeenCalled();
+  });
+
+  it('does not navigate when no cluster exists', () => {
+    const viewer = createMockViewer(sample);
+    vi.mocked(viewer.getClusterIndexForTurn).mockReturnValue(-1);
+    panel = new DiagnosticsPanel({ container }, viewer);
+    panel.render();
+
+    container.querySelector<HTMLElement>('.diagnostic-item')!.click();
+
+    expect(viewer.selectClusterByIndex).not.toHaveBeenCalled();
+    expect(viewer.focusOnCluster).not.toHaveBeenCalled();
+  });
+
+  it('stops rendering and handling clicks after dispose', () => {
+    const viewer = createMockViewer(sample);
+    panel = new DiagnosticsPanel({ container }, viewer);
+    panel.render();
+    const item = container.querySelector<HTMLElement>('.diagnostic-item')!;
+    panel.dispose();
+
+    container.appendChild(item);
+    item.click();
+    panel.render();
+
+    expect(viewer.selectClusterByIndex).not.toHaveBeenCalled();
+    expect(container.querySelectorAll('.diagnostic-item')).toHaveLength(1);
+  });
+});
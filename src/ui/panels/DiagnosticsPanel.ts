@@ -0,0 +1,146 @@
+/**
+ * Diagnostics Panel - lists problems found while parsing a trace
+ */
+
+import { escapeHtml } from '../../utils/html';
+import { t } from '../../i18n';
+import type { ParseDiagnostic, ParseDiagnosticKind } from '../../data/types';
+
+/**
+ * DOM elements required by DiagnosticsPanel
+ */
+export interface DiagnosticsPanelElements {
+  container: HTMLElement;
+  /** Sidebar section wrapper, hidden when there is nothing to report */
+  section?: HTMLElement | null;
+  countBadge?: HTMLElement | null;
+}
+
+/**
+ * Viewer interface required by DiagnosticsPanel
+ */
+export interface DiagnosticsViewer {
+  getConversation(): { diagnostics?: ParseDiagnostic[] } | null;
+  getClusterIndexForTurn(turnIndex: number): number;
+  selectClusterByIndex(index: number): void;
+  focusOnCluster(index: number): void;
+}
+
+const KIND_LABEL_KEYS: Record<ParseDiagnosticKind, string> = {
+  'invalid-line': 'diagnostics.invalidLine',
+  'unknown-entry-type': 'diagnostics.unknownEntryType',
+  'orphan-tool-result': 'diagnostics.orphanToolResult',
+  'broken-parent-chain': 'diagnostics.brokenParentChain',
+};
+
+const KIND_MESSAGE_KEYS: Record<ParseDiagnosticKind, string> = {
+  'invalid-line': 'diagnostics.invalidLineMessage',
+  'unknown-entry-type': 'diagnostics.unknownEntryTypeMessage',
+  'orphan-tool-result': 'diagnostics.orphanToolResultMessage',
+  'broken-parent-chain': 'diagnostics.brokenParentChainMessage',
+};
+
+/**
+ * Describe a diagnostic in the current locale.
+ * Diagnostics from other converters may lack the values the translation is
+ * built from, so their own message is shown instead.
+ */
+function describeDiagnostic(diagnostic: ParseDiagnostic): string {
+  const values: Record<string, string | number> | undefined = diagnostic.kind === 'invalid-line'
+    ? diagnostic.line !== undefined ? { line: diagnostic.line } : undefined
+    : diagnostic.subject !== undefined ? { subject: diagnostic.subject } : undefined;
+  return values ? t(KIND_MESSAGE_KEYS[diagnostic.kind], values) : diagnostic.message;
+}
+
+/**
+ * DiagnosticsPanel shows parse diagnostics in the sidebar and
+ * jumps to the nearest cluster when one is clicked
+ */
+export class DiagnosticsPanel {
+  private viewer: DiagnosticsViewer;
+  private container: HTMLElement;
+  private section: HTMLElement | null;
+  private countBadge: HTMLElement | null;
+  private disposed = false;
+
+  // Bound event handler for cleanup
+  private handleClick: (e: Event) => void;
+
+  constructor(elements: DiagnosticsPanelElements, viewer: DiagnosticsViewer) {
+    this.viewer = viewer;
+    this.container = elements.container;
+    this.section = elements.section ?? null;
+    this.countBadge = elements.countBadge ?? null;
+
+    this.handleClick = this.onClick.bind(this);
+    this.container.addEventListener('click', this.handleClick);
+  }
+
+  /**
+   * Render diagnostics for the current conversation
+   */
+  public render(): void {
+    if (this.disposed) return;
+
+    const diagnostics = this.viewer.getConversation()?.diagnostics ?? [];
+
+    this.section?.classList.toggle('hidden', diagnostics.length === 0);
+    if (this.countBadge) {
+      this.countBadge.textContent = diagnostics.length > 0 ? String(diagnostics.length) : '';
+    }
+
+    if (diagnostics.length === 0) {
+      this.container.innerHTML = '';
+      return;
+    }
+
+    this.container.innerHTML = diagnostics.map((diagnostic) => {
+      const label = t(KIND_LABEL_KEYS[diagnostic.kind]);
+      const turnAttr = diagnostic.turnIndex !== undefined
+        ? ` data-turn-index="${diagnostic.turnIndex}"`
+        : '';
+      const message = escapeHtml(describeDiagnostic(diagnostic));
+      const line = diagnostic.line !== undefined
+        ? `<span class="diagnostic-line">${escapeHtml(t('diagnostics.line', { line: diagnostic.line }))}</span>`
+        : '';
+
+      return `
+        <div class="diagnostic-item ${diagnostic.kind}${turnAttr ? ' navigable' : ''}"${turnAttr}>
+          <div class="diagnostic-header">
+            <span class="diagnostic-kind">${escapeHtml(label)}</span>
+            ${line}
+          </div>
+          <div class="diagnostic-message" title="${message}">${message}</div>
+        </div>
+      `;
+    }).join('');
+  }
+
+  /**
+   * Navigate to the cluster nearest a clicked diagnostic
+   */
+  private onClick(e: Event): void {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('.diagnostic-item[data-turn-index]');
+    if (!item) return;
+
+    const turnIndex = parseInt(item.dataset.turnIndex || '', 10);
+    if (isNaN(turnIndex)) return;
+
+    const clusterIndex = this.viewer.getClusterIndexForTurn(turnIndex);
+    if (clusterIndex < 0) return;
+
+    this.viewer.selectClusterByIndex(clusterIndex);
+    this.viewer.focusOnCluster(clusterIndex);
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.container.removeEventListener('click', this.handleClick);
+    this.container.innerHTML = '';
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for GalleryPanel
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GalleryPanel } from './GalleryPanel';
+import type { GalleryViewer } from './GalleryPanel';
+import type { DocumentMeta, SearchableCluster } from '../../data/types';
+
+function createCluster(clusterIndex: number, documents: DocumentMeta[]): SearchableCluster {
+  return {
+    clusterIndex,
+    userText: '',
+    assistantText: '',
+    thinkingBlocks: [],
+    toolUses: [],
+    toolResults: [],
+    documents,
+  };
+}
+
+function createMockViewer(clusters: SearchableCluster[]): GalleryViewer {
+  return {
+    getSearchableContent: vi.fn().mockReturnValue(clusters),
+    selectClusterByIndex: vi.fn(),
+    focusOnCluster: vi.fn(),
+  };
+}
+
+describe('GalleryPanel', () => {
+  let container: HTMLElement;
+  let section: HTMLElement;
+  let countBadge: HTMLElement;
+  let panel: GalleryPanel | null = null;
+
+  const screenshot: DocumentMeta = { mediaType: 'image/png', sourceType: 'base64', data: 'iVBORw0K', origin: 'user' };
+  const toolImage: DocumentMeta = { mediaType: 'image/jpeg', sourceType: 'url', url: 'https://example.com/b.jpg', origin: 'tool' };
+  const pdf: DocumentMeta = { mediaType: 'application/pdf', sourceType: 'base64', data: 'JVBERi0=' };
+
+  beforeEach(() => {
+    section = document.createElement('div');
+    container = document.createElement('div');
+    countBadge = document.createElement('span');
+    section.appendChild(container);
+    document.body.appendChild(section);
+  });
+
+  afterEach(() => {
+    panel?.dispose();
+    panel = null;
+    section.remove();
+  });
+
+  it('hides the section when the trace has no images', () => {
+    panel = new GalleryPanel({ container, section, countBadge }, createMockViewer([createCluster(0, [pdf])]));
+    panel.render();
+
+    expect(section.classList.contains('hidden')).toBe(true);
+    expect(countBadge.textContent).toBe('');
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('lists every image with its origin and turn', () => {
+    panel = new GalleryPanel(
+      { container, section, countBadge },
+      createMockViewer([createCluster(0, [screenshot, pdf]), createCluster(2, [toolImage])])
+    );
+    panel.render();
+
+    expect(section.classList.contains('hidden')).toBe(false);
+    expect(countBadge.textContent).toBe('2');
+
+    const items = container.querySelectorAll('.gallery-item');
+    expect(items).toHaveLength(2);
+    expect(items[0].classList.contains('user')).toBe(true);
+    expect(items[0].querySelector<HTMLImageElement>('img.image-thumb')?.getAttribute('src')).toBe('data:image/png;base64,iVBORw0K');
+    expect(items[1].classList.contains('tool')).toBe(true);
+    expect(items[1].querySelector('.gallery-origin')?.textContent).toBe('gallery.fromTool');
+    expect(items[1].querySelector<HTMLElement>('.gallery-jump')?.dataset.clusterIndex).toBe('2');
+  });
+
+  it('skips images it cannot display', () => {
+    const fileRef: DocumentMeta = { mediaType: 'image/png', sourceType: 'file', fileId: 'file_1' };
+    panel = new GalleryPanel({ container, section, countBadge }, createMockViewer([createCluster(0, [fileRef])]));
+    panel.render();
+
+    expect(section.classList.contains('hidden')).toBe(true);
+  });
+
+  it('replaces only the images from the changed cluster on', () => {
+    const viewer = createMockViewer([createCluster(0, [screenshot]), createCluster(1, [toolImage])]);
+    panel = new GalleryPanel({ container, section, countBadge }, viewer);
+    panel.render();
+    const first = container.querySelector('.gallery-item');
+
+    vi.mocked(viewer.getSearchableContent).mockReturnValue([
+      createCluster(0, [screenshot]),
+      createCluster(1, [toolImage, screenshot]),
+      createCluster(2, [pdf]),
+    ]);
+    panel.renderFrom(1);
+
+    const items = container.querySelectorAll<HTMLElement>('.gallery-item');
+    expect(Array.from(items, (item) => item.dataset.clusterIndex)).toEqual(['0', '1', '1']);
+    expect(items[0]).toBe(first);
+    expect(countBadge.textContent).toBe('3');
+  });
+
+  it('shows images appended to a trace that had none', () => {
+    const viewer = createMockViewer([createCluster(0, [pdf])]);
+    panel = new GalleryPanel({ container, section, countBadge }, viewer);
+    panel.render();
+
+    vi.mocked(viewer.getSearchableContent).mockReturnValue([createCluster(0, [pdf]), createCluster(1, [screenshot])]);
+    panel.renderFrom(1);
+
+    expect(container.querySelectorAll('.gallery-grid .gallery-item')).toHaveLength(1);
+    expect(section.classList.contains('hidden')).toBe(false);
+  });
+
+  it('jumps to the cluster of a clicked turn button', () => {
+    const viewer = createMockViewer([createCluster(3, [toolImage])]);
+    panel = new GalleryPanel({ container }, viewer);
+    panel.render();
+
+    (container.querySelector('.gallery-jump') as HTMLElement).click();
+
+    expect(viewer.selectClusterByIndex).toHaveBeenCalledWith(3);
+    expect(viewer.focusOnCluster).toHaveBeenCalledWith(3);
+  });
+
+  it('does not navigate when a thumbnail is clicked', () => {
+    const viewer = createMockViewer([createCluster(0, [screenshot])]);
+    panel = new GalleryPanel({ container }, viewer);
+    panel.render();
+
+    (container.querySelector('.image-thumb') as HTMLElement).click();
+
+    expect(viewer.selectClusterByIndex).not.toHaveBeenCalled();
+  });
+
+  it('clears its content on dispose', () => {
+    panel = new GalleryPanel({ container }, createMockViewer([createCluster(0, [screenshot])]));
+    panel.render();
+    panel.dispose();
+
+    expect(container.innerHTML).toBe('');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Gallery Panel - lists every image in a trace
+ */
+
+import { isImageDocument, renderImageThumbnail } from '../../export';
+import { escapeHtml } from '../../utils/html';
+import { t } from '../../i18n';
+import type { SearchableCluster } from '../../data/types';
+
+/**
+ * DOM elements required by GalleryPanel
+ */
+export interface GalleryPanelElements {
+  container: HTMLElement;
+  /** Sidebar section wrapper, hidden when the trace has no images */
+  section?: HTMLElement | null;
+  countBadge?: HTMLElement | null;
+}
+
+/**
+ * Viewer interface required by GalleryPanel
+ */
+export interface GalleryViewer {
+  getSearchableContent(): SearchableCluster[];
+  selectClusterByIndex(index: number): void;
+  focusOnCluster(index: number): void;
+}
+
+/**
+ * GalleryPanel shows thumbnails of the images users attached and tools
+ * returned, and jumps to an image's cluster from its turn button.
+ * Clicking a thumbnail opens the lightbox.
+ */
+export class GalleryPanel {
+  private viewer: GalleryViewer;
+  private container: HTMLElement;
+  private section: HTMLElement | null;
+  private countBadge: HTMLElement | null;
+  private disposed = false;
+
+  // Bound event handler for cleanup
+  private handleClick: (e: Event) => void;
+
+  constructor(elements: GalleryPanelElements, viewer: GalleryViewer) {
+    this.viewer = viewer;
+    this.container = elements.container;
+    this.section = elements.section ?? null;
+    this.countBadge = elements.countBadge ?? null;
+
+    this.handleClick = this.onClick.bind(this);
+    this.container.addEventListener('click', this.handleClick);
+  }
+
+  /**
+   * Render the images of the current conversation
+   */
+  public render(): void {
+    if (this.disposed) return;
+
+    const items = this.renderItems(this.viewer.getSearchableContent());
+    this.container.innerHTML = items.length > 0 ? `<div class="gallery-grid">${items.join('')}</div>` : '';
+    this.updateCount(items.length);
+  }
+
+  /**
+   * Re-render the images from a cluster on, keeping the ones before it
+   * (e.g. after turns were appended to a watched file)
+   * @param firstClusterIndex First cluster that was added or rebuilt
+   */
+  public renderFrom(firstClusterIndex: number): void {
+    if (this.disposed) return;
+    if (firstClusterIndex <= 0) {
+      this.render();
+      return;
+    }
+
+    // Items are in cluster order, so the changed ones are at the end
+    let grid = this.container.querySelector<HTMLElement>('.gallery-grid');
+    let item = grid?.lastElementChild as HTMLElement | null | undefined;
+    while (item && parseInt(item.dataset.clusterIndex || '0', 10) >= firstClusterIndex) {
+      const previous = item.previousElementSibling as HTMLElement | null;
+      item.remove();
+      item = previous;
+    }
+
+    const items = this.renderItems(this.viewer.getSearchableContent().slice(firstClusterIndex));
+    if (items.length > 0) {
+      if (!grid) {
+        this.container.innerHTML = '<div class="gallery-grid"></div>';
+        grid = this.container.querySelector<HTMLElement>('.gallery-grid')!;
+      }
+      grid.insertAdjacentHTML('beforeend', items.join(''));
+    }
+
+    const count = grid?.children.length ?? 0;
+    if (count === 0) this.container.innerHTML = '';
+    this.updateCount(count);
+  }
+
+  /**
+   * Build the gallery items for the images of clusters
+   */
+  private renderItems(clusters: SearchableCluster[]): string[] {
+    const items: string[] = [];
+    for (const cluster of clusters) {
+      const turn = cluster.clusterIndex + 1;
+      for (const doc of cluster.documents.filter(isImageDocument)) {
+        const origin = doc.origin ?? 'user';
+        const originLabel = origin === 'tool' ? t('gallery.fromTool') : t('gallery.fromUser');
+        const thumb = renderImageThumbnail(doc, doc.title || `${originLabel} · ${t('gallery.turn', { turn })}`);
+        if (!thumb) continue;
+
+        items.push(`
+        <div class="gallery-item ${origin}" data-cluster-index="${cluster.clusterIndex}">
+          ${thumb}
+          <div class="gallery-item-meta">
+            <span class="gallery-origin">${escapeHtml(originLabel)}</span>
+            <button class="gallery-jump" data-cluster-index="${cluster.clusterIndex}" title="${escapeHtml(t('gallery.jumpToTurn', { turn }))}">${escapeHtml(t('gallery.turn', { turn }))}</button>
+          </div>
+        </div>
+      `);
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Show the number of images, hiding the section when there are none
+   */
+  private updateCount(count: number): void {
+    this.section?.classList.toggle('hidden', count === 0);
+    if (this.countBadge) {
+      this.countBadge.textContent = count > 0 ? String(count) : '';
+    }
+  }
+
+  /**
+   * Navigate to the cluster of a clicked turn button
+   */
+  private onClick(e: Event): void {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('.gallery-jump[data-cluster-index]');
+    if (!button) return;
+
+    const clusterIndex = parseInt(button.dataset.clusterIndex || '', 10);
+    if (isNaN(clusterIndex)) return;
+
+    this.viewer.selectClusterByIndex(clusterIndex);
+    this.viewer.focusOnCluster(clusterIndex);
+  }
+
+  /**
+   * Clean up event listeners
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.container.removeEventListener('click', this.handleClick);
+    this.container.innerHTML = '';
+  }
+}
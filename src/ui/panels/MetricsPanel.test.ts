@@ -3,8 +3,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { MetricsPanel, formatMetricValue } from './MetricsPanel';
-import type { ViewerInterface, ClusterMetrics } from '../types';
+import { MetricsPanel, formatMetricValue, getSegmentRange } from './MetricsPanel';
+import type { MetricsViewer, ClusterMetrics, AgentMetrics, CompactionMarker } from '../types';
 
 // Mock canvas context
 const createMockContext = () => ({
@@ -23,11 +23,27 @@ const createMetrics = (count: number): ClusterMetrics[] => {
     thinkingCount: i % 2,
     toolCount: i % 3,
     contentLength: (i + 1) * 500,
+    contextTokens: (i + 1) * 1000,
   }));
 };
 
+// Create sample per-agent metrics
+const createAgent = (agentId: string, totalTokens: number, collapsed = false): AgentMetrics => ({
+  agentId,
+  spawnClusterIndex: 1,
+  clusterCount: 3,
+  totalTokens,
+  inputTokens: totalTokens / 2,
+  outputTokens: totalTokens / 2,
+  collapsed,
+});
+
 // Create mock viewer
-const createMockViewer = (metrics: ClusterMetrics[]): ViewerInterface => ({
+const createMockViewer = (
+  metrics: ClusterMetrics[],
+  agents: AgentMetrics[] = [],
+  boundaries: CompactionMarker[] = []
+): MetricsViewer => ({
   getClusterCount: vi.fn().mockReturnValue(metrics.length),
   getClusterMetrics: vi.fn().mockReturnValue(metrics),
   getSearchableContent: vi.fn().mockReturnValue([]),
@@ -38,6 +54,9 @@ const createMockViewer = (metrics: ClusterMetrics[]): ViewerInterface => ({
   highlightClustersWithWord: vi.fn().mockReturnValue([]),
   unhighlightClustersByColor: vi.fn(),
   clearAllHighlights: vi.fn(),
+  getAgentMetrics: vi.fn().mockReturnValue(agents),
+  toggleAgentCoil: vi.fn(),
+  getCompactionBoundaries: vi.fn().mockReturnValue(boundaries),
 });
 
 // Helper to mock read-only DOM properties
@@ -69,11 +88,23 @@ describe('formatMetricValue', () => {
   });
 });
 
+describe('getSegmentRange', () => {
+  it('spans everything without boundaries', () => {
+    expect(getSegmentRange([], 3, 10)).toEqual({ start: 0, end: 10 });
+  });
+
+  it('finds the stretch between compactions holding a cluster', () => {
+    expect(getSegmentRange([4, 7], 2, 10)).toEqual({ start: 0, end: 4 });
+    expect(getSegmentRange([4, 7], 4, 10)).toEqual({ start: 4, end: 7 });
+    expect(getSegmentRange([4, 7], 9, 10)).toEqual({ start: 7, end: 10 });
+  });
+});
+
 describe('MetricsPanel', () => {
   let container: HTMLElement;
   let rangeLabel: HTMLElement;
   let tooltip: HTMLElement;
-  let viewer: ViewerInterface;
+  let viewer: MetricsViewer;
   let panel: MetricsPanel | undefined;
 
   beforeEach(() => {
@@ -246,6 +277,231 @@ describe('MetricsPanel', () => {
     });
   });
 
+  describe('agent list', () => {
+    let agentList: HTMLElement;
+
+    beforeEach(() => {
+      panel?.dispose();
+      agentList = document.createElement('div');
+      viewer = createMockViewer(createMetrics(5), [
+        createAgent('agent-a', 1500),
+        createAgent('agent-b', 200, true),
+      ]);
+      panel = new MetricsPanel({ container, agentList }, viewer);
+    });
+
+    it('lists each agent with its token total', () => {
+      panel!.draw();
+
+      const rows = agentList.querySelectorAll<HTMLElement>('.agent-metric-row');
+      expect(rows).toHaveLength(2);
+      expect(rows[0].dataset.agentId).toBe('agent-a');
+      expect(rows[0].querySelector('.metric-total')?.textContent).toBe('1.5K');
+      expect(rows[1].querySelector('.metric-total')?.textContent).toBe('200');
+      expect(agentList.classList.contains('hidden')).toBe(false);
+    });
+
+    it('marks collapsed agent coils', () => {
+      panel!.draw();
+
+      const rows = agentList.querySelectorAll('.agent-metric-row');
+      expect(rows[0].classList.contains('collapsed')).toBe(false);
+      expect(rows[1].classList.contains('collapsed')).toBe(true);
+    });
+
+    it('toggles an agent coil when its row is clicked', () => {
+      panel!.draw();
+
+      const row = agentList.querySelector<HTMLElement>('[data-agent-id="agent-b"] .metric-label')!;
+      row.click();
+
+      expect(viewer.toggleAgentCoil).toHaveBeenCalledWith('agent-b');
+    });
+
+    it('hides the list without agents', () => {
+      vi.mocked(viewer.getAgentMetrics).mockReturnValue([]);
+      panel!.draw();
+
+      expect(agentList.classList.contains('hidden')).toBe(true);
+      expect(agentList.innerHTML).toBe('');
+    });
+
+    it('stops toggling after dispose', () => {
+      panel!.draw();
+      panel!.dispose();
+
+      agentList.querySelector<HTMLElement>('.agent-metric-row')!.click();
+
+      expect(viewer.toggleAgentCoil).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compaction boundaries', () => {
+    let compactionOption: HTMLElement;
+    let resetToggle: HTMLInputElement;
+    let ctx: ReturnType<typeof createMockContext>;
+
+    beforeEach(() => {
+      panel?.dispose();
+      compactionOption = document.createElement('label');
+      compactionOption.className = 'hidden';
+      resetToggle = document.createElement('input');
+      resetToggle.type = 'checkbox';
+      compactionOption.appendChild(resetToggle);
+
+      ctx = createMockContext();
+      container.querySelectorAll('canvas').forEach((canvas) => {
+        (canvas as any).getContext = vi.fn().mockReturnValue(ctx);
+      });
+
+      viewer = createMockViewer(createMetrics(5), [], [{ clusterIndex: 3, kind: 'compact' }]);
+      panel = new MetricsPanel({ container, rangeLabel, compactionOption, resetToggle }, viewer);
+    });
+
+    it('shows the reset option only when there are compactions', () => {
+      panel!.draw();
+      expect(compactionOption.classList.contains('hidden')).toBe(false);
+
+      vi.mocked(viewer.getCompactionBoundaries).mockReturnValue([]);
+      panel!.draw();
+      expect(compactionOption.classList.contains('hidden')).toBe(true);
+    });
+
+    it('draws a marker before the first cluster after a compaction', () => {
+      panel!.draw();
+
+      // 5 clusters in 400px: bars are (400 - 4) / 5 - 1 = 78.2px wide
+      const markerX = 2 + 3 * 79.2 - 1.5;
+      expect(ctx.fillRect).toHaveBeenCalledWith(markerX, 0, 2, 24);
+    });
+
+    it('totals the focused stretch when reset at compactions', () => {
+      resetToggle.checked = true;
+      resetToggle.dispatchEvent(new Event('change'));
+
+      panel!.setFocus(4);
+      // totalTokens of clusters 3 and 4: 400 + 500
+      expect(container.querySelector('.metric-total')?.textContent).toBe('900');
+      expect(rangeLabel.textContent).toBe('4-5');
+
+      panel!.setFocus(1);
+      expect(container.querySelector('.metric-total')?.textContent).toBe('600');
+      expect(rangeLabel.textContent).toBe('1-3');
+    });
+
+    it('totals the whole conversation by default', () => {
+      panel!.draw(4);
+      expect(container.querySelector('.metric-total')?.textContent).toBe('1.5K');
+    });
+  });
+
+  describe('context chart', () => {
+    let contextRow: HTMLElement;
+    let ctx: ReturnType<typeof createMockContext> & {
+      beginPath: ReturnType<typeof vi.fn>;
+      moveTo: ReturnType<typeof vi.fn>;
+      lineTo: ReturnType<typeof vi.fn>;
+      stroke: ReturnType<typeof vi.fn>;
+      strokeStyle: string;
+      lineWidth: number;
+    };
+
+    const contextMetrics = (): ClusterMetrics[] =>
+      createMetrics(4).map((m, i) => ({
+        ...m,
+        contextTokens: [50_000, 0, 150_000, 20_000][i],
+        model: 'claude-sonnet-4-5',
+      }));
+
+    beforeEach(() => {
+      panel?.dispose();
+      container.innerHTML = `
+        <div class="metric-row" data-metric="contextTokens">
+          <div class="metric-chart-container">
+            <canvas class="metric-canvas"></canvas>
+          </div>
+          <span class="metric-total"></span>
+        </div>
+      `;
+      contextRow = container.querySelector('.metric-row') as HTMLElement;
+
+      ctx = {
+        ...createMockContext(),
+        beginPath: vi.fn(),
+        moveTo: vi.fn(),
+        lineTo: vi.fn(),
+        stroke: vi.fn(),
+        strokeStyle: '',
+        lineWidth: 1,
+      };
+      const canvas = contextRow.querySelector('canvas') as HTMLCanvasElement;
+      (canvas as any).getContext = vi.fn().mockReturnValue(ctx);
+      mockElementProperty(canvas.parentElement!, 'clientWidth', 400);
+      mockElementProperty(canvas.parentElement!, 'scrollLeft', 0);
+
+      viewer = createMockViewer(contextMetrics(), [], [{ clusterIndex: 3, kind: 'compact' }]);
+      panel = new MetricsPanel({ container, rangeLabel, tooltip }, viewer);
+    });
+
+    it('draws occupancy as a line scaled to the context limit', () => {
+      panel!.draw(0);
+
+      // 4 clusters in 400px: bars are (400 - 4) / 4 - 1 = 98px wide, centres 99px apart
+      // Scale tops out at the 200K limit over a 36px plot
+      expect(ctx.moveTo).toHaveBeenCalledWith(51, 40 - 2 - 9);
+      expect(ctx.lineTo).toHaveBeenCalledTimes(2);
+      expect(ctx.lineTo).toHaveBeenCalledWith(249, 40 - 2 - 27);
+      expect(ctx.stroke).toHaveBeenCalled();
+    });
+
+    it('draws the model limit and compaction markers', () => {
+      panel!.draw(0);
+
+      expect(ctx.fillRect).toHaveBeenCalledWith(2, 2, 99, 1);
+      expect(ctx.fillRect).toHaveBeenCalledWith(2 + 3 * 99 - 1.5, 0, 2, 40);
+    });
+
+    it('scales to the peak when the model limit is unknown', () => {
+      vi.mocked(viewer.getClusterMetrics).mockReturnValue(
+        contextMetrics().map((m) => ({ ...m, model: 'mystery-model' }))
+      );
+      panel!.draw(0);
+
+      expect(ctx.lineTo).toHaveBeenCalledWith(249, 2);
+      expect(contextRow.querySelector('.metric-total')?.textContent).toBe('50.0K');
+    });
+
+    it('shows the focused turn as a share of the limit', () => {
+      panel!.draw(2);
+      const total = contextRow.querySelector('.metric-total') as HTMLElement;
+      expect(total.textContent).toBe('75%');
+      expect(total.title).toBe('metrics.contextOfLimit');
+
+      // A turn without usage reports the last known occupancy
+      panel!.setFocus(1);
+      expect(total.textContent).toBe('25%');
+    });
+
+    it('takes context limits from the model table it is given', () => {
+      panel!.dispose();
+      panel = new MetricsPanel({ container, rangeLabel, tooltip }, viewer, {
+        contextLimits: [{ prefix: 'claude', contextWindow: 100_000 }],
+      });
+
+      panel.draw(2);
+      expect(contextRow.querySelector('.metric-total')?.textContent).toBe('150%');
+    });
+
+    it('jumps to the clicked cluster', () => {
+      const chartContainer = contextRow.querySelector('.metric-chart-container') as HTMLElement;
+      chartContainer.getBoundingClientRect = vi.fn().mockReturnValue({ left: 0, top: 0, width: 400, height: 40 });
+
+      chartContainer.querySelector('canvas')!.dispatchEvent(new MouseEvent('click', { clientX: 260, bubbles: true }));
+
+      expect(viewer.selectClusterByIndex).toHaveBeenCalledWith(2);
+    });
+  });
+
   describe('dispose', () => {
     it('removes event listeners', () => {
       const removeEventListenerSpy = vi.spyOn(container, 'removeEventListener');
@@ -1,25 +1,25 @@
 /**
- * Metrics Panel - displays per-cluster metrics as bar charts
+ * Metrics Panel - displays per-cluster metrics as bar charts,
+ * context window occupancy as a line against the model's limit,
+ * and per-agent token totals, marking compaction boundaries
  */
 
+import { escapeHtml } from '../../utils/html';
 import { t } from '../../i18n';
-import type { MetricKey, ViewerInterface, MetricsPanelElements } from '../types';
+import { DEFAULT_MODEL_CONFIG, DEFAULT_THEME_CONFIG, getContextLimit, type ModelConfig } from '../../config';
+import type { ClusterMetrics, MetricKey, MetricsViewer, MetricsPanelElements } from '../types';
 
 // Chart layout constants
 const MIN_BAR_WIDTH = 4;
 const BAR_GAP = 1;
 const CHART_PADDING = 2;
 const CHART_HEIGHT = 24;
+const CONTEXT_CHART_HEIGHT = 40;
+const BOUNDARY_MARKER_WIDTH = 2;
+const BOUNDARY_COLOR = '#e67e22';
 
 // Color palette for different metrics
-const METRIC_COLORS: Record<MetricKey, string> = {
-  totalTokens: '#4a90d9',
-  outputTokens: '#50c878',
-  inputTokens: '#9b59b6',
-  thinkingCount: '#9b59b6',
-  toolCount: '#f39c12',
-  contentLength: '#888888',
-};
+const CHART_COLORS = DEFAULT_THEME_CONFIG.chart;
 
 /**
  * Format large numbers compactly (1000 -> 1K, 1000000 -> 1M)
@@ -34,6 +34,36 @@ export function formatMetricValue(value: number): string {
   return value.toString();
 }
 
+/**
+ * Find the stretch between compactions that holds a cluster
+ * @param boundaries First cluster after each compaction, in order
+ * @returns Cluster range, end exclusive
+ */
+export function getSegmentRange(
+  boundaries: number[],
+  index: number,
+  clusterCount: number
+): { start: number; end: number } {
+  let start = 0;
+  let end = clusterCount;
+  for (const boundary of boundaries) {
+    if (boundary <= index) start = Math.max(start, boundary);
+    else end = Math.min(end, boundary);
+  }
+  return { start, end };
+}
+
+/**
+ * Context occupancy to report for a cluster: its own, or the last known
+ * before it when the cluster has no usage (e.g. a user-only turn)
+ */
+function getContextAt(metrics: ClusterMetrics[], index: number): ClusterMetrics | undefined {
+  for (let i = Math.min(index, metrics.length - 1); i >= 0; i--) {
+    if (metrics[i].contextTokens > 0) return metrics[i];
+  }
+  return undefined;
+}
+
 /**
  * Calculate which cluster index is at a given x position
  */
@@ -51,33 +81,52 @@ function getClusterIndexAtPosition(
  * MetricsPanel manages the metrics bar charts in the sidebar
  */
 export class MetricsPanel {
-  private viewer: ViewerInterface;
+  private viewer: MetricsViewer;
   private container: HTMLElement;
   private rangeLabel: HTMLElement | null;
   private tooltip: HTMLElement | null;
+  private agentList: HTMLElement | null;
+  private compactionOption: HTMLElement | null;
+  private resetToggle: HTMLInputElement | null;
   private focusIndex: number = 0;
+  /** Scale charts and totals to the stretch between compactions */
+  private resetAtCompaction = false;
+  private models: ModelConfig;
   private disposed = false;
 
   // Bound event handlers for cleanup
   private handleClick: (e: MouseEvent) => void;
   private handleMouseMove: (e: MouseEvent) => void;
   private handleMouseLeave: () => void;
+  private handleAgentClick: (e: Event) => void;
+  private handleResetToggle: () => void;
 
-  constructor(elements: MetricsPanelElements, viewer: ViewerInterface) {
+  /**
+   * @param models Model table used to look up each turn's context limit
+   */
+  constructor(elements: MetricsPanelElements, viewer: MetricsViewer, models: ModelConfig = DEFAULT_MODEL_CONFIG) {
     this.viewer = viewer;
+    this.models = models;
     this.container = elements.container;
     this.rangeLabel = elements.rangeLabel ?? null;
     this.tooltip = elements.tooltip ?? null;
+    this.agentList = elements.agentList ?? null;
+    this.compactionOption = elements.compactionOption ?? null;
+    this.resetToggle = elements.resetToggle ?? null;
 
     // Bind event handlers
     this.handleClick = this.onClick.bind(this);
     this.handleMouseMove = this.onMouseMove.bind(this);
     this.handleMouseLeave = this.onMouseLeave.bind(this);
+    this.handleAgentClick = this.onAgentClick.bind(this);
+    this.handleResetToggle = () => this.setResetAtCompaction(this.resetToggle?.checked ?? false);
 
     // Wire up events
     this.container.addEventListener('click', this.handleClick);
     this.container.addEventListener('mousemove', this.handleMouseMove);
     this.container.addEventListener('mouseleave', this.handleMouseLeave);
+    this.agentList?.addEventListener('click', this.handleAgentClick);
+    this.resetToggle?.addEventListener('change', this.handleResetToggle);
   }
 
   /**
@@ -90,12 +139,23 @@ export class MetricsPanel {
       this.focusIndex = focusIndex;
     }
 
+    this.renderAgents();
+
+    const boundaries = this.viewer.getCompactionBoundaries().map((b) => b.clusterIndex);
+    this.compactionOption?.classList.toggle('hidden', boundaries.length === 0);
+
     const metrics = this.viewer.getClusterMetrics();
     if (metrics.length === 0) return;
 
+    // Totals cover the whole conversation, or the focused stretch between compactions
+    const reset = this.resetAtCompaction && boundaries.length > 0;
+    const { start, end } = reset
+      ? getSegmentRange(boundaries, this.focusIndex, metrics.length)
+      : { start: 0, end: metrics.length };
+
     // Update range label
     if (this.rangeLabel) {
-      this.rangeLabel.textContent = `1-${metrics.length}`;
+      this.rangeLabel.textContent = `${start + 1}-${end}`;
     }
 
     // Draw each visible chart row
@@ -107,12 +167,18 @@ export class MetricsPanel {
 
       if (!metricKey || !canvas) return;
 
+      if (metricKey === 'contextTokens') {
+        this.drawContextChart(canvas, metrics, this.focusIndex, boundaries);
+        if (totalEl) this.updateContextTotal(totalEl, metrics);
+        return;
+      }
+
       const values = metrics.map((m) => m[metricKey]);
-      this.drawChart(canvas, values, this.focusIndex, METRIC_COLORS[metricKey]);
+      this.drawChart(canvas, values, this.focusIndex, CHART_COLORS[metricKey], boundaries, reset);
 
       // Update total
       if (totalEl) {
-        const total = values.reduce((sum, v) => sum + v, 0);
+        const total = values.slice(start, end).reduce((sum, v) => sum + v, 0);
         totalEl.textContent = formatMetricValue(total);
       }
     });
@@ -126,6 +192,16 @@ export class MetricsPanel {
     this.draw();
   }
 
+  /**
+   * Scale charts and totals to the stretch between compactions holding
+   * the focused cluster, or to the whole conversation
+   */
+  public setResetAtCompaction(reset: boolean): void {
+    this.resetAtCompaction = reset;
+    if (this.resetToggle) this.resetToggle.checked = reset;
+    this.draw();
+  }
+
   /**
    * Clean up event listeners
    */
@@ -134,31 +210,93 @@ export class MetricsPanel {
     this.container.removeEventListener('click', this.handleClick);
     this.container.removeEventListener('mousemove', this.handleMouseMove);
     this.container.removeEventListener('mouseleave', this.handleMouseLeave);
+    this.agentList?.removeEventListener('click', this.handleAgentClick);
+    this.resetToggle?.removeEventListener('change', this.handleResetToggle);
   }
 
   /**
-   * Draw a single metric chart
+   * Render the sub-agent list with per-agent token totals
    */
-  private drawChart(
+  private renderAgents(): void {
+    if (!this.agentList) return;
+
+    const agents = this.viewer.getAgentMetrics();
+    this.agentList.classList.toggle('hidden', agents.length === 0);
+    if (agents.length === 0) {
+      this.agentList.innerHTML = '';
+      return;
+    }
+
+    const rows = agents.map((agent, i) => `
+      <div class="agent-metric-row${agent.collapsed ? ' collapsed' : ''}" data-agent-id="${escapeHtml(agent.agentId)}" title="${escapeHtml(t('metrics.agentToggle'))}">
+        <span class="agent-metric-arrow">${agent.collapsed ? '&#9658;' : '&#9660;'}</span>
+        <span class="metric-label" title="${escapeHtml(agent.agentId)}">${escapeHtml(t('metrics.agent', { number: i + 1 }))}</span>
+        <span class="agent-metric-turns">${escapeHtml(t('metrics.agentTurns', { count: agent.clusterCount }))}</span>
+        <span class="metric-total" title="${agent.totalTokens.toLocaleString()}">${formatMetricValue(agent.totalTokens)}</span>
+      </div>
+    `).join('');
+
+    this.agentList.innerHTML = `<div class="agent-metrics-header">${escapeHtml(t('metrics.agents'))}</div>${rows}`;
+  }
+
+  /**
+   * Collapse or unfold an agent's coil when its row is clicked
+   */
+  private onAgentClick(e: Event): void {
+    const row = (e.target as HTMLElement).closest<HTMLElement>('.agent-metric-row[data-agent-id]');
+    const agentId = row?.dataset.agentId;
+    if (!agentId) return;
+
+    this.viewer.toggleAgentCoil(agentId);
+    this.renderAgents();
+  }
+
+  /**
+   * Show the focused turn's context occupancy, as a share of its model's limit if known
+   */
+  private updateContextTotal(totalEl: HTMLElement, metrics: ClusterMetrics[]): void {
+    const current = getContextAt(metrics, this.focusIndex);
+    if (!current) {
+      totalEl.textContent = '0';
+      totalEl.title = '';
+      return;
+    }
+
+    const limit = getContextLimit(current.model, this.models);
+    if (limit) {
+      const percent = Math.round((current.contextTokens / limit) * 100);
+      totalEl.textContent = `${percent}%`;
+      totalEl.title = t('metrics.contextOfLimit', {
+        tokens: current.contextTokens.toLocaleString(),
+        limit: limit.toLocaleString(),
+        percent,
+      });
+    } else {
+      totalEl.textContent = formatMetricValue(current.contextTokens);
+      totalEl.title = t('metrics.contextHint');
+    }
+  }
+
+  /**
+   * Size a chart canvas to fit one bar slot per cluster
+   */
+  private prepareCanvas(
     canvas: HTMLCanvasElement,
-    values: number[],
-    focusIndex: number,
-    color: string
-  ): void {
-    const maxValue = Math.max(...values, 1);
+    count: number,
+    height: number
+  ): { ctx: CanvasRenderingContext2D; container: HTMLElement; barWidth: number; canvasWidth: number } | null {
     const container = canvas.parentElement;
-    if (!container) return;
+    if (!container) return null;
 
     const dpr = window.devicePixelRatio || 1;
     const containerWidth = container.clientWidth;
-    const height = CHART_HEIGHT;
 
     // Calculate bar width - use minimum if needed, otherwise fit to container
-    const naturalBarWidth = (containerWidth - CHART_PADDING * 2) / values.length - BAR_GAP;
+    const naturalBarWidth = (containerWidth - CHART_PADDING * 2) / count - BAR_GAP;
     const barWidth = Math.max(MIN_BAR_WIDTH, naturalBarWidth);
 
     // Calculate required canvas width
-    const requiredWidth = CHART_PADDING * 2 + values.length * (barWidth + BAR_GAP);
+    const requiredWidth = CHART_PADDING * 2 + count * (barWidth + BAR_GAP);
     const canvasWidth = Math.max(containerWidth, requiredWidth);
 
     // Set canvas size
@@ -168,14 +306,129 @@ export class MetricsPanel {
     canvas.style.height = `${height}px`;
 
     const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    if (!ctx) return null;
 
     ctx.scale(dpr, dpr);
 
     // Clear
-    ctx.fillStyle = '#2a2a40';
+    ctx.fillStyle = CHART_COLORS.background;
     ctx.fillRect(0, 0, canvasWidth, height);
 
+    return { ctx, container, barWidth, canvasWidth };
+  }
+
+  /**
+   * Compaction markers sit in the gap before the first bar after each boundary
+   */
+  private drawBoundaryMarkers(
+    ctx: CanvasRenderingContext2D,
+    boundaries: number[],
+    count: number,
+    barWidth: number,
+    height: number
+  ): void {
+    ctx.fillStyle = BOUNDARY_COLOR;
+    for (const boundary of boundaries) {
+      if (boundary < 0 || boundary >= count) continue;
+      const x = CHART_PADDING + boundary * (barWidth + BAR_GAP) - (BAR_GAP + BOUNDARY_MARKER_WIDTH) / 2;
+      ctx.fillRect(Math.max(0, x), 0, BOUNDARY_MARKER_WIDTH, height);
+    }
+  }
+
+  /**
+   * Auto-scroll to focused bar if needed
+   */
+  private scrollToFocus(container: HTMLElement, focusIndex: number, barWidth: number, canvasWidth: number): void {
+    const containerWidth = container.clientWidth;
+    if (canvasWidth > containerWidth) {
+      const focusX = CHART_PADDING + focusIndex * (barWidth + BAR_GAP);
+      const scrollTarget = focusX - containerWidth / 2 + barWidth / 2;
+      container.scrollLeft = Math.max(0, Math.min(scrollTarget, canvasWidth - containerWidth));
+    }
+  }
+
+  /**
+   * Draw context occupancy as a line, with each turn's model limit and compaction markers
+   *
+   * The scale always includes the limit, so the line shows how close each turn came to it.
+   */
+  private drawContextChart(
+    canvas: HTMLCanvasElement,
+    metrics: ClusterMetrics[],
+    focusIndex: number,
+    boundaries: number[]
+  ): void {
+    const height = CONTEXT_CHART_HEIGHT;
+    const prepared = this.prepareCanvas(canvas, metrics.length, height);
+    if (!prepared) return;
+    const { ctx, container, barWidth, canvasWidth } = prepared;
+
+    const limits = metrics.map((m) => getContextLimit(m.model, this.models));
+    const maxValue = Math.max(...metrics.map((m) => m.contextTokens), ...limits.map((l) => l ?? 0), 1);
+    const plotHeight = height - CHART_PADDING * 2;
+    const yFor = (value: number) => height - CHART_PADDING - (value / maxValue) * plotHeight;
+    const xFor = (i: number) => CHART_PADDING + i * (barWidth + BAR_GAP) + barWidth / 2;
+
+    // Limit line, drawn per turn so a change of model shows as a step
+    ctx.fillStyle = CHART_COLORS.contextLimit;
+    limits.forEach((limit, i) => {
+      if (!limit) return;
+      ctx.fillRect(CHART_PADDING + i * (barWidth + BAR_GAP), Math.round(yFor(limit)), barWidth + BAR_GAP, 1);
+    });
+
+    // Occupancy line, bridging turns without usage
+    ctx.strokeStyle = CHART_COLORS.contextTokens;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let started = false;
+    metrics.forEach((m, i) => {
+      if (m.contextTokens <= 0) return;
+      if (started) {
+        ctx.lineTo(xFor(i), yFor(m.contextTokens));
+      } else {
+        ctx.moveTo(xFor(i), yFor(m.contextTokens));
+        started = true;
+      }
+    });
+    ctx.stroke();
+
+    // Highlight focused turn
+    const focused = metrics[focusIndex];
+    if (focused && focused.contextTokens > 0) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(xFor(focusIndex) - 2, yFor(focused.contextTokens) - 2, 4, 4);
+    }
+
+    this.drawBoundaryMarkers(ctx, boundaries, metrics.length, barWidth, height);
+    this.scrollToFocus(container, focusIndex, barWidth, canvasWidth);
+  }
+
+  /**
+   * Draw a single metric chart, with a marker before each compaction
+   * @param resetAtBoundaries Scale each stretch between compactions on its own
+   */
+  private drawChart(
+    canvas: HTMLCanvasElement,
+    values: number[],
+    focusIndex: number,
+    color: string,
+    boundaries: number[] = [],
+    resetAtBoundaries = false
+  ): void {
+    // Bars are scaled to the whole chart, or to their own stretch between compactions
+    const maxValues = new Array<number>(values.length).fill(Math.max(...values, 1));
+    if (resetAtBoundaries) {
+      const inner = boundaries.filter((b) => b > 0 && b < values.length).sort((a, b) => a - b);
+      const starts = [0, ...inner, values.length];
+      for (let s = 0; s < starts.length - 1; s++) {
+        maxValues.fill(Math.max(...values.slice(starts[s], starts[s + 1]), 1), starts[s], starts[s + 1]);
+      }
+    }
+    const height = CHART_HEIGHT;
+    const prepared = this.prepareCanvas(canvas, values.length, height);
+    if (!prepared) return;
+    const { ctx, container, barWidth, canvasWidth } = prepared;
+
     // Draw bars
     const minBarHeight = 3; // Minimum visible height for non-zero values
     for (let i = 0; i < values.length; i++) {
@@ -185,7 +438,7 @@ export class MetricsPanel {
       if (value === 0) continue;
 
       // Non-zero values get at least minBarHeight so they're visible
-      const scaledHeight = (value / maxValue) * (height - CHART_PADDING * 2);
+      const scaledHeight = (value / maxValues[i]) * (height - CHART_PADDING * 2);
       const barHeight = Math.max(minBarHeight, scaledHeight);
       const x = CHART_PADDING + i * (barWidth + BAR_GAP);
       const y = height - CHART_PADDING - barHeight;
@@ -195,12 +448,8 @@ export class MetricsPanel {
       ctx.fillRect(x, y, barWidth, barHeight);
     }
 
-    // Auto-scroll to focused bar if needed
-    if (canvasWidth > containerWidth) {
-      const focusX = CHART_PADDING + focusIndex * (barWidth + BAR_GAP);
-      const scrollTarget = focusX - containerWidth / 2 + barWidth / 2;
-      container.scrollLeft = Math.max(0, Math.min(scrollTarget, canvasWidth - containerWidth));
-    }
+    this.drawBoundaryMarkers(ctx, boundaries, values.length, barWidth, height);
+    this.scrollToFocus(container, focusIndex, barWidth, canvasWidth);
   }
 
   /**
@@ -259,7 +508,18 @@ export class MetricsPanel {
       const valueEl = this.tooltip.querySelector('.tooltip-value');
 
       if (turnEl) turnEl.textContent = t('metrics.turnNumber', { number: clusterIndex + 1 });
-      if (valueEl) valueEl.textContent = value.toLocaleString();
+      if (valueEl) {
+        const limit = metricKey === 'contextTokens' && value > 0
+          ? getContextLimit(metrics[clusterIndex].model, this.models)
+          : undefined;
+        valueEl.textContent = limit
+          ? t('metrics.contextOfLimit', {
+            tokens: value.toLocaleString(),
+            limit: limit.toLocaleString(),
+            percent: Math.round((value / limit) * 100),
+          })
+          : value.toLocaleString();
+      }
 
       // Position tooltip near cursor
       this.tooltip.style.left = `${e.clientX + 12}px`;
@@ -339,6 +339,37 @@ describe('WordFrequencyPanel', () => {
     });
   });
 
+  describe('renderFrom', () => {
+    const countOf = (word: string) =>
+      container.querySelector(`.word-freq-row[data-word="${word}"] .word-freq-count`)?.textContent;
+
+    it('recounts only the changed clusters', () => {
+      panel.render();
+      expect(countOf('testing')).toBe('3');
+
+      const clusters = createMockClusters();
+      clusters[1] = { ...clusters[1], assistantText: 'Quality matters' };
+      clusters.push({ ...clusters[1], clusterIndex: 2, userText: 'Testing again' });
+      vi.mocked(viewer.getSearchableContent).mockReturnValue(clusters);
+      panel.renderFrom(1);
+
+      expect(countOf('testing')).toBe('3');
+      expect(countOf('quality')).toBe('4');
+
+      // Same rows as counting everything again
+      const fresh = document.createElement('div');
+      new WordFrequencyPanel({ container: fresh, sourceSelect }, viewer).render();
+      expect(container.innerHTML).toBe(fresh.innerHTML);
+    });
+
+    it('renders everything when an earlier cluster changed', () => {
+      panel.render();
+      vi.mocked(viewer.getSearchableContent).mockReturnValue([]);
+      panel.renderFrom(0);
+      expect(container.innerHTML).toContain('sidebar.noWordsFound');
+    });
+  });
+
   describe('source selector', () => {
     it('re-renders when source changes', () => {
       panel.render();
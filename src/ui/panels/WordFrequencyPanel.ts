@@ -2,7 +2,7 @@
  * Word Frequency Panel - displays top words with highlighting
  */
 
-import { escapeHtml } from '../../export';
+import { escapeHtml } from '../../utils/html';
 import { t } from '../../i18n';
 import type { ViewerInterface, SearchableCluster } from '../types';
 
@@ -72,45 +72,69 @@ export function extractWords(text: string): Map<string, number> {
 }
 
 /**
- * Get word frequencies from searchable content
+ * Count the words of one cluster's text from a source
  */
-export function getWordFrequencies(
-  searchableContent: SearchableCluster[],
+export function countClusterWords(
+  cluster: SearchableCluster,
   source: WordFrequencySource
-): Array<{ word: string; count: number }> {
-  const allWords = new Map<string, number>();
+): Map<string, number> {
+  const textsToAnalyze: string[] = [];
 
-  for (const cluster of searchableContent) {
-    const textsToAnalyze: string[] = [];
+  if (source === 'all' || source === 'user') {
+    if (cluster.userText) textsToAnalyze.push(cluster.userText);
+  }
 
-    if (source === 'all' || source === 'user') {
-      if (cluster.userText) textsToAnalyze.push(cluster.userText);
-    }
+  if (source === 'all' || source === 'assistant') {
+    if (cluster.assistantText) textsToAnalyze.push(cluster.assistantText);
+  }
 
-    if (source === 'all' || source === 'assistant') {
-      if (cluster.assistantText) textsToAnalyze.push(cluster.assistantText);
-    }
+  if (source === 'all' || source === 'thinking') {
+    textsToAnalyze.push(...cluster.thinkingBlocks.map(t => t.text));
+  }
 
-    if (source === 'all' || source === 'thinking') {
-      textsToAnalyze.push(...cluster.thinkingBlocks.map(t => t.text));
-    }
+  return extractWords(textsToAnalyze.join(' '));
+}
 
-    // Extract and merge word counts
-    for (const text of textsToAnalyze) {
-      const words = extractWords(text);
-      for (const [word, count] of words) {
-        allWords.set(word, (allWords.get(word) || 0) + count);
-      }
+/**
+ * Add (or with a negative sign, remove) word counts into a total
+ */
+function mergeWordCounts(total: Map<string, number>, words: Map<string, number>, sign = 1): void {
+  for (const [word, count] of words) {
+    const merged = (total.get(word) || 0) + sign * count;
+    if (merged > 0) {
+      total.set(word, merged);
+    } else {
+      total.delete(word);
     }
   }
+}
 
-  // Sort by count and return top 10
-  return Array.from(allWords.entries())
+/**
+ * Get the 10 most frequent words of a count
+ */
+function topWords(counts: Map<string, number>): Array<{ word: string; count: number }> {
+  return Array.from(counts.entries())
     .map(([word, count]) => ({ word, count }))
     .sort((a, b) => b.count - a.count)
     .slice(0, 10);
 }
 
+/**
+ * Get word frequencies from searchable content
+ */
+export function getWordFrequencies(
+  searchableContent: SearchableCluster[],
+  source: WordFrequencySource
+): Array<{ word: string; count: number }> {
+  const allWords = new Map<string, number>();
+
+  for (const cluster of searchableContent) {
+    mergeWordCounts(allWords, countClusterWords(cluster, source));
+  }
+
+  return topWords(allWords);
+}
+
 /**
  * Convert hex color to CSS string
  */
@@ -135,6 +159,11 @@ export class WordFrequencyPanel {
   private highlightedWords = new Map<string, number>(); // word -> color
   private disposed = false;
 
+  // Word counts of the rendered clusters, with the last cluster's share kept
+  // apart so it can be recounted when that cluster grows
+  private wordCounts = new Map<string, number>();
+  private lastCluster: { clusterIndex: number; words: Map<string, number> } | null = null;
+
   // Bound event handler for cleanup
   private handleSourceChange: () => void;
 
@@ -159,9 +188,51 @@ export class WordFrequencyPanel {
     // Clear highlights when re-rendering (source changed)
     this.clearHighlights();
 
+    this.wordCounts = new Map();
+    this.lastCluster = null;
+    this.countClusters(this.viewer.getSearchableContent());
+    this.drawFrequencies();
+  }
+
+  /**
+   * Count the words of clusters from one on, keeping the counts before it
+   * (e.g. after turns were appended to a watched file)
+   * @param firstClusterIndex First cluster that was added or rebuilt
+   */
+  public renderFrom(firstClusterIndex: number): void {
+    if (this.disposed) return;
+
+    const last = this.lastCluster;
+    if (!last || firstClusterIndex < last.clusterIndex) {
+      this.render();
+      return;
+    }
+
+    this.clearHighlights();
+    if (firstClusterIndex === last.clusterIndex) {
+      mergeWordCounts(this.wordCounts, last.words, -1);
+    }
+    this.countClusters(this.viewer.getSearchableContent().slice(firstClusterIndex));
+    this.drawFrequencies();
+  }
+
+  /**
+   * Add the word counts of clusters to the totals
+   */
+  private countClusters(clusters: SearchableCluster[]): void {
     const source = (this.sourceSelect?.value || 'all') as WordFrequencySource;
-    const searchableContent = this.viewer.getSearchableContent();
-    const frequencies = getWordFrequencies(searchableContent, source);
+    for (const cluster of clusters) {
+      const words = countClusterWords(cluster, source);
+      mergeWordCounts(this.wordCounts, words);
+      this.lastCluster = { clusterIndex: cluster.clusterIndex, words };
+    }
+  }
+
+  /**
+   * Draw the top words of the current counts
+   */
+  private drawFrequencies(): void {
+    const frequencies = topWords(this.wordCounts);
 
     if (frequencies.length === 0) {
       this.container.innerHTML = `<div style="color: #666; font-size: 11px; text-align: center; padding: 20px;">${escapeHtml(t('sidebar.noWordsFound'))}</div>`;
@@ -13,10 +13,15 @@ export {
 } from './WordFrequencyPanel';
 export { ConversationPanel } from './ConversationPanel';
 export { CoilControlsPanel } from './CoilControlsPanel';
+export { DiagnosticsPanel } from './DiagnosticsPanel';
+export { GalleryPanel } from './GalleryPanel';
 export type { WordFrequencyPanelElements, WordFrequencySource } from './WordFrequencyPanel';
 export type { ConversationPanelElements, ConversationFilterState } from './ConversationPanel';
 export type {
   CoilControlsPanelElements,
   CoilControllableViewer,
   CoilParams,
+  LayoutMode,
 } from './CoilControlsPanel';
+export type { DiagnosticsPanelElements, DiagnosticsViewer } from './DiagnosticsPanel';
+export type { GalleryPanelElements, GalleryViewer } from './GalleryPanel';
@@ -0,0 +1,103 @@
+/**
+ * Tests for SourcePickerController
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SourcePickerController,
+  type SourcePickerControllerElements,
+} from './SourcePickerController';
+
+function createMockElements(): SourcePickerControllerElements {
+  const container = document.createElement('div');
+  const select = document.createElement('select');
+  container.appendChild(select);
+  return { container, select };
+}
+
+describe('SourcePickerController', () => {
+  let elements: SourcePickerControllerElements;
+  let onSelect: ReturnType<typeof vi.fn>;
+  let controller: SourcePickerController;
+
+  beforeEach(() => {
+    elements = createMockElements();
+    onSelect = vi.fn();
+    controller = new SourcePickerController({ elements, onSelect });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  describe('update', () => {
+    it('stays hidden for confident detection', () => {
+      controller.update({ sourceId: 'claude-code', confidence: 1, candidates: [] });
+      expect(controller.isVisible()).toBe(false);
+    });
+
+    it('stays hidden without a detection', () => {
+      controller.update(null);
+      expect(controller.isVisible()).toBe(false);
+    });
+
+    it('shows candidates when detection is ambiguous', () => {
+      controller.update({
+        sourceId: 'anthropic-api',
+        confidence: 0.6,
+        candidates: [{ sourceId: 'openai', confidence: 0.5 }],
+      });
+
+      expect(controller.isVisible()).toBe(true);
+      const options = Array.from(elements.select.options);
+      expect(options.map(o => o.value)).toEqual(['anthropic-api', 'openai']);
+      expect(options[0].textContent).toBe('Anthropic API (60%)');
+      expect(options[1].textContent).toBe('OpenAI (50%)');
+      expect(elements.select.value).toBe('anthropic-api');
+    });
+
+    it('falls back to the source id for unregistered sources', () => {
+      controller.update({
+        sourceId: 'mystery',
+        confidence: 0.5,
+        candidates: [{ sourceId: 'other', confidence: 0.4 }],
+      });
+      expect(elements.select.options[0].textContent).toBe('mystery (50%)');
+    });
+
+    it('hides again when a later detection is confident', () => {
+      controller.update({ sourceId: 'a', confidence: 0.5, candidates: [{ sourceId: 'b', confidence: 0.5 }] });
+      controller.update({ sourceId: 'a', confidence: 1, candidates: [] });
+      expect(controller.isVisible()).toBe(false);
+    });
+  });
+
+  describe('selection', () => {
+    beforeEach(() => {
+      controller.update({
+        sourceId: 'anthropic-api',
+        confidence: 0.6,
+        candidates: [{ sourceId: 'openai', confidence: 0.5 }],
+      });
+    });
+
+    it('reports a newly chosen source', () => {
+      elements.select.value = 'openai';
+      elements.select.dispatchEvent(new Event('change'));
+      expect(onSelect).toHaveBeenCalledWith('openai');
+    });
+
+    it('ignores re-selecting the current source', () => {
+      elements.select.value = 'anthropic-api';
+      elements.select.dispatchEvent(new Event('change'));
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('ignores changes after dispose', () => {
+      controller.dispose();
+      elements.select.value = 'openai';
+      elements.select.dispatchEvent(new Event('change'));
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * SourcePickerController
+ *
+ * Lets the user override the detected trace source when detection is ambiguous:
+ * - Shown only when the best parser's confidence is low or a runner-up is close
+ * - Lists the detected source and runner-up candidates with their confidence
+ * - Reports the chosen source so the trace can be re-parsed with it
+ */
+
+import { sourceRegistry } from '../../config';
+import { isAmbiguousDetection, type SourceDetection } from '../../data/parsers';
+import { t } from '../../i18n';
+
+/**
+ * DOM elements for SourcePickerController
+ */
+export interface SourcePickerControllerElements {
+  /** Container shown only when detection is ambiguous */
+  container: HTMLElement;
+  /** Select listing candidate sources */
+  select: HTMLSelectElement;
+}
+
+/**
+ * Configuration options for SourcePickerController
+ */
+export interface SourcePickerControllerOptions {
+  /** DOM elements */
+  elements: SourcePickerControllerElements;
+  /** Called when the user picks a different source */
+  onSelect: (sourceId: string) => void;
+}
+
+export class SourcePickerController {
+  private elements: SourcePickerControllerElements;
+  private onSelect: (sourceId: string) => void;
+  private currentSourceId: string | null = null;
+  private disposed = false;
+
+  // Bound handlers for cleanup
+  private boundHandleChange: () => void;
+
+  constructor(options: SourcePickerControllerOptions) {
+    this.elements = options.elements;
+    this.onSelect = options.onSelect;
+
+    this.boundHandleChange = this.handleChange.bind(this);
+    this.elements.select.addEventListener('change', this.boundHandleChange);
+  }
+
+  /**
+   * Handle select change - report the new source
+   */
+  private handleChange(): void {
+    if (this.disposed) return;
+
+    const sourceId = this.elements.select.value;
+    if (!sourceId || sourceId === this.currentSourceId) return;
+
+    this.currentSourceId = sourceId;
+    this.onSelect(sourceId);
+  }
+
+  /**
+   * Update the picker from a detection result.
+   * Hides the picker unless detection is ambiguous.
+   */
+  public update(detection: SourceDetection | null): void {
+    if (this.disposed) return;
+
+    if (!detection || !isAmbiguousDetection(detection)) {
+      this.hide();
+      return;
+    }
+
+    const { select, container } = this.elements;
+    const options = [
+      { sourceId: detection.sourceId, confidence: detection.confidence },
+      ...detection.candidates,
+    ];
+
+    select.innerHTML = '';
+    for (const { sourceId, confidence } of options) {
+      const option = document.createElement('option');
+      option.value = sourceId;
+      option.textContent = `${sourceRegistry.get(sourceId)?.name ?? sourceId} (${Math.round(confidence * 100)}%)`;
+      select.appendChild(option);
+    }
+
+    select.value = detection.sourceId;
+    this.currentSourceId = detection.sourceId;
+    container.title = t('toolbar.sourceAmbiguous');
+    container.classList.add('visible');
+  }
+
+  /**
+   * Check if the picker is currently visible
+   */
+  public isVisible(): boolean {
+    return this.elements.container.classList.contains('visible');
+  }
+
+  /**
+   * Hide the picker
+   */
+  public hide(): void {
+    if (this.disposed) return;
+
+    this.elements.container.classList.remove('visible');
+    this.currentSourceId = null;
+  }
+
+  /**
+   * Dispose and cleanup
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.elements.select.removeEventListener('change', this.boundHandleChange);
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Source picker module
+ */
+
+export { SourcePickerController } from './SourcePickerController';
+export type {
+  SourcePickerControllerElements,
+  SourcePickerControllerOptions,
+} from './SourcePickerController';
@@ -16,7 +16,8 @@ export type MetricKey =
   | 'inputTokens'
   | 'thinkingCount'
   | 'toolCount'
-  | 'contentLength';
+  | 'contentLength'
+  | 'contextTokens';
 
 /**
  * Cluster metrics data structure (from Viewer)
@@ -29,6 +30,36 @@ export interface ClusterMetrics {
   thinkingCount: number;
   toolCount: number;
   contentLength: number;
+  contextTokens: number;
+  model?: string;
+}
+
+/**
+ * Per-agent token totals and coil state (from Viewer)
+ */
+export interface AgentMetrics {
+  agentId: string;
+  /** Cluster the agent's coil hangs from */
+  spawnClusterIndex: number;
+  clusterCount: number;
+  totalTokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Whether the agent's coil is folded into its spawning cluster */
+  collapsed: boolean;
+}
+
+/**
+ * Compaction boundary on the main coil (from Viewer)
+ */
+export interface CompactionMarker {
+  /** First cluster after the boundary */
+  clusterIndex: number;
+  kind: 'compact' | 'summary';
+  summary?: string;
+  trigger?: string;
+  /** Context size in tokens just before compacting */
+  preTokens?: number;
 }
 
 /**
@@ -74,6 +105,15 @@ export interface ViewerInterface {
   clearAllHighlights(): void;
 }
 
+/**
+ * Viewer interface required by MetricsPanel
+ */
+export interface MetricsViewer extends ViewerInterface {
+  getAgentMetrics(): AgentMetrics[];
+  toggleAgentCoil(agentId: string): void;
+  getCompactionBoundaries(): CompactionMarker[];
+}
+
 /**
  * DOM elements required by MetricsPanel
  */
@@ -81,4 +121,10 @@ export interface MetricsPanelElements {
   container: HTMLElement;
   rangeLabel?: HTMLElement | null;
   tooltip?: HTMLElement | null;
+  /** List of sub-agents with their token totals, hidden when there are none */
+  agentList?: HTMLElement | null;
+  /** Wrapper of the reset toggle, hidden when there are no compactions */
+  compactionOption?: HTMLElement | null;
+  /** Checkbox to scale charts and totals per stretch between compactions */
+  resetToggle?: HTMLInputElement | null;
 }
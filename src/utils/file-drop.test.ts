@@ -0,0 +1,167 @@
+/**
+ * Unit tests for FileWatcher
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FileWatcher, initFileDrop } from './file-drop';
+
+/**
+ * Minimal File stand-in (jsdom's File lacks text/arrayBuffer)
+ */
+function fakeFile(name: string, content: string, lastModified: number): File {
+  const bytes = new TextEncoder().encode(content);
+  return {
+    name,
+    size: bytes.length,
+    lastModified,
+    text: async () => content,
+    slice: (start: number) => ({
+      arrayBuffer: async () => bytes.slice(start).buffer,
+    }),
+  } as unknown as File;
+}
+
+describe('FileWatcher', () => {
+  let current: File;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    const handle = { kind: 'file', name: 'session.jsonl', getFile: async () => current };
+    Object.assign(window, { showOpenFilePicker: async () => [handle] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (window as unknown as Record<string, unknown>).showOpenFilePicker;
+  });
+
+  async function poll(): Promise<void> {
+    await vi.advanceTimersByTimeAsync(1000);
+  }
+
+  it('delivers appended complete lines only', async () => {
+    const onChange = vi.fn();
+    const onAppend = vi.fn(() => true);
+    const watcher = new FileWatcher({ onChange, onAppend });
+
+    current = fakeFile('session.jsonl', '{"a":1}\n', 1);
+    const opened = await watcher.openAndWatch();
+    expect(opened).toEqual({ content: '{"a":1}\n', filename: 'session.jsonl' });
+
+    // A partial line waits for the rest of it
+    current = fakeFile('session.jsonl', '{"a":1}\n{"b":2}\n{"c"', 2);
+    await poll();
+    expect(onAppend).toHaveBeenLastCalledWith('{"b":2}\n', 'session.jsonl');
+
+    current = fakeFile('session.jsonl', '{"a":1}\n{"b":2}\n{"c":3}\n', 3);
+    await poll();
+    expect(onAppend).toHaveBeenLastCalledWith('{"c":3}\n', 'session.jsonl');
+    expect(onAppend).toHaveBeenCalledTimes(2);
+    expect(onChange).not.toHaveBeenCalled();
+
+    watcher.stop();
+  });
+
+  it('reloads the whole file when it shrinks', async () => {
+    const onChange = vi.fn();
+    const onAppend = vi.fn(() => true);
+    const watcher = new FileWatcher({ onChange, onAppend });
+
+    current = fakeFile('session.jsonl', '{"a":1}\n{"b":2}\n', 1);
+    await watcher.openAndWatch();
+
+    current = fakeFile('session.jsonl', '{"a":1}\n', 2);
+    await poll();
+    expect(onChange).toHaveBeenCalledWith('{"a":1}\n', 'session.jsonl');
+    expect(onAppend).not.toHaveBeenCalled();
+
+    watcher.stop();
+  });
+
+  it('reloads the whole file when the append is refused', async () => {
+    const onChange = vi.fn();
+    const onAppend = vi.fn(() => false);
+    const watcher = new FileWatcher({ onChange, onAppend });
+
+    current = fakeFile('session.jsonl', '{"a":1}\n', 1);
+    await watcher.openAndWatch();
+
+    current = fakeFile('session.jsonl', '{"a":1}\n{"b":2}\n', 2);
+    await poll();
+    expect(onAppend).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith('{"a":1}\n{"b":2}\n', 'session.jsonl');
+
+    watcher.stop();
+  });
+
+  it('reloads the whole file without onAppend', async () => {
+    const onChange = vi.fn();
+    const watcher = new FileWatcher({ onChange });
+
+    current = fakeFile('session.jsonl', '{"a":1}\n', 1);
+    await watcher.openAndWatch();
+
+    current = fakeFile('session.jsonl', '{"a":1}\n{"b":2}\n', 2);
+    await poll();
+    expect(onChange).toHaveBeenCalledWith('{"a":1}\n{"b":2}\n', 'session.jsonl');
+
+    watcher.stop();
+  });
+});
+
+describe('initFileDrop', () => {
+  function fileEntry(path: string): FileSystemEntry {
+    const name = path.split('/').pop()!;
+    return {
+      isFile: true,
+      isDirectory: false,
+      name,
+      fullPath: path,
+      file: (resolve: (file: File) => void) => resolve(new File(['[]'], name)),
+    } as unknown as FileSystemEntry;
+  }
+
+  function folderEntry(path: string, children: FileSystemEntry[]): FileSystemEntry {
+    let read = false;
+    return {
+      isFile: false,
+      isDirectory: true,
+      name: path.split('/').pop(),
+      fullPath: path,
+      createReader: () => ({
+        readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+          resolve(read ? [] : children);
+          read = true;
+        },
+      }),
+    } as unknown as FileSystemEntry;
+  }
+
+  it('keeps the folder of each file in dropped folders', async () => {
+    const target = document.createElement('div');
+    const onDropFiles = vi.fn();
+    const cleanup = initFileDrop({ target, onDrop: vi.fn(), onDropFiles });
+
+    const entries = ['task-1', 'task-2'].map(task => folderEntry(`/${task}`, [
+      fileEntry(`/${task}/api_conversation_history.json`),
+      fileEntry(`/${task}/ui_messages.json`),
+    ]));
+    const drop = new Event('drop');
+    Object.defineProperty(drop, 'dataTransfer', {
+      value: {
+        files: entries,
+        items: entries.map(entry => ({ kind: 'file', webkitGetAsEntry: () => entry })),
+      },
+    });
+    target.dispatchEvent(drop);
+
+    await vi.waitFor(() => expect(onDropFiles).toHaveBeenCalled());
+    expect(onDropFiles.mock.calls[0][0].map((file: File) => file.webkitRelativePath)).toEqual([
+      'task-1/api_conversation_history.json',
+      'task-1/ui_messages.json',
+      'task-2/api_conversation_history.json',
+      'task-2/ui_messages.json',
+    ]);
+    cleanup();
+  });
+});
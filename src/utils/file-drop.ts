@@ -8,7 +8,7 @@ import { decompress as decompressZstd } from 'fzstd';
  * Maximum decompressed file size (100MB)
  * Prevents decompression bomb attacks
  */
-const MAX_DECOMPRESSED_SIZE = 100 * 1024 * 1024;
+export const MAX_DECOMPRESSED_SIZE = 100 * 1024 * 1024;
 
 /**
  * Error thrown when decompressed content exceeds size limit
@@ -38,23 +38,34 @@ interface FSAPickerOptions {
 
 /**
  * File watcher using File System Access API
- * Polls for changes and calls callback when file is modified
+ * Polls for changes and calls callback when file is modified.
+ * With onAppend, growth of a plain-text file is delivered as just the
+ * new complete lines instead of re-reading the whole file.
  */
 export class FileWatcher {
   private handle: FSAFileHandle | null = null;
   private lastModified: number = 0;
   private lastSize: number = 0;
+  /** Byte offset just past the last line delivered, or null if the next change needs a full read */
+  private appendOffset: number | null = null;
   private intervalId: number | null = null;
   private pollInterval: number;
   private onChange: (content: string, filename: string) => void;
+  private onAppend?: (text: string, filename: string) => boolean;
   private onError?: (error: Error) => void;
 
   constructor(options: {
     onChange: (content: string, filename: string) => void;
+    /**
+     * Called with newly appended complete lines; return false to get the
+     * whole file through onChange instead. Without it every change is a full reload.
+     */
+    onAppend?: (text: string, filename: string) => boolean;
     onError?: (error: Error) => void;
     pollInterval?: number;
   }) {
     this.onChange = options.onChange;
+    this.onAppend = options.onAppend;
     this.onError = options.onError;
     this.pollInterval = options.pollInterval ?? 1000;
   }
@@ -97,6 +108,7 @@ export class FileWatcher {
       this.lastSize = file.size;
 
       const content = await readFileContentFromFile(file);
+      this.appendOffset = getAppendOffset(file, content);
 
       // Start polling for changes
       this.startPolling();
@@ -128,10 +140,16 @@ export class FileWatcher {
 
         // Check if file was modified (by time or size)
         if (file.lastModified !== this.lastModified || file.size !== this.lastSize) {
+          const grew = file.size > this.lastSize;
           this.lastModified = file.lastModified;
           this.lastSize = file.size;
 
+          if (grew && this.appendOffset !== null && await this.readAppended(file, this.appendOffset)) {
+            return;
+          }
+
           const content = await readFileContentFromFile(file);
+          this.appendOffset = getAppendOffset(file, content);
           this.onChange(content, getDisplayName(file.name));
         }
       } catch (err) {
@@ -142,6 +160,23 @@ export class FileWatcher {
     }, this.pollInterval);
   }
 
+  /**
+   * Deliver the complete lines written after offset.
+   * A partially written last line is left for the next poll.
+   * @returns false if the change has to be read in full instead
+   */
+  private async readAppended(file: File, offset: number): Promise<boolean> {
+    if (!this.onAppend) return false;
+
+    const bytes = new Uint8Array(await file.slice(offset).arrayBuffer());
+    const end = bytes.lastIndexOf(0x0a) + 1;
+    if (end === 0) return true;
+
+    const appended = this.onAppend(new TextDecoder().decode(bytes.subarray(0, end)), getDisplayName(file.name));
+    if (appended) this.appendOffset = offset + end;
+    return appended;
+  }
+
   /**
    * Stop watching the file
    */
@@ -151,6 +186,7 @@ export class FileWatcher {
       this.intervalId = null;
     }
     this.handle = null;
+    this.appendOffset = null;
   }
 
   /**
@@ -193,6 +229,15 @@ async function readFileContentFromFile(file: File): Promise<string> {
   return await file.text();
 }
 
+/**
+ * Where appended lines start for a plain-text file that was read in full.
+ * Compressed files, and files read mid-line, can't be followed by appending.
+ */
+function getAppendOffset(file: File, content: string): number | null {
+  if (getDisplayName(file.name) !== file.name) return null;
+  return content.length === 0 || content.endsWith('\n') ? file.size : null;
+}
+
 /**
  * Get display name by stripping compression extensions
  */
@@ -211,6 +256,16 @@ export interface FileDropOptions {
   overlay?: HTMLElement;
   /** Callback when file is dropped */
   onDrop: (content: string, filename: string) => void;
+  /**
+   * Callback when a single file is dropped, with the file unread and its
+   * display name. Takes precedence over onDrop.
+   */
+  onDropFile?: (file: File, filename: string) => void;
+  /**
+   * Callback when several files or a folder are dropped, with the accepted
+   * files unread. Without it only the first dropped file is loaded.
+   */
+  onDropFiles?: (files: File[]) => void;
   /** Callback for errors */
   onError?: (error: Error) => void;
   /** Accepted file extensions (e.g., ['.json']) */
@@ -221,8 +276,15 @@ export interface FileDropOptions {
  * Decompress a gzipped file using native browser API with size limit
  */
 export async function decompressGzip(file: File): Promise<string> {
+  return decompressGzipStream(file.stream());
+}
+
+/**
+ * Decompress a gzipped byte stream with size limit
+ */
+export async function decompressGzipStream(stream: ReadableStream<BufferSource>): Promise<string> {
   const ds = new DecompressionStream('gzip');
-  const reader = file.stream().pipeThrough(ds).getReader();
+  const reader = stream.pipeThrough(ds).getReader();
   const chunks: Uint8Array[] = [];
   let totalBytes = 0;
 
@@ -286,11 +348,60 @@ async function readFileContent(file: File): Promise<string> {
   return await file.text();
 }
 
+/**
+ * Get a file's extension, ignoring compression extensions (.jsonl.gz -> .jsonl)
+ */
+function getExtension(name: string): string {
+  return '.' + getDisplayName(name.toLowerCase()).split('.').pop();
+}
+
+/**
+ * Get the file system entries of a drop, if the browser exposes them
+ */
+function getDroppedEntries(dataTransfer: DataTransfer): FileSystemEntry[] {
+  const entries: FileSystemEntry[] = [];
+  for (const item of Array.from(dataTransfer.items ?? [])) {
+    const entry = item.kind === 'file' ? item.webkitGetAsEntry?.() : null;
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Read all files under dropped entries, descending into folders.
+ * Files get the relative path a folder selection gives them (e.g.
+ * "task-1/ui_messages.json"), so files of different folders stay apart.
+ */
+async function readEntryFiles(entries: FileSystemEntry[]): Promise<File[]> {
+  const files: File[] = [];
+
+  for (const entry of entries) {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      // Files read from entries have an empty webkitRelativePath
+      if (!file.webkitRelativePath) {
+        Object.defineProperty(file, 'webkitRelativePath', { value: entry.fullPath.replace(/^\//, '') });
+      }
+      files.push(file);
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns children in batches until it returns an empty one
+      let batch: FileSystemEntry[];
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        files.push(...await readEntryFiles(batch));
+      } while (batch.length > 0);
+    }
+  }
+
+  return files;
+}
+
 /**
  * Initialize file drop handling on an element
  */
 export function initFileDrop(options: FileDropOptions): () => void {
-  const { target, overlay, onDrop, onError, accept = ['.json'] } = options;
+  const { target, overlay, onDrop, onDropFile, onDropFiles, onError, accept = ['.json'] } = options;
 
   let dragCounter = 0;
 
@@ -338,32 +449,42 @@ export function initFileDrop(options: FileDropOptions): () => void {
       return;
     }
 
+    // Entries must be taken before the first await, while the drop data is still readable
+    const entries = getDroppedEntries(e.dataTransfer!);
+    if (onDropFiles && (files.length > 1 || entries.some(entry => entry.isDirectory))) {
+      try {
+        const dropped = entries.length > 0 ? await readEntryFiles(entries) : Array.from(files);
+        const accepted = dropped.filter(file => accept.includes(getExtension(file.name)));
+        if (accepted.length === 0) {
+          onError?.(new Error(`No supported files found. Expected: ${accept.join(', ')}`));
+          return;
+        }
+        onDropFiles(accepted);
+      } catch (err) {
+        onError?.(err instanceof Error ? err : new Error(String(err)));
+      }
+      return;
+    }
+
     const file = files[0];
-    const name = file.name.toLowerCase();
 
     // Check extension, handling compressed variants (.jsonl.gz, .jsonl.zst)
-    const isGzipped = name.endsWith('.gz');
-
-    let baseName = name;
-    if (isGzipped) baseName = name.slice(0, -3);
-    else if (name.endsWith('.zstd')) baseName = name.slice(0, -5);
-    else if (name.endsWith('.zst')) baseName = name.slice(0, -4);
-
-    const extension = '.' + baseName.split('.').pop();
+    const extension = getExtension(file.name);
 
     if (!accept.includes(extension)) {
       onError?.(new Error(`Unsupported file type: ${extension}. Expected: ${accept.join(', ')}`));
       return;
     }
 
+    if (onDropFile) {
+      onDropFile(file, getDisplayName(file.name));
+      return;
+    }
+
     try {
       const content = await readFileContent(file);
       // Use original filename but strip compression extension for display
-      let displayName = file.name;
-      if (isGzipped) displayName = file.name.slice(0, -3);
-      else if (file.name.toLowerCase().endsWith('.zstd')) displayName = file.name.slice(0, -5);
-      else if (file.name.toLowerCase().endsWith('.zst')) displayName = file.name.slice(0, -4);
-      onDrop(content, displayName);
+      onDrop(content, getDisplayName(file.name));
     } catch (err) {
       onError?.(err instanceof Error ? err : new Error(String(err)));
     }
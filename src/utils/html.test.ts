@@ -0,0 +1,30 @@
+/**
+ * Tests for HTML helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeHtml } from './html';
+
+describe('escapeHtml', () => {
+  it('escapes HTML special characters', () => {
+    expect(escapeHtml('<script>alert("xss")</script>')).toBe(
+      '&lt;script&gt;alert("xss")&lt;/script&gt;'
+    );
+  });
+
+  it('escapes ampersands', () => {
+    expect(escapeHtml('foo & bar')).toBe('foo &amp; bar');
+  });
+
+  it('escapes quotes', () => {
+    expect(escapeHtml('say "hello"')).toBe('say "hello"');
+  });
+
+  it('handles empty string', () => {
+    expect(escapeHtml('')).toBe('');
+  });
+
+  it('passes through plain text unchanged', () => {
+    expect(escapeHtml('Hello World')).toBe('Hello World');
+  });
+});
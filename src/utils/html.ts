@@ -0,0 +1,12 @@
+/**
+ * HTML helpers shared by the panels, search and export
+ */
+
+/**
+ * Escape HTML to prevent XSS
+ */
+export function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
@@ -38,6 +38,10 @@ export interface RecentTrace {
   lastOpened: number;
   /** Number of turns */
   turnCount: number;
+  /** Number of sub-agents merged into the trace */
+  agentCount?: number;
+  /** Source the user chose over the detected one, used again on reload */
+  sourceId?: string;
   /** File content for reload */
   content: string;
   /** File size in bytes */
@@ -74,7 +78,9 @@ export async function saveRecentTrace(
   filename: string,
   title: string,
   turnCount: number,
-  content: string
+  content: string,
+  agentCount?: number,
+  sourceId?: string
 ): Promise<void> {
   const db = await openDB();
 
@@ -84,6 +90,8 @@ export async function saveRecentTrace(
     title,
     lastOpened: Date.now(),
     turnCount,
+    agentCount,
+    sourceId,
     content,
     size: new Blob([content]).size,
   };
@@ -214,6 +222,30 @@ export async function updateTraceCustomName(id: string, customName: string): Pro
   });
 }
 
+/**
+ * Update the source a trace is parsed with
+ */
+export async function updateTraceSourceId(id: string, sourceId: string): Promise<void> {
+  const db = await openDB();
+  const trace = await getTraceById(id);
+
+  if (!trace) {
+    // Trace not found - silently ignore (might have been cleared)
+    return;
+  }
+
+  trace.sourceId = sourceId;
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.put(trace);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
 /**
  * Update the UI state for a trace
  */
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for session bundles
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bundleSessionFiles,
+  getAgentIdFromFilename,
+  isAgentFile,
+  readSessionId,
+} from './session-bundle';
+
+function jsonl(...records: object[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n') + '\n';
+}
+
+function lines(content: string): Record<string, unknown>[] {
+  return content.trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('getAgentIdFromFilename', () => {
+  it('reads the ID from agent file names', () => {
+    expect(getAgentIdFromFilename('agent-a1b2c3.jsonl')).toBe('a1b2c3');
+    expect(getAgentIdFromFilename('project/agent-a1b2c3.jsonl')).toBe('a1b2c3');
+  });
+
+  it('returns null for other files', () => {
+    expect(getAgentIdFromFilename('0b7e9c1d.jsonl')).toBeNull();
+    expect(getAgentIdFromFilename('agent-notes.json')).toBeNull();
+    expect(isAgentFile('session.jsonl')).toBe(false);
+    expect(isAgentFile('agent-x.jsonl')).toBe(true);
+  });
+});
+
+describe('readSessionId', () => {
+  it('returns the first sessionId, skipping malformed lines', () => {
+    expect(readSessionId('not json\n{"type":"summary"}\n{"sessionId":"s1"}\n{"sessionId":"s2"}')).toBe('s1');
+  });
+
+  it('stops at the first sessionId', () => {
+    expect(readSessionId('{"sessionId":"s1"}\n{not json')).toBe('s1');
+  });
+
+  it('returns undefined without a sessionId', () => {
+    expect(readSessionId('{"type":"summary"}')).toBeUndefined();
+  });
+});
+
+describe('bundleSessionFiles', () => {
+  const main = { name: 'session.jsonl', content: jsonl({ uuid: 'u1', sessionId: 's1' }) };
+
+  it('returns null without a main session', () => {
+    expect(bundleSessionFiles([{ name: 'agent-a.jsonl', content: '{}' }])).toBeNull();
+  });
+
+  it('appends agent files of the same session in name order', () => {
+    const bundle = bundleSessionFiles([
+      { name: 'agent-b.jsonl', content: jsonl({ uuid: 'b1', sessionId: 's1', isSidechain: true, agentId: 'b' }) },
+      main,
+      { name: 'agent-a.jsonl', content: jsonl({ uuid: 'a1', sessionId: 's1', isSidechain: true, agentId: 'a' }) },
+    ])!;
+
+    expect(bundle.filename).toBe('session.jsonl');
+    expect(bundle.agentFiles).toEqual(['agent-a.jsonl', 'agent-b.jsonl']);
+    expect(lines(bundle.content).map(record => record.uuid)).toEqual(['u1', 'a1', 'b1']);
+  });
+
+  it('skips agent files from other sessions', () => {
+    const bundle = bundleSessionFiles([
+      main,
+      { name: 'agent-a.jsonl', content: jsonl({ uuid: 'a1', sessionId: 's2' }) },
+    ])!;
+
+    expect(bundle.agentFiles).toEqual([]);
+    expect(bundle.ignoredFiles).toEqual(['agent-a.jsonl']);
+    expect(lines(bundle.content)).toHaveLength(1);
+  });
+
+  it('lists the older main sessions as ignored', () => {
+    const bundle = bundleSessionFiles([
+      { ...main, lastModified: 2 },
+      { name: 'project/older.jsonl', content: jsonl({ uuid: 'o1', sessionId: 's0' }), lastModified: 1 },
+    ])!;
+
+    expect(bundle.filename).toBe('session.jsonl');
+    expect(bundle.ignoredFiles).toEqual(['older.jsonl']);
+  });
+
+  it('tags agent lines with the ID from the file name', () => {
+    const bundle = bundleSessionFiles([
+      main,
+      { name: 'agent-a.jsonl', content: jsonl({ uuid: 'a1', sessionId: 's1' }) },
+    ])!;
+
+    expect(lines(bundle.content)[1]).toMatchObject({ uuid: 'a1', isSidechain: true, agentId: 'a' });
+  });
+
+  it('picks the newest main session', () => {
+    const bundle = bundleSessionFiles([
+      { name: 'new.jsonl', content: jsonl({ sessionId: 's2' }), lastModified: 2 },
+      { name: 'old.jsonl', content: jsonl({ sessionId: 's1' }), lastModified: 1 },
+      { name: 'agent-a.jsonl', content: jsonl({ sessionId: 's1' }) },
+    ])!;
+
+    expect(bundle.filename).toBe('new.jsonl');
+    expect(bundle.agentFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Session bundles
+ *
+ * Newer Claude Code versions write each sub-agent transcript to its own
+ * `agent-<id>.jsonl` file next to the main session file. These helpers pick
+ * the main session out of a set of files, find the agent files that belong
+ * to it (by sessionId), and merge them into one JSONL document that the
+ * Claude Code parser reads as a single conversation.
+ */
+
+/**
+ * A trace file that has already been read (and decompressed)
+ */
+export interface TraceFile {
+  /** File name without compression extension */
+  name: string;
+  /** Decompressed text content */
+  content: string;
+  /** Last modified time, used to pick the newest main session */
+  lastModified?: number;
+}
+
+/**
+ * Main session merged with its agent files
+ */
+export interface SessionBundle {
+  /** Merged JSONL content */
+  content: string;
+  /** Name of the main session file */
+  filename: string;
+  /** Names of the agent files merged in, sorted */
+  agentFiles: string[];
+  /** Names of the files left out: other main sessions and agent files of other sessions */
+  ignoredFiles: string[];
+}
+
+const AGENT_FILE_PATTERN = /^agent-(.+)\.jsonl$/i;
+
+/**
+ * Get a file name without its folder
+ */
+function baseName(name: string): string {
+  return name.split('/').pop() ?? name;
+}
+
+/**
+ * Get the agent ID from a sub-agent file name (`agent-<id>.jsonl`), or null
+ */
+export function getAgentIdFromFilename(name: string): string | null {
+  return AGENT_FILE_PATTERN.exec(baseName(name))?.[1] ?? null;
+}
+
+/**
+ * Check whether a file name is a sub-agent transcript
+ */
+export function isAgentFile(name: string): boolean {
+  return getAgentIdFromFilename(name) !== null;
+}
+
+/**
+ * Parse the non-empty JSONL lines of a file, skipping malformed ones
+ */
+function parseLines(content: string): Record<string, unknown>[] {
+  const records: Record<string, unknown>[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const record = JSON.parse(trimmed);
+      if (record && typeof record === 'object' && !Array.isArray(record)) records.push(record);
+    } catch {
+      // Malformed lines are reported by the parser itself
+    }
+  }
+  return records;
+}
+
+/**
+ * Get the first sessionId recorded in a JSONL file.
+ * Lines are read one at a time and reading stops at the first sessionId,
+ * which is usually on the first line.
+ */
+export function readSessionId(content: string): string | undefined {
+  let start = 0;
+  while (start < content.length) {
+    const end = content.indexOf('\n', start);
+    const line = content.slice(start, end === -1 ? undefined : end).trim();
+    start = end === -1 ? content.length : end + 1;
+    if (!line) continue;
+    try {
+      const record = JSON.parse(line);
+      if (typeof record?.sessionId === 'string') return record.sessionId;
+    } catch {
+      // Malformed lines are reported by the parser itself
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tag an agent file's lines with its agent ID and mark them as sidechain,
+ * for versions that only record the ID in the file name
+ */
+function tagAgentLines(content: string, agentId: string): string {
+  return parseLines(content)
+    .map(record => JSON.stringify({ ...record, isSidechain: true, agentId: record.agentId ?? agentId }))
+    .join('\n');
+}
+
+/**
+ * Merge a main session file with the agent files that belong to it.
+ *
+ * The main session is the newest non-agent file. Agent files are kept when
+ * their sessionId matches the main session's (or either has none), and are
+ * appended in name order after the main session.
+ *
+ * @returns null if no file could serve as the main session
+ */
+export function bundleSessionFiles(files: TraceFile[]): SessionBundle | null {
+  const mainCandidates = files.filter(file => !isAgentFile(file.name));
+  if (mainCandidates.length === 0) return null;
+
+  const main = mainCandidates.reduce((newest, file) =>
+    (file.lastModified ?? 0) > (newest.lastModified ?? 0) ? file : newest
+  );
+  const sessionId = readSessionId(main.content);
+
+  const agents: TraceFile[] = [];
+  const ignored = mainCandidates.filter(file => file !== main);
+  for (const file of files.filter(file => isAgentFile(file.name))) {
+    const agentSessionId = readSessionId(file.content);
+    const sameSession = !sessionId || !agentSessionId || agentSessionId === sessionId;
+    (sameSession ? agents : ignored).push(file);
+  }
+  agents.sort((a, b) => a.name.localeCompare(b.name));
+
+  const parts = [main.content.trimEnd()];
+  for (const agent of agents) {
+    const tagged = tagAgentLines(agent.content, getAgentIdFromFilename(agent.name)!);
+    if (tagged) parts.push(tagged);
+  }
+
+  return {
+    content: parts.join('\n') + '\n',
+    filename: baseName(main.name),
+    agentFiles: agents.map(agent => baseName(agent.name)),
+    ignoredFiles: ignored.map(file => baseName(file.name)).sort(),
+  };
+}
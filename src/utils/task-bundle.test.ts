@@ -0,0 +1,63 @@
+/**
+ * Unit tests for Cline task folders
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bundleClineTask, isClineTaskFile } from './task-bundle';
+
+const history = JSON.stringify([{ role: 'user', content: 'hi' }]);
+const ui = JSON.stringify([{ ts: 1, type: 'say', say: 'task', text: 'hi' }]);
+
+describe('isClineTaskFile', () => {
+  it('matches the history files by name', () => {
+    expect(isClineTaskFile('api_conversation_history.json')).toBe(true);
+    expect(isClineTaskFile('tasks/1751/ui_messages.json')).toBe(true);
+    expect(isClineTaskFile('task_metadata.json')).toBe(false);
+    expect(isClineTaskFile('session.jsonl')).toBe(false);
+  });
+});
+
+describe('bundleClineTask', () => {
+  it('combines the API history with the UI log', () => {
+    const bundle = bundleClineTask([
+      { name: 'ui_messages.json', content: ui },
+      { name: 'api_conversation_history.json', content: history },
+    ])!;
+
+    expect(bundle.filename).toBe('api_conversation_history.json');
+    expect(JSON.parse(bundle.content)).toEqual({
+      apiConversationHistory: [{ role: 'user', content: 'hi' }],
+      uiMessages: [{ ts: 1, type: 'say', say: 'task', text: 'hi' }],
+    });
+  });
+
+  it('names the task after its folder and picks the newest history', () => {
+    const bundle = bundleClineTask([
+      { name: 'tasks/1/api_conversation_history.json', content: '[]', lastModified: 1 },
+      { name: 'tasks/2/api_conversation_history.json', content: history, lastModified: 2 },
+    ])!;
+
+    const content = JSON.parse(bundle.content);
+    expect(content.taskId).toBe('2');
+    expect(content.apiConversationHistory).toHaveLength(1);
+    expect(content.uiMessages).toEqual([]);
+  });
+
+  it('takes the UI log from the same task folder as the history', () => {
+    const bundle = bundleClineTask([
+      { name: 'tasks/1/api_conversation_history.json', content: history, lastModified: 4 },
+      { name: 'tasks/1/ui_messages.json', content: ui, lastModified: 1 },
+      { name: 'tasks/2/api_conversation_history.json', content: '[]', lastModified: 2 },
+      { name: 'tasks/2/ui_messages.json', content: JSON.stringify([{ ts: 9, type: 'say', say: 'text' }]), lastModified: 5 },
+    ])!;
+
+    const content = JSON.parse(bundle.content);
+    expect(content.taskId).toBe('1');
+    expect(content.apiConversationHistory).toHaveLength(1);
+    expect(content.uiMessages).toEqual([{ ts: 1, type: 'say', say: 'task', text: 'hi' }]);
+  });
+
+  it('returns null without an API history', () => {
+    expect(bundleClineTask([{ name: 'ui_messages.json', content: ui }])).toBeNull();
+  });
+});
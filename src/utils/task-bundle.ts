@@ -0,0 +1,86 @@
+/**
+ * Cline task folders
+ *
+ * Cline-style VS Code agents (Cline, Roo Code) keep each task in its own
+ * folder holding `api_conversation_history.json` (the Anthropic-format
+ * messages sent to the model) and `ui_messages.json` (the timestamped
+ * `say`/`ask` events shown in the chat). These helpers pick the two files
+ * out of a set of files and combine them into one JSON document that the
+ * Cline parser reads as a single conversation.
+ */
+
+import type { TraceFile } from './session-bundle';
+
+/** File holding a task's messages as sent to the model */
+export const API_HISTORY_FILE = 'api_conversation_history.json';
+
+/** File holding a task's chat events */
+export const UI_MESSAGES_FILE = 'ui_messages.json';
+
+/**
+ * API history merged with the UI log of the same task
+ */
+export interface ClineTaskBundle {
+  /** Combined JSON document */
+  content: string;
+  /** Name of the API history file */
+  filename: string;
+}
+
+/**
+ * Get a file's base name
+ */
+function baseName(name: string): string {
+  return name.split('/').pop() ?? name;
+}
+
+/**
+ * Check whether a file name is one of a Cline task's history files
+ */
+export function isClineTaskFile(name: string): boolean {
+  const base = baseName(name).toLowerCase();
+  return base === API_HISTORY_FILE || base === UI_MESSAGES_FILE;
+}
+
+/**
+ * Pick the newest of the files with a base name
+ */
+function newest(files: TraceFile[], name: string): TraceFile | undefined {
+  return files
+    .filter(file => baseName(file.name).toLowerCase() === name)
+    .reduce<TraceFile | undefined>((latest, file) =>
+      !latest || (file.lastModified ?? 0) > (latest.lastModified ?? 0) ? file : latest, undefined);
+}
+
+/**
+ * Get the folder part of a file name, with its trailing slash
+ */
+function folderOf(name: string): string {
+  return name.slice(0, name.length - baseName(name).length);
+}
+
+/**
+ * Combine a task's API history with its UI log.
+ *
+ * The newest API history is used, together with the UI log from the same
+ * folder, so a folder holding several tasks loads the latest one. Names
+ * with a folder (`<task id>/api_conversation_history.json`) give the task its ID.
+ *
+ * @returns null if there is no API history
+ * @throws SyntaxError if a file is not valid JSON
+ */
+export function bundleClineTask(files: TraceFile[]): ClineTaskBundle | null {
+  const history = newest(files, API_HISTORY_FILE);
+  if (!history) return null;
+  const ui = newest(files.filter(file => folderOf(file.name) === folderOf(history.name)), UI_MESSAGES_FILE);
+
+  const folder = history.name.split('/').slice(-2, -1)[0];
+  return {
+    content: JSON.stringify({
+      ...(folder ? { taskId: folder } : {}),
+      apiConversationHistory: JSON.parse(history.content),
+      uiMessages: ui ? JSON.parse(ui.content) : [],
+    }),
+    filename: baseName(history.name),
+  };
+}